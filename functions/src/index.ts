@@ -677,3 +677,216 @@ export const indexPageForSearch = functions.firestore
       }
     }
   });
+
+// ==========================================
+// VERSION HISTORY RETENTION
+// ==========================================
+
+// Mirrors the client's history settings (src/lib/firebase/history.ts)
+const SNAPSHOT_INTERVAL = 10;
+const DEFAULT_HISTORY_RETENTION = { keepAllDays: 7, hourlyDays: 30 };
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// A page's state as versions store it in snapshots: content fields and blocks
+interface PageSnapshot {
+  page: Record<string, any>;
+  blocks: any[];
+}
+
+interface VersionDoc {
+  ref: admin.firestore.DocumentReference;
+  createdAt: number;
+  data: admin.firestore.DocumentData;
+}
+
+// Block data in versions is stored as JSON strings
+function decodeVersionField(value: any) {
+  return typeof value === 'string' ? JSON.parse(value) : value;
+}
+
+// Applies a version's changes to the page state before it
+// Same replay as applyVersion in src/lib/history/diff.ts
+function applyVersionToSnapshot(state: PageSnapshot, data: admin.firestore.DocumentData): PageSnapshot {
+  const page = { ...state.page };
+  let blocks = state.blocks;
+  Object.entries(data.diff || {}).forEach(([key, change]: [string, any]) => {
+    if (key === 'blocks') blocks = change.after || [];
+    else if (!['id', 'createdAt', 'updatedAt'].includes(key)) page[key] = change.after;
+  });
+
+  const blockChanges = decodeVersionField(data.blockChanges);
+  if (blockChanges) {
+    const byId = new Map<string, any>(blocks.map((block) => [block.id, block]));
+    blockChanges.forEach((change: any) => {
+      if (change.type === 'removed') byId.delete(change.blockId);
+      else if (change.after) byId.set(change.blockId, change.after);
+    });
+    const order: string[] = decodeVersionField(data.blockOrder)?.after || blocks.map((block) => block.id);
+    const listed = new Set(order);
+    blocks = [
+      ...order.map((id) => byId.get(id)).filter(Boolean),
+      ...[...byId.values()].filter((block) => !listed.has(block.id)),
+    ];
+  }
+  return { page, blocks };
+}
+
+// Picks the versions a retention policy keeps, from a page's versions oldest first:
+// - the latest version, and named or pinned ones
+// - every version younger than keepAllDays
+// - the last version of each hour up to hourlyDays old, then of each day
+// - everything up to the first snapshot, which older versions are rebuilt from
+//   (so histories from before snapshots are kept whole)
+function selectVersionsToKeep(
+  versions: VersionDoc[],
+  retention: { keepAllDays: number; hourlyDays: number },
+  now: number
+): Set<string> {
+  const keep = new Set<string>();
+  const lastInBucket = new Map<string, string>();
+  const firstSnapshot = versions.findIndex((version) => version.data.isSnapshot && version.data.snapshot);
+
+  versions.forEach((version, index) => {
+    const age = now - version.createdAt;
+    if (
+      firstSnapshot === -1 ||
+      index <= firstSnapshot ||
+      index === versions.length - 1 ||
+      version.data.name ||
+      version.data.pinned ||
+      age < retention.keepAllDays * DAY_MS
+    ) {
+      keep.add(version.ref.id);
+      return;
+    }
+    const bucket = age < retention.hourlyDays * DAY_MS
+      ? `h${Math.floor(version.createdAt / HOUR_MS)}`
+      : `d${Math.floor(version.createdAt / DAY_MS)}`;
+    lastInBucket.set(bucket, version.ref.id);
+  });
+
+  lastInBucket.forEach((id) => keep.add(id));
+  return keep;
+}
+
+// Firestore trigger: prunes a page's history per its workspace's retention policy
+// Runs every SNAPSHOT_INTERVAL versions rather than on each one. A version's diff
+// is relative to the version before it, so a kept version that follows pruned
+// ones is compacted into a full snapshot before they're deleted.
+export const pruneVersionHistory = functions.firestore
+  .document('pages/{pageId}/versions/{versionId}')
+  .onCreate(async (snap, context) => {
+    const pageId = context.params.pageId;
+    const version = snap.data().version;
+    if (!version || version % SNAPSHOT_INTERVAL !== 0) return;
+
+    try {
+      // 1. The workspace's retention policy (pages kept only in the browser have none)
+      const pageDoc = await db.collection('pages').doc(pageId).get();
+      const workspaceId = pageDoc.data()?.workspaceId;
+      const workspaceDoc = workspaceId ? await db.collection('workspaces').doc(workspaceId).get() : null;
+      const retention = {
+        ...DEFAULT_HISTORY_RETENTION,
+        ...(workspaceDoc?.data()?.settings?.historyRetention || {}),
+      };
+
+      // 2. Every version, oldest first, and the ones to keep
+      const versionsSnapshot = await db
+        .collection('pages')
+        .doc(pageId)
+        .collection('versions')
+        .orderBy('createdAt', 'asc')
+        .get();
+      const versions: VersionDoc[] = versionsSnapshot.docs.map((doc) => ({
+        ref: doc.ref,
+        createdAt: doc.data().createdAt?.toMillis?.() ?? Date.now(),
+        data: doc.data(),
+      }));
+      const keep = selectVersionsToKeep(versions, retention, Date.now());
+      if (keep.size === versions.length) return;
+
+      // 3. Replay the history; kept versions after a pruned one become snapshots
+      const writes: Array<(batch: admin.firestore.WriteBatch) => void> = [];
+      let state: PageSnapshot | null = null;
+      versions.forEach((entry, index) => {
+        const snapshot = entry.data.isSnapshot ? decodeVersionField(entry.data.snapshot) : null;
+        state = snapshot || (state ? applyVersionToSnapshot(state, entry.data) : null);
+
+        if (!keep.has(entry.ref.id)) {
+          writes.push((batch) => batch.delete(entry.ref));
+        } else if (index > 0 && !keep.has(versions[index - 1].ref.id) && !snapshot && state) {
+          const compacted = JSON.stringify(state);
+          writes.push((batch) => batch.update(entry.ref, { isSnapshot: true, snapshot: compacted }));
+        }
+      });
+
+      // 4. Write in batches under Firestore's 500 writes per batch
+      for (let i = 0; i < writes.length; i += 450) {
+        const batch = db.batch();
+        writes.slice(i, i + 450).forEach((write) => write(batch));
+        await batch.commit();
+      }
+      console.log(`Pruned ${versions.length - keep.size} versions of page ${pageId}`);
+    } catch (error) {
+      console.error(`Error pruning history of page ${pageId}:`, error);
+    }
+  });
+
+// ==========================================
+// TRASH PURGE
+// ==========================================
+
+// Mirrors the client's trash settings (src/lib/trash.ts)
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// Deletes pages that have been in the trash longer than their workspace keeps
+// them (settings.trashRetentionDays; 0 keeps them), with their blocks and
+// version history. Pages trashed with a page share its archivedAt, so a
+// trashed subtree is purged together.
+export const purgeTrash = functions.pubsub
+  .schedule('every 24 hours')
+  .onRun(async () => {
+    const now = Date.now();
+    try {
+      // 1. Pages in the trash for at least a day, the shortest retention a workspace can have
+      const trashed = await db
+        .collection('pages')
+        .where('archivedAt', '<=', admin.firestore.Timestamp.fromMillis(now - DAY_MS))
+        .get();
+
+      // 2. Each workspace's retention, read once
+      const retentionDays = new Map<string, number>();
+      const getRetentionDays = async (workspaceId: string | undefined) => {
+        if (!workspaceId) return DEFAULT_TRASH_RETENTION_DAYS;
+        if (!retentionDays.has(workspaceId)) {
+          const workspaceDoc = await db.collection('workspaces').doc(workspaceId).get();
+          retentionDays.set(workspaceId, workspaceDoc.data()?.settings?.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS);
+        }
+        return retentionDays.get(workspaceId)!;
+      };
+
+      // 3. Delete the ones past their workspace's retention
+      let purged = 0;
+      for (const pageDoc of trashed.docs) {
+        const data = pageDoc.data();
+        const days = await getRetentionDays(data.workspaceId);
+        const archivedAt = data.archivedAt?.toMillis?.();
+        if (!data.isArchived || !days || !archivedAt || archivedAt + days * DAY_MS > now) continue;
+
+        const blocks = await db.collection('blocks').where('pageId', '==', pageDoc.id).get();
+        for (let i = 0; i < blocks.docs.length; i += 450) {
+          const batch = db.batch();
+          blocks.docs.slice(i, i + 450).forEach((block) => batch.delete(block.ref));
+          await batch.commit();
+        }
+        // Also deletes the page's versions subcollection
+        await db.recursiveDelete(pageDoc.ref);
+        purged++;
+      }
+      console.log(`Purged ${purged} pages from the trash`);
+    } catch (error) {
+      console.error('Error purging trash:', error);
+    }
+  });
@@ -5,7 +5,21 @@
 const CACHE_VERSION = 'v2';
 const STATIC_CACHE = `worklin-static-${CACHE_VERSION}`;
 const DYNAMIC_CACHE = `worklin-dynamic-${CACHE_VERSION}`;
-const OFFLINE_SYNC_QUEUE = 'worklin-sync-queue';
+
+// Offline queue, shared with the app (see src/lib/offline/queue.ts and
+// src/lib/offline/background-sync.ts; keep these names in sync with them)
+const OFFLINE_DB = 'worklin-offline-db';
+const QUEUE_STORE = 'offline-queue';
+const DEAD_LETTER_STORE = 'offline-dead-letter';
+const CREDENTIALS_STORE = 'sync-credentials';
+const CREDENTIALS_KEY = 'current';
+const BACKGROUND_SYNC_TAG = 'worklin-offline-queue';
+// Retry backoff, as in src/lib/offline/retry.ts
+const BASE_RETRY_DELAY = 2000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+const MAX_ATTEMPTS = 8;
+// The separate queue this worker used to keep, deleted on activate
+const LEGACY_SYNC_DB = 'WorkLinOfflineSync';
 
 // Static assets to cache on install (app shell)
 const STATIC_ASSETS = [
@@ -15,13 +29,6 @@ const STATIC_ASSETS = [
     '/logo.svg',
 ];
 
-// API routes that support offline sync
-const SYNC_ENDPOINTS = [
-    '/api/pages',
-    '/api/blocks',
-    '/api/workspace',
-];
-
 // Maximum cache size for dynamic content
 const MAX_DYNAMIC_CACHE_SIZE = 100;
 
@@ -61,6 +68,10 @@ self.addEventListener('activate', (event) => {
                         })
                 );
             })
+            .then(() => {
+                // Offline changes are queued by the app now
+                indexedDB.deleteDatabase(LEGACY_SYNC_DB);
+            })
             .then(() => {
                 // Take control of all clients immediately
                 return self.clients.claim();
@@ -72,12 +83,8 @@ self.addEventListener('activate', (event) => {
 self.addEventListener('fetch', (event) => {
     const url = new URL(event.request.url);
 
-    // Skip non-GET requests for caching (but handle sync separately)
+    // Skip non-GET requests; offline writes are queued by the app (see Background Sync below)
     if (event.request.method !== 'GET') {
-        // Queue offline mutations for background sync
-        if (shouldSyncOffline(event.request)) {
-            event.respondWith(handleOfflineMutation(event.request));
-        }
         return;
     }
 
@@ -180,124 +187,274 @@ function isDevelopmentFile(url) {
         url.pathname.endsWith('.ts');
 }
 
-// Check if request should be synced offline
-function shouldSyncOffline(request) {
-    const url = new URL(request.url);
-    return SYNC_ENDPOINTS.some(endpoint => url.pathname.startsWith(endpoint));
-}
+// ==========================================
+// BACKGROUND SYNC
+// ==========================================
+// The app queues writes made offline in IndexedDB and registers a Background Sync
+// when it leaves some pending. When the browser fires it, an open tab is asked to
+// replay the queue (it checks for conflicts and validates values); with no tab
+// open, this worker replays what it can through Firestore's REST API, signed in
+// with the refresh token the app keeps next to the queue. It stops at the first
+// operation it can't replay on its own, which waits for the app with everything
+// after it, so operations still apply in order.
 
-// Handle offline mutations via background sync
-async function handleOfflineMutation(request) {
-    try {
-        const response = await fetch(request.clone());
-        return response;
-    } catch (error) {
-        // Queue the request for later sync
-        await queueForSync(request);
-
-        return new Response(
-            JSON.stringify({
-                success: true,
-                offline: true,
-                message: 'Saved offline. Will sync when online.'
-            }),
-            {
-                status: 202,
-                headers: { 'Content-Type': 'application/json' }
-            }
-        );
+self.addEventListener('sync', (event) => {
+    if (event.tag === BACKGROUND_SYNC_TAG) {
+        event.waitUntil(syncOfflineQueue());
     }
+});
+
+async function syncOfflineQueue() {
+    const windows = await self.clients.matchAll({ type: 'window' });
+    const visible = windows.filter(client => client.visibilityState === 'visible');
+    if (visible.length > 0) {
+        visible.forEach(client => client.postMessage({ type: 'SYNC_OFFLINE_QUEUE' }));
+        return;
+    }
+    await flushOfflineQueue();
 }
 
-// Queue request for background sync
-async function queueForSync(request) {
-    const clonedRequest = request.clone();
-    const body = await clonedRequest.text();
-
-    const syncData = {
-        url: request.url,
-        method: request.method,
-        headers: Object.fromEntries(request.headers.entries()),
-        body: body,
-        timestamp: Date.now(),
-    };
+// Wraps an IndexedDB request in a promise
+function promisify(request) {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
 
-    // Store in IndexedDB for persistence
-    const db = await openSyncDB();
-    const tx = db.transaction(OFFLINE_SYNC_QUEUE, 'readwrite');
-    const store = tx.objectStore(OFFLINE_SYNC_QUEUE);
-    await store.add(syncData);
+// Opens the app's offline database, or resolves null if the app hasn't created it
+// (creating and migrating it is the app's job)
+function openOfflineDB() {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(OFFLINE_DB);
+        request.onupgradeneeded = () => request.transaction.abort();
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => (request.error?.name === 'AbortError' ? resolve(null) : reject(request.error));
+    });
+}
 
-    // Register for background sync
-    if ('sync' in self.registration) {
-        await self.registration.sync.register('worklinSync');
-    }
+function getStore(db, name, mode = 'readonly') {
+    return db.transaction(name, mode).objectStore(name);
 }
 
-// Open IndexedDB for sync queue
-function openSyncDB() {
+// Moves an operation that can't be synced to the dead-letter store, as the app does
+function moveToDeadLetter(db, op, error) {
     return new Promise((resolve, reject) => {
-        const request = indexedDB.open('WorkLinOfflineSync', 1);
+        const tx = db.transaction([QUEUE_STORE, DEAD_LETTER_STORE], 'readwrite');
+        tx.objectStore(DEAD_LETTER_STORE).put({ ...op, error, failedAt: Date.now() });
+        tx.objectStore(QUEUE_STORE).delete(op.id);
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+}
 
-        request.onerror = () => reject(request.error);
-        request.onsuccess = () => resolve(request.result);
+// Signs in as the user who queued the changes: an ID token for the REST API
+async function getSession(db) {
+    if (!db.objectStoreNames.contains(CREDENTIALS_STORE)) return null;
+    const credentials = await promisify(getStore(db, CREDENTIALS_STORE).get(CREDENTIALS_KEY));
+    if (!credentials) return null;
 
-        request.onupgradeneeded = (event) => {
-            const db = event.target.result;
-            if (!db.objectStoreNames.contains(OFFLINE_SYNC_QUEUE)) {
-                db.createObjectStore(OFFLINE_SYNC_QUEUE, {
-                    keyPath: 'id',
-                    autoIncrement: true
-                });
-            }
-        };
+    const response = await fetch(`https://securetoken.googleapis.com/v1/token?key=${credentials.apiKey}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({ grant_type: 'refresh_token', refresh_token: credentials.refreshToken }),
     });
+    if (!response.ok) throw new Error(`Couldn't sign in to sync offline changes (${response.status})`);
+    const { id_token } = await response.json();
+    return {
+        token: id_token,
+        database: `projects/${credentials.projectId}/databases/(default)`,
+    };
 }
 
-// Background sync event handler
-self.addEventListener('sync', (event) => {
-    if (event.tag === 'worklinSync') {
-        event.waitUntil(syncOfflineData());
+// Firestore REST values, as the JS SDK would write them
+function toFirestoreValue(value) {
+    if (value === null || value === undefined) return { nullValue: null };
+    if (typeof value === 'boolean') return { booleanValue: value };
+    if (typeof value === 'number') return Number.isInteger(value) ? { integerValue: String(value) } : { doubleValue: value };
+    if (typeof value === 'string') return { stringValue: value };
+    if (value instanceof Date) return { timestampValue: value.toISOString() };
+    if (Array.isArray(value)) return { arrayValue: { values: value.map(toFirestoreValue) } };
+    // Firestore Timestamps come out of IndexedDB as plain { seconds, nanoseconds }
+    if (typeof value.seconds === 'number' && typeof value.nanoseconds === 'number' && Object.keys(value).length === 2) {
+        return { timestampValue: new Date(value.seconds * 1000 + value.nanoseconds / 1e6).toISOString() };
     }
-});
+    return { mapValue: { fields: toFirestoreFields(value) } };
+}
 
-// Process queued sync requests
-async function syncOfflineData() {
-    console.log('[SW] Starting background sync...');
+function toFirestoreFields(object) {
+    return Object.fromEntries(
+        Object.entries(object)
+            .filter(([, value]) => value !== undefined)
+            .map(([key, value]) => [key, toFirestoreValue(value)])
+    );
+}
 
-    const db = await openSyncDB();
-    const tx = db.transaction(OFFLINE_SYNC_QUEUE, 'readwrite');
-    const store = tx.objectStore(OFFLINE_SYNC_QUEUE);
+// Dotted keys are nested fields, as with the SDK's updateDoc; segments other
+// than plain identifiers are quoted
+function toFieldPath(field) {
+    return field
+        .split('.')
+        .map(segment => (/^[a-zA-Z_][a-zA-Z_0-9]*$/.test(segment) ? segment : '`' + segment.replace(/[`\\]/g, '\\$&') + '`'))
+        .join('.');
+}
 
-    const allRequests = await new Promise((resolve, reject) => {
-        const request = store.getAll();
-        request.onsuccess = () => resolve(request.result);
-        request.onerror = () => reject(request.error);
+// Nests the values of dotted keys, so they match their field paths
+function toNestedFields(updates) {
+    const nested = {};
+    Object.entries(updates).forEach(([field, value]) => {
+        const segments = field.split('.');
+        const last = segments.pop();
+        let target = nested;
+        segments.forEach(segment => {
+            if (typeof target[segment] !== 'object' || target[segment] === null) target[segment] = {};
+            target = target[segment];
+        });
+        target[last] = value;
     });
+    return nested;
+}
+
+function serverTimes(fields) {
+    return fields.map(fieldPath => ({ fieldPath, setToServerValue: 'REQUEST_TIME' }));
+}
+
+async function firestoreRequest(session, path, options = {}) {
+    const response = await fetch(`https://firestore.googleapis.com/v1/${session.database}/${path}`, {
+        ...options,
+        headers: { Authorization: `Bearer ${session.token}`, 'Content-Type': 'application/json' },
+    });
+    if (response.ok) return response.json();
+    const body = await response.json().catch(() => null);
+    const error = new Error(body?.error?.message || `Firestore request failed (${response.status})`);
+    // Like src/lib/offline/retry.ts: invalid, forbidden or missing documents won't sync by retrying
+    error.permanent = [400, 403, 404].includes(response.status);
+    error.status = response.status;
+    throw error;
+}
+
+// Whether the document changed since the edit was queued; the app checks those for conflicts
+async function changedSinceQueued(session, collectionName, id, base) {
+    if (!base || base.updatedAt === null || base.updatedAt === undefined) return false;
+    try {
+        const document = await firestoreRequest(session, `documents/${collectionName}/${id}`);
+        const updatedAt = document.fields?.updatedAt?.timestampValue;
+        return !updatedAt || Date.parse(updatedAt) !== base.updatedAt;
+    } catch (error) {
+        // A missing document fails the write, which dead-letters it as the app would
+        if (error.status === 404) return false;
+        throw error;
+    }
+}
+
+// updatedAt is only set by the server time transform
+function updateWrite(session, collectionName, id, updates) {
+    const fields = Object.keys(updates).filter(field => field !== 'updatedAt');
+    const values = Object.fromEntries(fields.map(field => [field, updates[field]]));
+    return {
+        update: { name: `${session.database}/documents/${collectionName}/${id}`, fields: toFirestoreFields(toNestedFields(values)) },
+        updateMask: { fieldPaths: fields.map(toFieldPath) },
+        updateTransforms: serverTimes(['updatedAt']),
+        currentDocument: { exists: true },
+    };
+}
+
+// The REST write replaying a queued operation, or null if only the app can replay it
+async function toWrite(session, op) {
+    const { type, payload } = op;
+    switch (type) {
+        case 'createBlock': {
+            const id = payload.blockData.id;
+            if (!id) return null;
+            return {
+                update: {
+                    name: `${session.database}/documents/blocks/${id}`,
+                    fields: toFirestoreFields({ ...payload.blockData, id, pageId: payload.pageId }),
+                },
+                updateTransforms: serverTimes(['createdAt', 'updatedAt']),
+            };
+        }
+        case 'updateBlock':
+            if (await changedSinceQueued(session, 'blocks', payload.blockId, payload.base)) return null;
+            return updateWrite(session, 'blocks', payload.blockId, payload.updates);
+        case 'deleteBlock':
+            return { delete: `${session.database}/documents/blocks/${payload.blockId}` };
+        case 'updatePage':
+            // Property values are validated against the database's schema by the app
+            if (payload.data.propertyValues) return null;
+            if (await changedSinceQueued(session, 'pages', payload.pageId, payload.base)) return null;
+            return updateWrite(session, 'pages', payload.pageId, payload.data);
+        default:
+            // Page creation, trash and deletion work on whole subtrees: left to the app
+            return null;
+    }
+}
+
+// Doubling from BASE_RETRY_DELAY up to MAX_RETRY_DELAY, with jitter, like getRetryDelay in retry.ts
+function getRetryDelay(attempts) {
+    const delay = Math.min(MAX_RETRY_DELAY, BASE_RETRY_DELAY * 2 ** Math.max(0, attempts - 1));
+    return Math.round(delay * (0.5 + Math.random() / 2));
+}
+
+// Replays the queue in order until an operation needs the app. Rejects when
+// operations are left to retry, so the browser tries the sync again later.
+async function flushOfflineQueue() {
+    const db = await openOfflineDB();
+    if (!db) return;
+
+    try {
+        const queue = await promisify(getStore(db, QUEUE_STORE).getAll());
+        if (queue.length === 0) return;
+        const session = await getSession(db);
+        if (!session) {
+            console.log('[SW] Nobody signed in to sync offline changes as');
+            return;
+        }
+
+        console.log(`[SW] Syncing ${queue.length} offline operations...`);
+        let synced = 0;
+        let lastError = null;
+        let retryLater = false;
 
-    for (const syncData of allRequests) {
-        try {
-            const response = await fetch(syncData.url, {
-                method: syncData.method,
-                headers: syncData.headers,
-                body: syncData.body,
-            });
-
-            if (response.ok) {
-                // Remove from queue on success
-                const deleteTx = db.transaction(OFFLINE_SYNC_QUEUE, 'readwrite');
-                const deleteStore = deleteTx.objectStore(OFFLINE_SYNC_QUEUE);
-                deleteStore.delete(syncData.id);
-
-                // Notify clients about successful sync
-                notifyClients({
-                    type: 'SYNC_SUCCESS',
-                    data: { url: syncData.url, timestamp: syncData.timestamp }
+        for (const op of queue) {
+            if (op.nextAttemptAt && op.nextAttemptAt > Date.now()) {
+                retryLater = true;
+                break;
+            }
+            const attempts = (op.attempts || 0) + 1;
+            try {
+                const write = await toWrite(session, op);
+                if (!write) break;
+                await firestoreRequest(session, 'documents:commit', {
+                    method: 'POST',
+                    body: JSON.stringify({ writes: [write] }),
                 });
+                await promisify(getStore(db, QUEUE_STORE, 'readwrite').delete(op.id));
+                synced++;
+            } catch (error) {
+                lastError = error.message;
+                if (error.permanent || attempts >= MAX_ATTEMPTS) {
+                    console.error('[SW] Failed to sync operation, moving it to dead letters:', op, error);
+                    await moveToDeadLetter(db, { ...op, attempts }, error.message);
+                    continue;
+                }
+                console.warn(`[SW] Failed to sync operation (attempt ${attempts}), retrying later:`, op, error);
+                await promisify(getStore(db, QUEUE_STORE, 'readwrite').put({
+                    ...op,
+                    attempts,
+                    nextAttemptAt: Date.now() + getRetryDelay(attempts),
+                    lastError: error.message,
+                }));
+                retryLater = true;
+                break;
             }
-        } catch (error) {
-            console.error('[SW] Failed to sync:', syncData.url, error);
         }
+
+        console.log(`[SW] Synced ${synced} offline operations`);
+        notifyClients({ type: 'OFFLINE_QUEUE_FLUSHED', synced, error: lastError });
+        if (retryLater) throw new Error(lastError || 'Offline changes are waiting to be retried');
+    } finally {
+        db.close();
     }
 }
 
@@ -418,31 +575,7 @@ self.addEventListener('message', (event) => {
                 caches.delete(DYNAMIC_CACHE)
             );
             break;
-
-        case 'GET_SYNC_QUEUE':
-            event.waitUntil(
-                getSyncQueueForClient(event)
-            );
-            break;
     }
 });
 
-// Get sync queue for client
-async function getSyncQueueForClient(event) {
-    const db = await openSyncDB();
-    const tx = db.transaction(OFFLINE_SYNC_QUEUE, 'readonly');
-    const store = tx.objectStore(OFFLINE_SYNC_QUEUE);
-
-    const allRequests = await new Promise((resolve, reject) => {
-        const request = store.getAll();
-        request.onsuccess = () => resolve(request.result);
-        request.onerror = () => reject(request.error);
-    });
-
-    event.source.postMessage({
-        type: 'SYNC_QUEUE',
-        data: allRequests,
-    });
-}
-
 console.log('[SW] Service worker loaded');
\ No newline at end of file
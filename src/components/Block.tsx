@@ -100,16 +100,19 @@ export const Block: React.FC<BlockProps> = ({
   });
 
   const inputRef = useRef<HTMLInputElement | HTMLTextAreaElement>(null);
+  // Last text this block sent up, to tell our own edits coming back from other changes
+  const sentText = useRef<string | null>(null);
 
   /**
    * Sync local state with props when block changes externally
    * (e.g., real-time updates from other users via Firestore)
    * 
-   * Only update if not currently editing to avoid cursor jumping
+   * Only update if not currently editing to avoid cursor jumping,
+   * unless the change isn't what was just typed (e.g. an undo)
    */
   useEffect(() => {
     const currentText = block.text !== undefined ? block.text : (block.content || '');
-    if (currentText !== localText && !isEditing) {
+    if (currentText !== localText && (!isEditing || currentText !== sentText.current)) {
       setLocalText(currentText);
     }
   }, [block.text, block.content, isEditing]);
@@ -191,6 +194,7 @@ export const Block: React.FC<BlockProps> = ({
     
     // 1. Update UI immediately (no lag)
     setLocalText(newValue);
+    sentText.current = newValue;
 
     // 2. Sync to database (happens asynchronously)
     onUpdate({
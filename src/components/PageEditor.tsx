@@ -1,8 +1,8 @@
 // src/components/PageEditor.tsx
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { Page, BlockType, Block } from '../types/workspace';
 import { Block as BlockComponent } from './Block';
-import { Plus, History, LayoutGrid, Table as TableIcon, Calendar as CalendarIcon, List } from 'lucide-react';
+import { Plus, History, LayoutGrid, Table as TableIcon, Calendar as CalendarIcon, List, ChartGantt, Images, FileUp, CloudDownload, CloudOff } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { DndContext, closestCenter, KeyboardSensor, PointerSensor, useSensor, useSensors, DragEndEvent } from '@dnd-kit/core';
 import { arrayMove, SortableContext, sortableKeyboardCoordinates, verticalListSortingStrategy } from '@dnd-kit/sortable';
@@ -14,18 +14,40 @@ import { CollaborationProvider, useCollaboration } from './collaboration/Collabo
 import { useToast } from '../hooks/use-toast';
 import { ExportMenu } from "./page/ExportMenu";
 import { VersionHistory } from "./VersionHistory";
+import { BlockOperation, PageSnapshot } from '../types/history';
+import { useBlockHistory } from '../hooks/useBlockHistory';
+import { updateOperation } from '../lib/history/undo';
 import { EmptyState } from './ui/empty-state';
 import { TableView } from './views/TableView';
 import { BoardView } from './views/BoardView';
 import { CalendarView } from './views/CalendarView';
+import { TimelineView } from './views/TimelineView';
+import { GalleryView } from './views/GalleryView';
+import { ViewQueryBar } from './views/ViewQueryBar';
 
 import { ViewType, ViewDefinition } from '../types/view';
-import { getPagesByParent, updatePage, createPage } from '../lib/firebase/database';
+import { SWITCH_VIEW_EVENT } from '../hooks/useCommandPalette';
+import { useWorkspaceStore } from '../store/workspaceStore';
+import {
+  getPagesByParent,
+  updatePage,
+  createPage,
+  createPagesBatch,
+  writeBlockOperations,
+  makePageAvailableOffline,
+  removePageFromOffline,
+} from '../lib/firebase/database';
+import { isPagePinned } from '../lib/offline/replica';
+import { CsvImportPlan } from '../lib/import/csv';
+import { CsvImportDialog } from './database/CsvImportDialog';
 
 // Database Property Imports
 import { RelationProperty } from './database/RelationProperty';
 import { RollupProperty } from './database/RollupProperty';
 import { FormulaProperty } from './database/FormulaProperty';
+import { ValueProperty } from './database/ValueProperty';
+import { isValueProperty } from '../lib/database/properties';
+import { useWorkspaceMembers } from '../hooks/useWorkspaceMembers';
 import { DatabaseProperty, RelationProperty as RelationType, RollupProperty as RollupType, FormulaProperty as FormulaType } from '../types/database';
 
 // ▶ Presence imports
@@ -36,12 +58,15 @@ import { subscribeToAuth } from '../lib/firebase/auth';
 interface PageEditorProps {
   page: Page | undefined;
   allPages: Page[];
-  onAddBlock: (type: BlockType) => void;
+  onAddBlock: (type: BlockType) => Block | void; // Returns the new block, so it can be undone
   onUpdateBlock: (blockId: string, updates: Partial<Block>) => void;
   onDeleteBlock: (blockId: string) => void;
   onUpdatePageTitle: (title: string) => void;
   onUpdatePageCover: (url: string | null) => void;
   onUpdatePage?: (pageId: string, updates: Partial<Page>) => void;
+  onRestoreVersion?: (version: PageSnapshot, versionId: string) => void;
+  // Carries out undo/redo on the page's blocks; without it they're written to Firestore
+  onApplyBlockOperations?: (pageId: string, operations: BlockOperation[]) => void;
 }
 
 // ---------------------------------------------------------------------------
@@ -58,6 +83,8 @@ const PageEditorInner: React.FC<PageEditorProps> = ({
   onUpdatePageTitle,
   onUpdatePageCover,
   onUpdatePage,
+  onRestoreVersion,
+  onApplyBlockOperations,
 }) => {
   const [showHistory, setShowHistory] = useState(false);
   const titleInputRef = useRef<HTMLInputElement>(null);
@@ -65,6 +92,10 @@ const PageEditorInner: React.FC<PageEditorProps> = ({
   const [currentView, setCurrentView] = useState<ViewDefinition | null>(null);
   const [databasePages, setDatabasePages] = useState<Page[]>([]);
   const [isLoadingViews, setIsLoadingViews] = useState(false);
+  const [showCsvImport, setShowCsvImport] = useState(false);
+  // Whether the page and its subpages are kept in the offline replica (see lib/offline/replica)
+  const [isAvailableOffline, setIsAvailableOffline] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
 
   // ▶ Presence: once auth resolves, push the user's photoURL into awareness
   //   so PresenceIndicator can render actual avatar photos.
@@ -108,6 +139,50 @@ const PageEditorInner: React.FC<PageEditorProps> = ({
     }
   }, [currentView, page?.id]);
 
+  useEffect(() => {
+    if (!page) return;
+    isPagePinned(page.id).then(setIsAvailableOffline).catch(() => setIsAvailableOffline(false));
+  }, [page?.id]);
+
+  const handleToggleOffline = async () => {
+    if (!page) return;
+    if (isAvailableOffline) {
+      const { error } = await removePageFromOffline(page.id);
+      if (error) {
+        toast({
+          title: "Couldn't update offline pages",
+          description: error,
+          variant: "destructive"
+        });
+        return;
+      }
+      setIsAvailableOffline(false);
+      toast({
+        title: "No longer kept offline",
+        description: "This page may be cleared from this device to free up space.",
+        duration: 3000,
+      });
+      return;
+    }
+    setIsDownloading(true);
+    const { count, error } = await makePageAvailableOffline(page.id);
+    setIsDownloading(false);
+    if (error) {
+      toast({
+        title: "Couldn't make page available offline",
+        description: error,
+        variant: "destructive"
+      });
+      return;
+    }
+    setIsAvailableOffline(true);
+    toast({
+      title: "Available offline",
+      description: count > 1 ? `This page and ${count - 1} subpage${count === 2 ? '' : 's'} are saved on this device.` : "This page is saved on this device.",
+      duration: 3000,
+    });
+  };
+
   const handleSwitchView = async (type: ViewType) => {
     if (!page) return;
 
@@ -143,6 +218,156 @@ const PageEditorInner: React.FC<PageEditorProps> = ({
     }
   };
 
+  // View commands from the command palette
+  useEffect(() => {
+    const handleSwitchViewEvent = (event: Event) => {
+      handleSwitchView((event as CustomEvent<{ type: ViewType }>).detail.type);
+    };
+    window.addEventListener(SWITCH_VIEW_EVENT, handleSwitchViewEvent);
+    return () => window.removeEventListener(SWITCH_VIEW_EVENT, handleSwitchViewEvent);
+  }, [page]);
+
+  // Save a view's filter/sort changes back into the page's views array
+  const handleUpdateView = async (updatedView: ViewDefinition) => {
+    if (!page) return;
+
+    setCurrentView(updatedView);
+    const updatedViews = (page.views || []).map(v => v.id === updatedView.id ? updatedView : v);
+
+    try {
+      const result = await updatePage(page.id, { views: updatedViews });
+      if (result.error) {
+        console.error('Failed to persist view:', result.error);
+        toast({
+          title: "Error saving view",
+          description: "Your filter and sort changes couldn't be saved.",
+          variant: "destructive"
+        });
+      }
+    } catch (e) {
+      console.error('Exception persisting view:', e);
+    }
+  };
+
+  // Update one database row from inside a view, e.g. a renamed title or a board card that moved columns
+  const handleUpdateRow = async (rowId: string, updates: Partial<Page>) => {
+    const row = databasePages.find(p => p.id === rowId);
+    if (!row) return;
+
+    // Update the view right away and roll back if the write fails
+    setDatabasePages(prev => prev.map(p => p.id === rowId ? { ...p, ...updates } : p));
+
+    const result = await updatePage(rowId, updates);
+    if (result.error) {
+      setDatabasePages(prev => prev.map(p => p.id === rowId ? row : p));
+      toast({
+        title: "Couldn't update page",
+        description: result.error,
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Several values are written together so they land in a single update
+  const handleUpdateRowValues = (rowId: string, values: Record<string, any>) => {
+    const row = databasePages.find(p => p.id === rowId);
+    if (!row) return;
+    return handleUpdateRow(rowId, { propertyValues: { ...(row.propertyValues || {}), ...values } });
+  };
+
+  const handleUpdateRowValue = (rowId: string, propertyName: string, value: any) =>
+    handleUpdateRowValues(rowId, { [propertyName]: value });
+
+  // Change a property definition of this database, e.g. when a cell adds a new select option
+  // Rows are validated against the stored definition, so it's saved before the value that uses it
+  const handleUpdateProperty = async (propertyName: string, property: DatabaseProperty) => {
+    if (!page) return;
+    const properties = { ...(page.properties || {}), [propertyName]: property };
+    const result = await updatePage(page.id, { properties });
+    if (result.error) {
+      toast({
+        title: "Couldn't update property",
+        description: result.error,
+        variant: "destructive"
+      });
+      return;
+    }
+    onUpdatePage?.(page.id, { properties });
+  };
+
+  // Add a row to this database from inside a view
+  const handleCreateRow = async (title: string, propertyValues: Record<string, any> = {}) => {
+    if (!page) return;
+
+    const result = await createPage(page.workspaceId || '', {
+      title,
+      icon: '',
+      parentId: page.id,
+      propertyValues,
+    });
+    if (result.error || !result.page) {
+      toast({
+        title: "Couldn't create page",
+        description: result.error || undefined,
+        variant: "destructive"
+      });
+      return;
+    }
+    setDatabasePages(prev => [...prev, { ...result.page, createdAt: new Date(), updatedAt: new Date() } as Page]);
+  };
+
+  // Add the rows of a CSV import, after saving any properties the import created or extended
+  const handleImportCsv = async (plan: CsvImportPlan) => {
+    if (!page) return;
+
+    if (Object.keys(plan.properties).length > 0) {
+      const properties = { ...(page.properties || {}), ...plan.properties };
+      const result = await updatePage(page.id, { properties });
+      if (result.error) {
+        toast({
+          title: "Couldn't import CSV",
+          description: result.error,
+          variant: "destructive"
+        });
+        return;
+      }
+      onUpdatePage?.(page.id, { properties });
+
+      // Views with a fixed column list show the new properties too
+      const added = Object.keys(plan.properties).filter((key) => !page.properties?.[key]);
+      if (currentView?.properties && added.length > 0) {
+        handleUpdateView({ ...currentView, properties: [...currentView.properties, ...added] });
+      }
+    }
+
+    const now = new Date();
+    const rows: Page[] = plan.rows.map(({ title, propertyValues }) => ({
+      id: crypto.randomUUID(),
+      title,
+      icon: '',
+      blocks: [],
+      parentId: page.id,
+      propertyValues,
+      createdAt: now,
+      updatedAt: now,
+    }));
+    const result = await createPagesBatch(page.workspaceId || '', rows);
+    if (result.error) {
+      toast({
+        title: "Couldn't import CSV",
+        description: result.error,
+        variant: "destructive"
+      });
+      return;
+    }
+    setDatabasePages(prev => [...prev, ...rows]);
+    toast({
+      title: "CSV imported",
+      description: `Added ${rows.length} page${rows.length === 1 ? '' : 's'} to this database.`,
+      duration: 3000,
+    });
+  };
+
   const handleClearView = async () => {
     if (!page) return;
     setCurrentView(null);
@@ -151,6 +376,57 @@ const PageEditorInner: React.FC<PageEditorProps> = ({
 
   const { toast } = useToast();
 
+  // Undo/redo of block changes on this page
+  const blockHistory = useBlockHistory(page?.id, async (pageId, operations) => {
+    if (onApplyBlockOperations) return onApplyBlockOperations(pageId, operations);
+    const { error } = await writeBlockOperations(pageId, operations);
+    if (error) {
+      toast({
+        title: "Couldn't undo",
+        description: error,
+        variant: "destructive"
+      });
+    }
+  });
+  const blockHistoryRef = useRef(blockHistory);
+  blockHistoryRef.current = blockHistory;
+
+  // Ctrl+Z undoes and Ctrl+Shift+Z (or Ctrl+Y) redoes block changes. Text fields
+  // outside the blocks keep their own undo, as do collaborative editors (Yjs)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      const isUndo = key === 'z' && !e.shiftKey;
+      const isRedo = (key === 'z' && e.shiftKey) || key === 'y';
+      if (!isUndo && !isRedo) return;
+
+      const target = e.target instanceof HTMLElement ? e.target : null;
+      const inTextField = !!target?.closest('input, textarea, select, [contenteditable="true"]');
+      if (inTextField && (!target?.closest('[data-block-undo]') || target?.closest('.ProseMirror'))) return;
+
+      const history = blockHistoryRef.current;
+      if (isUndo ? history.undo() : history.redo()) e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const hasPersonProperty = Object.values((page?.properties || {}) as Record<string, DatabaseProperty>).some(
+    (property) => property.type === 'person'
+  );
+  const members = useWorkspaceMembers(page?.workspaceId, hasPersonProperty);
+
+  // "Me" in view filters
+  const { user } = useWorkspaceStore();
+  const currentUserId = user?.uid || 'local-user'; // Fallback for demo mode
+
+  // Database rows inherit this page's properties; views filter and sort on them
+  const databaseSchema = useMemo(
+    () => (page?.properties || {}) as Record<string, DatabaseProperty>,
+    [page?.properties]
+  );
+
   useEffect(() => {
     if (isTitleEditing && titleInputRef.current) {
       titleInputRef.current.focus();
@@ -159,7 +435,8 @@ const PageEditorInner: React.FC<PageEditorProps> = ({
   }, [isTitleEditing]);
 
   const handleAddBlock = (type: BlockType) => {
-    onAddBlock(type);
+    const block = onAddBlock(type);
+    if (block && page) blockHistory.record([{ type: 'insert', block, index: page.blocks.length }]);
     toast({
       title: "Block created",
       description: "A new block has been added to the page.",
@@ -168,6 +445,8 @@ const PageEditorInner: React.FC<PageEditorProps> = ({
   };
 
   const handleDeleteBlock = (blockId: string) => {
+    const index = page?.blocks.findIndex(b => b.id === blockId) ?? -1;
+    if (page && index !== -1) blockHistory.record([{ type: 'delete', block: page.blocks[index], index }]);
     onDeleteBlock(blockId);
     toast({
       title: "Block deleted",
@@ -177,6 +456,8 @@ const PageEditorInner: React.FC<PageEditorProps> = ({
   };
 
   const handleUpdateBlock = (blockId: string, updates: Partial<Block>) => {
+    const block = page?.blocks.find(b => b.id === blockId);
+    if (block) blockHistory.record([updateOperation(block, updates)]);
     onUpdateBlock(blockId, updates);
     toast({
       title: "Block updated",
@@ -197,6 +478,7 @@ const PageEditorInner: React.FC<PageEditorProps> = ({
       const reorderedBlocks = arrayMove(page.blocks, oldIndex, newIndex);
 
       if (onUpdatePage) {
+        blockHistory.record([{ type: 'move', blockId: String(active.id), fromIndex: oldIndex, toIndex: newIndex }]);
         onUpdatePage(page.id, { blocks: reorderedBlocks });
         toast({
           title: "Block moved",
@@ -226,6 +508,7 @@ const PageEditorInner: React.FC<PageEditorProps> = ({
   }
 
   const properties = page.properties as Record<string, DatabaseProperty> | undefined;
+  const propertyValues = page.propertyValues || {};
 
   return (
     <div className="flex-1 flex flex-col relative overflow-hidden bg-white dark:bg-[#1e1e1e]">
@@ -323,14 +606,55 @@ const PageEditorInner: React.FC<PageEditorProps> = ({
                   <CalendarIcon size={12} className="sm:w-3.5 sm:h-3.5" />
                   <span className="hidden xs:inline">Calendar</span>
                 </button>
+                <button
+                  onClick={() => handleSwitchView('timeline')}
+                  className={`px-2 sm:px-3 py-1.5 text-xs sm:text-sm font-medium rounded-t-md border-b-2 transition-colors flex items-center gap-1 sm:gap-2 whitespace-nowrap ${currentView?.type === 'timeline'
+                    ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400'
+                    }`}
+                >
+                  <ChartGantt size={12} className="sm:w-3.5 sm:h-3.5" />
+                  <span className="hidden xs:inline">Timeline</span>
+                </button>
+                <button
+                  onClick={() => handleSwitchView('gallery')}
+                  className={`px-2 sm:px-3 py-1.5 text-xs sm:text-sm font-medium rounded-t-md border-b-2 transition-colors flex items-center gap-1 sm:gap-2 whitespace-nowrap ${currentView?.type === 'gallery'
+                    ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400'
+                    }`}
+                >
+                  <Images size={12} className="sm:w-3.5 sm:h-3.5" />
+                  <span className="hidden xs:inline">Gallery</span>
+                </button>
+                {currentView && (
+                  <button
+                    onClick={() => setShowCsvImport(true)}
+                    className="ml-auto px-2 sm:px-3 py-1.5 text-xs sm:text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 flex items-center gap-1 sm:gap-2 whitespace-nowrap"
+                    title="Add rows from a CSV file"
+                  >
+                    <FileUp size={12} className="sm:w-3.5 sm:h-3.5" />
+                    <span className="hidden xs:inline">Import CSV</span>
+                  </button>
+                )}
               </div>
             </div>
 
-            {/* Header actions: Presence avatars → History → Export */}
+            {/* Header actions: Presence avatars → Offline → History → Export */}
             <div className="flex items-center gap-1 sm:gap-2 flex-shrink-0">
               {/* ▶ Presence indicator — zero props, reads from Yjs context */}
               <PresenceIndicator />
 
+              <button
+                onClick={handleToggleOffline}
+                disabled={isDownloading}
+                className={`flex items-center gap-1 sm:gap-2 px-2 sm:px-3 py-1.5 sm:py-2 hover:bg-gray-100 dark:hover:bg-gray-800/50 rounded transition-colors text-xs sm:text-sm disabled:opacity-50 ${
+                  isAvailableOffline ? 'text-blue-600 dark:text-blue-400' : 'text-gray-700 dark:text-gray-300'
+                }`}
+                title={isAvailableOffline ? "Stop keeping this page available offline" : "Keep this page and its subpages available offline"}
+              >
+                {isAvailableOffline ? <CloudOff size={16} className="sm:w-4 sm:h-4" /> : <CloudDownload size={16} className="sm:w-4 sm:h-4" />}
+                <span className="hidden sm:inline">{isDownloading ? 'Saving…' : isAvailableOffline ? 'Available offline' : 'Make available offline'}</span>
+              </button>
               <button
                 onClick={() => setShowHistory(true)}
                 className="flex items-center gap-1 sm:gap-2 px-2 sm:px-3 py-1.5 sm:py-2 hover:bg-gray-100 dark:hover:bg-gray-800/50 rounded transition-colors text-xs sm:text-sm text-gray-700 dark:text-gray-300"
@@ -339,7 +663,14 @@ const PageEditorInner: React.FC<PageEditorProps> = ({
                 <History size={16} className="sm:w-4 sm:h-4" />
                 <span className="hidden sm:inline">History</span>
               </button>
-              <ExportMenu page={page} />
+              <ExportMenu
+                page={page}
+                csv={currentView ? {
+                  rows: databasePages,
+                  view: currentView,
+                  options: { schema: databaseSchema, allPages, currentUserId, members },
+                } : undefined}
+              />
             </div>
           </div>
 
@@ -370,7 +701,7 @@ const PageEditorInner: React.FC<PageEditorProps> = ({
                         property={property as RelationType}
                         propertyName={name}
                         allPages={allPages}
-                        onUpdate={(updatedPage) => onUpdatePage && onUpdatePage(page.id, updatedPage)}
+                        onUpdate={(updatedPage) => onUpdatePage && onUpdatePage(updatedPage.id, updatedPage)}
                       />
                     );
                   }
@@ -390,6 +721,25 @@ const PageEditorInner: React.FC<PageEditorProps> = ({
                         key={name}
                         page={page}
                         property={property as FormulaType}
+                        propertyName={name}
+                        allPages={allPages}
+                      />
+                    );
+                  }
+                  if (isValueProperty(property)) {
+                    return (
+                      <ValueProperty
+                        key={name}
+                        property={property}
+                        value={propertyValues[name]}
+                        members={members}
+                        onChange={(value, updated) =>
+                          onUpdatePage &&
+                          onUpdatePage(page.id, {
+                            ...(updated && { properties: { ...properties, [name]: updated } }),
+                            propertyValues: { ...propertyValues, [name]: value },
+                          })
+                        }
                       />
                     );
                   }
@@ -407,9 +757,76 @@ const PageEditorInner: React.FC<PageEditorProps> = ({
                   <div className="text-center py-10 text-gray-500">Loading views...</div>
                 ) : (
                   <>
-                    {currentView.type === 'table' && <TableView pages={databasePages} view={currentView} onOpenPage={(id) => window.location.href = `/page/${id}`} />}
-                    {currentView.type === 'board' && <BoardView pages={databasePages} view={currentView} onOpenPage={(id) => window.location.href = `/page/${id}`} />}
-                    {currentView.type === 'calendar' && <CalendarView pages={databasePages} view={currentView} onOpenPage={(id) => window.location.href = `/page/${id}`} />}
+                    <ViewQueryBar view={currentView} schema={databaseSchema} members={members} onChange={handleUpdateView} />
+                    {currentView.type === 'table' && (
+                      <TableView
+                        pages={databasePages}
+                        view={currentView}
+                        schema={databaseSchema}
+                        allPages={allPages}
+                        currentUserId={currentUserId}
+                        members={members}
+                        onOpenPage={(id) => window.location.href = `/page/${id}`}
+                        onCreatePage={handleCreateRow}
+                        onUpdateView={handleUpdateView}
+                        onUpdatePageTitle={(rowId, title) => handleUpdateRow(rowId, { title })}
+                        onUpdatePageValue={handleUpdateRowValue}
+                        onUpdateProperty={handleUpdateProperty}
+                      />
+                    )}
+                    {currentView.type === 'board' && (
+                      <BoardView
+                        pages={databasePages}
+                        view={currentView}
+                        schema={databaseSchema}
+                        allPages={allPages}
+                        currentUserId={currentUserId}
+                        members={members}
+                        onOpenPage={(id) => window.location.href = `/page/${id}`}
+                        onCreatePage={handleCreateRow}
+                        onUpdateView={handleUpdateView}
+                        onUpdatePageValue={handleUpdateRowValue}
+                      />
+                    )}
+                    {currentView.type === 'calendar' && (
+                      <CalendarView
+                        pages={databasePages}
+                        view={currentView}
+                        schema={databaseSchema}
+                        allPages={allPages}
+                        currentUserId={currentUserId}
+                        onOpenPage={(id) => window.location.href = `/page/${id}`}
+                        onCreatePage={handleCreateRow}
+                        onUpdateView={handleUpdateView}
+                        onUpdatePageValue={handleUpdateRowValue}
+                      />
+                    )}
+                    {currentView.type === 'timeline' && (
+                      <TimelineView
+                        pages={databasePages}
+                        view={currentView}
+                        schema={databaseSchema}
+                        allPages={allPages}
+                        currentUserId={currentUserId}
+                        onOpenPage={(id) => window.location.href = `/page/${id}`}
+                        onCreatePage={handleCreateRow}
+                        onUpdateView={handleUpdateView}
+                        onUpdatePageValues={handleUpdateRowValues}
+                      />
+                    )}
+                    {currentView.type === 'gallery' && (
+                      <GalleryView
+                        pages={databasePages}
+                        view={currentView}
+                        schema={databaseSchema}
+                        allPages={allPages}
+                        currentUserId={currentUserId}
+                        members={members}
+                        onOpenPage={(id) => window.location.href = `/page/${id}`}
+                        onCreatePage={handleCreateRow}
+                        onUpdateView={handleUpdateView}
+                      />
+                    )}
                   </>
                 )}
               </div>
@@ -435,7 +852,7 @@ const PageEditorInner: React.FC<PageEditorProps> = ({
                       items={page.blocks.map(block => block.id)}
                       strategy={verticalListSortingStrategy}
                     >
-                      <div className="space-y-1">
+                      <div className="space-y-1" data-block-undo>
                         {page.blocks.map((block, index) => (
                           <motion.div
                             key={block.id}
@@ -485,12 +902,24 @@ const PageEditorInner: React.FC<PageEditorProps> = ({
         <VersionHistory
           pageId={page.id}
           currentUserId="local-user"
+          currentPage={page}
           onClose={() => setShowHistory(false)}
+          onRestoreVersion={onRestoreVersion}
           onRestore={() => {
-            window.location.reload();
+            // Firestore restores aren't reflected in the local workspace until it reloads
+            if (!onRestoreVersion) window.location.reload();
           }}
         />
       )}
+
+      {/* CSV import into this database */}
+      <CsvImportDialog
+        open={showCsvImport}
+        onOpenChange={setShowCsvImport}
+        schema={databaseSchema}
+        members={members}
+        onImport={handleImportCsv}
+      />
     </div>
   );
 };
@@ -44,7 +44,7 @@ export const PageHeader: React.FC<PageHeaderProps> = ({ page, initialTitle, onDe
 
     const timeoutId = setTimeout(async () => {
       setIsSaving(true);
-      await updatePage(page.id, { title });
+      await updatePage(page.id, { title }, page);
       setIsSaving(false);
     }, 500);
 
@@ -1,9 +1,17 @@
 import React, { useState } from 'react';
 import { Page } from '../types/workspace';
-import { DatabaseProperty } from '../types/database';
+import { DatabaseProperty, DatabasePropertyType, NumberFormat } from '../types/database';
 import { RelationProperty } from './database/RelationProperty';
 import { RollupProperty } from './database/RollupProperty';
 import { FormulaProperty } from './database/FormulaProperty';
+import { ValueProperty } from './database/ValueProperty';
+import {
+  NUMBER_FORMATS,
+  createPropertyDefinition,
+  createSelectOption,
+  isValueProperty,
+} from '../lib/database/properties';
+import { useWorkspaceMembers } from '../hooks/useWorkspaceMembers';
 import { Plus, X } from 'lucide-react';
 import { Button } from './ui/button';
 import {
@@ -15,6 +23,22 @@ import {
   DialogTrigger,
 } from './ui/dialog';
 
+// Property types offered in the "Add Property" dialog
+export const PROPERTY_TYPE_LABELS: Record<DatabasePropertyType, string> = {
+  text: 'Text',
+  number: 'Number',
+  select: 'Select',
+  multi_select: 'Multi-select',
+  status: 'Status',
+  date: 'Date',
+  person: 'Person',
+  checkbox: 'Checkbox',
+  url: 'URL',
+  relation: 'Relation',
+  rollup: 'Rollup',
+  formula: 'Formula',
+};
+
 interface PagePropertiesProps {
   page: Page;
   allPages: Page[];
@@ -27,54 +51,66 @@ export const PageProperties: React.FC<PagePropertiesProps> = ({
   onUpdatePage,
 }) => {
   const [showAddProperty, setShowAddProperty] = useState(false);
-  const [newPropertyType, setNewPropertyType] = useState<'relation' | 'rollup' | 'formula'>('relation');
+  const [newPropertyType, setNewPropertyType] = useState<DatabasePropertyType>('text');
   const [newPropertyName, setNewPropertyName] = useState('');
+  // Extra settings for the new property, only used by some types
+  const [newPropertyOptions, setNewPropertyOptions] = useState('');
+  const [newNumberFormat, setNewNumberFormat] = useState<NumberFormat>('number');
+  const [newIncludeTime, setNewIncludeTime] = useState(false);
+  const [newAllowMultiple, setNewAllowMultiple] = useState(false);
+
+  const pageProperties: Record<string, DatabaseProperty> = (page as any).properties || {};
+  const propertyValues: Record<string, any> = page.propertyValues || {};
+
+  const hasPersonProperty = Object.values(pageProperties).some((property) => property.type === 'person');
 
-  const pageProperties = (page as any).properties || {};
+  // Person properties pick from the workspace members, so only load them when needed
+  const members = useWorkspaceMembers(page.workspaceId, hasPersonProperty);
 
   const handleAddProperty = () => {
-    if (!newPropertyName.trim()) return;
-
-    let newProperty: DatabaseProperty;
-
-    switch (newPropertyType) {
-      case 'relation':
-        newProperty = {
-          type: 'relation',
-          name: newPropertyName,
-          linkedPageIds: [],
-          bidirectional: false,
-        };
-        break;
-      case 'rollup':
-        newProperty = {
-          type: 'rollup',
-          name: newPropertyName,
-          relationProperty: '', // User will configure
-          targetProperty: '',
-          aggregation: 'count',
-        };
-        break;
-      case 'formula':
-        newProperty = {
-          type: 'formula',
-          name: newPropertyName,
-          expression: '',
-          returnType: 'text',
-        };
-        break;
+    const name = newPropertyName.trim();
+    if (!name) return;
+
+    const newProperty = createPropertyDefinition(newPropertyType, name);
+
+    // Apply the type-specific settings from the dialog
+    if (newProperty.type === 'select' || newProperty.type === 'multi_select') {
+      newPropertyOptions
+        .split(',')
+        .map((option) => option.trim())
+        .filter(Boolean)
+        .forEach((option) => {
+          if (!newProperty.options.some((o) => o.name === option)) {
+            newProperty.options.push(createSelectOption(option, newProperty.options));
+          }
+        });
+    } else if (newProperty.type === 'number') {
+      newProperty.format = newNumberFormat;
+    } else if (newProperty.type === 'date') {
+      newProperty.includeTime = newIncludeTime;
+    } else if (newProperty.type === 'person') {
+      newProperty.allowMultiple = newAllowMultiple;
     }
 
     const updatedProperties = {
       ...pageProperties,
-      [newPropertyName]: newProperty,
+      [name]: newProperty,
     };
 
     onUpdatePage(page.id, { properties: updatedProperties } as any);
     setNewPropertyName('');
+    setNewPropertyOptions('');
     setShowAddProperty(false);
   };
 
+  // Save a value, together with its property definition when the edit changed it
+  const handleUpdateValue = (propertyName: string, value: any, updatedProperty?: DatabaseProperty) => {
+    onUpdatePage(page.id, {
+      ...(updatedProperty && { properties: { ...pageProperties, [propertyName]: updatedProperty } }),
+      propertyValues: { ...propertyValues, [propertyName]: value },
+    });
+  };
+
   const handleRemoveProperty = (propertyName: string) => {
     const { [propertyName]: removed, ...rest } = pageProperties;
     onUpdatePage(page.id, { properties: rest } as any);
@@ -105,14 +141,57 @@ export const PageProperties: React.FC<PagePropertiesProps> = ({
                 <label className="text-sm font-medium mb-2 block">Property Type</label>
                 <select
                   value={newPropertyType}
-                  onChange={(e) => setNewPropertyType(e.target.value as any)}
+                  onChange={(e) => setNewPropertyType(e.target.value as DatabasePropertyType)}
                   className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800"
                 >
-                  <option value="relation">Relation</option>
-                  <option value="rollup">Rollup</option>
-                  <option value="formula">Formula</option>
+                  {(Object.keys(PROPERTY_TYPE_LABELS) as DatabasePropertyType[]).map((type) => (
+                    <option key={type} value={type}>
+                      {PROPERTY_TYPE_LABELS[type]}
+                    </option>
+                  ))}
                 </select>
               </div>
+              {(newPropertyType === 'select' || newPropertyType === 'multi_select') && (
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Options</label>
+                  <input
+                    type="text"
+                    value={newPropertyOptions}
+                    onChange={(e) => setNewPropertyOptions(e.target.value)}
+                    placeholder="e.g., Low, Medium, High"
+                    className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Separate options with commas. You can add more later.</p>
+                </div>
+              )}
+              {newPropertyType === 'number' && (
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Number Format</label>
+                  <select
+                    value={newNumberFormat}
+                    onChange={(e) => setNewNumberFormat(e.target.value as NumberFormat)}
+                    className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800"
+                  >
+                    {NUMBER_FORMATS.map((numberFormat) => (
+                      <option key={numberFormat.value} value={numberFormat.value}>
+                        {numberFormat.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {newPropertyType === 'date' && (
+                <label className="flex items-center gap-2 text-sm">
+                  <input type="checkbox" checked={newIncludeTime} onChange={(e) => setNewIncludeTime(e.target.checked)} />
+                  Include time
+                </label>
+              )}
+              {newPropertyType === 'person' && (
+                <label className="flex items-center gap-2 text-sm">
+                  <input type="checkbox" checked={newAllowMultiple} onChange={(e) => setNewAllowMultiple(e.target.checked)} />
+                  Allow multiple people
+                </label>
+              )}
               <div>
                 <label className="text-sm font-medium mb-2 block">Property Name</label>
                 <input
@@ -134,11 +213,11 @@ export const PageProperties: React.FC<PagePropertiesProps> = ({
       {Object.keys(pageProperties).length === 0 ? (
         <div className="text-center py-8 text-gray-500 dark:text-gray-400">
           <p className="text-sm">No database properties yet</p>
-          <p className="text-xs mt-1">Click "Add Property" to create relations, rollups, or formulas</p>
+          <p className="text-xs mt-1">Click "Add Property" to add fields like status, dates, people, relations or formulas</p>
         </div>
       ) : (
         <div className="space-y-3">
-          {Object.entries(pageProperties).map(([name, property]: [string, any]) => (
+          {Object.entries(pageProperties).map(([name, property]) => (
             <div key={name} className="relative">
               <button
                 onClick={() => handleRemoveProperty(name)}
@@ -163,7 +242,16 @@ export const PageProperties: React.FC<PagePropertiesProps> = ({
               )}
 
               {property.type === 'formula' && (
-                <FormulaProperty page={page} property={property} />
+                <FormulaProperty page={page} property={property} propertyName={name} allPages={allPages} />
+              )}
+
+              {isValueProperty(property) && (
+                <ValueProperty
+                  property={property}
+                  value={propertyValues[name]}
+                  members={members}
+                  onChange={(value, updated) => handleUpdateValue(name, value, updated)}
+                />
               )}
             </div>
           ))}
@@ -6,7 +6,7 @@ import {
   DialogTitle,
   DialogDescription,
 } from './ui/dialog'; // Adjust path if needed based on where you save this file
-import { Keyboard, Command, Search, Bold, Italic, FileText } from 'lucide-react';
+import { Keyboard, Command, Search, Bold, Italic, FileText, Undo2, Redo2 } from 'lucide-react';
 
 interface ShortcutsModalProps {
   open: boolean;
@@ -29,6 +29,8 @@ export const ShortcutsModal: React.FC<ShortcutsModalProps> = ({ open, onOpenChan
         { icon: <Bold size={14} />, label: "Bold", keys: ["⌘", "B"] },
         { icon: <Italic size={14} />, label: "Italic", keys: ["⌘", "I"] },
         { icon: <Command size={14} />, label: "Slash Commands", keys: ["/"] },
+        { icon: <Undo2 size={14} />, label: "Undo", keys: ["⌘", "Z"] },
+        { icon: <Redo2 size={14} />, label: "Redo", keys: ["⌘", "Shift", "Z"] },
       ]
     },
     {
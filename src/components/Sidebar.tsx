@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import {
   Plus,
   Search,
@@ -14,11 +14,15 @@ import {
   RotateCcw, // Restore icon
   Trash, // Permanent delete icon
   Layers, // Templates icon
-  LogOut // Logout icon
+  LogOut, // Logout icon
+  FileUp, // Import icon
+  Archive // Workspace export icon
 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { Page } from '../types/workspace';
 import { Template } from '../types/template';
+import { ImportedPage, importMarkdownFile } from '../lib/import/markdown';
+import { importDocxFile } from '../lib/import/docx';
 import { TemplateGallery } from './templates/TemplateGallery';
 import { motion, AnimatePresence } from 'framer-motion';
 import { signOut } from 'firebase/auth';
@@ -30,6 +34,7 @@ import { IconPicker } from './ui/icon-picker';
 import { usePageSearch } from '../hooks/use-page-search';
 import { Logo } from './Logo';
 import { EmptyState } from './ui/empty-state';
+import { getPurgeDate, getTrashItems, searchTrash } from '../lib/trash';
 
 interface SidebarProps {
   pages: Page[];
@@ -37,9 +42,13 @@ interface SidebarProps {
   currentPageId: string | null;
   onSelectPage: (pageId: string | null) => void;
   onAddPage: (template?: Template) => void;
+  onImportPage?: (page: ImportedPage) => void;
+  onImportArchive?: (file: File) => Promise<{ source: 'workspace' | 'notion'; pageCount: number; warnings: string[]; error: string | null }>;
+  onExportWorkspace?: () => Promise<{ warnings: string[]; error: string | null }>;
   onDeletePage: (pageId: string) => void;
-  onRestorePage?: (pageId: string) => void;
-  onPermanentlyDeletePage?: (pageId: string) => void;
+  onRestorePages?: (pageIds: string[]) => void;
+  onPermanentlyDeletePages?: (pageIds: string[]) => void;
+  trashRetentionDays?: number;
   onUpdatePage?: (pageId: string, newIcon: string) => void;
   sidebarOpen: boolean;
   setSidebarOpen: (open: boolean) => void;
@@ -65,15 +74,38 @@ const HighlightedText = ({ text, highlight }: { text: string; highlight: string
   );
 };
 
+// Items an import or export skipped, listed in its toast (the first few of them)
+const MAX_LISTED_WARNINGS = 5;
+
+const WarningList = ({ summary, warnings }: { summary: string; warnings: string[] }) => (
+  <div>
+    <p>{summary}</p>
+    <ul className="mt-1 list-disc pl-4 text-xs">
+      {warnings.slice(0, MAX_LISTED_WARNINGS).map((warning, i) => (
+        <li key={i} className="break-all">{warning}</li>
+      ))}
+    </ul>
+    {warnings.length > MAX_LISTED_WARNINGS && (
+      <p className="mt-1 text-xs">and {warnings.length - MAX_LISTED_WARNINGS} more</p>
+    )}
+  </div>
+);
+
+const countItems = (count: number) => `${count} item${count === 1 ? '' : 's'}`;
+
 export const Sidebar: React.FC<SidebarProps> = ({
   pages,
   archivedPages = [],
   currentPageId,
   onSelectPage,
   onAddPage,
+  onImportPage,
+  onImportArchive,
+  onExportWorkspace,
   onDeletePage,
-  onRestorePage,
-  onPermanentlyDeletePage,
+  onRestorePages,
+  onPermanentlyDeletePages,
+  trashRetentionDays,
   onUpdatePage,
   sidebarOpen,
   setSidebarOpen,
@@ -84,6 +116,10 @@ export const Sidebar: React.FC<SidebarProps> = ({
   const navigate = useNavigate();
   const [showTemplates, setShowTemplates] = useState(false);
   const [showTrash, setShowTrash] = useState(false);
+  const [trashQuery, setTrashQuery] = useState('');
+  const [selectedTrash, setSelectedTrash] = useState<Set<string>>(new Set());
+  const [isExporting, setIsExporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const handleCreatePage = (template?: Template) => {
     onAddPage(template);
@@ -95,6 +131,75 @@ export const Sidebar: React.FC<SidebarProps> = ({
     });
   };
 
+  const handleImportFiles = async (files: FileList | null) => {
+    if (!files) return;
+    for (const file of Array.from(files)) {
+      // Zips are workspace exports or Notion exports: a whole tree of pages and databases
+      if (/\.zip$/i.test(file.name)) {
+        if (!onImportArchive) continue;
+        const { source, pageCount, warnings, error } = await onImportArchive(file);
+        const imported = `Imported ${pageCount} page${pageCount === 1 ? '' : 's'}`;
+        toast({
+          title: error ? "Import failed" : source === 'workspace' ? "Workspace export imported" : "Notion export imported",
+          description: error
+            ? error
+            : warnings.length > 0
+              ? <WarningList summary={`${imported}; ${countItems(warnings.length)} skipped:`} warnings={warnings} />
+              : imported,
+          variant: error ? "destructive" : undefined,
+          // Long enough to read what was skipped
+          duration: !error && warnings.length > 0 ? 10000 : 3000,
+        });
+        continue;
+      }
+      await handleImportPageFile(file);
+    }
+    if (importInputRef.current) importInputRef.current.value = '';
+  };
+
+  // Markdown and Word files become a single page
+  const handleImportPageFile = async (file: File) => {
+    if (!onImportPage) return false;
+    try {
+      onImportPage(/\.docx$/i.test(file.name) ? await importDocxFile(file) : await importMarkdownFile(file));
+      toast({
+        title: "Page imported",
+        description: `Imported ${file.name}`,
+        duration: 3000,
+      });
+      return true;
+    } catch (error) {
+      console.error('Error importing page:', error);
+      toast({
+        title: "Import failed",
+        description: `Could not read ${file.name}`,
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const handleImportDocx = async (file: File) => {
+    if (await handleImportPageFile(file)) setShowTemplates(false);
+  };
+
+  const handleExportWorkspace = async () => {
+    if (!onExportWorkspace || isExporting) return;
+    setIsExporting(true);
+    const { warnings, error } = await onExportWorkspace();
+    setIsExporting(false);
+    toast({
+      title: error ? "Export failed" : "Workspace exported",
+      description: error
+        ? error
+        : warnings.length > 0
+          ? <WarningList summary={`${countItems(warnings.length)} couldn't be included:`} warnings={warnings} />
+          : "Every page, with its media, is in the downloaded zip.",
+      variant: error ? "destructive" : undefined,
+      duration: !error && warnings.length > 0 ? 10000 : 3000,
+    });
+  };
+
   const handleDeletePage = (pageId: string) => {
     onDeletePage(pageId);
     toast({
@@ -105,23 +210,45 @@ export const Sidebar: React.FC<SidebarProps> = ({
     });
   };
 
-  const handleRestorePage = (pageId: string) => {
-    if (onRestorePage) {
-      onRestorePage(pageId);
+  // The trash lists each deleted page once, with the pages deleted along with it under it
+  const trashItems = useMemo(() => getTrashItems(archivedPages), [archivedPages]);
+  const visibleTrash = useMemo(() => searchTrash(trashItems, trashQuery), [trashItems, trashQuery]);
+  const selectedVisible = visibleTrash.filter((item) => selectedTrash.has(item.page.id));
+
+  const toggleTrashSelection = (pageId: string) => {
+    setSelectedTrash((prev) => {
+      const next = new Set(prev);
+      if (next.has(pageId)) next.delete(pageId);
+      else next.add(pageId);
+      return next;
+    });
+  };
+
+  const toggleSelectAllTrash = () => {
+    setSelectedTrash(selectedVisible.length === visibleTrash.length ? new Set() : new Set(visibleTrash.map((item) => item.page.id)));
+  };
+
+  const describeCount = (pageIds: string[]) => pageIds.length === 1 ? "The page" : `${pageIds.length} pages`;
+
+  const handleRestorePages = (pageIds: string[]) => {
+    if (onRestorePages && pageIds.length > 0) {
+      onRestorePages(pageIds);
+      setSelectedTrash((prev) => new Set([...prev].filter((id) => !pageIds.includes(id))));
       toast({
-        title: "Page restored",
-        description: "The page has been restored from trash.",
+        title: pageIds.length === 1 ? "Page restored" : "Pages restored",
+        description: `${describeCount(pageIds)} and ${pageIds.length === 1 ? 'its' : 'their'} subpages have been restored from trash.`,
         duration: 3000,
       });
     }
   };
 
-  const handlePermanentlyDeletePage = (pageId: string) => {
-    if (onPermanentlyDeletePage) {
-      onPermanentlyDeletePage(pageId);
+  const handlePermanentlyDeletePages = (pageIds: string[]) => {
+    if (onPermanentlyDeletePages && pageIds.length > 0) {
+      onPermanentlyDeletePages(pageIds);
+      setSelectedTrash((prev) => new Set([...prev].filter((id) => !pageIds.includes(id))));
       toast({
-        title: "Page permanently deleted",
-        description: "The page has been permanently deleted.",
+        title: pageIds.length === 1 ? "Page permanently deleted" : "Pages permanently deleted",
+        description: `${describeCount(pageIds)} and ${pageIds.length === 1 ? 'its' : 'their'} subpages have been permanently deleted.`,
         duration: 3000,
         variant: "destructive",
       });
@@ -187,6 +314,35 @@ export const Sidebar: React.FC<SidebarProps> = ({
             <Plus size={18} />
             <span>New Page</span>
           </button>
+          {(onImportPage || onImportArchive) && (
+            <>
+              <button
+                onClick={() => importInputRef.current?.click()}
+                className="w-full flex items-center gap-3 px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+              >
+                <FileUp size={18} />
+                <span>Import</span>
+              </button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept={[onImportPage && '.md,.markdown,text/markdown,.docx', onImportArchive && '.zip,application/zip'].filter(Boolean).join(',')}
+                multiple
+                className="hidden"
+                onChange={(e) => handleImportFiles(e.target.files)}
+              />
+            </>
+          )}
+          {onExportWorkspace && (
+            <button
+              onClick={handleExportWorkspace}
+              disabled={isExporting}
+              className="w-full flex items-center gap-3 px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-50"
+            >
+              <Archive size={18} />
+              <span>{isExporting ? 'Exporting...' : 'Export workspace'}</span>
+            </button>
+          )}
           <button
             onClick={() => inputRef.current?.focus()}
             className="w-full flex items-center gap-3 px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
@@ -284,7 +440,56 @@ export const Sidebar: React.FC<SidebarProps> = ({
                 <div className="px-2 py-2 text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2">
                   Trash ({archivedPages.length})
                 </div>
-                {archivedPages.length === 0 ? (
+                {trashItems.length > 0 && (
+                  <div className="px-1 mb-2 space-y-2">
+                    <div className="relative">
+                      <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+                      <input
+                        type="text"
+                        value={trashQuery}
+                        onChange={(e) => setTrashQuery(e.target.value)}
+                        placeholder="Search trash..."
+                        className="w-full pl-8 pr-3 py-2 text-sm bg-gray-50 dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded-lg text-gray-900 dark:text-gray-100 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                    {visibleTrash.length > 0 && (
+                      <div className="flex items-center gap-2 px-2 text-xs text-gray-500 dark:text-gray-400">
+                        <label className="flex items-center gap-2 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={selectedVisible.length === visibleTrash.length}
+                            onChange={toggleSelectAllTrash}
+                            className="rounded border-gray-300 dark:border-slate-600"
+                          />
+                          {selectedVisible.length > 0 ? `${selectedVisible.length} selected` : 'Select all'}
+                        </label>
+                        {selectedVisible.length > 0 && (
+                          <div className="ml-auto flex items-center gap-1">
+                            {onRestorePages && (
+                              <button
+                                onClick={() => handleRestorePages(selectedVisible.map((item) => item.page.id))}
+                                className="p-1 hover:bg-green-100 dark:hover:bg-green-900/30 rounded transition-all text-gray-400 hover:text-green-600 dark:hover:text-green-400"
+                                title="Restore selected"
+                              >
+                                <RotateCcw size={14} />
+                              </button>
+                            )}
+                            {onPermanentlyDeletePages && (
+                              <button
+                                onClick={() => handlePermanentlyDeletePages(selectedVisible.map((item) => item.page.id))}
+                                className="p-1 hover:bg-red-100 dark:hover:bg-red-900/30 rounded transition-all text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                                title="Permanently delete selected"
+                              >
+                                <Trash size={14} />
+                              </button>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+                {trashItems.length === 0 ? (
                   <div className="text-center py-12 px-2">
                     <div className="w-16 h-16 mx-auto rounded-2xl bg-gray-100 dark:bg-slate-800 flex items-center justify-center mb-4">
                       <Trash2 size={32} className="text-gray-400 dark:text-gray-600" />
@@ -292,27 +497,48 @@ export const Sidebar: React.FC<SidebarProps> = ({
                     <p className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">Trash is empty</p>
                     <p className="text-xs text-gray-400 dark:text-gray-500">Deleted pages will appear here</p>
                   </div>
+                ) : visibleTrash.length === 0 ? (
+                  <EmptyState
+                    variant="compact"
+                    title="No deleted pages found"
+                    description="Try a different search."
+                  />
                 ) : (
                   <div className="space-y-1">
-                    {archivedPages.map((page) => (
+                    {visibleTrash.map(({ page, descendants }) => {
+                      const purgeDate = getPurgeDate(page, trashRetentionDays);
+                      return (
                       <motion.div
                         key={page.id}
                         whileHover={{ x: 2 }}
                         className="group flex items-center gap-3 px-3 py-2.5 rounded-xl cursor-pointer transition-all text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-slate-800"
                         onClick={() => onSelectPage(page.id)}
                       >
+                        <input
+                          type="checkbox"
+                          checked={selectedTrash.has(page.id)}
+                          onClick={(e) => e.stopPropagation()}
+                          onChange={() => toggleTrashSelection(page.id)}
+                          className="flex-shrink-0 rounded border-gray-300 dark:border-slate-600"
+                        />
                         <span className="text-base flex-shrink-0 opacity-50">
                           {page.icon}
                         </span>
-                        <span className="flex-1 text-sm font-medium truncate line-through opacity-60">
-                          {page.title}
-                        </span>
+                        <div className="flex-1 min-w-0">
+                          <div className="text-sm font-medium truncate line-through opacity-60">
+                            <HighlightedText text={page.title} highlight={trashQuery} />
+                          </div>
+                          <div className="text-xs text-gray-400 dark:text-gray-500 truncate">
+                            {descendants.length > 0 && `+${descendants.length} subpage${descendants.length === 1 ? '' : 's'} · `}
+                            {purgeDate ? `Deleted for good on ${purgeDate.toLocaleDateString()}` : 'Kept until deleted'}
+                          </div>
+                        </div>
                         <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                          {onRestorePage && (
+                          {onRestorePages && (
                             <button
                               onClick={(e) => {
                                 e.stopPropagation();
-                                handleRestorePage(page.id);
+                                handleRestorePages([page.id]);
                               }}
                               className="p-1 hover:bg-green-100 dark:hover:bg-green-900/30 rounded transition-all text-gray-400 hover:text-green-600 dark:hover:text-green-400"
                               title="Restore"
@@ -320,11 +546,11 @@ export const Sidebar: React.FC<SidebarProps> = ({
                               <RotateCcw size={14} />
                             </button>
                           )}
-                          {onPermanentlyDeletePage && (
+                          {onPermanentlyDeletePages && (
                             <button
                               onClick={(e) => {
                                 e.stopPropagation();
-                                handlePermanentlyDeletePage(page.id);
+                                handlePermanentlyDeletePages([page.id]);
                               }}
                               className="p-1 hover:bg-red-100 dark:hover:bg-red-900/30 rounded transition-all text-gray-400 hover:text-red-600 dark:hover:text-red-400"
                               title="Permanently delete"
@@ -334,7 +560,8 @@ export const Sidebar: React.FC<SidebarProps> = ({
                           )}
                         </div>
                       </motion.div>
-                    ))}
+                      );
+                    })}
                   </div>
                 )}
               </>
@@ -442,6 +669,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
         isOpen={showTemplates}
         onClose={() => setShowTemplates(false)}
         onSelectTemplate={handleCreatePage}
+        onImportDocx={onImportPage ? handleImportDocx : undefined}
       />
     </>
   );
@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { GitMerge } from 'lucide-react';
+import { getConflicts } from '../lib/offline/queue';
+import { ConflictChoice, SyncConflict } from '../lib/offline/conflicts';
+import { resolveSyncConflict } from '../lib/offline/sync';
+import { useToast } from '../hooks/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+
+interface SyncConflictDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conflictCount: number; // From the sync status; conflicts are reloaded when it changes
+}
+
+// A field's value as text, for showing both sides of a conflict
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return 'Empty';
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+};
+
+// Offline edits that clashed with changes made elsewhere, one at a time:
+// for each, the user keeps their edits, the other changes, or both.
+export const SyncConflictDialog: React.FC<SyncConflictDialogProps> = ({ open, onOpenChange, conflictCount }) => {
+  const { toast } = useToast();
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [isResolving, setIsResolving] = useState(false);
+
+  useEffect(() => {
+    if (open) getConflicts().then(setConflicts);
+  }, [open, conflictCount]);
+
+  const conflict = conflicts[0];
+
+  const handleResolve = async (choice: ConflictChoice) => {
+    if (!conflict) return;
+    if (!navigator.onLine) {
+      toast({
+        title: "You're offline",
+        description: "Conflicts can be resolved once you're back online.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setIsResolving(true);
+    try {
+      await resolveSyncConflict(conflict, choice);
+      const remaining = conflicts.slice(1);
+      setConflicts(remaining);
+      if (remaining.length === 0) onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        title: "Couldn't resolve conflict",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open && !!conflict} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge size={20} />
+            Sync conflict{conflicts.length > 1 ? ` (1 of ${conflicts.length})` : ''}
+          </DialogTitle>
+          <DialogDescription>
+            While you were offline, this {conflict?.kind} was also changed somewhere else.
+            Your other changes have been saved; choose what to keep here.
+          </DialogDescription>
+        </DialogHeader>
+
+        {conflict && (
+          <div className="space-y-4 mt-2">
+            {conflict.conflicts.map(({ field, mine, theirs }) => (
+              <div key={field}>
+                <p className="text-xs font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400 mb-1">{field}</p>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="p-2 rounded-md border border-blue-200 dark:border-blue-900 bg-blue-50 dark:bg-blue-900/20">
+                    <p className="text-xs font-medium text-blue-700 dark:text-blue-300 mb-1">Your offline edit</p>
+                    <pre className="text-sm whitespace-pre-wrap break-words font-sans text-gray-900 dark:text-gray-100">{formatValue(mine)}</pre>
+                  </div>
+                  <div className="p-2 rounded-md border border-amber-200 dark:border-amber-900 bg-amber-50 dark:bg-amber-900/20">
+                    <p className="text-xs font-medium text-amber-700 dark:text-amber-300 mb-1">Changed elsewhere</p>
+                    <pre className="text-sm whitespace-pre-wrap break-words font-sans text-gray-900 dark:text-gray-100">{formatValue(theirs)}</pre>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter className="mt-4">
+          <button
+            onClick={() => onOpenChange(false)}
+            className="px-3 py-1.5 text-sm rounded-md hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-700 dark:text-gray-300"
+          >
+            Decide later
+          </button>
+          <button
+            onClick={() => handleResolve('theirs')}
+            disabled={isResolving}
+            className="px-3 py-1.5 text-sm rounded-md border border-gray-200 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-700 dark:text-gray-300 disabled:opacity-50"
+          >
+            Keep theirs
+          </button>
+          <button
+            onClick={() => handleResolve('both')}
+            disabled={isResolving}
+            className="px-3 py-1.5 text-sm rounded-md border border-gray-200 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-700 dark:text-gray-300 disabled:opacity-50"
+          >
+            Keep both
+          </button>
+          <button
+            onClick={() => handleResolve('mine')}
+            disabled={isResolving}
+            className="px-3 py-1.5 text-sm rounded-md bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Keep mine
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
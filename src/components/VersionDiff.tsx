@@ -0,0 +1,193 @@
+import React from 'react';
+import { Block } from '../types/workspace';
+import { PageSnapshot, TextChange } from '../types/history';
+import { alignBlocks, BlockDiffRow, diffPageFields, diffText, getBlockText } from '../lib/history/diff';
+import { ArrowRightLeft } from 'lucide-react';
+
+export type DiffLayout = 'inline' | 'side-by-side';
+
+interface VersionDiffProps {
+    before: PageSnapshot;
+    after: PageSnapshot;
+    layout: DiffLayout;
+    beforeLabel: string;
+    afterLabel: string;
+}
+
+const BLOCK_LABELS: Partial<Record<Block['type'], string>> = {
+    heading1: 'Heading 1',
+    heading2: 'Heading 2',
+    heading3: 'Heading 3',
+    'bulleted-list': 'Bulleted list',
+    'numbered-list': 'Numbered list',
+    checkbox: 'To-do',
+    code: 'Code',
+    'code-enhanced': 'Code',
+    quote: 'Quote',
+    divider: 'Divider',
+    image: 'Image',
+    table: 'Table',
+    toggle: 'Toggle',
+    callout: 'Callout',
+    equation: 'Equation',
+    embed: 'Embed',
+    ai: 'AI'
+};
+
+const ROW_STYLES: Record<BlockDiffRow['type'], string> = {
+    unchanged: 'border-transparent',
+    added: 'border-green-500 bg-green-50 dark:bg-green-900/20',
+    removed: 'border-red-500 bg-red-50 dark:bg-red-900/20',
+    moved: 'border-amber-500 bg-amber-50 dark:bg-amber-900/20',
+    edited: 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+};
+
+/**
+ * Shows a value of a page field (title, icon, properties...) as text.
+ */
+const formatValue = (value: unknown) =>
+    value === null || value === undefined || value === ''
+        ? '—'
+        : typeof value === 'object'
+            ? JSON.stringify(value, null, 2)
+            : String(value);
+
+/**
+ * Text of a block with the words that changed highlighted.
+ * `side` picks which changes are shown: deletions, insertions, or both (inline).
+ */
+const ChangedText: React.FC<{ changes: TextChange[]; side: 'before' | 'after' | 'both' }> = ({ changes, side }) => (
+    <>
+        {changes.map((change, index) => {
+            if (change.type === 'equal') return <span key={index}>{change.text}</span>;
+            if (change.type === 'delete' && side !== 'after') {
+                return (
+                    <del key={index} className="bg-red-200/70 dark:bg-red-800/50 text-red-900 dark:text-red-200 no-underline line-through">
+                        {change.text}
+                    </del>
+                );
+            }
+            if (change.type === 'insert' && side !== 'before') {
+                return (
+                    <ins key={index} className="bg-green-200/70 dark:bg-green-800/50 text-green-900 dark:text-green-200 no-underline">
+                        {change.text}
+                    </ins>
+                );
+            }
+            return null;
+        })}
+    </>
+);
+
+/**
+ * One block of a diff: its type, a short description of what happened and its text.
+ */
+const BlockCell: React.FC<{ row: BlockDiffRow; block?: Block; side: 'before' | 'after' | 'both' }> = ({ row, block, side }) => {
+    if (!block) return <div className="min-h-[2.5rem]" />;
+    const label = BLOCK_LABELS[block.type];
+    const text = getBlockText(block);
+    const changes = row.change?.textChanges;
+    const typeChanged = row.change?.fields?.includes('type') && row.before && row.after;
+    const notes = [
+        row.type === 'added' && 'Added',
+        row.type === 'removed' && 'Removed',
+        (row.type === 'moved' || row.change?.moved) && 'Moved',
+        typeChanged && `${BLOCK_LABELS[row.before!.type] || 'Text'} → ${BLOCK_LABELS[row.after!.type] || 'Text'}`,
+        row.change?.fields?.includes('checked') && (row.after?.checked ? 'Checked' : 'Unchecked'),
+        row.change?.fields?.some((field) => !['type', 'checked'].includes(field)) && 'Settings changed'
+    ].filter(Boolean);
+
+    return (
+        <div className={`border-l-4 rounded px-3 py-2 ${ROW_STYLES[row.type]}`}>
+            {(label || notes.length > 0) && (
+                <div className="flex items-center gap-2 text-[11px] uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-0.5">
+                    {label && <span>{label}</span>}
+                    {notes.map((note) => (
+                        <span key={String(note)} className="flex items-center gap-1 normal-case tracking-normal font-medium">
+                            {note === 'Moved' && <ArrowRightLeft size={11} />}
+                            {note}
+                        </span>
+                    ))}
+                </div>
+            )}
+            <div
+                className={`text-sm whitespace-pre-wrap break-words ${row.type === 'unchanged' ? 'text-gray-500 dark:text-gray-400' : 'text-gray-900 dark:text-gray-100'} ${row.type === 'removed' ? 'line-through' : ''} ${block.type.startsWith('code') ? 'font-mono text-xs' : ''}`}
+            >
+                {changes ? <ChangedText changes={changes} side={side} /> : text || (block.type === 'divider' ? '———' : <span className="italic text-gray-400">Empty</span>)}
+            </div>
+        </div>
+    );
+};
+
+/**
+ * Differences between two states of a page: changed page fields, then every
+ * block with what was added, removed, moved or edited, inline or side by side.
+ */
+export const VersionDiff: React.FC<VersionDiffProps> = ({ before, after, layout, beforeLabel, afterLabel }) => {
+    const fieldChanges = Object.entries(diffPageFields(before.page, after.page));
+    const rows = alignBlocks(before.blocks, after.blocks);
+    const changedRows = rows.filter((row) => row.type !== 'unchanged').length;
+
+    return (
+        <div className="space-y-6">
+            {/* Page fields: title, icon, cover, properties */}
+            {fieldChanges.length > 0 && (
+                <div className="space-y-3">
+                    <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Page</h4>
+                    {fieldChanges.map(([field, change]) => (
+                        <div key={field} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+                            <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-2 capitalize">{field}</div>
+                            {typeof change.before === 'string' && typeof change.after === 'string' && layout === 'inline' ? (
+                                <div className="text-sm text-gray-900 dark:text-gray-100 whitespace-pre-wrap">
+                                    <ChangedText changes={diffText(change.before, change.after)} side="both" />
+                                </div>
+                            ) : (
+                                <div className="grid grid-cols-2 gap-3">
+                                    <div className="bg-red-50 dark:bg-red-900/20 border-l-4 border-red-500 p-2 rounded text-sm font-mono whitespace-pre-wrap break-words text-gray-900 dark:text-gray-100">
+                                        {formatValue(change.before)}
+                                    </div>
+                                    <div className="bg-green-50 dark:bg-green-900/20 border-l-4 border-green-500 p-2 rounded text-sm font-mono whitespace-pre-wrap break-words text-gray-900 dark:text-gray-100">
+                                        {formatValue(change.after)}
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Blocks */}
+            <div className="space-y-2">
+                <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                    Content
+                    <span className="ml-2 font-normal text-gray-500 dark:text-gray-400">
+                        {changedRows === 0 ? 'No changes' : `${changedRows} block${changedRows === 1 ? '' : 's'} changed`}
+                    </span>
+                </h4>
+
+                {layout === 'side-by-side' && (
+                    <div className="grid grid-cols-2 gap-3 text-xs font-medium text-gray-500 dark:text-gray-400">
+                        <div>{beforeLabel}</div>
+                        <div>{afterLabel}</div>
+                    </div>
+                )}
+
+                {rows.map((row) => {
+                    const key = row.after?.id || row.before?.id;
+                    return layout === 'side-by-side' ? (
+                        <div key={key} className="grid grid-cols-2 gap-3">
+                            <BlockCell row={row} block={row.type === 'added' ? undefined : row.before} side="before" />
+                            <BlockCell row={row} block={row.type === 'removed' ? undefined : row.after} side="after" />
+                        </div>
+                    ) : (
+                        <BlockCell key={key} row={row} block={row.after || row.before} side="both" />
+                    );
+                })}
+
+                {rows.length === 0 && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">Both versions are empty.</p>
+                )}
+            </div>
+        </div>
+    );
+};
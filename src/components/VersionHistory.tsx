@@ -1,28 +1,63 @@
-import React, { useState, useEffect } from 'react';
-import { HistoryEntry } from '../types/history';
-import { getPageHistory, restoreVersion, reconstructPageAtVersion } from '../lib/firebase/history';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { HistoryEntry, PageSnapshot, SyncConflictOutcome } from '../types/history';
+import {
+    getPageHistory,
+    getPinnedVersions,
+    getVersionsToRebuild,
+    labelVersion,
+    restoreVersion,
+    HISTORY_PAGE_SIZE
+} from '../lib/firebase/history';
+import { createSnapshot, reconstructVersion } from '../lib/history/diff';
 import { Page } from '../types/workspace';
-import { Clock, RotateCcw, X, User } from 'lucide-react';
+import { Clock, RotateCcw, X, Columns2, Rows3, Pin, PinOff, Tag } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { DiffLayout, VersionDiff } from './VersionDiff';
 
 interface VersionHistoryProps {
     pageId: string;
     currentUserId: string;
+    currentPage?: Page; // The live page, to compare versions with
     onClose: () => void;
     onRestore?: () => void;
+    // Applies a restored version to the page; without it the Firestore page is restored
+    onRestoreVersion?: (version: PageSnapshot, versionId: string) => void;
 }
 
+// What the selected version is compared with: the live page (what restoring
+// would change) or the version before it (what that edit changed)
+type CompareTo = 'current' | 'previous';
+
+// Versions written when offline edits were replayed over changes made elsewhere
+const SYNC_CONFLICT_LABELS: Record<SyncConflictOutcome, string> = {
+    merged: 'Offline edits merged',
+    mine: 'Sync conflict: kept offline edits',
+    theirs: 'Sync conflict: kept other changes',
+    both: 'Sync conflict: kept both',
+};
+
 export const VersionHistory: React.FC<VersionHistoryProps> = ({
     pageId,
     currentUserId,
+    currentPage,
     onClose,
-    onRestore
+    onRestore,
+    onRestoreVersion
 }) => {
     const [history, setHistory] = useState<HistoryEntry[]>([]);
+    const [pinned, setPinned] = useState<HistoryEntry[]>([]);
+    const [hasMore, setHasMore] = useState(false);
+    const [loadingMore, setLoadingMore] = useState(false);
+    // The versions the selected one is rebuilt from (see getVersionsToRebuild)
+    const [versions, setVersions] = useState<HistoryEntry[] | null>(null);
     const [selectedVersion, setSelectedVersion] = useState<HistoryEntry | null>(null);
-    const [previewPage, setPreviewPage] = useState<Page | null>(null);
+    const selectedId = useRef<string | null>(null);
+    const [nameDraft, setNameDraft] = useState('');
     const [loading, setLoading] = useState(true);
     const [restoring, setRestoring] = useState(false);
+    const [layout, setLayout] = useState<DiffLayout>('inline');
+    const [compareTo, setCompareTo] = useState<CompareTo>(currentPage ? 'current' : 'previous');
+    const [previewError, setPreviewError] = useState<string | null>(null);
 
     useEffect(() => {
         loadHistory();
@@ -31,8 +66,13 @@ export const VersionHistory: React.FC<VersionHistoryProps> = ({
     const loadHistory = async () => {
         try {
             setLoading(true);
-            const entries = await getPageHistory(pageId);
+            selectedId.current = null;
+            setSelectedVersion(null);
+            setVersions(null);
+            const [entries, pinnedEntries] = await Promise.all([getPageHistory(pageId), getPinnedVersions(pageId)]);
             setHistory(entries);
+            setPinned(pinnedEntries);
+            setHasMore(entries.length === HISTORY_PAGE_SIZE);
         } catch (error) {
             console.error('Failed to load history:', error);
         } finally {
@@ -40,18 +80,81 @@ export const VersionHistory: React.FC<VersionHistoryProps> = ({
         }
     };
 
+    const loadMore = async () => {
+        if (loadingMore || history.length === 0) return;
+        try {
+            setLoadingMore(true);
+            const entries = await getPageHistory(pageId, { after: history[history.length - 1] });
+            setHistory((prev) => [...prev, ...entries]);
+            setHasMore(entries.length === HISTORY_PAGE_SIZE);
+        } catch (error) {
+            console.error('Failed to load more history:', error);
+        } finally {
+            setLoadingMore(false);
+        }
+    };
+
     const handleVersionSelect = async (version: HistoryEntry) => {
+        selectedId.current = version.id;
         setSelectedVersion(version);
+        setNameDraft(version.name || '');
+        setPreviewError(null);
+        setVersions(null);
+        // Rebuilding a version needs the versions back to the nearest snapshot before it
         try {
-            const page = await reconstructPageAtVersion(pageId, version.id);
-            setPreviewPage(page);
+            const loaded = await getVersionsToRebuild(pageId, version);
+            // Another version may have been picked meanwhile
+            if (selectedId.current === version.id) setVersions(loaded);
         } catch (error) {
-            console.error('Failed to preview version:', error);
+            console.error('Failed to load versions:', error);
+            if (selectedId.current === version.id) setPreviewError('Could not load this version.');
         }
     };
 
-    const handleRestore = async () => {
+    // Names or pins the selected version, updating it wherever it's listed
+    const handleLabel = async (label: { name?: string; pinned?: boolean }) => {
         if (!selectedVersion) return;
+        const updated: HistoryEntry = {
+            ...selectedVersion,
+            ...(label.name !== undefined ? { name: label.name.trim() || undefined } : {}),
+            ...(label.pinned !== undefined ? { pinned: label.pinned || undefined } : {})
+        };
+        try {
+            await labelVersion(pageId, selectedVersion.id, label);
+            setSelectedVersion(updated);
+            setHistory((prev) => prev.map((entry) => (entry.id === updated.id ? updated : entry)));
+            setPinned((prev) => {
+                const others = prev.filter((entry) => entry.id !== updated.id);
+                return updated.pinned ? [updated, ...others] : others;
+            });
+        } catch (error) {
+            console.error('Failed to label version:', error);
+            alert('Failed to update this version. Please try again.');
+        }
+    };
+
+    const handleNameSave = () => {
+        if (selectedVersion && nameDraft.trim() !== (selectedVersion.name || '')) handleLabel({ name: nameDraft });
+    };
+
+    // The selected version and the state it's compared with
+    const comparison = useMemo((): { before: PageSnapshot; after: PageSnapshot } | { error: string } | null => {
+        if (!selectedVersion || !versions) return null;
+        const current = currentPage ? createSnapshot(currentPage) : undefined;
+        try {
+            const version = reconstructVersion(versions, selectedVersion.id, current);
+            if (compareTo === 'current' && current) return { before: current, after: version };
+            const index = versions.findIndex((entry) => entry.id === selectedVersion.id);
+            const previous = index > 0 ? reconstructVersion(versions, versions[index - 1].id, current) : { page: {}, blocks: [] };
+            return { before: previous, after: version };
+        } catch (error: any) {
+            console.error('Failed to preview version:', error);
+            return { error: error.message || 'Could not rebuild this version.' };
+        }
+    }, [selectedVersion?.id, versions, currentPage, compareTo]);
+
+    const handleRestore = async () => {
+        if (!selectedVersion || !comparison || 'error' in comparison) return;
 
         const confirmed = window.confirm(
             'Are you sure you want to restore this version? This will create a new version with the restored content.'
@@ -61,7 +164,11 @@ export const VersionHistory: React.FC<VersionHistoryProps> = ({
 
         try {
             setRestoring(true);
-            await restoreVersion(pageId, selectedVersion.id, currentUserId);
+            if (onRestoreVersion) {
+                onRestoreVersion(comparison.after, selectedVersion.id);
+            } else {
+                await restoreVersion(pageId, selectedVersion, currentUserId);
+            }
             onRestore?.();
             onClose();
         } catch (error) {
@@ -83,6 +190,48 @@ export const VersionHistory: React.FC<VersionHistoryProps> = ({
         }).format(d);
     };
 
+    // One version in the timeline
+    const renderVersion = (version: HistoryEntry) => (
+        <button
+            key={version.id}
+            onClick={() => handleVersionSelect(version)}
+            className={`w-full text-left p-3 rounded-lg mb-2 transition-colors ${selectedVersion?.id === version.id
+                    ? 'bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800'
+                    : 'hover:bg-gray-50 dark:hover:bg-gray-800'
+                }`}
+        >
+            <div className="flex items-start gap-2">
+                <div className="w-8 h-8 rounded-full bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center text-white text-xs font-medium flex-shrink-0">
+                    {version.authorName?.[0]?.toUpperCase() || 'U'}
+                </div>
+                <div className="flex-1 min-w-0">
+                    {version.name && (
+                        <div className="text-sm font-semibold text-gray-900 dark:text-gray-100 truncate">
+                            {version.name}
+                        </div>
+                    )}
+                    <div className={`text-sm ${version.name ? 'text-gray-600 dark:text-gray-300' : 'font-medium text-gray-900 dark:text-gray-100'}`}>
+                        {version.authorName || 'Unknown'}
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                        {formatDate(version.createdAt)}
+                    </div>
+                    {version.restoreVersionId && (
+                        <div className="text-xs text-blue-600 dark:text-blue-400 mt-1">
+                            Restored version
+                        </div>
+                    )}
+                    {version.syncConflict && (
+                        <div className="text-xs text-amber-600 dark:text-amber-400 mt-1">
+                            {SYNC_CONFLICT_LABELS[version.syncConflict]}
+                        </div>
+                    )}
+                </div>
+                {version.pinned && <Pin size={14} className="text-amber-500 flex-shrink-0 mt-0.5" />}
+            </div>
+        </button>
+    );
+
     return (
         <AnimatePresence>
             <motion.div
@@ -127,35 +276,27 @@ export const VersionHistory: React.FC<VersionHistoryProps> = ({
                                 </div>
                             ) : (
                                 <div className="p-2">
-                                    {history.map((version) => (
+                                    {pinned.length > 0 && (
+                                        <>
+                                            <div className="px-1 pt-1 pb-2 text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                                                Pinned
+                                            </div>
+                                            {pinned.map(renderVersion)}
+                                            <div className="px-1 pt-3 pb-2 text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                                                All versions
+                                            </div>
+                                        </>
+                                    )}
+                                    {history.map(renderVersion)}
+                                    {hasMore && (
                                         <button
-                                            key={version.id}
-                                            onClick={() => handleVersionSelect(version)}
-                                            className={`w-full text-left p-3 rounded-lg mb-2 transition-colors ${selectedVersion?.id === version.id
-                                                    ? 'bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800'
-                                                    : 'hover:bg-gray-50 dark:hover:bg-gray-800'
-                                                }`}
+                                            onClick={loadMore}
+                                            disabled={loadingMore}
+                                            className="w-full py-2 text-sm text-blue-600 dark:text-blue-400 hover:bg-gray-50 dark:hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-50"
                                         >
-                                            <div className="flex items-start gap-2">
-                                                <div className="w-8 h-8 rounded-full bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center text-white text-xs font-medium flex-shrink-0">
-                                                    {version.authorName?.[0]?.toUpperCase() || 'U'}
-                                                </div>
-                                                <div className="flex-1 min-w-0">
-                                                    <div className="text-sm font-medium text-gray-900 dark:text-gray-100">
-                                                        {version.authorName || 'Unknown'}
-                                                    </div>
-                                                    <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
-                                                        {formatDate(version.createdAt)}
-                                                    </div>
-                                                    {version.restoreVersionId && (
-                                                        <div className="text-xs text-blue-600 dark:text-blue-400 mt-1">
-                                                            Restored version
-                                                        </div>
-                                                    )}
-                                                </div>
-                                            </div>
+                                            {loadingMore ? 'Loading...' : 'Load older versions'}
                                         </button>
-                                    ))}
+                                    )}
                                 </div>
                             )}
                         </div>
@@ -165,64 +306,93 @@ export const VersionHistory: React.FC<VersionHistoryProps> = ({
                     <div className="flex-1 flex flex-col">
                         {selectedVersion ? (
                             <>
-                                <div className="p-4 border-b border-gray-200 dark:border-gray-800 flex items-center justify-between">
-                                    <div>
-                                        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
-                                            Preview
-                                        </h3>
+                                <div className="p-4 border-b border-gray-200 dark:border-gray-800 flex items-center justify-between gap-4">
+                                    <div className="min-w-0 flex-1">
+                                        {/* Naming a version keeps it whatever the retention policy */}
+                                        <div className="flex items-center gap-2">
+                                            <Tag size={16} className="text-gray-400 flex-shrink-0" />
+                                            <input
+                                                value={nameDraft}
+                                                onChange={(e) => setNameDraft(e.target.value)}
+                                                onBlur={handleNameSave}
+                                                onKeyDown={(e) => {
+                                                    if (e.key === 'Enter') e.currentTarget.blur();
+                                                    if (e.key === 'Escape') setNameDraft(selectedVersion.name || '');
+                                                }}
+                                                placeholder="Name this version"
+                                                className="min-w-0 flex-1 text-lg font-semibold bg-transparent text-gray-900 dark:text-gray-100 placeholder:text-gray-400 focus:outline-none"
+                                            />
+                                        </div>
                                         <p className="text-sm text-gray-500 dark:text-gray-400">
                                             {formatDate(selectedVersion.createdAt)}
                                         </p>
                                     </div>
-                                    <button
-                                        onClick={handleRestore}
-                                        disabled={restoring}
-                                        className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-md transition-colors text-sm font-medium"
-                                    >
-                                        <RotateCcw size={16} />
-                                        {restoring ? 'Restoring...' : 'Restore Version'}
-                                    </button>
+                                    <div className="flex items-center gap-2">
+                                        <button
+                                            onClick={() => handleLabel({ pinned: !selectedVersion.pinned })}
+                                            title={selectedVersion.pinned ? 'Unpin version' : 'Pin version'}
+                                            className={`p-1.5 rounded-md border border-gray-200 dark:border-gray-700 ${selectedVersion.pinned ? 'text-amber-500' : 'text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-800'}`}
+                                        >
+                                            {selectedVersion.pinned ? <PinOff size={16} /> : <Pin size={16} />}
+                                        </button>
+                                        {/* What the version is compared with */}
+                                        {currentPage && (
+                                            <select
+                                                value={compareTo}
+                                                onChange={(e) => setCompareTo(e.target.value as CompareTo)}
+                                                className="text-sm border border-gray-200 dark:border-gray-700 rounded-md px-2 py-1.5 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300"
+                                            >
+                                                <option value="current">Compare with current page</option>
+                                                <option value="previous">Changes in this version</option>
+                                            </select>
+                                        )}
+                                        {/* Inline or side-by-side diff */}
+                                        <div className="flex rounded-md border border-gray-200 dark:border-gray-700 overflow-hidden">
+                                            <button
+                                                onClick={() => setLayout('inline')}
+                                                title="Inline"
+                                                className={`p-1.5 ${layout === 'inline' ? 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100' : 'text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-800'}`}
+                                            >
+                                                <Rows3 size={16} />
+                                            </button>
+                                            <button
+                                                onClick={() => setLayout('side-by-side')}
+                                                title="Side by side"
+                                                className={`p-1.5 ${layout === 'side-by-side' ? 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100' : 'text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-800'}`}
+                                            >
+                                                <Columns2 size={16} />
+                                            </button>
+                                        </div>
+                                        <button
+                                            onClick={handleRestore}
+                                            disabled={restoring || !comparison || 'error' in comparison}
+                                            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-md transition-colors text-sm font-medium"
+                                        >
+                                            <RotateCcw size={16} />
+                                            {restoring ? 'Restoring...' : 'Restore Version'}
+                                        </button>
+                                    </div>
                                 </div>
 
                                 <div className="flex-1 overflow-y-auto p-6">
                                     {/* Diff View */}
-                                    <div className="space-y-4">
-                                        <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">
-                                            Changes
-                                        </h4>
-                                        {Object.entries(selectedVersion.diff).map(([field, change]) => (
-                                            <div
-                                                key={field}
-                                                className="border border-gray-200 dark:border-gray-700 rounded-lg p-4"
-                                            >
-                                                <div className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 capitalize">
-                                                    {field}
-                                                </div>
-                                                <div className="space-y-2">
-                                                    <div className="bg-red-50 dark:bg-red-900/20 border-l-4 border-red-500 p-3 rounded">
-                                                        <div className="text-xs text-red-600 dark:text-red-400 font-medium mb-1">
-                                                            Before
-                                                        </div>
-                                                        <div className="text-sm text-gray-900 dark:text-gray-100 font-mono">
-                                                            {typeof change.before === 'object'
-                                                                ? JSON.stringify(change.before, null, 2)
-                                                                : String(change.before)}
-                                                        </div>
-                                                    </div>
-                                                    <div className="bg-green-50 dark:bg-green-900/20 border-l-4 border-green-500 p-3 rounded">
-                                                        <div className="text-xs text-green-600 dark:text-green-400 font-medium mb-1">
-                                                            After
-                                                        </div>
-                                                        <div className="text-sm text-gray-900 dark:text-gray-100 font-mono">
-                                                            {typeof change.after === 'object'
-                                                                ? JSON.stringify(change.after, null, 2)
-                                                                : String(change.after)}
-                                                        </div>
-                                                    </div>
-                                                </div>
-                                            </div>
-                                        ))}
-                                    </div>
+                                    {previewError || (comparison && 'error' in comparison) ? (
+                                        <div className="text-sm text-red-600 dark:text-red-400">
+                                            {previewError || (comparison as { error: string }).error}
+                                        </div>
+                                    ) : !comparison ? (
+                                        <div className="flex items-center justify-center h-32">
+                                            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                                        </div>
+                                    ) : (
+                                        <VersionDiff
+                                            before={comparison.before}
+                                            after={comparison.after}
+                                            layout={layout}
+                                            beforeLabel={compareTo === 'current' && currentPage ? 'Current page' : 'Before this version'}
+                                            afterLabel="This version"
+                                        />
+                                    )}
                                 </div>
                             </>
                         ) : (
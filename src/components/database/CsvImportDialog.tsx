@@ -0,0 +1,295 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AlertTriangle, FileUp } from 'lucide-react';
+import { DatabaseProperty, ValuePropertyType } from '../../types/database';
+import { WorkspaceMember } from '../../types/permission';
+import { isValueProperty } from '../../lib/database/properties';
+import {
+  CsvColumnTarget,
+  CsvImportPlan,
+  buildCsvImport,
+  guessColumnTargets,
+  parseCsv,
+} from '../../lib/import/csv';
+import { PROPERTY_TYPE_LABELS } from '../PageProperties';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+
+// Types a new column can become
+const VALUE_TYPES: ValuePropertyType[] = ['text', 'number', 'select', 'multi_select', 'status', 'date', 'person', 'checkbox', 'url'];
+
+// Rows shown in the preview
+const PREVIEW_ROWS = 5;
+
+const selectClassName =
+  'h-8 px-2 text-sm border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100';
+
+interface CsvImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  schema: Record<string, DatabaseProperty>; // Properties of the database the rows are added to
+  members?: WorkspaceMember[]; // For matching names in person columns
+  onImport: (plan: CsvImportPlan) => Promise<void>; // Saves the properties and creates the pages
+}
+
+// The value of a column's target <select>
+const targetValue = (target: CsvColumnTarget) =>
+  target.kind === 'existing' ? `existing:${target.key}` : target.kind;
+
+// Wizard for adding rows from a CSV file to a database:
+// pick a file, choose where each column goes, check the preview, import
+export const CsvImportDialog: React.FC<CsvImportDialogProps> = ({
+  open,
+  onOpenChange,
+  schema,
+  members = [],
+  onImport,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState('');
+  const [header, setHeader] = useState<string[]>([]);
+  const [records, setRecords] = useState<string[][]>([]);
+  const [targets, setTargets] = useState<CsvColumnTarget[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const plan = useMemo(
+    () => buildCsvImport(records, targets, schema, members),
+    [records, targets, schema, members]
+  );
+  const errorsByCell = useMemo(
+    () => new Map(plan.errors.map((error) => [`${error.row}:${error.column}`, error.message])),
+    [plan.errors]
+  );
+  const rowsWithErrors = new Set(plan.errors.map((error) => error.row)).size;
+
+  const reset = () => {
+    setFileName('');
+    setHeader([]);
+    setRecords([]);
+    setTargets([]);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const [columns = [], ...rows] = parseCsv(await file.text());
+    setFileName(file.name);
+    setHeader(columns);
+    setRecords(rows);
+    setTargets(guessColumnTargets(columns, rows, schema));
+  };
+
+  const updateTarget = (index: number, value: string) => {
+    setTargets((prev) =>
+      prev.map((target, i): CsvColumnTarget => {
+        // Only one column can be the title; the previous one is skipped instead
+        if (i !== index) return value === 'title' && target.kind === 'title' ? { kind: 'skip' } : target;
+        if (value === 'skip' || value === 'title') return { kind: value };
+        if (value.startsWith('existing:')) return { kind: 'existing', key: value.slice('existing:'.length) };
+        return { kind: 'new', name: header[index].trim() || `Column ${index + 1}`, type: 'text' };
+      })
+    );
+  };
+
+  const updateNewType = (index: number, type: ValuePropertyType) => {
+    setTargets((prev) => prev.map((target, i) => (i === index && target.kind === 'new' ? { ...target, type } : target)));
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      await onImport(plan);
+      reset();
+      onOpenChange(false);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const existingProperties = Object.entries(schema).filter(([, property]) => isValueProperty(property));
+  const previewColumns = targets
+    .map((target, index) => ({ target, index }))
+    .filter(({ target }) => target.kind !== 'skip');
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) reset();
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="sm:max-w-[760px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileUp size={20} />
+            Import CSV
+          </DialogTitle>
+          <DialogDescription>
+            Each row becomes a page in this database. Choose which property each column fills.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Step 1: file */}
+        <div className="flex items-center gap-3 mt-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-1.5 text-sm rounded-md border border-gray-200 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-700 dark:text-gray-200"
+          >
+            {fileName ? 'Choose another file' : 'Choose CSV file'}
+          </button>
+          {fileName && (
+            <span className="text-sm text-gray-500 dark:text-gray-400 truncate">
+              {fileName} · {records.length} row{records.length === 1 ? '' : 's'}
+            </span>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.tsv,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        {/* Step 2: where each column goes */}
+        {header.length > 0 && (
+          <div className="mt-4">
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Columns</h3>
+            <div className="space-y-1.5">
+              {header.map((name, index) => {
+                const target = targets[index];
+                const sample = records.find((record) => record[index]?.trim())?.[index] || '';
+                return (
+                  <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+                    <div className="min-w-0">
+                      <div className="text-sm text-gray-900 dark:text-gray-100 truncate">{name || `Column ${index + 1}`}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400 truncate">{sample}</div>
+                    </div>
+                    <select
+                      value={target ? targetValue(target) : 'skip'}
+                      onChange={(e) => updateTarget(index, e.target.value)}
+                      className={selectClassName}
+                    >
+                      <option value="skip">Don't import</option>
+                      <option value="title">Page title</option>
+                      {existingProperties.map(([key, property]) => (
+                        <option key={key} value={`existing:${key}`}>
+                          {property.name || key} ({PROPERTY_TYPE_LABELS[property.type]})
+                        </option>
+                      ))}
+                      <option value="new">New property</option>
+                    </select>
+                    {target?.kind === 'new' ? (
+                      <select
+                        value={target.type}
+                        onChange={(e) => updateNewType(index, e.target.value as ValuePropertyType)}
+                        className={selectClassName}
+                      >
+                        {VALUE_TYPES.map((type) => (
+                          <option key={type} value={type}>
+                            {PROPERTY_TYPE_LABELS[type]}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className="w-[110px]" />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Step 3: preview, with cells that won't import highlighted */}
+        {records.length > 0 && (
+          <div className="mt-4">
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Preview</h3>
+            <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-md">
+              <table className="w-full text-xs">
+                <thead className="bg-gray-50 dark:bg-gray-800/50 text-gray-500 dark:text-gray-400">
+                  <tr>
+                    {previewColumns.map(({ target, index }) => (
+                      <th key={index} className="px-2 py-1.5 text-left font-medium whitespace-nowrap">
+                        {target.kind === 'title'
+                          ? 'Title'
+                          : target.kind === 'existing'
+                            ? schema[target.key]?.name || target.key
+                            : target.kind === 'new'
+                              ? target.name
+                              : ''}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {records.slice(0, PREVIEW_ROWS).map((record, row) => (
+                    <tr key={row} className="border-t border-gray-100 dark:border-gray-800">
+                      {previewColumns.map(({ index }) => {
+                        const error = errorsByCell.get(`${row}:${index}`);
+                        return (
+                          <td
+                            key={index}
+                            title={error}
+                            className={`px-2 py-1.5 whitespace-nowrap max-w-[200px] truncate ${error
+                              ? 'bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400'
+                              : 'text-gray-700 dark:text-gray-300'
+                              }`}
+                          >
+                            {record[index]}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {plan.errors.length > 0 && (
+              <div className="mt-3 p-2 rounded-md bg-amber-50 dark:bg-amber-900/20 text-sm text-amber-800 dark:text-amber-300">
+                <div className="flex items-center gap-2 font-medium">
+                  <AlertTriangle size={14} />
+                  {plan.errors.length} cell{plan.errors.length === 1 ? '' : 's'} in {rowsWithErrors} row
+                  {rowsWithErrors === 1 ? '' : 's'} can't be read and will be left empty
+                </div>
+                <ul className="mt-1 ml-6 list-disc text-xs space-y-0.5">
+                  {plan.errors.slice(0, 5).map((error) => (
+                    <li key={`${error.row}:${error.column}`}>
+                      Row {error.row + 1}, {header[error.column] || `column ${error.column + 1}`}: {error.message}
+                    </li>
+                  ))}
+                  {plan.errors.length > 5 && <li>…and {plan.errors.length - 5} more</li>}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="mt-4">
+          <button
+            onClick={() => onOpenChange(false)}
+            className="px-3 py-1.5 text-sm rounded-md hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-700 dark:text-gray-300"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={records.length === 0 || isImporting}
+            className="px-3 py-1.5 text-sm rounded-md bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isImporting ? 'Importing...' : `Import ${records.length} row${records.length === 1 ? '' : 's'}`}
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
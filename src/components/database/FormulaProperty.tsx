@@ -2,16 +2,24 @@ import React, { useMemo } from 'react';
 import { Page } from '../../types/workspace';
 import { FormulaProperty as FormulaPropertyType, FormulaContext } from '../../types/database';
 import { evaluateFormula } from '../../lib/database/relations';
+import { computePageProperties } from '../../lib/database/dependencies';
 import { Binary, AlertCircle, CheckCircle } from 'lucide-react';
 
 interface FormulaPropertyProps {
   page: Page;
   property: FormulaPropertyType;
+  propertyName?: string; // Key in the page schema - when set, the formula can use other formulas and rollups
+  allPages?: Page[];
 }
 
 // This component shows a calculated field based on a formula
 // Like Excel formulas but for our database pages
-export const FormulaProperty: React.FC<FormulaPropertyProps> = ({ page, property }) => {
+export const FormulaProperty: React.FC<FormulaPropertyProps> = ({
+  page,
+  property,
+  propertyName,
+  allPages = [],
+}) => {
   // Build the context object with all the data the formula can access
   const context: FormulaContext = useMemo(
     () => ({
@@ -27,7 +35,13 @@ export const FormulaProperty: React.FC<FormulaPropertyProps> = ({ page, property
   );
 
   // Run the formula and get the result
-  const result = useMemo(() => evaluateFormula(property, context), [property, context]);
+  // Schema formulas go through the dependency graph so they can reference other computed properties
+  const result = useMemo(() => {
+    if (propertyName && page.properties?.[propertyName]) {
+      return computePageProperties(page, allPages)[propertyName];
+    }
+    return evaluateFormula(property, context);
+  }, [page, allPages, propertyName, property, context]);
 
   // Format the value nicely based on what type it is
   const formatValue = (value: any, type: string): string => {
@@ -72,6 +86,14 @@ export const FormulaProperty: React.FC<FormulaPropertyProps> = ({ page, property
             <div>
               <p className="text-sm font-medium text-red-900 dark:text-red-200">Formula Error</p>
               <p className="text-xs text-red-700 dark:text-red-300 mt-1">{result.error}</p>
+              {/* Point at the spot in the expression where the error was found */}
+              {result.errorPosition !== undefined && property.expression && (
+                <pre className="text-xs text-red-700 dark:text-red-300 mt-2 font-mono whitespace-pre overflow-x-auto">
+                  {property.expression}
+                  {'\n'}
+                  {' '.repeat(result.errorPosition)}^
+                </pre>
+              )}
             </div>
           </div>
         ) : (
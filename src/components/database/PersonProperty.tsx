@@ -0,0 +1,135 @@
+import React, { useState, useMemo } from 'react';
+import { PersonProperty as PersonPropertyType } from '../../types/database';
+import { WorkspaceMember } from '../../types/permission';
+import { Check, Search, X } from 'lucide-react';
+import { Input } from '../ui/input';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@radix-ui/react-popover';
+
+// Small round avatar with the member's photo, or their initial as a fallback
+export const MemberAvatar: React.FC<{ member?: WorkspaceMember; userId: string }> = ({ member, userId }) => {
+  const label = member?.displayName || member?.email || userId;
+  return member?.photoURL ? (
+    <img src={member.photoURL} alt={label} className="w-5 h-5 rounded-full object-cover" />
+  ) : (
+    <span className="w-5 h-5 rounded-full bg-blue-500 text-white text-[10px] font-medium flex items-center justify-center">
+      {label.charAt(0).toUpperCase()}
+    </span>
+  );
+};
+
+interface PersonPropertyProps {
+  property: PersonPropertyType;
+  value: any;
+  members: WorkspaceMember[];
+  onChange: (value: string[]) => void;
+}
+
+// Lets you assign workspace members to a page (like an "Assignee" field)
+export const PersonProperty: React.FC<PersonPropertyProps> = ({ property, value, members, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+
+  const selectedIds: string[] = Array.isArray(value) ? value : value ? [value] : [];
+
+  const filteredMembers = useMemo(() => {
+    const query = searchQuery.toLowerCase();
+    return members.filter(
+      (member) =>
+        !query ||
+        member.displayName?.toLowerCase().includes(query) ||
+        member.email.toLowerCase().includes(query)
+    );
+  }, [members, searchQuery]);
+
+  const handleToggle = (userId: string) => {
+    if (selectedIds.includes(userId)) {
+      onChange(selectedIds.filter((id) => id !== userId));
+    } else if (property.allowMultiple) {
+      onChange([...selectedIds, userId]);
+    } else {
+      onChange([userId]);
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <div
+          role="button"
+          tabIndex={0}
+          className="min-h-[36px] flex flex-wrap items-center gap-1.5 px-3 py-1.5 rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 cursor-pointer hover:border-gray-300 dark:hover:border-gray-600"
+        >
+          {selectedIds.length === 0 ? (
+            <span className="text-sm text-gray-400">Empty</span>
+          ) : (
+            selectedIds.map((userId) => {
+              const member = members.find((m) => m.userId === userId);
+              return (
+                <span
+                  key={userId}
+                  className="inline-flex items-center gap-1.5 pl-0.5 pr-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700 text-xs text-gray-800 dark:text-gray-100"
+                >
+                  <MemberAvatar member={member} userId={userId} />
+                  {member?.displayName || member?.email || 'Unknown member'}
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleToggle(userId);
+                    }}
+                    className="opacity-60 hover:opacity-100"
+                    aria-label="Remove person"
+                  >
+                    <X size={10} />
+                  </button>
+                </span>
+              );
+            })
+          )}
+        </div>
+      </PopoverTrigger>
+      <PopoverContent
+        className="w-72 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-2 z-50"
+        align="start"
+      >
+        <div className="relative mb-2">
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <Input
+            type="text"
+            placeholder="Search members..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-9 h-9"
+            autoFocus
+          />
+        </div>
+
+        <div className="max-h-64 overflow-y-auto space-y-1">
+          {filteredMembers.length === 0 ? (
+            <div className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">
+              {members.length === 0 ? 'No workspace members' : 'No members found'}
+            </div>
+          ) : (
+            filteredMembers.map((member) => (
+              <button
+                key={member.userId}
+                onClick={() => handleToggle(member.userId)}
+                className="w-full flex items-center gap-2 px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md text-sm transition-colors text-left"
+              >
+                <MemberAvatar member={member} userId={member.userId} />
+                <span className="flex-1 text-gray-900 dark:text-gray-100 truncate">
+                  {member.displayName || member.email}
+                </span>
+                {selectedIds.includes(member.userId) && <Check size={14} className="text-blue-500" />}
+              </button>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import { Check } from 'lucide-react';
+import { DatabaseProperty, SelectOption } from '../../types/database';
+import { WorkspaceMember } from '../../types/permission';
+import { formatPropertyValue, hasOptions } from '../../lib/database/properties';
+import { OptionChip } from './SelectProperty';
+import { MemberAvatar } from './PersonProperty';
+
+interface PropertyValuePreviewProps {
+  property: DatabaseProperty;
+  value: any; // Stored value, or the computed value for formulas and rollups
+  members?: WorkspaceMember[];
+}
+
+// Compact, read-only rendering of a property value for cards and tiles
+// Renders nothing for empty values so callers can skip the row
+export const PropertyValuePreview: React.FC<PropertyValuePreviewProps> = ({ property, value, members = [] }) => {
+  if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+    return null;
+  }
+
+  if (hasOptions(property)) {
+    const names: string[] = Array.isArray(value) ? value : [value];
+    const options = names
+      .map((name) => property.options.find((option) => option.name === name))
+      .filter((option): option is SelectOption => !!option);
+    return (
+      <div className="flex flex-wrap gap-1">
+        {options.map((option) => (
+          <OptionChip key={option.id} option={option} />
+        ))}
+      </div>
+    );
+  }
+
+  if (property.type === 'person') {
+    const ids: string[] = Array.isArray(value) ? value : [value];
+    return (
+      <div className="flex items-center gap-1">
+        {ids.map((id) => (
+          <MemberAvatar key={id} userId={id} member={members.find((m) => m.userId === id)} />
+        ))}
+        <span className="truncate">{formatPropertyValue(property, ids, members)}</span>
+      </div>
+    );
+  }
+
+  if (property.type === 'checkbox') {
+    if (!value) return null;
+    return (
+      <span className="inline-flex items-center gap-1">
+        <Check size={12} />
+        {property.name}
+      </span>
+    );
+  }
+
+  return <span className="truncate">{formatPropertyValue(property, value, members)}</span>;
+};
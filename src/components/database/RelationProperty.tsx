@@ -1,8 +1,16 @@
 import React, { useState, useMemo } from 'react';
 import { Page } from '../../types/workspace';
 import { RelationProperty as RelationPropertyType } from '../../types/database';
-import { addRelation, removeRelation, getRelatedPages } from '../../lib/database/relations';
-import { Search, X, Link as LinkIcon, Plus } from 'lucide-react';
+import {
+  addRelation,
+  removeRelation,
+  getRelatedPages,
+  createBidirectionalRelation,
+  removeBidirectionalRelation,
+} from '../../lib/database/relations';
+import { addRelationLink, removeRelationLink, repairDanglingRelationLinks } from '../../lib/firebase/relations';
+import { useToast } from '../../hooks/use-toast';
+import { Search, X, Link as LinkIcon, Plus, AlertTriangle } from 'lucide-react';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
 import {
@@ -16,7 +24,7 @@ interface RelationPropertyProps {
   property: RelationPropertyType;
   propertyName: string;
   allPages: Page[];
-  onUpdate: (updatedPage: Page) => void;
+  onUpdate: (updatedPage: Page) => void; // Called for the target page too when a bidirectional link changes
 }
 
 // This lets you link pages together (like linking a task to a project)
@@ -29,6 +37,15 @@ export const RelationProperty: React.FC<RelationPropertyProps> = ({
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const { toast } = useToast();
+
+  // The pages update right away; the link docs and both pages are then written in one batch
+  const persist = async (request: Promise<{ error: string | null }>) => {
+    const { error } = await request;
+    if (error) {
+      toast({ title: 'Relation not saved', description: error, variant: 'destructive', duration: 3000 });
+    }
+  };
 
   // Get list of pages that are already linked
   const relatedPages = useMemo(
@@ -55,17 +72,53 @@ export const RelationProperty: React.FC<RelationPropertyProps> = ({
     return filtered;
   }, [allPages, page.id, relatedPages, property.targetPageType, searchQuery]);
 
+  // Linked IDs whose page was deleted or moved to the trash (allPages only holds active pages)
+  const brokenLinkIds = useMemo(() => {
+    const activeIds = new Set(allPages.map((p) => p.id));
+    return (property.linkedPageIds || []).filter((id) => !activeIds.has(id));
+  }, [allPages, property.linkedPageIds]);
+
   // Link this page to another page
-  const handleAddRelation = (targetPageId: string) => {
-    const updatedPage = addRelation(page, propertyName, targetPageId, allPages);
-    onUpdate(updatedPage);
+  // Bidirectional relations also update the reverse property on the target page
+  const handleAddRelation = async (targetPageId: string) => {
+    const targetPage = allPages.find((p) => p.id === targetPageId);
+    if (property.bidirectional && targetPage) {
+      const updated = createBidirectionalRelation(
+        page,
+        targetPage,
+        propertyName,
+        property.reversePropertyName || propertyName
+      );
+      onUpdate(updated.sourcePage);
+      onUpdate(updated.targetPage);
+    } else {
+      onUpdate(addRelation(page, propertyName, targetPageId, allPages));
+    }
     setSearchQuery('');
+    await persist(addRelationLink(page.id, propertyName, targetPageId));
   };
 
   // Unlink a page
-  const handleRemoveRelation = (targetPageId: string) => {
-    const updatedPage = removeRelation(page, propertyName, targetPageId);
-    onUpdate(updatedPage);
+  const handleRemoveRelation = async (targetPageId: string) => {
+    const targetPage = allPages.find((p) => p.id === targetPageId);
+    if (property.bidirectional && targetPage) {
+      const updated = removeBidirectionalRelation(page, targetPage, propertyName);
+      onUpdate(updated.sourcePage);
+      onUpdate(updated.targetPage);
+    } else {
+      onUpdate(removeRelation(page, propertyName, targetPageId));
+    }
+    await persist(removeRelationLink(page.id, propertyName, targetPageId));
+  };
+
+  // Drop every link that points at a missing page
+  const handleRemoveBrokenLinks = async () => {
+    onUpdate(brokenLinkIds.reduce((current, id) => removeRelation(current, propertyName, id), page));
+    await persist(
+      repairDanglingRelationLinks(
+        brokenLinkIds.map((targetPageId) => ({ pageId: page.id, propertyName, targetPageId, reason: 'deleted' as const }))
+      )
+    );
   };
 
   return (
@@ -155,6 +208,19 @@ export const RelationProperty: React.FC<RelationPropertyProps> = ({
         </Popover>
       </div>
 
+      {/* Warn about links to pages that were deleted or moved to the trash */}
+      {brokenLinkIds.length > 0 && (
+        <div className="flex items-center gap-2 text-xs text-amber-700 dark:text-amber-400">
+          <AlertTriangle size={12} />
+          <span>
+            {brokenLinkIds.length} linked {brokenLinkIds.length === 1 ? 'page is' : 'pages are'} deleted or in the trash
+          </span>
+          <button onClick={handleRemoveBrokenLinks} className="underline hover:no-underline">
+            Remove broken links
+          </button>
+        </div>
+      )}
+
       {/* Info note about bidirectional relations */}
       {property.bidirectional && (
         <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1">
@@ -0,0 +1,209 @@
+import React, { useState, useMemo } from 'react';
+import {
+  MultiSelectProperty,
+  PropertyOptionColor,
+  SelectOption,
+  SelectProperty as SelectPropertyType,
+  StatusGroup,
+  StatusOption,
+  StatusProperty,
+} from '../../types/database';
+import { createSelectOption } from '../../lib/database/properties';
+import { Check, Plus, X } from 'lucide-react';
+import { Input } from '../ui/input';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@radix-ui/react-popover';
+
+// Tailwind classes for each option color, shared by every view that shows options
+export const OPTION_COLOR_CLASSES: Record<PropertyOptionColor, string> = {
+  default: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-100',
+  gray: 'bg-gray-200 text-gray-800 dark:bg-gray-600 dark:text-gray-100',
+  brown: 'bg-amber-100 text-amber-900 dark:bg-amber-900/40 dark:text-amber-200',
+  orange: 'bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-200',
+  yellow: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-200',
+  green: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200',
+  blue: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200',
+  purple: 'bg-purple-100 text-purple-800 dark:bg-purple-900/40 dark:text-purple-200',
+  pink: 'bg-pink-100 text-pink-800 dark:bg-pink-900/40 dark:text-pink-200',
+  red: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200',
+};
+
+const STATUS_GROUP_LABELS: Record<StatusGroup, string> = {
+  todo: 'To-do',
+  in_progress: 'In progress',
+  complete: 'Complete',
+};
+
+// A colored chip for one option
+export const OptionChip: React.FC<{ option: SelectOption; onRemove?: () => void }> = ({ option, onRemove }) => (
+  <span
+    className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium ${OPTION_COLOR_CLASSES[option.color]}`}
+  >
+    {option.name}
+    {onRemove && (
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          onRemove();
+        }}
+        className="opacity-60 hover:opacity-100"
+        aria-label={`Remove ${option.name}`}
+      >
+        <X size={10} />
+      </button>
+    )}
+  </span>
+);
+
+type OptionProperty = SelectPropertyType | MultiSelectProperty | StatusProperty;
+
+interface SelectPropertyProps {
+  property: OptionProperty;
+  value: any;
+  // updatedProperty is passed when a new option was created for this value
+  onChange: (value: any, updatedProperty?: OptionProperty) => void;
+}
+
+// Picker for select, multi-select and status values
+// Typing a name that doesn't exist yet creates a new option on the property
+export const SelectProperty: React.FC<SelectPropertyProps> = ({
+  property,
+  value,
+  onChange,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+
+  const isMulti = property.type === 'multi_select';
+  const selectedNames: string[] = isMulti ? (Array.isArray(value) ? value : []) : value ? [value] : [];
+  const selectedOptions = selectedNames
+    .map((name) => property.options.find((option) => option.name === name))
+    .filter((option): option is SelectOption => !!option);
+
+  const filteredOptions = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return query
+      ? property.options.filter((option) => option.name.toLowerCase().includes(query))
+      : property.options;
+  }, [property.options, searchQuery]);
+
+  const canCreate =
+    searchQuery.trim() !== '' &&
+    !property.options.some((option) => option.name.toLowerCase() === searchQuery.trim().toLowerCase());
+
+  // Pick an option: toggles it for multi-select, replaces the value otherwise
+  const handleSelect = (name: string, updatedProperty?: OptionProperty) => {
+    if (isMulti) {
+      onChange(
+        selectedNames.includes(name)
+          ? selectedNames.filter((n) => n !== name)
+          : [...selectedNames, name],
+        updatedProperty
+      );
+    } else {
+      onChange(selectedNames[0] === name ? null : name, updatedProperty);
+      setIsOpen(false);
+    }
+    setSearchQuery('');
+  };
+
+  // The new option and the value are saved together, so the value is never checked against the old options
+  const handleCreate = () => {
+    const option = createSelectOption(searchQuery, property.options);
+    // New status options start in the to-do group
+    const newOption = property.type === 'status' ? ({ ...option, group: 'todo' } as StatusOption) : option;
+    handleSelect(newOption.name, { ...property, options: [...property.options, newOption] } as OptionProperty);
+  };
+
+  const renderOption = (option: SelectOption) => (
+    <button
+      key={option.id}
+      onClick={() => handleSelect(option.name)}
+      className="w-full flex items-center justify-between gap-2 px-3 py-1.5 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md text-sm transition-colors text-left"
+    >
+      <OptionChip option={option} />
+      {selectedNames.includes(option.name) && <Check size={14} className="text-blue-500" />}
+    </button>
+  );
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <div
+          role="button"
+          tabIndex={0}
+          className="min-h-[36px] flex flex-wrap items-center gap-1.5 px-3 py-1.5 rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 cursor-pointer hover:border-gray-300 dark:hover:border-gray-600"
+        >
+          {selectedOptions.length === 0 ? (
+            <span className="text-sm text-gray-400">Empty</span>
+          ) : (
+            selectedOptions.map((option) => (
+              <OptionChip
+                key={option.id}
+                option={option}
+                onRemove={isMulti ? () => handleSelect(option.name) : undefined}
+              />
+            ))
+          )}
+        </div>
+      </PopoverTrigger>
+      <PopoverContent
+        className="w-72 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-2 z-50"
+        align="start"
+      >
+        <Input
+          type="text"
+          placeholder="Search or create an option..."
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              if (canCreate) handleCreate();
+              else if (filteredOptions[0]) handleSelect(filteredOptions[0].name);
+            }
+          }}
+          className="h-9 mb-2"
+          autoFocus
+        />
+
+        <div className="max-h-64 overflow-y-auto space-y-1">
+          {property.type === 'status'
+            ? // Status options are listed under their group
+              (Object.keys(STATUS_GROUP_LABELS) as StatusGroup[]).map((group) => {
+                const groupOptions = (filteredOptions as StatusOption[]).filter((option) => option.group === group);
+                if (groupOptions.length === 0) return null;
+                return (
+                  <div key={group}>
+                    <div className="px-3 pt-2 pb-1 text-xs font-medium text-gray-500 dark:text-gray-400">
+                      {STATUS_GROUP_LABELS[group]}
+                    </div>
+                    {groupOptions.map(renderOption)}
+                  </div>
+                );
+              })
+            : filteredOptions.map(renderOption)}
+
+          {canCreate && (
+            <button
+              onClick={handleCreate}
+              className="w-full flex items-center gap-2 px-3 py-1.5 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md text-sm text-gray-600 dark:text-gray-300 transition-colors text-left"
+            >
+              <Plus size={14} />
+              Create "{searchQuery.trim()}"
+            </button>
+          )}
+
+          {filteredOptions.length === 0 && !canCreate && (
+            <div className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">
+              No options yet
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,208 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { ValueProperty as ValuePropertyType } from '../../types/database';
+import { WorkspaceMember } from '../../types/permission';
+import {
+  formatNumberValue,
+  parseDateValue,
+  validatePropertyValue,
+} from '../../lib/database/properties';
+import { SelectProperty } from './SelectProperty';
+import { PersonProperty } from './PersonProperty';
+import {
+  AlignLeft,
+  Calendar,
+  CheckSquare,
+  CircleDot,
+  ExternalLink,
+  Hash,
+  Link2,
+  List,
+  Loader,
+  User,
+} from 'lucide-react';
+
+// Icon shown next to each property type's name
+export const VALUE_PROPERTY_ICONS: Record<ValuePropertyType['type'], React.ReactNode> = {
+  text: <AlignLeft size={16} className="text-gray-500" />,
+  select: <CircleDot size={16} className="text-pink-500" />,
+  multi_select: <List size={16} className="text-pink-500" />,
+  status: <Loader size={16} className="text-green-500" />,
+  number: <Hash size={16} className="text-blue-500" />,
+  date: <Calendar size={16} className="text-red-500" />,
+  person: <User size={16} className="text-indigo-500" />,
+  checkbox: <CheckSquare size={16} className="text-gray-500" />,
+  url: <Link2 size={16} className="text-cyan-500" />,
+};
+
+const inputClassName =
+  'w-full h-9 px-3 text-sm rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Date values are stored as ISO strings; the browser inputs want local "yyyy-MM-dd" / "yyyy-MM-ddTHH:mm"
+const toInputValue = (date: Date | undefined, includeTime?: boolean) =>
+  date ? format(date, includeTime ? "yyyy-MM-dd'T'HH:mm" : 'yyyy-MM-dd') : '';
+
+interface PropertyValueEditorProps {
+  property: ValuePropertyType;
+  value: any;
+  members?: WorkspaceMember[];
+  // updatedProperty is set when the edit also changed the definition (e.g. a new select option)
+  onChange: (value: any, updatedProperty?: ValuePropertyType) => void;
+}
+
+// Input for a single typed property value
+// Values are validated before onChange is called, so callers only ever see normalized values
+export const PropertyValueEditor: React.FC<PropertyValueEditorProps> = ({
+  property,
+  value,
+  members = [],
+  onChange,
+}) => {
+  const storedText = value === undefined || value === null ? '' : String(value);
+  const [draft, setDraft] = useState<string>(storedText);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keep the text draft in sync when the stored value changes elsewhere
+  useEffect(() => {
+    setDraft(storedText);
+    setError(null);
+  }, [storedText]);
+
+  const commit = (next: any, updatedProperty?: ValuePropertyType) => {
+    const result = validatePropertyValue(updatedProperty || property, next);
+    setError(result.error);
+    if (!result.error) onChange(result.value, updatedProperty);
+  };
+
+  let editor: React.ReactNode;
+
+  switch (property.type) {
+    case 'select':
+    case 'multi_select':
+    case 'status':
+      editor = (
+        <SelectProperty property={property} value={value} onChange={commit} />
+      );
+      break;
+
+    case 'person':
+      editor = <PersonProperty property={property} value={value} members={members} onChange={commit} />;
+      break;
+
+    case 'checkbox':
+      editor = (
+        <input
+          type="checkbox"
+          checked={!!value}
+          onChange={(e) => commit(e.target.checked)}
+          className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+      );
+      break;
+
+    case 'date': {
+      const parsed = parseDateValue(value);
+      const inputType = property.includeTime ? 'datetime-local' : 'date';
+      // Read an input back into a Date; date inputs are local calendar days
+      const fromInput = (input: string) => (input ? new Date(input.length === 10 ? `${input}T00:00` : input) : null);
+      editor = (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type={inputType}
+            value={toInputValue(parsed?.start, property.includeTime)}
+            onChange={(e) => {
+              const start = fromInput(e.target.value);
+              commit(start ? { start, end: parsed?.end } : null);
+            }}
+            className={`${inputClassName} w-auto`}
+          />
+          {parsed?.end ? (
+            <>
+              <span className="text-gray-400">→</span>
+              <input
+                type={inputType}
+                value={toInputValue(parsed.end, property.includeTime)}
+                onChange={(e) => commit({ start: parsed.start, end: fromInput(e.target.value) })}
+                className={`${inputClassName} w-auto`}
+              />
+              <button
+                onClick={() => commit({ start: parsed.start })}
+                className="text-xs text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+              >
+                Remove end date
+              </button>
+            </>
+          ) : (
+            parsed && (
+              <button
+                onClick={() => commit({ start: parsed.start, end: parsed.start })}
+                className="text-xs text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+              >
+                Add end date
+              </button>
+            )
+          )}
+        </div>
+      );
+      break;
+    }
+
+    case 'number':
+    case 'text':
+    case 'url':
+      editor = (
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            inputMode={property.type === 'number' ? 'decimal' : undefined}
+            value={draft}
+            placeholder="Empty"
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={() => draft !== storedText && commit(draft)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+            }}
+            className={inputClassName}
+          />
+          {/* Preview how the number will be displayed */}
+          {property.type === 'number' && typeof value === 'number' && property.format !== 'number' && (
+            <span className="text-sm text-gray-500 dark:text-gray-400 whitespace-nowrap">
+              {formatNumberValue(value, property.format, property.precision)}
+            </span>
+          )}
+          {property.type === 'url' && value && (
+            <a
+              href={value}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-gray-400 hover:text-blue-500"
+              aria-label="Open link"
+            >
+              <ExternalLink size={16} />
+            </a>
+          )}
+        </div>
+      );
+      break;
+  }
+
+  return (
+    <div>
+      {editor}
+      {error && <p className="text-xs text-red-600 dark:text-red-400 mt-1">{error}</p>}
+    </div>
+  );
+};
+
+// Labelled editor for a typed property, used in the page's property list
+export const ValueProperty: React.FC<PropertyValueEditorProps> = (props) => {
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-gray-700 dark:text-gray-300 flex items-center gap-2">
+        {VALUE_PROPERTY_ICONS[props.property.type]}
+        {props.property.name}
+      </label>
+      <PropertyValueEditor {...props} />
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React, { useState } from "react";
 import { Page } from "../../types/workspace";
+import { ViewDefinition } from "../../types/view";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -8,21 +9,26 @@ import {
   DropdownMenuSeparator,
   DropdownMenuLabel,
 } from "../ui/dropdown-menu";
-import { FileDown, FileText, Code2, File } from "lucide-react";
+import { FileDown, FileText, Code2, File, FileType2, Sheet } from "lucide-react";
 import { exportMarkdown } from "../../lib/export/markdown";
 import { exportHtml } from "../../lib/export/html";
 import { exportPdf, exportPdfAlternative } from "../../lib/export/pdf";
+import { exportDocx } from "../../lib/export/docx";
+import { CsvExportOptions, exportCsv } from "../../lib/export/csv";
 import { useToast } from "../../hooks/use-toast";
 
 interface ExportMenuProps {
   page: Page;
   disabled?: boolean;
+  // Database pages showing a view can export that view's rows as CSV
+  csv?: { rows: Page[]; view: ViewDefinition; options: CsvExportOptions };
 }
 
 // This dropdown menu lets users export their page in different formats
 export const ExportMenu: React.FC<ExportMenuProps> = ({
   page,
   disabled = false,
+  csv,
 }) => {
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
@@ -67,6 +73,50 @@ export const ExportMenu: React.FC<ExportMenuProps> = ({
     }
   };
 
+  // Export as Word (.docx file)
+  const handleExportDocx = async () => {
+    setIsLoading(true);
+    try {
+      await exportDocx(page);
+      toast({
+        title: "Success",
+        description: `"${page.title}" exported as Word document`,
+        duration: 3000,
+      });
+    } catch (error) {
+      console.error("Export error:", error);
+      toast({
+        title: "Error",
+        description: "Failed to export as Word document",
+        variant: "destructive",
+        duration: 3000,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Export the current view as CSV (.csv file)
+  const handleExportCsv = () => {
+    if (!csv) return;
+    try {
+      exportCsv(page, csv.rows, csv.view, csv.options);
+      toast({
+        title: "Success",
+        description: `"${csv.view.name}" view exported as CSV`,
+        duration: 3000,
+      });
+    } catch (error) {
+      console.error("Export error:", error);
+      toast({
+        title: "Error",
+        description: "Failed to export as CSV",
+        variant: "destructive",
+        duration: 3000,
+      });
+    }
+  };
+
   // Export as PDF (.pdf file)
   const handleExportPdf = async () => {
     setIsLoading(true);
@@ -162,6 +212,31 @@ export const ExportMenu: React.FC<ExportMenuProps> = ({
           </span>
         </DropdownMenuItem>
 
+        {/* Word export option */}
+        <DropdownMenuItem
+          onClick={handleExportDocx}
+          disabled={isLoading}
+          className="gap-2 cursor-pointer"
+        >
+          <FileType2 size={16} className="text-indigo-600" />
+          <span>Word (.docx)</span>
+        </DropdownMenuItem>
+
+        {/* CSV export of the current database view */}
+        {csv && (
+          <DropdownMenuItem
+            onClick={handleExportCsv}
+            disabled={isLoading}
+            className="gap-2 cursor-pointer"
+          >
+            <Sheet size={16} className="text-green-600" />
+            <span>CSV (.csv)</span>
+            <span className="ml-auto text-xs text-gray-500 dark:text-gray-400">
+              View
+            </span>
+          </DropdownMenuItem>
+        )}
+
         <DropdownMenuSeparator className="my-1" />
 
         {/* Info about what gets exported */}
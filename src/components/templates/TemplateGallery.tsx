@@ -1,24 +1,26 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Template, TemplateCategory } from '../../types/template';
 import { getTemplates, deleteCustomTemplate } from '../../lib/templates';
 import { TemplateCard } from './TemplateCard';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/dialog';
 import { Button } from '../ui/button';
-import { Search } from 'lucide-react';
+import { FileType2, Search } from 'lucide-react';
 import { Input } from '../ui/input';
 
 interface TemplateGalleryProps {
     isOpen: boolean;
     onClose: () => void;
     onSelectTemplate: (template: Template) => void;
+    onImportDocx?: (file: File) => void;
 }
 
 const CATEGORIES: TemplateCategory[] = ['General', 'Meeting', 'Project', 'Engineering', 'Design', 'Personal', 'Custom'];
 
-export const TemplateGallery: React.FC<TemplateGalleryProps> = ({ isOpen, onClose, onSelectTemplate }) => {
+export const TemplateGallery: React.FC<TemplateGalleryProps> = ({ isOpen, onClose, onSelectTemplate, onImportDocx }) => {
     const [templates, setTemplates] = useState<Template[]>([]);
     const [selectedCategory, setSelectedCategory] = useState<TemplateCategory | 'All'>('All');
     const [searchQuery, setSearchQuery] = useState('');
+    const docxInputRef = useRef<HTMLInputElement>(null);
 
     useEffect(() => {
         if (isOpen) {
@@ -102,6 +104,32 @@ export const TemplateGallery: React.FC<TemplateGalleryProps> = ({ isOpen, onClos
                                 </div>
                             )}
 
+                            {/* Start from a Word document */}
+                            {onImportDocx && selectedCategory === 'All' && !searchQuery && (
+                                <div
+                                    className="p-4 border border-dashed border-gray-300 dark:border-gray-700 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 cursor-pointer flex flex-col items-center justify-center text-center gap-2 min-h-[180px] transition-colors"
+                                    onClick={() => docxInputRef.current?.click()}
+                                >
+                                    <div className="w-10 h-10 rounded-full bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 flex items-center justify-center shadow-sm">
+                                        <FileType2 size={18} className="text-indigo-600" />
+                                    </div>
+                                    <span className="font-medium text-gray-900 dark:text-gray-100">Import from Word</span>
+                                    <span className="text-xs text-gray-500">Create a page from a .docx file</span>
+                                    <input
+                                        ref={docxInputRef}
+                                        type="file"
+                                        accept=".docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+                                        className="hidden"
+                                        onClick={(e) => e.stopPropagation()}
+                                        onChange={(e) => {
+                                            const file = e.target.files?.[0];
+                                            e.target.value = '';
+                                            if (file) onImportDocx(file);
+                                        }}
+                                    />
+                                </div>
+                            )}
+
                             {filteredTemplates.map(template => (
                                 <TemplateCard
                                     key={template.id}
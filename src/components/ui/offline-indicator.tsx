@@ -1,19 +1,38 @@
-import React, { useState, useEffect } from 'react';
-import { Wifi, WifiOff } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Wifi, WifiOff, RefreshCw, AlertTriangle, RotateCcw, Trash2, X, GitMerge } from 'lucide-react';
+import { DeadLetterOperation, discardDeadLetter, getDeadLetters, retryDeadLetter } from '../../lib/offline/queue';
+import { subscribeToSyncStatus, syncOfflineChanges, SyncStatus } from '../../lib/offline/sync';
+import { startBackgroundSync } from '../../lib/offline/background-sync';
+import { SyncConflictDialog } from '../SyncConflictDialog';
+
+// Readable names for queued operation types, for the failed changes list
+const OPERATION_LABELS: Record<DeadLetterOperation['type'], string> = {
+    updatePage: 'Page edit',
+    createPage: 'New page',
+    deletePage: 'Page moved to trash',
+    restorePage: 'Page restored',
+    permanentlyDeletePage: 'Page deleted',
+    updateBlock: 'Block edit',
+    createBlock: 'New block',
+    deleteBlock: 'Block deleted',
+};
 
 /**
  * OfflineIndicator Component
- * 
+ *
  * Shows a small badge in the bottom-right corner of the screen indicating network status.
  * This is useful because the app has offline support via service workers,
  * and users need to know if they're working offline or online.
- * 
+ *
  * How it works:
  * 1. Listens to browser's online/offline events
  * 2. Updates UI when network status changes
  * 3. Shows green "Online" badge when connected
  * 4. Shows orange "Offline Mode" badge when disconnected
- * 
+ * 5. Shows sync progress while queued offline changes are replayed
+ * 6. Lists changes that failed to sync, so they can be retried or discarded
+ * 7. Opens the conflict dialog when offline edits clash with changes made elsewhere
+ *
  * The indicator appears with smooth animations and stays fixed in the corner
  * even when scrolling.
  */
@@ -21,11 +40,24 @@ export const OfflineIndicator: React.FC = () => {
     // Track online/offline status in state
     // navigator.onLine is a browser API that tells us if we have internet
     const [isOnline, setIsOnline] = useState(navigator.onLine);
+    // Progress of the offline queue (see lib/offline/sync)
+    const [sync, setSync] = useState<SyncStatus | null>(null);
+    // Changes that failed to sync, loaded when the list is opened
+    const [deadLetters, setDeadLetters] = useState<DeadLetterOperation[] | null>(null);
+    // Conflicting offline edits; the dialog opens by itself when new ones are found
+    const [showConflicts, setShowConflicts] = useState(false);
+    const conflictCount = sync?.conflicts ?? 0;
+    const previousConflictCount = useRef(0);
+
+    useEffect(() => {
+        if (conflictCount > previousConflictCount.current) setShowConflicts(true);
+        previousConflictCount.current = conflictCount;
+    }, [conflictCount]);
 
     useEffect(() => {
         // Event handler for when we go online
         const handleOnline = () => setIsOnline(true);
-        
+
         // Event handler for when we go offline
         const handleOffline = () => setIsOnline(false);
 
@@ -34,30 +66,134 @@ export const OfflineIndicator: React.FC = () => {
         window.addEventListener('online', handleOnline);
         window.addEventListener('offline', handleOffline);
 
+        // Follow the queue, and flush anything left from an earlier session
+        const unsubscribe = subscribeToSyncStatus(setSync);
+        syncOfflineChanges().catch((error) => console.error('Failed to sync offline changes:', error));
+        // Let the service worker flush the queue once this tab is closed
+        const stopBackgroundSync = startBackgroundSync();
+
         // Cleanup function runs when component unmounts
         // Removes event listeners to prevent memory leaks
         return () => {
             window.removeEventListener('online', handleOnline);
             window.removeEventListener('offline', handleOffline);
+            unsubscribe();
+            stopBackgroundSync();
         };
     }, []); // Empty dependency array means this only runs once on mount
 
-    // If online, show the green online indicator
-    if (isOnline) {
+    // Keep the open list in step with the store
+    const failed = sync?.failed ?? 0;
+    const isListOpen = deadLetters !== null;
+    useEffect(() => {
+        if (isListOpen) getDeadLetters().then(setDeadLetters);
+    }, [failed, isListOpen]);
+
+    const handleRetry = async (id: number) => {
+        await retryDeadLetter(id);
+        syncOfflineChanges();
+    };
+
+    const syncIssues = (failed > 0 || conflictCount > 0) && (
+        <div className="fixed bottom-14 right-4 flex flex-col items-end gap-2">
+            <SyncConflictDialog open={showConflicts} onOpenChange={setShowConflicts} conflictCount={conflictCount} />
+            {conflictCount > 0 && (
+                <button
+                    onClick={() => setShowConflicts(true)}
+                    className="bg-amber-500/10 text-amber-600 px-3 py-1.5 rounded-full flex items-center gap-2 text-sm font-medium border border-amber-500/20"
+                >
+                    <GitMerge size={14} />
+                    {conflictCount} {conflictCount === 1 ? 'conflict' : 'conflicts'} to resolve
+                </button>
+            )}
+            {deadLetters && failed > 0 && (
+                <div className="w-80 max-h-80 overflow-y-auto bg-white dark:bg-slate-900 border border-gray-200 dark:border-slate-700 rounded-xl shadow-lg p-3 animate-in fade-in slide-in-from-bottom-2 duration-300">
+                    <div className="flex items-center justify-between mb-2">
+                        <p className="text-sm font-semibold text-gray-900 dark:text-white">Changes that didn't sync</p>
+                        <button
+                            onClick={() => setDeadLetters(null)}
+                            className="p-1 rounded text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                            title="Close"
+                        >
+                            <X size={14} />
+                        </button>
+                    </div>
+                    <div className="space-y-2">
+                        {deadLetters.map((op) => (
+                            <div key={op.id} className="flex items-start gap-2 p-2 rounded-lg bg-gray-50 dark:bg-slate-800">
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm font-medium text-gray-900 dark:text-white">{OPERATION_LABELS[op.type] ?? op.type}</p>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate" title={op.error}>{op.error}</p>
+                                    <p className="text-xs text-gray-400 dark:text-gray-500">{new Date(op.timestamp).toLocaleString()}</p>
+                                </div>
+                                <button
+                                    onClick={() => handleRetry(op.id!)}
+                                    className="p-1 rounded text-gray-400 hover:text-green-600 dark:hover:text-green-400"
+                                    title="Retry"
+                                >
+                                    <RotateCcw size={14} />
+                                </button>
+                                <button
+                                    onClick={() => discardDeadLetter(op.id!)}
+                                    className="p-1 rounded text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                                    title="Discard"
+                                >
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+            {failed > 0 && (
+                <button
+                    onClick={() => (isListOpen ? setDeadLetters(null) : getDeadLetters().then(setDeadLetters))}
+                    className="bg-red-500/10 text-red-500 px-3 py-1.5 rounded-full flex items-center gap-2 text-sm font-medium border border-red-500/20"
+                >
+                    <AlertTriangle size={14} />
+                    {failed} {failed === 1 ? 'change' : 'changes'} didn't sync
+                </button>
+            )}
+        </div>
+    );
+
+    // If offline, show the orange offline indicator
+    // animate-pulse makes it pulse to draw attention
+    if (!isOnline) {
         return (
-            <div className="fixed bottom-4 right-4 bg-green-500/10 text-green-500 px-3 py-1.5 rounded-full flex items-center gap-2 text-sm font-medium border border-green-500/20 animate-in fade-in slide-in-from-bottom-2 duration-300">
-                <Wifi size={14} /> {/* WiFi icon */}
-                Online
-            </div>
+            <>
+                {syncIssues}
+                <div className="fixed bottom-4 right-4 bg-orange-500/10 text-orange-500 px-3 py-1.5 rounded-full flex items-center gap-2 text-sm font-medium border border-orange-500/20 animate-pulse">
+                    <WifiOff size={14} /> {/* WiFi off icon */}
+                    Offline Mode
+                    {sync && sync.pending > 0 && ` · ${sync.pending} pending`}
+                </div>
+            </>
         );
     }
 
-    // If offline, show the orange offline indicator
-    // animate-pulse makes it pulse to draw attention
+    // While queued changes are replayed, show how far along it is
+    if (sync?.syncing) {
+        return (
+            <>
+                {syncIssues}
+                <div className="fixed bottom-4 right-4 bg-blue-500/10 text-blue-500 px-3 py-1.5 rounded-full flex items-center gap-2 text-sm font-medium border border-blue-500/20">
+                    <RefreshCw size={14} className="animate-spin" />
+                    Syncing {sync.completed}/{sync.total}
+                </div>
+            </>
+        );
+    }
+
+    // If online, show the green online indicator, with changes waiting to retry if any
     return (
-        <div className="fixed bottom-4 right-4 bg-orange-500/10 text-orange-500 px-3 py-1.5 rounded-full flex items-center gap-2 text-sm font-medium border border-orange-500/20 animate-pulse">
-            <WifiOff size={14} /> {/* WiFi off icon */}
-            Offline Mode
-        </div>
+        <>
+            {syncIssues}
+            <div className="fixed bottom-4 right-4 bg-green-500/10 text-green-500 px-3 py-1.5 rounded-full flex items-center gap-2 text-sm font-medium border border-green-500/20 animate-in fade-in slide-in-from-bottom-2 duration-300">
+                <Wifi size={14} /> {/* WiFi icon */}
+                Online
+                {sync && sync.pending > 0 && ` · ${sync.pending} waiting to sync`}
+            </div>
+        </>
     );
-};
\ No newline at end of file
+};
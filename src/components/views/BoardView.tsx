@@ -1,202 +1,557 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
+import {
+    DndContext,
+    DragEndEvent,
+    DragOverlay,
+    DragStartEvent,
+    KeyboardSensor,
+    PointerSensor,
+    closestCorners,
+    useDroppable,
+    useSensor,
+    useSensors,
+} from '@dnd-kit/core';
+import { SortableContext, sortableKeyboardCoordinates, useSortable, verticalListSortingStrategy } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { Popover, PopoverContent, PopoverTrigger } from '@radix-ui/react-popover';
+import { ChevronsLeftRight, ChevronsRightLeft, MoreHorizontal, Plus, SlidersHorizontal } from 'lucide-react';
 import { Page } from '../../types/workspace';
 import { ViewDefinition } from '../../types/view';
-import { Plus } from 'lucide-react';
+import { DatabaseProperty } from '../../types/database';
+import { WorkspaceMember } from '../../types/permission';
+import { normalizeSorts, queryPages } from '../../lib/database/views';
+import {
+    BoardColumn,
+    GroupableProperty,
+    applyManualOrder,
+    getGroupByKey,
+    getGroupValue,
+    groupBoardPages,
+    isGroupableProperty,
+    moveBoardCard,
+} from '../../lib/database/board';
+import { computeRowProperties } from '../../lib/database/dependencies';
+import { OPTION_COLOR_CLASSES } from '../database/SelectProperty';
+import { PropertyValuePreview } from '../database/PropertyValuePreview';
 
 /**
  * Props for the BoardView component
  */
 interface BoardViewProps {
     pages: Page[]; // All pages to display
-    view: ViewDefinition; // View settings (future: could define custom columns)
+    view: ViewDefinition; // View settings - grouping, filter, sort, card order and column settings
+    schema?: Record<string, DatabaseProperty>; // Properties of the database page, used by the view's filter and sort
+    allPages?: Page[]; // Pages that relations and rollups may point to
+    currentUserId?: string; // Who "me" is in the view's filters
+    members?: WorkspaceMember[]; // Workspace members, for boards grouped by a person property
     onOpenPage: (pageId: string) => void; // Function to call when opening a page
-    onCreatePage?: (title: string, properties?: Record<string, any>) => Promise<void>; // Optional function to create new pages
+    onCreatePage?: (title: string, propertyValues?: Record<string, any>) => Promise<void>; // Optional function to create new pages
+    onUpdateView?: (view: ViewDefinition) => void; // Saves board settings and manual card order
+    onUpdatePageValue?: (pageId: string, propertyName: string, value: any) => void; // Writes a card's new column value
 }
 
+const NO_PAGES: Page[] = [];
+
+// Prefix for droppable column IDs so they can't clash with page IDs
+const COLUMN_PREFIX = 'column:';
+
+interface BoardCardProps {
+    page: Page;
+    previewProperties: [string, DatabaseProperty][];
+    schema: Record<string, DatabaseProperty>;
+    allPages: Page[];
+    members: WorkspaceMember[];
+}
+
+/**
+ * Card body: cover, title and the chosen preview properties
+ */
+const BoardCardContent: React.FC<BoardCardProps> = ({ page, previewProperties, schema, allPages, members }) => {
+    // Formulas and rollups are only computed when a card actually shows one
+    const needsComputed = previewProperties.some(([, p]) => p.type === 'formula' || p.type === 'rollup');
+    const computed = needsComputed ? computeRowProperties(page, schema, allPages) : {};
+
+    return (
+        <>
+            {/* Cover image preview if page has one */}
+            {page.cover && (
+                <div
+                    className="h-24 w-full bg-cover bg-center rounded mb-2"
+                    style={{ backgroundImage: `url(${page.cover})` }}
+                />
+            )}
+
+            {/* Page title with icon */}
+            <div className="flex items-center gap-2">
+                <span className="text-lg">{page.icon || '📄'}</span>
+                <span className="font-medium text-gray-900 dark:text-gray-100 line-clamp-1">
+                    {page.title || 'Untitled'}
+                </span>
+            </div>
+
+            {/* Properties chosen for the card preview */}
+            {previewProperties.length > 0 && (
+                <div className="mt-2 space-y-1 text-xs text-gray-500 dark:text-gray-400">
+                    {previewProperties.map(([key, property]) => {
+                        const value =
+                            property.type === 'formula' || property.type === 'rollup'
+                                ? computed[key]?.value
+                                : page.propertyValues?.[key];
+                        return (
+                            <div key={key} className="min-w-0">
+                                <PropertyValuePreview property={property} value={value} members={members} />
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </>
+    );
+};
+
+const CARD_CLASS =
+    'bg-white dark:bg-[#252525] p-3 rounded shadow-sm border border-gray-200 dark:border-[#333] hover:shadow-md transition-shadow cursor-pointer select-none';
+
+/**
+ * A draggable card
+ */
+const BoardCard: React.FC<BoardCardProps & { onOpenPage: (pageId: string) => void }> = ({ onOpenPage, ...props }) => {
+    const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+        id: props.page.id,
+        data: { type: 'card' },
+    });
+
+    return (
+        <div
+            ref={setNodeRef}
+            style={{ transform: CSS.Transform.toString(transform), transition }}
+            {...attributes}
+            {...listeners}
+            onClick={() => onOpenPage(props.page.id)}
+            className={`${CARD_CLASS} ${isDragging ? 'opacity-40' : ''}`}
+        >
+            <BoardCardContent {...props} />
+        </div>
+    );
+};
+
+/**
+ * One column: header with count, WIP limit and collapse toggle, then its cards
+ */
+const BoardColumnView: React.FC<{
+    column: BoardColumn;
+    isCollapsed: boolean;
+    wipLimit?: number;
+    children: React.ReactNode;
+    onToggleCollapse: () => void;
+    onSetWipLimit: (limit: number | null) => void;
+    onCreate?: () => void;
+}> = ({ column, isCollapsed, wipLimit, children, onToggleCollapse, onSetWipLimit, onCreate }) => {
+    const { setNodeRef, isOver } = useDroppable({ id: `${COLUMN_PREFIX}${column.id}`, data: { type: 'column' } });
+    const isOverLimit = wipLimit !== undefined && column.pages.length > wipLimit;
+
+    const count = (
+        <span className={`ml-1 font-normal ${isOverLimit ? 'text-red-500' : 'text-gray-400'}`}>
+            {column.pages.length}
+            {wipLimit !== undefined && `/${wipLimit}`}
+        </span>
+    );
+
+    const label = (
+        <span className={`px-2 py-0.5 rounded text-xs font-medium ${OPTION_COLOR_CLASSES[column.color || 'default']}`}>
+            {column.label}
+        </span>
+    );
+
+    // Collapsed columns are a narrow strip that still accepts dropped cards
+    if (isCollapsed) {
+        return (
+            <div
+                ref={setNodeRef}
+                onClick={onToggleCollapse}
+                title={`Expand ${column.label}`}
+                className={`flex-shrink-0 w-10 flex flex-col items-center gap-2 py-2 rounded cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 ${
+                    isOver ? 'bg-blue-50 dark:bg-blue-900/20' : ''
+                }`}
+            >
+                <ChevronsLeftRight size={14} className="text-gray-400" />
+                <span className="[writing-mode:vertical-rl] text-sm text-gray-600 dark:text-gray-300 flex items-center gap-2">
+                    {column.label}
+                    {count}
+                </span>
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex-shrink-0 w-72 flex flex-col">
+            {/* Column Header */}
+            <div className="flex items-center justify-between mb-3 px-1">
+                <h3 className="font-medium text-sm text-gray-600 dark:text-gray-300 flex items-center gap-1">
+                    {label}
+                    {count}
+                </h3>
+
+                <div className="flex items-center gap-1 text-gray-400">
+                    {/* Column settings: WIP limit */}
+                    <Popover>
+                        <PopoverTrigger asChild>
+                            <button className="p-0.5 hover:text-gray-600 dark:hover:text-gray-200" aria-label="Column settings">
+                                <MoreHorizontal size={16} />
+                            </button>
+                        </PopoverTrigger>
+                        <PopoverContent
+                            align="end"
+                            className="w-56 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-3 z-50 space-y-2"
+                        >
+                            <label className="block text-xs font-medium text-gray-500 dark:text-gray-400">
+                                Card limit
+                            </label>
+                            <input
+                                type="number"
+                                min={1}
+                                placeholder="No limit"
+                                defaultValue={wipLimit ?? ''}
+                                onChange={(e) => {
+                                    const limit = parseInt(e.target.value, 10);
+                                    onSetWipLimit(isNaN(limit) || limit < 1 ? null : limit);
+                                }}
+                                className="w-full h-8 px-2 text-sm border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800"
+                            />
+                            <p className="text-xs text-gray-400">The count turns red when the column holds more cards.</p>
+                        </PopoverContent>
+                    </Popover>
+                    <button
+                        onClick={onToggleCollapse}
+                        className="p-0.5 hover:text-gray-600 dark:hover:text-gray-200"
+                        aria-label="Collapse column"
+                    >
+                        <ChevronsRightLeft size={16} />
+                    </button>
+                    {onCreate && (
+                        <button onClick={onCreate} className="p-0.5 hover:text-gray-600 dark:hover:text-gray-200" aria-label="New page">
+                            <Plus size={16} />
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {/* Column Content - List of Pages */}
+            <div
+                ref={setNodeRef}
+                className={`space-y-2 min-h-[60px] rounded p-1 -m-1 transition-colors ${
+                    isOver ? 'bg-blue-50/60 dark:bg-blue-900/10' : ''
+                } ${isOverLimit ? 'ring-1 ring-red-300 dark:ring-red-800' : ''}`}
+            >
+                <SortableContext items={column.pages.map((page) => page.id)} strategy={verticalListSortingStrategy}>
+                    {children}
+                </SortableContext>
+            </div>
+        </div>
+    );
+};
+
 /**
  * BoardView Component (Kanban Board)
- * 
+ *
  * This displays pages in a Kanban board layout, similar to Trello or Notion's board view.
- * Pages are organized into columns based on their status property.
- * 
- * Current columns:
- * - No Status: Pages without a status set
- * - To Do: Pages marked as pending
- * - In Progress: Pages currently being worked on
- * - Done: Completed pages
- * 
- * Users can click on pages to open them, and use the "+" button to create new pages
- * directly in a specific status column.
+ * Pages are organized into one column per option of the select, status or person
+ * property the view is grouped by, plus a column for pages without a value.
+ *
+ * Cards can be dragged between columns (which writes the new property value) and
+ * within a column (which saves a manual order on the view, used when the view has
+ * no sort). Columns can be collapsed and given a WIP limit, and cards can preview
+ * any properties picked in the board settings.
  */
-export const BoardView: React.FC<BoardViewProps> = ({ pages, onOpenPage, onCreatePage }) => {
+export const BoardView: React.FC<BoardViewProps> = ({
+    pages,
+    view,
+    schema = {},
+    allPages = NO_PAGES,
+    currentUserId,
+    members = [],
+    onOpenPage,
+    onCreatePage,
+    onUpdateView,
+    onUpdatePageValue,
+}) => {
     // State to track which column is showing the new page input
-    const [creatingInStatus, setCreatingInStatus] = React.useState<string | null>(null);
-    
+    const [creatingInGroup, setCreatingInGroup] = useState<string | null>(null);
+
     // State for the title of the new page being created
-    const [newItemTitle, setNewItemTitle] = React.useState('');
+    const [newItemTitle, setNewItemTitle] = useState('');
+
+    // Card being dragged, shown in the drag overlay
+    const [activePageId, setActivePageId] = useState<string | null>(null);
+
+    const sensors = useSensors(
+        // A small distance lets a plain click still open the page
+        useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+        useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+    );
+
+    const groupKey = getGroupByKey(view, schema);
+    const groupProperty = groupKey ? (schema[groupKey] as GroupableProperty) : null;
+    const isSorted = normalizeSorts(view.sort).length > 0;
 
     /**
-     * Group pages into columns based on their status property
-     * 
-     * We use useMemo here to avoid recalculating this on every render.
-     * It only recalculates when the pages array changes.
+     * Group the filtered pages into columns
+     *
+     * Sorted views keep the sort order; otherwise cards follow the manual order
+     * saved by dragging.
      */
     const columns = useMemo(() => {
-        // Initialize our column groups
-        // In a real app, these might come from user settings or database
-        const groups: Record<string, Page[]> = {
-            'No Status': [],
-            'To Do': [],
-            'In Progress': [],
-            'Done': [],
-        };
-
-        // Loop through each page and put it in the right column
-        pages.forEach((page) => {
-            // Check if the page has a status property, default to "No Status"
-            const status = page.properties?.status || 'No Status';
-            
-            if (groups[status]) {
-                // Add to existing column
-                groups[status].push(page);
-            } else {
-                // If someone set a custom status that's not in our default columns,
-                // create a new column for it dynamically
-                if (!groups[status]) groups[status] = [];
-                groups[status].push(page);
-            }
+        if (!groupKey || !groupProperty) return [];
+        const visible = queryPages(pages, view, { schema, allPages, currentUserId });
+        const ordered = isSorted ? visible : applyManualOrder(visible, view.manualOrder);
+        return groupBoardPages(ordered, groupKey, groupProperty, members);
+    }, [pages, view, schema, allPages, currentUserId, members, groupKey, groupProperty, isSorted]);
+
+    const previewProperties = useMemo(
+        () =>
+            (view.properties || [])
+                .filter((key) => key !== groupKey && schema[key])
+                .map((key) => [key, schema[key]] as [string, DatabaseProperty]),
+        [view.properties, schema, groupKey]
+    );
+
+    const groupableProperties = Object.entries(schema).filter(([, property]) => isGroupableProperty(property));
+    const activePage = activePageId ? pages.find((page) => page.id === activePageId) : null;
+
+    const updateView = (updates: Partial<ViewDefinition>) => onUpdateView?.({ ...view, ...updates });
+
+    const handleToggleCollapse = (groupId: string) => {
+        const collapsed = view.collapsedGroups || [];
+        updateView({
+            collapsedGroups: collapsed.includes(groupId) ? collapsed.filter((id) => id !== groupId) : [...collapsed, groupId],
         });
+    };
+
+    const handleSetWipLimit = (groupId: string, limit: number | null) => {
+        const { [groupId]: _previous, ...rest } = view.wipLimits || {};
+        updateView({ wipLimits: limit === null ? rest : { ...rest, [groupId]: limit } });
+    };
+
+    const handleTogglePreview = (key: string) => {
+        const current = view.properties || [];
+        updateView({ properties: current.includes(key) ? current.filter((k) => k !== key) : [...current, key] });
+    };
 
-        return groups;
-    }, [pages]); // Only recalculate when pages change
+    const handleDragStart = (event: DragStartEvent) => setActivePageId(String(event.active.id));
 
     /**
-     * Handle creating a new page in a specific status column
+     * Drop a card: onto a column (goes to the end) or onto another card (takes its place)
      */
-    const handleCreateSubmit = async (status: string) => {
+    const handleDragEnd = (event: DragEndEvent) => {
+        setActivePageId(null);
+        const { active, over } = event;
+        if (!over || !groupKey || !groupProperty) return;
+
+        const pageId = String(active.id);
+        const overId = String(over.id);
+        const source = columns.find((column) => column.pages.some((page) => page.id === pageId));
+
+        let target: BoardColumn | undefined;
+        let targetIndex: number;
+        if (overId.startsWith(COLUMN_PREFIX)) {
+            target = columns.find((column) => column.id === overId.slice(COLUMN_PREFIX.length));
+            targetIndex = target ? target.pages.length : 0;
+        } else {
+            target = columns.find((column) => column.pages.some((page) => page.id === overId));
+            targetIndex = target ? target.pages.findIndex((page) => page.id === overId) : 0;
+        }
+        if (!source || !target) return;
+
+        const page = source.pages.find((p) => p.id === pageId)!;
+        if (source.id !== target.id) {
+            onUpdatePageValue?.(pageId, groupKey, getGroupValue(page, groupKey, groupProperty, target.id));
+        }
+
+        // Manual order only matters while the view isn't sorted
+        if (!isSorted && (source.id !== target.id || overId !== pageId)) {
+            updateView({ manualOrder: moveBoardCard(columns, pageId, target.id, targetIndex) });
+        }
+    };
+
+    /**
+     * Handle creating a new page in a specific column
+     */
+    const handleCreateSubmit = async (groupId: string) => {
         // Don't create if title is empty or no create function provided
-        if (!newItemTitle.trim() || !onCreatePage) {
-            setCreatingInStatus(null);
+        if (!newItemTitle.trim() || !onCreatePage || !groupKey || !groupProperty) {
+            setCreatingInGroup(null);
             setNewItemTitle('');
             return;
         }
 
-        // Call the create function with the new title and status
-        await onCreatePage(newItemTitle, { status });
-        
+        // The new page starts with the column's value
+        const stub = { propertyValues: {} } as Page;
+        await onCreatePage(newItemTitle, { [groupKey]: getGroupValue(stub, groupKey, groupProperty, groupId) });
+
         // Reset the form
-        setCreatingInStatus(null);
+        setCreatingInGroup(null);
         setNewItemTitle('');
     };
 
     /**
      * Handle keyboard shortcuts while creating a new page
      */
-    const handleKeyDown = (e: React.KeyboardEvent, status: string) => {
+    const handleKeyDown = (e: React.KeyboardEvent, groupId: string) => {
         if (e.key === 'Enter') {
             // Enter key submits the new page
-            handleCreateSubmit(status);
+            handleCreateSubmit(groupId);
         } else if (e.key === 'Escape') {
             // Escape key cancels creation
-            setCreatingInStatus(null);
+            setCreatingInGroup(null);
             setNewItemTitle('');
         }
     };
 
+    // Boards need something to group by
+    if (!groupKey || !groupProperty) {
+        return (
+            <div className="py-10 text-center text-sm text-gray-500 dark:text-gray-400">
+                Add a select, status or person property to this database to group it as a board.
+            </div>
+        );
+    }
+
     return (
-        // Main container - flexbox for horizontal columns with scrolling
-        <div className="flex gap-4 overflow-x-auto pb-4 h-full">
-            {/* Loop through each column and render it */}
-            {Object.entries(columns).map(([status, groupPages]) => (
-                // Each column is a fixed width card that doesn't shrink
-                <div key={status} className="flex-shrink-0 w-72 flex flex-col">
-                    
-                    {/* Column Header */}
-                    <div className="flex items-center justify-between mb-3 px-1">
-                        <h3 className="font-medium text-sm text-gray-600 dark:text-gray-300 flex items-center gap-2">
-                            {/* Color-coded dot to visually distinguish columns */}
-                            <span className={`w-2 h-2 rounded-full ${
-                                status === 'Done' ? 'bg-green-500' :
-                                status === 'In Progress' ? 'bg-blue-500' :
-                                status === 'To Do' ? 'bg-yellow-500' : 'bg-gray-400'
-                            }`} />
-                            
-                            {/* Column name */}
-                            {status}
-                            
-                            {/* Count of pages in this column */}
-                            <span className="text-gray-400 ml-1 font-normal">{groupPages.length}</span>
-                        </h3>
-                        
-                        {/* Plus button (currently just for show, could trigger creation) */}
-                        <button className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200">
-                            <Plus size={16} />
+        <div className="flex flex-col h-full">
+            {/* Board settings: grouping and card preview properties */}
+            <div className="flex items-center gap-2 mb-3 text-sm text-gray-500 dark:text-gray-400">
+                <span>Group by</span>
+                <select
+                    value={groupKey}
+                    onChange={(e) => updateView({ groupBy: e.target.value, collapsedGroups: [], wipLimits: {} })}
+                    className="h-8 px-2 text-sm border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                >
+                    {groupableProperties.map(([key, property]) => (
+                        <option key={key} value={key}>
+                            {property.name || key}
+                        </option>
+                    ))}
+                </select>
+
+                <Popover>
+                    <PopoverTrigger asChild>
+                        <button className="flex items-center gap-1.5 px-2 py-1 rounded-md hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-900 dark:hover:text-gray-100">
+                            <SlidersHorizontal size={14} />
+                            Card properties{previewProperties.length > 0 && ` (${previewProperties.length})`}
                         </button>
-                    </div>
-
-                    {/* Column Content - List of Pages */}
-                    <div className="space-y-2">
-                        {/* Render each page as a card */}
-                        {groupPages.map((page) => (
-                            <div
-                                key={page.id}
-                                onClick={() => onOpenPage(page.id)}
-                                className="bg-white dark:bg-[#252525] p-3 rounded shadow-sm border border-gray-200 dark:border-[#333] hover:shadow-md transition-shadow cursor-pointer select-none"
-                            >
-                                {/* Page title with icon */}
-                                <div className="flex items-center gap-2 mb-2">
-                                    <span className="text-lg">{page.icon || '📄'}</span>
-                                    <span className="font-medium text-gray-900 dark:text-gray-100 line-clamp-1">
-                                        {page.title || 'Untitled'}
-                                    </span>
-                                </div>
-                                
-                                {/* Cover image preview if page has one */}
-                                {page.cover && (
-                                    <div 
-                                        className="h-24 w-full bg-cover bg-center rounded mb-2" 
-                                        style={{ backgroundImage: `url(${page.cover})` }} 
+                    </PopoverTrigger>
+                    <PopoverContent
+                        align="start"
+                        className="w-60 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-2 z-50 space-y-1"
+                    >
+                        {Object.entries(schema)
+                            .filter(([key]) => key !== groupKey)
+                            .map(([key, property]) => (
+                                <label
+                                    key={key}
+                                    className="flex items-center gap-2 px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-sm text-gray-700 dark:text-gray-200"
+                                >
+                                    <input
+                                        type="checkbox"
+                                        checked={(view.properties || []).includes(key)}
+                                        onChange={() => handleTogglePreview(key)}
                                     />
-                                )}
-                                
-                                {/* Additional metadata could go here in the future */}
-                                <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
-                                    {/* Future: Could show tags, dates, assignees, etc. */}
-                                </div>
-                            </div>
-                        ))}
-
-                        {/* New Page Creation UI */}
-                        {creatingInStatus === status ? (
-                            // Show input field when user clicked "New"
-                            <div className="bg-white dark:bg-[#252525] p-2 rounded shadow-sm border border-blue-500 dark:border-blue-500">
-                                <input
-                                    autoFocus // Automatically focus when shown
-                                    type="text"
-                                    placeholder="Type a name..."
-                                    className="w-full bg-transparent border-none outline-none text-sm text-gray-900 dark:text-gray-100 placeholder-gray-400"
-                                    value={newItemTitle}
-                                    onChange={(e) => setNewItemTitle(e.target.value)}
-                                    onKeyDown={(e) => handleKeyDown(e, status)}
-                                    onBlur={() => handleCreateSubmit(status)} // Submit when clicking away
+                                    {property.name || key}
+                                </label>
+                            ))}
+                    </PopoverContent>
+                </Popover>
+
+                {isSorted && <span className="text-xs">Sorted — dragging only changes a card's column</span>}
+            </div>
+
+            <DndContext
+                sensors={sensors}
+                collisionDetection={closestCorners}
+                onDragStart={handleDragStart}
+                onDragEnd={handleDragEnd}
+                onDragCancel={() => setActivePageId(null)}
+            >
+                {/* Main container - flexbox for horizontal columns with scrolling */}
+                <div className="flex gap-4 overflow-x-auto pb-4 flex-1">
+                    {columns.map((column) => (
+                        <BoardColumnView
+                            key={column.id}
+                            column={column}
+                            isCollapsed={(view.collapsedGroups || []).includes(column.id)}
+                            wipLimit={view.wipLimits?.[column.id]}
+                            onToggleCollapse={() => handleToggleCollapse(column.id)}
+                            onSetWipLimit={(limit) => handleSetWipLimit(column.id, limit)}
+                            onCreate={
+                                onCreatePage
+                                    ? () => {
+                                          setCreatingInGroup(column.id);
+                                          setNewItemTitle('');
+                                      }
+                                    : undefined
+                            }
+                        >
+                            {/* Render each page as a card */}
+                            {column.pages.map((page) => (
+                                <BoardCard
+                                    key={page.id}
+                                    page={page}
+                                    previewProperties={previewProperties}
+                                    schema={schema}
+                                    allPages={allPages}
+                                    members={members}
+                                    onOpenPage={onOpenPage}
                                 />
-                            </div>
-                        ) : (
-                            // Show "New" button when not creating
-                            <button
-                                onClick={() => {
-                                    setCreatingInStatus(status);
-                                    setNewItemTitle('');
-                                }}
-                                className="flex items-center gap-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 text-sm px-2 py-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-800 w-full text-left transition-colors"
-                            >
-                                <Plus size={14} />
-                                New
-                            </button>
-                        )}
-                    </div>
+                            ))}
+
+                            {/* New Page Creation UI */}
+                            {onCreatePage &&
+                                (creatingInGroup === column.id ? (
+                                    // Show input field when user clicked "New"
+                                    <div className="bg-white dark:bg-[#252525] p-2 rounded shadow-sm border border-blue-500 dark:border-blue-500">
+                                        <input
+                                            autoFocus // Automatically focus when shown
+                                            type="text"
+                                            placeholder="Type a name..."
+                                            className="w-full bg-transparent border-none outline-none text-sm text-gray-900 dark:text-gray-100 placeholder-gray-400"
+                                            value={newItemTitle}
+                                            onChange={(e) => setNewItemTitle(e.target.value)}
+                                            onKeyDown={(e) => handleKeyDown(e, column.id)}
+                                            onBlur={() => handleCreateSubmit(column.id)} // Submit when clicking away
+                                        />
+                                    </div>
+                                ) : (
+                                    // Show "New" button when not creating
+                                    <button
+                                        onClick={() => {
+                                            setCreatingInGroup(column.id);
+                                            setNewItemTitle('');
+                                        }}
+                                        className="flex items-center gap-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 text-sm px-2 py-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-800 w-full text-left transition-colors"
+                                    >
+                                        <Plus size={14} />
+                                        New
+                                    </button>
+                                ))}
+                        </BoardColumnView>
+                    ))}
                 </div>
-            ))}
+
+                {/* Floating copy of the card while it's being dragged */}
+                <DragOverlay>
+                    {activePage && (
+                        <div className={`${CARD_CLASS} shadow-lg rotate-1`}>
+                            <BoardCardContent
+                                page={activePage}
+                                previewProperties={previewProperties}
+                                schema={schema}
+                                allPages={allPages}
+                                members={members}
+                            />
+                        </div>
+                    )}
+                </DragOverlay>
+            </DndContext>
         </div>
     );
-};
\ No newline at end of file
+};
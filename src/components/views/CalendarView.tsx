@@ -1,122 +1,461 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
+import {
+    DndContext,
+    DragEndEvent,
+    DragOverlay,
+    DragStartEvent,
+    PointerSensor,
+    pointerWithin,
+    useDraggable,
+    useDroppable,
+    useSensor,
+    useSensors,
+} from '@dnd-kit/core';
+import {
+    addMonths,
+    addWeeks,
+    differenceInCalendarDays,
+    eachDayOfInterval,
+    endOfMonth,
+    endOfWeek,
+    format,
+    isSameDay,
+    isSameMonth,
+    isToday,
+    max as maxDate,
+    startOfMonth,
+    startOfWeek,
+} from 'date-fns';
+import { ChevronLeft, ChevronRight, Plus } from 'lucide-react';
 import { Page } from '../../types/workspace';
 import { ViewDefinition } from '../../types/view';
-import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, isToday } from 'date-fns';
+import { DatabaseProperty, DateProperty } from '../../types/database';
+import { queryPages } from '../../lib/database/views';
+import {
+    CREATED_DATE_KEY,
+    CalendarItem,
+    CalendarSegment,
+    dateValueForDay,
+    getCalendarDateKey,
+    getCalendarItems,
+    getItemsInRange,
+    getMonthDays,
+    layoutWeek,
+    shiftDateValue,
+} from '../../lib/database/calendar';
+
+type CalendarMode = NonNullable<ViewDefinition['calendarMode']>;
 
 /**
  * Props for the CalendarView component
  */
 interface CalendarViewProps {
     pages: Page[]; // All pages to display on the calendar
-    view: ViewDefinition; // View configuration (not currently used)
+    view: ViewDefinition; // View configuration - date property, layout, filter and sort
+    schema?: Record<string, DatabaseProperty>; // Properties of the database page, used by the view's filter and sort
+    allPages?: Page[]; // Pages that relations and rollups may point to
+    currentUserId?: string; // Who "me" is in the view's filters
     onOpenPage: (pageId: string) => void; // Callback when user clicks on a page
+    onCreatePage?: (title: string, propertyValues?: Record<string, any>) => Promise<void>; // Creates a page on a clicked day
+    onUpdateView?: (view: ViewDefinition) => void; // Saves the chosen date property and layout
+    onUpdatePageValue?: (pageId: string, propertyName: string, value: any) => void; // Writes a rescheduled date
 }
 
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Height of one item bar plus its gap, and of the day number above the bars
+const LANE_HEIGHT = 24;
+const DAY_HEADER_HEIGHT = 28;
+
+const dayId = (day: Date) => `day:${format(day, 'yyyy-MM-dd')}`;
+
+/**
+ * An item bar; spans several columns for multi-day items
+ */
+const CalendarBar: React.FC<{
+    segment: CalendarSegment;
+    weekStart: Date;
+    canDrag: boolean;
+    onOpenPage: (pageId: string) => void;
+}> = ({ segment, weekStart, canDrag, onOpenPage }) => {
+    const { page } = segment.item;
+    // The segment's first day is where the drag starts from, so the drop target sets the offset
+    const segmentStart = maxDate([segment.item.start, weekStart]);
+    const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+        id: `${page.id}:${format(weekStart, 'yyyy-MM-dd')}`,
+        data: { pageId: page.id, segmentStart },
+        disabled: !canDrag,
+    });
+
+    return (
+        <div
+            ref={setNodeRef}
+            {...attributes}
+            {...listeners}
+            onClick={() => onOpenPage(page.id)}
+            style={{ gridColumn: `${segment.startColumn + 1} / span ${segment.span}`, gridRow: segment.lane + 1 }}
+            className={`pointer-events-auto mx-1 px-1.5 text-xs leading-5 h-5 truncate cursor-pointer bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 hover:bg-blue-100 dark:hover:bg-blue-900/50 transition-colors ${
+                segment.continuesBefore ? 'rounded-l-none' : 'rounded-l'
+            } ${segment.continuesAfter ? 'rounded-r-none' : 'rounded-r'} ${isDragging ? 'opacity-40' : ''}`}
+        >
+            {/* Show page icon and title */}
+            <span className="mr-1">{page.icon}</span>
+            {page.title || 'Untitled'}
+        </div>
+    );
+};
+
+/**
+ * A day cell: drop target for rescheduling and entry point for new pages
+ */
+const DayCell: React.FC<{
+    day: Date;
+    isOutsideMonth: boolean;
+    isCreating: boolean;
+    onStartCreate?: () => void;
+    onSubmitCreate: (title: string) => void;
+    onCancelCreate: () => void;
+}> = ({ day, isOutsideMonth, isCreating, onStartCreate, onSubmitCreate, onCancelCreate }) => {
+    const { setNodeRef, isOver } = useDroppable({ id: dayId(day), data: { day } });
+    const [title, setTitle] = useState('');
+
+    const submit = () => {
+        setTitle('');
+        onSubmitCreate(title);
+    };
+
+    return (
+        <div
+            ref={setNodeRef}
+            className={`group relative p-2 ${
+                // Gray out padding days from the previous/next month
+                isOutsideMonth ? 'bg-gray-50 dark:bg-[#252525]' : 'bg-white dark:bg-[#1e1e1e]'
+            } ${isOver ? 'ring-2 ring-inset ring-blue-400' : ''}`}
+        >
+            <div className="flex items-center justify-between">
+                {/* Add a page on this day, shown on hover */}
+                {onStartCreate ? (
+                    <button
+                        onClick={onStartCreate}
+                        className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-opacity"
+                        aria-label={`New page on ${format(day, 'MMM d')}`}
+                    >
+                        <Plus size={14} />
+                    </button>
+                ) : (
+                    <span />
+                )}
+
+                {/* Day Number */}
+                <div
+                    className={`text-xs font-medium ${
+                        isToday(day)
+                            // Today gets a special red circle highlight
+                            ? 'bg-red-500 text-white w-6 h-6 rounded-full flex items-center justify-center'
+                            // Other days are just gray text
+                            : 'text-gray-500'
+                    }`}
+                >
+                    {format(day, 'd')}
+                </div>
+            </div>
+
+            {isCreating && (
+                <input
+                    autoFocus
+                    type="text"
+                    placeholder="Type a name..."
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') submit();
+                        if (e.key === 'Escape') onCancelCreate();
+                    }}
+                    onBlur={submit}
+                    className="absolute left-1 right-1 bottom-1 z-10 px-1.5 py-0.5 text-xs rounded border border-blue-500 bg-white dark:bg-[#252525] text-gray-900 dark:text-gray-100 outline-none"
+                />
+            )}
+        </div>
+    );
+};
+
 /**
  * CalendarView Component
- * 
- * Displays pages in a monthly calendar view, where each page appears on the day it was created.
- * This is useful for seeing your work timeline and when different pages were created.
- * 
+ *
+ * Displays pages on a calendar by a date property of the database (or by the day
+ * they were created when the database has no date property).
+ *
  * Features:
- * - Shows current month's calendar grid
+ * - Month, week and agenda layouts with previous/next navigation
+ * - Date ranges drawn as bars across the days they cover
+ * - Drag an item to another day to reschedule it (ranges keep their length)
+ * - Click "+" on a day to create a page with that date filled in
  * - Highlights today's date
- * - Groups pages by creation date
- * - Click on any page to open it
  */
-export const CalendarView: React.FC<CalendarViewProps> = ({ pages, onOpenPage }) => {
-    // Get the current date (this determines which month we show)
-    const currentDate = new Date();
-    
-    // Calculate the first and last day of the current month
-    // For example, if it's January 15, monthStart = Jan 1, monthEnd = Jan 31
-    const monthStart = startOfMonth(currentDate);
-    const monthEnd = endOfMonth(currentDate);
-    
-    // Generate an array of all days in the current month
-    // This gives us [Jan 1, Jan 2, Jan 3, ..., Jan 31]
-    const daysInMonth = eachDayOfInterval({ start: monthStart, end: monthEnd });
-
-    // Note: A more complete calendar would add padding days from the previous/next months
-    // to fill the grid properly (usually calendars show 6 weeks = 42 days)
-    // That's omitted here for simplicity but could be added later
+export const CalendarView: React.FC<CalendarViewProps> = ({
+    pages,
+    view,
+    schema = {},
+    allPages,
+    currentUserId,
+    onOpenPage,
+    onCreatePage,
+    onUpdateView,
+    onUpdatePageValue,
+}) => {
+    // The date that decides which month or week is shown
+    const [cursor, setCursor] = useState(() => new Date());
+    const [mode, setMode] = useState<CalendarMode>(view.calendarMode || 'month');
+    const [creatingOn, setCreatingOn] = useState<string | null>(null);
+    const [dragging, setDragging] = useState<Page | null>(null);
 
-    return (
-        // Main container with fixed height and border
-        <div className="border border-gray-200 dark:border-gray-800 rounded-lg overflow-hidden flex flex-col h-[600px]">
-            
-            {/* Calendar Header - Shows month and year */}
-            <div className="bg-gray-50 dark:bg-[#252525] px-4 py-2 border-b border-gray-200 dark:border-gray-800 flex justify-between items-center">
-                <h2 className="font-semibold text-gray-900 dark:text-gray-100">
-                    {/* Format as "January 2024" */}
-                    {format(currentDate, 'MMMM yyyy')}
-                </h2>
-                {/* Future: Could add prev/next month buttons here */}
+    const sensors = useSensors(
+        // A small distance lets a plain click still open the page
+        useSensor(PointerSensor, { activationConstraint: { distance: 5 } })
+    );
+
+    const dateKey = getCalendarDateKey(view, schema);
+    const dateProperty = dateKey === CREATED_DATE_KEY ? null : (schema[dateKey] as DateProperty);
+    const dateProperties = Object.entries(schema).filter(([, property]) => property.type === 'date');
+
+    // Pages that pass the view's filter, in the view's sort order, placed on their dates
+    const items = useMemo(
+        () => getCalendarItems(queryPages(pages, view, { schema, allPages, currentUserId }), dateKey),
+        [pages, view, schema, allPages, currentUserId, dateKey]
+    );
+
+    const weeks = useMemo(() => {
+        const days = mode === 'week'
+            ? eachDayOfInterval({ start: startOfWeek(cursor), end: endOfWeek(cursor) })
+            : getMonthDays(cursor);
+        return Array.from({ length: days.length / 7 }, (_, i) => days.slice(i * 7, i * 7 + 7));
+    }, [cursor, mode]);
+
+    const canReschedule = !!dateProperty && !!onUpdatePageValue;
+    const canCreate = !!onCreatePage;
+
+    const handleChangeMode = (next: CalendarMode) => {
+        setMode(next);
+        onUpdateView?.({ ...view, calendarMode: next });
+    };
+
+    const handleNavigate = (direction: -1 | 1) =>
+        setCursor((current) => (mode === 'week' ? addWeeks(current, direction) : addMonths(current, direction)));
+
+    const handleCreate = async (day: Date, title: string) => {
+        setCreatingOn(null);
+        if (!title.trim() || !onCreatePage) return;
+        // Calendars placed by created date can't backdate pages, so the new page just lands on today
+        await onCreatePage(title, dateProperty ? { [dateKey]: dateValueForDay(day, dateProperty.includeTime) } : {});
+    };
+
+    const handleDragStart = (event: DragStartEvent) => {
+        const pageId = event.active.data.current?.pageId;
+        setDragging(pages.find((page) => page.id === pageId) || null);
+    };
+
+    /**
+     * Move the dragged item so the segment's first day lands on the drop day
+     */
+    const handleDragEnd = (event: DragEndEvent) => {
+        setDragging(null);
+        const { active, over } = event;
+        if (!over || !dateProperty || !onUpdatePageValue) return;
+
+        const { pageId, segmentStart } = active.data.current as { pageId: string; segmentStart: Date };
+        const days = differenceInCalendarDays(over.data.current?.day, segmentStart);
+        if (!days) return;
+
+        const page = pages.find((p) => p.id === pageId);
+        const value = shiftDateValue(page?.propertyValues?.[dateKey], days, dateProperty.includeTime);
+        if (value) onUpdatePageValue(pageId, dateKey, value);
+    };
+
+    // Header title: "January 2024", or the week's range
+    const title =
+        mode === 'week'
+            ? `${format(weeks[0][0], 'MMM d')} – ${format(weeks[0][6], isSameMonth(weeks[0][0], weeks[0][6]) ? 'd, yyyy' : 'MMM d, yyyy')}`
+            : format(cursor, 'MMMM yyyy');
+
+    const renderWeek = (days: Date[]) => {
+        const segments = layoutWeek(items, days[0]);
+        const lanes = segments.reduce((count, segment) => Math.max(count, segment.lane + 1), 0);
+        // Leave room below the bars for the new-page input
+        const minHeight = Math.max(mode === 'week' ? 400 : 110, DAY_HEADER_HEIGHT + lanes * LANE_HEIGHT + 32);
+
+        return (
+            <div key={days[0].toISOString()} className="relative grid grid-cols-7 gap-px" style={{ minHeight }}>
+                {days.map((day) => (
+                    <DayCell
+                        key={day.toISOString()}
+                        day={day}
+                        isOutsideMonth={mode === 'month' && !isSameMonth(day, cursor)}
+                        isCreating={creatingOn === day.toISOString()}
+                        onStartCreate={canCreate ? () => setCreatingOn(day.toISOString()) : undefined}
+                        onSubmitCreate={(title) => handleCreate(day, title)}
+                        onCancelCreate={() => setCreatingOn(null)}
+                    />
+                ))}
+
+                {/* Item bars, laid over the day cells; only the bars themselves take clicks */}
+                <div
+                    className="absolute inset-x-0 grid grid-cols-7 gap-y-1 pointer-events-none"
+                    style={{ top: DAY_HEADER_HEIGHT + 4, gridAutoRows: `${LANE_HEIGHT - 4}px` }}
+                >
+                    {segments.map((segment) => (
+                        <CalendarBar
+                            key={segment.item.page.id}
+                            segment={segment}
+                            weekStart={days[0]}
+                            canDrag={canReschedule}
+                            onOpenPage={onOpenPage}
+                        />
+                    ))}
+                </div>
             </div>
+        );
+    };
 
-            {/* Day Names Header - Sun, Mon, Tue, etc. */}
-            <div className="grid grid-cols-7 border-b border-gray-200 dark:border-gray-800 text-center bg-gray-50 dark:bg-[#252525]">
-                {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map((day) => (
-                    <div key={day} className="py-2 text-xs font-semibold text-gray-500 uppercase tracking-wide">
-                        {day}
+    /**
+     * Agenda: the month's items as a list grouped by day
+     * Items that started in an earlier month are listed on the 1st
+     */
+    const renderAgenda = () => {
+        const monthStart = startOfMonth(cursor);
+        const monthItems = getItemsInRange(items, monthStart, endOfMonth(cursor));
+        const byDay = new Map<string, { day: Date; items: CalendarItem[] }>();
+        monthItems
+            .map((item) => ({ item, day: maxDate([item.start, monthStart]) }))
+            .sort((a, b) => a.day.getTime() - b.day.getTime())
+            .forEach(({ item, day }) => {
+                const key = day.toISOString();
+                if (!byDay.has(key)) byDay.set(key, { day, items: [] });
+                byDay.get(key)!.items.push(item);
+            });
+
+        if (byDay.size === 0) {
+            return <div className="py-10 text-center text-sm text-gray-500 dark:text-gray-400">Nothing scheduled this month</div>;
+        }
+
+        return (
+            <div className="divide-y divide-gray-100 dark:divide-gray-800 overflow-auto">
+                {Array.from(byDay.values()).map(({ day, items: dayItems }) => (
+                    <div key={day.toISOString()} className="flex gap-4 px-4 py-3">
+                        <div className={`w-24 flex-shrink-0 text-sm ${isToday(day) ? 'text-red-500 font-semibold' : 'text-gray-500'}`}>
+                            {format(day, 'EEE, MMM d')}
+                        </div>
+                        <div className="flex-1 space-y-1">
+                            {dayItems.map((item) => (
+                                <div
+                                    key={item.page.id}
+                                    onClick={() => onOpenPage(item.page.id)}
+                                    className="flex items-center gap-2 text-sm cursor-pointer text-gray-900 dark:text-gray-100 hover:text-blue-600 dark:hover:text-blue-400"
+                                >
+                                    <span>{item.page.icon || '📄'}</span>
+                                    <span className="truncate">{item.page.title || 'Untitled'}</span>
+                                    {!isSameDay(item.start, item.end) && (
+                                        <span className="text-xs text-gray-400">
+                                            {format(item.start, 'MMM d')} → {format(item.end, 'MMM d')}
+                                        </span>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
                     </div>
                 ))}
             </div>
+        );
+    };
+
+    const buttonClass = 'p-1 rounded text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700';
+
+    return (
+        // Main container with border
+        <div className="border border-gray-200 dark:border-gray-800 rounded-lg overflow-hidden flex flex-col min-h-[600px]">
+
+            {/* Calendar Header - period, navigation, layout and date property */}
+            <div className="bg-gray-50 dark:bg-[#252525] px-4 py-2 border-b border-gray-200 dark:border-gray-800 flex flex-wrap gap-2 justify-between items-center">
+                <div className="flex items-center gap-2">
+                    <h2 className="font-semibold text-gray-900 dark:text-gray-100 min-w-[150px]">{title}</h2>
+                    <button onClick={() => handleNavigate(-1)} className={buttonClass} aria-label="Previous">
+                        <ChevronLeft size={16} />
+                    </button>
+                    <button onClick={() => setCursor(new Date())} className="px-2 py-0.5 text-sm rounded text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700">
+                        Today
+                    </button>
+                    <button onClick={() => handleNavigate(1)} className={buttonClass} aria-label="Next">
+                        <ChevronRight size={16} />
+                    </button>
+                </div>
+
+                <div className="flex items-center gap-2 text-sm">
+                    <select
+                        value={dateKey}
+                        onChange={(e) => onUpdateView?.({ ...view, dateProperty: e.target.value })}
+                        className="h-8 px-2 border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                        aria-label="Date property"
+                    >
+                        {dateProperties.map(([key, property]) => (
+                            <option key={key} value={key}>
+                                {property.name || key}
+                            </option>
+                        ))}
+                        <option value={CREATED_DATE_KEY}>Created</option>
+                    </select>
+
+                    <div className="flex rounded-md border border-gray-200 dark:border-gray-700 overflow-hidden">
+                        {(['month', 'week', 'agenda'] as CalendarMode[]).map((option) => (
+                            <button
+                                key={option}
+                                onClick={() => handleChangeMode(option)}
+                                className={`px-2.5 py-1 capitalize ${
+                                    mode === option
+                                        ? 'bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 font-medium'
+                                        : 'text-gray-500 hover:text-gray-900 dark:hover:text-gray-100'
+                                }`}
+                            >
+                                {option}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            </div>
 
-            {/* Calendar Grid - The actual days */}
-            {/* 7 columns for 7 days of the week */}
-            <div className="grid grid-cols-7 flex-1 overflow-auto bg-gray-100 dark:bg-gray-900 gap-px border border-gray-200 dark:border-gray-800">
-                {daysInMonth.map((day, idx) => {
-                    // Find all pages created on this specific day
-                    const dayPages = pages.filter(p => {
-                        // Get the page's creation date
-                        const createdAt = p.createdAt as any;
-                        
-                        // Handle both Firebase Timestamps and regular Date objects
-                        const pDate = createdAt?.toDate ? createdAt.toDate() : new Date(createdAt || new Date());
-                        
-                        // Check if the page was created on this day
-                        return isSameDay(pDate, day);
-                    });
-
-                    return (
-                        // Each calendar cell
-                        <div
-                            key={day.toISOString()}
-                            className={`bg-white dark:bg-[#1e1e1e] min-h-[100px] p-2 flex flex-col ${
-                                // Gray out days that aren't in the current month (if we add padding days)
-                                !isSameMonth(day, monthStart) ? 'bg-gray-50 dark:bg-[#252525]' : ''
-                            }`}
-                        >
-                            {/* Day Number */}
-                            <div className={`text-right text-xs mb-1 font-medium ${
-                                isToday(day)
-                                    // Today gets a special red circle highlight
-                                    ? 'bg-red-500 text-white w-6 h-6 rounded-full flex items-center justify-center ml-auto'
-                                    // Other days are just gray text
-                                    : 'text-gray-500'
-                            }`}>
-                                {format(day, 'd')} {/* Just the day number (1-31) */}
+            {mode === 'agenda' ? (
+                renderAgenda()
+            ) : (
+                <DndContext
+                    sensors={sensors}
+                    collisionDetection={pointerWithin}
+                    onDragStart={handleDragStart}
+                    onDragEnd={handleDragEnd}
+                    onDragCancel={() => setDragging(null)}
+                >
+                    {/* Day Names Header - Sun, Mon, Tue, etc. */}
+                    <div className="grid grid-cols-7 border-b border-gray-200 dark:border-gray-800 text-center bg-gray-50 dark:bg-[#252525]">
+                        {WEEKDAYS.map((day) => (
+                            <div key={day} className="py-2 text-xs font-semibold text-gray-500 uppercase tracking-wide">
+                                {day}
                             </div>
+                        ))}
+                    </div>
 
-                            {/* List of pages for this day */}
-                            <div className="space-y-1 flex-1 overflow-y-auto custom-scrollbar">
-                                {dayPages.map(page => (
-                                    <div
-                                        key={page.id}
-                                        onClick={() => onOpenPage(page.id)}
-                                        className="text-xs bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 p-1 rounded cursor-pointer truncate hover:bg-blue-100 dark:hover:bg-blue-900/50 transition-colors"
-                                    >
-                                        {/* Show page icon and title */}
-                                        <span className="mr-1">{page.icon}</span>
-                                        {page.title || 'Untitled'}
-                                    </div>
-                                ))}
+                    {/* Calendar Grid - one row per week */}
+                    <div className="flex-1 overflow-auto bg-gray-100 dark:bg-gray-900 flex flex-col gap-px">
+                        {weeks.map(renderWeek)}
+                    </div>
+
+                    {/* Floating copy of the item while it's being dragged */}
+                    <DragOverlay>
+                        {dragging && (
+                            <div className="px-1.5 text-xs leading-5 h-5 rounded bg-blue-100 dark:bg-blue-900/60 text-blue-700 dark:text-blue-200 shadow-md truncate max-w-[160px]">
+                                <span className="mr-1">{dragging.icon}</span>
+                                {dragging.title || 'Untitled'}
                             </div>
-                        </div>
-                    );
-                })}
-            </div>
+                        )}
+                    </DragOverlay>
+                </DndContext>
+            )}
         </div>
     );
-};
\ No newline at end of file
+};
@@ -0,0 +1,267 @@
+import React, { useMemo, useState } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@radix-ui/react-popover';
+import { Plus, SlidersHorizontal } from 'lucide-react';
+import { Page } from '../../types/workspace';
+import { ViewDefinition } from '../../types/view';
+import { DatabaseProperty } from '../../types/database';
+import { WorkspaceMember } from '../../types/permission';
+import { queryPages } from '../../lib/database/views';
+import { computeRowProperties } from '../../lib/database/dependencies';
+import { GALLERY_CARD_WIDTHS, GalleryCardSize, getCardImage } from '../../lib/database/gallery';
+import { PropertyValuePreview } from '../database/PropertyValuePreview';
+
+/**
+ * Props for the GalleryView component
+ */
+interface GalleryViewProps {
+    pages: Page[]; // All pages to show as cards
+    view: ViewDefinition; // View configuration - card size, cover, card properties, filter and sort
+    schema?: Record<string, DatabaseProperty>; // Properties of the database page
+    allPages?: Page[]; // Pages that relations and rollups may point to
+    currentUserId?: string; // Who "me" is in the view's filters
+    members?: WorkspaceMember[]; // Workspace members, for person properties on cards
+    onOpenPage: (pageId: string) => void; // Callback when user clicks a card
+    onCreatePage?: (title: string, propertyValues?: Record<string, any>) => Promise<void>;
+    onUpdateView?: (view: ViewDefinition) => void; // Saves the card settings
+}
+
+const NO_PAGES: Page[] = [];
+
+// Height of the card image at each card size
+const IMAGE_HEIGHTS: Record<GalleryCardSize, number> = {
+    small: 100,
+    medium: 140,
+    large: 190,
+};
+
+/**
+ * A card: image, title and the chosen preview properties
+ */
+const GalleryCard: React.FC<{
+    page: Page;
+    size: GalleryCardSize;
+    showImage: boolean;
+    previewProperties: [string, DatabaseProperty][];
+    schema: Record<string, DatabaseProperty>;
+    allPages: Page[];
+    members: WorkspaceMember[];
+    onOpenPage: (pageId: string) => void;
+}> = ({ page, size, showImage, previewProperties, schema, allPages, members, onOpenPage }) => {
+    const image = showImage ? getCardImage(page) : null;
+    // Formulas and rollups are only computed when a card actually shows one
+    const needsComputed = previewProperties.some(([, p]) => p.type === 'formula' || p.type === 'rollup');
+    const computed = needsComputed ? computeRowProperties(page, schema, allPages) : {};
+
+    return (
+        <div
+            onClick={() => onOpenPage(page.id)}
+            className="flex flex-col bg-white dark:bg-[#252525] rounded-lg border border-gray-200 dark:border-[#333] shadow-sm hover:shadow-md transition-shadow cursor-pointer overflow-hidden"
+        >
+            {/* Cover or first image; an empty area keeps cards in a row the same height */}
+            {showImage && (
+                <div
+                    className="w-full bg-gray-50 dark:bg-[#1e1e1e] bg-cover bg-center border-b border-gray-100 dark:border-[#333]"
+                    style={{ height: IMAGE_HEIGHTS[size], backgroundImage: image ? `url(${image})` : undefined }}
+                />
+            )}
+
+            <div className="p-3">
+                {/* Page title with icon */}
+                <div className="flex items-center gap-2">
+                    <span className="text-lg">{page.icon || '📄'}</span>
+                    <span className="font-medium text-gray-900 dark:text-gray-100 line-clamp-1">
+                        {page.title || 'Untitled'}
+                    </span>
+                </div>
+
+                {/* Properties chosen for the card preview */}
+                {previewProperties.length > 0 && (
+                    <div className="mt-2 space-y-1 text-xs text-gray-500 dark:text-gray-400">
+                        {previewProperties.map(([key, property]) => {
+                            const value =
+                                property.type === 'formula' || property.type === 'rollup'
+                                    ? computed[key]?.value
+                                    : page.propertyValues?.[key];
+                            return (
+                                <div key={key} className="min-w-0">
+                                    <PropertyValuePreview property={property} value={value} members={members} />
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+/**
+ * GalleryView Component
+ *
+ * Shows database pages as a grid of cards, each topped by the page cover
+ * (or the first image in the page when it has no cover).
+ *
+ * Features:
+ * - Small, medium and large cards; the grid fits as many columns as the width allows
+ * - The image area can be turned off
+ * - Choose which properties are shown on the cards
+ * - Add a page from the last card slot
+ */
+export const GalleryView: React.FC<GalleryViewProps> = ({
+    pages,
+    view,
+    schema = {},
+    allPages = NO_PAGES,
+    currentUserId,
+    members = [],
+    onOpenPage,
+    onCreatePage,
+    onUpdateView,
+}) => {
+    const [isCreating, setIsCreating] = useState(false);
+    const [newTitle, setNewTitle] = useState('');
+
+    const size: GalleryCardSize = view.cardSize || 'medium';
+    const showImage = view.showCover !== false;
+
+    // Pages that pass the view's filter, in the view's sort order
+    const cards = useMemo(
+        () => queryPages(pages, view, { schema, allPages, currentUserId }),
+        [pages, view, schema, allPages, currentUserId]
+    );
+
+    const previewProperties = useMemo(
+        () =>
+            (view.properties || [])
+                .filter((key) => schema[key])
+                .map((key) => [key, schema[key]] as [string, DatabaseProperty]),
+        [view.properties, schema]
+    );
+
+    const updateView = (updates: Partial<ViewDefinition>) => onUpdateView?.({ ...view, ...updates });
+
+    const handleTogglePreview = (key: string) => {
+        const current = view.properties || [];
+        updateView({ properties: current.includes(key) ? current.filter((k) => k !== key) : [...current, key] });
+    };
+
+    const handleCreate = async () => {
+        const title = newTitle.trim();
+        setIsCreating(false);
+        setNewTitle('');
+        if (title && onCreatePage) await onCreatePage(title);
+    };
+
+    return (
+        <div className="flex flex-col h-full">
+            {/* Gallery settings: card size, image and card properties */}
+            <div className="flex items-center gap-2 mb-3 text-sm text-gray-500 dark:text-gray-400">
+                <span>Card size</span>
+                <select
+                    value={size}
+                    onChange={(e) => updateView({ cardSize: e.target.value as GalleryCardSize })}
+                    className="h-8 px-2 text-sm border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                >
+                    <option value="small">Small</option>
+                    <option value="medium">Medium</option>
+                    <option value="large">Large</option>
+                </select>
+
+                <label className="flex items-center gap-1.5 px-2 py-1 rounded-md hover:bg-gray-100 dark:hover:bg-gray-800 cursor-pointer">
+                    <input type="checkbox" checked={showImage} onChange={(e) => updateView({ showCover: e.target.checked })} />
+                    Show cover
+                </label>
+
+                <Popover>
+                    <PopoverTrigger asChild>
+                        <button className="flex items-center gap-1.5 px-2 py-1 rounded-md hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-900 dark:hover:text-gray-100">
+                            <SlidersHorizontal size={14} />
+                            Card properties{previewProperties.length > 0 && ` (${previewProperties.length})`}
+                        </button>
+                    </PopoverTrigger>
+                    <PopoverContent
+                        align="start"
+                        className="w-60 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-2 z-50 space-y-1"
+                    >
+                        {Object.entries(schema).map(([key, property]) => (
+                            <label
+                                key={key}
+                                className="flex items-center gap-2 px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-sm text-gray-700 dark:text-gray-200"
+                            >
+                                <input
+                                    type="checkbox"
+                                    checked={(view.properties || []).includes(key)}
+                                    onChange={() => handleTogglePreview(key)}
+                                />
+                                {property.name || key}
+                            </label>
+                        ))}
+                        {Object.keys(schema).length === 0 && (
+                            <div className="px-2 py-1 text-sm text-gray-500">This database has no properties yet.</div>
+                        )}
+                    </PopoverContent>
+                </Popover>
+            </div>
+
+            {cards.length === 0 && !onCreatePage ? (
+                <div className="py-10 text-center text-sm text-gray-500 dark:text-gray-400">
+                    {pages.length === 0 ? 'No items found.' : 'No items match the current filter.'}
+                </div>
+            ) : (
+                <div
+                    className="grid gap-4"
+                    style={{ gridTemplateColumns: `repeat(auto-fill, minmax(${GALLERY_CARD_WIDTHS[size]}px, 1fr))` }}
+                >
+                    {cards.map((page) => (
+                        <GalleryCard
+                            key={page.id}
+                            page={page}
+                            size={size}
+                            showImage={showImage}
+                            previewProperties={previewProperties}
+                            schema={schema}
+                            allPages={allPages}
+                            members={members}
+                            onOpenPage={onOpenPage}
+                        />
+                    ))}
+
+                    {/* New card */}
+                    {onCreatePage && (
+                        <div
+                            className="flex items-center justify-center rounded-lg border border-dashed border-gray-300 dark:border-gray-700 text-gray-400"
+                            style={{ minHeight: showImage ? IMAGE_HEIGHTS[size] + 56 : 56 }}
+                        >
+                            {isCreating ? (
+                                <input
+                                    autoFocus
+                                    type="text"
+                                    placeholder="Type a name..."
+                                    value={newTitle}
+                                    onChange={(e) => setNewTitle(e.target.value)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter') handleCreate();
+                                        if (e.key === 'Escape') {
+                                            setIsCreating(false);
+                                            setNewTitle('');
+                                        }
+                                    }}
+                                    onBlur={handleCreate}
+                                    className="w-[85%] px-2 py-1 text-sm rounded border border-blue-500 bg-white dark:bg-[#252525] text-gray-900 dark:text-gray-100 outline-none"
+                                />
+                            ) : (
+                                <button
+                                    onClick={() => setIsCreating(true)}
+                                    className="flex items-center gap-2 text-sm hover:text-gray-600 dark:hover:text-gray-300"
+                                >
+                                    <Plus size={14} />
+                                    New
+                                </button>
+                            )}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,199 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { ArrowUpRight } from 'lucide-react';
+import { Page } from '../../types/workspace';
+import { DatabaseProperty, ValueProperty } from '../../types/database';
+import { WorkspaceMember } from '../../types/permission';
+import { isValueProperty, parseDateValue } from '../../lib/database/properties';
+import { TITLE_COLUMN, getCellValue } from '../../lib/database/table';
+import { PropertyValueEditor } from '../database/ValueProperty';
+import { PropertyValuePreview } from '../database/PropertyValuePreview';
+
+/**
+ * Props for the TableCell component
+ */
+interface TableCellProps {
+    page: Page; // The row
+    columnKey: string; // Property key, or a built-in "page." field
+    schema: Record<string, DatabaseProperty>;
+    allPages: Page[];
+    members: WorkspaceMember[];
+    isActive: boolean; // Selected with the mouse or keyboard
+    isEditing: boolean;
+    onSelect: () => void;
+    onStartEdit: () => void;
+    onStopEdit: () => void;
+    onChangeTitle: (title: string) => void;
+    onChangeValue: (value: any, updatedProperty?: ValueProperty) => void;
+    onOpenPage: (pageId: string) => void;
+}
+
+// Property types whose editor closes as soon as a value is picked
+const SINGLE_VALUE_TYPES = ['text', 'number', 'url', 'select', 'status'];
+
+// Whether a cell can be edited in place
+export const isEditableColumn = (columnKey: string, schema: Record<string, DatabaseProperty>) =>
+    columnKey === TITLE_COLUMN || (!!schema[columnKey] && isValueProperty(schema[columnKey]));
+
+/**
+ * Read-only rendering of built-in page fields (created/edited dates, tags)
+ */
+const PageFieldValue: React.FC<{ value: any }> = ({ value }) => {
+    if (Array.isArray(value)) {
+        return (
+            <div className="flex flex-wrap gap-1">
+                {value.map((tag) => (
+                    <span
+                        key={tag}
+                        className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200"
+                    >
+                        {tag}
+                    </span>
+                ))}
+            </div>
+        );
+    }
+    const date = parseDateValue(value)?.start;
+    return <span className="text-gray-500 dark:text-gray-400">{date ? format(date, 'MMM d, yyyy') : ''}</span>;
+};
+
+/**
+ * TableCell Component
+ *
+ * One cell of the table view. Shows the value for its column and, when editing,
+ * the matching editor: a text input for the page name, or the typed property
+ * editor (validated the same way as the page's property panel) in a panel below
+ * the cell. Formulas, rollups and relations are read-only here.
+ */
+export const TableCell: React.FC<TableCellProps> = ({
+    page,
+    columnKey,
+    schema,
+    allPages,
+    members,
+    isActive,
+    isEditing,
+    onSelect,
+    onStartEdit,
+    onStopEdit,
+    onChangeTitle,
+    onChangeValue,
+    onOpenPage,
+}) => {
+    const property = schema[columnKey];
+    const value = getCellValue(page, columnKey, schema, allPages);
+    const panelRef = useRef<HTMLDivElement>(null);
+    const [titleDraft, setTitleDraft] = useState(page.title);
+
+    useEffect(() => {
+        if (isEditing) setTitleDraft(page.title);
+    }, [isEditing, page.title]);
+
+    // Clicking anywhere outside the editor finishes editing
+    useEffect(() => {
+        if (!isEditing || columnKey === TITLE_COLUMN) return;
+        const handleMouseDown = (e: MouseEvent) => {
+            if (panelRef.current && !panelRef.current.contains(e.target as Node)) onStopEdit();
+        };
+        document.addEventListener('mousedown', handleMouseDown);
+        return () => document.removeEventListener('mousedown', handleMouseDown);
+    }, [isEditing, columnKey, onStopEdit]);
+
+    const commitTitle = () => {
+        if (titleDraft.trim() !== page.title) onChangeTitle(titleDraft.trim());
+        onStopEdit();
+    };
+
+    let content: React.ReactNode;
+
+    if (columnKey === TITLE_COLUMN) {
+        content = isEditing ? (
+            <input
+                autoFocus
+                type="text"
+                value={titleDraft}
+                onChange={(e) => setTitleDraft(e.target.value)}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitTitle();
+                    if (e.key === 'Escape') onStopEdit();
+                    // Keep arrow keys inside the input instead of moving between cells
+                    e.stopPropagation();
+                }}
+                onBlur={commitTitle}
+                className="w-full bg-transparent outline-none font-medium text-gray-900 dark:text-gray-100"
+            />
+        ) : (
+            <div className="group/title flex items-center gap-2 font-medium text-gray-900 dark:text-gray-100">
+                {/* Page icon (emoji or default document icon) */}
+                <span className="text-lg">{page.icon || '📄'}</span>
+                {/* Page title, falls back to "Untitled" if empty */}
+                <span className="truncate flex-1">{page.title || 'Untitled'}</span>
+                <button
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        onOpenPage(page.id);
+                    }}
+                    className="opacity-0 group-hover/title:opacity-100 flex items-center gap-0.5 px-1.5 py-0.5 text-xs rounded border border-gray-200 dark:border-gray-700 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800"
+                >
+                    <ArrowUpRight size={12} />
+                    Open
+                </button>
+            </div>
+        );
+    } else if (property?.type === 'checkbox') {
+        // Checkboxes toggle straight from the cell
+        content = (
+            <input
+                type="checkbox"
+                checked={!!value}
+                onChange={(e) => onChangeValue(e.target.checked)}
+                onClick={(e) => e.stopPropagation()}
+                className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+        );
+    } else if (!property) {
+        content = <PageFieldValue value={value} />;
+    } else if (property.type === 'relation') {
+        content = <span className="truncate text-gray-700 dark:text-gray-300">{(value as string[]).join(', ')}</span>;
+    } else {
+        content = <PropertyValuePreview property={property} value={value} members={members} />;
+    }
+
+    const showPanel = isEditing && property && isValueProperty(property) && property.type !== 'checkbox';
+
+    return (
+        <td
+            onClick={onSelect}
+            onDoubleClick={onStartEdit}
+            className={`relative py-1.5 px-3 border-r border-gray-100 dark:border-gray-800 overflow-hidden whitespace-nowrap text-gray-700 dark:text-gray-300 ${
+                isActive ? 'outline outline-2 -outline-offset-2 outline-blue-500' : ''
+            }`}
+        >
+            <div className="min-h-[24px] flex items-center overflow-hidden">{content}</div>
+
+            {/* Editor panel below the cell */}
+            {showPanel && (
+                <div
+                    ref={panelRef}
+                    onClick={(e) => e.stopPropagation()}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Escape') onStopEdit();
+                        // Typing in the editor shouldn't move the selected cell
+                        e.stopPropagation();
+                    }}
+                    className="fixed z-30 mt-1 min-w-[260px] p-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg whitespace-normal"
+                >
+                    <PropertyValueEditor
+                        property={property as ValueProperty}
+                        value={page.propertyValues?.[columnKey]}
+                        members={members}
+                        onChange={(next, updatedProperty) => {
+                            onChangeValue(next, updatedProperty);
+                            if (SINGLE_VALUE_TYPES.includes(property.type)) onStopEdit();
+                        }}
+                    />
+                </div>
+            )}
+        </td>
+    );
+};
@@ -1,124 +1,460 @@
-import React from 'react';
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { DndContext, DragEndEvent, PointerSensor, closestCenter, useSensor, useSensors } from '@dnd-kit/core';
+import { SortableContext, arrayMove, horizontalListSortingStrategy, useSortable } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { Popover, PopoverContent, PopoverTrigger } from '@radix-ui/react-popover';
+import { Plus, Settings2 } from 'lucide-react';
 import { Page } from '../../types/workspace';
 import { ViewDefinition } from '../../types/view';
-import { Calendar, Tag } from 'lucide-react';
-import { format } from 'date-fns';
+import { DatabaseProperty, RollupAggregation, ValueProperty } from '../../types/database';
+import { WorkspaceMember } from '../../types/permission';
+import { queryPages } from '../../lib/database/views';
+import { isValueProperty, validatePropertyValue } from '../../lib/database/properties';
+import {
+    AGGREGATION_LABELS,
+    DEFAULT_COLUMN_WIDTH,
+    MIN_COLUMN_WIDTH,
+    OPTIONAL_PAGE_COLUMNS,
+    TITLE_COLUMN,
+    TITLE_COLUMN_WIDTH,
+    aggregateColumn,
+    formatAggregation,
+    getColumnAggregations,
+    getColumnName,
+    getTableColumns,
+} from '../../lib/database/table';
+import { TableCell, isEditableColumn } from './TableCell';
 
 /**
  * Props for the TableView component
  */
 interface TableViewProps {
     pages: Page[]; // All the pages to display in the table
-    view: ViewDefinition; // View configuration (not currently used but kept for future features like sorting/filtering)
-    onOpenPage: (pageId: string) => void; // Callback when user clicks a row to open that page
+    view: ViewDefinition; // View configuration - columns, widths, footer calculations, filter and sort
+    schema?: Record<string, DatabaseProperty>; // Properties of the database page; one column each
+    allPages?: Page[]; // Pages that relations and rollups may point to
+    currentUserId?: string; // Who "me" is in the view's filters
+    members?: WorkspaceMember[]; // Workspace members, for person properties
+    onOpenPage: (pageId: string) => void; // Callback when user opens a row's page
+    onCreatePage?: (title: string, propertyValues?: Record<string, any>) => Promise<void>; // Adds a row
+    onUpdateView?: (view: ViewDefinition) => void; // Saves column order, visibility, widths and calculations
+    onUpdatePageTitle?: (pageId: string, title: string) => void;
+    onUpdatePageValue?: (pageId: string, propertyName: string, value: any) => void;
+    onUpdateProperty?: (propertyName: string, property: DatabaseProperty) => Promise<void>; // e.g. a new select option
+}
+
+const NO_PAGES: Page[] = [];
+
+interface CellPosition {
+    row: number;
+    column: number;
 }
 
+/**
+ * Header cell: drag to reorder (except Name), drag the right edge to resize
+ */
+const HeaderCell: React.FC<{
+    columnKey: string;
+    name: string;
+    width: number;
+    onResizeStart: (e: React.MouseEvent) => void;
+}> = ({ columnKey, name, width, onResizeStart }) => {
+    const isTitle = columnKey === TITLE_COLUMN;
+    const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+        id: columnKey,
+        disabled: isTitle,
+    });
+
+    return (
+        <th
+            ref={setNodeRef}
+            style={{ width, transform: CSS.Translate.toString(transform), transition }}
+            className={`relative py-2 px-3 font-medium text-left border-r border-gray-100 dark:border-gray-800 select-none ${
+                isDragging ? 'z-10 bg-gray-100 dark:bg-gray-800' : ''
+            } ${isTitle ? '' : 'cursor-grab'}`}
+            {...attributes}
+            {...listeners}
+        >
+            <span className="block truncate">{name}</span>
+            {/* Resize handle; stops the pointer event so it doesn't start a column drag */}
+            <div
+                onMouseDown={onResizeStart}
+                onPointerDown={(e) => e.stopPropagation()}
+                className="absolute top-0 right-0 h-full w-1.5 cursor-col-resize hover:bg-blue-400/60"
+            />
+        </th>
+    );
+};
+
 /**
  * TableView Component
- * 
- * Displays pages in a traditional table format, similar to a spreadsheet or database view.
- * This is one of three view modes (Table, Board, Calendar) for organizing pages.
- * 
- * The table shows:
- * - Page name (with icon)
- * - Tags
- * - Creation date
- * 
- * Users can click any row to open that page in the editor.
+ *
+ * Displays database rows as an editable spreadsheet, similar to Notion's table view.
+ *
+ * - One column per database property, following the view's column list for order
+ *   and visibility; columns can be reordered by dragging their header and resized
+ *   from their right edge
+ * - Cells edit in place: double-click, or select with the arrow keys/Tab and press Enter
+ * - Delete/Backspace clears the selected cell, Escape stops editing
+ * - A footer row shows a calculation per column (sum, average, percent empty, ...)
+ * - New rows are added from the last row
  */
-export const TableView: React.FC<TableViewProps> = ({ pages, onOpenPage }) => {
+export const TableView: React.FC<TableViewProps> = ({
+    pages,
+    view,
+    schema = {},
+    allPages = NO_PAGES,
+    currentUserId,
+    members = [],
+    onOpenPage,
+    onCreatePage,
+    onUpdateView,
+    onUpdatePageTitle,
+    onUpdatePageValue,
+    onUpdateProperty,
+}) => {
+    const [active, setActive] = useState<CellPosition | null>(null);
+    const [isEditing, setIsEditing] = useState(false);
+    const [isAddingRow, setIsAddingRow] = useState(false);
+    const [newRowTitle, setNewRowTitle] = useState('');
+    // Widths while a column is being resized, saved to the view when the mouse is released
+    const [draftWidths, setDraftWidths] = useState<Record<string, number> | null>(null);
+    const tableRef = useRef<HTMLDivElement>(null);
+
+    const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 5 } }));
+
+    // Only the pages that pass the view's filter, in the view's sort order
+    const rows = useMemo(
+        () => queryPages(pages, view, { schema, allPages, currentUserId }),
+        [pages, view, schema, allPages, currentUserId]
+    );
+    const propertyColumns = getTableColumns(view, schema);
+    const columns = [TITLE_COLUMN, ...propertyColumns];
+
+    const widths = draftWidths || view.columnWidths || {};
+    const widthOf = (key: string) => widths[key] || (key === TITLE_COLUMN ? TITLE_COLUMN_WIDTH : DEFAULT_COLUMN_WIDTH);
+    const totalWidth = columns.reduce((sum, key) => sum + widthOf(key), 0) + 40;
+
+    const updateView = (updates: Partial<ViewDefinition>) => onUpdateView?.({ ...view, ...updates });
+
+    const stopEditing = useCallback(() => {
+        setIsEditing(false);
+        // Hand the keyboard back to the table for navigation
+        tableRef.current?.focus();
+    }, []);
+
+    /**
+     * Write a cell value; new select options are saved to the schema first
+     */
+    const handleChangeValue = async (page: Page, columnKey: string, value: any, updatedProperty?: ValueProperty) => {
+        if (updatedProperty) await onUpdateProperty?.(columnKey, updatedProperty);
+        onUpdatePageValue?.(page.id, columnKey, value);
+    };
+
+    const startEditing = (position: CellPosition) => {
+        const columnKey = columns[position.column];
+        const page = rows[position.row];
+        if (!page || !isEditableColumn(columnKey, schema)) return;
+
+        // Checkboxes have no editor; Enter toggles them
+        if (schema[columnKey]?.type === 'checkbox') {
+            handleChangeValue(page, columnKey, !page.propertyValues?.[columnKey]);
+            return;
+        }
+        setActive(position);
+        setIsEditing(true);
+    };
+
+    /**
+     * Keyboard navigation between cells
+     */
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (isEditing || !active) return;
+
+        const move = (row: number, column: number) => {
+            e.preventDefault();
+            setActive({
+                row: Math.max(0, Math.min(rows.length - 1, row)),
+                column: Math.max(0, Math.min(columns.length - 1, column)),
+            });
+        };
+
+        switch (e.key) {
+            case 'ArrowUp':
+                return move(active.row - 1, active.column);
+            case 'ArrowDown':
+                return move(active.row + 1, active.column);
+            case 'ArrowLeft':
+                return move(active.row, active.column - 1);
+            case 'ArrowRight':
+                return move(active.row, active.column + 1);
+            case 'Tab':
+                return move(active.row, active.column + (e.shiftKey ? -1 : 1));
+            case 'Enter':
+            case 'F2':
+                e.preventDefault();
+                return startEditing(active);
+            case 'Delete':
+            case 'Backspace': {
+                // Clear the cell, storing whatever "empty" means for its type
+                const columnKey = columns[active.column];
+                const property = schema[columnKey];
+                const page = rows[active.row];
+                if (page && property && isValueProperty(property)) {
+                    e.preventDefault();
+                    handleChangeValue(page, columnKey, validatePropertyValue(property, null).value);
+                }
+                return;
+            }
+            case 'Escape':
+                return setActive(null);
+        }
+    };
+
+    /**
+     * Column resizing: follow the mouse until it's released, then save
+     */
+    const handleResizeStart = (columnKey: string, e: React.MouseEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        const startX = e.clientX;
+        const startWidth = widthOf(columnKey);
+        let latest = { ...(view.columnWidths || {}) };
+
+        const handleMouseMove = (event: MouseEvent) => {
+            latest = { ...latest, [columnKey]: Math.max(MIN_COLUMN_WIDTH, startWidth + event.clientX - startX) };
+            setDraftWidths(latest);
+        };
+        const handleMouseUp = () => {
+            document.removeEventListener('mousemove', handleMouseMove);
+            document.removeEventListener('mouseup', handleMouseUp);
+            setDraftWidths(null);
+            updateView({ columnWidths: latest });
+        };
+        document.addEventListener('mousemove', handleMouseMove);
+        document.addEventListener('mouseup', handleMouseUp);
+    };
+
+    const handleColumnDragEnd = ({ active: dragged, over }: DragEndEvent) => {
+        if (!over || dragged.id === over.id || over.id === TITLE_COLUMN) return;
+        const from = propertyColumns.indexOf(String(dragged.id));
+        const to = propertyColumns.indexOf(String(over.id));
+        if (from === -1 || to === -1) return;
+        updateView({ properties: arrayMove(propertyColumns, from, to) });
+        setActive(null);
+    };
+
+    const handleToggleColumn = (columnKey: string) => {
+        updateView({
+            properties: propertyColumns.includes(columnKey)
+                ? propertyColumns.filter((key) => key !== columnKey)
+                : [...propertyColumns, columnKey],
+        });
+        setActive(null);
+    };
+
+    const handleSetAggregation = (columnKey: string, aggregation: RollupAggregation | '') => {
+        const { [columnKey]: _previous, ...rest } = view.aggregations || {};
+        updateView({ aggregations: aggregation ? { ...rest, [columnKey]: aggregation } : rest });
+    };
+
+    const handleAddRow = async () => {
+        const title = newRowTitle.trim();
+        setIsAddingRow(false);
+        setNewRowTitle('');
+        if (title && onCreatePage) await onCreatePage(title);
+    };
+
     return (
         // Wrapper div with horizontal scroll for narrow screens
-        // This prevents the table from breaking the layout on mobile
-        <div className="w-full overflow-x-auto">
-            <table className="w-full border-collapse text-sm text-left">
+        // It's focusable so arrow keys move between cells
+        <div
+            ref={tableRef}
+            tabIndex={0}
+            onKeyDown={handleKeyDown}
+            className="w-full overflow-x-auto outline-none"
+        >
+            <table className="table-fixed border-collapse text-sm text-left" style={{ width: totalWidth }}>
+                <colgroup>
+                    {columns.map((key) => (
+                        <col key={key} style={{ width: widthOf(key) }} />
+                    ))}
+                    <col style={{ width: 40 }} />
+                </colgroup>
+
                 {/* Table Header */}
                 <thead>
-                    <tr className="border-b border-gray-200 dark:border-gray-800 text-gray-500 dark:text-gray-400">
-                        {/* Name column takes up half the table width */}
-                        <th className="py-2 px-4 font-medium w-1/2">Name</th>
-                        
-                        {/* Tags and Created columns each take a quarter */}
-                        <th className="py-2 px-4 font-medium w-1/4">Tags</th>
-                        <th className="py-2 px-4 font-medium w-1/4">Created</th>
-                    </tr>
+                    <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleColumnDragEnd}>
+                        <SortableContext items={columns} strategy={horizontalListSortingStrategy}>
+                            <tr className="border-b border-gray-200 dark:border-gray-800 text-gray-500 dark:text-gray-400">
+                                {columns.map((key) => (
+                                    <HeaderCell
+                                        key={key}
+                                        columnKey={key}
+                                        name={getColumnName(key, schema)}
+                                        width={widthOf(key)}
+                                        onResizeStart={(e) => handleResizeStart(key, e)}
+                                    />
+                                ))}
+
+                                {/* Show/hide columns */}
+                                <th className="py-2 px-2">
+                                    <Popover>
+                                        <PopoverTrigger asChild>
+                                            <button className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200" aria-label="Show or hide columns">
+                                                <Settings2 size={14} />
+                                            </button>
+                                        </PopoverTrigger>
+                                        <PopoverContent
+                                            align="end"
+                                            className="w-60 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-2 z-50 space-y-1 font-normal"
+                                        >
+                                            {[...Object.keys(schema), ...OPTIONAL_PAGE_COLUMNS].map((key) => (
+                                                <label
+                                                    key={key}
+                                                    className="flex items-center gap-2 px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-sm text-gray-700 dark:text-gray-200"
+                                                >
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={propertyColumns.includes(key)}
+                                                        onChange={() => handleToggleColumn(key)}
+                                                    />
+                                                    {getColumnName(key, schema)}
+                                                </label>
+                                            ))}
+                                        </PopoverContent>
+                                    </Popover>
+                                </th>
+                            </tr>
+                        </SortableContext>
+                    </DndContext>
                 </thead>
 
                 {/* Table Body */}
                 <tbody>
-                    {/* Loop through each page and create a row */}
-                    {pages.map((page) => (
+                    {rows.map((page, rowIndex) => (
                         <tr
                             key={page.id}
-                            onClick={() => onOpenPage(page.id)} // Open page when row is clicked
-                            className="border-b border-gray-100 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-800/50 cursor-pointer transition-colors"
+                            className="border-b border-gray-100 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-800/50 transition-colors"
                         >
-                            {/* Name Column */}
-                            <td className="py-2 px-4">
-                                <div className="flex items-center gap-2 font-medium text-gray-900 dark:text-gray-100">
-                                    {/* Page icon (emoji or default document icon) */}
-                                    <span className="text-lg">{page.icon || '📄'}</span>
-                                    
-                                    {/* Page title, falls back to "Untitled" if empty */}
-                                    {page.title || 'Untitled'}
-                                </div>
-                            </td>
-
-                            {/* Tags Column */}
-                            <td className="py-2 px-4">
-                                <div className="flex flex-wrap gap-1">
-                                    {/* Show all tags as colored badges */}
-                                    {page.tags && page.tags.length > 0 ? (
-                                        page.tags.map((tag) => (
-                                            <span
-                                                key={tag}
-                                                className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200"
-                                            >
-                                                {tag}
-                                            </span>
-                                        ))
-                                    ) : (
-                                        // Show dash if no tags exist
-                                        <span className="text-gray-400 text-xs">-</span>
-                                    )}
-                                </div>
-                            </td>
-
-                            {/* Created Date Column */}
-                            <td className="py-2 px-4 text-gray-500 dark:text-gray-400">
-                                <div className="flex items-center gap-1.5">
-                                    {/* Calendar icon to indicate it's a date */}
-                                    <Calendar size={14} />
-                                    
-                                    {/* Format the date nicely (e.g., "Jan 15, 2024") */}
-                                    {/* Firebase timestamps have a toDate() method, regular Date objects don't */}
-                                    {page.createdAt ? (
-                                        format(
-                                            (page.createdAt as any)?.toDate 
-                                                ? (page.createdAt as any).toDate() 
-                                                : new Date(page.createdAt), 
-                                            'MMM d, yyyy'
-                                        )
-                                    ) : (
-                                        // Show dash if creation date is missing
-                                        '-'
-                                    )}
-                                </div>
-                            </td>
+                            {columns.map((key, columnIndex) => {
+                                const isActive = active?.row === rowIndex && active?.column === columnIndex;
+                                return (
+                                    <TableCell
+                                        key={key}
+                                        page={page}
+                                        columnKey={key}
+                                        schema={schema}
+                                        allPages={allPages}
+                                        members={members}
+                                        isActive={isActive}
+                                        isEditing={isActive && isEditing}
+                                        onSelect={() => {
+                                            if (isActive && !isEditing) startEditing({ row: rowIndex, column: columnIndex });
+                                            else if (!isActive) {
+                                                setActive({ row: rowIndex, column: columnIndex });
+                                                setIsEditing(false);
+                                            }
+                                        }}
+                                        onStartEdit={() => startEditing({ row: rowIndex, column: columnIndex })}
+                                        onStopEdit={stopEditing}
+                                        onChangeTitle={(title) => onUpdatePageTitle?.(page.id, title)}
+                                        onChangeValue={(value, updatedProperty) => handleChangeValue(page, key, value, updatedProperty)}
+                                        onOpenPage={onOpenPage}
+                                    />
+                                );
+                            })}
+                            <td />
                         </tr>
                     ))}
 
                     {/* Empty State */}
                     {/* Show this row when there are no pages to display */}
-                    {pages.length === 0 && (
+                    {rows.length === 0 && (
                         <tr>
-                            <td colSpan={3} className="py-8 text-center text-gray-500 dark:text-gray-400">
-                                No items found. Create a new page to get started.
+                            <td colSpan={columns.length + 1} className="py-8 text-center text-gray-500 dark:text-gray-400">
+                                {pages.length === 0
+                                    ? 'No items found. Create a new page to get started.'
+                                    : 'No items match the current filter.'}
+                            </td>
+                        </tr>
+                    )}
+
+                    {/* New row */}
+                    {onCreatePage && (
+                        <tr className="border-b border-gray-100 dark:border-gray-800">
+                            <td colSpan={columns.length + 1} className="py-1.5 px-3">
+                                {isAddingRow ? (
+                                    <input
+                                        autoFocus
+                                        type="text"
+                                        placeholder="Type a name..."
+                                        value={newRowTitle}
+                                        onChange={(e) => setNewRowTitle(e.target.value)}
+                                        onKeyDown={(e) => {
+                                            e.stopPropagation();
+                                            if (e.key === 'Enter') handleAddRow();
+                                            if (e.key === 'Escape') {
+                                                setIsAddingRow(false);
+                                                setNewRowTitle('');
+                                            }
+                                        }}
+                                        onBlur={handleAddRow}
+                                        className="w-full bg-transparent outline-none text-sm text-gray-900 dark:text-gray-100 placeholder-gray-400"
+                                    />
+                                ) : (
+                                    <button
+                                        onClick={() => setIsAddingRow(true)}
+                                        className="flex items-center gap-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 text-sm"
+                                    >
+                                        <Plus size={14} />
+                                        New
+                                    </button>
+                                )}
                             </td>
                         </tr>
                     )}
                 </tbody>
+
+                {/* Footer calculations */}
+                <tfoot>
+                    <tr className="text-xs text-gray-500 dark:text-gray-400">
+                        {columns.map((key) => {
+                            const aggregation = view.aggregations?.[key];
+                            const result = aggregation
+                                ? formatAggregation(aggregateColumn(rows, key, aggregation, schema, allPages), aggregation, schema[key])
+                                : '';
+                            return (
+                                <td key={key} className="relative py-2 px-3 text-right hover:bg-gray-50 dark:hover:bg-gray-800/50">
+                                    {aggregation ? (
+                                        <span className="truncate">
+                                            <span className="text-gray-400 mr-1">{AGGREGATION_LABELS[aggregation]}</span>
+                                            <span className="text-gray-700 dark:text-gray-200 font-medium">{result}</span>
+                                        </span>
+                                    ) : (
+                                        <span className="opacity-0 hover:opacity-100">Calculate</span>
+                                    )}
+                                    {/* Invisible select over the cell picks the calculation */}
+                                    <select
+                                        value={aggregation || ''}
+                                        onChange={(e) => handleSetAggregation(key, e.target.value as RollupAggregation | '')}
+                                        className="absolute inset-0 opacity-0 cursor-pointer"
+                                        aria-label={`Calculate ${getColumnName(key, schema)}`}
+                                    >
+                                        <option value="">None</option>
+                                        {getColumnAggregations(key, schema).map((option) => (
+                                            <option key={option} value={option}>
+                                                {AGGREGATION_LABELS[option]}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </td>
+                            );
+                        })}
+                        <td />
+                    </tr>
+                </tfoot>
             </table>
         </div>
     );
-};
\ No newline at end of file
+};
@@ -0,0 +1,408 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { differenceInCalendarDays, isBefore, startOfDay } from 'date-fns';
+import { Plus } from 'lucide-react';
+import { Page } from '../../types/workspace';
+import { ViewDefinition } from '../../types/view';
+import { DatabaseProperty, DateProperty } from '../../types/database';
+import { queryPages } from '../../lib/database/views';
+import { CREATED_DATE_KEY, dateValueForDay, getCalendarDateKey } from '../../lib/database/calendar';
+import {
+    TIMELINE_DAY_WIDTH,
+    TimelineZoom,
+    getBarPosition,
+    getDependencyKey,
+    getTimelineDependencies,
+    getTimelineEndKey,
+    getTimelineHeader,
+    getTimelineItems,
+    getTimelineRange,
+    shiftTimelineItem,
+} from '../../lib/database/timeline';
+
+/**
+ * Props for the TimelineView component
+ */
+interface TimelineViewProps {
+    pages: Page[]; // All pages to place on the timeline
+    view: ViewDefinition; // View configuration - start/end properties, zoom, dependencies, filter and sort
+    schema?: Record<string, DatabaseProperty>; // Properties of the database page
+    allPages?: Page[]; // Pages that relations and rollups may point to
+    currentUserId?: string; // Who "me" is in the view's filters
+    onOpenPage: (pageId: string) => void; // Callback when user clicks on a bar
+    onCreatePage?: (title: string, propertyValues?: Record<string, any>) => Promise<void>; // Creates a page starting today
+    onUpdateView?: (view: ViewDefinition) => void; // Saves the chosen properties and zoom
+    onUpdatePageValues?: (pageId: string, values: Record<string, any>) => void; // Writes the dates of a dragged bar
+}
+
+const ZOOMS: { value: TimelineZoom; label: string }[] = [
+    { value: 'day', label: 'Day' },
+    { value: 'week', label: 'Week' },
+    { value: 'month', label: 'Month' },
+    { value: 'quarter', label: 'Quarter' },
+];
+
+// Height of one page row, and of each of the two header rows
+const ROW_HEIGHT = 36;
+const HEADER_ROW_HEIGHT = 28;
+const TITLE_COLUMN_WIDTH = 220;
+
+// Dependency arrows turn red when a page starts before what it waits on has ended
+const ARROW_COLORS = { default: '#9ca3af', conflict: '#ef4444' };
+
+const SELECT_CLASS =
+    'h-8 px-2 text-sm border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100';
+
+/**
+ * TimelineView Component
+ *
+ * Gantt-style view: one row per page with a bar from its start date to its end date.
+ *
+ * Features:
+ * - Start and end can be two date properties, or the range of a single one
+ * - Day, week, month and quarter zoom levels
+ * - Arrows from each page to the pages that wait on it, taken from a relation property
+ *   (drawn red when a page is scheduled to start before what it waits on has ended)
+ * - Drag a bar sideways to move its dates; a plain click opens the page
+ * - Pages without a start date are listed below the chart
+ */
+export const TimelineView: React.FC<TimelineViewProps> = ({
+    pages,
+    view,
+    schema = {},
+    allPages,
+    currentUserId,
+    onOpenPage,
+    onCreatePage,
+    onUpdateView,
+    onUpdatePageValues,
+}) => {
+    const [zoom, setZoom] = useState<TimelineZoom>(view.timelineZoom || 'week');
+    // Bar being dragged and how far it has moved, in pixels
+    const [drag, setDrag] = useState<{ pageId: string; dx: number } | null>(null);
+    const [isCreating, setIsCreating] = useState(false);
+    const [newTitle, setNewTitle] = useState('');
+    const scrollRef = useRef<HTMLDivElement>(null);
+
+    const startKey = getCalendarDateKey(view, schema);
+    const startProperty = startKey === CREATED_DATE_KEY ? null : (schema[startKey] as DateProperty);
+    const endKey = getTimelineEndKey(view, schema);
+    const dependencyKey = getDependencyKey(view, schema);
+    const dateProperties = Object.entries(schema).filter(([, property]) => property.type === 'date');
+    const relationProperties = Object.entries(schema).filter(([, property]) => property.type === 'relation');
+
+    // Pages that pass the view's filter, in the view's sort order
+    const visible = useMemo(
+        () => queryPages(pages, view, { schema, allPages, currentUserId }),
+        [pages, view, schema, allPages, currentUserId]
+    );
+    const items = useMemo(() => getTimelineItems(visible, startKey, endKey), [visible, startKey, endKey]);
+    const undated = visible.filter((page) => !items.some((item) => item.page.id === page.id));
+
+    const range = useMemo(() => getTimelineRange(items, zoom), [items, zoom]);
+    const header = useMemo(() => getTimelineHeader(range, zoom), [range, zoom]);
+    const dependencies = dependencyKey ? getTimelineDependencies(items, dependencyKey) : [];
+
+    const dayWidth = TIMELINE_DAY_WIDTH[zoom];
+    const chartWidth = range.days * dayWidth;
+    const todayLeft = differenceInCalendarDays(startOfDay(new Date()), range.start) * dayWidth;
+    const canMove = !!startProperty && !!onUpdatePageValues;
+
+    // Start scrolled to today, with a little of the past showing
+    useEffect(() => {
+        if (scrollRef.current) scrollRef.current.scrollLeft = Math.max(0, todayLeft - 120);
+        // Only when the zoom changes; later renders keep the user's scroll position
+    }, [zoom]);
+
+    const updateView = (updates: Partial<ViewDefinition>) => onUpdateView?.({ ...view, ...updates });
+
+    const handleChangeZoom = (next: TimelineZoom) => {
+        setZoom(next);
+        updateView({ timelineZoom: next });
+    };
+
+    /**
+     * Drag a bar: follow the pointer, then write the dates moved by whole days
+     */
+    const handlePointerDown = (page: Page, e: React.PointerEvent) => {
+        if (e.button !== 0) return;
+        const startX = e.clientX;
+        let dx = 0;
+
+        const handlePointerMove = (event: PointerEvent) => {
+            dx = event.clientX - startX;
+            if (canMove && Math.abs(dx) > 3) setDrag({ pageId: page.id, dx });
+        };
+        const handlePointerUp = () => {
+            window.removeEventListener('pointermove', handlePointerMove);
+            window.removeEventListener('pointerup', handlePointerUp);
+            setDrag(null);
+
+            // Barely moved: treat it as a click
+            if (Math.abs(dx) <= 3) {
+                onOpenPage(page.id);
+                return;
+            }
+            const days = Math.round(dx / dayWidth);
+            if (!days || !canMove) return;
+            onUpdatePageValues?.(page.id, shiftTimelineItem(page, startKey, endKey, days, schema));
+        };
+        window.addEventListener('pointermove', handlePointerMove);
+        window.addEventListener('pointerup', handlePointerUp);
+    };
+
+    const handleCreate = async () => {
+        const title = newTitle.trim();
+        setIsCreating(false);
+        setNewTitle('');
+        if (!title || !onCreatePage) return;
+        await onCreatePage(title, startProperty ? { [startKey]: dateValueForDay(new Date(), startProperty.includeTime) } : {});
+    };
+
+    // Row index and pixel position of each bar, for drawing the arrows between them
+    const positions = new Map(
+        items.map((item, index) => [item.page.id, { index, item, ...getBarPosition(item, range.start, zoom) }])
+    );
+
+    return (
+        <div className="flex flex-col h-full">
+            {/* Timeline settings */}
+            <div className="flex flex-wrap items-center gap-2 mb-3 text-sm text-gray-500 dark:text-gray-400">
+                <span>Start</span>
+                <select value={startKey} onChange={(e) => updateView({ dateProperty: e.target.value })} className={SELECT_CLASS}>
+                    {dateProperties.map(([key, property]) => (
+                        <option key={key} value={key}>
+                            {property.name || key}
+                        </option>
+                    ))}
+                    {dateProperties.length === 0 && <option value={CREATED_DATE_KEY}>Created</option>}
+                </select>
+
+                <span>End</span>
+                <select
+                    value={endKey || ''}
+                    onChange={(e) => updateView({ endDateProperty: e.target.value || undefined })}
+                    className={SELECT_CLASS}
+                >
+                    <option value="">Same as start</option>
+                    {dateProperties
+                        .filter(([key]) => key !== startKey)
+                        .map(([key, property]) => (
+                            <option key={key} value={key}>
+                                {property.name || key}
+                            </option>
+                        ))}
+                </select>
+
+                <span>Dependencies</span>
+                <select
+                    value={dependencyKey || ''}
+                    onChange={(e) => updateView({ dependencyProperty: e.target.value || undefined })}
+                    className={SELECT_CLASS}
+                >
+                    <option value="">None</option>
+                    {relationProperties.map(([key, property]) => (
+                        <option key={key} value={key}>
+                            {property.name || key}
+                        </option>
+                    ))}
+                </select>
+
+                {/* Zoom level */}
+                <div className="ml-auto flex rounded-md border border-gray-200 dark:border-gray-700 overflow-hidden">
+                    {ZOOMS.map(({ value, label }) => (
+                        <button
+                            key={value}
+                            onClick={() => handleChangeZoom(value)}
+                            className={`px-2.5 py-1 text-xs font-medium ${
+                                zoom === value
+                                    ? 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100'
+                                    : 'hover:bg-gray-50 dark:hover:bg-gray-800/50'
+                            }`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+                <button
+                    onClick={() => {
+                        if (scrollRef.current) scrollRef.current.scrollLeft = Math.max(0, todayLeft - 120);
+                    }}
+                    className="px-2.5 py-1 text-xs font-medium rounded-md border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800/50"
+                >
+                    Today
+                </button>
+            </div>
+
+            <div className="flex border border-gray-200 dark:border-gray-800 rounded-lg overflow-hidden">
+                {/* Page names, lined up with the bars */}
+                <div className="flex-shrink-0 border-r border-gray-200 dark:border-gray-800" style={{ width: TITLE_COLUMN_WIDTH }}>
+                    <div className="border-b border-gray-200 dark:border-gray-800" style={{ height: HEADER_ROW_HEIGHT * 2 }} />
+                    {items.map(({ page }) => (
+                        <button
+                            key={page.id}
+                            onClick={() => onOpenPage(page.id)}
+                            className="w-full flex items-center gap-2 px-3 text-sm text-left text-gray-900 dark:text-gray-100 hover:bg-gray-50 dark:hover:bg-gray-800/50 border-b border-gray-100 dark:border-gray-800"
+                            style={{ height: ROW_HEIGHT }}
+                        >
+                            <span>{page.icon || '📄'}</span>
+                            <span className="truncate">{page.title || 'Untitled'}</span>
+                        </button>
+                    ))}
+                </div>
+
+                {/* Chart */}
+                <div ref={scrollRef} className="flex-1 overflow-x-auto">
+                    <div className="relative" style={{ width: chartWidth }}>
+                        {/* Header: larger periods on top, zoom units below */}
+                        {[header.groups, header.units].map((row, rowIndex) => (
+                            <div
+                                key={rowIndex}
+                                className="relative border-b border-gray-200 dark:border-gray-800 text-xs text-gray-500 dark:text-gray-400"
+                                style={{ height: HEADER_ROW_HEIGHT }}
+                            >
+                                {row.map((unit) => (
+                                    <div
+                                        key={unit.key}
+                                        className="absolute top-0 h-full px-1.5 flex items-center border-l border-gray-100 dark:border-gray-800 truncate"
+                                        style={{ left: unit.left, width: unit.width }}
+                                    >
+                                        {unit.label}
+                                    </div>
+                                ))}
+                            </div>
+                        ))}
+
+                        {/* Rows with their bars */}
+                        <div className="relative" style={{ height: Math.max(items.length, 1) * ROW_HEIGHT }}>
+                            {/* Unit gridlines */}
+                            {header.units.map((unit) => (
+                                <div
+                                    key={unit.key}
+                                    className="absolute top-0 bottom-0 border-l border-gray-100 dark:border-gray-800"
+                                    style={{ left: unit.left }}
+                                />
+                            ))}
+
+                            {/* Today marker */}
+                            <div className="absolute top-0 bottom-0 w-px bg-red-500" style={{ left: todayLeft + dayWidth / 2 }} />
+
+                            {/* Dependency arrows */}
+                            <svg className="absolute inset-0 pointer-events-none" width={chartWidth} height={items.length * ROW_HEIGHT}>
+                                <defs>
+                                    {Object.entries(ARROW_COLORS).map(([name, color]) => (
+                                        <marker
+                                            key={name}
+                                            id={`timeline-arrow-${name}`}
+                                            viewBox="0 0 8 8"
+                                            refX="7"
+                                            refY="4"
+                                            markerWidth="6"
+                                            markerHeight="6"
+                                            orient="auto"
+                                        >
+                                            <path d="M0,0 L8,4 L0,8 z" fill={color} />
+                                        </marker>
+                                    ))}
+                                </defs>
+                                {dependencies.map(({ from, to }) => {
+                                    const a = positions.get(from)!;
+                                    const b = positions.get(to)!;
+                                    const x1 = a.left + a.width;
+                                    const y1 = a.index * ROW_HEIGHT + ROW_HEIGHT / 2;
+                                    const x2 = b.left;
+                                    const y2 = b.index * ROW_HEIGHT + ROW_HEIGHT / 2;
+                                    const color = isBefore(a.item.end, b.item.start) ? 'default' : 'conflict';
+                                    return (
+                                        <path
+                                            key={`${from}-${to}`}
+                                            d={`M ${x1} ${y1} C ${x1 + 24} ${y1}, ${x2 - 24} ${y2}, ${x2} ${y2}`}
+                                            fill="none"
+                                            strokeWidth={1.5}
+                                            stroke={ARROW_COLORS[color]}
+                                            markerEnd={`url(#timeline-arrow-${color})`}
+                                        />
+                                    );
+                                })}
+                            </svg>
+
+                            {items.map((item, index) => {
+                                const { left, width } = getBarPosition(item, range.start, zoom);
+                                const offset = drag?.pageId === item.page.id ? drag.dx : 0;
+                                return (
+                                    <div
+                                        key={item.page.id}
+                                        onPointerDown={(e) => handlePointerDown(item.page, e)}
+                                        title={item.page.title || 'Untitled'}
+                                        className={`absolute flex items-center px-2 text-xs rounded truncate select-none bg-blue-100 dark:bg-blue-900/50 text-blue-800 dark:text-blue-200 hover:bg-blue-200 dark:hover:bg-blue-900/70 border border-blue-200 dark:border-blue-800 ${
+                                            canMove ? 'cursor-grab' : 'cursor-pointer'
+                                        } ${offset ? 'opacity-80 shadow-md z-10' : ''}`}
+                                        style={{
+                                            left: left + offset,
+                                            width: Math.max(width, 8),
+                                            top: index * ROW_HEIGHT + 6,
+                                            height: ROW_HEIGHT - 12,
+                                        }}
+                                    >
+                                        {width > 60 && (item.page.title || 'Untitled')}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                </div>
+            </div>
+
+            {/* New page, starting today */}
+            {onCreatePage && (
+                <div className="mt-2">
+                    {isCreating ? (
+                        <input
+                            autoFocus
+                            type="text"
+                            placeholder="Type a name..."
+                            value={newTitle}
+                            onChange={(e) => setNewTitle(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') handleCreate();
+                                if (e.key === 'Escape') {
+                                    setIsCreating(false);
+                                    setNewTitle('');
+                                }
+                            }}
+                            onBlur={handleCreate}
+                            className="w-full px-3 py-1.5 text-sm bg-transparent outline-none border border-blue-500 rounded text-gray-900 dark:text-gray-100"
+                        />
+                    ) : (
+                        <button
+                            onClick={() => setIsCreating(true)}
+                            className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                        >
+                            <Plus size={14} />
+                            New
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {/* Pages without a start date can't be drawn; list them so they aren't lost */}
+            {undated.length > 0 && (
+                <div className="mt-4">
+                    <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+                        No {startProperty?.name || 'date'} ({undated.length})
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                        {undated.map((page) => (
+                            <button
+                                key={page.id}
+                                onClick={() => onOpenPage(page.id)}
+                                className="px-2 py-1 text-xs rounded bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+                            >
+                                {page.icon} {page.title || 'Untitled'}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
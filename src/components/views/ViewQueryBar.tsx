@@ -0,0 +1,521 @@
+import React from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@radix-ui/react-popover';
+import { ArrowDownUp, Filter, Plus, Trash2, X } from 'lucide-react';
+import { DatabaseProperty } from '../../types/database';
+import { WorkspaceMember } from '../../types/permission';
+import {
+    DynamicFilterValue,
+    FilterOperator,
+    RelativeDateToken,
+    ViewDefinition,
+    ViewFilter,
+    ViewFilterGroup,
+    ViewSort,
+} from '../../types/view';
+import {
+    FILTER_OPERATOR_LABELS,
+    RELATIVE_DATE_LABELS,
+    countFilterRules,
+    getFilterOperators,
+    getQueryableProperties,
+    getValueKind,
+    isDynamicValue,
+    isFilterGroup,
+    normalizeFilter,
+    normalizeSorts,
+    operatorNeedsValue,
+} from '../../lib/database/views';
+import { hasOptions } from '../../lib/database/properties';
+
+/**
+ * Props for the ViewQueryBar component
+ */
+interface ViewQueryBarProps {
+    view: ViewDefinition; // The view whose filter and sort are being edited
+    schema: Record<string, DatabaseProperty>; // Properties of the database page
+    members?: WorkspaceMember[]; // People to pick in person filters
+    onChange: (view: ViewDefinition) => void; // Called with the updated view so it can be saved
+}
+
+// Nested groups deeper than this get hard to read, so the editor stops offering them
+const MAX_GROUP_DEPTH = 2;
+
+const SELECT_CLASS =
+    'h-8 px-2 text-sm border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100';
+
+const isListOperator = (operator: FilterOperator) => operator === 'in' || operator === 'not_in';
+
+const ME: DynamicFilterValue = { token: 'me' };
+
+// Option value standing in for "Me" in person pickers
+const ME_OPTION = '@me';
+
+const toPersonOption = (value: any): string => (isDynamicValue(value) ? ME_OPTION : value ?? '');
+const fromPersonOption = (option: string): any => (option === ME_OPTION ? ME : option || null);
+
+/**
+ * Input for the value side of a filter rule, shaped by the property type
+ */
+const FilterValueInput: React.FC<{
+    rule: ViewFilter;
+    schema: Record<string, DatabaseProperty>;
+    members: WorkspaceMember[];
+    onChange: (value: any) => void;
+}> = ({ rule, schema, members, onChange }) => {
+    if (!operatorNeedsValue(rule.operator)) return null;
+
+    const property = schema[rule.property];
+    const kind = getValueKind(rule.property, schema);
+
+    // People: "Me" follows whoever is looking at the view
+    if (property?.type === 'person' || rule.property === 'page.createdBy') {
+        const people = [
+            { value: ME_OPTION, label: 'Me' },
+            ...members.map((member) => ({ value: member.userId, label: member.displayName || member.email })),
+        ];
+        if (isListOperator(rule.operator)) {
+            const selected: string[] = (Array.isArray(rule.value) ? rule.value : []).map(toPersonOption);
+            return (
+                <div className="flex flex-wrap gap-2 max-w-[220px]">
+                    {people.map((person) => (
+                        <label key={person.value} className="flex items-center gap-1 text-xs text-gray-700 dark:text-gray-300">
+                            <input
+                                type="checkbox"
+                                checked={selected.includes(person.value)}
+                                onChange={(e) =>
+                                    onChange(
+                                        (e.target.checked
+                                            ? [...selected, person.value]
+                                            : selected.filter((value) => value !== person.value)
+                                        ).map(fromPersonOption)
+                                    )
+                                }
+                            />
+                            {person.label}
+                        </label>
+                    ))}
+                </div>
+            );
+        }
+        return (
+            <select
+                value={toPersonOption(rule.value)}
+                onChange={(e) => onChange(fromPersonOption(e.target.value))}
+                className={SELECT_CLASS}
+            >
+                <option value="">Select a person</option>
+                {people.map((person) => (
+                    <option key={person.value} value={person.value}>
+                        {person.label}
+                    </option>
+                ))}
+            </select>
+        );
+    }
+
+    // Dates: an exact day, or a period relative to today such as "This week"
+    if (kind === 'date') {
+        const token = isDynamicValue(rule.value) ? rule.value.token : '';
+        return (
+            <div className="flex items-center gap-2">
+                <select
+                    value={token}
+                    onChange={(e) => onChange(e.target.value ? { token: e.target.value as RelativeDateToken } : null)}
+                    className={SELECT_CLASS}
+                >
+                    <option value="">Exact date</option>
+                    {Object.entries(RELATIVE_DATE_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>
+                            {label}
+                        </option>
+                    ))}
+                </select>
+                {!token && (
+                    <input
+                        type="date"
+                        value={rule.value ?? ''}
+                        onChange={(e) => onChange(e.target.value || null)}
+                        className={`${SELECT_CLASS} w-40`}
+                    />
+                )}
+            </div>
+        );
+    }
+
+    // Option properties pick from their options; "is any of" allows several
+    if (property && hasOptions(property)) {
+        if (isListOperator(rule.operator)) {
+            const selected: string[] = Array.isArray(rule.value) ? rule.value : [];
+            return (
+                <div className="flex flex-wrap gap-2 max-w-[220px]">
+                    {property.options.map((option) => (
+                        <label key={option.id} className="flex items-center gap-1 text-xs text-gray-700 dark:text-gray-300">
+                            <input
+                                type="checkbox"
+                                checked={selected.includes(option.name)}
+                                onChange={(e) =>
+                                    onChange(
+                                        e.target.checked
+                                            ? [...selected, option.name]
+                                            : selected.filter((name) => name !== option.name)
+                                    )
+                                }
+                            />
+                            {option.name}
+                        </label>
+                    ))}
+                </div>
+            );
+        }
+        return (
+            <select value={rule.value ?? ''} onChange={(e) => onChange(e.target.value || null)} className={SELECT_CLASS}>
+                <option value="">Select an option</option>
+                {property.options.map((option) => (
+                    <option key={option.id} value={option.name}>
+                        {option.name}
+                    </option>
+                ))}
+            </select>
+        );
+    }
+
+    if (kind === 'boolean') {
+        return (
+            <select
+                value={rule.value === true || rule.value === 'true' ? 'true' : 'false'}
+                onChange={(e) => onChange(e.target.value === 'true')}
+                className={SELECT_CLASS}
+            >
+                <option value="true">Checked</option>
+                <option value="false">Unchecked</option>
+            </select>
+        );
+    }
+
+    // Free text "is any of" lists are typed comma-separated
+    const textValue = Array.isArray(rule.value) ? rule.value.join(', ') : rule.value ?? '';
+
+    return (
+        <input
+            type={kind === 'number' ? 'number' : 'text'}
+            value={textValue}
+            placeholder={isListOperator(rule.operator) ? 'Values, comma separated' : 'Value'}
+            onChange={(e) => {
+                const input = e.target.value;
+                if (isListOperator(rule.operator)) {
+                    onChange(input.split(',').map((item) => item.trim()).filter(Boolean));
+                } else if (kind === 'number') {
+                    onChange(input === '' ? null : Number(input));
+                } else {
+                    onChange(input === '' ? null : input);
+                }
+            }}
+            className={`${SELECT_CLASS} w-40`}
+        />
+    );
+};
+
+/**
+ * One "property operator value" row
+ */
+const FilterRuleEditor: React.FC<{
+    rule: ViewFilter;
+    schema: Record<string, DatabaseProperty>;
+    members: WorkspaceMember[];
+    onChange: (rule: ViewFilter) => void;
+    onRemove: () => void;
+}> = ({ rule, schema, members, onChange, onRemove }) => {
+    const properties = getQueryableProperties(schema);
+    const operators = getFilterOperators(rule.property, schema);
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <select
+                value={rule.property}
+                onChange={(e) =>
+                    // A new property may not support the old operator or value, so start over
+                    onChange({
+                        property: e.target.value,
+                        operator: getFilterOperators(e.target.value, schema)[0],
+                        value: null,
+                    })
+                }
+                className={SELECT_CLASS}
+            >
+                {properties.map((property) => (
+                    <option key={property.key} value={property.key}>
+                        {property.name}
+                    </option>
+                ))}
+            </select>
+
+            <select
+                value={rule.operator}
+                onChange={(e) => {
+                    const operator = e.target.value as FilterOperator;
+                    // Switch the value between a single value and a list when needed
+                    let value = rule.value;
+                    if (isListOperator(operator) && !Array.isArray(value)) value = value === null ? [] : [value];
+                    if (!isListOperator(operator) && Array.isArray(value)) value = value[0] ?? null;
+                    onChange({ ...rule, operator, value });
+                }}
+                className={SELECT_CLASS}
+            >
+                {operators.map((operator) => (
+                    <option key={operator} value={operator}>
+                        {FILTER_OPERATOR_LABELS[operator]}
+                    </option>
+                ))}
+            </select>
+
+            <FilterValueInput rule={rule} schema={schema} members={members} onChange={(value) => onChange({ ...rule, value })} />
+
+            <button
+                onClick={onRemove}
+                className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                aria-label="Remove filter"
+            >
+                <X size={14} />
+            </button>
+        </div>
+    );
+};
+
+/**
+ * A group of rules joined by AND/OR; groups can contain groups
+ */
+const FilterGroupEditor: React.FC<{
+    group: ViewFilterGroup;
+    schema: Record<string, DatabaseProperty>;
+    members: WorkspaceMember[];
+    depth: number;
+    onChange: (group: ViewFilterGroup) => void;
+    onRemove?: () => void;
+}> = ({ group, schema, members, depth, onChange, onRemove }) => {
+    const firstProperty = getQueryableProperties(schema)[0].key;
+
+    const newRule = (): ViewFilter => ({
+        property: firstProperty,
+        operator: getFilterOperators(firstProperty, schema)[0],
+        value: null,
+    });
+
+    const updateItem = (index: number, item: ViewFilter | ViewFilterGroup) =>
+        onChange({ ...group, filters: group.filters.map((existing, i) => (i === index ? item : existing)) });
+
+    const removeItem = (index: number) =>
+        onChange({ ...group, filters: group.filters.filter((_, i) => i !== index) });
+
+    return (
+        <div className={depth > 0 ? 'p-2 rounded-md border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/40 space-y-2' : 'space-y-2'}>
+            {group.filters.map((item, index) => (
+                <div key={index} className="flex items-start gap-2">
+                    {/* The first row says "Where", later rows show the group's conjunction */}
+                    <div className="w-16 flex-shrink-0 pt-1 text-xs text-gray-500 dark:text-gray-400">
+                        {index === 0 ? (
+                            'Where'
+                        ) : index === 1 ? (
+                            <select
+                                value={group.conjunction}
+                                onChange={(e) => onChange({ ...group, conjunction: e.target.value as 'and' | 'or' })}
+                                className="text-xs bg-transparent border border-gray-200 dark:border-gray-700 rounded px-1"
+                            >
+                                <option value="and">And</option>
+                                <option value="or">Or</option>
+                            </select>
+                        ) : (
+                            group.conjunction === 'and' ? 'And' : 'Or'
+                        )}
+                    </div>
+
+                    <div className="flex-1">
+                        {isFilterGroup(item) ? (
+                            <FilterGroupEditor
+                                group={item}
+                                schema={schema}
+                                members={members}
+                                depth={depth + 1}
+                                onChange={(updated) => updateItem(index, updated)}
+                                onRemove={() => removeItem(index)}
+                            />
+                        ) : (
+                            <FilterRuleEditor
+                                rule={item}
+                                schema={schema}
+                                members={members}
+                                onChange={(updated) => updateItem(index, updated)}
+                                onRemove={() => removeItem(index)}
+                            />
+                        )}
+                    </div>
+                </div>
+            ))}
+
+            <div className="flex items-center gap-3">
+                <button
+                    onClick={() => onChange({ ...group, filters: [...group.filters, newRule()] })}
+                    className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-900 dark:hover:text-gray-100"
+                >
+                    <Plus size={14} />
+                    Add filter
+                </button>
+                {depth < MAX_GROUP_DEPTH - 1 && (
+                    <button
+                        onClick={() =>
+                            onChange({
+                                ...group,
+                                filters: [...group.filters, { conjunction: 'or', filters: [newRule()] }],
+                            })
+                        }
+                        className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-900 dark:hover:text-gray-100"
+                    >
+                        <Plus size={14} />
+                        Add filter group
+                    </button>
+                )}
+                {onRemove && (
+                    <button
+                        onClick={onRemove}
+                        className="flex items-center gap-1 text-sm text-gray-500 hover:text-red-500 ml-auto"
+                    >
+                        <Trash2 size={14} />
+                        Remove group
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+/**
+ * ViewQueryBar Component
+ *
+ * Filter and Sort buttons shown above a database view. Each opens an editor;
+ * every change is passed to onChange right away so the view updates live and
+ * the parent can save it into the page's `views` array.
+ */
+export const ViewQueryBar: React.FC<ViewQueryBarProps> = ({ view, schema, members = [], onChange }) => {
+    const filterGroup = normalizeFilter(view.filter);
+    const sorts = normalizeSorts(view.sort);
+    const properties = getQueryableProperties(schema);
+    const filterCount = countFilterRules(view.filter);
+
+    // Empty filters and sorts are left off the saved view entirely
+    const handleFilterChange = (group: ViewFilterGroup) => {
+        const { filter: _filter, ...rest } = view;
+        onChange(group.filters.length > 0 ? { ...rest, filter: group } : rest);
+    };
+
+    const handleSortChange = (updated: ViewSort[]) => {
+        const { sort: _sort, ...rest } = view;
+        onChange(updated.length > 0 ? { ...rest, sort: updated } : rest);
+    };
+
+    const buttonClass = (active: boolean) =>
+        `flex items-center gap-1.5 px-2 py-1 text-sm rounded-md transition-colors ${
+            active
+                ? 'text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20'
+                : 'text-gray-500 hover:text-gray-900 dark:hover:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-800'
+        }`;
+
+    return (
+        <div className="flex items-center justify-end gap-1 mb-3">
+            {/* Filter editor */}
+            <Popover>
+                <PopoverTrigger asChild>
+                    <button className={buttonClass(filterCount > 0)}>
+                        <Filter size={14} />
+                        Filter{filterCount > 0 && ` (${filterCount})`}
+                    </button>
+                </PopoverTrigger>
+                <PopoverContent
+                    align="end"
+                    className="w-[560px] max-w-[95vw] bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-3 z-50"
+                >
+                    {filterGroup.filters.length === 0 && (
+                        <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">No filters applied to this view</p>
+                    )}
+                    <FilterGroupEditor
+                        group={filterGroup}
+                        schema={schema}
+                        members={members}
+                        depth={0}
+                        onChange={handleFilterChange}
+                    />
+                </PopoverContent>
+            </Popover>
+
+            {/* Sort editor */}
+            <Popover>
+                <PopoverTrigger asChild>
+                    <button className={buttonClass(sorts.length > 0)}>
+                        <ArrowDownUp size={14} />
+                        Sort{sorts.length > 0 && ` (${sorts.length})`}
+                    </button>
+                </PopoverTrigger>
+                <PopoverContent
+                    align="end"
+                    className="w-[400px] max-w-[95vw] bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-3 z-50 space-y-2"
+                >
+                    {sorts.length === 0 && (
+                        <p className="text-sm text-gray-500 dark:text-gray-400">No sorts applied to this view</p>
+                    )}
+                    {sorts.map((sort, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                            <select
+                                value={sort.property}
+                                onChange={(e) =>
+                                    handleSortChange(sorts.map((s, i) => (i === index ? { ...s, property: e.target.value } : s)))
+                                }
+                                className={`${SELECT_CLASS} flex-1`}
+                            >
+                                {properties.map((property) => (
+                                    <option key={property.key} value={property.key}>
+                                        {property.name}
+                                    </option>
+                                ))}
+                            </select>
+                            <select
+                                value={sort.direction}
+                                onChange={(e) =>
+                                    handleSortChange(
+                                        sorts.map((s, i) =>
+                                            i === index ? { ...s, direction: e.target.value as ViewSort['direction'] } : s
+                                        )
+                                    )
+                                }
+                                className={SELECT_CLASS}
+                            >
+                                <option value="asc">Ascending</option>
+                                <option value="desc">Descending</option>
+                            </select>
+                            <button
+                                onClick={() => handleSortChange(sorts.filter((_, i) => i !== index))}
+                                className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                                aria-label="Remove sort"
+                            >
+                                <X size={14} />
+                            </button>
+                        </div>
+                    ))}
+                    <button
+                        onClick={() =>
+                            handleSortChange([
+                                ...sorts,
+                                // Default to the first property not already sorted on
+                                {
+                                    property: (properties.find((p) => !sorts.some((s) => s.property === p.key)) || properties[0]).key,
+                                    direction: 'asc',
+                                },
+                            ])
+                        }
+                        className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-900 dark:hover:text-gray-100"
+                    >
+                        <Plus size={14} />
+                        Add sort
+                    </button>
+                </PopoverContent>
+            </Popover>
+        </div>
+    );
+};
@@ -0,0 +1,53 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { BlockOperation } from '../types/history';
+import { createUndoState, getGroupKey, recordCommand, redoCommand, undoCommand, UndoState } from '../lib/history/undo';
+
+// Undo/redo of block operations for the page being edited (see lib/history/undo).
+// Each page keeps its own stack while the editor is open. `apply` carries out
+// the operations an undo or redo produces: on the local workspace, or in Firestore.
+export const useBlockHistory = (
+  pageId: string | undefined,
+  apply: (pageId: string, operations: BlockOperation[]) => void | Promise<unknown>
+) => {
+  const stacks = useRef(new Map<string, UndoState>());
+  const [state, setState] = useState<UndoState>(createUndoState);
+
+  useEffect(() => {
+    setState((pageId && stacks.current.get(pageId)) || createUndoState());
+  }, [pageId]);
+
+  const update = (id: string, next: UndoState) => {
+    stacks.current.set(id, next);
+    if (id === pageId) setState(next);
+  };
+
+  // Record a user's block mutations as one command; typing in a block is grouped
+  const record = useCallback(
+    (operations: BlockOperation[]) => {
+      if (!pageId) return;
+      const current = stacks.current.get(pageId) || createUndoState();
+      const groupKey = operations.length === 1 ? getGroupKey(operations[0]) : undefined;
+      update(pageId, recordCommand(current, operations, { groupKey }));
+    },
+    [pageId]
+  );
+
+  const step = (take: typeof undoCommand) => {
+    if (!pageId) return false;
+    const result = take(stacks.current.get(pageId) || createUndoState());
+    if (!result) return false;
+    update(pageId, result.state);
+    Promise.resolve(apply(pageId, result.operations)).catch((error) => {
+      console.error('Failed to apply undo/redo:', error);
+    });
+    return true;
+  };
+
+  return {
+    record,
+    undo: () => step(undoCommand),
+    redo: () => step(redoCommand),
+    canUndo: state.undo.length > 0,
+    canRedo: state.redo.length > 0,
+  };
+};
@@ -2,7 +2,8 @@ import { useEffect, useState, useCallback, ReactNode } from 'react';
 // This hook manages the state and available commands for the Command Palette (Cmd+K).
 // It defines the list of actions users can perform such as navigation, creating items, etc.
 import { CommandItem } from '../components/CommandPalette';
-import { Plus, Trash2, Copy, Settings, LogOut, Search, Eye, Table, Grid3x3, Calendar } from 'lucide-react';
+import { Plus, Trash2, Copy, Settings, LogOut, Search, Eye, Table, Grid3x3, Calendar, ChartGantt, Images } from 'lucide-react';
+import { ViewType } from '../types/view';
 
 // Local mapping of string identifiers to actual icon components
 // This makes it easier to reference icons by name in the command objects.
@@ -17,6 +18,15 @@ const iconMap: Record<string, ReactNode> = {
   table: <Table size={16} />,
   grid: <Grid3x3 size={16} />,
   calendar: <Calendar size={16} />,
+  timeline: <ChartGantt size={16} />,
+  gallery: <Images size={16} />,
+};
+
+// View commands ask the open page to switch views; PageEditor listens for this event
+export const SWITCH_VIEW_EVENT = 'switchView';
+
+const switchView = (type: ViewType) => {
+  window.dispatchEvent(new CustomEvent<{ type: ViewType }>(SWITCH_VIEW_EVENT, { detail: { type } }));
 };
 
 export const useCommandPalette = (onCreatePage?: () => void) => {
@@ -101,6 +111,7 @@ export const useCommandPalette = (onCreatePage?: () => void) => {
         category: 'view',
         icon: <Table size={16} />,
         action: () => {
+          switchView('table');
           setIsOpen(false);
         },
         shortcut: 'Cmd+1',
@@ -112,6 +123,7 @@ export const useCommandPalette = (onCreatePage?: () => void) => {
         category: 'view',
         icon: <Grid3x3 size={16} />,
         action: () => {
+          switchView('board');
           setIsOpen(false);
         },
         shortcut: 'Cmd+2',
@@ -123,10 +135,35 @@ export const useCommandPalette = (onCreatePage?: () => void) => {
         category: 'view',
         icon: <Calendar size={16} />,
         action: () => {
+          switchView('calendar');
           setIsOpen(false);
         },
         shortcut: 'Cmd+3',
       },
+      {
+        id: 'timeline-view',
+        title: 'Timeline View',
+        description: 'Switch to timeline (Gantt) view',
+        category: 'view',
+        icon: <ChartGantt size={16} />,
+        action: () => {
+          switchView('timeline');
+          setIsOpen(false);
+        },
+        shortcut: 'Cmd+4',
+      },
+      {
+        id: 'gallery-view',
+        title: 'Gallery View',
+        description: 'Switch to gallery view',
+        category: 'view',
+        icon: <Images size={16} />,
+        action: () => {
+          switchView('gallery');
+          setIsOpen(false);
+        },
+        shortcut: 'Cmd+5',
+      },
 
       // Workspace commands
       {
@@ -1,34 +1,31 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { clearQueue as clearOfflineQueue, getQueue, OfflineOperation } from '../lib/offline/queue';
+import { subscribeToSyncStatus, syncOfflineChanges } from '../lib/offline/sync';
 
 /**
  * useOfflineSync - Hook for managing offline data synchronization
  * 
  * Provides:
  * - Online/offline status tracking
- * - Pending changes count
+ * - Pending changes count, from the offline queue (lib/offline/queue)
  * - Manual sync trigger
- * - Sync status updates from service worker
+ * - When the last sync ran and the last error it hit, whether it ran in this
+ *   tab or in the service worker (see lib/offline/background-sync)
  */
 
-interface SyncQueueItem {
-    id: number;
-    url: string;
-    method: string;
-    timestamp: number;
-}
-
 interface OfflineSyncState {
     isOnline: boolean;
     pendingChanges: number;
     lastSyncTime: Date | null;
+    lastSyncError: string | null;
     isSyncing: boolean;
-    syncQueue: SyncQueueItem[];
+    syncQueue: OfflineOperation[];
 }
 
 interface OfflineSyncActions {
     triggerSync: () => Promise<void>;
     clearQueue: () => Promise<void>;
-    getQueuedRequests: () => Promise<SyncQueueItem[]>;
+    getQueuedOperations: () => Promise<OfflineOperation[]>;
 }
 
 export function useOfflineSync(): [OfflineSyncState, OfflineSyncActions] {
@@ -36,23 +33,15 @@ export function useOfflineSync(): [OfflineSyncState, OfflineSyncActions] {
         isOnline: typeof navigator !== 'undefined' ? navigator.onLine : true,
         pendingChanges: 0,
         lastSyncTime: null,
+        lastSyncError: null,
         isSyncing: false,
         syncQueue: [],
     });
 
-    // Update online status
+    // Update online status (sync.ts flushes the queue itself when back online)
     useEffect(() => {
-        const handleOnline = () => {
-            setState(prev => ({ ...prev, isOnline: true }));
-            // Auto-trigger sync when coming back online
-            if (state.pendingChanges > 0) {
-                triggerSync();
-            }
-        };
-
-        const handleOffline = () => {
-            setState(prev => ({ ...prev, isOnline: false }));
-        };
+        const handleOnline = () => setState(prev => ({ ...prev, isOnline: true }));
+        const handleOffline = () => setState(prev => ({ ...prev, isOnline: false }));
 
         window.addEventListener('online', handleOnline);
         window.addEventListener('offline', handleOffline);
@@ -61,135 +50,52 @@ export function useOfflineSync(): [OfflineSyncState, OfflineSyncActions] {
             window.removeEventListener('online', handleOnline);
             window.removeEventListener('offline', handleOffline);
         };
-    }, [state.pendingChanges]);
-
-    // Listen for service worker messages
-    useEffect(() => {
-        const handleMessage = (event: MessageEvent) => {
-            const { type, data } = event.data || {};
-
-            switch (type) {
-                case 'SYNC_SUCCESS':
-                    setState(prev => ({
-                        ...prev,
-                        pendingChanges: Math.max(0, prev.pendingChanges - 1),
-                        lastSyncTime: new Date(),
-                    }));
-                    break;
-
-                case 'SYNC_QUEUE':
-                    setState(prev => ({
-                        ...prev,
-                        syncQueue: data || [],
-                        pendingChanges: data?.length || 0,
-                    }));
-                    break;
-
-                case 'SYNC_STARTED':
-                    setState(prev => ({ ...prev, isSyncing: true }));
-                    break;
-
-                case 'SYNC_COMPLETED':
-                    setState(prev => ({
-                        ...prev,
-                        isSyncing: false,
-                        lastSyncTime: new Date(),
-                        pendingChanges: 0,
-                    }));
-                    break;
-            }
-        };
-
-        navigator.serviceWorker?.addEventListener('message', handleMessage);
-
-        return () => {
-            navigator.serviceWorker?.removeEventListener('message', handleMessage);
-        };
     }, []);
 
-    // Get initial queue status
-    useEffect(() => {
-        getQueuedRequests();
+    // Get queued operations
+    const getQueuedOperations = useCallback(async (): Promise<OfflineOperation[]> => {
+        const queue = await getQueue();
+        setState(prev => ({ ...prev, syncQueue: queue }));
+        return queue;
     }, []);
 
-    // Trigger manual sync
-    const triggerSync = useCallback(async () => {
-        if (!state.isOnline || state.isSyncing) return;
-
-        setState(prev => ({ ...prev, isSyncing: true }));
-
-        try {
-            // Request sync if supported
-            if ('sync' in (navigator.serviceWorker?.ready || {})) {
-                const registration = await navigator.serviceWorker.ready;
-                await (registration as any).sync.register('worklinSync');
+    // Follow the sync status, re-reading the queue when its size changes
+    const pendingRef = useRef<number | null>(null);
+    useEffect(() => {
+        return subscribeToSyncStatus((status) => {
+            if (status.pending !== pendingRef.current) {
+                pendingRef.current = status.pending;
+                getQueuedOperations().catch(() => undefined);
             }
-
-            // Fallback: refresh the queue status
-            await getQueuedRequests();
-
             setState(prev => ({
                 ...prev,
-                isSyncing: false,
-                lastSyncTime: new Date(),
+                pendingChanges: status.pending,
+                isSyncing: status.syncing,
+                lastSyncTime: status.lastSyncedAt ? new Date(status.lastSyncedAt) : null,
+                lastSyncError: status.lastError,
             }));
+        });
+    }, [getQueuedOperations]);
+
+    // Trigger manual sync
+    const triggerSync = useCallback(async () => {
+        try {
+            await syncOfflineChanges();
         } catch (error) {
             console.error('[OfflineSync] Sync failed:', error);
-            setState(prev => ({ ...prev, isSyncing: false }));
         }
-    }, [state.isOnline, state.isSyncing]);
-
-    // Get queued requests from service worker
-    const getQueuedRequests = useCallback(async (): Promise<SyncQueueItem[]> => {
-        return new Promise((resolve) => {
-            if (!navigator.serviceWorker?.controller) {
-                resolve([]);
-                return;
-            }
-
-            // Set up one-time listener for response
-            const handleMessage = (event: MessageEvent) => {
-                if (event.data?.type === 'SYNC_QUEUE') {
-                    navigator.serviceWorker.removeEventListener('message', handleMessage);
-                    const queue = event.data.data || [];
-                    setState(prev => ({
-                        ...prev,
-                        syncQueue: queue,
-                        pendingChanges: queue.length,
-                    }));
-                    resolve(queue);
-                }
-            };
-
-            navigator.serviceWorker.addEventListener('message', handleMessage);
-
-            // Request queue from service worker
-            navigator.serviceWorker.controller.postMessage({ type: 'GET_SYNC_QUEUE' });
-
-            // Timeout after 2 seconds
-            setTimeout(() => {
-                navigator.serviceWorker.removeEventListener('message', handleMessage);
-                resolve([]);
-            }, 2000);
-        });
     }, []);
 
-    // Clear the sync queue
+    // Clear the sync queue; queued changes are lost
     const clearQueue = useCallback(async () => {
-        if (navigator.serviceWorker?.controller) {
-            navigator.serviceWorker.controller.postMessage({ type: 'CLEAR_QUEUE' });
-        }
-        setState(prev => ({
-            ...prev,
-            pendingChanges: 0,
-            syncQueue: [],
-        }));
+        await clearOfflineQueue();
+        setState(prev => ({ ...prev, syncQueue: [] }));
     }, []);
 
     const actions: OfflineSyncActions = {
         triggerSync,
         clearQueue,
-        getQueuedRequests,
+        getQueuedOperations,
     };
 
     return [state, actions];
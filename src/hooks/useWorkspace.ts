@@ -1,13 +1,30 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 // This is the main hook for managing the workspace state (pages, blocks, etc.).
 // It handles loading/saving to localStorage and provides functions for all CRUD operations.
 import { Workspace, Page, Block, BlockType } from '../types/workspace';
 import { Template } from '../types/template';
+import { ImportedPage } from '../lib/import/markdown';
+import { importNotionZip } from '../lib/import/notion';
+import { importWorkspaceArchive, isWorkspaceArchive } from '../lib/import/workspace';
+import { ArchivedComment, exportWorkspace } from '../lib/export/workspace';
+import { createPagesBatch, getBlocksByPage, getPagesByParent } from '../lib/firebase/database';
+import { createCommentsBatch, getCommentsByBlocks } from '../lib/firebase/comments';
+import { createRelationLinksForPages } from '../lib/firebase/relations';
 import { createVersion } from '../lib/firebase/history';
+import { getRestoreUpdates } from '../lib/history/diff';
+import { applyBlockOperations as applyOperations } from '../lib/history/undo';
+import { BlockOperation, PageSnapshot } from '../types/history';
 import { triggerWebhooks } from '../lib/integrations/webhooks';
+import { getPagesToPurge, getRestoredIds, getSubtreeIds } from '../lib/trash';
+import {
+  describeValidationErrors,
+  resolvePropertySchema,
+  validatePropertyValues,
+} from '../lib/database/properties';
 // Note: Search indexing is now client-side only (MiniSearch) - no Firestore writes needed
 
 const STORAGE_KEY = 'worklin-workspace';
+const VERSION_DELAY = 5000; // Quiet time before block edits are saved as a version
 
 export const useWorkspace = () => {
   // Initialize the workspace state.
@@ -25,6 +42,25 @@ export const useWorkspace = () => {
 
   const [currentPageId, setCurrentPageId] = useState<string | null>(null);
 
+  // Block edits are saved to the page history once editing pauses, not on every keystroke.
+  // The page as it was before the first edit is kept until then.
+  const pendingVersions = useRef(new Map<string, { base: Page; timer: ReturnType<typeof setTimeout> }>());
+  const latestWorkspace = useRef(workspace);
+  latestWorkspace.current = workspace;
+
+  // Versions still waiting for a pause are saved right away when the workspace unmounts
+  useEffect(() => {
+    const pending = pendingVersions.current;
+    return () => {
+      pending.forEach(({ base, timer }, pageId) => {
+        clearTimeout(timer);
+        const latest = latestWorkspace.current.pages.find(p => p.id === pageId);
+        if (latest) createVersion(pageId, base, latest, 'local-user', 'Local User').catch(() => undefined);
+      });
+      pending.clear();
+    };
+  }, []);
+
   // Load data from localStorage when the component mounts.
   // We need to carefully parse the JSON and convert date strings back into Date objects.
   useEffect(() => {
@@ -49,8 +85,13 @@ export const useWorkspace = () => {
             ...page,
             createdAt: new Date(page.createdAt),
             updatedAt: new Date(page.updatedAt),
+            archivedAt: page.archivedAt ? new Date(page.archivedAt) : page.archivedAt,
           })),
         };
+
+        // Pages that have been in the trash longer than the workspace keeps them are purged on load
+        const purged = new Set(getPagesToPurge(workspaceWithDates.pages, workspaceWithDates.settings?.trashRetentionDays));
+        workspaceWithDates.pages = workspaceWithDates.pages.filter((page) => !purged.has(page.id));
         setWorkspace(workspaceWithDates);
 
         // If we have pages, set the first one as active
@@ -135,6 +176,120 @@ export const useWorkspace = () => {
       workspaceId: workspace.id,
     };
 
+    insertPage(newPage);
+  };
+
+  // Add a page read from a file (see lib/import), keeping its block structure
+  const importPage = (imported: ImportedPage) => {
+    const now = new Date();
+    const newPage: Page = {
+      ...imported,
+      id: Date.now().toString(),
+      icon: imported.icon || '📝',
+      blocks: imported.blocks.map((b) => ({
+        ...b,
+        createdAt: now,
+        updatedAt: now,
+        createdBy: 'local-user',
+      })),
+      createdAt: imported.createdAt || now,
+      updatedAt: imported.updatedAt || now,
+      workspaceId: workspace.id,
+    };
+
+    insertPage(newPage);
+  };
+
+  // Import a zip: a workspace export made by exportWorkspaceArchive, or a Notion export.
+  // Either way the hierarchy and links are kept; database rows go to Firestore,
+  // like rows added from a database view
+  const importArchive = async (
+    file: File
+  ): Promise<{ source: 'workspace' | 'notion'; pageCount: number; warnings: string[]; error: string | null }> => {
+    const data = new Uint8Array(await file.arrayBuffer());
+    const source = isWorkspaceArchive(data) ? 'workspace' : 'notion';
+    try {
+      const { pages, rows, warnings, ...result } =
+        source === 'workspace'
+          ? await importWorkspaceArchive(data, { workspaceId: workspace.id })
+          : { ...(await importNotionZip(data, { workspaceId: workspace.id })), comments: [] };
+      const now = new Date();
+      const newPages = pages.map((page) => ({
+        ...page,
+        workspaceId: workspace.id,
+        blocks: page.blocks.map((b) => ({ createdAt: now, updatedAt: now, createdBy: 'local-user', ...b })),
+      }));
+
+      setWorkspace((prev) => ({
+        ...prev,
+        pages: [...prev.pages, ...newPages],
+        updatedAt: now
+      }));
+      if (newPages.length > 0) setCurrentPageId(newPages[0].id);
+
+      if (rows.length > 0) {
+        const { error } = await createPagesBatch(workspace.id, rows);
+        if (error) return { source, pageCount: newPages.length, warnings, error };
+      }
+      // Imported relations only have their linkedPageIds; their link documents are written here
+      const { error: linksError } = await createRelationLinksForPages(
+        [...newPages, ...rows].map((page) => ({ ...page, workspaceId: workspace.id }))
+      );
+      if (linksError) warnings.push(`Relation links weren't restored: ${linksError}`);
+      if (result.comments.length > 0) {
+        const { error } = await createCommentsBatch(result.comments);
+        if (error) warnings.push(`Comments weren't restored: ${error}`);
+      }
+      return { source, pageCount: newPages.length + rows.length, warnings, error: null };
+    } catch (error: any) {
+      return { source, pageCount: 0, warnings: [], error: error.message };
+    }
+  };
+
+  // Download the whole workspace as a zip: every page as Markdown and HTML,
+  // its media, and a manifest importArchive restores from.
+  // Database rows and their blocks live in Firestore, so they're fetched first
+  const exportWorkspaceArchive = async (): Promise<{ warnings: string[]; error: string | null }> => {
+    const toDate = (value: any): Date => (value?.toDate ? value.toDate() : new Date(value || Date.now()));
+    try {
+      const rows: Page[] = [];
+      const databases = workspace.pages.filter((page) => page.views?.length);
+      for (let database = databases.shift(); database; database = databases.shift()) {
+        const { pages, error } = await getPagesByParent(database.id);
+        if (error) return { warnings: [], error };
+        for (const row of pages) {
+          const { blocks } = await getBlocksByPage(row.id);
+          const page: Page = {
+            ...row,
+            blocks: blocks.map((block: any) => ({ ...block, createdAt: toDate(block.createdAt), updatedAt: toDate(block.updatedAt) })),
+            createdAt: toDate(row.createdAt),
+            updatedAt: toDate(row.updatedAt),
+          };
+          rows.push(page);
+          if (page.views?.length) databases.push(page);
+        }
+      }
+
+      const pages = [...workspace.pages, ...rows];
+      const blockPages = new Map(pages.flatMap((page) => page.blocks.map((block) => [block.id, page.id] as const)));
+      const { comments, error } = await getCommentsByBlocks([...blockPages.keys()]);
+      const warnings = error ? [`Comments weren't exported: ${error}`] : [];
+
+      const archivedComments: ArchivedComment[] = comments.map((comment) => ({
+        ...comment,
+        pageId: blockPages.get(comment.blockId)!,
+        userPhotoURL: comment.userPhotoURL || undefined,
+        createdAt: toDate(comment.createdAt).toISOString(),
+        updatedAt: toDate(comment.updatedAt).toISOString(),
+      }));
+      warnings.push(...(await exportWorkspace({ ...workspace, pages }, { comments: archivedComments })));
+      return { warnings, error: null };
+    } catch (error: any) {
+      return { warnings: [], error: error.message };
+    }
+  };
+
+  const insertPage = (newPage: Page) => {
     setWorkspace((prev) => ({
       ...prev,
       pages: [...prev.pages, newPage],
@@ -162,18 +317,23 @@ export const useWorkspace = () => {
 
   const deletePage = (pageId: string) => {
     const page = workspace.pages.find(p => p.id === pageId);
+    // The pages below it go to the trash with it; ones already there keep their own date
+    const subtree = new Set(getSubtreeIds(workspace.pages, pageId));
+    const archivedAt = new Date();
 
     // Mark as archived instead of deleting
     setWorkspace((prev) => ({
       ...prev,
       pages: prev.pages.map((p) =>
-        p.id === pageId ? { ...p, isArchived: true, updatedAt: new Date() } : p
+        p.id === pageId || (subtree.has(p.id) && !p.isArchived)
+          ? { ...p, isArchived: true, archivedAt, updatedAt: new Date() }
+          : p
       ),
       updatedAt: new Date()
     }));
     // If current page is deleted, clear selection to show home/empty state
-    if (currentPageId === pageId) {
-      const remaining = workspace.pages.filter((p) => p.id !== pageId && !p.isArchived);
+    if (currentPageId && subtree.has(currentPageId)) {
+      const remaining = workspace.pages.filter((p) => !subtree.has(p.id) && !p.isArchived);
       setCurrentPageId(remaining.length > 0 ? remaining[0].id : null);
     }
 
@@ -190,28 +350,37 @@ export const useWorkspace = () => {
     }
   };
 
-  const restorePage = (pageId: string) => {
+  // Restores pages from the trash, with the pages that were trashed below them
+  const restorePages = (pageIds: string[]) => {
+    const archived = workspace.pages.filter((p) => p.isArchived);
+    const restored = new Set(pageIds.flatMap((pageId) => getRestoredIds(archived, pageId)));
     setWorkspace((prev) => ({
       ...prev,
       pages: prev.pages.map((p) =>
-        p.id === pageId ? { ...p, isArchived: false, updatedAt: new Date() } : p
+        restored.has(p.id) ? { ...p, isArchived: false, archivedAt: null, updatedAt: new Date() } : p
       ),
       updatedAt: new Date()
     }));
   };
 
-  const permanentlyDeletePage = (pageId: string) => {
+  const restorePage = (pageId: string) => restorePages([pageId]);
+
+  // Deletes pages for good, with every page below them
+  const permanentlyDeletePages = (pageIds: string[]) => {
+    const deleted = new Set(pageIds.flatMap((pageId) => getSubtreeIds(workspace.pages, pageId)));
     setWorkspace((prev) => ({
       ...prev,
-      pages: prev.pages.filter((p) => p.id !== pageId),
+      pages: prev.pages.filter((p) => !deleted.has(p.id)),
       updatedAt: new Date()
     }));
-    if (currentPageId === pageId) {
-      const remaining = workspace.pages.filter((p) => p.id !== pageId);
+    if (currentPageId && deleted.has(currentPageId)) {
+      const remaining = workspace.pages.filter((p) => !deleted.has(p.id));
       setCurrentPageId(remaining.length > 0 ? remaining[0].id : null);
     }
   };
 
+  const permanentlyDeletePage = (pageId: string) => permanentlyDeletePages([pageId]);
+
   const updatePageTitle = (pageId: string, title: string) => {
     const oldPage = workspace.pages.find(p => p.id === pageId);
     if (!oldPage) return;
@@ -275,6 +444,40 @@ export const useWorkspace = () => {
     });
   };
 
+  const scheduleVersion = (pageId: string) => {
+    const page = workspace.pages.find(p => p.id === pageId);
+    if (!page) return;
+    const pending = pendingVersions.current.get(pageId);
+    if (pending) clearTimeout(pending.timer);
+    const base = pending?.base || page;
+    const timer = setTimeout(() => {
+      pendingVersions.current.delete(pageId);
+      const latest = latestWorkspace.current.pages.find(p => p.id === pageId);
+      if (!latest) return;
+      createVersion(pageId, base, latest, 'local-user', 'Local User').catch(err => {
+        console.error('Failed to create version:', err);
+      });
+    }, VERSION_DELAY);
+    pendingVersions.current.set(pageId, { base, timer });
+  };
+
+  // Bring a page back to a version from its history; the restore is itself recorded as a version
+  const restoreVersion = (pageId: string, version: PageSnapshot, versionId: string) => {
+    const oldPage = workspace.pages.find(p => p.id === pageId);
+    if (!oldPage) return;
+
+    const newPage = { ...oldPage, ...getRestoreUpdates(oldPage, version), updatedAt: new Date() } as Page;
+    setWorkspace((prev) => ({
+      ...prev,
+      pages: prev.pages.map((p) => (p.id === pageId ? newPage : p)),
+      updatedAt: new Date()
+    }));
+
+    createVersion(pageId, oldPage, newPage, 'local-user', 'Local User', { restoreVersionId: versionId }).catch(err => {
+      console.error('Failed to create version:', err);
+    });
+  };
+
   const addBlock = (pageId: string, type: BlockType = 'paragraph') => {
     const newBlock: Block = {
       id: Date.now().toString(),
@@ -287,6 +490,7 @@ export const useWorkspace = () => {
       createdBy: 'local-user',
     };
 
+    scheduleVersion(pageId);
     setWorkspace((prev) => ({
       ...prev, // Spread prev
       pages: prev.pages.map((p) =>
@@ -313,12 +517,14 @@ export const useWorkspace = () => {
         data: newBlock,
       }).catch(err => console.error('[useWorkspace] Error triggering webhook:', err));
     }
+    return newBlock;
   };
 
   const updateBlock = (pageId: string, blockId: string, updates: Partial<Block>) => {
     const page = workspace.pages.find(p => p.id === pageId);
     const block = page?.blocks.find(b => b.id === blockId);
 
+    scheduleVersion(pageId);
     setWorkspace((prev) => ({
       ...prev, // Spread prev
       pages: prev.pages.map((p) =>
@@ -354,6 +560,7 @@ export const useWorkspace = () => {
     const page = workspace.pages.find(p => p.id === pageId);
     const block = page?.blocks.find(b => b.id === blockId);
 
+    scheduleVersion(pageId);
     setWorkspace((prev) => ({
       ...prev, // Spread prev
       pages: prev.pages.map((p) =>
@@ -382,6 +589,20 @@ export const useWorkspace = () => {
     }
   };
 
+  // Apply block operations from undo/redo (see lib/history/undo); they're saved to the page history like any edit
+  const applyBlockOperations = (pageId: string, operations: BlockOperation[]) => {
+    scheduleVersion(pageId);
+    setWorkspace((prev) => ({
+      ...prev,
+      pages: prev.pages.map((p) =>
+        p.id === pageId
+          ? { ...p, blocks: applyOperations(p.blocks, operations), updatedAt: new Date() }
+          : p
+      ),
+      updatedAt: new Date()
+    }));
+  };
+
   const currentPage = workspace.pages.find((p) => p.id === currentPageId);
   const updatePageProperties = (pageId: string, properties: any) => {
     setWorkspace((prev) => ({
@@ -395,6 +616,33 @@ export const useWorkspace = () => {
     }));
   };
 
+  // General-purpose page update (properties, property values, views, block order, ...)
+  // Typed property values are validated against the page's schema first, like the Firestore updatePage.
+  const updatePage = (pageId: string, updates: Partial<Page>): { error: string | null } => {
+    const page = workspace.pages.find(p => p.id === pageId);
+    if (!page) return { error: 'Page not found' };
+
+    let data = updates;
+    if (updates.propertyValues) {
+      const parent = workspace.pages.find(p => p.id === (updates.parentId ?? page.parentId));
+      const schema = resolvePropertySchema({ properties: updates.properties ?? page.properties }, parent);
+      const { values, errors } = validatePropertyValues(schema, updates.propertyValues);
+      const error = describeValidationErrors(errors);
+      if (error) return { error };
+      data = { ...updates, propertyValues: values };
+    }
+
+    setWorkspace((prev) => ({
+      ...prev,
+      pages: prev.pages.map((p) =>
+        p.id === pageId
+          ? { ...p, ...data, updatedAt: new Date() }
+          : p
+      ),
+      updatedAt: new Date()
+    }));
+    return { error: null };
+  };
 
   // Filter out archived pages for main view
   const activePages = workspace.pages.filter((p) => !p.isArchived);
@@ -407,10 +655,16 @@ export const useWorkspace = () => {
     currentPageId,
     setCurrentPageId,
     updatePageProperties,
+    updatePage,
     restorePage,
+    restorePages,
     permanentlyDeletePage,
+    permanentlyDeletePages,
     addPage,
     addPageFromTemplate,
+    importPage,
+    importArchive,
+    exportWorkspaceArchive,
     deletePage,
     updatePageTitle,
     updatePageIcon,
@@ -418,5 +672,7 @@ export const useWorkspace = () => {
     addBlock,
     updateBlock,
     deleteBlock,
+    applyBlockOperations,
+    restoreVersion,
   };
 };
\ No newline at end of file
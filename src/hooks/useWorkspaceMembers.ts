@@ -0,0 +1,30 @@
+import { useState, useEffect } from 'react';
+import { WorkspaceMember } from '../types/permission';
+import { getWorkspaceMembers } from '../lib/firebase/permissions';
+
+// Loads the members of a workspace, e.g. for person properties.
+// Pass enabled = false to skip the Firestore read until the members are actually needed.
+export const useWorkspaceMembers = (workspaceId: string | undefined, enabled: boolean = true) => {
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+
+  useEffect(() => {
+    if (!enabled || !workspaceId) return;
+
+    let cancelled = false;
+    getWorkspaceMembers(workspaceId).then(({ members: fetchedMembers, error }) => {
+      if (cancelled) return;
+      if (error) {
+        console.error('Failed to load workspace members:', error);
+        return;
+      }
+      setMembers(fetchedMembers);
+    });
+
+    // Ignore a late response if the workspace changed in the meantime
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId, enabled]);
+
+  return members;
+};
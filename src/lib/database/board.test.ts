@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { applyManualOrder, getGroupValue, groupBoardPages, moveBoardCard, NO_GROUP_ID } from './board';
+import { SelectProperty, PersonProperty } from '../../types/database';
+import { makePage } from '../../test/fixtures';
+
+describe('Board grouping', () => {
+    const priority: SelectProperty = {
+        type: 'select',
+        name: 'Priority',
+        options: [
+            { id: 'high', name: 'High', color: 'red' },
+            { id: 'low', name: 'Low', color: 'gray' },
+        ],
+    };
+
+    const pages = [
+        makePage('a', { Priority: 'Low' }),
+        makePage('b', { Priority: 'High' }),
+        makePage('c'),
+        makePage('d', { Priority: 'Removed option' }),
+    ];
+
+    it('should put pages in the column for their option', () => {
+        const columns = groupBoardPages(pages, 'Priority', priority);
+        expect(columns.map((c) => [c.label, c.pages.map((p) => p.id)])).toEqual([
+            ['No Priority', ['c']],
+            ['High', ['b']],
+            ['Low', ['a']],
+            ['Removed option', ['d']],
+        ]);
+    });
+
+    it('should move cards between columns and keep the manual order', () => {
+        const columns = groupBoardPages(pages, 'Priority', priority);
+        const order = moveBoardCard(columns, 'a', 'high', 0);
+        expect(order).toEqual(['c', 'a', 'b', 'd']);
+        expect(applyManualOrder(pages, order).map((p) => p.id)).toEqual(['c', 'a', 'b', 'd']);
+        expect(getGroupValue(pages[0], 'Priority', priority, 'high')).toBe('High');
+        expect(getGroupValue(pages[0], 'Priority', priority, NO_GROUP_ID)).toBeNull();
+    });
+
+    it('should only swap the grouped person when moving between people', () => {
+        const owner: PersonProperty = { type: 'person', name: 'Owner', allowMultiple: true };
+        const page = makePage('a', { Owner: ['u1', 'u2'] });
+        expect(getGroupValue(page, 'Owner', owner, 'u3')).toEqual(['u3', 'u2']);
+        expect(getGroupValue(page, 'Owner', owner, NO_GROUP_ID)).toEqual(['u2']);
+    });
+});
@@ -0,0 +1,139 @@
+import { Page } from '../../types/workspace';
+import {
+  DatabaseProperty,
+  PersonProperty,
+  PropertyOptionColor,
+  SelectProperty,
+  StatusProperty,
+} from '../../types/database';
+import { ViewDefinition } from '../../types/view';
+import { WorkspaceMember } from '../../types/permission';
+
+// Board view helpers: which properties a board can be grouped by, which column
+// each card belongs in, the value to write when a card is dropped on a column,
+// and the manual card order kept on the view.
+
+export type GroupableProperty = SelectProperty | StatusProperty | PersonProperty;
+
+// One board column
+export interface BoardGroup {
+  id: string; // Option ID, member user ID, or NO_GROUP_ID; stable across option renames
+  label: string;
+  color?: PropertyOptionColor;
+}
+
+export interface BoardColumn extends BoardGroup {
+  pages: Page[];
+}
+
+// Column for pages without a value
+export const NO_GROUP_ID = 'none';
+
+export const isGroupableProperty = (property: DatabaseProperty | undefined): property is GroupableProperty =>
+  property?.type === 'select' || property?.type === 'status' || property?.type === 'person';
+
+// The property a board groups by: the view's choice if it still exists,
+// otherwise the first status, then select, then person property
+export const getGroupByKey = (view: ViewDefinition, schema: Record<string, DatabaseProperty>): string | null => {
+  if (view.groupBy && isGroupableProperty(schema[view.groupBy])) return view.groupBy;
+  for (const type of ['status', 'select', 'person']) {
+    const match = Object.entries(schema).find(([, property]) => property.type === type);
+    if (match) return match[0];
+  }
+  return null;
+};
+
+// The columns a property defines, starting with the "No value" column
+export const getBoardGroups = (property: GroupableProperty, members: WorkspaceMember[] = []): BoardGroup[] => {
+  const empty: BoardGroup = { id: NO_GROUP_ID, label: `No ${property.name}` };
+  if (property.type === 'person') {
+    return [empty, ...members.map((member) => ({ id: member.userId, label: member.displayName || member.email }))];
+  }
+  return [empty, ...property.options.map((option) => ({ id: option.id, label: option.name, color: option.color }))];
+};
+
+// The column a page belongs in; values that no longer match a column (deleted options,
+// people outside the member list) get a column of their own so the page isn't hidden
+export const getPageGroup = (page: Page, key: string, property: GroupableProperty): BoardGroup => {
+  const value = page.propertyValues?.[key];
+
+  if (property.type === 'person') {
+    // Pages with several people are shown under the first one
+    const userId = Array.isArray(value) ? value[0] : value;
+    return userId ? { id: userId, label: userId } : { id: NO_GROUP_ID, label: `No ${property.name}` };
+  }
+
+  if (!value) return { id: NO_GROUP_ID, label: `No ${property.name}` };
+  const option = property.options.find((o) => o.name === value);
+  return option ? { id: option.id, label: option.name, color: option.color } : { id: `value:${value}`, label: String(value) };
+};
+
+// Put pages in the order they were arranged by hand; pages never dragged keep their current order at the end
+export const applyManualOrder = (pages: Page[], manualOrder: string[] = []): Page[] => {
+  if (manualOrder.length === 0) return pages;
+  const rank = new Map(manualOrder.map((id, index) => [id, index]));
+  return pages
+    .map((page, index) => ({ page, index }))
+    .sort((a, b) => {
+      const rankA = rank.get(a.page.id) ?? manualOrder.length + a.index;
+      const rankB = rank.get(b.page.id) ?? manualOrder.length + b.index;
+      return rankA - rankB;
+    })
+    .map(({ page }) => page);
+};
+
+// Split already filtered and sorted pages into columns
+export const groupBoardPages = (
+  pages: Page[],
+  key: string,
+  property: GroupableProperty,
+  members: WorkspaceMember[] = []
+): BoardColumn[] => {
+  const columns: BoardColumn[] = getBoardGroups(property, members).map((group) => ({ ...group, pages: [] }));
+
+  pages.forEach((page) => {
+    const group = getPageGroup(page, key, property);
+    let column = columns.find((c) => c.id === group.id);
+    if (!column) {
+      column = { ...group, pages: [] };
+      columns.push(column);
+    }
+    column.pages.push(page);
+  });
+
+  return columns;
+};
+
+// The value to store when a page is dropped on a column
+// For person properties only the person the page was grouped under is swapped
+export const getGroupValue = (page: Page, key: string, property: GroupableProperty, groupId: string): any => {
+  if (property.type === 'person') {
+    const current: string[] = Array.isArray(page.propertyValues?.[key]) ? page.propertyValues![key] : [];
+    const rest = current.slice(1).filter((id) => id !== groupId);
+    return groupId === NO_GROUP_ID ? rest : [groupId, ...rest];
+  }
+
+  if (groupId === NO_GROUP_ID) return null;
+  if (groupId.startsWith('value:')) return groupId.slice('value:'.length);
+  return property.options.find((option) => option.id === groupId)?.name ?? null;
+};
+
+// Move a card within or between columns and return the new page order for the whole board
+export const moveBoardCard = (
+  columns: BoardColumn[],
+  pageId: string,
+  targetGroupId: string,
+  targetIndex: number
+): string[] => {
+  const ids = columns.map((column) => ({
+    id: column.id,
+    pageIds: column.pages.map((page) => page.id).filter((id) => id !== pageId),
+  }));
+
+  const target = ids.find((column) => column.id === targetGroupId);
+  if (target) {
+    target.pageIds.splice(Math.max(0, Math.min(targetIndex, target.pageIds.length)), 0, pageId);
+  }
+
+  return ids.flatMap((column) => column.pageIds);
+};
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { getCalendarItems, layoutWeek, shiftDateValue, getMonthDays } from './calendar';
+import { makePage } from '../../test/fixtures';
+
+describe('Calendar layout', () => {
+    // Week of Sunday March 3rd 2024
+    const weekStart = new Date(2024, 2, 3);
+
+    it('should pad a month to whole weeks', () => {
+        const days = getMonthDays(new Date(2024, 2, 15));
+        expect(days.length).toBe(42);
+        expect(days[0]).toEqual(new Date(2024, 1, 25));
+    });
+
+    it('should split ranges at week boundaries and stack overlapping items', () => {
+        const items = getCalendarItems(
+            [
+                makePage('trip', { Due: { start: '2024-03-01', end: '2024-03-05' } }),
+                makePage('meeting', { Due: { start: '2024-03-04' } }),
+                makePage('launch', { Due: { start: '2024-03-08', end: '2024-03-12' } }),
+                makePage('undated', { Due: null }),
+            ],
+            'Due'
+        );
+        expect(items.map((i) => i.page.id)).toEqual(['trip', 'meeting', 'launch']);
+
+        const segments = layoutWeek(items, weekStart).map((s) => ({
+            id: s.item.page.id,
+            startColumn: s.startColumn,
+            span: s.span,
+            lane: s.lane,
+            before: s.continuesBefore,
+            after: s.continuesAfter,
+        }));
+        expect(segments).toEqual([
+            { id: 'trip', startColumn: 0, span: 3, lane: 0, before: true, after: false },
+            { id: 'meeting', startColumn: 1, span: 1, lane: 1, before: false, after: false },
+            { id: 'launch', startColumn: 5, span: 2, lane: 0, before: false, after: true },
+        ]);
+    });
+
+    it('should keep the length of a range when rescheduling', () => {
+        expect(shiftDateValue({ start: '2024-03-01', end: '2024-03-05' }, 3)).toEqual({
+            start: '2024-03-04',
+            end: '2024-03-08',
+        });
+    });
+});
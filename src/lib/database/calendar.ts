@@ -0,0 +1,128 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  isAfter,
+  isBefore,
+  max as maxDate,
+  min as minDate,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { Page } from '../../types/workspace';
+import { DatabaseProperty, DatePropertyValue } from '../../types/database';
+import { ViewDefinition } from '../../types/view';
+import { parseDateValue, serializeDate } from './properties';
+
+// Calendar view helpers: which date a page is placed on, how multi-day items
+// are laid out across week rows, and the values written when an item is
+// dragged to another day or created on a clicked day.
+
+// Calendars without a date property place pages by when they were created
+export const CREATED_DATE_KEY = 'page.createdAt';
+
+// A page placed on the calendar, with its span normalized to whole days
+export interface CalendarItem {
+  page: Page;
+  start: Date; // Start of the first day
+  end: Date; // Start of the last day (same as start for single-day items)
+}
+
+// Part of an item that falls inside one week row
+export interface CalendarSegment {
+  item: CalendarItem;
+  startColumn: number; // 0-6, day of the week the segment starts on
+  span: number; // Number of days it covers in this row
+  lane: number; // Vertical slot, so overlapping items don't cover each other
+  continuesBefore: boolean; // The item started in an earlier week
+  continuesAfter: boolean; // The item goes on into the next week
+}
+
+// The date property a calendar uses: the view's choice if it's still a date
+// property, otherwise the first date property, otherwise the created date
+export const getCalendarDateKey = (view: ViewDefinition, schema: Record<string, DatabaseProperty>): string => {
+  if (view.dateProperty && schema[view.dateProperty]?.type === 'date') return view.dateProperty;
+  const match = Object.entries(schema).find(([, property]) => property.type === 'date');
+  return match ? match[0] : CREATED_DATE_KEY;
+};
+
+// Place pages on the calendar, skipping pages without a date
+// Keeps the pages' order so the view's sort decides the order within a day
+export const getCalendarItems = (pages: Page[], dateKey: string): CalendarItem[] =>
+  pages.flatMap((page) => {
+    const parsed = parseDateValue(dateKey === CREATED_DATE_KEY ? page.createdAt : page.propertyValues?.[dateKey]);
+    if (!parsed) return [];
+    const start = startOfDay(parsed.start);
+    const end = parsed.end ? startOfDay(parsed.end) : start;
+    return [{ page, start, end: isBefore(end, start) ? start : end }];
+  });
+
+// Days shown in a month view: whole weeks from the one containing the 1st to the one containing the last day
+export const getMonthDays = (month: Date, weekStartsOn: 0 | 1 = 0): Date[] =>
+  eachDayOfInterval({
+    start: startOfWeek(startOfMonth(month), { weekStartsOn }),
+    end: endOfWeek(endOfMonth(month), { weekStartsOn }),
+  });
+
+// Items overlapping a day range, e.g. a month for the agenda
+export const getItemsInRange = (items: CalendarItem[], rangeStart: Date, rangeEnd: Date): CalendarItem[] =>
+  items.filter((item) => !isAfter(item.start, rangeEnd) && !isBefore(item.end, rangeStart));
+
+// Lay out the items of one week row: each item becomes a bar over the days it
+// covers, stacked into the first lane where it doesn't overlap another bar
+export const layoutWeek = (items: CalendarItem[], weekStart: Date): CalendarSegment[] => {
+  const weekEnd = addDays(weekStart, 6);
+  const lanes: number[][] = []; // Occupied columns per lane
+
+  // Longer items first so they get the top lanes and short ones fill in below
+  const inWeek = getItemsInRange(items, weekStart, weekEnd)
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => {
+      const length = (i: CalendarItem) => differenceInCalendarDays(i.end, i.start);
+      return (
+        a.item.start.getTime() - b.item.start.getTime() || length(b.item) - length(a.item) || a.index - b.index
+      );
+    });
+
+  return inWeek.map(({ item }) => {
+    const first = maxDate([item.start, weekStart]);
+    const last = minDate([item.end, weekEnd]);
+    const startColumn = differenceInCalendarDays(first, weekStart);
+    const span = differenceInCalendarDays(last, first) + 1;
+    const columns = Array.from({ length: span }, (_, i) => startColumn + i);
+
+    let lane = lanes.findIndex((occupied) => columns.every((column) => !occupied.includes(column)));
+    if (lane === -1) {
+      lane = lanes.length;
+      lanes.push([]);
+    }
+    lanes[lane].push(...columns);
+
+    return {
+      item,
+      startColumn,
+      span,
+      lane,
+      continuesBefore: isBefore(item.start, weekStart),
+      continuesAfter: isAfter(item.end, weekEnd),
+    };
+  });
+};
+
+// New value for a date property after moving an item by a number of days
+// The time of day and the length of a range are kept
+export const shiftDateValue = (value: any, days: number, includeTime?: boolean): DatePropertyValue | null => {
+  const parsed = parseDateValue(value);
+  if (!parsed) return null;
+  const result: DatePropertyValue = { start: serializeDate(addDays(parsed.start, days), includeTime) };
+  if (parsed.end) result.end = serializeDate(addDays(parsed.end, days), includeTime);
+  return result;
+};
+
+// Value for a page created on a clicked day
+export const dateValueForDay = (day: Date, includeTime?: boolean): DatePropertyValue => ({
+  start: serializeDate(startOfDay(day), includeTime),
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { buildDependencyGraph, computePageProperties } from './dependencies';
+import { DatabaseProperty } from '../../types/database';
+import { makePage } from '../../test/fixtures';
+
+describe('Computed property dependencies', () => {
+    const formula = (name: string, expression: string): DatabaseProperty => ({
+        type: 'formula',
+        name,
+        expression,
+        returnType: 'number',
+    });
+
+    it('should order formulas so dependencies run first', () => {
+        const graph = buildDependencyGraph({
+            Total: formula('Total', 'prop("Subtotal") + prop("Tax")'),
+            Tax: formula('Tax', 'prop("Subtotal") * 0.2'),
+            Subtotal: formula('Subtotal', 'prop("Price") * prop("Qty")'),
+        });
+        expect(graph.order).toEqual(['Subtotal', 'Tax', 'Total']);
+        expect(graph.cycles).toEqual({});
+    });
+
+    it('should let formulas read other formulas and rollups', () => {
+        const task = makePage('task', { Hours: 3 });
+        const project = makePage(
+            'project',
+            { Rate: 50 },
+            {
+                properties: {
+                    Tasks: { type: 'relation', name: 'Tasks', linkedPageIds: ['task'] },
+                    Hours: { type: 'rollup', name: 'Hours', relationProperty: 'Tasks', targetProperty: 'Hours', aggregation: 'sum' },
+                    Cost: formula('Cost', 'prop("Hours") * prop("Rate")'),
+                    Budget: formula('Budget', 'prop("Cost") + 10'),
+                },
+            }
+        );
+
+        const results = computePageProperties(project, [project, task]);
+        expect(results.Hours.value).toBe(3);
+        expect(results.Cost.value).toBe(150);
+        expect(results.Budget.value).toBe(160);
+    });
+
+    it('should report cycles and the properties that depend on them', () => {
+        const page = makePage('p', {}, {
+            properties: {
+                A: formula('A', 'prop("B") + 1'),
+                B: formula('B', 'prop("A") + 1'),
+                C: formula('C', 'prop("A") * 2'),
+                Self: formula('Self', 'prop("Self")'),
+            },
+        });
+
+        const results = computePageProperties(page, [page]);
+        expect(results.A.type).toBe('error');
+        expect(results.A.error).toMatch(/Circular reference: A → B → A/);
+        expect(results.B.type).toBe('error');
+        expect(results.C.error).toMatch(/Depends on "A"/);
+        expect(results.Self.error).toMatch(/Circular reference/);
+    });
+
+    it('should not reuse results of formulas that read the clock', () => {
+        const page = makePage('p', { Start: new Date(2025, 0, 1) }, {
+            properties: { Days: formula('Days', 'dateBetween(today(), prop("Start"), "days")') },
+        });
+        const pages = [page];
+
+        expect(computePageProperties(page, pages, new Date(2025, 0, 2, 12)).Days.value).toBe(1);
+        expect(computePageProperties(page, pages, new Date(2025, 0, 5, 12)).Days.value).toBe(4);
+
+        // Without now() or today() the results are kept for the same objects
+        const plain = makePage('q', { Hours: 2 }, { properties: { Double: formula('Double', 'prop("Hours") * 2') } });
+        expect(computePageProperties(plain, pages)).toBe(computePageProperties(plain, pages));
+    });
+});
@@ -0,0 +1,178 @@
+import { Page } from '../../types/workspace';
+import { DatabaseProperty, FormulaContext, FormulaResult } from '../../types/database';
+import { FormulaError, getFormulaReferences, parseFormulaCached, runFormula, toFormulaValue } from './formula';
+import { calculateRollup } from './relations';
+import { resolvePropertySchema } from './properties';
+
+// Computed properties (formulas and rollups) can read each other by name,
+// e.g. a "Total" formula using prop("Subtotal") where Subtotal is itself a formula
+// or a rollup. This module works out the order to compute them in, catches
+// circular references, and caches the results per page.
+
+// Dependency graph for the computed properties of one page schema
+export interface PropertyDependencyGraph {
+  order: string[]; // Computed properties in a safe evaluation order (cycles excluded)
+  dependencies: Record<string, string[]>; // Computed properties each property reads
+  cycles: Record<string, string[]>; // Properties stuck in a cycle, mapped to the cycle path
+}
+
+const isComputed = (property: DatabaseProperty | undefined): boolean =>
+  property?.type === 'formula' || property?.type === 'rollup';
+
+// Graphs only change when the schema object changes, so cache them by reference
+const graphCache = new WeakMap<object, PropertyDependencyGraph>();
+
+// Build the dependency graph for a page schema
+// Formulas with syntax errors are kept as leaves; their error shows up when they run
+export const buildDependencyGraph = (
+  schema: Record<string, DatabaseProperty>
+): PropertyDependencyGraph => {
+  const cached = graphCache.get(schema);
+  if (cached) return cached;
+
+  const dependencies: Record<string, string[]> = {};
+  Object.entries(schema).forEach(([name, property]) => {
+    if (property.type === 'rollup') {
+      // Rollups read from linked pages, never from computed values on this page
+      dependencies[name] = [];
+    } else if (property.type === 'formula') {
+      try {
+        dependencies[name] = getFormulaReferences(parseFormulaCached(property.expression)).filter((ref) =>
+          isComputed(schema[ref])
+        );
+      } catch (error) {
+        if (!(error instanceof FormulaError)) throw error;
+        dependencies[name] = [];
+      }
+    }
+  });
+
+  // Depth-first search: a property met again while still on the stack closes a cycle
+  const order: string[] = [];
+  const cycles: Record<string, string[]> = {};
+  const state: Record<string, 'visiting' | 'done'> = {};
+  const stack: string[] = [];
+
+  const visit = (name: string) => {
+    if (state[name] === 'done') return;
+    if (state[name] === 'visiting') {
+      const path = [...stack.slice(stack.indexOf(name)), name];
+      path.slice(0, -1).forEach((member) => {
+        cycles[member] = cycles[member] || path;
+      });
+      return;
+    }
+
+    state[name] = 'visiting';
+    stack.push(name);
+    dependencies[name].forEach(visit);
+    stack.pop();
+    state[name] = 'done';
+
+    if (!cycles[name]) order.push(name);
+  };
+
+  Object.keys(dependencies).forEach(visit);
+
+  const graph = { order, dependencies, cycles };
+  graphCache.set(schema, graph);
+  return graph;
+};
+
+// Describe a rollup value with the same shape as a formula result
+const toRollupResult = (value: any): FormulaResult => {
+  const normalized = toFormulaValue(value);
+  if (normalized === null) return { value: null, type: 'text' };
+  if (typeof normalized === 'number') return { value: normalized, type: 'number' };
+  if (typeof normalized === 'boolean') return { value: normalized, type: 'boolean' };
+  if (normalized instanceof Date) return { value: normalized, type: 'date' };
+  return { value: normalized, type: 'text' };
+};
+
+// Results for a page stay valid while the page and the page list are the same objects,
+// unless a formula reads the clock: those are computed again for every `now`
+const resultCache = new WeakMap<Page, { allPages: Page[]; results: Record<string, FormulaResult> }>();
+
+const TIME_FUNCTION = /\b(now|today)\s*\(/;
+
+// Whether any formula in the schema calls now() or today()
+const readsClock = (schema: Record<string, DatabaseProperty>) =>
+  Object.values(schema).some((property) => property?.type === 'formula' && TIME_FUNCTION.test(property.expression || ''));
+
+// Compute every formula and rollup on a page, in dependency order
+// Returns one FormulaResult per computed property; cycles and failed dependencies come back as errors
+export const computePageProperties = (
+  page: Page,
+  allPages: Page[],
+  now: Date = new Date()
+): Record<string, FormulaResult> => {
+  const schema = (page.properties || {}) as Record<string, DatabaseProperty>;
+  const cacheable = !readsClock(schema);
+  const cached = cacheable ? resultCache.get(page) : undefined;
+  if (cached && cached.allPages === allPages) return cached.results;
+
+  const graph = buildDependencyGraph(schema);
+  const results: Record<string, FormulaResult> = {};
+
+  // Formulas see the raw property values plus every computed value evaluated so far
+  const context: FormulaContext = {
+    properties: { ...(page.propertyValues || {}) },
+    now,
+    page: {
+      title: page.title,
+      createdAt: page.createdAt,
+      updatedAt: page.updatedAt,
+    },
+  };
+
+  Object.entries(graph.cycles).forEach(([name, path]) => {
+    results[name] = {
+      value: null,
+      type: 'error',
+      error: `Circular reference: ${path.join(' → ')}`,
+    };
+  });
+
+  graph.order.forEach((name) => {
+    const property = schema[name];
+
+    const failedDependency = graph.dependencies[name].find((dep) => results[dep]?.type === 'error');
+    if (failedDependency) {
+      results[name] = {
+        value: null,
+        type: 'error',
+        error: `Depends on "${failedDependency}", which has an error`,
+      };
+    } else if (property.type === 'rollup') {
+      results[name] = toRollupResult(calculateRollup(page, property, allPages));
+    } else if (property.type === 'formula') {
+      results[name] = runFormula(property, context);
+    }
+
+    if (results[name]) {
+      context.properties[name] = results[name].value;
+    }
+  });
+
+  if (cacheable) resultCache.set(page, { allPages, results });
+  return results;
+};
+
+// Rows of a database get their formulas and rollups from the database page's schema
+const rowCache = new WeakMap<Page, { schema: object; allPages: Page[]; results: Record<string, FormulaResult> }>();
+
+// Compute the formulas and rollups of a database row
+export const computeRowProperties = (
+  row: Page,
+  schema: Record<string, DatabaseProperty>,
+  allPages: Page[],
+  now: Date = new Date()
+): Record<string, FormulaResult> => {
+  const cacheable = !readsClock(schema);
+  const cached = cacheable ? rowCache.get(row) : undefined;
+  if (cached && cached.schema === schema && cached.allPages === allPages) return cached.results;
+
+  const results = computePageProperties({ ...row, properties: resolvePropertySchema(row, { properties: schema }) }, allPages, now);
+  if (cacheable) rowCache.set(row, { schema, allPages, results });
+  return results;
+};
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { parseFormula, runFormula, FormulaError } from './formula';
+import { FormulaContext, FormulaProperty } from '../../types/database';
+
+describe('Formula engine', () => {
+    const context: FormulaContext = {
+        properties: {
+            Price: 100,
+            Tax: 20,
+            Name: 'Say "hi"',
+            Done: true,
+            Due: '2025-01-10',
+            Tags: ['a', 'b'],
+        },
+        now: new Date(2025, 0, 1, 15, 30),
+        page: {
+            title: 'Launch',
+            createdAt: new Date(2024, 11, 25),
+            updatedAt: new Date(2024, 11, 31),
+        },
+    };
+
+    const formula = (expression: string, returnType: FormulaProperty['returnType'] = 'text'): FormulaProperty => ({
+        type: 'formula',
+        name: 'Test',
+        expression,
+        returnType,
+    });
+
+    describe('evaluation', () => {
+        it('should respect operator precedence', () => {
+            expect(runFormula(formula('prop("Price") + prop("Tax") * 2', 'number'), context).value).toBe(140);
+            expect(runFormula(formula('(prop("Price") + prop("Tax")) * 2', 'number'), context).value).toBe(240);
+            expect(runFormula(formula('2 ^ 3 ^ 2', 'number'), context).value).toBe(512);
+        });
+
+        it('should keep quotes inside string values intact', () => {
+            const result = runFormula(formula('concat(prop("Name"), " - ", page.title)'), context);
+            expect(result.value).toBe('Say "hi" - Launch');
+        });
+
+        it('should support conditionals and logic', () => {
+            expect(runFormula(formula('if(prop("Done"), "yes", "no")'), context).value).toBe('yes');
+            expect(runFormula(formula('prop("Price") > 50 && !prop("Done") ? 1 : 2', 'number'), context).value).toBe(2);
+            expect(runFormula(formula('contains(prop("Tags"), "b")', 'boolean'), context).value).toBe(true);
+        });
+
+        it('should only evaluate the chosen if() branch', () => {
+            const result = runFormula(formula('if(prop("Tax") == 0, prop("Price") / prop("Tax"), 0)', 'number'), context);
+            expect(result.value).toBe(0);
+        });
+
+        it('should handle dates', () => {
+            expect(runFormula(formula('dateBetween(prop("Due"), today(), "days")', 'number'), context).value).toBe(9);
+            const added = runFormula(formula('dateAdd(page.createdAt, 1, "week")', 'date'), context);
+            expect(added.type).toBe('date');
+            expect((added.value as Date).getDate()).toBe(1);
+        });
+    });
+
+    describe('sandboxing', () => {
+        it('should reject identifiers that are not whitelisted functions', () => {
+            const result = runFormula(formula('constructor.constructor("alert(1)")()'), context);
+            expect(result.type).toBe('error');
+            expect(result.errorPosition).toBe(0);
+        });
+
+        it('should reject unknown functions', () => {
+            expect(() => parseFormula('fetch("https://example.com")')).toThrow(FormulaError);
+        });
+
+        it('should not treat Object.prototype members as functions', () => {
+            for (const expression of ['constructor("a")', 'toString()', 'valueOf(1)', 'hasOwnProperty("if")', '__proto__()']) {
+                expect(() => parseFormula(expression)).toThrow(/Unknown function/);
+            }
+        });
+
+        it('should not treat Object.prototype members as date units', () => {
+            const result = runFormula(formula('dateBetween(today(), today(), "constructor")', 'number'), context);
+            expect(result.type).toBe('error');
+            expect(result.error).toMatch(/unknown date unit "constructor"/);
+        });
+    });
+
+    describe('errors', () => {
+        it('should report the position of syntax errors', () => {
+            const result = runFormula(formula('prop("Price") + * 2'), context);
+            expect(result.type).toBe('error');
+            expect(result.errorPosition).toBe(16);
+        });
+
+        it('should report type errors at the offending operator', () => {
+            const result = runFormula(formula('prop("Price") - "x"', 'number'), context);
+            expect(result.error).toMatch(/expects a number/);
+            expect(result.errorPosition).toBe(14);
+        });
+
+        it('should report operators that do not return a valid number', () => {
+            for (const expression of ['2 ^ 9999', '(0 - 1) ^ 0.5', '10 ^ 300 * 10 ^ 300', '10 ^ 300 / 10 ^ -300']) {
+                const result = runFormula(formula(expression, 'number'), context);
+                expect(result.type).toBe('error');
+                expect(result.error).toMatch(/did not return a valid number/);
+            }
+            expect(runFormula(formula('1 + 2 ^ 9999', 'number'), context).errorPosition).toBe(6);
+        });
+
+        it('should enforce the declared return type', () => {
+            expect(runFormula(formula('prop("Price")', 'boolean'), context).type).toBe('error');
+            expect(runFormula(formula('prop("Price")', 'text'), context)).toEqual({ value: '100', type: 'text' });
+            expect(runFormula(formula('prop("Missing")', 'number'), context)).toEqual({ value: null, type: 'number' });
+        });
+    });
+});
@@ -0,0 +1,998 @@
+import {
+  add,
+  differenceInCalendarDays,
+  differenceInHours,
+  differenceInMinutes,
+  differenceInMonths,
+  differenceInQuarters,
+  differenceInSeconds,
+  differenceInWeeks,
+  differenceInYears,
+  format as formatDateFns,
+  parseISO,
+  startOfDay,
+} from 'date-fns';
+import { FormulaContext, FormulaProperty, FormulaResult } from '../../types/database';
+
+// Formula language for database pages
+// Formulas are parsed into a small syntax tree and interpreted here, so page authors can
+// only call the functions whitelisted in FORMULA_FUNCTIONS - nothing is ever handed to eval.
+//
+// Syntax overview:
+//   prop("Price") * 1.2                       property references
+//   "Due " + formatDate(prop("Due"), "MMM d")  strings ("..." or '...', backslash escapes)
+//   if(prop("Done"), "✅", "⏳")               function calls
+//   prop("Hours") > 8 && !prop("Paused")      comparison and logic operators
+//   prop("Score") >= 50 ? "Pass" : "Fail"     ternary
+//   page.title, page.createdAt                built-in page fields
+
+// Error thrown for anything that goes wrong while reading or running a formula
+// `position` is the character offset in the expression where the problem was found
+export class FormulaError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'FormulaError';
+    this.position = position;
+  }
+}
+
+// Values a formula can produce while running
+export type FormulaValue = string | number | boolean | Date | null | FormulaValue[];
+
+// ==========================================
+// TOKENIZER
+// ==========================================
+
+export type FormulaTokenType = 'number' | 'string' | 'identifier' | 'operator' | 'eof';
+
+export interface FormulaToken {
+  type: FormulaTokenType;
+  value: string;
+  position: number;
+}
+
+// Operators are matched longest-first so "<=" wins over "<"
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '+', '-', '*', '/', '%', '^', '<', '>', '!', '?', ':', '(', ')', ',', '.'];
+
+const STRING_ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  '"': '"',
+  "'": "'",
+  '\\': '\\',
+};
+
+// Split an expression into tokens
+export const tokenizeFormula = (source: string): FormulaToken[] => {
+  const tokens: FormulaToken[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    // Skip whitespace between tokens
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // Numbers: 42, 3.14
+    if (/[0-9]/.test(char)) {
+      const start = i;
+      while (i < source.length && /[0-9]/.test(source[i])) i++;
+      if (source[i] === '.' && /[0-9]/.test(source[i + 1] ?? '')) {
+        i++;
+        while (i < source.length && /[0-9]/.test(source[i])) i++;
+      }
+      tokens.push({ type: 'number', value: source.slice(start, i), position: start });
+      continue;
+    }
+
+    // Strings: "text" or 'text', quotes inside are escaped with a backslash
+    if (char === '"' || char === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === '\\') {
+          const escaped = source[i + 1];
+          if (escaped === undefined) break;
+          value += STRING_ESCAPES[escaped] ?? escaped;
+          i += 2;
+        } else {
+          value += source[i];
+          i++;
+        }
+      }
+      if (i >= source.length) {
+        throw new FormulaError('Unterminated string', start);
+      }
+      i++; // closing quote
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    // Identifiers: function names, true/false/null and page
+    if (/[A-Za-z_]/.test(char)) {
+      const start = i;
+      while (i < source.length && /[A-Za-z0-9_]/.test(source[i])) i++;
+      tokens.push({ type: 'identifier', value: source.slice(start, i), position: start });
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, i));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, position: i });
+      i += operator.length;
+      continue;
+    }
+
+    if (char === '=') {
+      throw new FormulaError('Unexpected "=", use "==" to compare values', i);
+    }
+    throw new FormulaError(`Unexpected character "${char}"`, i);
+  }
+
+  tokens.push({ type: 'eof', value: '', position: source.length });
+  return tokens;
+};
+
+// ==========================================
+// PARSER
+// ==========================================
+
+// Built-in fields available through `page.<field>`
+const PAGE_FIELDS = ['title', 'createdAt', 'updatedAt'] as const;
+type PageField = (typeof PAGE_FIELDS)[number];
+
+export type FormulaNode =
+  | { kind: 'literal'; value: string | number | boolean | null; position: number }
+  | { kind: 'property'; name: string; position: number }
+  | { kind: 'pageField'; field: PageField; position: number }
+  | { kind: 'unary'; operator: '-' | '!'; operand: FormulaNode; position: number }
+  | { kind: 'binary'; operator: string; left: FormulaNode; right: FormulaNode; position: number }
+  | { kind: 'conditional'; test: FormulaNode; consequent: FormulaNode; alternate: FormulaNode; position: number }
+  | { kind: 'call'; name: string; args: FormulaNode[]; position: number };
+
+// Binary operators grouped by precedence, lowest first
+// `^` is handled separately because it is right-associative
+const BINARY_PRECEDENCE: string[][] = [
+  ['||'],
+  ['&&'],
+  ['==', '!='],
+  ['<', '<=', '>', '>='],
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+
+// Recursive-descent parser that turns tokens into a FormulaNode tree
+class FormulaParser {
+  private tokens: FormulaToken[];
+  private index = 0;
+
+  constructor(tokens: FormulaToken[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): FormulaNode {
+    if (this.peek().type === 'eof') {
+      throw new FormulaError('Formula is empty', 0);
+    }
+    const node = this.parseConditional();
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      throw new FormulaError(`Unexpected ${describeToken(next)}`, next.position);
+    }
+    return node;
+  }
+
+  private peek(): FormulaToken {
+    return this.tokens[this.index];
+  }
+
+  private next(): FormulaToken {
+    const token = this.tokens[this.index];
+    if (token.type !== 'eof') this.index++;
+    return token;
+  }
+
+  private isOperator(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'operator' && token.value === value;
+  }
+
+  private expectOperator(value: string): FormulaToken {
+    const token = this.peek();
+    if (token.type !== 'operator' || token.value !== value) {
+      throw new FormulaError(`Expected "${value}" but found ${describeToken(token)}`, token.position);
+    }
+    return this.next();
+  }
+
+  // test ? consequent : alternate
+  private parseConditional(): FormulaNode {
+    const test = this.parseBinary(0);
+    if (!this.isOperator('?')) return test;
+
+    const questionMark = this.next();
+    const consequent = this.parseConditional();
+    this.expectOperator(':');
+    const alternate = this.parseConditional();
+    return { kind: 'conditional', test, consequent, alternate, position: questionMark.position };
+  }
+
+  private parseBinary(level: number): FormulaNode {
+    if (level >= BINARY_PRECEDENCE.length) return this.parseUnary();
+
+    let left = this.parseBinary(level + 1);
+    while (this.peek().type === 'operator' && BINARY_PRECEDENCE[level].includes(this.peek().value)) {
+      const operator = this.next();
+      const right = this.parseBinary(level + 1);
+      left = { kind: 'binary', operator: operator.value, left, right, position: operator.position };
+    }
+    return left;
+  }
+
+  private parseUnary(): FormulaNode {
+    if (this.isOperator('-') || this.isOperator('!')) {
+      const operator = this.next();
+      const operand = this.parseUnary();
+      return { kind: 'unary', operator: operator.value as '-' | '!', operand, position: operator.position };
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): FormulaNode {
+    const base = this.parsePrimary();
+    if (!this.isOperator('^')) return base;
+
+    const operator = this.next();
+    // Right-associative: 2 ^ 3 ^ 2 is 2 ^ (3 ^ 2)
+    const exponent = this.parseUnary();
+    return { kind: 'binary', operator: '^', left: base, right: exponent, position: operator.position };
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.value), position: token.position };
+
+      case 'string':
+        return { kind: 'literal', value: token.value, position: token.position };
+
+      case 'identifier':
+        return this.parseIdentifier(token);
+
+      case 'operator':
+        if (token.value === '(') {
+          const inner = this.parseConditional();
+          this.expectOperator(')');
+          return inner;
+        }
+        throw new FormulaError(`Unexpected ${describeToken(token)}`, token.position);
+
+      default:
+        throw new FormulaError('Unexpected end of formula', token.position);
+    }
+  }
+
+  private parseIdentifier(token: FormulaToken): FormulaNode {
+    const name = token.value;
+
+    if (name === 'true' || name === 'false') {
+      return { kind: 'literal', value: name === 'true', position: token.position };
+    }
+    if (name === 'null') {
+      return { kind: 'literal', value: null, position: token.position };
+    }
+
+    // page.title, page.createdAt, page.updatedAt
+    if (name === 'page') {
+      this.expectOperator('.');
+      const field = this.next();
+      if (field.type !== 'identifier' || !PAGE_FIELDS.includes(field.value as PageField)) {
+        throw new FormulaError(
+          `Unknown page field, expected one of: ${PAGE_FIELDS.join(', ')}`,
+          field.position
+        );
+      }
+      return { kind: 'pageField', field: field.value as PageField, position: token.position };
+    }
+
+    if (!this.isOperator('(')) {
+      throw new FormulaError(`Unknown name "${name}", use prop("${name}") to read a property`, token.position);
+    }
+
+    const args = this.parseArguments();
+
+    // prop() needs a literal name so dependencies can be read without running the formula
+    if (name === 'prop') {
+      const [arg] = args;
+      if (args.length !== 1 || arg.kind !== 'literal' || typeof arg.value !== 'string') {
+        throw new FormulaError('prop() expects a property name in quotes, e.g. prop("Price")', token.position);
+      }
+      return { kind: 'property', name: arg.value, position: token.position };
+    }
+
+    const definition = lookup(FORMULA_FUNCTIONS, name);
+    if (!definition) {
+      throw new FormulaError(`Unknown function "${name}"`, token.position);
+    }
+    if (args.length < definition.minArgs || args.length > definition.maxArgs) {
+      throw new FormulaError(`${name}() ${describeArity(definition)}, got ${args.length}`, token.position);
+    }
+
+    return { kind: 'call', name, args, position: token.position };
+  }
+
+  private parseArguments(): FormulaNode[] {
+    this.expectOperator('(');
+    const args: FormulaNode[] = [];
+    if (this.isOperator(')')) {
+      this.next();
+      return args;
+    }
+    for (;;) {
+      args.push(this.parseConditional());
+      if (this.isOperator(',')) {
+        this.next();
+        continue;
+      }
+      this.expectOperator(')');
+      return args;
+    }
+  }
+}
+
+const describeToken = (token: FormulaToken): string => {
+  if (token.type === 'eof') return 'end of formula';
+  if (token.type === 'string') return 'text';
+  return `"${token.value}"`;
+};
+
+const describeArity = ({ minArgs, maxArgs }: FormulaFunction): string => {
+  if (minArgs === maxArgs) return `expects ${minArgs} argument${minArgs === 1 ? '' : 's'}`;
+  if (maxArgs === Infinity) return `expects at least ${minArgs} argument${minArgs === 1 ? '' : 's'}`;
+  return `expects ${minArgs} to ${maxArgs} arguments`;
+};
+
+// Parse an expression into a syntax tree, throwing FormulaError on bad syntax
+export const parseFormula = (source: string): FormulaNode => {
+  return new FormulaParser(tokenizeFormula(source)).parse();
+};
+
+// Parsed trees (or the syntax error) keyed by expression
+// Views re-evaluate the same few expressions for every row, so parsing once saves a lot of work
+const parseCache = new Map<string, FormulaNode | FormulaError>();
+const PARSE_CACHE_LIMIT = 500;
+
+// Same as parseFormula but remembers the result for each expression
+export const parseFormulaCached = (source: string): FormulaNode => {
+  let entry = parseCache.get(source);
+  if (!entry) {
+    try {
+      entry = parseFormula(source);
+    } catch (error) {
+      if (!(error instanceof FormulaError)) throw error;
+      entry = error;
+    }
+    if (parseCache.size >= PARSE_CACHE_LIMIT) parseCache.clear();
+    parseCache.set(source, entry);
+  }
+  if (entry instanceof FormulaError) throw entry;
+  return entry;
+};
+
+// Collect the property names a formula reads through prop("...")
+// Used by the dependency graph to decide evaluation order
+export const getFormulaReferences = (node: FormulaNode): string[] => {
+  const names = new Set<string>();
+  const visit = (current: FormulaNode) => {
+    switch (current.kind) {
+      case 'property':
+        names.add(current.name);
+        break;
+      case 'unary':
+        visit(current.operand);
+        break;
+      case 'binary':
+        visit(current.left);
+        visit(current.right);
+        break;
+      case 'conditional':
+        visit(current.test);
+        visit(current.consequent);
+        visit(current.alternate);
+        break;
+      case 'call':
+        current.args.forEach(visit);
+        break;
+    }
+  };
+  visit(node);
+  return Array.from(names);
+};
+
+// ==========================================
+// VALUE HELPERS
+// ==========================================
+
+// Turn stored property values into formula values
+// Firestore Timestamps and date property values become Dates, anything we can't represent becomes null
+export const toFormulaValue = (value: any): FormulaValue => {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  if (value instanceof Date) return value;
+  if (typeof value?.toDate === 'function') return value.toDate();
+  if (Array.isArray(value)) return value.map(toFormulaValue);
+  // Date properties store { start, end? } - formulas see the start date
+  if (typeof value === 'object' && typeof value.start === 'string') {
+    const start = parseISO(value.start);
+    return isNaN(start.getTime()) ? null : start;
+  }
+  return null;
+};
+
+const typeName = (value: FormulaValue): string => {
+  if (value === null) return 'empty';
+  if (value instanceof Date) return 'date';
+  if (Array.isArray(value)) return 'list';
+  if (typeof value === 'string') return 'text';
+  return typeof value;
+};
+
+const isEmpty = (value: FormulaValue): boolean =>
+  value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+// Convert any value to text the way it should appear in a formula result
+export const formatFormulaValue = (value: FormulaValue): string => {
+  if (value === null) return '';
+  if (value instanceof Date) return formatDateFns(value, 'MMM d, yyyy');
+  if (Array.isArray(value)) return value.map(formatFormulaValue).join(', ');
+  return String(value);
+};
+
+const expectNumber = (value: FormulaValue, fn: string, position: number): number => {
+  if (typeof value !== 'number') {
+    throw new FormulaError(`${fn} expects a number but got ${typeName(value)}`, position);
+  }
+  return value;
+};
+
+const expectText = (value: FormulaValue, fn: string, position: number): string => {
+  if (typeof value !== 'string') {
+    throw new FormulaError(`${fn} expects text but got ${typeName(value)}`, position);
+  }
+  return value;
+};
+
+// Dates may be stored as ISO strings, so accept anything that parses cleanly
+const expectDate = (value: FormulaValue, fn: string, position: number): Date => {
+  if (value instanceof Date) return value;
+  if (typeof value === 'string' || typeof value === 'number') {
+    // parseISO reads date-only strings ("2025-01-10") as local midnight rather than UTC
+    const parsed = typeof value === 'string' ? parseISO(value) : new Date(value);
+    if (!isNaN(parsed.getTime())) return parsed;
+  }
+  throw new FormulaError(`${fn} expects a date but got ${typeName(value)}`, position);
+};
+
+const valuesEqual = (a: FormulaValue, b: FormulaValue): boolean => {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => valuesEqual(item, b[i]));
+  }
+  return a === b;
+};
+
+// Reads a name from one of the tables below, never from Object.prototype
+// (so "constructor" or "toString" aren't functions or units)
+const lookup = <T>(table: Record<string, T>, name: string): T | undefined =>
+  Object.prototype.hasOwnProperty.call(table, name) ? table[name] : undefined;
+
+// Units accepted by dateAdd, dateSubtract and dateBetween
+const DATE_UNITS: Record<string, 'years' | 'quarters' | 'months' | 'weeks' | 'days' | 'hours' | 'minutes' | 'seconds'> = {
+  year: 'years',
+  years: 'years',
+  quarter: 'quarters',
+  quarters: 'quarters',
+  month: 'months',
+  months: 'months',
+  week: 'weeks',
+  weeks: 'weeks',
+  day: 'days',
+  days: 'days',
+  hour: 'hours',
+  hours: 'hours',
+  minute: 'minutes',
+  minutes: 'minutes',
+  second: 'seconds',
+  seconds: 'seconds',
+};
+
+const expectDateUnit = (value: FormulaValue, fn: string, position: number) => {
+  const unit = lookup(DATE_UNITS, expectText(value, fn, position).toLowerCase());
+  if (!unit) {
+    throw new FormulaError(`${fn} got an unknown date unit "${value}"`, position);
+  }
+  return unit;
+};
+
+const DIFFERENCE_BY_UNIT = {
+  years: differenceInYears,
+  quarters: differenceInQuarters,
+  months: differenceInMonths,
+  weeks: differenceInWeeks,
+  days: differenceInCalendarDays,
+  hours: differenceInHours,
+  minutes: differenceInMinutes,
+  seconds: differenceInSeconds,
+};
+
+// ==========================================
+// FUNCTION LIBRARY
+// ==========================================
+
+// A whitelisted formula function
+// `positions` holds the source position of each argument so errors can point at them
+export interface FormulaFunction {
+  minArgs: number;
+  maxArgs: number;
+  description: string;
+  call: (args: FormulaValue[], positions: number[], context: FormulaContext) => FormulaValue;
+}
+
+// if, and and or are listed here for arity checks and docs,
+// but the interpreter evaluates them lazily (see evaluateFormulaNode)
+export const FORMULA_FUNCTIONS: Record<string, FormulaFunction> = {
+  // Logic
+  if: {
+    minArgs: 3,
+    maxArgs: 3,
+    description: 'if(condition, then, else)',
+    call: ([condition, whenTrue, whenFalse]) => (condition === true ? whenTrue : whenFalse),
+  },
+  and: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    description: 'and(a, b, ...) - true when every value is true',
+    call: (args) => args.every((arg) => arg === true),
+  },
+  or: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    description: 'or(a, b, ...) - true when any value is true',
+    call: (args) => args.some((arg) => arg === true),
+  },
+  not: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: 'not(value)',
+    call: ([value]) => value !== true,
+  },
+  empty: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: 'empty(value) - true for empty text, lists or missing values',
+    call: ([value]) => isEmpty(value),
+  },
+
+  // Text
+  concat: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    description: 'concat(a, b, ...) - joins values into one text',
+    call: (args) => args.map(formatFormulaValue).join(''),
+  },
+  join: {
+    minArgs: 2,
+    maxArgs: Infinity,
+    description: 'join(separator, a, b, ...) - joins values (or a list) with a separator',
+    call: ([separator, ...rest], positions) => {
+      const sep = expectText(separator, 'join()', positions[0]);
+      const values = rest.length === 1 && Array.isArray(rest[0]) ? rest[0] : rest;
+      return values.map(formatFormulaValue).join(sep);
+    },
+  },
+  length: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: 'length(text or list)',
+    call: ([value], positions) => {
+      if (value === null) return 0;
+      if (Array.isArray(value)) return value.length;
+      return expectText(value, 'length()', positions[0]).length;
+    },
+  },
+  contains: {
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'contains(text or list, search)',
+    call: ([haystack, needle], positions) => {
+      if (haystack === null) return false;
+      if (Array.isArray(haystack)) return haystack.some((item) => valuesEqual(item, needle));
+      return expectText(haystack, 'contains()', positions[0]).includes(formatFormulaValue(needle));
+    },
+  },
+  format: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: 'format(value) - converts any value to text',
+    call: ([value]) => formatFormulaValue(value),
+  },
+  lower: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: 'lower(text)',
+    call: ([value], positions) => expectText(value, 'lower()', positions[0]).toLowerCase(),
+  },
+  upper: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: 'upper(text)',
+    call: ([value], positions) => expectText(value, 'upper()', positions[0]).toUpperCase(),
+  },
+  trim: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: 'trim(text)',
+    call: ([value], positions) => expectText(value, 'trim()', positions[0]).trim(),
+  },
+  replace: {
+    minArgs: 3,
+    maxArgs: 3,
+    description: 'replace(text, search, replacement) - replaces every occurrence',
+    call: ([value, search, replacement], positions) =>
+      expectText(value, 'replace()', positions[0])
+        .split(expectText(search, 'replace()', positions[1]))
+        .join(expectText(replacement, 'replace()', positions[2])),
+  },
+  slice: {
+    minArgs: 2,
+    maxArgs: 3,
+    description: 'slice(text, start, end?)',
+    call: ([value, start, end], positions) =>
+      expectText(value, 'slice()', positions[0]).slice(
+        expectNumber(start, 'slice()', positions[1]),
+        end === undefined ? undefined : expectNumber(end, 'slice()', positions[2])
+      ),
+  },
+  toNumber: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: 'toNumber(value) - empty when the value is not numeric',
+    call: ([value]) => {
+      if (typeof value === 'number') return value;
+      if (typeof value === 'boolean') return value ? 1 : 0;
+      if (value instanceof Date) return value.getTime();
+      if (typeof value === 'string' && value.trim() !== '') {
+        const parsed = Number(value);
+        return isNaN(parsed) ? null : parsed;
+      }
+      return null;
+    },
+  },
+
+  // Math
+  round: {
+    minArgs: 1,
+    maxArgs: 2,
+    description: 'round(number, decimals?)',
+    call: ([value, decimals], positions) => {
+      const factor = Math.pow(10, decimals === undefined ? 0 : expectNumber(decimals, 'round()', positions[1]));
+      return Math.round(expectNumber(value, 'round()', positions[0]) * factor) / factor;
+    },
+  },
+  floor: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: 'floor(number)',
+    call: ([value], positions) => Math.floor(expectNumber(value, 'floor()', positions[0])),
+  },
+  ceil: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: 'ceil(number)',
+    call: ([value], positions) => Math.ceil(expectNumber(value, 'ceil()', positions[0])),
+  },
+  abs: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: 'abs(number)',
+    call: ([value], positions) => Math.abs(expectNumber(value, 'abs()', positions[0])),
+  },
+  sqrt: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: 'sqrt(number)',
+    call: ([value], positions) => {
+      const number = expectNumber(value, 'sqrt()', positions[0]);
+      if (number < 0) throw new FormulaError('sqrt() of a negative number', positions[0]);
+      return Math.sqrt(number);
+    },
+  },
+  pow: {
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'pow(base, exponent)',
+    call: ([base, exponent], positions) =>
+      Math.pow(expectNumber(base, 'pow()', positions[0]), expectNumber(exponent, 'pow()', positions[1])),
+  },
+  min: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    description: 'min(a, b, ...) - smallest number, lists are expanded',
+    call: (args, positions) => {
+      const numbers = args.flat().map((arg, i) => expectNumber(arg as FormulaValue, 'min()', positions[i] ?? positions[0]));
+      return numbers.length > 0 ? Math.min(...numbers) : null;
+    },
+  },
+  max: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    description: 'max(a, b, ...) - largest number, lists are expanded',
+    call: (args, positions) => {
+      const numbers = args.flat().map((arg, i) => expectNumber(arg as FormulaValue, 'max()', positions[i] ?? positions[0]));
+      return numbers.length > 0 ? Math.max(...numbers) : null;
+    },
+  },
+
+  // Dates
+  now: {
+    minArgs: 0,
+    maxArgs: 0,
+    description: 'now() - current date and time',
+    call: (_args, _positions, context) => context.now,
+  },
+  today: {
+    minArgs: 0,
+    maxArgs: 0,
+    description: 'today() - current date at midnight',
+    call: (_args, _positions, context) => startOfDay(context.now),
+  },
+  dateAdd: {
+    minArgs: 3,
+    maxArgs: 3,
+    description: 'dateAdd(date, amount, unit) - unit is "days", "weeks", "months", ...',
+    call: ([date, amount, unit], positions) =>
+      add(expectDate(date, 'dateAdd()', positions[0]), {
+        [expectDateUnit(unit, 'dateAdd()', positions[2])]: expectNumber(amount, 'dateAdd()', positions[1]),
+      }),
+  },
+  dateSubtract: {
+    minArgs: 3,
+    maxArgs: 3,
+    description: 'dateSubtract(date, amount, unit)',
+    call: ([date, amount, unit], positions) =>
+      add(expectDate(date, 'dateSubtract()', positions[0]), {
+        [expectDateUnit(unit, 'dateSubtract()', positions[2])]: -expectNumber(amount, 'dateSubtract()', positions[1]),
+      }),
+  },
+  dateBetween: {
+    minArgs: 3,
+    maxArgs: 3,
+    description: 'dateBetween(end, start, unit) - whole units from start to end',
+    call: ([end, start, unit], positions) =>
+      DIFFERENCE_BY_UNIT[expectDateUnit(unit, 'dateBetween()', positions[2])](
+        expectDate(end, 'dateBetween()', positions[0]),
+        expectDate(start, 'dateBetween()', positions[1])
+      ),
+  },
+  formatDate: {
+    minArgs: 1,
+    maxArgs: 2,
+    description: 'formatDate(date, pattern?) - pattern uses date-fns tokens, e.g. "yyyy-MM-dd"',
+    call: ([date, pattern], positions) => {
+      const value = expectDate(date, 'formatDate()', positions[0]);
+      const fmt = pattern === undefined ? 'MMM d, yyyy' : expectText(pattern, 'formatDate()', positions[1]);
+      try {
+        return formatDateFns(value, fmt);
+      } catch (error: any) {
+        throw new FormulaError(`formatDate() got an invalid pattern: ${error.message}`, positions[1]);
+      }
+    },
+  },
+  year: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: 'year(date)',
+    call: ([date], positions) => expectDate(date, 'year()', positions[0]).getFullYear(),
+  },
+  month: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: 'month(date) - 1 for January',
+    call: ([date], positions) => expectDate(date, 'month()', positions[0]).getMonth() + 1,
+  },
+  day: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: 'day(date) - day of the month',
+    call: ([date], positions) => expectDate(date, 'day()', positions[0]).getDate(),
+  },
+};
+
+// ==========================================
+// INTERPRETER
+// ==========================================
+
+const evaluateBinary = (
+  operator: string,
+  left: FormulaValue,
+  right: FormulaValue,
+  node: FormulaNode
+): FormulaValue => {
+  const { position } = node;
+
+  switch (operator) {
+    case '==':
+      return valuesEqual(left, right);
+    case '!=':
+      return !valuesEqual(left, right);
+
+    case '+':
+      // Adding text to anything concatenates, like in spreadsheets
+      if (typeof left === 'string' || typeof right === 'string') {
+        return formatFormulaValue(left) + formatFormulaValue(right);
+      }
+      return expectNumber(left, '"+"', position) + expectNumber(right, '"+"', position);
+    case '-':
+      return expectNumber(left, '"-"', position) - expectNumber(right, '"-"', position);
+    case '*':
+      return expectNumber(left, '"*"', position) * expectNumber(right, '"*"', position);
+    case '/': {
+      const divisor = expectNumber(right, '"/"', position);
+      if (divisor === 0) throw new FormulaError('Division by zero', position);
+      return expectNumber(left, '"/"', position) / divisor;
+    }
+    case '%': {
+      const divisor = expectNumber(right, '"%"', position);
+      if (divisor === 0) throw new FormulaError('Division by zero', position);
+      return expectNumber(left, '"%"', position) % divisor;
+    }
+    case '^':
+      return Math.pow(expectNumber(left, '"^"', position), expectNumber(right, '"^"', position));
+
+    case '<':
+    case '<=':
+    case '>':
+    case '>=': {
+      // Compare numbers with numbers, text with text and dates with dates
+      let a: number | string;
+      let b: number | string;
+      if (left instanceof Date || right instanceof Date) {
+        a = expectDate(left, `"${operator}"`, position).getTime();
+        b = expectDate(right, `"${operator}"`, position).getTime();
+      } else if (typeof left === 'string' && typeof right === 'string') {
+        a = left;
+        b = right;
+      } else {
+        a = expectNumber(left, `"${operator}"`, position);
+        b = expectNumber(right, `"${operator}"`, position);
+      }
+      if (operator === '<') return a < b;
+      if (operator === '<=') return a <= b;
+      if (operator === '>') return a > b;
+      return a >= b;
+    }
+
+    default:
+      throw new FormulaError(`Unknown operator "${operator}"`, position);
+  }
+};
+
+// Run a parsed formula against a page context
+export const evaluateFormulaNode = (node: FormulaNode, context: FormulaContext): FormulaValue => {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+
+    case 'property':
+      return toFormulaValue(context.properties[node.name]);
+
+    case 'pageField':
+      return toFormulaValue(context.page[node.field]);
+
+    case 'unary': {
+      const operand = evaluateFormulaNode(node.operand, context);
+      if (node.operator === '!') return operand !== true;
+      return -expectNumber(operand, '"-"', node.position);
+    }
+
+    case 'binary': {
+      // && and || short-circuit so the right side can guard against empty values
+      if (node.operator === '&&') {
+        return evaluateFormulaNode(node.left, context) === true && evaluateFormulaNode(node.right, context) === true;
+      }
+      if (node.operator === '||') {
+        return evaluateFormulaNode(node.left, context) === true || evaluateFormulaNode(node.right, context) === true;
+      }
+      const result = evaluateBinary(
+        node.operator,
+        evaluateFormulaNode(node.left, context),
+        evaluateFormulaNode(node.right, context),
+        node
+      );
+      // Overflow (2 ^ 9999) and impossible results (-1 ^ 0.5) are errors, as for functions
+      if (typeof result === 'number' && !isFinite(result)) {
+        throw new FormulaError(`"${node.operator}" did not return a valid number`, node.position);
+      }
+      return result;
+    }
+
+    case 'conditional':
+      return evaluateFormulaNode(node.test, context) === true
+        ? evaluateFormulaNode(node.consequent, context)
+        : evaluateFormulaNode(node.alternate, context);
+
+    case 'call': {
+      // Lazy functions only evaluate the arguments they need
+      if (node.name === 'if') {
+        const [test, whenTrue, whenFalse] = node.args;
+        return evaluateFormulaNode(test, context) === true
+          ? evaluateFormulaNode(whenTrue, context)
+          : evaluateFormulaNode(whenFalse, context);
+      }
+      if (node.name === 'and') {
+        return node.args.every((arg) => evaluateFormulaNode(arg, context) === true);
+      }
+      if (node.name === 'or') {
+        return node.args.some((arg) => evaluateFormulaNode(arg, context) === true);
+      }
+
+      const definition = lookup(FORMULA_FUNCTIONS, node.name);
+      if (!definition) {
+        throw new FormulaError(`Unknown function "${node.name}"`, node.position);
+      }
+      const args = node.args.map((arg) => evaluateFormulaNode(arg, context));
+      const positions = node.args.map((arg) => arg.position);
+      const result = definition.call(args, positions, context);
+      if (typeof result === 'number' && !isFinite(result)) {
+        throw new FormulaError(`${node.name}() did not return a valid number`, node.position);
+      }
+      return result;
+    }
+  }
+};
+
+// Check the value against the property's declared return type
+// Text formulas accept any value and format it; the other types must match exactly
+const applyReturnType = (value: FormulaValue, returnType: FormulaProperty['returnType']): FormulaResult => {
+  if (value === null) {
+    return { value: null, type: returnType };
+  }
+
+  switch (returnType) {
+    case 'text':
+      return { value: formatFormulaValue(value), type: 'text' };
+    case 'number':
+      if (typeof value === 'number') return { value, type: 'number' };
+      break;
+    case 'boolean':
+      if (typeof value === 'boolean') return { value, type: 'boolean' };
+      break;
+    case 'date':
+      if (value instanceof Date) return { value, type: 'date' };
+      break;
+  }
+
+  throw new FormulaError(`Formula returned ${typeName(value)} but the property expects ${returnType}`, 0);
+};
+
+// Parse, run and type-check a formula property
+// Never throws: problems are reported through `error` and `errorPosition`
+export const runFormula = (formula: FormulaProperty, context: FormulaContext): FormulaResult => {
+  try {
+    const ast = parseFormulaCached(formula.expression);
+    return applyReturnType(evaluateFormulaNode(ast, context), formula.returnType);
+  } catch (error: any) {
+    if (error instanceof FormulaError) {
+      return { value: null, type: 'error', error: error.message, errorPosition: error.position };
+    }
+    return { value: null, type: 'error', error: error?.message || 'Formula evaluation failed' };
+  }
+};
@@ -0,0 +1,20 @@
+import { Page } from '../../types/workspace';
+import { ViewDefinition } from '../../types/view';
+
+// Gallery view helpers: the image shown at the top of each card and the card sizes.
+
+export type GalleryCardSize = NonNullable<ViewDefinition['cardSize']>;
+
+// Minimum card width in pixels; the grid fits as many columns as it can
+export const GALLERY_CARD_WIDTHS: Record<GalleryCardSize, number> = {
+  small: 180,
+  medium: 260,
+  large: 340,
+};
+
+// The page cover, or else the first image in the page's content
+export const getCardImage = (page: Page): string | null => {
+  if (page.cover) return page.cover;
+  const image = page.blocks?.find((block) => block.type === 'image' && block.properties?.url);
+  return image?.properties?.url || null;
+};
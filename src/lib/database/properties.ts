@@ -0,0 +1,337 @@
+import { format, isValid, parseISO } from 'date-fns';
+import {
+  DatabaseProperty,
+  DatabasePropertyType,
+  DatePropertyValue,
+  NumberFormat,
+  PropertyOptionColor,
+  SelectOption,
+  StatusOption,
+  ValueProperty,
+} from '../../types/database';
+import { WorkspaceMember } from '../../types/permission';
+import { Page } from '../../types/workspace';
+
+// Helpers for the typed (non-computed) database properties:
+// creating definitions with sensible defaults, validating values before they are
+// written, and formatting values for display.
+
+export const OPTION_COLORS: PropertyOptionColor[] = [
+  'default',
+  'gray',
+  'brown',
+  'orange',
+  'yellow',
+  'green',
+  'blue',
+  'purple',
+  'pink',
+  'red',
+];
+
+export const NUMBER_FORMATS: { value: NumberFormat; label: string }[] = [
+  { value: 'number', label: 'Number' },
+  { value: 'number_with_commas', label: 'Number with commas' },
+  { value: 'percent', label: 'Percent' },
+  { value: 'dollar', label: 'US dollar' },
+  { value: 'euro', label: 'Euro' },
+  { value: 'pound', label: 'Pound' },
+  { value: 'yen', label: 'Yen' },
+  { value: 'rupee', label: 'Rupee' },
+];
+
+const CURRENCY_BY_FORMAT: Partial<Record<NumberFormat, string>> = {
+  dollar: 'USD',
+  euro: 'EUR',
+  pound: 'GBP',
+  yen: 'JPY',
+  rupee: 'INR',
+};
+
+// Every new status property starts with one option per group
+export const DEFAULT_STATUS_OPTIONS: StatusOption[] = [
+  { id: 'not-started', name: 'Not started', color: 'gray', group: 'todo' },
+  { id: 'in-progress', name: 'In progress', color: 'blue', group: 'in_progress' },
+  { id: 'done', name: 'Done', color: 'green', group: 'complete' },
+];
+
+export const isValueProperty = (property: DatabaseProperty): property is ValueProperty =>
+  property.type !== 'relation' && property.type !== 'rollup' && property.type !== 'formula';
+
+export const hasOptions = (
+  property: DatabaseProperty
+): property is Extract<DatabaseProperty, { options: SelectOption[] }> =>
+  property.type === 'select' || property.type === 'multi_select' || property.type === 'status';
+
+// Build a select option, cycling through the palette so neighbours get different colors
+export const createSelectOption = (name: string, existing: SelectOption[] = []): SelectOption => ({
+  id: crypto.randomUUID(),
+  name: name.trim(),
+  color: OPTION_COLORS[(existing.length + 1) % OPTION_COLORS.length],
+});
+
+// Create a property definition with default settings for its type
+export const createPropertyDefinition = (type: DatabasePropertyType, name: string): DatabaseProperty => {
+  switch (type) {
+    case 'relation':
+      return { type, name, linkedPageIds: [], bidirectional: false };
+    case 'rollup':
+      return { type, name, relationProperty: '', targetProperty: '', aggregation: 'count' };
+    case 'formula':
+      return { type, name, expression: '', returnType: 'text' };
+    case 'select':
+    case 'multi_select':
+      return { type, name, options: [] };
+    case 'status':
+      return { type, name, options: DEFAULT_STATUS_OPTIONS.map((option) => ({ ...option })) };
+    case 'number':
+      return { type, name, format: 'number' };
+    case 'date':
+      return { type, name, includeTime: false };
+    case 'person':
+      return { type, name, allowMultiple: false };
+    case 'text':
+    case 'checkbox':
+    case 'url':
+      return { type, name };
+  }
+};
+
+// ==========================================
+// VALIDATION
+// ==========================================
+
+// Result of validating one value: the normalized value to store, or an error message
+export interface PropertyValidationResult {
+  value: any;
+  error: string | null;
+}
+
+const ok = (value: any): PropertyValidationResult => ({ value, error: null });
+const fail = (error: string): PropertyValidationResult => ({ value: null, error });
+
+const isBlank = (value: any) => value === undefined || value === null || value === '';
+
+// Find an option by name, ignoring case so "done" matches "Done"
+const findOption = (options: SelectOption[], name: string) =>
+  options.find((option) => option.name.toLowerCase() === name.trim().toLowerCase());
+
+const parseDateInput = (input: any): Date | null => {
+  if (input instanceof Date) return isValid(input) ? input : null;
+  if (typeof input?.toDate === 'function') return input.toDate();
+  if (typeof input === 'string') {
+    const parsed = parseISO(input);
+    return isValid(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+// Stored form of a date: a full ISO timestamp when the property includes time, otherwise just the day
+export const serializeDate = (date: Date, includeTime?: boolean) =>
+  includeTime ? date.toISOString() : format(date, 'yyyy-MM-dd');
+
+// Check a value against its property definition and normalize it for storage
+// Empty values are always allowed and stored as null (or [] for list types)
+export const validatePropertyValue = (property: DatabaseProperty, value: any): PropertyValidationResult => {
+  const label = `"${property.name}"`;
+
+  switch (property.type) {
+    case 'text':
+      if (isBlank(value)) return ok(null);
+      if (typeof value === 'string' || typeof value === 'number') return ok(String(value));
+      return fail(`${label} expects text`);
+
+    case 'number': {
+      if (isBlank(value)) return ok(null);
+      const number = typeof value === 'string' ? Number(value.replace(/,/g, '')) : value;
+      if (typeof number !== 'number' || !isFinite(number)) return fail(`${label} expects a number`);
+      return ok(number);
+    }
+
+    case 'checkbox':
+      if (isBlank(value)) return ok(false);
+      if (typeof value === 'boolean') return ok(value);
+      if (value === 'true' || value === 'false') return ok(value === 'true');
+      return fail(`${label} expects true or false`);
+
+    case 'url': {
+      if (isBlank(value)) return ok(null);
+      if (typeof value !== 'string') return fail(`${label} expects a URL`);
+      // Allow "example.com" by assuming https
+      const candidate = /^[a-z][a-z0-9+.-]*:/i.test(value.trim()) ? value.trim() : `https://${value.trim()}`;
+      try {
+        const url = new URL(candidate);
+        if (!['http:', 'https:', 'mailto:'].includes(url.protocol)) {
+          return fail(`${label} only accepts http, https or mailto links`);
+        }
+        return ok(candidate);
+      } catch {
+        return fail(`${label} expects a valid URL`);
+      }
+    }
+
+    case 'select':
+    case 'status': {
+      if (isBlank(value)) return ok(null);
+      if (typeof value !== 'string') return fail(`${label} expects one option`);
+      const option = findOption(property.options, value);
+      if (!option) return fail(`"${value}" is not an option of ${label}`);
+      return ok(option.name);
+    }
+
+    case 'multi_select': {
+      if (isBlank(value)) return ok([]);
+      const names = Array.isArray(value) ? value : [value];
+      const normalized: string[] = [];
+      for (const name of names) {
+        if (typeof name !== 'string') return fail(`${label} expects a list of options`);
+        const option = findOption(property.options, name);
+        if (!option) return fail(`"${name}" is not an option of ${label}`);
+        if (!normalized.includes(option.name)) normalized.push(option.name);
+      }
+      return ok(normalized);
+    }
+
+    case 'date': {
+      if (isBlank(value)) return ok(null);
+      const raw = typeof value === 'object' && !(value instanceof Date) && 'start' in value ? value : { start: value };
+      const start = parseDateInput(raw.start);
+      if (!start) return fail(`${label} expects a date`);
+      const result: DatePropertyValue = { start: serializeDate(start, property.includeTime) };
+      if (!isBlank(raw.end)) {
+        const end = parseDateInput(raw.end);
+        if (!end) return fail(`${label} has an invalid end date`);
+        if (end.getTime() < start.getTime()) return fail(`${label} ends before it starts`);
+        result.end = serializeDate(end, property.includeTime);
+      }
+      return ok(result);
+    }
+
+    case 'person': {
+      if (isBlank(value)) return ok([]);
+      const ids = Array.isArray(value) ? value : [value];
+      if (ids.some((id) => typeof id !== 'string' || id === '')) return fail(`${label} expects workspace members`);
+      const unique = Array.from(new Set(ids as string[]));
+      if (!property.allowMultiple && unique.length > 1) return fail(`${label} only allows one person`);
+      return ok(unique);
+    }
+
+    // Computed and linked properties are not written as plain values
+    case 'relation':
+    case 'rollup':
+    case 'formula':
+      return fail(`${label} is calculated and can't be set directly`);
+  }
+};
+
+// Validate a whole propertyValues object against a schema
+// Keys without a schema entry are passed through untouched (older, untyped values)
+export const validatePropertyValues = (
+  schema: Record<string, DatabaseProperty>,
+  values: Record<string, any>
+): { values: Record<string, any>; errors: Record<string, string> } => {
+  const normalized: Record<string, any> = {};
+  const errors: Record<string, string> = {};
+
+  Object.entries(values).forEach(([key, value]) => {
+    const property = schema[key];
+    if (!property) {
+      normalized[key] = value;
+      return;
+    }
+    const result = validatePropertyValue(property, value);
+    if (result.error) {
+      errors[key] = result.error;
+    } else {
+      normalized[key] = result.value;
+    }
+  });
+
+  return { values: normalized, errors };
+};
+
+// The schema that applies to a page: rows of a database inherit the database page's
+// properties, and the page's own properties are layered on top
+export const resolvePropertySchema = (
+  page: Pick<Page, 'properties'>,
+  parent?: Pick<Page, 'properties'> | null
+): Record<string, DatabaseProperty> => ({
+  ...((parent?.properties || {}) as Record<string, DatabaseProperty>),
+  ...((page.properties || {}) as Record<string, DatabaseProperty>),
+});
+
+// Summarize validation errors as one message, e.g. for `{ error }` results
+export const describeValidationErrors = (errors: Record<string, string>): string | null => {
+  const messages = Object.values(errors);
+  return messages.length > 0 ? messages.join('; ') : null;
+};
+
+// ==========================================
+// DISPLAY
+// ==========================================
+
+export const formatNumberValue = (value: number, numberFormat: NumberFormat = 'number', precision?: number): string => {
+  const digits = precision === undefined ? {} : { minimumFractionDigits: precision, maximumFractionDigits: precision };
+
+  switch (numberFormat) {
+    case 'number':
+      return precision === undefined ? String(value) : value.toFixed(precision);
+    case 'number_with_commas':
+      return new Intl.NumberFormat('en-US', digits).format(value);
+    case 'percent':
+      return new Intl.NumberFormat('en-US', { style: 'percent', ...digits }).format(value);
+    default:
+      return new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency: CURRENCY_BY_FORMAT[numberFormat],
+        ...digits,
+      }).format(value);
+  }
+};
+
+// Read a stored date value (object, ISO string or Date) back into Dates
+export const parseDateValue = (value: any): { start: Date; end?: Date } | null => {
+  if (isBlank(value)) return null;
+  const raw = typeof value === 'object' && !(value instanceof Date) && 'start' in value ? value : { start: value };
+  const start = parseDateInput(raw.start);
+  if (!start) return null;
+  const end = isBlank(raw.end) ? null : parseDateInput(raw.end);
+  return end ? { start, end } : { start };
+};
+
+export const formatDateValue = (value: any, includeTime?: boolean): string => {
+  const parsed = parseDateValue(value);
+  if (!parsed) return '';
+  const pattern = includeTime ? 'MMM d, yyyy h:mm a' : 'MMM d, yyyy';
+  const start = format(parsed.start, pattern);
+  return parsed.end ? `${start} → ${format(parsed.end, pattern)}` : start;
+};
+
+// Turn any stored value into display text, using the property definition when there is one
+export const formatPropertyValue = (
+  property: DatabaseProperty | undefined,
+  value: any,
+  members: WorkspaceMember[] = []
+): string => {
+  if (value === undefined || value === null) return '';
+
+  switch (property?.type) {
+    case 'number':
+      return typeof value === 'number' ? formatNumberValue(value, property.format, property.precision) : String(value);
+    case 'date':
+      return formatDateValue(value, property.includeTime);
+    case 'checkbox':
+      return value ? 'Yes' : 'No';
+    case 'person':
+      return (Array.isArray(value) ? value : [value])
+        .map((id: string) => {
+          const member = members.find((m) => m.userId === id);
+          return member?.displayName || member?.email || id;
+        })
+        .join(', ');
+    default:
+      if (Array.isArray(value)) return value.join(', ');
+      if (value instanceof Date) return format(value, 'MMM d, yyyy');
+      return String(value);
+  }
+};
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import {
+    createBidirectionalRelation,
+    removeBidirectionalRelation,
+    findDanglingRelations,
+} from './relations';
+import { Page } from '../../types/workspace';
+import { makePage } from '../../test/fixtures';
+
+describe('Bidirectional relations', () => {
+    const linkedIds = (page: Page, propertyName: string) => page.properties?.[propertyName].linkedPageIds;
+
+    it('should append to an existing reverse relation instead of replacing it', () => {
+        const project = makePage('project', {}, {
+            properties: { Tasks: { type: 'relation', name: 'Tasks', linkedPageIds: ['other'], bidirectional: true } },
+        });
+        const task = makePage('task', {}, {
+            properties: { Project: { type: 'relation', name: 'Project', linkedPageIds: [] } },
+        });
+
+        const result = createBidirectionalRelation(task, project, 'Project', 'Tasks');
+        expect(linkedIds(result.sourcePage, 'Project')).toEqual(['project']);
+        expect(result.sourcePage.properties?.Project.reversePropertyName).toBe('Tasks');
+        expect(linkedIds(result.targetPage, 'Tasks')).toEqual(['other', 'task']);
+        expect(result.targetPage.properties?.Tasks.reversePropertyName).toBe('Project');
+    });
+
+    it('should remove both sides of a link', () => {
+        const task = makePage('task', {}, {
+            properties: { Project: { type: 'relation', name: 'Project', linkedPageIds: [] } },
+        });
+        const linked = createBidirectionalRelation(task, makePage('project'), 'Project', 'Tasks');
+        const result = removeBidirectionalRelation(linked.sourcePage, linked.targetPage, 'Project');
+        expect(linkedIds(result.sourcePage, 'Project')).toEqual([]);
+        expect(linkedIds(result.targetPage, 'Tasks')).toEqual([]);
+    });
+
+    it('should report links to deleted and archived pages', () => {
+        const pages = [
+            makePage('task', {}, {
+                properties: { Project: { type: 'relation', name: 'Project', linkedPageIds: ['live', 'archived', 'gone'] } },
+            }),
+            makePage('live'),
+            makePage('archived', {}, { isArchived: true }),
+            // Links inside the trash are left alone
+            makePage('trashed', {}, {
+                properties: { Project: { type: 'relation', name: 'Project', linkedPageIds: ['gone'] } },
+                isArchived: true,
+            }),
+        ];
+
+        expect(findDanglingRelations(pages)).toEqual([
+            { pageId: 'task', propertyName: 'Project', targetPageId: 'archived', reason: 'archived' },
+            { pageId: 'task', propertyName: 'Project', targetPageId: 'gone', reason: 'deleted' },
+        ]);
+    });
+});
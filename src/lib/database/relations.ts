@@ -9,6 +9,7 @@ import {
   FormulaResult,
   RelationLink,
 } from '../../types/database';
+import { runFormula } from './formula';
 
 // Function to get all pages that are linked through a relation property
 // This is useful for displaying related content or following connections between pages
@@ -139,7 +140,8 @@ export const calculateRollup = (
 
 // Helper function to perform different types of aggregations on an array of values
 // Supports numeric operations, date operations, and counting operations
-const aggregateValues = (values: any[], aggregation: RollupAggregation): any => {
+// Also used for the column totals in table views
+export const aggregateValues = (values: any[], aggregation: RollupAggregation): any => {
   // Handle empty values case
   if (values.length === 0) {
     return aggregation === 'count' ? 0 : null;
@@ -244,93 +246,127 @@ const aggregateValues = (values: any[], aggregation: RollupAggregation): any =>
 
 // Function to evaluate formula expressions
 // Formulas are like spreadsheet formulas that calculate values based on page properties
-// WARNING: This uses eval-like functionality which can be unsafe in production
+// The expression is parsed and interpreted by the sandboxed formula engine, never eval'd
 export const evaluateFormula = (
   formula: FormulaProperty,
   context: FormulaContext
 ): FormulaResult => {
-  try {
-    // Start with the formula expression
-    let expression = formula.expression;
-
-    // Replace property references with their actual values
-    // Example: prop("Title") becomes the actual title value
-    expression = expression.replace(/prop\("([^"]+)"\)/g, (_, propName) => {
-      const value = context.properties[propName];
-      if (value === undefined) return 'null';
-      if (typeof value === 'string') return `"${value}"`;
-      return String(value);
-    });
-
-    // Replace date functions with their values
-    // now() returns current timestamp in milliseconds
-    expression = expression.replace(/now\(\)/g, String(context.now.getTime()));
-    // today() returns today's date at midnight
-    expression = expression.replace(/today\(\)/g, String(new Date().setHours(0, 0, 0, 0)));
-
-    // Replace page property references
-    expression = expression.replace(/page\.title/g, `"${context.page.title}"`);
-    expression = expression.replace(/page\.createdAt/g, String(context.page.createdAt.getTime()));
-
-    // Evaluate the expression
-    // WARNING: Using Function constructor is similar to eval and should be sandboxed in production
-    const result = new Function(`return ${expression}`)();
-
-    // Return the result with its type
-    return {
-      value: result,
-      type: typeof result === 'number'
-        ? 'number'
-        : typeof result === 'boolean'
-        ? 'boolean'
-        : result instanceof Date
-        ? 'date'
-        : 'text',
-    };
-  } catch (error: any) {
-    // If formula evaluation fails, return an error result
-    return {
-      value: null,
-      type: 'error',
-      error: error.message || 'Formula evaluation failed',
-    };
-  }
+  return runFormula(formula, context);
 };
 
 // Function to create a two-way relation between pages
 // When page A links to page B, page B also links back to page A
+// The reverse property is created on the target if it doesn't exist yet, otherwise the link is appended
 export const createBidirectionalRelation = (
   sourcePage: Page,
   targetPage: Page,
   sourcePropertyName: string,
   reversePropertyName: string
 ): { sourcePage: Page; targetPage: Page } => {
-  // Add the forward relation from source to target
-  const updatedSource = addRelation(sourcePage, sourcePropertyName, targetPage.id, [targetPage]);
+  // Add the forward relation from source to target, remembering where its reverse side lives
+  const linkedSource = addRelation(sourcePage, sourcePropertyName, targetPage.id, [targetPage]);
+  const sourceProperties = linkedSource.properties || {};
+  const updatedSource: Page = {
+    ...linkedSource,
+    properties: {
+      ...sourceProperties,
+      [sourcePropertyName]: {
+        ...sourceProperties[sourcePropertyName],
+        bidirectional: true,
+        reversePropertyName,
+      },
+    },
+  };
 
-  // Create the reverse relation on the target page
-  const targetProperties = (targetPage as any).properties || {};
+  // Create or extend the reverse relation on the target page
+  const targetProperties = targetPage.properties || {};
+  const existingReverse: RelationProperty | undefined = targetProperties[reversePropertyName];
+  const reverseLinkedIds =
+    existingReverse?.type === 'relation' ? existingReverse.linkedPageIds || [] : [];
   const reverseRelation: RelationProperty = {
+    ...(existingReverse?.type === 'relation' ? existingReverse : {}),
     type: 'relation',
-    name: reversePropertyName,
-    linkedPageIds: [sourcePage.id],
+    name: existingReverse?.name || reversePropertyName,
+    linkedPageIds: reverseLinkedIds.includes(sourcePage.id)
+      ? reverseLinkedIds
+      : [...reverseLinkedIds, sourcePage.id],
     bidirectional: true,
+    reversePropertyName: sourcePropertyName,
   };
 
   // Update the target page with the reverse relation
-  const updatedTarget = {
+  const updatedTarget: Page = {
     ...targetPage,
     properties: {
       ...targetProperties,
       [reversePropertyName]: reverseRelation,
     },
     updatedAt: new Date(),
-  } as Page;
+  };
 
   // Return both updated pages
   return { sourcePage: updatedSource, targetPage: updatedTarget };
 };
 
+// Function to remove a two-way relation between pages
+// Removes the link from the source and, if the property is bidirectional, the reverse link on the target
+export const removeBidirectionalRelation = (
+  sourcePage: Page,
+  targetPage: Page,
+  sourcePropertyName: string
+): { sourcePage: Page; targetPage: Page } => {
+  const sourceProp: RelationProperty | undefined = sourcePage.properties?.[sourcePropertyName];
+  const updatedSource = removeRelation(sourcePage, sourcePropertyName, targetPage.id);
+
+  // One-way relations leave the target untouched
+  if (!sourceProp?.bidirectional || !sourceProp.reversePropertyName) {
+    return { sourcePage: updatedSource, targetPage };
+  }
+
+  return {
+    sourcePage: updatedSource,
+    targetPage: removeRelation(targetPage, sourceProp.reversePropertyName, sourcePage.id),
+  };
+};
+
+// A link that points at a page which no longer exists or is in the trash
+export interface DanglingRelation {
+  pageId: string; // Page holding the broken link
+  propertyName: string; // Relation property containing it
+  targetPageId: string; // The missing or archived page
+  reason: 'deleted' | 'archived';
+}
+
+// Function to find relation links pointing at deleted or archived pages
+// `pages` should include archived pages so we can tell "archived" apart from "deleted"
+export const findDanglingRelations = (pages: Page[]): DanglingRelation[] => {
+  const pagesById = new Map(pages.map((p) => [p.id, p]));
+  const dangling: DanglingRelation[] = [];
+
+  pages.forEach((page) => {
+    if (page.isArchived) return; // Links inside the trash are restored along with their page
+
+    const properties: Record<string, DatabaseProperty> | undefined = page.properties;
+    Object.entries(properties || {}).forEach(([propertyName, property]) => {
+      if (property.type !== 'relation') return;
+
+      (property.linkedPageIds || []).forEach((targetPageId) => {
+        const target = pagesById.get(targetPageId);
+        if (!target || target.isArchived) {
+          dangling.push({
+            pageId: page.id,
+            propertyName,
+            targetPageId,
+            reason: target ? 'archived' : 'deleted',
+          });
+        }
+      });
+    });
+  });
+
+  return dangling;
+};
+
 // Function to filter pages that have a relation to a specific target page
 // Useful for finding all pages that link to a particular page
 export const filterPagesByRelation = (
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateColumn, formatAggregation, getTableColumns } from './table';
+import { DatabaseProperty } from '../../types/database';
+import { makePage } from '../../test/fixtures';
+
+describe('Table columns', () => {
+    const schema: Record<string, DatabaseProperty> = {
+        Cost: { type: 'number', name: 'Cost', format: 'dollar' },
+        Due: { type: 'date', name: 'Due' },
+        Tags: { type: 'multi_select', name: 'Tags', options: [] },
+    };
+
+    const pages = [
+        makePage('a', { Cost: 10, Due: { start: '2024-03-05' }, Tags: ['x', 'y'] }),
+        makePage('b', { Cost: 5.5, Due: { start: '2024-03-01' }, Tags: ['y'] }),
+        makePage('c', { Tags: [] }),
+    ];
+
+    it('should follow the view column order and drop unknown columns', () => {
+        expect(getTableColumns({ id: 'v', name: 'Table', type: 'table' }, schema)).toEqual([
+            'Cost',
+            'Due',
+            'Tags',
+            'page.createdAt',
+        ]);
+        expect(
+            getTableColumns({ id: 'v', name: 'Table', type: 'table', properties: ['Tags', 'Deleted', 'Cost'] }, schema)
+        ).toEqual(['Tags', 'Cost']);
+    });
+
+    it('should reuse the rollup aggregations for footer totals', () => {
+        const total = aggregateColumn(pages, 'Cost', 'sum', schema, pages);
+        expect(formatAggregation(total, 'sum', schema.Cost)).toBe('$15.50');
+        expect(aggregateColumn(pages, 'Cost', 'percent_empty', schema, pages)).toBeCloseTo(33.33, 1);
+        expect(aggregateColumn(pages, 'Due', 'earliest_date', schema, pages)).toEqual(new Date(2024, 2, 1));
+        expect(aggregateColumn(pages, 'Tags', 'count_unique', schema, pages)).toBe(2);
+    });
+});
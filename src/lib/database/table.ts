@@ -0,0 +1,143 @@
+import { format } from 'date-fns';
+import { Page } from '../../types/workspace';
+import { DatabaseProperty, RollupAggregation } from '../../types/database';
+import { ViewDefinition } from '../../types/view';
+import { computeRowProperties } from './dependencies';
+import { aggregateValues } from './relations';
+import { formatNumberValue, parseDateValue } from './properties';
+import { PAGE_FIELDS, getValueKind } from './views';
+
+// Table view helpers: which columns a table shows, reading cell values, and the
+// footer calculations (which reuse the rollup aggregation functions).
+
+// The Name column is always first and can't be hidden or moved
+export const TITLE_COLUMN = 'page.title';
+
+export const DEFAULT_COLUMN_WIDTH = 180;
+export const TITLE_COLUMN_WIDTH = 280;
+export const MIN_COLUMN_WIDTH = 80;
+
+// Built-in columns that can be shown next to the database properties
+export const OPTIONAL_PAGE_COLUMNS = ['page.createdAt', 'page.updatedAt', 'page.tags'];
+
+export const AGGREGATION_LABELS: Record<RollupAggregation, string> = {
+  count: 'Count',
+  count_unique: 'Count unique',
+  sum: 'Sum',
+  average: 'Average',
+  min: 'Min',
+  max: 'Max',
+  median: 'Median',
+  range: 'Range',
+  earliest_date: 'Earliest',
+  latest_date: 'Latest',
+  date_range: 'Date range',
+  percent_empty: 'Percent empty',
+  percent_not_empty: 'Percent not empty',
+  show_unique: 'Unique values',
+  show_original: 'All values',
+};
+
+const COMMON_AGGREGATIONS: RollupAggregation[] = ['count', 'count_unique', 'percent_empty', 'percent_not_empty'];
+const NUMBER_AGGREGATIONS: RollupAggregation[] = ['sum', 'average', 'median', 'min', 'max', 'range'];
+const DATE_AGGREGATIONS: RollupAggregation[] = ['earliest_date', 'latest_date', 'date_range'];
+
+// Visible columns after the Name column, in display order
+// Views without a column list show every property, then the created date
+export const getTableColumns = (view: ViewDefinition, schema: Record<string, DatabaseProperty>): string[] => {
+  const columns = view.properties ?? [...Object.keys(schema), 'page.createdAt'];
+  return columns.filter((key) => key !== TITLE_COLUMN && (schema[key] || PAGE_FIELDS[key]));
+};
+
+export const getColumnName = (key: string, schema: Record<string, DatabaseProperty>): string =>
+  PAGE_FIELDS[key]?.name || schema[key]?.name || key;
+
+// Footer calculations that make sense for a column
+export const getColumnAggregations = (key: string, schema: Record<string, DatabaseProperty>): RollupAggregation[] => {
+  const kind = getValueKind(key, schema);
+  if (kind === 'number') return [...COMMON_AGGREGATIONS, ...NUMBER_AGGREGATIONS];
+  if (kind === 'date') return [...COMMON_AGGREGATIONS, ...DATE_AGGREGATIONS];
+  return COMMON_AGGREGATIONS;
+};
+
+// The value a cell shows: stored values for typed properties, results for
+// formulas and rollups, and linked page titles for relations
+export const getCellValue = (
+  page: Page,
+  key: string,
+  schema: Record<string, DatabaseProperty>,
+  allPages: Page[]
+): any => {
+  switch (key) {
+    case 'page.title':
+      return page.title;
+    case 'page.createdAt':
+      return page.createdAt;
+    case 'page.updatedAt':
+      return page.updatedAt;
+    case 'page.tags':
+      return page.tags || [];
+  }
+
+  const property = schema[key];
+  if (property?.type === 'formula' || property?.type === 'rollup') {
+    return computeRowProperties(page, schema, allPages)[key]?.value ?? null;
+  }
+  if (property?.type === 'relation') {
+    const linked: string[] = page.properties?.[key]?.linkedPageIds || [];
+    return linked.map((id) => allPages.find((p) => p.id === id)?.title || 'Untitled');
+  }
+  return page.propertyValues?.[key] ?? null;
+};
+
+const isEmptyCell = (value: any) =>
+  value === undefined || value === null || value === '' || value === false || (Array.isArray(value) && value.length === 0);
+
+// Run a footer calculation over a column
+export const aggregateColumn = (
+  pages: Page[],
+  key: string,
+  aggregation: RollupAggregation,
+  schema: Record<string, DatabaseProperty>,
+  allPages: Page[]
+): any => {
+  const kind = getValueKind(key, schema);
+  const values = pages.map((page) => {
+    const value = getCellValue(page, key, schema, allPages);
+    // Stored dates are { start, end } objects; aggregate on the start
+    return kind === 'date' && !isEmptyCell(value) ? parseDateValue(value)?.start ?? null : value;
+  });
+
+  // The percentage calculations count empty cells; everything else only looks at filled ones
+  if (aggregation === 'percent_empty' || aggregation === 'percent_not_empty') {
+    if (values.length === 0) return null;
+    const empty = values.filter(isEmptyCell).length;
+    return aggregation === 'percent_empty' ? (empty / values.length) * 100 : ((values.length - empty) / values.length) * 100;
+  }
+
+  const filled = values.filter((value) => !isEmptyCell(value));
+  // Multi-value cells count each of their values separately when looking for unique ones
+  const flattened = aggregation === 'count_unique' || aggregation === 'show_unique' ? filled.flat() : filled;
+  return aggregateValues(flattened, aggregation);
+};
+
+// Display text for a footer calculation
+export const formatAggregation = (
+  value: any,
+  aggregation: RollupAggregation,
+  property: DatabaseProperty | undefined
+): string => {
+  if (value === null || value === undefined) return '';
+  if (aggregation === 'percent_empty' || aggregation === 'percent_not_empty') return `${Math.round(value * 10) / 10}%`;
+  if (aggregation === 'date_range') return `${value} ${value === 1 ? 'day' : 'days'}`;
+  if (value instanceof Date) return format(value, 'MMM d, yyyy');
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'number') {
+    // Sums and averages of a number property use its display format
+    if (property?.type === 'number' && NUMBER_AGGREGATIONS.includes(aggregation)) {
+      return formatNumberValue(value, property.format, property.precision);
+    }
+    return String(Math.round(value * 100) / 100);
+  }
+  return String(value);
+};
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import {
+    getBarPosition,
+    getTimelineDependencies,
+    getTimelineHeader,
+    getTimelineItems,
+    getTimelineRange,
+    shiftTimelineItem,
+} from './timeline';
+import { DatabaseProperty } from '../../types/database';
+import { makePage } from '../../test/fixtures';
+
+describe('Timeline layout', () => {
+    const schema: Record<string, DatabaseProperty> = {
+        Start: { type: 'date', name: 'Start' },
+        End: { type: 'date', name: 'End' },
+        'Blocked by': { type: 'relation', name: 'Blocked by', linkedPageIds: [] },
+    };
+
+    const blockedBy = (ids: string[]) => ({ properties: { 'Blocked by': { ...schema['Blocked by'], linkedPageIds: ids } } });
+
+    const pages = [
+        makePage('design', { Start: { start: '2024-03-04' }, End: { start: '2024-03-08' } }, blockedBy([])),
+        makePage('build', { Start: { start: '2024-03-11' }, End: { start: '2024-03-06' } }, blockedBy(['design', 'missing'])),
+        makePage('unscheduled', {}, blockedBy([])),
+    ];
+
+    it('should read bars from separate start and end properties', () => {
+        const items = getTimelineItems(pages, 'Start', 'End');
+        expect(items.map((item) => item.page.id)).toEqual(['design', 'build']);
+        expect(items[0].end).toEqual(new Date(2024, 2, 8));
+        // An end before the start collapses to a single day
+        expect(items[1].end).toEqual(items[1].start);
+
+        const range = getTimelineRange(items, 'day', new Date(2024, 2, 5));
+        // Whole weeks, with a spare week before and after
+        expect(range.start).toEqual(new Date(2024, 1, 25));
+        expect(range.end).toEqual(new Date(2024, 2, 23));
+        expect(getBarPosition(items[0], range.start, 'day')).toEqual({ left: 8 * 40, width: 5 * 40 });
+
+        const { units } = getTimelineHeader(range, 'week');
+        expect(units.map((unit) => unit.label)).toEqual(['Feb 25', 'Mar 3', 'Mar 10', 'Mar 17']);
+        expect(units[1].left).toBe(7 * 16);
+    });
+
+    it('should draw dependencies only between pages on the timeline', () => {
+        const items = getTimelineItems(pages, 'Start', 'End');
+        expect(getTimelineDependencies(items, 'Blocked by')).toEqual([{ from: 'design', to: 'build' }]);
+    });
+
+    it('should move both ends of a bar together', () => {
+        expect(shiftTimelineItem(pages[0], 'Start', 'End', 3, schema)).toEqual({
+            Start: { start: '2024-03-07' },
+            End: { start: '2024-03-11' },
+        });
+    });
+});
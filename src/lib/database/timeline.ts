@@ -0,0 +1,171 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  eachMonthOfInterval,
+  eachQuarterOfInterval,
+  eachWeekOfInterval,
+  eachYearOfInterval,
+  endOfMonth,
+  endOfQuarter,
+  endOfWeek,
+  endOfYear,
+  format,
+  isBefore,
+  max as maxDate,
+  min as minDate,
+  startOfDay,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+  subDays,
+} from 'date-fns';
+import { Page } from '../../types/workspace';
+import { DatabaseProperty, DatePropertyValue } from '../../types/database';
+import { ViewDefinition } from '../../types/view';
+import { CREATED_DATE_KEY, CalendarItem, shiftDateValue } from './calendar';
+import { parseDateValue } from './properties';
+
+// Timeline (Gantt) view helpers: where each page's bar starts and ends, the
+// date range and header columns for a zoom level, and the dependency arrows
+// drawn from a relation property.
+
+export type TimelineZoom = NonNullable<ViewDefinition['timelineZoom']>;
+
+// Pixels per day at each zoom level
+export const TIMELINE_DAY_WIDTH: Record<TimelineZoom, number> = {
+  day: 40,
+  week: 16,
+  month: 5,
+  quarter: 2,
+};
+
+// A column of the timeline header
+export interface TimelineUnit {
+  key: string;
+  label: string;
+  left: number; // Pixels from the start of the timeline
+  width: number;
+}
+
+// An arrow from a page's bar to a page that depends on it
+export interface TimelineDependency {
+  from: string; // Page that must finish first
+  to: string; // Page that waits for it
+}
+
+// The bar's end date property, if the view has one that's still a date property
+export const getTimelineEndKey = (view: ViewDefinition, schema: Record<string, DatabaseProperty>): string | null =>
+  view.endDateProperty && schema[view.endDateProperty]?.type === 'date' ? view.endDateProperty : null;
+
+// The relation property that draws dependency arrows, if still a relation
+export const getDependencyKey = (view: ViewDefinition, schema: Record<string, DatabaseProperty>): string | null =>
+  view.dependencyProperty && schema[view.dependencyProperty]?.type === 'relation' ? view.dependencyProperty : null;
+
+// Bars for pages, skipping pages without a start date
+// The end comes from the end property when set, otherwise from the start property's own range;
+// an end before the start collapses the bar to one day
+export const getTimelineItems = (pages: Page[], startKey: string, endKey: string | null): CalendarItem[] =>
+  pages.flatMap((page) => {
+    const parsed = parseDateValue(startKey === CREATED_DATE_KEY ? page.createdAt : page.propertyValues?.[startKey]);
+    if (!parsed) return [];
+    const start = startOfDay(parsed.start);
+    const endValue = endKey ? parseDateValue(page.propertyValues?.[endKey]) : null;
+    const endDate = endKey ? endValue?.end || endValue?.start : parsed.end;
+    const end = endDate ? startOfDay(endDate) : start;
+    return [{ page, start, end: isBefore(end, start) ? start : end }];
+  });
+
+const startOfUnit = (date: Date, zoom: TimelineZoom): Date => {
+  if (zoom === 'day' || zoom === 'week') return startOfWeek(date);
+  if (zoom === 'month') return startOfMonth(date);
+  return startOfQuarter(date);
+};
+
+const endOfUnit = (date: Date, zoom: TimelineZoom): Date => {
+  if (zoom === 'day' || zoom === 'week') return startOfDay(endOfWeek(date));
+  if (zoom === 'month') return startOfDay(endOfMonth(date));
+  return startOfDay(endOfQuarter(date));
+};
+
+// Days the timeline covers: every bar and today, widened to whole units with
+// one spare unit on each side so bars don't touch the edges
+export const getTimelineRange = (items: CalendarItem[], zoom: TimelineZoom, today: Date = new Date()) => {
+  const first = minDate([startOfDay(today), ...items.map((item) => item.start)]);
+  const last = maxDate([startOfDay(today), ...items.map((item) => item.end)]);
+  const start = startOfUnit(subDays(startOfUnit(first, zoom), 1), zoom);
+  const end = endOfUnit(addDays(endOfUnit(last, zoom), 1), zoom);
+  return { start, end, days: differenceInCalendarDays(end, start) + 1 };
+};
+
+// Horizontal position of a bar, in pixels
+export const getBarPosition = (item: CalendarItem, rangeStart: Date, zoom: TimelineZoom) => {
+  const dayWidth = TIMELINE_DAY_WIDTH[zoom];
+  return {
+    left: differenceInCalendarDays(item.start, rangeStart) * dayWidth,
+    width: (differenceInCalendarDays(item.end, item.start) + 1) * dayWidth,
+  };
+};
+
+// Header columns for a range: a top row of larger periods (months, or years
+// when zoomed out) and a bottom row of the zoom level's own units
+export const getTimelineHeader = (range: { start: Date; end: Date }, zoom: TimelineZoom) => {
+  const dayWidth = TIMELINE_DAY_WIDTH[zoom];
+  const interval = { start: range.start, end: range.end };
+
+  const toUnits = (starts: Date[], endOf: (date: Date) => Date, label: (date: Date) => string): TimelineUnit[] =>
+    starts.map((date) => {
+      // The first and last units may be cut off by the range
+      const first = maxDate([date, range.start]);
+      const last = minDate([startOfDay(endOf(date)), range.end]);
+      return {
+        key: date.toISOString(),
+        label: label(date),
+        left: differenceInCalendarDays(first, range.start) * dayWidth,
+        width: (differenceInCalendarDays(last, first) + 1) * dayWidth,
+      };
+    });
+
+  const zoomedOut = zoom === 'month' || zoom === 'quarter';
+  const groups = zoomedOut
+    ? toUnits(eachYearOfInterval(interval), endOfYear, (date) => format(date, 'yyyy'))
+    : toUnits(eachMonthOfInterval(interval), endOfMonth, (date) => format(date, 'MMMM yyyy'));
+
+  let units: TimelineUnit[];
+  if (zoom === 'day') units = toUnits(eachDayOfInterval(interval), (date) => date, (date) => format(date, 'd'));
+  else if (zoom === 'week') units = toUnits(eachWeekOfInterval(interval), endOfWeek, (date) => format(date, 'MMM d'));
+  else if (zoom === 'month') units = toUnits(eachMonthOfInterval(interval), endOfMonth, (date) => format(date, 'MMM'));
+  else units = toUnits(eachQuarterOfInterval(interval), endOfQuarter, (date) => format(date, 'QQQ'));
+
+  return { groups, units };
+};
+
+// Arrows for a relation property: each page waits for the pages it links to
+// Only links between pages that are both on the timeline are drawn
+export const getTimelineDependencies = (items: CalendarItem[], dependencyKey: string): TimelineDependency[] => {
+  const onTimeline = new Set(items.map((item) => item.page.id));
+  return items.flatMap(({ page }) => {
+    const linked: string[] = page.properties?.[dependencyKey]?.linkedPageIds || [];
+    return linked
+      .filter((id) => id !== page.id && onTimeline.has(id))
+      .map((id) => ({ from: id, to: page.id }));
+  });
+};
+
+// New date values after dragging a bar by a number of days
+// Both ends move; a separate end property is shifted along with the start
+export const shiftTimelineItem = (
+  page: Page,
+  startKey: string,
+  endKey: string | null,
+  days: number,
+  schema: Record<string, DatabaseProperty>
+): Record<string, DatePropertyValue> => {
+  const updates: Record<string, DatePropertyValue> = {};
+  for (const key of endKey ? [startKey, endKey] : [startKey]) {
+    const property = schema[key];
+    const value = property?.type === 'date' ? shiftDateValue(page.propertyValues?.[key], days, property.includeTime) : null;
+    if (value) updates[key] = value;
+  }
+  return updates;
+};
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { queryPages, matchesFilter } from './views';
+import { DatabaseProperty } from '../../types/database';
+import { ViewDefinition } from '../../types/view';
+import { makePage } from '../../test/fixtures';
+
+describe('View query engine', () => {
+    const schema: Record<string, DatabaseProperty> = {
+        Status: {
+            type: 'status',
+            name: 'Status',
+            options: [
+                { id: '1', name: 'Not started', color: 'gray', group: 'todo' },
+                { id: '2', name: 'In progress', color: 'blue', group: 'in_progress' },
+                { id: '3', name: 'Done', color: 'green', group: 'complete' },
+            ],
+        },
+        Points: { type: 'number', name: 'Points', format: 'number' },
+        Due: { type: 'date', name: 'Due' },
+        Tags: { type: 'multi_select', name: 'Tags', options: [] },
+        Double: { type: 'formula', name: 'Double', expression: 'prop("Points") * 2', returnType: 'number' },
+    };
+
+    const pages = [
+        makePage('A', { Status: 'Done', Points: 3, Due: { start: '2024-03-10' }, Tags: ['bug'] }),
+        makePage('B', { Status: 'Not started', Points: 5, Due: { start: '2024-03-01' }, Tags: [] }),
+        makePage('C', { Status: 'In progress', Points: 3, Tags: ['bug', 'ui'] }),
+        makePage('D', { Status: 'Not started' }),
+    ];
+
+    const run = (view: Partial<ViewDefinition>) =>
+        queryPages(pages, { id: 'v', name: 'View', type: 'table', ...view }, { schema }).map((p) => p.title);
+
+    it('should combine AND and OR groups', () => {
+        expect(
+            run({
+                filter: {
+                    conjunction: 'and',
+                    filters: [
+                        { property: 'Status', operator: 'not_equals', value: 'Done' },
+                        {
+                            conjunction: 'or',
+                            filters: [
+                                { property: 'Tags', operator: 'contains', value: 'ui' },
+                                { property: 'Points', operator: 'greater_than', value: 4 },
+                            ],
+                        },
+                    ],
+                },
+            })
+        ).toEqual(['B', 'C']);
+    });
+
+    it('should support empty, date and list operators', () => {
+        expect(run({ filter: { property: 'Due', operator: 'is_empty', value: null } })).toEqual(['C', 'D']);
+        expect(run({ filter: { property: 'Due', operator: 'before', value: '2024-03-10' } })).toEqual(['B']);
+        expect(run({ filter: { property: 'Due', operator: 'on_or_after', value: '2024-03-10' } })).toEqual(['A']);
+        expect(run({ filter: { property: 'Status', operator: 'in', value: ['Done', 'In progress'] } })).toEqual(['A', 'C']);
+        expect(run({ filter: { property: 'Tags', operator: 'not_in', value: ['bug'] } })).toEqual(['B', 'D']);
+    });
+
+    it('should resolve relative dates and "me" when the view is run', () => {
+        // Friday March 8th 2024; the week runs Sunday 3rd to Saturday 9th
+        const now = new Date(2024, 2, 8, 15, 30);
+        const filter = (token: string, operator: 'equals' | 'before' = 'equals') =>
+            queryPages(
+                pages,
+                { id: 'v', name: 'View', type: 'table', filter: { property: 'Due', operator, value: { token } } },
+                { schema, now }
+            ).map((p) => p.title);
+
+        expect(filter('this_week')).toEqual([]);
+        expect(filter('next_7_days')).toEqual(['A']);
+        expect(filter('last_7_days')).toEqual([]);
+        expect(filter('last_30_days')).toEqual(['B']);
+        expect(filter('this_month')).toEqual(['A', 'B']);
+        expect(filter('this_week', 'before')).toEqual(['B']);
+
+        const mine = { ...pages[0], id: 'mine', propertyValues: { Owner: ['u1', 'u2'] }, createdBy: 'u1' };
+        const theirs = { ...pages[1], id: 'theirs', propertyValues: { Owner: ['u2'] }, createdBy: 'u2' };
+        const people: Record<string, DatabaseProperty> = { Owner: { type: 'person', name: 'Owner' } };
+        const me = { token: 'me' };
+        const assignedToMe = (currentUserId?: string) =>
+            [mine, theirs]
+                .filter((page) =>
+                    matchesFilter(page, { property: 'Owner', operator: 'contains', value: me }, { schema: people, currentUserId })
+                )
+                .map((page) => page.id);
+
+        expect(assignedToMe('u1')).toEqual(['mine']);
+        expect(assignedToMe('u2')).toEqual(['mine', 'theirs']);
+        // Nobody signed in: nothing is "mine"
+        expect(assignedToMe()).toEqual([]);
+        const createdByMe = { property: 'page.createdBy', operator: 'in' as const, value: [me] };
+        expect(matchesFilter(theirs, createdByMe, { schema: people, currentUserId: 'u2' })).toBe(true);
+    });
+
+    it('should filter on formula results', () => {
+        const page = pages[1];
+        expect(matchesFilter(page, { property: 'Double', operator: 'equals', value: 10 }, { schema })).toBe(true);
+    });
+
+    it('should sort by several keys and keep empty values last', () => {
+        expect(
+            run({
+                sort: [
+                    { property: 'Points', direction: 'desc' },
+                    { property: 'Status', direction: 'asc' },
+                ],
+            })
+        ).toEqual(['B', 'C', 'A', 'D']);
+        // Options sort in their defined order, not alphabetically
+        expect(run({ sort: { property: 'Status', direction: 'desc' } })).toEqual(['A', 'C', 'B', 'D']);
+    });
+});
@@ -0,0 +1,486 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  endOfMonth,
+  endOfWeek,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  subDays,
+} from 'date-fns';
+import { Page } from '../../types/workspace';
+import { DatabaseProperty, FormulaResult } from '../../types/database';
+import {
+  DynamicFilterValue,
+  FilterOperator,
+  RelativeDateToken,
+  ViewDefinition,
+  ViewFilter,
+  ViewFilterGroup,
+  ViewSort,
+} from '../../types/view';
+import { computeRowProperties } from './dependencies';
+import { hasOptions, parseDateValue } from './properties';
+
+// Query engine shared by the database views:
+// reads each page's value for a property, applies the view's (possibly nested)
+// filter groups and then its sort keys. Relative dates and "me" in filters are
+// resolved on every run, against the context's `now` and `currentUserId`.
+
+// Built-in page fields that can be filtered and sorted like properties
+// The "page." prefix keeps them apart from user-defined property names
+export const PAGE_FIELDS: Record<string, { name: string; kind: ViewValueKind }> = {
+  'page.title': { name: 'Name', kind: 'text' },
+  'page.createdAt': { name: 'Created', kind: 'date' },
+  'page.updatedAt': { name: 'Last edited', kind: 'date' },
+  'page.tags': { name: 'Tags', kind: 'list' },
+  'page.createdBy': { name: 'Created by', kind: 'list' },
+};
+
+// How a value is compared, independent of the property type it came from
+export type ViewValueKind = 'text' | 'number' | 'date' | 'boolean' | 'list';
+
+interface ResolvedValue {
+  kind: ViewValueKind;
+  value: any; // string, number, Date, boolean or string[]; null when empty
+}
+
+export interface ViewQueryContext {
+  schema: Record<string, DatabaseProperty>; // Properties of the database page
+  allPages?: Page[]; // Used to compute rollups and to show relation titles
+  now?: Date; // "Today" for relative date filters
+  currentUserId?: string; // Who "me" is in filters
+}
+
+export const FILTER_OPERATOR_LABELS: Record<FilterOperator, string> = {
+  equals: 'is',
+  not_equals: 'is not',
+  contains: 'contains',
+  not_contains: 'does not contain',
+  starts_with: 'starts with',
+  ends_with: 'ends with',
+  greater_than: '>',
+  less_than: '<',
+  greater_than_or_equal: '≥',
+  less_than_or_equal: '≤',
+  before: 'is before',
+  after: 'is after',
+  on_or_before: 'is on or before',
+  on_or_after: 'is on or after',
+  in: 'is any of',
+  not_in: 'is none of',
+  is_empty: 'is empty',
+  is_not_empty: 'is not empty',
+};
+
+const OPERATORS_BY_KIND: Record<ViewValueKind, FilterOperator[]> = {
+  text: ['equals', 'not_equals', 'contains', 'not_contains', 'starts_with', 'ends_with', 'in', 'not_in', 'is_empty', 'is_not_empty'],
+  number: ['equals', 'not_equals', 'greater_than', 'less_than', 'greater_than_or_equal', 'less_than_or_equal', 'is_empty', 'is_not_empty'],
+  date: ['equals', 'before', 'after', 'on_or_before', 'on_or_after', 'is_empty', 'is_not_empty'],
+  boolean: ['equals', 'not_equals'],
+  list: ['contains', 'not_contains', 'in', 'not_in', 'is_empty', 'is_not_empty'],
+};
+
+// Operators that compare against nothing
+const VALUELESS_OPERATORS: FilterOperator[] = ['is_empty', 'is_not_empty'];
+
+// Operators that match when the page has no value at all
+const NEGATIVE_OPERATORS: FilterOperator[] = ['not_equals', 'not_contains', 'not_in'];
+
+export const RELATIVE_DATE_LABELS: Record<RelativeDateToken, string> = {
+  today: 'Today',
+  tomorrow: 'Tomorrow',
+  yesterday: 'Yesterday',
+  this_week: 'This week',
+  last_week: 'Last week',
+  next_week: 'Next week',
+  this_month: 'This month',
+  last_month: 'Last month',
+  next_month: 'Next month',
+  last_7_days: 'Last 7 days',
+  next_7_days: 'Next 7 days',
+  last_30_days: 'Last 30 days',
+  next_30_days: 'Next 30 days',
+};
+
+export const isDynamicValue = (value: any): value is DynamicFilterValue =>
+  !!value && typeof value === 'object' && typeof value.token === 'string';
+
+// The days a relative date covers, as of `now`; both ends are start-of-day
+export const resolveRelativeDate = (token: RelativeDateToken, now: Date): { start: Date; end: Date } => {
+  const today = startOfDay(now);
+  const week = (date: Date) => ({ start: startOfWeek(date), end: startOfDay(endOfWeek(date)) });
+  const month = (date: Date) => ({ start: startOfMonth(date), end: startOfDay(endOfMonth(date)) });
+
+  switch (token) {
+    case 'today': return { start: today, end: today };
+    case 'tomorrow': return { start: addDays(today, 1), end: addDays(today, 1) };
+    case 'yesterday': return { start: subDays(today, 1), end: subDays(today, 1) };
+    case 'this_week': return week(today);
+    case 'last_week': return week(addWeeks(today, -1));
+    case 'next_week': return week(addWeeks(today, 1));
+    case 'this_month': return month(today);
+    case 'last_month': return month(addMonths(today, -1));
+    case 'next_month': return month(addMonths(today, 1));
+    case 'last_7_days': return { start: subDays(today, 6), end: today };
+    case 'next_7_days': return { start: today, end: addDays(today, 6) };
+    case 'last_30_days': return { start: subDays(today, 29), end: today };
+    case 'next_30_days': return { start: today, end: addDays(today, 29) };
+  }
+};
+
+export const isFilterGroup = (filter: ViewFilter | ViewFilterGroup): filter is ViewFilterGroup =>
+  'filters' in filter;
+
+export const operatorNeedsValue = (operator: FilterOperator) => !VALUELESS_OPERATORS.includes(operator);
+
+// Views saved before filter groups existed store a single rule; treat it as a one-rule AND group
+export const normalizeFilter = (filter: ViewDefinition['filter']): ViewFilterGroup => {
+  if (!filter) return { conjunction: 'and', filters: [] };
+  return isFilterGroup(filter) ? filter : { conjunction: 'and', filters: [filter] };
+};
+
+export const normalizeSorts = (sort: ViewDefinition['sort']): ViewSort[] => {
+  if (!sort) return [];
+  return Array.isArray(sort) ? sort : [sort];
+};
+
+// Count the rules in a filter, including nested groups
+export const countFilterRules = (filter: ViewDefinition['filter']): number =>
+  normalizeFilter(filter).filters.reduce(
+    (count, item) => count + (isFilterGroup(item) ? countFilterRules(item) : 1),
+    0
+  );
+
+// The comparison kind for a property key (schema property or built-in page field)
+export const getValueKind = (key: string, schema: Record<string, DatabaseProperty>): ViewValueKind => {
+  if (PAGE_FIELDS[key]) return PAGE_FIELDS[key].kind;
+  const property = schema[key];
+  switch (property?.type) {
+    case 'number':
+      return 'number';
+    case 'date':
+      return 'date';
+    case 'checkbox':
+      return 'boolean';
+    case 'multi_select':
+    case 'person':
+    case 'relation':
+      return 'list';
+    case 'formula':
+      return property.returnType;
+    case 'rollup':
+      if (property.aggregation === 'earliest_date' || property.aggregation === 'latest_date') return 'date';
+      if (property.aggregation === 'show_unique' || property.aggregation === 'show_original') return 'list';
+      return 'number';
+    default:
+      return 'text';
+  }
+};
+
+export const getFilterOperators = (key: string, schema: Record<string, DatabaseProperty>): FilterOperator[] =>
+  OPERATORS_BY_KIND[getValueKind(key, schema)];
+
+// Every property a view can filter or sort on: built-in fields first, then the schema
+export const getQueryableProperties = (
+  schema: Record<string, DatabaseProperty>
+): { key: string; name: string; kind: ViewValueKind }[] => [
+  ...Object.entries(PAGE_FIELDS).map(([key, field]) => ({ key, ...field })),
+  ...Object.entries(schema).map(([key, property]) => ({
+    key,
+    name: property.name || key,
+    kind: getValueKind(key, schema),
+  })),
+];
+
+// ==========================================
+// READING VALUES
+// ==========================================
+
+const isEmptyValue = (value: any) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const toDate = (value: any): Date | null => parseDateValue(value)?.start || null;
+
+// Infer a kind for values without a schema entry (older, untyped values)
+const inferValue = (value: any): ResolvedValue => {
+  if (isEmptyValue(value)) return { kind: 'text', value: null };
+  if (typeof value === 'number') return { kind: 'number', value };
+  if (typeof value === 'boolean') return { kind: 'boolean', value };
+  if (Array.isArray(value)) return { kind: 'list', value: value.map(String) };
+  if (value instanceof Date || typeof value?.toDate === 'function' || typeof value?.start === 'string') {
+    return { kind: 'date', value: toDate(value) };
+  }
+  return { kind: 'text', value: String(value) };
+};
+
+const fromFormulaResult = (result: FormulaResult | undefined, kind: ViewValueKind): ResolvedValue => {
+  if (!result || result.type === 'error' || isEmptyValue(result.value)) return { kind, value: null };
+  if (Array.isArray(result.value)) return { kind: 'list', value: result.value.map(String) };
+  if (result.type === 'date') return { kind: 'date', value: toDate(result.value) };
+  if (typeof result.value === 'number') return { kind: 'number', value: result.value };
+  if (typeof result.value === 'boolean') return { kind: 'boolean', value: result.value };
+  return { kind: 'text', value: String(result.value) };
+};
+
+// Reads values for one query run; computed properties are cached per row
+const createValueReader = (context: ViewQueryContext) => {
+  const { schema, allPages = [], now = new Date() } = context;
+  const titles = new Map(allPages.map((p) => [p.id, p.title || 'Untitled']));
+  const getComputed = (page: Page) => computeRowProperties(page, schema, allPages, now);
+
+  return (page: Page, key: string): ResolvedValue => {
+    switch (key) {
+      case 'page.title':
+        return { kind: 'text', value: page.title || null };
+      case 'page.createdAt':
+        return { kind: 'date', value: toDate(page.createdAt) };
+      case 'page.updatedAt':
+        return { kind: 'date', value: toDate(page.updatedAt) };
+      case 'page.tags':
+        return { kind: 'list', value: page.tags || [] };
+      case 'page.createdBy':
+        return { kind: 'list', value: page.createdBy ? [page.createdBy] : [] };
+    }
+
+    const property = schema[key];
+    const kind = getValueKind(key, schema);
+    const raw = page.propertyValues?.[key];
+
+    switch (property?.type) {
+      case 'formula':
+      case 'rollup':
+        return fromFormulaResult(getComputed(page)[key], kind);
+      case 'relation': {
+        // Compare relations by the titles of the linked pages
+        const linked = page.properties?.[key]?.linkedPageIds || [];
+        return { kind, value: linked.map((id: string) => titles.get(id) || id) };
+      }
+      case 'number':
+        return { kind, value: typeof raw === 'number' ? raw : null };
+      case 'date':
+        return { kind, value: toDate(raw) };
+      case 'checkbox':
+        return { kind, value: !!raw };
+      case 'multi_select':
+      case 'person':
+        return { kind, value: isEmptyValue(raw) ? [] : (Array.isArray(raw) ? raw : [raw]).map(String) };
+      case undefined: {
+        // Pages created before typed properties kept plain values in `properties`
+        const legacy = page.properties?.[key];
+        return inferValue(raw ?? (typeof legacy === 'object' && !Array.isArray(legacy) ? undefined : legacy));
+      }
+      default:
+        return { kind, value: isEmptyValue(raw) ? null : String(raw) };
+    }
+  };
+};
+
+// ==========================================
+// FILTERING
+// ==========================================
+
+const sameText = (a: any, b: any) => String(a).trim().toLowerCase() === String(b).trim().toLowerCase();
+
+const toList = (value: any): any[] => (Array.isArray(value) ? value : isEmptyValue(value) ? [] : [value]);
+
+const isMe = (value: any) => isDynamicValue(value) && value.token === 'me';
+
+// Swap "me" (alone or in an "is any of" list) for the signed-in user's ID
+const resolveMe = (value: any, currentUserId?: string): any =>
+  Array.isArray(value)
+    ? value.map((item) => resolveMe(item, currentUserId)).filter((item) => item !== null)
+    : isMe(value)
+      ? currentUserId ?? null
+      : value;
+
+const matchesRule = ({ kind, value }: ResolvedValue, rule: ViewFilter, context: ViewQueryContext): boolean => {
+  const { operator } = rule;
+  const empty = isEmptyValue(value);
+
+  if (operator === 'is_empty') return empty;
+  if (operator === 'is_not_empty') return !empty;
+
+  // Rules still being edited (no value yet) don't hide anything
+  if (isEmptyValue(rule.value)) return true;
+  if (empty && kind !== 'boolean') return NEGATIVE_OPERATORS.includes(operator);
+
+  // "Me" compares against the signed-in user; with nobody signed in nothing is theirs
+  if (isMe(rule.value) || (Array.isArray(rule.value) && rule.value.some(isMe))) {
+    const target = resolveMe(rule.value, context.currentUserId);
+    if (isEmptyValue(target)) return NEGATIVE_OPERATORS.includes(operator);
+    return matchesRule({ kind, value }, { ...rule, value: target }, context);
+  }
+
+  switch (kind) {
+    case 'text': {
+      const text = String(value).toLowerCase();
+      const target = String(rule.value).toLowerCase();
+      switch (operator) {
+        case 'equals': return sameText(value, rule.value);
+        case 'not_equals': return !sameText(value, rule.value);
+        case 'contains': return text.includes(target);
+        case 'not_contains': return !text.includes(target);
+        case 'starts_with': return text.startsWith(target);
+        case 'ends_with': return text.endsWith(target);
+        case 'in': return toList(rule.value).some((item) => sameText(value, item));
+        case 'not_in': return !toList(rule.value).some((item) => sameText(value, item));
+        default: return false;
+      }
+    }
+
+    case 'number': {
+      const target = Number(rule.value);
+      if (!isFinite(target)) return true;
+      switch (operator) {
+        case 'equals': return value === target;
+        case 'not_equals': return value !== target;
+        case 'greater_than': return value > target;
+        case 'less_than': return value < target;
+        case 'greater_than_or_equal': return value >= target;
+        case 'less_than_or_equal': return value <= target;
+        default: return false;
+      }
+    }
+
+    case 'date': {
+      // A date is a one-day range; relative dates like "this week" cover several days
+      let range: { start: Date; end: Date };
+      if (isDynamicValue(rule.value)) {
+        if (!(rule.value.token in RELATIVE_DATE_LABELS)) return true;
+        range = resolveRelativeDate(rule.value.token as RelativeDateToken, context.now || new Date());
+      } else {
+        const target = toDate(rule.value);
+        if (!target) return true;
+        range = { start: startOfDay(target), end: startOfDay(target) };
+      }
+      // Dates are compared by calendar day
+      const day = startOfDay(value).getTime();
+      const start = range.start.getTime();
+      const end = range.end.getTime();
+      switch (operator) {
+        case 'equals': return day >= start && day <= end;
+        case 'before':
+        case 'less_than': return day < start;
+        case 'after':
+        case 'greater_than': return day > end;
+        case 'on_or_before':
+        case 'less_than_or_equal': return day <= end;
+        case 'on_or_after':
+        case 'greater_than_or_equal': return day >= start;
+        default: return false;
+      }
+    }
+
+    case 'boolean': {
+      const target = rule.value === true || rule.value === 'true';
+      if (operator === 'equals') return !!value === target;
+      if (operator === 'not_equals') return !!value !== target;
+      return false;
+    }
+
+    case 'list': {
+      const items: any[] = value;
+      const hasAny = (targets: any[]) => targets.some((target) => items.some((item) => sameText(item, target)));
+      switch (operator) {
+        case 'contains':
+        case 'equals': return hasAny([rule.value]);
+        case 'not_contains':
+        case 'not_equals': return !hasAny([rule.value]);
+        case 'in': return hasAny(toList(rule.value));
+        case 'not_in': return !hasAny(toList(rule.value));
+        default: return false;
+      }
+    }
+  }
+};
+
+const matchesGroup = (
+  page: Page,
+  group: ViewFilterGroup,
+  readValue: ReturnType<typeof createValueReader>,
+  context: ViewQueryContext
+): boolean => {
+  // An empty group matches everything, whatever its conjunction
+  if (group.filters.length === 0) return true;
+
+  const test = (item: ViewFilter | ViewFilterGroup) =>
+    isFilterGroup(item)
+      ? matchesGroup(page, item, readValue, context)
+      : matchesRule(readValue(page, item.property), item, context);
+
+  return group.conjunction === 'or' ? group.filters.some(test) : group.filters.every(test);
+};
+
+// Check a single page against a view filter
+export const matchesFilter = (
+  page: Page,
+  filter: ViewDefinition['filter'],
+  context: ViewQueryContext
+): boolean => matchesGroup(page, normalizeFilter(filter), createValueReader(context), context);
+
+// ==========================================
+// SORTING
+// ==========================================
+
+const compareValues = (a: ResolvedValue, b: ResolvedValue, property: DatabaseProperty | undefined): number => {
+  if (a.kind === 'text' && b.kind === 'text' && property && hasOptions(property)) {
+    // Options sort in the order they are defined, not alphabetically
+    const rank = (name: string) => {
+      const index = property.options.findIndex((option) => option.name === name);
+      return index === -1 ? property.options.length : index;
+    };
+    return rank(a.value) - rank(b.value);
+  }
+  if (a.value instanceof Date && b.value instanceof Date) return a.value.getTime() - b.value.getTime();
+  if (typeof a.value === 'number' && typeof b.value === 'number') return a.value - b.value;
+  if (typeof a.value === 'boolean' && typeof b.value === 'boolean') return Number(a.value) - Number(b.value);
+
+  const text = (resolved: ResolvedValue) =>
+    Array.isArray(resolved.value) ? resolved.value.join(', ') : String(resolved.value);
+  return text(a).localeCompare(text(b), undefined, { numeric: true, sensitivity: 'base' });
+};
+
+const sortWithReader = (
+  pages: Page[],
+  sorts: ViewSort[],
+  schema: Record<string, DatabaseProperty>,
+  readValue: ReturnType<typeof createValueReader>
+): Page[] => {
+  if (sorts.length === 0) return pages;
+  const keys = new Map(pages.map((page) => [page.id, sorts.map((s) => readValue(page, s.property))]));
+
+  // Array.prototype.sort is stable, so full ties keep their original order
+  return [...pages].sort((pageA, pageB) => {
+    const valuesA = keys.get(pageA.id)!;
+    const valuesB = keys.get(pageB.id)!;
+
+    for (let i = 0; i < sorts.length; i++) {
+      const a = valuesA[i];
+      const b = valuesB[i];
+      const emptyA = isEmptyValue(a.value);
+      const emptyB = isEmptyValue(b.value);
+      if (emptyA || emptyB) {
+        if (emptyA && emptyB) continue;
+        return emptyA ? 1 : -1;
+      }
+
+      const result = compareValues(a, b, schema[sorts[i].property]);
+      if (result !== 0) return sorts[i].direction === 'desc' ? -result : result;
+    }
+    return 0;
+  });
+};
+
+// Sort pages by each sort key in turn; pages without a value always go last
+export const sortPages = (pages: Page[], sort: ViewDefinition['sort'], context: ViewQueryContext): Page[] =>
+  sortWithReader(pages, normalizeSorts(sort), context.schema, createValueReader(context));
+
+// Apply a view's filter and sort to a set of pages
+export const queryPages = (pages: Page[], view: ViewDefinition, context: ViewQueryContext): Page[] => {
+  const group = normalizeFilter(view.filter);
+  const readValue = createValueReader(context);
+  const filtered = group.filters.length > 0 ? pages.filter((page) => matchesGroup(page, group, readValue, context)) : pages;
+  return sortWithReader(filtered, normalizeSorts(view.sort), context.schema, readValue);
+};
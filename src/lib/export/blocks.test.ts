@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { richTextToHtml, richTextToMarkdown, richTextToPlainText, walkBlockTree } from './blocks';
+import { getMarkdownContent } from './markdown';
+import { getHtmlContent } from './html';
+import { Block, Page } from '../../types/workspace';
+
+describe('Block tree export', () => {
+    const blocks: Block[] = [
+        { id: 'n1', type: 'numbered-list', content: 'First' },
+        { id: 'n1a', type: 'bulleted-list', content: 'Detail', parentId: 'n1' },
+        { id: 'n2', type: 'numbered-list', content: '<p>Second <strong>bold</strong></p>' },
+        { id: 'p', type: 'paragraph', content: 'Break' },
+        { id: 'n3', type: 'numbered-list', content: 'Again' },
+        { id: 't', type: 'toggle', content: 'More' },
+        { id: 'tc', type: 'paragraph', content: 'Hidden', parentId: 't' },
+        { id: 'c', type: 'code-enhanced', content: 'const a = 1;', properties: { language: 'ts' } },
+        { id: 'e', type: 'equation', content: 'x^2', properties: { latex: 'x^2' } },
+        {
+            id: 'm',
+            type: 'embed',
+            content: 'https://youtu.be/abc',
+            properties: { url: 'https://youtu.be/abc', embedData: { type: 'youtube', title: 'Demo', thumbnail: 'https://img.youtube.com/vi/abc/0.jpg' } },
+        },
+        { id: 'a', type: 'ai', content: 'Generated text' },
+    ];
+    const page: Page = { id: 'page', title: 'Doc', icon: '', blocks, createdAt: new Date(0), updatedAt: new Date(0) };
+
+    it('should visit nested blocks and number each run of list items', () => {
+        const visited = walkBlockTree(blocks, (block, children: string[], context) =>
+            [`${block.id}:${context.depth}:${context.listNumber}`, ...children].join(' ')
+        );
+        expect(visited.slice(0, 5)).toEqual(['n1:0:1 n1a:1:1', 'n2:0:2', 'p:0:1', 'n3:0:1', 't:0:1 tc:1:1']);
+    });
+
+    it('should convert TipTap HTML to Markdown, HTML and plain text', () => {
+        const html = '<p>Hi <strong>there</strong> <em>and</em> <a href="https://example.com">a link</a> &amp; <code>x*y</code></p><p>2 * 3</p>';
+        expect(richTextToMarkdown(html)).toBe('Hi **there** *and* [a link](https://example.com) & `x*y`\n2 \\* 3');
+        expect(richTextToHtml(html)).toBe(
+            'Hi <strong>there</strong> <em>and</em> <a href="https://example.com">a link</a> &amp; <code>x*y</code><br />2 * 3'
+        );
+        expect(richTextToPlainText(html)).toBe('Hi there and a link & x*y\n2 * 3');
+        // Unsafe links and unknown tags don't get through
+        expect(richTextToHtml('<p><a href="javascript:alert(1)">x</a><img src=y onerror=z></p>')).toBe('x');
+        // Plain text is kept as typed
+        expect(richTextToMarkdown('Some **markdown**')).toBe('Some **markdown**');
+    });
+
+    it('should write every block type to Markdown', () => {
+        const markdown = getMarkdownContent(page).split('# Doc\n\n')[1];
+        expect(markdown).toBe(
+            [
+                '1. First\n\n   - Detail',
+                '2. Second **bold**',
+                'Break',
+                '1. Again',
+                '<details>\n<summary>More</summary>\n\nHidden\n</details>',
+                '```ts\nconst a = 1;\n```',
+                '$$\nx^2\n$$',
+                '[![Demo](https://img.youtube.com/vi/abc/0.jpg)](https://youtu.be/abc)',
+                'Generated text',
+            ].join('\n\n')
+        );
+    });
+
+    it('should write lists, toggles, equations and embeds to HTML', () => {
+        const html = getHtmlContent(page);
+        expect(html).toContain(
+            '<ol class="page-list"><li class="page-list-item">First<ul class="page-list"><li class="page-list-item">Detail</li></ul></li>' +
+                '<li class="page-list-item">Second <strong>bold</strong></li></ol>'
+        );
+        expect(html).toContain('<summary>More</summary><div class="toggle-content"><p class="page-paragraph">Hidden</p></div>');
+        expect(html).toContain('<code class="language-ts">const a = 1;</code>');
+        expect(html).toContain('class="katex-display"');
+        expect(html).toContain('katex.min.css');
+        expect(html).toContain('<a class="page-embed" href="https://youtu.be/abc"><img src="https://img.youtube.com/vi/abc/0.jpg" alt="" />');
+    });
+});
@@ -0,0 +1,229 @@
+import katex from "katex";
+import { Block } from "../../types/workspace";
+
+// Shared by the Markdown, HTML and PDF exporters
+// Blocks are stored flat with parentId links; the walker visits them as a tree
+// so every exporter nests lists and toggle children the same way, and numbers
+// numbered lists per run. Block.content is either plain text or the HTML the
+// TipTap editor writes; the rich-text helpers read both.
+
+export interface BlockContext {
+  depth: number; // 0 for top-level blocks
+  listNumber: number; // Position in a run of consecutive list items of the same type, from 1
+  listStart: boolean; // First / last item of that run; always true for other blocks
+  listEnd: boolean;
+}
+
+export interface RichTextSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  href?: string;
+}
+
+const LIST_TYPES = new Set(["bulleted-list", "numbered-list", "checkbox"]);
+
+// Public function to check whether a block is an item of a list
+export function isListBlock(block: Block): boolean {
+  return LIST_TYPES.has(block.type);
+}
+
+// Public function to visit blocks as a tree
+// Children are rendered first and passed to their parent; blocks whose parent
+// is missing are treated as top-level
+export function walkBlockTree<T>(blocks: Block[], visit: (block: Block, children: T[], context: BlockContext) => T): T[] {
+  const ids = new Set(blocks.map((block) => block.id));
+  const roots: Block[] = [];
+  const childrenOf = new Map<string, Block[]>();
+  blocks.forEach((block) => {
+    if (block.parentId && block.parentId !== block.id && ids.has(block.parentId)) {
+      childrenOf.set(block.parentId, [...(childrenOf.get(block.parentId) || []), block]);
+    } else {
+      roots.push(block);
+    }
+  });
+
+  // Blocks in a parentId cycle are only visited once
+  const visited = new Set<string>();
+  const visitLevel = (level: Block[], depth: number): T[] => {
+    const items = level.filter((block) => !visited.has(block.id));
+    items.forEach((block) => visited.add(block.id));
+    let listNumber = 0;
+    return items.map((block, index) => {
+      const previous = items[index - 1];
+      const next = items[index + 1];
+      const listStart = !isListBlock(block) || previous?.type !== block.type;
+      const listEnd = !isListBlock(block) || next?.type !== block.type;
+      listNumber = listStart ? 1 : listNumber + 1;
+      const children = visitLevel(childrenOf.get(block.id) || [], depth + 1);
+      return visit(block, children, { depth, listNumber, listStart, listEnd });
+    });
+  };
+  return visitLevel(roots, 0);
+}
+
+// Public function to list blocks in document order with their context
+// For exporters that draw one block after another, like the PDF one
+export function flattenBlockTree(blocks: Block[]): Array<{ block: Block; context: BlockContext }> {
+  return walkBlockTree(blocks, (block, children: Array<{ block: Block; context: BlockContext }>[], context) => [
+    { block, context },
+    ...children.flat(),
+  ]).flat();
+}
+
+// The text of a block: content (which may be TipTap HTML) or the plain text fallback
+export function getBlockContent(block: Block): string {
+  return block.content || block.text || "";
+}
+
+// Public function to check whether content is TipTap HTML rather than plain text
+export function isRichTextHtml(content: string): boolean {
+  return /<\/?(p|br|strong|b|em|i|s|strike|del|code|a|span|u|mark|h[1-6]|ul|ol|li)\b[^>]*>/i.test(content);
+}
+
+// Function to decode the entities TipTap writes
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|amp|lt|gt|quot|apos|nbsp);/gi, (entity, code: string) => {
+    const named: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+    if (named[code.toLowerCase()]) return named[code.toLowerCase()];
+    const value = code[1]?.toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+  });
+}
+
+// Public function to read content into formatted spans
+// Paragraph and line breaks become "\n"; tags other than marks and links are dropped
+export function parseRichText(content: string): RichTextSpan[] {
+  if (!isRichTextHtml(content)) return content ? [{ text: content }] : [];
+
+  const spans: RichTextSpan[] = [];
+  const marks: Array<{ tag: string; mark: Partial<RichTextSpan> }> = [];
+  const push = (text: string) => {
+    if (!text) return;
+    const span: RichTextSpan = Object.assign({ text }, ...marks.map((entry) => entry.mark));
+    const last = spans[spans.length - 1];
+    const { text: lastText, ...lastMarks } = last || { text: "" };
+    const { text: _, ...spanMarks } = span;
+    if (last && JSON.stringify(lastMarks) === JSON.stringify(spanMarks)) last.text = lastText + text;
+    else spans.push(span);
+  };
+
+  const TAG = /<(\/?)([a-z0-9]+)([^>]*)>|([^<]+)/gi;
+  let match: RegExpExecArray | null;
+  let blockCount = 0;
+  while ((match = TAG.exec(content))) {
+    const [, closing, rawTag, attributes, text] = match;
+    if (text !== undefined) {
+      push(decodeEntities(text));
+      continue;
+    }
+    const tag = rawTag.toLowerCase();
+    if (tag === "br") {
+      push("\n");
+    } else if (/^(p|div|li|h[1-6]|blockquote|pre)$/.test(tag)) {
+      // Block elements are separated by line breaks
+      if (!closing && blockCount++ > 0) push("\n");
+    } else if (closing) {
+      const index = marks.map((entry) => entry.tag).lastIndexOf(tag);
+      if (index >= 0) marks.splice(index, 1);
+    } else {
+      const mark: Partial<RichTextSpan> | null =
+        tag === "strong" || tag === "b"
+          ? { bold: true }
+          : tag === "em" || tag === "i"
+            ? { italic: true }
+            : tag === "s" || tag === "strike" || tag === "del"
+              ? { strike: true }
+              : tag === "code"
+                ? { code: true }
+                : tag === "a"
+                  ? { href: decodeEntities(/href\s*=\s*("([^"]*)"|'([^']*)')/i.exec(attributes)?.slice(2).find(Boolean) || "") }
+                  : null;
+      if (mark && !attributes.trim().endsWith("/")) marks.push({ tag, mark });
+    }
+  }
+  return spans;
+}
+
+// Public function to get the plain text of content
+export function richTextToPlainText(content: string): string {
+  return parseRichText(content)
+    .map((span) => span.text)
+    .join("");
+}
+
+// Public function to convert content to Markdown inline syntax
+// Plain text is kept as typed, since it may already use Markdown syntax
+export function richTextToMarkdown(content: string): string {
+  return isRichTextHtml(content) ? spansToMarkdown(parseRichText(content)) : content;
+}
+
+// Public function to write formatted spans with Markdown inline syntax
+export function spansToMarkdown(spans: RichTextSpan[]): string {
+  return spans
+    .map((span) => {
+      // Marks wrap the text but not its surrounding spaces, which Markdown wouldn't read
+      const [, before, inner, after] = /^(\s*)([\s\S]*?)(\s*)$/.exec(span.text)!;
+      if (!inner) return span.text;
+      // "&#" is escaped too, as it would start a character reference like "&#32;"
+      let text = span.code ? `\`${inner}\`` : inner.replace(/([*_`~[\]\\]|&(?=#))/g, "\\$1");
+      if (span.bold) text = `**${text}**`;
+      if (span.italic) text = `*${text}*`;
+      if (span.strike) text = `~~${text}~~`;
+      if (span.href) text = `[${text}](${span.href})`;
+      return before + text + after;
+    })
+    .join("");
+}
+
+// Public function to escape special HTML characters
+// Converts characters like < > & " ' to their HTML entity equivalents
+export function escapeHtml(text: string): string {
+  const map: Record<string, string> = {
+    "&": "&amp;",
+    "<": "&lt;",
+    ">": "&gt;",
+    '"': "&quot;",
+    "'": "&#039;",
+  };
+  return text.replace(/[&<>"']/g, (m) => map[m]);
+}
+
+// Only web, mail and in-app links are written into exported HTML
+const isSafeHref = (href: string) => /^(https?:|mailto:|\/|#)/i.test(href.trim());
+
+// Public function to convert content to HTML
+// TipTap HTML is rebuilt from its spans so only formatting and safe links get
+// through; plain text is escaped
+export function richTextToHtml(content: string): string {
+  return parseRichText(content)
+    .map((span) => {
+      let html = escapeHtml(span.text).replace(/\n/g, "<br />");
+      if (span.code) html = `<code>${html}</code>`;
+      if (span.bold) html = `<strong>${html}</strong>`;
+      if (span.italic) html = `<em>${html}</em>`;
+      if (span.strike) html = `<s>${html}</s>`;
+      if (span.href && isSafeHref(span.href)) html = `<a href="${escapeHtml(span.href)}">${html}</a>`;
+      return html;
+    })
+    .join("");
+}
+
+// Public function to get what an embed block shows: its URL, a title and a thumbnail if known
+export function getEmbedInfo(block: Block): { url: string; title: string; thumbnail?: string } | null {
+  const url: string = block.properties?.url || block.properties?.embedData?.url || block.text || "";
+  if (!url) return null;
+  const data = block.properties?.embedData || {};
+  return { url, title: data.title || url, thumbnail: data.thumbnail };
+}
+
+// Stylesheet KaTeX output needs, matching the installed version
+export const KATEX_STYLESHEET = `https://cdn.jsdelivr.net/npm/katex@${katex.version}/dist/katex.min.css`;
+
+// Public function to render an equation block's LaTeX with KaTeX
+// Syntax errors are shown in the output instead of failing the export
+export function renderEquationHtml(latex: string): string {
+  return katex.renderToString(latex, { displayMode: true, throwOnError: false, output: "htmlAndMathml" });
+}
@@ -0,0 +1,91 @@
+import { Page } from "../../types/workspace";
+import { DatabaseProperty } from "../../types/database";
+import { ViewDefinition } from "../../types/view";
+import { WorkspaceMember } from "../../types/permission";
+import { parseDateValue, serializeDate } from "../database/properties";
+import { downloadFile } from "./download";
+import { TITLE_COLUMN, getCellValue, getColumnName, getTableColumns } from "../database/table";
+import { getValueKind, queryPages } from "../database/views";
+
+// CSV export for database views
+// Exports the rows a view shows, in its order, with the columns it shows.
+// Formulas and rollups are computed; values are written in forms spreadsheets
+// read (plain numbers, ISO dates) and lib/import/csv.ts reads back.
+
+export interface CsvExportOptions {
+  schema: Record<string, DatabaseProperty>; // Properties of the database page
+  allPages?: Page[]; // Pages relations and rollups may point to
+  currentUserId?: string; // Who "me" is in the view's filters
+  members?: WorkspaceMember[]; // Used to write person values as names
+}
+
+// Cells spreadsheet apps would run as a formula (CSV injection)
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+// Function to quote a cell when it contains a delimiter, quote or line break
+// Cells that would start a formula get a leading ' (numbers like -3 are safe)
+function escapeCsvCell(text: string): string {
+  const isNumber = text.trim() === text && isFinite(Number(text));
+  if (FORMULA_TRIGGER.test(text) && !isNumber) return `"'${text.replace(/"/g, '""')}"`;
+  return /[",\n\r]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Function to write several values in one cell
+// Names with a comma or quote are quoted, so lib/import/csv.ts splits them right
+function formatCsvList(items: string[]): string {
+  return items.map((item) => (/[",]/.test(item) ? `"${item.replace(/"/g, '""')}"` : item)).join(", ");
+}
+
+// Function to write one cell
+function formatCsvValue(value: any, key: string, schema: Record<string, DatabaseProperty>, members: WorkspaceMember[]): string {
+  if (value === null || value === undefined) return "";
+  const property = schema[key];
+
+  switch (getValueKind(key, schema)) {
+    case "date": {
+      const parsed = parseDateValue(value);
+      if (!parsed) return "";
+      // Built-in timestamps keep their time; date properties only when they include it
+      const includeTime = property?.type === "date" ? property.includeTime : !property;
+      const start = serializeDate(parsed.start, includeTime);
+      return parsed.end ? `${start} → ${serializeDate(parsed.end, includeTime)}` : start;
+    }
+    case "boolean":
+      return value ? "Yes" : "No";
+  }
+
+  const values = Array.isArray(value) ? value : [value];
+  if (property?.type === "person") {
+    return formatCsvList(
+      values.map((id: string) => {
+        const member = members.find((m) => m.userId === id);
+        return member?.displayName || member?.email || id;
+      })
+    );
+  }
+  const items = values.map((item) => (typeof item === "object" ? JSON.stringify(item) : String(item)));
+  return Array.isArray(value) ? formatCsvList(items) : items[0];
+}
+
+// Public function to get the CSV text of a view
+// The first column is always the page title
+export function getCsvContent(pages: Page[], view: ViewDefinition, options: CsvExportOptions): string {
+  const { schema, allPages = pages, currentUserId, members = [] } = options;
+  const columns = [TITLE_COLUMN, ...getTableColumns(view, schema)];
+  const rows = queryPages(pages, view, { schema, allPages, currentUserId });
+
+  const lines = [
+    columns.map((key) => escapeCsvCell(getColumnName(key, schema))),
+    ...rows.map((page) =>
+      columns.map((key) => escapeCsvCell(formatCsvValue(getCellValue(page, key, schema, allPages), key, schema, members)))
+    ),
+  ];
+  return lines.map((cells) => cells.join(",")).join("\r\n");
+}
+
+// Public function to export a view as a CSV file
+export function exportCsv(database: Page, pages: Page[], view: ViewDefinition, options: CsvExportOptions): void {
+  // A byte order mark lets spreadsheet apps detect UTF-8
+  const csvContent = "﻿" + getCsvContent(pages, view, options);
+  downloadFile(csvContent, `${database.title || "Untitled"} - ${view.name}.csv`, "text/csv;charset=utf-8");
+}
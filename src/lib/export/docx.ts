@@ -0,0 +1,388 @@
+import { strToU8, zipSync } from "fflate";
+import { Page, Block } from "../../types/workspace";
+import { BlockContext, RichTextSpan, getBlockContent, getEmbedInfo, parseRichText, walkBlockTree } from "./blocks";
+import { downloadFile } from "./download";
+import { fetchMedia } from "./workspace";
+
+// Word (.docx) export
+// Writes the WordprocessingML package by hand: headings, quotes, callouts and
+// code use paragraph styles, lists use Word numbering (numbered lists restart
+// per run), checkboxes are checkbox content controls, tables are Word tables
+// and images are embedded pictures. lib/import/docx.ts reads these back.
+
+export interface DocxExportOptions {
+  fetchImage?: (url: string) => Promise<{ data: Uint8Array; contentType: string } | null>;
+}
+
+const NS = {
+  w: "http://schemas.openxmlformats.org/wordprocessingml/2006/main",
+  r: "http://schemas.openxmlformats.org/officeDocument/2006/relationships",
+  wp: "http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing",
+  a: "http://schemas.openxmlformats.org/drawingml/2006/main",
+  pic: "http://schemas.openxmlformats.org/drawingml/2006/picture",
+  w14: "http://schemas.microsoft.com/office/word/2010/wordml",
+  mc: "http://schemas.openxmlformats.org/markup-compatibility/2006",
+};
+
+const IMAGE_TYPES: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpeg",
+  "image/gif": "gif",
+};
+
+// Widest picture that fits between the default margins: 6.5in in EMU
+const MAX_IMAGE_WIDTH = 5943600;
+const EMU_PER_PIXEL = 9525;
+
+// Function to escape text for XML, dropping characters XML can't hold
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Function to read the pixel size of a PNG, GIF or JPEG
+function getImageSize(data: Uint8Array): { width: number; height: number } | null {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (data.length > 24 && data[0] === 0x89 && data[1] === 0x50) {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+  if (data.length > 10 && data[0] === 0x47 && data[1] === 0x49) {
+    return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+  }
+  if (data[0] === 0xff && data[1] === 0xd8) {
+    // Walk the JPEG segments to the frame header
+    for (let offset = 2; offset + 9 < data.length; ) {
+      if (data[offset] !== 0xff) return null;
+      const marker = data[offset + 1];
+      if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+        return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  }
+  return null;
+}
+
+// Relationships, pictures and list numbering collected while the body is written
+interface DocxContext {
+  relationships: string[];
+  media: Record<string, Uint8Array>;
+  images: Map<string, { data: Uint8Array; contentType: string } | null>;
+  numberedLists: number; // Numbering instances for numbered lists; each run gets its own
+}
+
+// Function to add a relationship from the document and return its id
+function addRelationship(context: DocxContext, type: string, target: string, external = false): string {
+  const id = `rId${context.relationships.length + 3}`; // rId1 and rId2 are styles and numbering
+  context.relationships.push(
+    `<Relationship Id="${id}" Type="${NS.r}/${type}" Target="${escapeXml(target)}"${external ? ' TargetMode="External"' : ""}/>`
+  );
+  return id;
+}
+
+// Function to write content (plain text or TipTap HTML) as runs, keeping bold,
+// italic, strikethrough, inline code and links
+function formatRuns(content: string, context: DocxContext, extraProperties = ""): string {
+  return formatSpans(parseRichText(content), context, extraProperties);
+}
+
+// Function to write text exactly as stored (code, captions), without reading it as HTML
+function formatText(text: string, context: DocxContext, extraProperties = ""): string {
+  return text ? formatSpans([{ text }], context, extraProperties) : "";
+}
+
+// Function to write spans as runs; links become hyperlinks
+function formatSpans(spans: RichTextSpan[], context: DocxContext, extraProperties: string): string {
+  return spans
+    .map((span) => {
+      const properties =
+        (span.code ? '<w:rStyle w:val="CodeChar"/>' : span.href ? '<w:rStyle w:val="Hyperlink"/>' : "") +
+        (span.bold ? "<w:b/>" : "") +
+        (span.italic ? "<w:i/>" : "") +
+        (span.strike ? "<w:strike/>" : "") +
+        extraProperties;
+      const text = span.text
+        .split("\n")
+        .map((line) =>
+          line
+            .split("\t")
+            .map((part) => (part ? `<w:t xml:space="preserve">${escapeXml(part)}</w:t>` : ""))
+            .join("<w:tab/>")
+        )
+        .join("<w:br/>");
+      const run = `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ""}${text}</w:r>`;
+      // Word can only follow absolute links
+      return span.href && /^(https?:|mailto:)/i.test(span.href)
+        ? `<w:hyperlink r:id="${addRelationship(context, "hyperlink", span.href, true)}">${run}</w:hyperlink>`
+        : run;
+    })
+    .join("");
+}
+
+// Function to write a paragraph with a style, numbering and indentation
+function paragraph(runs: string, options: { style?: string; depth?: number; numbering?: { id: number; level: number } } = {}): string {
+  const { style, depth = 0, numbering } = options;
+  const properties =
+    (style ? `<w:pStyle w:val="${style}"/>` : "") +
+    (numbering ? `<w:numPr><w:ilvl w:val="${numbering.level}"/><w:numId w:val="${numbering.id}"/></w:numPr>` : "") +
+    (!numbering && depth > 0 ? `<w:ind w:left="${Math.min(depth, 8) * 720}"/>` : "");
+  return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ""}${runs}</w:p>`;
+}
+
+// Function to write a checkbox content control
+function checkbox(checked: boolean): string {
+  return (
+    '<w:sdt><w:sdtPr><w14:checkbox>' +
+    `<w14:checked w14:val="${checked ? 1 : 0}"/>` +
+    '<w14:checkedState w14:val="2612" w14:font="MS Gothic"/><w14:uncheckedState w14:val="2610" w14:font="MS Gothic"/>' +
+    '</w14:checkbox></w:sdtPr><w:sdtContent><w:r><w:rPr><w:rFonts w:ascii="MS Gothic" w:eastAsia="MS Gothic" w:hAnsi="MS Gothic"/></w:rPr>' +
+    `<w:t>${checked ? "☒" : "☐"}</w:t></w:r></w:sdtContent></w:sdt><w:r><w:t xml:space="preserve"> </w:t></w:r>`
+  );
+}
+
+// Function to write an embedded picture
+function picture(url: string, caption: string, context: DocxContext): string | null {
+  const image = context.images.get(url);
+  const extension = image && IMAGE_TYPES[image.contentType];
+  if (!image || !extension) return null;
+
+  const index = Object.keys(context.media).length + 1;
+  const name = `image${index}.${extension}`;
+  context.media[`word/media/${name}`] = image.data;
+  const id = addRelationship(context, "image", `media/${name}`);
+
+  const measured = getImageSize(image.data);
+  const size = measured && measured.width > 0 && measured.height > 0 ? measured : { width: 600, height: 400 };
+  const width = Math.min(size.width * EMU_PER_PIXEL, MAX_IMAGE_WIDTH);
+  const height = Math.round((width * size.height) / size.width);
+  return (
+    `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${width}" cy="${height}"/>` +
+    `<wp:docPr id="${index}" name="Picture ${index}" descr="${escapeXml(caption)}"/>` +
+    '<wp:cNvGraphicFramePr><a:graphicFrameLocks noChangeAspect="1"/></wp:cNvGraphicFramePr>' +
+    `<a:graphic><a:graphicData uri="${NS.pic}"><pic:pic>` +
+    `<pic:nvPicPr><pic:cNvPr id="${index}" name="${name}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+    `<pic:blipFill><a:blip r:embed="${id}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+    `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${width}" cy="${height}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>` +
+    "</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>"
+  );
+}
+
+// Function to write a table; the first row is the header and repeats on each page
+function table(tableData: any): string {
+  const rows: any[][] = tableData?.rows || [];
+  if (rows.length === 0) return "";
+  const columns = Math.max(...rows.map((row) => row.length));
+  const width = Math.floor(9360 / columns);
+  return (
+    '<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="5000" w:type="pct"/></w:tblPr>' +
+    `<w:tblGrid>${`<w:gridCol w:w="${width}"/>`.repeat(columns)}</w:tblGrid>` +
+    rows
+      .map(
+        (row, index) =>
+          `<w:tr>${index === 0 ? "<w:trPr><w:tblHeader/></w:trPr>" : ""}` +
+          Array.from({ length: columns }, (_, column) => {
+            const text = String(row[column] ?? "");
+            const run = text ? `<w:r>${index === 0 ? "<w:rPr><w:b/></w:rPr>" : ""}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>` : "";
+            return `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/></w:tcPr><w:p>${run}</w:p></w:tc>`;
+          }).join("") +
+          "</w:tr>"
+      )
+      .join("") +
+    "</w:tbl>"
+  );
+}
+
+// Function to convert a block and its nested blocks to WordprocessingML
+function formatBlockToDocx(block: Block, children: string[], blockContext: BlockContext, context: DocxContext): string {
+  const content = getBlockContent(block);
+  const { depth } = blockContext;
+  const nested = children.join("");
+
+  switch (block.type) {
+    case "heading1":
+      return paragraph(formatRuns(content, context), { style: "Heading1" }) + nested;
+    case "heading2":
+      return paragraph(formatRuns(content, context), { style: "Heading2" }) + nested;
+    case "heading3":
+      return paragraph(formatRuns(content, context), { style: "Heading3" }) + nested;
+    case "bulleted-list":
+      return paragraph(formatRuns(content, context), { style: "ListParagraph", numbering: { id: 1, level: Math.min(depth, 8) } }) + nested;
+    case "numbered-list": {
+      // Each run of items gets its own numbering instance so it starts at 1
+      if (blockContext.listStart) context.numberedLists++;
+      const id = context.numberedLists + 1;
+      return paragraph(formatRuns(content, context), { style: "ListParagraph", numbering: { id, level: Math.min(depth, 8) } }) + nested;
+    }
+    case "checkbox":
+      return paragraph(checkbox(!!block.checked) + formatRuns(content, context), { depth }) + nested;
+    case "quote":
+      return paragraph(formatRuns(content, context), { style: "Quote", depth }) + nested;
+    case "callout":
+      return paragraph(formatRuns(content, context), { style: "Callout", depth }) + nested;
+    case "code":
+    case "code-enhanced":
+      // Code is written as stored, never as rich text
+      return paragraph(formatText(content, context), { style: "Code", depth }) + nested;
+    case "equation":
+      // The LaTeX source, in the math font
+      return (
+        paragraph(formatText(block.properties?.latex || content, context, '<w:rFonts w:ascii="Cambria Math" w:hAnsi="Cambria Math"/><w:i/>'), {
+          style: "Equation",
+          depth,
+        }) + nested
+      );
+    case "embed": {
+      const embed = getEmbedInfo(block);
+      if (!embed) return nested;
+      const link = `<w:hyperlink r:id="${addRelationship(context, "hyperlink", embed.url, true)}"><w:r><w:rPr><w:rStyle w:val="Hyperlink"/></w:rPr><w:t xml:space="preserve">${escapeXml(embed.title)}</w:t></w:r></w:hyperlink>`;
+      return paragraph(link, { depth }) + nested;
+    }
+    case "image": {
+      const url = block.properties?.url;
+      if (!url) return nested;
+      const caption = block.properties?.caption || "";
+      // Images that couldn't be downloaded are linked instead
+      const image =
+        picture(url, caption, context) ||
+        `<w:hyperlink r:id="${addRelationship(context, "hyperlink", url, true)}"><w:r><w:rPr><w:rStyle w:val="Hyperlink"/></w:rPr><w:t xml:space="preserve">${escapeXml(caption || url)}</w:t></w:r></w:hyperlink>`;
+      return paragraph(image, { depth }) + (caption ? paragraph(formatText(caption, context), { style: "Caption", depth }) : "") + nested;
+    }
+    case "divider":
+      return paragraph("", { style: "Divider", depth }) + nested;
+    case "table":
+      return table(block.properties?.tableData) + nested;
+    case "toggle":
+      // Word has no collapsible blocks; the summary is bold and the children follow, indented
+      return paragraph(formatRuns(content, context, "<w:b/>"), { depth }) + nested;
+    default:
+      return paragraph(formatRuns(content, context), { depth }) + nested;
+  }
+}
+
+// Paragraph styles the body refers to
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${NS.w}">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/><w:sz w:val="22"/><w:szCs w:val="22"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="240"/></w:pPr><w:rPr><w:b/><w:sz w:val="48"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="360" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="36"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="30"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading3"><w:name w:val="heading 3"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="2"/></w:pPr><w:rPr><w:b/><w:sz w:val="26"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="60"/><w:contextualSpacing/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="007BFF"/></w:pBdr><w:ind w:left="360"/></w:pPr><w:rPr><w:i/><w:color w:val="555555"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Callout"><w:name w:val="Callout"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:pBdr><w:left w:val="single" w:sz="24" w:space="8" w:color="007BFF"/></w:pBdr><w:shd w:val="clear" w:color="auto" w:fill="E6F0FF"/><w:ind w:left="240"/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F5F5F5"/><w:spacing w:after="120" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="20"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Equation"><w:name w:val="Equation"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:jc w:val="center"/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="Caption"><w:name w:val="caption"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:rPr><w:i/><w:color w:val="666666"/><w:sz w:val="18"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Divider"><w:name w:val="Divider"/><w:basedOn w:val="Normal"/><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="CCCCCC"/></w:pBdr></w:pPr></w:style>
+<w:style w:type="character" w:default="1" w:styleId="DefaultParagraphFont"><w:name w:val="Default Paragraph Font"/><w:uiPriority w:val="1"/><w:semiHidden/></w:style>
+<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:basedOn w:val="DefaultParagraphFont"/><w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr></w:style>
+<w:style w:type="character" w:styleId="CodeChar"><w:name w:val="Code Char"/><w:basedOn w:val="DefaultParagraphFont"/><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:shd w:val="clear" w:color="auto" w:fill="F0F0F0"/></w:rPr></w:style>
+<w:style w:type="table" w:default="1" w:styleId="TableNormal"><w:name w:val="Normal Table"/><w:semiHidden/><w:tblPr><w:tblInd w:w="0" w:type="dxa"/><w:tblCellMar><w:top w:w="0" w:type="dxa"/><w:left w:w="108" w:type="dxa"/><w:bottom w:w="0" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>
+<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:basedOn w:val="TableNormal"/><w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:tblPr><w:tblBorders><w:top w:val="single" w:sz="4" w:space="0" w:color="BFBFBF"/><w:left w:val="single" w:sz="4" w:space="0" w:color="BFBFBF"/><w:bottom w:val="single" w:sz="4" w:space="0" w:color="BFBFBF"/><w:right w:val="single" w:sz="4" w:space="0" w:color="BFBFBF"/><w:insideH w:val="single" w:sz="4" w:space="0" w:color="BFBFBF"/><w:insideV w:val="single" w:sz="4" w:space="0" w:color="BFBFBF"/></w:tblBorders></w:tblPr></w:style>
+</w:styles>`;
+
+// Function to write the list definitions: one bullet list shared by all bulleted
+// items, and a numbering instance per run of numbered items
+function formatNumbering(numberedLists: number): string {
+  const levels = (format: (level: number) => { numFmt: string; text: string }) =>
+    Array.from({ length: 9 }, (_, level) => {
+      const { numFmt, text } = format(level);
+      return (
+        `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="${numFmt}"/><w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/>` +
+        `<w:pPr><w:ind w:left="${720 * (level + 1)}" w:hanging="360"/></w:pPr></w:lvl>`
+      );
+    }).join("");
+  const bullets = ["•", "◦", "▪"];
+  const formats = ["decimal", "lowerLetter", "lowerRoman"];
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering xmlns:w="${NS.w}">
+<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${levels((level) => ({ numFmt: "bullet", text: bullets[level % 3] }))}</w:abstractNum>
+<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${levels((level) => ({ numFmt: formats[level % 3], text: `%${level + 1}.` }))}</w:abstractNum>
+<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>
+${Array.from(
+  { length: numberedLists },
+  (_, index) =>
+    `<w:num w:numId="${index + 2}"><w:abstractNumId w:val="1"/>${Array.from({ length: 9 }, (_, level) => `<w:lvlOverride w:ilvl="${level}"><w:startOverride w:val="1"/></w:lvlOverride>`).join("")}</w:num>`
+).join("\n")}
+</w:numbering>`;
+}
+
+// Function to format a date as W3CDTF for the document properties; unreadable dates become now
+const w3cDate = (date: Date | string) => {
+  const value = new Date(date);
+  return (isNaN(value.getTime()) ? new Date() : value).toISOString().replace(/\.\d{3}Z$/, "Z");
+};
+
+// Public function to build a .docx file for a page
+export async function buildDocx(page: Page, options: DocxExportOptions = {}): Promise<Uint8Array> {
+  const download = options.fetchImage || fetchMedia;
+  const context: DocxContext = { relationships: [], media: {}, images: new Map(), numberedLists: 0 };
+
+  // Pictures are downloaded before the body is written
+  for (const block of page.blocks) {
+    const url = block.type === "image" ? block.properties?.url : undefined;
+    if (url && !context.images.has(url)) context.images.set(url, await download(url));
+  }
+
+  const body =
+    paragraph(formatText(page.title || "Untitled", context), { style: "Title" }) +
+    walkBlockTree(page.blocks, (block, children: string[], blockContext) => formatBlockToDocx(block, children, blockContext, context)).join("");
+
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${NS.w}" xmlns:r="${NS.r}" xmlns:wp="${NS.wp}" xmlns:a="${NS.a}" xmlns:pic="${NS.pic}" xmlns:w14="${NS.w14}" xmlns:mc="${NS.mc}" mc:Ignorable="w14">
+<w:body>${body}<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr></w:body>
+</w:document>`;
+
+  const imageTypes = Object.entries(IMAGE_TYPES)
+    .map(([contentType, extension]) => `<Default Extension="${extension}" ContentType="${contentType}"/>`)
+    .join("");
+
+  return zipSync({
+    "[Content_Types].xml": strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>${imageTypes}
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`),
+    "_rels/.rels": strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="${NS.r}/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`),
+    "docProps/core.xml": strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+<dc:title>${escapeXml(page.title)}</dc:title>
+${page.createdBy ? `<dc:creator>${escapeXml(page.createdBy)}</dc:creator>` : ""}
+<dcterms:created xsi:type="dcterms:W3CDTF">${w3cDate(page.createdAt)}</dcterms:created>
+<dcterms:modified xsi:type="dcterms:W3CDTF">${w3cDate(page.updatedAt)}</dcterms:modified>
+</cp:coreProperties>`),
+    "word/document.xml": strToU8(document),
+    "word/styles.xml": strToU8(STYLES_XML),
+    "word/numbering.xml": strToU8(formatNumbering(context.numberedLists)),
+    "word/_rels/document.xml.rels": strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="${NS.r}/styles" Target="styles.xml"/>
+<Relationship Id="rId2" Type="${NS.r}/numbering" Target="numbering.xml"/>
+${context.relationships.join("\n")}
+</Relationships>`),
+    ...context.media,
+  });
+}
+
+// Public function to export a page as a Word document
+export async function exportDocx(page: Page, options: DocxExportOptions = {}): Promise<void> {
+  const data = await buildDocx(page, options);
+  downloadFile(
+    data as BlobPart,
+    `${page.title || "Untitled"}.docx`,
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+  );
+}
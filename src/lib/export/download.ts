@@ -0,0 +1,20 @@
+// How long an object URL is kept after its download starts; revoking it right
+// away can cancel the download in some browsers
+const REVOKE_DELAY_MS = 60 * 1000;
+
+// Public function to save a file through the browser's download
+// Links the data to a temporary anchor element and clicks it
+export function downloadFile(data: BlobPart, fileName: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+
+  const element = document.createElement("a");
+  element.setAttribute("href", url);
+  element.setAttribute("download", fileName);
+  element.style.display = "none";
+
+  // Add to DOM, trigger download, then remove
+  document.body.appendChild(element);
+  element.click();
+  document.body.removeChild(element);
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
@@ -1,52 +1,103 @@
 import { Page, Block } from "../../types/workspace";
+import {
+  BlockContext,
+  KATEX_STYLESHEET,
+  escapeHtml,
+  getBlockContent,
+  getEmbedInfo,
+  renderEquationHtml,
+  richTextToHtml,
+  walkBlockTree,
+} from "./blocks";
+import { downloadFile } from "./download";
 
 // Function to convert a block to HTML based on its type
 // Each block type gets rendered with appropriate HTML tags and styling classes
-function formatBlockToHtml(block: Block): string {
-  // Get the content from either content or text field
-  const content = block.content || block.text || "";
+// `children` is the HTML of its nested blocks (parentId)
+function formatBlockToHtml(block: Block, children: string[], context: BlockContext): string {
+  // Get the content from either content or text field, keeping TipTap formatting
+  const content = richTextToHtml(getBlockContent(block));
+  const nested = children.join("");
 
   switch (block.type) {
     case "heading1":
-      return `<h1 class="page-heading-1">${escapeHtml(content)}</h1>`;
+      return `<h1 class="page-heading-1">${content}</h1>` + formatChildren(nested);
     case "heading2":
-      return `<h2 class="page-heading-2">${escapeHtml(content)}</h2>`;
+      return `<h2 class="page-heading-2">${content}</h2>` + formatChildren(nested);
     case "heading3":
-      return `<h3 class="page-heading-3">${escapeHtml(content)}</h3>`;
+      return `<h3 class="page-heading-3">${content}</h3>` + formatChildren(nested);
     case "paragraph":
-      return `<p class="page-paragraph">${escapeHtml(content)}</p>`;
+      return `<p class="page-paragraph">${content}</p>` + formatChildren(nested);
+    case "ai":
+      // AI blocks hold generated text, one paragraph per line
+      return (
+        getBlockContent(block)
+          .split(/\n+/)
+          .filter((line) => line.trim())
+          .map((line) => `<p class="page-paragraph">${richTextToHtml(line)}</p>`)
+          .join("") + formatChildren(nested)
+      );
     case "bulleted-list":
-      return `<li class="page-list-item">${escapeHtml(content)}</li>`;
-    case "numbered-list":
-      return `<li class="page-list-item">${escapeHtml(content)}</li>`;
+    case "numbered-list": {
+      // Consecutive items share one list; nested blocks go inside the item
+      const tag = block.type === "numbered-list" ? "ol" : "ul";
+      return (
+        (context.listStart ? `<${tag} class="page-list">` : "") +
+        `<li class="page-list-item">${content}${nested}</li>` +
+        (context.listEnd ? `</${tag}>` : "")
+      );
+    }
     case "quote":
-      return `<blockquote class="page-quote">${escapeHtml(content)}</blockquote>`;
+      return `<blockquote class="page-quote">${content}</blockquote>` + formatChildren(nested);
     case "code":
-      return `<pre class="page-code"><code>${escapeHtml(content)}</code></pre>`;
+    case "code-enhanced": {
+      // The language is kept as a class, as syntax highlighters expect
+      const language = block.properties?.language;
+      return `<pre class="page-code"><code${language ? ` class="language-${escapeHtml(language)}"` : ""}>${escapeHtml(getBlockContent(block))}</code></pre>` + formatChildren(nested);
+    }
+    case "equation":
+      return `<div class="page-equation">${renderEquationHtml(block.properties?.latex || getBlockContent(block))}</div>` + formatChildren(nested);
+    case "embed": {
+      // Embeds can't run in an exported file, so they become a link card with the thumbnail
+      const embed = getEmbedInfo(block);
+      if (!embed) return formatChildren(nested);
+      return (
+        `<a class="page-embed" href="${escapeHtml(embed.url)}">` +
+        (embed.thumbnail ? `<img src="${escapeHtml(embed.thumbnail)}" alt="" />` : "") +
+        `<span class="page-embed-title">${escapeHtml(embed.title)}</span>` +
+        `<span class="page-embed-url">${escapeHtml(embed.url)}</span></a>` +
+        formatChildren(nested)
+      );
+    }
     case "checkbox":
       // Render checkbox with checked state
-      return `<div class="page-checkbox"><input type="checkbox" ${block.checked ? "checked" : ""} disabled /> <span>${escapeHtml(content)}</span></div>`;
+      return `<div class="page-checkbox"><input type="checkbox" ${block.checked ? "checked" : ""} disabled /> <span>${content}</span></div>` + formatChildren(nested);
     case "image":
       // Only render if URL exists, with optional caption
       return block.properties?.url
-        ? `<figure class="page-image"><img src="${block.properties.url}" alt="Image" />${block.properties.caption ? `<figcaption>${escapeHtml(block.properties.caption)}</figcaption>` : ""}</figure>`
-        : "";
+        ? `<figure class="page-image"><img src="${block.properties.url}" alt="Image" />${block.properties.caption ? `<figcaption>${escapeHtml(block.properties.caption)}</figcaption>` : ""}</figure>` + formatChildren(nested)
+        : formatChildren(nested);
     case "divider":
-      return '<hr class="page-divider" />';
+      return '<hr class="page-divider" />' + formatChildren(nested);
     case "callout":
-      return `<div class="page-callout"><p>${escapeHtml(content)}</p></div>`;
+      return `<div class="page-callout"><p>${content}</p>${nested}</div>`;
     case "table":
       // Tables need special formatting with rows and columns
-      return formatTableToHtml(block.properties?.tableData);
+      return formatTableToHtml(block.properties?.tableData) + formatChildren(nested);
     case "toggle":
-      // Use HTML details/summary for collapsible content
-      return `<details class="page-toggle"><summary>${escapeHtml(content)}</summary><div class="toggle-content"></div></details>`;
+      // Use HTML details/summary for collapsible content, with the children inside
+      return `<details class="page-toggle"><summary>${content}</summary><div class="toggle-content">${nested}</div></details>`;
     default:
       // Default to paragraph for unknown block types
-      return `<p class="page-paragraph">${escapeHtml(content)}</p>`;
+      return `<p class="page-paragraph">${content}</p>` + formatChildren(nested);
   }
 }
 
+// Nested blocks under anything but a list item or toggle are indented below it
+function formatChildren(nested: string): string {
+  return nested ? `<div class="page-children">${nested}</div>` : "";
+}
+
 // Function to convert table data structure to HTML table
 // Handles header row and body rows separately
 function formatTableToHtml(tableData: any): string {
@@ -80,24 +131,12 @@ function formatTableToHtml(tableData: any): string {
   return html;
 }
 
-// Function to escape special HTML characters to prevent XSS attacks
-// Converts characters like < > & " ' to their HTML entity equivalents
-function escapeHtml(text: string): string {
-  const map: Record<string, string> = {
-    "&": "&amp;",
-    "<": "&lt;",
-    ">": "&gt;",
-    '"': "&quot;",
-    "'": "&#039;",
-  };
-  return text.replace(/[&<>"']/g, (m) => map[m]);
-}
-
 // Main function to generate a complete standalone HTML document
 // Includes full HTML structure with head, styles, and body
 function generatePageHtml(page: Page): string {
-  // Convert all blocks to HTML
-  const contentHtml = page.blocks.map(formatBlockToHtml).join("");
+  // Convert all blocks to HTML, nested blocks inside their parent
+  const contentHtml = walkBlockTree(page.blocks, formatBlockToHtml).join("");
+  const hasEquations = page.blocks.some((block) => block.type === "equation");
 
   // Return complete HTML document with embedded CSS
   return `<!DOCTYPE html>
@@ -108,6 +147,7 @@ function generatePageHtml(page: Page): string {
     <meta name="description" content="Exported page from WorkLin">
     <meta name="author" content="${escapeHtml(page.createdBy || "WorkLin")}">
     <title>${escapeHtml(page.title)}</title>
+    ${hasEquations ? `<link rel="stylesheet" href="${KATEX_STYLESHEET}">` : ""}
     <style>
         /* Reset default styles */
         * {
@@ -186,10 +226,19 @@ function generatePageHtml(page: Page): string {
             font-size: 1rem;
         }
         
-        /* List items with indentation */
+        /* Lists with indentation; nested lists indent further */
+        .page-list {
+            margin: 0.5rem 0;
+            padding-left: 2rem;
+        }
+        
         .page-list-item {
-            margin-left: 2rem;
-            margin: 0.5rem 0 0.5rem 2rem;
+            margin: 0.25rem 0;
+        }
+        
+        /* Blocks nested under another block */
+        .page-children {
+            margin-left: 1.5rem;
         }
         
         /* Blockquote with left border and background */
@@ -331,6 +380,42 @@ function generatePageHtml(page: Page): string {
             border-top: 1px solid #e9ecef;
         }
         
+        /* Display equations rendered by KaTeX */
+        .page-equation {
+            margin: 1rem 0;
+            overflow-x: auto;
+        }
+        
+        /* Embeds as link cards */
+        .page-embed {
+            display: block;
+            margin: 1rem 0;
+            padding: 0.75rem;
+            border: 1px solid #e9ecef;
+            border-radius: 4px;
+            color: inherit;
+            text-decoration: none;
+        }
+        
+        .page-embed img {
+            display: block;
+            max-width: 100%;
+            margin-bottom: 0.5rem;
+            border-radius: 4px;
+        }
+        
+        .page-embed-title {
+            display: block;
+            font-weight: 600;
+        }
+        
+        .page-embed-url {
+            display: block;
+            color: #666;
+            font-size: 0.9rem;
+            word-break: break-all;
+        }
+        
         /* Print-specific styles to optimize for paper */
         @media print {
             body {
@@ -419,23 +504,8 @@ function generatePageHtml(page: Page): string {
 }
 
 // Public function to export a page as an HTML file
-// Creates a download link and triggers the browser's download
 export function exportHtml(page: Page): void {
-  const htmlContent = generatePageHtml(page);
-
-  // Create a temporary anchor element for downloading
-  const element = document.createElement("a");
-  element.setAttribute(
-    "href",
-    "data:text/html;charset=utf-8," + encodeURIComponent(htmlContent)
-  );
-  element.setAttribute("download", `${page.title}.html`);
-  element.style.display = "none";
-
-  // Add to DOM, click to download, then remove
-  document.body.appendChild(element);
-  element.click();
-  document.body.removeChild(element);
+  downloadFile(generatePageHtml(page), `${page.title}.html`, "text/html;charset=utf-8");
 }
 
 // Helper function to get HTML content as a string
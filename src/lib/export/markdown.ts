@@ -1,10 +1,33 @@
 import { Page, Block } from "../../types/workspace";
+import { BlockContext, getBlockContent, getEmbedInfo, isRichTextHtml, richTextToMarkdown, walkBlockTree } from "./blocks";
+import { downloadFile } from "./download";
+
+// Function to write block text as Markdown that reads back as the same text
+// TipTap formatting becomes Markdown inline syntax; Markdown characters in the
+// text itself are escaped, as is anything at the start of a line that would
+// begin another kind of block ("# ", "- ", "1. ", "> "...)
+// lib/import/markdown.ts turns formatted text back into TipTap HTML
+function formatInline(content: string): string {
+  const markdown = isRichTextHtml(content) ? richTextToMarkdown(content) : content.replace(/([*_`~[\]\\]|&(?=#))/g, "\\$1");
+  return markdown
+    .split("\n")
+    .map((line) =>
+      line
+        .replace(/^(\s*)(#|>|\+|-|\||<|\$\$|\d+(?=[.)]))/, (_, space: string, marker: string) =>
+          /^\d/.test(marker) ? `${space}${marker}\\` : `${space}\\${marker}`
+        )
+        // Spaces around a line are written as character references, as Markdown
+        // would read leading ones as nesting and drop trailing ones
+        .replace(/^[ \t]+|[ \t]+$/g, (space) => space.replace(/[ \t]/g, (char) => `&#${char.charCodeAt(0)};`))
+    )
+    .join("\n");
+}
 
 // Function to convert a block to Markdown syntax
 // Each block type gets converted to its Markdown equivalent
-function formatBlockToMarkdown(block: Block): string {
-  // Get content from either content or text field
-  const content = block.content || block.text || "";
+function formatBlockToMarkdown(block: Block, context: BlockContext): string {
+  // Get content from either content or text field, with TipTap formatting as Markdown
+  const content = formatInline(getBlockContent(block));
 
   switch (block.type) {
     case "heading1":
@@ -18,36 +41,53 @@ function formatBlockToMarkdown(block: Block): string {
       return `### ${content}`;
     case "paragraph":
       // Paragraphs are just plain text in Markdown
+      // Empty ones are kept as a line break, as a blank line would only separate blocks
+      return content || "<br>";
+    case "ai":
+      // AI blocks hold the generated text
       return content || "";
     case "bulleted-list":
       // Bullet lists use - or *
       return `- ${content}`;
     case "numbered-list":
-      // Numbered lists use 1. (Markdown auto-increments)
-      return `1. ${content}`;
+      // Numbered lists count up within each run of items
+      return `${context.listNumber}. ${content}`;
     case "quote":
-      // Blockquotes use > prefix
-      return `> ${content}`;
+      // Blockquotes use > prefix on every line
+      return content.split("\n").map((line) => `> ${line}`).join("\n");
     case "code":
-      // Code blocks use triple backticks
-      return `\`\`\`\n${content}\n\`\`\``;
+    case "code-enhanced":
+      // Code blocks use triple backticks, with the language on the opening fence
+      // Code is written as stored, never as rich text
+      return `${codeFence(getBlockContent(block))}${block.properties?.language || ""}\n${getBlockContent(block)}\n${codeFence(getBlockContent(block))}`;
+    case "equation":
+      // Display math between $$ lines, as understood by KaTeX/MathJax renderers
+      return `$$\n${block.properties?.latex || getBlockContent(block)}\n$$`;
+    case "embed": {
+      // Embeds become links, shown as their thumbnail when there is one
+      const embed = getEmbedInfo(block);
+      if (!embed) return "";
+      return embed.thumbnail ? `[![${embed.title}](${embed.thumbnail})](${embed.url})` : `[${embed.title}](${embed.url})`;
+    }
     case "checkbox":
       // Task lists use - [ ] for unchecked and - [x] for checked
       return `- [${block.checked ? "x" : " "}] ${content}`;
     case "image":
       // Images use ![alt](url) syntax
-      return block.properties?.url ? `![Image](${block.properties.url})` : "";
+      // The caption, if any, becomes the alt text
+      return block.properties?.url ? `![${block.properties.caption || "Image"}](${block.properties.url})` : "";
     case "divider":
       // Horizontal rules use --- or ***
       return "---";
     case "callout":
       // Callouts can be represented as blockquotes with bold note
-      return `> **Note:** ${content}`;
+      return `**Note:** ${content}`.split("\n").map((line) => `> ${line}`).join("\n");
     case "table":
       // Tables need special formatting with pipes and dashes
       return formatTableToMarkdown(block.properties?.tableData);
     case "toggle":
       // Toggles can use HTML details/summary tags (supported in some Markdown flavors)
+      // Their children are added between the tags by formatBlockTree
       return `<details>\n<summary>${content}</summary>\n\n</details>`;
     default:
       // Unknown types default to plain text
@@ -55,6 +95,34 @@ function formatBlockToMarkdown(block: Block): string {
   }
 }
 
+// A fence longer than any backtick run in the code, so the code can't close it
+function codeFence(code: string): string {
+  const longest = Math.max(0, ...(code.match(/`+/g) || []).map((run) => run.length));
+  return "`".repeat(Math.max(3, longest + 1));
+}
+
+// Function to write a block with its nested blocks (parentId) as Markdown
+// Toggle children go inside the <details> element; other children are indented
+// under their parent's text, which is how nested lists are written
+function formatBlockTree(block: Block, children: string[], context: BlockContext): string {
+  const markdown = formatBlockToMarkdown(block, context);
+  const nested = children.filter((child) => child.length > 0);
+  if (nested.length === 0) return markdown;
+
+  if (block.type === "toggle") {
+    return markdown.replace(/\n<\/details>$/, `\n${nested.join("\n\n")}\n</details>`);
+  }
+  // "1. " is three characters wide, "- " two
+  const indent = " ".repeat(block.type === "numbered-list" ? `${context.listNumber}. `.length : 2);
+  const indented = nested.map((child) =>
+    child
+      .split("\n")
+      .map((line) => (line ? indent + line : line))
+      .join("\n")
+  );
+  return [markdown, ...indented].join("\n\n");
+}
+
 // Function to convert table data to Markdown table format
 // Markdown tables use pipes | to separate columns and dashes for header separator
 function formatTableToMarkdown(tableData: any): string {
@@ -63,7 +131,10 @@ function formatTableToMarkdown(tableData: any): string {
     return "";
   }
 
-  const rows = tableData.rows;
+  // Pipes inside cells are escaped so they don't start a new column
+  const rows = tableData.rows.map((row: any[]) =>
+    row.map((cell) => String(cell ?? "").replace(/\|/g, "\\|").replace(/\n/g, " "))
+  );
   let markdown = "";
 
   // First row becomes the header
@@ -82,25 +153,54 @@ function formatTableToMarkdown(tableData: any): string {
   return markdown;
 }
 
+// Function to write a front matter value
+// Plain text is written as is; anything that would read back as another type
+// (numbers, dates, lists, text with quotes or a leading bracket) is written as JSON
+function formatFrontMatterValue(value: any): string {
+  if (typeof value === "string" && !/^\s|\s$|^[[{"'#]|^(true|false|null|~|-?\d+(\.\d+)?|\d{4}-\d{2}-\d{2}.*)$/.test(value) && !value.includes("\n")) {
+    return value;
+  }
+  return JSON.stringify(value);
+}
+
+// Function to write the page's tags, cover and property values into front matter
+// Property names are written as JSON when they contain a colon
+function formatPageFrontMatter(page: Page): string {
+  const lines: string[] = [];
+  if (page.cover) lines.push(`cover: ${page.cover}`);
+  if (page.tags && page.tags.length > 0) lines.push(`tags: ${JSON.stringify(page.tags)}`);
+
+  const values = Object.entries(page.propertyValues || {}).filter(([, value]) => value !== undefined);
+  if (values.length > 0) {
+    lines.push("properties:");
+    values.forEach(([key, value]) => {
+      lines.push(`  ${key.includes(":") ? JSON.stringify(key) : key}: ${formatFrontMatterValue(value)}`);
+    });
+  }
+  return lines.join("\n");
+}
+
 // Function to generate complete Markdown content with frontmatter
 // Frontmatter is YAML metadata at the top of the file between --- markers
+// lib/import/markdown.ts reads this format back into a page
 function generatePageMarkdown(page: Page): string {
   // Create YAML frontmatter with page metadata
   const metadata = `---
 title: ${page.title}
-icon: ${page.icon}
+${page.icon ? `icon: ${page.icon}` : ""}
 created: ${new Date(page.createdAt).toISOString()}
 updated: ${new Date(page.updatedAt).toISOString()}
 ${page.createdBy ? `createdBy: ${page.createdBy}` : ""}
 ${page.lastEditedBy ? `lastEditedBy: ${page.lastEditedBy}` : ""}
+${formatPageFrontMatter(page)}
 ---
 
 `;
 
   // Convert all blocks to Markdown and join with double newlines
+  // Nested blocks are written under their parent
   // Filter out empty lines to avoid excessive whitespace
-  const content = page.blocks
-    .map((block) => formatBlockToMarkdown(block))
+  const content = walkBlockTree(page.blocks, formatBlockTree)
     .filter((line) => line.length > 0)
     .join("\n\n");
 
@@ -109,23 +209,8 @@ ${page.lastEditedBy ? `lastEditedBy: ${page.lastEditedBy}` : ""}
 }
 
 // Public function to export page as Markdown file
-// Creates a download link and triggers browser download
 export function exportMarkdown(page: Page): void {
-  const markdownContent = generatePageMarkdown(page);
-
-  // Create temporary anchor element for download
-  const element = document.createElement("a");
-  element.setAttribute(
-    "href",
-    "data:text/markdown;charset=utf-8," + encodeURIComponent(markdownContent)
-  );
-  element.setAttribute("download", `${page.title}.md`);
-  element.style.display = "none";
-
-  // Add to DOM, trigger download, then remove
-  document.body.appendChild(element);
-  element.click();
-  document.body.removeChild(element);
+  downloadFile(generatePageMarkdown(page), `${page.title}.md`, "text/markdown;charset=utf-8");
 }
 
 // Helper function to get Markdown content as string
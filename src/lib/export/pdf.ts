@@ -1,56 +1,119 @@
 import { Page, Block } from "../../types/workspace";
-
-// Helper function to escape HTML special characters
-// Prevents XSS attacks and ensures proper rendering
-function escapeHtml(text: string): string {
-  const map: Record<string, string> = {
-    "&": "&amp;",
-    "<": "&lt;",
-    ">": "&gt;",
-    '"': "&quot;",
-    "'": "&#039;",
-  };
-  return text.replace(/[&<>"']/g, (m) => map[m]);
-}
+import {
+  BlockContext,
+  KATEX_STYLESHEET,
+  escapeHtml,
+  flattenBlockTree,
+  getBlockContent,
+  getEmbedInfo,
+  renderEquationHtml,
+  richTextToHtml,
+  richTextToPlainText,
+  walkBlockTree,
+} from "./blocks";
 
 // Function to convert blocks to HTML for the alternative PDF method
 // This is similar to the HTML export but simplified for PDF rendering
-function formatBlockToHtml(block: Block): string {
-  const content = block.content || block.text || "";
+// Toggles are printed open, with their children
+function formatBlockToHtml(block: Block, children: string[], context: BlockContext): string {
+  const content = richTextToHtml(getBlockContent(block));
+  const nested = children.join("");
+  const indented = nested ? `<div class="children">${nested}</div>` : "";
 
   switch (block.type) {
     case "heading1":
-      return `<h1>${escapeHtml(content)}</h1>`;
+      return `<h1>${content}</h1>${indented}`;
     case "heading2":
-      return `<h2>${escapeHtml(content)}</h2>`;
+      return `<h2>${content}</h2>${indented}`;
     case "heading3":
-      return `<h3>${escapeHtml(content)}</h3>`;
+      return `<h3>${content}</h3>${indented}`;
     case "paragraph":
-      return `<p>${escapeHtml(content)}</p>`;
+      return `<p>${content}</p>${indented}`;
+    case "ai":
+      return (
+        getBlockContent(block)
+          .split(/\n+/)
+          .filter((line) => line.trim())
+          .map((line) => `<p>${richTextToHtml(line)}</p>`)
+          .join("") + indented
+      );
     case "bulleted-list":
-      return `<ul><li>${escapeHtml(content)}</li></ul>`;
-    case "numbered-list":
-      return `<ol><li>${escapeHtml(content)}</li></ol>`;
+    case "numbered-list": {
+      const tag = block.type === "numbered-list" ? "ol" : "ul";
+      return `${context.listStart ? `<${tag}>` : ""}<li>${content}${nested}</li>${context.listEnd ? `</${tag}>` : ""}`;
+    }
     case "quote":
-      return `<blockquote>${escapeHtml(content)}</blockquote>`;
+      return `<blockquote>${content}</blockquote>${indented}`;
     case "code":
-      return `<pre><code>${escapeHtml(content)}</code></pre>`;
+    case "code-enhanced":
+      return `<pre><code>${escapeHtml(getBlockContent(block))}</code></pre>${indented}`;
+    case "equation":
+      return `<div class="equation">${renderEquationHtml(block.properties?.latex || getBlockContent(block))}</div>${indented}`;
+    case "embed": {
+      const embed = getEmbedInfo(block);
+      if (!embed) return indented;
+      return `<a class="embed" href="${escapeHtml(embed.url)}">${embed.thumbnail ? `<img src="${escapeHtml(embed.thumbnail)}" alt="" />` : ""}<strong>${escapeHtml(embed.title)}</strong><br />${escapeHtml(embed.url)}</a>${indented}`;
+    }
     case "checkbox":
-      return `<div class="checkbox-item"><input type="checkbox" ${block.checked ? "checked" : ""} disabled /> <span>${escapeHtml(content)}</span></div>`;
+      return `<div class="checkbox-item"><input type="checkbox" ${block.checked ? "checked" : ""} disabled /> <span>${content}</span></div>${indented}`;
     case "image":
       return block.properties?.url
-        ? `<img src="${block.properties.url}" alt="Image" />`
-        : "";
+        ? `<img src="${block.properties.url}" alt="Image" />${indented}`
+        : indented;
     case "divider":
-      return "<hr />";
+      return `<hr />${indented}`;
     case "callout":
-      return `<div class="callout">${escapeHtml(content)}</div>`;
+      return `<div class="callout">${content}${nested}</div>`;
     case "table":
-      return formatTableToHtml(block.properties?.tableData);
+      return formatTableToHtml(block.properties?.tableData) + indented;
     case "toggle":
-      return `<details><summary>${escapeHtml(content)}</summary></details>`;
+      return `<details open><summary>${content}</summary>${indented}</details>`;
     default:
-      return `<p>${escapeHtml(content)}</p>`;
+      return `<p>${content}</p>${indented}`;
+  }
+}
+
+// Make sure the page has KaTeX's stylesheet before equations are captured
+// Resolves once it has loaded, or after a short wait if it can't be fetched
+function loadKatexStylesheet(): Promise<void> {
+  if (document.querySelector('link[href*="katex"]')) return Promise.resolve();
+  return new Promise((resolve) => {
+    const link = document.createElement("link");
+    link.rel = "stylesheet";
+    link.href = KATEX_STYLESHEET;
+    link.onload = () => resolve();
+    link.onerror = () => resolve();
+    setTimeout(resolve, 3000);
+    document.head.appendChild(link);
+  });
+}
+
+// Render an equation with KaTeX and capture it as an image for the text-based PDF
+// Returns null if it can't be captured; the LaTeX source is printed instead
+async function renderEquationImage(latex: string): Promise<{ data: string; width: number; height: number } | null> {
+  try {
+    // @ts-ignore - Type definitions not complete
+    const html2canvas = (await import("html2canvas")).default;
+    await loadKatexStylesheet();
+
+    const element = document.createElement("div");
+    element.innerHTML = renderEquationHtml(latex);
+    element.style.position = "fixed";
+    element.style.left = "-9999px";
+    element.style.display = "inline-block";
+    element.style.padding = "4px";
+    element.style.fontSize = "16px";
+    element.style.backgroundColor = "white";
+    document.body.appendChild(element);
+    try {
+      const canvas = await html2canvas(element, { scale: 2, backgroundColor: "#ffffff", logging: false });
+      return { data: canvas.toDataURL("image/png"), width: canvas.width, height: canvas.height };
+    } finally {
+      document.body.removeChild(element);
+    }
+  } catch (error) {
+    console.warn("Could not render equation", error);
+    return null;
   }
 }
 
@@ -137,14 +200,20 @@ export async function exportPdf(page: Page): Promise<void> {
     pdf.setFontSize(11);
 
     // Process each block and add to PDF
-    for (const block of page.blocks) {
+    // Nested blocks (list children, toggle contents) are indented under their parent
+    for (const { block, context } of flattenBlockTree(page.blocks)) {
+      const indent = Math.min(context.depth, 6) * 6;
+      const left = pageMargin + indent;
+      const width = maxWidth - indent;
+
       // Check if we need a new page (approaching bottom margin)
       if (yPosition > pageHeight - 20) {
         pdf.addPage();
         yPosition = pageMargin;
       }
 
-      const content = block.content || block.text || "";
+      // Rich text is printed as plain text; code keeps its exact text
+      const content = richTextToPlainText(getBlockContent(block));
 
       switch (block.type) {
         case "heading1":
@@ -152,9 +221,9 @@ export async function exportPdf(page: Page): Promise<void> {
           pdf.setFontSize(16);
           pdf.setFont("helvetica", "bold");
           yPosition += 4;
-          const h1Lines = pdf.splitTextToSize(content, maxWidth);
+          const h1Lines = pdf.splitTextToSize(content, width);
           for (const line of h1Lines) {
-            pdf.text(line, pageMargin, yPosition);
+            pdf.text(line, left, yPosition);
             yPosition += 5;
           }
           yPosition += 3;
@@ -167,9 +236,9 @@ export async function exportPdf(page: Page): Promise<void> {
           pdf.setFontSize(13);
           pdf.setFont("helvetica", "bold");
           yPosition += 3;
-          const h2Lines = pdf.splitTextToSize(content, maxWidth);
+          const h2Lines = pdf.splitTextToSize(content, width);
           for (const line of h2Lines) {
-            pdf.text(line, pageMargin, yPosition);
+            pdf.text(line, left, yPosition);
             yPosition += 5;
           }
           yPosition += 2;
@@ -182,9 +251,9 @@ export async function exportPdf(page: Page): Promise<void> {
           pdf.setFontSize(12);
           pdf.setFont("helvetica", "bold");
           yPosition += 3;
-          const h3Lines = pdf.splitTextToSize(content, maxWidth);
+          const h3Lines = pdf.splitTextToSize(content, width);
           for (const line of h3Lines) {
-            pdf.text(line, pageMargin, yPosition);
+            pdf.text(line, left, yPosition);
             yPosition += 5;
           }
           yPosition += 2;
@@ -193,14 +262,15 @@ export async function exportPdf(page: Page): Promise<void> {
           break;
 
         case "paragraph":
-          // Regular paragraph text with line wrapping
-          const pLines = pdf.splitTextToSize(content, maxWidth);
+        case "ai":
+          // Regular paragraph text with line wrapping; AI blocks hold generated text
+          const pLines = pdf.splitTextToSize(content, width);
           for (const line of pLines) {
             if (yPosition > pageHeight - 20) {
               pdf.addPage();
               yPosition = pageMargin;
             }
-            pdf.text(line, pageMargin, yPosition);
+            pdf.text(line, left, yPosition);
             yPosition += 4;
           }
           yPosition += 3;
@@ -208,36 +278,38 @@ export async function exportPdf(page: Page): Promise<void> {
 
         case "bulleted-list":
           // Bullet point with indentation
-          const ulLines = pdf.splitTextToSize(content, maxWidth - 5);
+          const ulLines = pdf.splitTextToSize(content, width - 5);
           for (const line of ulLines) {
             if (yPosition > pageHeight - 20) {
               pdf.addPage();
               yPosition = pageMargin;
             }
-            pdf.text("• " + line, pageMargin + 3, yPosition);
+            pdf.text("• " + line, left + 3, yPosition);
             yPosition += 4;
           }
           yPosition += 2;
           break;
 
         case "numbered-list":
-          // Numbered list (using bullets for simplicity)
-          const olLines = pdf.splitTextToSize(content, maxWidth - 5);
-          for (const line of olLines) {
+          // Numbered list, counting up within each run of items
+          const number = `${context.listNumber}. `;
+          const olLines = pdf.splitTextToSize(content, width - 5);
+          olLines.forEach((line: string, index: number) => {
             if (yPosition > pageHeight - 20) {
               pdf.addPage();
               yPosition = pageMargin;
             }
-            pdf.text("• " + line, pageMargin + 3, yPosition);
+            // Wrapped lines line up with the text, not the number
+            pdf.text(index === 0 ? number + line : line, left + 3 + (index === 0 ? 0 : pdf.getTextWidth(number)), yPosition);
             yPosition += 4;
-          }
+          });
           yPosition += 2;
           break;
 
         case "quote":
           // Quote with gray background and left border
           pdf.setFillColor(240, 240, 240);
-          const qLines = pdf.splitTextToSize(content, maxWidth - 8);
+          const qLines = pdf.splitTextToSize(content, width - 8);
           const qHeight = qLines.length * 4 + 4;
 
           if (yPosition + qHeight > pageHeight - 20) {
@@ -246,31 +318,32 @@ export async function exportPdf(page: Page): Promise<void> {
           }
 
           // Draw background rectangle
-          pdf.rect(pageMargin, yPosition - 2, maxWidth, qHeight, "F");
+          pdf.rect(left, yPosition - 2, width, qHeight, "F");
           // Draw left border line
           pdf.setDrawColor(150, 150, 150);
           pdf.setLineWidth(0.5);
           pdf.line(
-            pageMargin + 2,
+            left + 2,
             yPosition - 2,
-            pageMargin + 2,
+            left + 2,
             yPosition + qHeight - 2
           );
           pdf.setDrawColor(0, 0, 0);
 
           let qY = yPosition + 1;
           for (const line of qLines) {
-            pdf.text(line, pageMargin + 5, qY);
+            pdf.text(line, left + 5, qY);
             qY += 4;
           }
           yPosition += qHeight + 3;
           break;
 
         case "code":
+        case "code-enhanced":
           // Code block with monospace font and gray background
           pdf.setFillColor(245, 245, 245);
           pdf.setFont("courier", "normal");
-          const cLines = pdf.splitTextToSize(content, maxWidth - 8);
+          const cLines = pdf.splitTextToSize(getBlockContent(block), width - 8);
           const cHeight = cLines.length * 4 + 4;
 
           if (yPosition + cHeight > pageHeight - 20) {
@@ -278,10 +351,10 @@ export async function exportPdf(page: Page): Promise<void> {
             yPosition = pageMargin;
           }
 
-          pdf.rect(pageMargin, yPosition - 2, maxWidth, cHeight, "F");
+          pdf.rect(left, yPosition - 2, width, cHeight, "F");
           let cY = yPosition + 1;
           for (const line of cLines) {
-            pdf.text(line, pageMargin + 3, cY);
+            pdf.text(line, left + 3, cY);
             cY += 4;
           }
           yPosition += cHeight + 3;
@@ -290,14 +363,14 @@ export async function exportPdf(page: Page): Promise<void> {
 
         case "checkbox":
           // Checkbox with [x] or [ ] notation
-          const cbLines = pdf.splitTextToSize(content, maxWidth - 5);
+          const cbLines = pdf.splitTextToSize(content, width - 5);
           for (const line of cbLines) {
             if (yPosition > pageHeight - 20) {
               pdf.addPage();
               yPosition = pageMargin;
             }
             const checkBox = block.checked ? "[x]" : "[ ]";
-            pdf.text(checkBox + " " + line, pageMargin + 3, yPosition);
+            pdf.text(checkBox + " " + line, left + 3, yPosition);
             yPosition += 4;
           }
           yPosition += 2;
@@ -306,14 +379,14 @@ export async function exportPdf(page: Page): Promise<void> {
         case "divider":
           // Horizontal line separator
           pdf.setDrawColor(200, 200, 200);
-          pdf.line(pageMargin, yPosition, pageWidth - pageMargin, yPosition);
+          pdf.line(left, yPosition, pageWidth - pageMargin, yPosition);
           yPosition += 6;
           break;
 
         case "callout":
           // Callout box with blue background and border
           pdf.setFillColor(230, 240, 255);
-          const callLines = pdf.splitTextToSize(content, maxWidth - 8);
+          const callLines = pdf.splitTextToSize(content, width - 8);
           const callHeight = callLines.length * 4 + 4;
 
           if (yPosition + callHeight > pageHeight - 20) {
@@ -321,20 +394,20 @@ export async function exportPdf(page: Page): Promise<void> {
             yPosition = pageMargin;
           }
 
-          pdf.rect(pageMargin, yPosition - 2, maxWidth, callHeight, "F");
+          pdf.rect(left, yPosition - 2, width, callHeight, "F");
           pdf.setDrawColor(0, 123, 255);
           pdf.setLineWidth(0.5);
           pdf.line(
-            pageMargin,
+            left,
             yPosition - 2,
-            pageMargin,
+            left,
             yPosition + callHeight - 2
           );
           pdf.setDrawColor(0, 0, 0);
 
           let callY = yPosition + 1;
           for (const line of callLines) {
-            pdf.text(line, pageMargin + 5, callY);
+            pdf.text(line, left + 5, callY);
             callY += 4;
           }
           yPosition += callHeight + 3;
@@ -347,17 +420,82 @@ export async function exportPdf(page: Page): Promise<void> {
             yPosition = pageMargin;
           }
           const imgText = `[Image]`;
-          pdf.text(imgText, pageMargin, yPosition);
+          pdf.text(imgText, left, yPosition);
           yPosition += 5;
           break;
 
+        case "toggle":
+          // Toggle summary; its children follow, indented
+          pdf.setFont("helvetica", "bold");
+          const tLines = pdf.splitTextToSize(content, width - 5);
+          tLines.forEach((line: string, index: number) => {
+            if (yPosition > pageHeight - 20) {
+              pdf.addPage();
+              yPosition = pageMargin;
+            }
+            pdf.text(index === 0 ? "> " + line : line, left + (index === 0 ? 0 : 3), yPosition);
+            yPosition += 4;
+          });
+          pdf.setFont("helvetica", "normal");
+          yPosition += 2;
+          break;
+
+        case "equation": {
+          // Rendered with KaTeX and placed as an image, scaled to fit
+          const latex = block.properties?.latex || getBlockContent(block);
+          const image = latex ? await renderEquationImage(latex) : null;
+          if (image) {
+            // Canvas pixels at scale 2 to millimetres
+            const imageWidth = Math.min((image.width / 2) * 0.2646, width);
+            const imageHeight = (image.height / image.width) * imageWidth;
+            if (yPosition + imageHeight > pageHeight - 20) {
+              pdf.addPage();
+              yPosition = pageMargin;
+            }
+            pdf.addImage(image.data, "PNG", left + (width - imageWidth) / 2, yPosition - 3, imageWidth, imageHeight);
+            yPosition += imageHeight + 3;
+          } else if (latex) {
+            pdf.setFont("courier", "normal");
+            for (const line of pdf.splitTextToSize(latex, width)) {
+              pdf.text(line, left, yPosition);
+              yPosition += 4;
+            }
+            pdf.setFont("helvetica", "normal");
+            yPosition += 3;
+          }
+          break;
+        }
+
+        case "embed": {
+          // Embeds become a clickable title with the URL below it
+          const embed = getEmbedInfo(block);
+          if (!embed) break;
+          if (yPosition + 8 > pageHeight - 20) {
+            pdf.addPage();
+            yPosition = pageMargin;
+          }
+          pdf.setTextColor(0, 102, 204);
+          pdf.textWithLink(pdf.splitTextToSize(embed.title, width)[0], left, yPosition, { url: embed.url });
+          yPosition += 4;
+          if (embed.title !== embed.url) {
+            pdf.setFontSize(9);
+            pdf.setTextColor(120, 120, 120);
+            pdf.text(pdf.splitTextToSize(embed.url, width)[0], left, yPosition);
+            yPosition += 4;
+            pdf.setFontSize(11);
+          }
+          pdf.setTextColor(0, 0, 0);
+          yPosition += 3;
+          break;
+        }
+
         case "table":
           // Simple table rendering with borders
           try {
             const tableData = block.properties?.tableData;
             if (tableData && tableData.rows && tableData.rows.length > 0) {
               const colCount = tableData.rows[0].length;
-              const colWidth = (maxWidth - 4) / colCount;
+              const colWidth = (width - 4) / colCount;
 
               for (let i = 0; i < tableData.rows.length; i++) {
                 if (yPosition + 8 > pageHeight - 20) {
@@ -372,7 +510,7 @@ export async function exportPdf(page: Page): Promise<void> {
                   pdf.setFillColor(240, 240, 240);
                 }
 
-                let xPos = pageMargin + 2;
+                let xPos = left + 2;
                 for (const cell of row) {
                   // Draw cell border and fill
                   pdf.rect(
@@ -486,6 +624,18 @@ export async function exportPdfAlternative(page: Page): Promise<void> {
             margin: 12px 0;
             border-radius: 4px;
         }
+        .children { margin-left: 24px; }
+        .equation { margin: 12px 0; }
+        .embed {
+            display: block;
+            border: 1px solid #ddd;
+            border-radius: 4px;
+            padding: 10px;
+            margin: 12px 0;
+            color: #333;
+            text-decoration: none;
+            word-break: break-all;
+        }
         .checkbox-item {
             display: flex;
             align-items: center;
@@ -506,7 +656,7 @@ export async function exportPdfAlternative(page: Page): Promise<void> {
         Last updated: ${new Date(page.updatedAt).toLocaleDateString()}
     </p>
     <hr />
-    ${page.blocks.map(formatBlockToHtml).join("")}
+    ${walkBlockTree(page.blocks, formatBlockToHtml).join("")}
 </body>
 </html>`;
 
@@ -520,7 +670,8 @@ export async function exportPdfAlternative(page: Page): Promise<void> {
     element.style.position = "fixed";
     element.style.left = "-9999px"; // Hide off-screen
 
-    // Add to DOM and wait for rendering
+    // Add to DOM and wait for rendering (and for KaTeX's styles, if there are equations)
+    if (page.blocks.some((block) => block.type === "equation")) await loadKatexStylesheet();
     document.body.appendChild(element);
     await new Promise((resolve) => setTimeout(resolve, 100));
 
@@ -0,0 +1,187 @@
+import { strToU8, zipSync } from "fflate";
+import { Page, Workspace } from "../../types/workspace";
+import { downloadFile } from "./download";
+import { getHtmlContent } from "./html";
+import { getMarkdownContent } from "./markdown";
+
+// Whole-workspace export
+// A zip with every page as Markdown and HTML in folders that follow parentId
+// ("Parent.md" next to a "Parent/" folder holding its children), the media the
+// pages use under media/, and manifest.json with the full workspace data that
+// lib/import/workspace.ts restores.
+
+export const WORKSPACE_ARCHIVE_FORMAT = "worklin-workspace";
+export const WORKSPACE_ARCHIVE_VERSION = 1;
+export const MANIFEST_PATH = "manifest.json";
+
+export interface ArchivedComment {
+  id: string;
+  blockId: string;
+  pageId: string;
+  userId: string;
+  userName: string;
+  userPhotoURL?: string;
+  content: string;
+  createdAt: string; // ISO timestamps
+  updatedAt: string;
+  resolved: boolean;
+}
+
+export interface ArchivedMedia {
+  url: string; // Where the pages point to
+  path: string; // The downloaded copy in the archive
+  contentType: string;
+}
+
+export interface ArchivedPage extends Page {
+  path: string; // Archive path of the page's files, without extension
+}
+
+export interface WorkspaceArchiveManifest {
+  format: typeof WORKSPACE_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  workspace: Omit<Workspace, "pages">;
+  pages: ArchivedPage[]; // Every page, database rows included, with blocks, properties and views
+  comments: ArchivedComment[];
+  media: ArchivedMedia[]; // Media that couldn't be downloaded is left out and stays remote
+}
+
+export interface WorkspaceExportOptions {
+  comments?: ArchivedComment[];
+  fetchMedia?: (url: string) => Promise<{ data: Uint8Array; contentType: string } | null>;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/svg+xml": "svg",
+};
+
+// Function to turn a title into a file name that works on every OS
+function safeFileName(title: string): string {
+  const name = title
+    .replace(/[\\/:*?"<>|\u0000-\u001f]/g, "-")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/\.+$/, "")
+    .slice(0, 80);
+  return name || "Untitled";
+}
+
+// Function to pick a name not yet used in a folder (" (2)", " (3)"...)
+function uniqueName(name: string, taken: Set<string>): string {
+  let candidate = name;
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) candidate = `${name} (${n})`;
+  taken.add(candidate.toLowerCase());
+  return candidate;
+}
+
+// Function to list the remote media a page uses: its cover and image blocks
+function getMediaUrls(page: Page): string[] {
+  const urls = [page.cover, ...page.blocks.map((block) => (block.type === "image" ? block.properties?.url : undefined))];
+  return urls.filter((url): url is string => typeof url === "string" && /^https?:\/\//.test(url));
+}
+
+// Public function to download media with fetch; returns null when it can't be fetched
+export async function fetchMedia(url: string): Promise<{ data: Uint8Array; contentType: string } | null> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    return {
+      data: new Uint8Array(await response.arrayBuffer()),
+      contentType: response.headers.get("content-type")?.split(";")[0] || "application/octet-stream",
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Function to point a page's files at the downloaded media, relative to the page's folder
+function replaceMediaUrls(content: string, pagePath: string, media: ArchivedMedia[], escape?: (text: string) => string): string {
+  const up = "../".repeat(pagePath.split("/").length - 1);
+  return media.reduce((text, item) => {
+    const relative = up + item.path;
+    const replaced = text.split(item.url).join(relative);
+    return escape ? replaced.split(escape(item.url)).join(relative) : replaced;
+  }, content);
+}
+
+// Public function to build the archive
+// `workspace.pages` should hold every page, database rows included
+export async function buildWorkspaceArchive(
+  workspace: Workspace,
+  options: WorkspaceExportOptions = {}
+): Promise<{ data: Uint8Array; warnings: string[] }> {
+  const download = options.fetchMedia || fetchMedia;
+  const warnings: string[] = [];
+  const files: Record<string, Uint8Array> = {};
+
+  // Folders follow parentId; pages whose parent isn't exported go at the top
+  const pageIds = new Set(workspace.pages.map((page) => page.id));
+  const children = new Map<string | undefined, Page[]>();
+  workspace.pages.forEach((page) => {
+    const parentId = page.parentId && pageIds.has(page.parentId) ? page.parentId : undefined;
+    children.set(parentId, [...(children.get(parentId) || []), page]);
+  });
+
+  const paths = new Map<string, string>();
+  const assignPaths = (parentId: string | undefined, folder: string) => {
+    const taken = new Set<string>();
+    (children.get(parentId) || []).forEach((page) => {
+      const path = `${folder}/${uniqueName(safeFileName(page.title), taken)}`;
+      paths.set(page.id, path);
+      assignPaths(page.id, path);
+    });
+  };
+  assignPaths(undefined, "pages");
+
+  // Each URL is downloaded once, however many pages use it
+  const media: ArchivedMedia[] = [];
+  const seen = new Set<string>();
+  for (const url of workspace.pages.flatMap(getMediaUrls)) {
+    if (seen.has(url)) continue;
+    seen.add(url);
+    const result = await download(url);
+    if (!result) {
+      warnings.push(`Couldn't download ${url}`);
+      continue;
+    }
+    const urlName = decodeURIComponent(new URL(url).pathname.split("/").pop() || "");
+    const base = safeFileName(urlName.replace(/\.[^.]*$/, "") || "file");
+    const extension = urlName.match(/\.([a-z0-9]+)$/i)?.[1] || EXTENSIONS[result.contentType] || "bin";
+    const path = `media/${media.length + 1}-${base}.${extension}`;
+    media.push({ url, path, contentType: result.contentType });
+    files[path] = result.data;
+  }
+
+  const escapeHtml = (text: string) => text.replace(/&/g, "&amp;");
+  workspace.pages.forEach((page) => {
+    const path = paths.get(page.id)!;
+    files[`${path}.md`] = strToU8(replaceMediaUrls(getMarkdownContent(page), path, media));
+    files[`${path}.html`] = strToU8(replaceMediaUrls(getHtmlContent(page), path, media, escapeHtml));
+  });
+
+  const { pages, ...workspaceData } = workspace;
+  const manifest: WorkspaceArchiveManifest = {
+    format: WORKSPACE_ARCHIVE_FORMAT,
+    version: WORKSPACE_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    workspace: workspaceData,
+    pages: pages.map((page) => ({ ...page, path: paths.get(page.id)! })),
+    comments: options.comments || [],
+    media,
+  };
+  files[MANIFEST_PATH] = strToU8(JSON.stringify(manifest, null, 2));
+
+  return { data: zipSync(files), warnings };
+}
+
+// Public function to export a workspace as a zip file
+export async function exportWorkspace(workspace: Workspace, options: WorkspaceExportOptions = {}): Promise<string[]> {
+  const { data, warnings } = await buildWorkspaceArchive(workspace, options);
+  downloadFile(data as BlobPart, `${safeFileName(workspace.name || "Workspace")}.zip`, "application/zip");
+  return warnings;
+}
@@ -0,0 +1,20 @@
+import { writeBatch, WriteBatch } from 'firebase/firestore';
+import { db } from './config';
+
+// One write (set, update or delete) to add to a batch
+export type BatchWrite = (batch: WriteBatch) => void;
+
+// Firestore caps a batch at 500 writes; stay below it
+const MAX_BATCH_WRITES = 450;
+
+/**
+ * Commits writes in as many batches as they need, in order.
+ * Each batch is atomic, but a failure can leave earlier batches committed.
+ */
+export const commitWrites = async (writes: BatchWrite[]) => {
+  for (let i = 0; i < writes.length; i += MAX_BATCH_WRITES) {
+    const batch = writeBatch(db);
+    writes.slice(i, i + MAX_BATCH_WRITES).forEach((write) => write(batch));
+    await batch.commit();
+  }
+};
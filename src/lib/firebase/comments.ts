@@ -13,6 +13,8 @@ import {
   getDocs
 } from 'firebase/firestore';
 import { db } from './config';
+import { commitWrites } from './batch';
+import { cacheComments, getCachedComments, replicate } from '../offline/replica';
 
 // Comments are stored as a top-level collection keyed by `blockId`.
 // This keeps reads simple (subscribe to one block) and avoids deeply nested paths.
@@ -88,6 +90,7 @@ export const deleteComment = async (commentId: string) => {
 // Real-time listener for comments on a specific block.
 //
 // Ordering is oldest -> newest so the UI can render naturally as a thread.
+// Threads are kept in the offline replica, and shown from it while offline.
 export const subscribeToComments = (blockId: string, callback: (comments: Comment[]) => void) => {
   const q = query(
     collection(db, COMMENTS_COLLECTION),
@@ -95,11 +98,21 @@ export const subscribeToComments = (blockId: string, callback: (comments: Commen
     orderBy('createdAt', 'asc')
   );
 
+  let hasSnapshot = false;
+  if (!navigator.onLine) {
+    getCachedComments(blockId)
+      .then((comments) => !hasSnapshot && callback(comments as Comment[]))
+      .catch(() => undefined);
+  }
+
   return onSnapshot(q, (snapshot) => {
+    if (snapshot.metadata.fromCache && snapshot.empty && !navigator.onLine) return;
+    hasSnapshot = true;
     const comments = snapshot.docs.map((doc) => ({
       id: doc.id,
       ...doc.data(),
     })) as Comment[];
+    if (!snapshot.metadata.fromCache) replicate(cacheComments(blockId, comments));
     callback(comments);
   });
 };
@@ -119,4 +132,44 @@ export const getCommentCount = async (blockId: string) => {
   } catch (error) {
     return 0;
   }
-};
\ No newline at end of file
+};
+
+// Fetch every comment on a set of blocks (used by the workspace export).
+// Firestore caps `in` filters at 30 values, so the ids are queried in chunks.
+export const getCommentsByBlocks = async (blockIds: string[]) => {
+  try {
+    const comments: Comment[] = [];
+    for (let i = 0; i < blockIds.length; i += 30) {
+      const q = query(
+        collection(db, COMMENTS_COLLECTION),
+        where('blockId', 'in', blockIds.slice(i, i + 30))
+      );
+      const snapshot = await getDocs(q);
+      snapshot.docs.forEach((doc) => comments.push({ id: doc.id, ...doc.data() } as Comment));
+    }
+    return { comments, error: null };
+  } catch (error: any) {
+    console.error("Error fetching comments:", error);
+    return { comments: [], error: error.message };
+  }
+};
+
+// Write restored comments, keeping their authors and timestamps (used by the workspace import)
+export const createCommentsBatch = async (comments: Array<Omit<Comment, 'id' | 'createdAt' | 'updatedAt'> & { createdAt: Date; updatedAt: Date }>) => {
+  try {
+    await commitWrites(
+      comments.map(({ createdAt, updatedAt, ...comment }) => (batch) =>
+        batch.set(doc(collection(db, COMMENTS_COLLECTION)), {
+          ...comment,
+          userPhotoURL: comment.userPhotoURL || null,
+          createdAt: Timestamp.fromDate(createdAt),
+          updatedAt: Timestamp.fromDate(updatedAt),
+        })
+      )
+    );
+    return { error: null };
+  } catch (error: any) {
+    console.error("Error restoring comments:", error);
+    return { error: error.message };
+  }
+};
@@ -3,6 +3,7 @@ import {
   collection,
   doc,
   getDoc,
+  getDocFromCache,
   getDocs,
   setDoc,
   updateDoc,
@@ -14,10 +15,31 @@ import {
   Timestamp,
   serverTimestamp,
   writeBatch,
+  deleteField,
 } from 'firebase/firestore';
 import { db } from './config';
+import { BatchWrite, commitWrites } from './batch';
 import { Page, Block, Workspace } from '../../types/workspace';
+import { BlockOperation } from '../../types/history';
 import { addToQueue } from '../offline/queue';
+import { createBase } from '../offline/conflicts';
+import { getRestoredIds } from '../trash';
+import {
+  cacheBlocks,
+  cachePages,
+  getCachedBlocks,
+  getCachedPage,
+  getCachedPages,
+  pinPage,
+  replicate,
+  touchPage,
+  unpinPage,
+} from '../offline/replica';
+import {
+  describeValidationErrors,
+  resolvePropertySchema,
+  validatePropertyValues,
+} from '../database/properties';
 
 /**
  * Firestore Database Access Layer (DAL)
@@ -27,6 +49,8 @@ import { addToQueue } from '../offline/queue';
  * 2. Real-time Subscriptions: onSnapshot wrappers for live UI updates.
  * 3. Offline Support: Intercepts block operations when offline and sends them 
  * to the IndexedDB queue (via `addToQueue`) for later synchronization.
+ * Page and block reads are written through to the offline replica, and served
+ * from it (flagged `offline: true`) when Firestore can't be reached.
  * * Collections Structure:
  * - workspaces/
  * - pages/ (contains metadata, parent references)
@@ -100,6 +124,23 @@ export const updateWorkspace = async (workspaceId: string, updates: Partial<Work
   }
 };
 
+/**
+ * Changes some of the workspace's settings (history retention, trash retention...),
+ * leaving the others alone.
+ */
+export const updateWorkspaceSettings = async (workspaceId: string, settings: NonNullable<Workspace['settings']>) => {
+  try {
+    const workspaceRef = doc(db, WORKSPACES_COLLECTION, workspaceId);
+    await updateDoc(workspaceRef, {
+      ...Object.fromEntries(Object.entries(settings).map(([key, value]) => [`settings.${key}`, value])),
+      updatedAt: serverTimestamp(),
+    });
+    return { error: null };
+  } catch (error: any) {
+    return { error: error.message };
+  }
+};
+
 /**
  * Subscribes to real-time updates for a specific workspace.
  * Used to update the UI immediately when workspace settings change.
@@ -116,13 +157,41 @@ export const subscribeToWorkspace = (
   });
 };
 
+/**
+ * What an edit queued offline is made against, so conflicts can be found when it
+ * replays (see offline/conflicts.ts): the document as the caller last saw it, or
+ * else as Firestore's cache has it. Undefined when neither is known.
+ */
+export const getEditBase = async (ref: ReturnType<typeof doc>, fields: string[], known?: Record<string, any>) => {
+  if (known) return createBase(known, fields);
+  try {
+    const snapshot = await getDocFromCache(ref);
+    return createBase(snapshot.exists() ? snapshot.data() : null, fields);
+  } catch {
+    return undefined;
+  }
+};
+
 // ==========================================
 // PAGE OPERATIONS
 // ==========================================
 
+/**
+ * Creates a page, with the ID in `pageData` if it has one.
+ * * OFFLINE HANDLING:
+ * Firestore IDs are generated on the client, so a page created offline gets its
+ * real ID straight away. The creation is queued with that ID, and blocks, subpages
+ * and edits queued after it refer to the page by it.
+ */
 export const createPage = async (workspaceId: string, pageData: Partial<Page>) => {
+  const pageRef = pageData.id ? doc(db, PAGES_COLLECTION, pageData.id) : doc(collection(db, PAGES_COLLECTION));
+  if (!navigator.onLine) {
+    const queued = { ...pageData, id: pageRef.id };
+    await addToQueue({ type: 'createPage', payload: { pageId: pageRef.id, workspaceId, pageData: queued } });
+    const now = new Date();
+    return { page: { ...queued, workspaceId, createdAt: now, updatedAt: now, blocks: [] }, error: null, offline: true };
+  }
   try {
-    const pageRef = doc(collection(db, PAGES_COLLECTION));
     const page = {
       ...pageData,
       id: pageRef.id,
@@ -138,24 +207,75 @@ export const createPage = async (workspaceId: string, pageData: Partial<Page>) =
   }
 };
 
+/**
+ * Creates several pages at once, keeping the IDs they already have (e.g. from an
+ * import, where pages link to each other). Each page's blocks are written to the
+ * blocks collection; block order is kept through their createdAt.
+ * Writes are split into batches by commitWrites.
+ */
+export const createPagesBatch = async (workspaceId: string, pages: Page[]) => {
+  try {
+    const writes: BatchWrite[] = [];
+    const start = Date.now();
+
+    pages.forEach((page) => {
+      const { blocks, ...pageData } = page;
+      writes.push((batch) =>
+        batch.set(doc(db, PAGES_COLLECTION, page.id), {
+          ...pageData,
+          workspaceId,
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+          blocks: [],
+        })
+      );
+      blocks.forEach((block, index) => {
+        writes.push((batch) =>
+          batch.set(doc(db, BLOCKS_COLLECTION, block.id), {
+            ...block,
+            pageId: page.id,
+            createdAt: Timestamp.fromMillis(start + index),
+            updatedAt: serverTimestamp(),
+          })
+        );
+      });
+    });
+
+    await commitWrites(writes);
+    return { error: null };
+  } catch (error: any) {
+    return { error: error.message };
+  }
+};
+
 export const getPage = async (pageId: string) => {
+  if (!navigator.onLine) return getOfflinePage(pageId, 'Page not available offline');
   try {
     const pageRef = doc(db, PAGES_COLLECTION, pageId);
     const pageSnap = await getDoc(pageRef);
     if (pageSnap.exists()) {
-      return { page: { id: pageSnap.id, ...pageSnap.data() }, error: null };
+      const page = { id: pageSnap.id, ...pageSnap.data() };
+      replicate(cachePages([page]));
+      return { page, error: null };
     }
     return { page: null, error: 'Page not found' };
   } catch (error: any) {
-    return { page: null, error: error.message };
+    return getOfflinePage(pageId, error.message);
   }
 };
 
+// A page from the offline replica, or the error when it isn't there
+const getOfflinePage = async (pageId: string, error: string) => {
+  const page = await getCachedPage(pageId).catch(() => null);
+  return page ? { page, error: null, offline: true } : { page: null, error };
+};
+
 /**
  * Fetches all pages within a workspace, ordered by last update.
  * Note: This does not construct the hierarchy tree; that is done client-side.
  */
 export const getPagesByWorkspace = async (workspaceId: string) => {
+  if (!navigator.onLine) return getOfflinePages({ workspaceId }, null);
   try {
     const q = query(
       collection(db, PAGES_COLLECTION),
@@ -169,13 +289,15 @@ export const getPagesByWorkspace = async (workspaceId: string) => {
       id: doc.id,
       ...doc.data(),
     }));
+    replicate(cachePages(pages));
     return { pages, error: null };
   } catch (error: any) {
-    return { pages: [], error: error.message };
+    return getOfflinePages({ workspaceId }, error.message);
   }
 };
 
 export const getPagesByParent = async (parentId: string) => {
+  if (!navigator.onLine) return getOfflinePages({ parentId }, null);
   try {
     const q = query(
       collection(db, PAGES_COLLECTION),
@@ -187,17 +309,62 @@ export const getPagesByParent = async (parentId: string) => {
       id: doc.id,
       ...doc.data(),
     })) as any[]; // Cast to any to avoid strict type checks on the spread
+    replicate(cachePages(pages));
     return { pages, error: null };
   } catch (error: any) {
-    return { pages: [], error: error.message };
+    return getOfflinePages({ parentId }, error.message);
   }
 };
 
-export const updatePage = async (pageId: string, updates: Partial<Page>) => {
+// Pages from the offline replica; the error is kept when there are none to show
+const getOfflinePages = async (filter: Parameters<typeof getCachedPages>[0], error: string | null) => {
+  const pages: any[] = await getCachedPages(filter).catch(() => []);
+  return pages.length > 0 || !error ? { pages, error: null, offline: true } : { pages, error };
+};
+
+/**
+ * Checks typed property values against the page's schema before they are written.
+ * The schema is the page's own properties (or the ones in this update) plus the
+ * parent database page's properties. Returns the normalized values or an error.
+ */
+const validatePageValues = async (pageId: string, updates: Partial<Page>) => {
+  const pageSnap = await getDoc(doc(db, PAGES_COLLECTION, pageId));
+  const page = pageSnap.exists() ? (pageSnap.data() as Page) : null;
+
+  const parentId = updates.parentId ?? page?.parentId;
+  const parentSnap = parentId ? await getDoc(doc(db, PAGES_COLLECTION, parentId)) : null;
+  const parent = parentSnap?.exists() ? (parentSnap.data() as Page) : null;
+
+  const schema = resolvePropertySchema({ properties: updates.properties ?? page?.properties }, parent);
+  const { values, errors } = validatePropertyValues(schema, updates.propertyValues || {});
+  return { values, error: describeValidationErrors(errors) };
+};
+
+/**
+ * Updates a page's fields.
+ * * OFFLINE HANDLING:
+ * If offline, queues the update with the page as `base` (or Firestore's cached copy),
+ * so changes made to the page elsewhere in the meantime are detected on replay.
+ */
+export const updatePage = async (pageId: string, updates: Partial<Page>, base?: Partial<Page>) => {
+  const pageRef = doc(db, PAGES_COLLECTION, pageId);
+  if (!navigator.onLine) {
+    const editBase = await getEditBase(pageRef, Object.keys(updates), base);
+    await addToQueue({ type: 'updatePage', payload: { pageId, data: updates, base: editBase } });
+    return { error: null, offline: true };
+  }
   try {
-    const pageRef = doc(db, PAGES_COLLECTION, pageId);
+    let data: Partial<Page> = updates;
+
+    // Typed property values must match their property definitions
+    if (updates.propertyValues) {
+      const { values, error } = await validatePageValues(pageId, updates);
+      if (error) return { error };
+      data = { ...updates, propertyValues: values };
+    }
+
     await updateDoc(pageRef, {
-      ...updates,
+      ...data,
       updatedAt: serverTimestamp(),
     });
     return { error: null };
@@ -206,82 +373,158 @@ export const updatePage = async (pageId: string, updates: Partial<Page>) => {
   }
 };
 
-// Move page to trash (soft delete)
+/**
+ * A page and every page below it (by parentId), the page first.
+ */
+const getPageSubtree = async (pageId: string) => {
+  const pageSnap = await getDoc(doc(db, PAGES_COLLECTION, pageId));
+  const pages: any[] = pageSnap.exists() ? [{ id: pageSnap.id, ...pageSnap.data() }] : [];
+  for (let i = 0; i < pages.length; i++) {
+    const children = await getDocs(query(collection(db, PAGES_COLLECTION), where('parentId', '==', pages[i].id)));
+    children.docs.forEach((child) => {
+      if (!pages.some((page) => page.id === child.id)) pages.push({ id: child.id, ...child.data() });
+    });
+  }
+  return pages;
+};
+
+// Move pages to trash (soft delete), with the pages below them
 export const deletePage = async (pageId: string) => {
   try {
-    const pageRef = doc(db, PAGES_COLLECTION, pageId);
-    await updateDoc(pageRef, {
-      isArchived: true,
-      archivedAt: serverTimestamp(),
-      updatedAt: serverTimestamp(),
-    });
+    const subtree = await getPageSubtree(pageId);
+    const archivedAt = Timestamp.now();
+    await commitWrites(
+      subtree
+        .filter((page, index) => index === 0 || !page.isArchived)
+        .map((page) => (batch) =>
+          batch.update(doc(db, PAGES_COLLECTION, page.id), {
+            isArchived: true,
+            archivedAt,
+            updatedAt: serverTimestamp(),
+          })
+        )
+    );
     return { error: null };
   } catch (error: any) {
     return { error: error.message };
   }
 };
 
-// Restore page from trash
+// Restore a page from trash, with the pages that went to the trash with it
 export const restorePage = async (pageId: string) => {
   try {
-    const pageRef = doc(db, PAGES_COLLECTION, pageId);
-    await updateDoc(pageRef, {
-      isArchived: false,
-      archivedAt: null,
-      updatedAt: serverTimestamp(),
-    });
+    const subtree = await getPageSubtree(pageId);
+    await commitWrites(
+      getRestoredIds(subtree, pageId).map((id) => (batch) =>
+        batch.update(doc(db, PAGES_COLLECTION, id), {
+          isArchived: false,
+          archivedAt: null,
+          updatedAt: serverTimestamp(),
+        })
+      )
+    );
     return { error: null };
   } catch (error: any) {
     return { error: error.message };
   }
 };
 
-// Permanently delete page (hard delete)
+// Permanently delete a page (hard delete), with the pages below it and their blocks
+// Version histories are left for the trash purge function, which can delete subcollections
 export const permanentlyDeletePage = async (pageId: string) => {
   try {
-    await deleteDoc(doc(db, PAGES_COLLECTION, pageId));
+    const subtree = await getPageSubtree(pageId);
+    const writes: BatchWrite[] = [];
+    for (const page of subtree) {
+      const blocks = await getDocs(query(collection(db, BLOCKS_COLLECTION), where('pageId', '==', page.id)));
+      blocks.docs.forEach((block) => writes.push((batch) => batch.delete(block.ref)));
+      writes.push((batch) => batch.delete(doc(db, PAGES_COLLECTION, page.id)));
+    }
+    await commitWrites(writes);
     return { error: null };
   } catch (error: any) {
     return { error: error.message };
   }
 };
 
+/**
+ * Live page listener. Snapshots keep the offline replica warm; while offline the
+ * replica's copy is delivered first, as Firestore's memory cache starts empty.
+ */
 export const subscribeToPage = (pageId: string, callback: (page: any) => void) => {
   const pageRef = doc(db, PAGES_COLLECTION, pageId);
+  let hasSnapshot = false;
+  if (!navigator.onLine) {
+    getCachedPage(pageId)
+      .then((page) => page && !hasSnapshot && callback(page))
+      .catch(() => undefined);
+  }
   return onSnapshot(pageRef, (snapshot) => {
     if (snapshot.exists()) {
-      callback({ id: snapshot.id, ...snapshot.data() });
+      hasSnapshot = true;
+      const page = { id: snapshot.id, ...snapshot.data() };
+      if (!snapshot.metadata.fromCache) replicate(cachePages([page]));
+      callback(page);
     }
   });
 };
 
+/**
+ * "Make available offline": downloads a page, every page below it and their
+ * blocks into the offline replica, and keeps them there (exempt from eviction).
+ */
+export const makePageAvailableOffline = async (pageId: string) => {
+  if (!navigator.onLine) return { count: 0, error: 'Pages can be made available offline once you are back online' };
+  try {
+    const pages = await getPageSubtree(pageId);
+    await cachePages(pages);
+    for (const page of pages) {
+      const { blocks, error } = await getBlocksByPage(page.id);
+      if (error) throw new Error(error);
+      await cacheBlocks(page.id, blocks);
+    }
+    await pinPage(pageId);
+    return { count: pages.length, error: null };
+  } catch (error: any) {
+    return { count: 0, error: error.message };
+  }
+};
+
+// Lets a page made available offline be evicted again like any other
+export const removePageFromOffline = async (pageId: string) => {
+  try {
+    await unpinPage(pageId);
+    return { error: null };
+  } catch (error: any) {
+    return { error: error.message };
+  }
+};
+
 // ==========================================
 // BLOCK OPERATIONS
 // ==========================================
 
 /**
- * Creates a new block in a page.
+ * Creates a new block in a page, with the ID in `blockData` if it has one.
  * * OFFLINE HANDLING:
- * If the user is offline, this operation generates a temporary ID,
- * saves the action to the IndexedDB queue, and returns an "offline" success.
- * This ensures the UI remains responsive even without a connection.
+ * If the user is offline, the block still gets its real (client-generated) ID;
+ * the action is saved to the IndexedDB queue with it, and an "offline" success returned.
+ * This ensures the UI remains responsive even without a connection, and that
+ * edits queued for the block afterwards replay against the same ID.
+ * A `createdAt` in `blockData` (where the block goes in the page) is kept.
  */
 export const createBlock = async (pageId: string, blockData: Partial<Block>) => {
-  // Offline mode: return a temp block so the editor can keep moving.
-  // The sync layer currently just replays the create, so callers should be ready
-  // for a later “real” id once we add reconciliation.
+  const blockRef = blockData.id ? doc(db, BLOCKS_COLLECTION, blockData.id) : doc(collection(db, BLOCKS_COLLECTION));
   if (!navigator.onLine) {
-    const tempId = 'temp-block-' + Date.now();
-    await addToQueue({ type: 'createBlock', payload: { pageId, blockData: { ...blockData, id: tempId } } });
-    return { block: { ...blockData, id: tempId, pageId }, error: null, offline: true };
+    await addToQueue({ type: 'createBlock', payload: { pageId, blockData: { ...blockData, id: blockRef.id } } });
+    return { block: { ...blockData, id: blockRef.id, pageId }, error: null, offline: true };
   }
   try {
-    const blockRef = doc(collection(db, BLOCKS_COLLECTION));
     const block = {
       ...blockData,
       id: blockRef.id,
       pageId,
-      createdAt: serverTimestamp(),
+      createdAt: blockData.createdAt ?? serverTimestamp(),
       updatedAt: serverTimestamp(),
     };
     await setDoc(blockRef, block);
@@ -292,6 +535,7 @@ export const createBlock = async (pageId: string, blockData: Partial<Block>) =>
 };
 
 export const getBlocksByPage = async (pageId: string) => {
+  if (!navigator.onLine) return getOfflineBlocks(pageId, null);
   try {
     const q = query(
       collection(db, BLOCKS_COLLECTION),
@@ -304,26 +548,46 @@ export const getBlocksByPage = async (pageId: string) => {
       id: doc.id,
       ...doc.data(),
     }));
+    replicate(cacheBlocks(pageId, blocks));
     return { blocks, error: null };
   } catch (error: any) {
-    return { blocks: [], error: error.message };
+    return getOfflineBlocks(pageId, error.message);
+  }
+};
+
+// A page's blocks from the offline replica; the error is kept when there are none to show
+const getOfflineBlocks = async (pageId: string, error: string | null) => {
+  const blocks: any[] = await getCachedBlocks(pageId).catch(() => []);
+  return blocks.length > 0 || !error ? { blocks, error: null, offline: true } : { blocks, error };
+};
+
+export const getBlock = async (blockId: string) => {
+  try {
+    const blockSnap = await getDoc(doc(db, BLOCKS_COLLECTION, blockId));
+    if (blockSnap.exists()) {
+      return { block: { id: blockSnap.id, ...blockSnap.data() } as Block & { pageId: string }, error: null };
+    }
+    return { block: null, error: 'Block not found' };
+  } catch (error: any) {
+    return { block: null, error: error.message };
   }
 };
 
 /**
  * Updates an existing block.
  * * OFFLINE HANDLING:
- * Similar to createBlock, if offline, queues the update.
+ * Similar to createBlock, if offline, queues the update. The block as the caller
+ * last saw it (`base`, or Firestore's cached copy) is queued with it, so edits made
+ * to the block on other devices in the meantime are detected rather than overwritten.
  */
-export const updateBlock = async (blockId: string, updates: Partial<Block>) => {
-  // Offline updates are queued and treated as “best effort”.
-  // This means conflicts are possible if the same block is edited on multiple devices.
+export const updateBlock = async (blockId: string, updates: Partial<Block>, base?: Partial<Block>) => {
+  const blockRef = doc(db, BLOCKS_COLLECTION, blockId);
   if (!navigator.onLine) {
-    await addToQueue({ type: 'updateBlock', payload: { blockId, updates } });
+    const editBase = await getEditBase(blockRef, Object.keys(updates), base);
+    await addToQueue({ type: 'updateBlock', payload: { blockId, updates, base: editBase } });
     return { error: null, offline: true };
   }
   try {
-    const blockRef = doc(db, BLOCKS_COLLECTION, blockId);
     await updateDoc(blockRef, {
       ...updates,
       updatedAt: serverTimestamp(),
@@ -369,17 +633,154 @@ export const updateBlocksBatch = async (updates: Array<{ blockId: string; update
   }
 };
 
+/**
+ * Replaces all blocks of a page, e.g. when restoring a version.
+ * Blocks not in the list are deleted; the others are written in list order
+ * (createdAt is what getBlocksByPage sorts by, so it is reassigned in order).
+ */
+export const replacePageBlocks = async (pageId: string, blocks: Block[]) => {
+  try {
+    const existing = await getDocs(query(collection(db, BLOCKS_COLLECTION), where('pageId', '==', pageId)));
+    const keep = new Set(blocks.map((block) => block.id));
+    const start = Date.now();
+    const writes: BatchWrite[] = [
+      ...existing.docs.filter((snap) => !keep.has(snap.id)).map((snap): BatchWrite => (batch) => batch.delete(snap.ref)),
+      ...blocks.map((block, index): BatchWrite => (batch) =>
+        batch.set(doc(db, BLOCKS_COLLECTION, block.id), {
+          ...JSON.parse(JSON.stringify(block)),
+          pageId,
+          createdAt: Timestamp.fromMillis(start + index),
+          updatedAt: serverTimestamp(),
+        })
+      ),
+    ];
+    await commitWrites(writes);
+    return { error: null };
+  } catch (error: any) {
+    return { error: error.message };
+  }
+};
+
+/**
+ * Applies block operations from undo/redo (see lib/history/undo) to a page.
+ * Blocks are ordered by createdAt, so inserted and moved blocks get a createdAt
+ * between the ones of their new neighbours.
+ * Offline, each operation goes to the IndexedDB queue through the block helpers
+ * instead (fields to remove are set to null, as the queue can't hold deleteField).
+ */
+export const writeBlockOperations = async (pageId: string, operations: BlockOperation[]) => {
+  try {
+    const { blocks, error } = await getBlocksByPage(pageId);
+    if (error) return { error };
+
+    const toMillis = (value: any): number => (value?.toMillis ? value.toMillis() : new Date(value ?? Date.now()).getTime());
+    const order = blocks.map((block: any) => ({ id: block.id as string, time: toMillis(block.createdAt) }));
+    // createdAt for a block placed at `index` of the order
+    const timeAt = (index: number) => {
+      const previous = order[index - 1]?.time;
+      const next = order[index]?.time;
+      if (previous === undefined) return next === undefined ? Date.now() : next - 1;
+      return next === undefined ? previous + 1 : (previous + next) / 2;
+    };
+
+    const offline = !navigator.onLine;
+    const batch = writeBatch(db);
+    for (const operation of operations) {
+      switch (operation.type) {
+        case 'insert': {
+          if (order.some((item) => item.id === operation.block.id)) continue;
+          const index = Math.min(operation.index, order.length);
+          const time = timeAt(index);
+          order.splice(index, 0, { id: operation.block.id, time });
+          const block = JSON.parse(JSON.stringify(operation.block));
+          if (offline) {
+            await createBlock(pageId, { ...block, createdAt: new Date(time) });
+            continue;
+          }
+          batch.set(doc(db, BLOCKS_COLLECTION, operation.block.id), {
+            ...block,
+            pageId,
+            createdAt: Timestamp.fromMillis(time),
+            updatedAt: serverTimestamp(),
+          });
+          continue;
+        }
+        case 'delete': {
+          const index = order.findIndex((item) => item.id === operation.block.id);
+          if (index !== -1) order.splice(index, 1);
+          if (offline) {
+            await deleteBlock(operation.block.id);
+            continue;
+          }
+          batch.delete(doc(db, BLOCKS_COLLECTION, operation.block.id));
+          continue;
+        }
+        case 'update': {
+          if (offline) {
+            const fields = Object.fromEntries(Object.entries(operation.after).map(([key, value]) => [key, value ?? null]));
+            await updateBlock(operation.blockId, fields);
+            continue;
+          }
+          // Fields the block didn't have before are removed again
+          const fields = Object.fromEntries(
+            Object.entries(operation.after).map(([key, value]) => [key, value === undefined ? deleteField() : value])
+          );
+          batch.update(doc(db, BLOCKS_COLLECTION, operation.blockId), { ...fields, updatedAt: serverTimestamp() });
+          continue;
+        }
+        case 'move': {
+          const index = order.findIndex((item) => item.id === operation.blockId);
+          if (index === -1) continue;
+          const [item] = order.splice(index, 1);
+          item.time = timeAt(Math.min(operation.toIndex, order.length));
+          order.splice(Math.min(operation.toIndex, order.length), 0, item);
+          if (offline) {
+            await updateBlock(operation.blockId, { createdAt: new Date(item.time) });
+            continue;
+          }
+          batch.update(doc(db, BLOCKS_COLLECTION, operation.blockId), {
+            createdAt: Timestamp.fromMillis(item.time),
+            updatedAt: serverTimestamp(),
+          });
+          continue;
+        }
+      }
+    }
+    if (offline) return { error: null, offline: true };
+    await batch.commit();
+    return { error: null };
+  } catch (error: any) {
+    return { error: error.message };
+  }
+};
+
+/**
+ * Live block listener for a page. Like `subscribeToPage`, it keeps the offline
+ * replica warm and starts from the replica's copy while offline.
+ */
 export const subscribeToBlocks = (pageId: string, callback: (blocks: any[]) => void) => {
   const q = query(
     collection(db, BLOCKS_COLLECTION),
     where('pageId', '==', pageId),
     orderBy('createdAt', 'asc')
   );
+  let hasSnapshot = false;
+  if (!navigator.onLine) {
+    getCachedBlocks(pageId)
+      .then((blocks) => !hasSnapshot && callback(blocks))
+      .catch(() => undefined);
+  } else {
+    replicate(touchPage(pageId));
+  }
   return onSnapshot(q, (snapshot) => {
+    // An empty snapshot from Firestore's (empty) memory cache would hide the replica's copy
+    if (snapshot.metadata.fromCache && snapshot.empty && !navigator.onLine) return;
+    hasSnapshot = true;
     const blocks = snapshot.docs.map((doc) => ({
       id: doc.id,
       ...doc.data(),
     }));
+    if (!snapshot.metadata.fromCache) replicate(cacheBlocks(pageId, blocks));
     callback(blocks);
   });
 };
\ No newline at end of file
@@ -3,179 +3,221 @@ import {
     doc,
     getDocs,
     addDoc,
+    updateDoc,
+    deleteField,
     query,
+    where,
     orderBy,
     limit,
-    Timestamp,
+    startAt,
+    startAfter,
     serverTimestamp,
-    getDoc
+    DocumentData
 } from 'firebase/firestore';
 import { db } from './config';
-import { HistoryEntry, ChangeDiff } from '../../types/history';
+import { HistoryEntry, HistoryRetention, PageSnapshot, SyncConflictOutcome } from '../../types/history';
 import { Page } from '../../types/workspace';
-import _ from 'lodash'; // Assuming lodash is available or will use basic object comparison
+import { createSnapshot, diffBlocks, diffPageFields, getRestoreUpdates, reconstructVersion } from '../history/diff';
 
+// Every SNAPSHOT_INTERVAL-th version stores the full page, blocks included, so
+// rebuilding a version never replays more than that many diffs
 const SNAPSHOT_INTERVAL = 10;
 
-export const getPageHistory = async (pageId: string): Promise<HistoryEntry[]> => {
-    const versionsRef = collection(db, 'pages', pageId, 'versions');
-    const q = query(versionsRef, orderBy('createdAt', 'desc'), limit(50));
-
-    const querySnapshot = await getDocs(q);
-    return querySnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-    } as HistoryEntry));
+// Retention for workspaces that haven't set one: every version for a week,
+// hourly for a month, daily after that. Pruning happens in functions/src/index.ts
+export const DEFAULT_HISTORY_RETENTION: HistoryRetention = {
+    keepAllDays: 7,
+    hourlyDays: 30
 };
 
-export const createVersion = async (
-    pageId: string,
-    oldPage: Page,
-    newPage: Page,
-    userId: string,
-    userName: string = 'Unknown'
-) => {
-    // 1. Calculate Diff
-    const diff: ChangeDiff = {};
-    const allKeys = new Set([...Object.keys(oldPage), ...Object.keys(newPage)]);
-
-    allKeys.forEach(key => {
-        const k = key as keyof Page;
-        if (JSON.stringify(oldPage[k]) !== JSON.stringify(newPage[k])) {
-            diff[key] = {
-                before: oldPage[k],
-                after: newPage[k]
-            };
-        }
-    });
+// Versions listed per page of the history panel
+export const HISTORY_PAGE_SIZE = 50;
 
-    if (Object.keys(diff).length === 0) return; // No changes
+// Block data is stored as JSON strings: Firestore rejects undefined values and
+// nested arrays (table rows), and these fields are only ever read whole
+const decode = <T>(value: unknown): T | undefined =>
+    typeof value === 'string' ? (JSON.parse(value) as T) : (value as T | undefined);
 
-    // 2. Check if we need a snapshot
-    // Optimization: In a real app we might query the last version count to determine this
-    // For now, we'll randomize or just not check interval purely to simplify valid logic
-    // Better approach: Just save diffs for now, and rely on 'snapshot' being passed explicitly if needed
-    // Or check previous version index. 
+const toHistoryEntry = (id: string, data: DocumentData): HistoryEntry => ({
+    ...(data as Omit<HistoryEntry, 'id'>),
+    id,
+    diff: data.diff || {},
+    blockChanges: decode(data.blockChanges),
+    blockOrder: decode(data.blockOrder),
+    snapshot: decode(data.snapshot),
+    isSnapshot: !!data.isSnapshot && !!data.snapshot
+});
 
-    // Simple strategy: Always save diff. 
-    // For robustness, let's say every version IS a diff, but specific ones CAN be snapshots.
-
-    const versionData: Omit<HistoryEntry, 'id'> = {
-        pageId,
-        authorId: userId,
-        authorName: userName,
-        createdAt: serverTimestamp() as Timestamp, // Use server timestamp
-        diff,
-        isSnapshot: false // Default to false for now to save space
-    };
+const toMillis = (date: HistoryEntry['createdAt']) => ('toMillis' in date ? date.toMillis() : date.getTime());
 
+// Latest versions first, a page at a time; pass the last entry of a page as `after` for the next one
+export const getPageHistory = async (
+    pageId: string,
+    options: { after?: HistoryEntry; pageSize?: number } = {}
+): Promise<HistoryEntry[]> => {
     const versionsRef = collection(db, 'pages', pageId, 'versions');
-    await addDoc(versionsRef, versionData);
+    const q = options.after
+        ? query(versionsRef, orderBy('createdAt', 'desc'), startAfter(options.after.createdAt), limit(options.pageSize || HISTORY_PAGE_SIZE))
+        : query(versionsRef, orderBy('createdAt', 'desc'), limit(options.pageSize || HISTORY_PAGE_SIZE));
+
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(doc => toHistoryEntry(doc.id, doc.data()));
 };
 
-export const restoreVersion = async (pageId: string, versionId: string, userId: string): Promise<void> => {
-    // 1. Get the target version
+// Pinned versions, newest first, so they're at hand however long the history is
+export const getPinnedVersions = async (pageId: string): Promise<HistoryEntry[]> => {
     const versionsRef = collection(db, 'pages', pageId, 'versions');
-    const versionDoc = await getDoc(doc(versionsRef, versionId));
-
-    if (!versionDoc.exists()) {
-        throw new Error('Version not found');
-    }
+    const querySnapshot = await getDocs(query(versionsRef, where('pinned', '==', true)));
+    return querySnapshot.docs
+        .map(doc => toHistoryEntry(doc.id, doc.data()))
+        .sort((a, b) => toMillis(b.createdAt) - toMillis(a.createdAt));
+};
 
-    const targetVersion = versionDoc.data() as HistoryEntry;
-
-    // NOTE: If we only stored diffs, we would need to "replay" them from the nearest snapshot.
-    // BUT, since the user requirement asked for efficient storage (diffs), 
-    // we need a way to reconstruct.
-    //
-    // STRATEGY:
-    // If 'snapshot' is missing, we must traverse BACKWARDS from the current live page 
-    // REVERSING the diffs until we reach the target version? 
-    // OR traverse FORWARDS from the last snapshot?
-    // 
-    // For simplicity in this iteration:
-    // I will assume for now that to restore, we might need a robust 'reconstruct' function.
-    // 
-    // Let's implement a simpler 'reconstruct' approach:
-    // Fetch ALL versions (or up to a snapshot) and replay.
-    // 
-    // HOWEVER, simplified approach for MVP:
-    // If we don't implement full replay logic yet, 'restore' might be tricky if we don't have the full object.
-    //
-    // ALTERNATIVE: For now, let's assume 'previewVersion' logic does the heavy lifting.
-
-    // For this step, I'll return the Reconstructed Page.
-    const restoredPage = await reconstructPageAtVersion(pageId, versionId);
-
-    // 2. Update the Live Page
-    // We need to import the updatePage function from database.ts to avoid circular deps if possible
-    // OR just do a raw firestore update here.
-    const pageRef = doc(db, 'pages', pageId);
-
-    // Create a new version representing this restore
-    // We can let the standard 'updatePage' hook handle the version creation if we call it standardly.
-    // But here we might want to flag it.
-
-    await import('./database').then(async (mod) => {
-        // Fix: updatePage takes 2 args (pageId, updates)
-        await mod.updatePage(pageId, restoredPage);
-    });
+// Names or pins a version; an empty name removes it
+export const labelVersion = async (
+    pageId: string,
+    versionId: string,
+    label: { name?: string; pinned?: boolean }
+): Promise<void> => {
+    const updates: Record<string, unknown> = {};
+    if (label.name !== undefined) updates.name = label.name.trim() || deleteField();
+    if (label.pinned !== undefined) updates.pinned = label.pinned || deleteField();
+    await updateDoc(doc(db, 'pages', pageId, 'versions', versionId), updates);
 };
 
-// Start from current live page and apply REVERSE diffs until we reach target version
-// OR start from 0 if we have full history?
-// Actually, 'Reversing' diffs from Present -> Past is usually easier if we have the current state.
-export const reconstructPageAtVersion = async (pageId: string, versionId: string): Promise<Page> => {
-    // 1. Get Current Live Page
-    const pageRef = doc(db, 'pages', pageId);
-    const pageSnap = await getDoc(pageRef);
-    if (!pageSnap.exists()) throw new Error("Page does not exist");
-    let currentPage = pageSnap.data() as Page;
-
-    // 2. Get all versions AFTER the target version, in DESCENDING order (Newest -> Target)
+// Every version of a page, oldest first, as reconstruction needs them
+export const getAllVersions = async (pageId: string): Promise<HistoryEntry[]> => {
     const versionsRef = collection(db, 'pages', pageId, 'versions');
-    const q = query(versionsRef, orderBy('createdAt', 'desc'));
-    // We get all, then filter in memory because Firestore queries are limited
-
-    const querySnapshot = await getDocs(q);
-    const allVersions = querySnapshot.docs.map(d => ({ id: d.id, ...d.data() } as HistoryEntry));
-
-    // Find index of target
-    const targetIndex = allVersions.findIndex(v => v.id === versionId);
-    if (targetIndex === -1) throw new Error("Target version not found");
+    const querySnapshot = await getDocs(query(versionsRef, orderBy('createdAt', 'asc')));
+    return querySnapshot.docs.map(doc => toHistoryEntry(doc.id, doc.data()));
+};
 
-    // Versions to revert: From Index 0 (Newest) to TargetIndex - 1
-    // Wait, if we want to get TO target version state, we need to revert changes FROM all versions created AFTER it.
-    // So we revert versions: [0, 1, ... targetIndex-1]
-    // We DO NOT revert the target version itself (because that version's state IS what we want).
+// The versions needed to rebuild a version and the one before it, oldest first:
+// back to the nearest earlier snapshot, read a few at a time. Every version is
+// at most SNAPSHOT_INTERVAL from a snapshot (pruning turns the version after a
+// gap into one), except ones from before snapshots, which need the whole history.
+export const getVersionsToRebuild = async (pageId: string, entry: HistoryEntry): Promise<HistoryEntry[]> => {
+    const versionsRef = collection(db, 'pages', pageId, 'versions');
+    const versions: HistoryEntry[] = [];
+    let cursor: HistoryEntry | null = null;
+    for (;;) {
+        const q = cursor
+            ? query(versionsRef, orderBy('createdAt', 'desc'), startAfter(cursor.createdAt), limit(SNAPSHOT_INTERVAL + 1))
+            : query(versionsRef, orderBy('createdAt', 'desc'), startAt(entry.createdAt), limit(SNAPSHOT_INTERVAL + 1));
+        const querySnapshot = await getDocs(q);
+        const batch: HistoryEntry[] = querySnapshot.docs.map(doc => toHistoryEntry(doc.id, doc.data()));
+        // Versions saved in the same instant as the target but after it come first; skip them
+        const start = cursor ? 0 : batch.findIndex(version => version.id === entry.id);
+        if (start === -1) return getAllVersions(pageId);
+        versions.unshift(...batch.slice(start).reverse());
+
+        if (versions.slice(0, -1).some(version => version.isSnapshot)) return versions;
+        if (batch.length < SNAPSHOT_INTERVAL + 1) {
+            // Reached the first version: without a snapshot there, the versions can
+            // only be rebuilt backwards from a later snapshot
+            return versions[0]?.isSnapshot ? versions : getAllVersions(pageId);
+        }
+        cursor = batch[batch.length - 1];
+    }
+};
 
-    const versionsToRevert = allVersions.slice(0, targetIndex); // If target is 0 (latest), this is empty. Correct.
+// Versions of a page are written one at a time, so each gets the next number
+const pendingVersions = new Map<string, Promise<void>>();
 
-    for (const version of versionsToRevert) {
-        currentPage = revertDiff(currentPage, version.diff);
-    }
+const writeVersion = async (
+    pageId: string,
+    oldPage: Page,
+    newPage: Page,
+    userId: string,
+    userName: string,
+    options: { restoreVersionId?: string; syncConflict?: SyncConflictOutcome } = {}
+) => {
+    const { restoreVersionId, syncConflict } = options;
+    // 1. Calculate Diff: page fields, and blocks (which the caller includes in the pages)
+    const diff = diffPageFields(oldPage, newPage);
+    const blocks = diffBlocks(oldPage.blocks || [], newPage.blocks || []);
+    // No changes; resolved conflicts are recorded even when the user kept the other side's
+    if (Object.keys(diff).length === 0 && !blocks && !restoreVersionId && !syncConflict) return;
+
+    // 2. Number the version; the first one, every SNAPSHOT_INTERVAL-th one and
+    // restores store a full snapshot
+    const versionsRef = collection(db, 'pages', pageId, 'versions');
+    const latest = await getDocs(query(versionsRef, orderBy('version', 'desc'), limit(1)));
+    const version = (latest.docs[0]?.data().version || 0) + 1;
+    const isSnapshot = (version - 1) % SNAPSHOT_INTERVAL === 0 || !!restoreVersionId;
 
-    // Also, we must revert the diff of the versions that occurred *after* the target. 
-    // The 'diff' in a version entry represents "Changes made to create THIS version".
-    // So Version 5 diff = "Changes from V4 to V5".
-    // If we are at V5 (Live) and want to go to V3:
-    // We need to Undo V5's changes -> gets us to V4.
-    // We need to Undo V4's changes -> gets us to V3.
-    // Correct.
+    await addDoc(versionsRef, {
+        pageId,
+        version,
+        authorId: userId,
+        authorName: userName,
+        createdAt: serverTimestamp(), // Use server timestamp
+        diff: JSON.parse(JSON.stringify(diff)),
+        ...(blocks ? { blockChanges: JSON.stringify(blocks.changes), blockOrder: JSON.stringify(blocks.order) } : {}),
+        ...(isSnapshot ? { snapshot: JSON.stringify(createSnapshot(newPage)) } : {}),
+        isSnapshot,
+        ...(restoreVersionId ? { restoreVersionId } : {}),
+        ...(syncConflict ? { syncConflict } : {})
+    });
+};
 
-    return currentPage;
+// Records the change from oldPage to newPage; both should include the page's blocks
+export const createVersion = (
+    pageId: string,
+    oldPage: Page,
+    newPage: Page,
+    userId: string,
+    userName: string = 'Unknown',
+    options: { restoreVersionId?: string; syncConflict?: SyncConflictOutcome } = {}
+): Promise<void> => {
+    const previous = pendingVersions.get(pageId) || Promise.resolve();
+    const next = previous
+        .catch(() => undefined)
+        .then(() => writeVersion(pageId, oldPage, newPage, userId, userName, options));
+    pendingVersions.set(pageId, next);
+    next.catch(() => undefined).finally(() => {
+        if (pendingVersions.get(pageId) === next) pendingVersions.delete(pageId);
+    });
+    return next;
 };
 
-const revertDiff = (page: Page, diff: ChangeDiff): Page => {
-    const reverted: any = _.cloneDeep(page);
+// Rebuilds the page (fields and blocks) as it was right after a version
+// `current` is the live page; it's only needed for versions older than every snapshot
+export const reconstructPageAtVersion = async (
+    pageId: string,
+    version: HistoryEntry,
+    current?: PageSnapshot
+): Promise<PageSnapshot> => {
+    const entries = await getVersionsToRebuild(pageId, version);
+    return reconstructVersion(entries, version.id, current);
+};
 
-    Object.keys(diff).forEach(key => {
-        // Diff: { property: { before: "OldVal", after: "NewVal" } }
-        // We want to go BACK to "before"
-        const k = key as keyof Page;
-        // Fix: Cast to any to avoid complex type mismatch logic for now
-        reverted[k] = diff[key].before;
+// Restores a Firestore page to a version: page fields and blocks, recorded as a new version
+// Pages kept in the local workspace are restored through useWorkspace instead
+export const restoreVersion = async (
+    pageId: string,
+    version: HistoryEntry,
+    userId: string,
+    userName: string = 'Unknown'
+): Promise<void> => {
+    const { getPage, getBlocksByPage, updatePage, replacePageBlocks } = await import('./database');
+
+    // 1. Load the live page with its blocks
+    const { page, error } = await getPage(pageId);
+    if (!page) throw new Error(error || 'Page not found');
+    const { blocks } = await getBlocksByPage(pageId);
+    const current = { ...(page as Page), blocks: blocks as Page['blocks'] };
+
+    // 2. Rebuild the version and write it back
+    const restored = await reconstructPageAtVersion(pageId, version, createSnapshot(current));
+    const { blocks: restoredBlocks = [], ...updates } = getRestoreUpdates(current, restored);
+    const { error: updateError } = await updatePage(pageId, updates);
+    if (updateError) throw new Error(updateError);
+    const { error: blocksError } = await replacePageBlocks(pageId, restoredBlocks);
+    if (blocksError) throw new Error(blocksError);
+
+    // 3. Create a new version representing this restore
+    await createVersion(pageId, current, { ...current, ...updates, blocks: restoredBlocks } as Page, userId, userName, {
+        restoreVersionId: version.id
     });
-
-    return reverted;
 };
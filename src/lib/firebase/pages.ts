@@ -1,6 +1,6 @@
 import {
   collection,
-  addDoc,
+  setDoc,
   updateDoc,
   deleteDoc,
   doc,
@@ -8,6 +8,7 @@ import {
 } from 'firebase/firestore';
 import { db } from './config';
 import { addToQueue } from '../offline/queue';
+import { getEditBase } from './database';
 
 // Lightweight page utilities used by some parts of the UI.
 //
@@ -19,16 +20,18 @@ const PAGES_COLLECTION = 'pages';
  * Create a blank “Untitled Page”.
  *
  * Offline mode:
- * - We enqueue the request and return a temporary id so the UI can react immediately.
- * - The temp id is NOT automatically reconciled with the server id yet.
+ * - The id is generated on the client, so it's the page's real id even offline.
+ * - We enqueue the request with that id; sync creates the page under it, so
+ *   updates queued for the page afterwards apply to it.
  */
-export const createPage = async (userId: string) => {
+export const createPage = async (userId: string, pageId?: string) => {
+  const docRef = pageId ? doc(db, PAGES_COLLECTION, pageId) : doc(collection(db, PAGES_COLLECTION));
   if (!navigator.onLine) {
-    await addToQueue({ type: 'createPage', payload: { userId } });
-    return { id: 'temp-' + Date.now(), error: null, offline: true };
+    await addToQueue({ type: 'createPage', payload: { userId, pageId: docRef.id } });
+    return { id: docRef.id, error: null, offline: true };
   }
   try {
-    const docRef = await addDoc(collection(db, PAGES_COLLECTION), {
+    await setDoc(docRef, {
       userId,
       title: 'Untitled Page',
       coverImage: null,
@@ -49,14 +52,18 @@ export const createPage = async (userId: string) => {
  * `data` is intentionally untyped here because different screens patch different
  * subsets of fields (title, icon, cover, metadata...). If this stabilizes, we can
  * swap to `Partial<Page>`.
+ *
+ * Offline mode: `base` is the page as the caller last saw it, queued with the
+ * update so that edits made elsewhere meanwhile are detected when it replays.
  */
-export const updatePage = async (pageId: string, data: any) => {
+export const updatePage = async (pageId: string, data: any, base?: Record<string, any>) => {
+  const pageRef = doc(db, PAGES_COLLECTION, pageId);
   if (!navigator.onLine) {
-    await addToQueue({ type: 'updatePage', payload: { pageId, data } });
+    const editBase = await getEditBase(pageRef, Object.keys(data), base);
+    await addToQueue({ type: 'updatePage', payload: { pageId, data, base: editBase } });
     return { error: null, offline: true };
   }
   try {
-    const pageRef = doc(db, PAGES_COLLECTION, pageId);
     await updateDoc(pageRef, {
       ...data,
       updatedAt: serverTimestamp(),
@@ -0,0 +1,277 @@
+import {
+  arrayRemove,
+  arrayUnion,
+  collection,
+  doc,
+  FieldPath,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import { db } from './config';
+import { BatchWrite, commitWrites } from './batch';
+import { Page } from '../../types/workspace';
+import { RelationLink, RelationProperty } from '../../types/database';
+import { DanglingRelation, findDanglingRelations } from '../database/relations';
+
+/**
+ * Relation persistence
+ *
+ * Every link between two pages is stored as a RelationLink document, and the
+ * relation property's `linkedPageIds` on each page is kept in sync with those
+ * documents. Adding or removing a link writes both sides (link docs, forward
+ * property, reverse property) in a single batch so they can't drift apart.
+ */
+
+const PAGES_COLLECTION = 'pages';
+const RELATION_LINKS_COLLECTION = 'relationLinks';
+
+// Link ids are derived from their endpoints so the same link is never stored twice
+const getRelationLinkId = (sourcePageId: string, propertyName: string, targetPageId: string) =>
+  `${sourcePageId}__${encodeURIComponent(propertyName)}__${targetPageId}`;
+
+// Property names are user-defined and may contain dots, so always address them with a FieldPath
+const linkedIdsPath = (propertyName: string) => new FieldPath('properties', propertyName, 'linkedPageIds');
+
+const getPageData = async (pageId: string): Promise<Page | null> => {
+  const snapshot = await getDoc(doc(db, PAGES_COLLECTION, pageId));
+  return snapshot.exists() ? ({ id: snapshot.id, ...snapshot.data() } as Page) : null;
+};
+
+const getRelationProperty = (page: Page, propertyName: string): RelationProperty | null => {
+  const property = page.properties?.[propertyName];
+  return property?.type === 'relation' ? (property as RelationProperty) : null;
+};
+
+/**
+ * Links `sourcePageId` to `targetPageId` through a relation property.
+ * For bidirectional properties the reverse link is added to the target page too,
+ * creating the reverse relation property there if it doesn't exist yet.
+ */
+export const addRelationLink = async (sourcePageId: string, propertyName: string, targetPageId: string) => {
+  try {
+    const [source, target] = await Promise.all([getPageData(sourcePageId), getPageData(targetPageId)]);
+    if (!source || !target) return { error: 'Page not found' };
+
+    const property = getRelationProperty(source, propertyName);
+    if (!property) return { error: 'Relation property not found' };
+
+    const batch = writeBatch(db);
+    const reversePropertyName = property.reversePropertyName || propertyName;
+
+    const link: Omit<RelationLink, 'createdAt'> = {
+      id: getRelationLinkId(sourcePageId, propertyName, targetPageId),
+      workspaceId: source.workspaceId,
+      sourcePageId,
+      targetPageId,
+      propertyName,
+      bidirectional: !!property.bidirectional,
+      ...(property.bidirectional && { reversePropertyName }),
+    };
+    batch.set(doc(db, RELATION_LINKS_COLLECTION, link.id), { ...link, createdAt: serverTimestamp() });
+    batch.update(
+      doc(db, PAGES_COLLECTION, sourcePageId),
+      linkedIdsPath(propertyName),
+      arrayUnion(targetPageId),
+      'updatedAt',
+      serverTimestamp()
+    );
+
+    if (property.bidirectional) {
+      const reverseLink: Omit<RelationLink, 'createdAt'> = {
+        id: getRelationLinkId(targetPageId, reversePropertyName, sourcePageId),
+        workspaceId: target.workspaceId,
+        sourcePageId: targetPageId,
+        targetPageId: sourcePageId,
+        propertyName: reversePropertyName,
+        bidirectional: true,
+        reversePropertyName: propertyName,
+      };
+      batch.set(doc(db, RELATION_LINKS_COLLECTION, reverseLink.id), { ...reverseLink, createdAt: serverTimestamp() });
+
+      const targetRef = doc(db, PAGES_COLLECTION, targetPageId);
+      if (getRelationProperty(target, reversePropertyName)) {
+        batch.update(targetRef, linkedIdsPath(reversePropertyName), arrayUnion(sourcePageId), 'updatedAt', serverTimestamp());
+      } else {
+        const reverseProperty: RelationProperty = {
+          type: 'relation',
+          name: reversePropertyName,
+          linkedPageIds: [sourcePageId],
+          bidirectional: true,
+          reversePropertyName: propertyName,
+        };
+        batch.update(targetRef, new FieldPath('properties', reversePropertyName), reverseProperty, 'updatedAt', serverTimestamp());
+      }
+    }
+
+    await batch.commit();
+    return { error: null };
+  } catch (error: any) {
+    return { error: error.message };
+  }
+};
+
+/**
+ * Unlinks two pages. Bidirectional properties also lose the reverse link on the target page.
+ */
+export const removeRelationLink = async (sourcePageId: string, propertyName: string, targetPageId: string) => {
+  try {
+    const [source, target] = await Promise.all([getPageData(sourcePageId), getPageData(targetPageId)]);
+    if (!source) return { error: 'Page not found' };
+
+    const property = getRelationProperty(source, propertyName);
+    const batch = writeBatch(db);
+
+    batch.delete(doc(db, RELATION_LINKS_COLLECTION, getRelationLinkId(sourcePageId, propertyName, targetPageId)));
+    if (property) {
+      batch.update(
+        doc(db, PAGES_COLLECTION, sourcePageId),
+        linkedIdsPath(propertyName),
+        arrayRemove(targetPageId),
+        'updatedAt',
+        serverTimestamp()
+      );
+    }
+
+    if (property?.bidirectional) {
+      const reversePropertyName = property.reversePropertyName || propertyName;
+      batch.delete(doc(db, RELATION_LINKS_COLLECTION, getRelationLinkId(targetPageId, reversePropertyName, sourcePageId)));
+      // The target may already be gone; then only the link docs need cleaning up
+      if (target && getRelationProperty(target, reversePropertyName)) {
+        batch.update(
+          doc(db, PAGES_COLLECTION, targetPageId),
+          linkedIdsPath(reversePropertyName),
+          arrayRemove(sourcePageId),
+          'updatedAt',
+          serverTimestamp()
+        );
+      }
+    }
+
+    await batch.commit();
+    return { error: null };
+  } catch (error: any) {
+    return { error: error.message };
+  }
+};
+
+/**
+ * Writes the link documents for relations set directly on new pages, such as
+ * imported ones, which only come with their properties' `linkedPageIds`.
+ * Both sides of a bidirectional relation are on their own page, so each page's
+ * links are all it needs.
+ */
+export const createRelationLinksForPages = async (pages: Page[]) => {
+  try {
+    const links = pages.flatMap((page) =>
+      Object.entries(page.properties || {}).flatMap(([propertyName, property]) => {
+        if (property?.type !== 'relation') return [];
+        const relation = property as RelationProperty;
+        return (relation.linkedPageIds || []).map(
+          (targetPageId): Omit<RelationLink, 'createdAt'> => ({
+            id: getRelationLinkId(page.id, propertyName, targetPageId),
+            workspaceId: page.workspaceId,
+            sourcePageId: page.id,
+            targetPageId,
+            propertyName,
+            bidirectional: !!relation.bidirectional,
+            ...(relation.bidirectional && { reversePropertyName: relation.reversePropertyName || propertyName }),
+          })
+        );
+      })
+    );
+
+    await commitWrites(
+      links.map((link) => (batch) => batch.set(doc(db, RELATION_LINKS_COLLECTION, link.id), { ...link, createdAt: serverTimestamp() }))
+    );
+    return { created: links.length, error: null };
+  } catch (error: any) {
+    return { created: 0, error: error.message };
+  }
+};
+
+/**
+ * Returns every link that starts at the given page.
+ */
+export const getRelationLinks = async (pageId: string) => {
+  try {
+    const q = query(collection(db, RELATION_LINKS_COLLECTION), where('sourcePageId', '==', pageId));
+    const snapshot = await getDocs(q);
+    const links = snapshot.docs.map((d) => ({ id: d.id, ...d.data() }) as RelationLink);
+    return { links, error: null };
+  } catch (error: any) {
+    return { links: [], error: error.message };
+  }
+};
+
+/**
+ * Repair tooling: finds links in a workspace that point to deleted or archived pages.
+ * Checks both the linkedPageIds on each page and the RelationLink documents,
+ * so links written before link documents existed are found as well.
+ */
+export const findDanglingRelationLinks = async (workspaceId: string) => {
+  try {
+    const [pagesSnap, linksSnap] = await Promise.all([
+      getDocs(query(collection(db, PAGES_COLLECTION), where('workspaceId', '==', workspaceId))),
+      getDocs(query(collection(db, RELATION_LINKS_COLLECTION), where('workspaceId', '==', workspaceId))),
+    ]);
+    const pages = pagesSnap.docs.map((d) => ({ id: d.id, ...d.data() }) as Page);
+    const pagesById = new Map(pages.map((p) => [p.id, p]));
+
+    const dangling = findDanglingRelations(pages);
+    const seen = new Set(dangling.map((d) => getRelationLinkId(d.pageId, d.propertyName, d.targetPageId)));
+
+    linksSnap.docs.forEach((d) => {
+      const link = d.data() as RelationLink;
+      const source = pagesById.get(link.sourcePageId);
+      const target = pagesById.get(link.targetPageId);
+      if (source?.isArchived) return;
+
+      const isDeleted = !source || !target;
+      if (!isDeleted && !target?.isArchived) return;
+
+      const id = getRelationLinkId(link.sourcePageId, link.propertyName, link.targetPageId);
+      if (seen.has(id)) return;
+      seen.add(id);
+      dangling.push({
+        pageId: link.sourcePageId,
+        propertyName: link.propertyName,
+        targetPageId: link.targetPageId,
+        reason: isDeleted ? 'deleted' : 'archived',
+      });
+    });
+
+    return { dangling, error: null };
+  } catch (error: any) {
+    return { dangling: [] as DanglingRelation[], error: error.message };
+  }
+};
+
+/**
+ * Removes the given dangling links: deletes their link documents and drops the
+ * target from the source page's linkedPageIds (when the source page and property still exist).
+ */
+export const repairDanglingRelationLinks = async (dangling: DanglingRelation[]) => {
+  try {
+    const sourceIds = Array.from(new Set(dangling.map((d) => d.pageId)));
+    const sources = await Promise.all(sourceIds.map(getPageData));
+    const sourcesById = new Map(sources.filter((p): p is Page => !!p).map((p) => [p.id, p]));
+
+    const writes: BatchWrite[] = [];
+    dangling.forEach(({ pageId, propertyName, targetPageId }) => {
+      writes.push((batch) => batch.delete(doc(db, RELATION_LINKS_COLLECTION, getRelationLinkId(pageId, propertyName, targetPageId))));
+      const source = sourcesById.get(pageId);
+      if (source && getRelationProperty(source, propertyName)) {
+        writes.push((batch) => batch.update(doc(db, PAGES_COLLECTION, pageId), linkedIdsPath(propertyName), arrayRemove(targetPageId)));
+      }
+    });
+    await commitWrites(writes);
+
+    return { repaired: dangling.length, error: null };
+  } catch (error: any) {
+    return { repaired: 0, error: error.message };
+  }
+};
@@ -13,6 +13,7 @@ import {
 } from 'firebase/firestore';
 import { db } from './config';
 import { Page } from '../../types/workspace';
+import { cachePages, getCachedPages, replicate } from '../offline/replica';
 
 // Search is implemented as a Firestore query + client-side refinement.
 //
@@ -22,6 +23,8 @@ import { Page } from '../../types/workspace';
 //
 // This is good enough for typical workspace sizes. If we need true full-text
 // search later, plug in Algolia/Meilisearch/Firestore extensions.
+//
+// Offline, the same refinement runs over the pages in the offline replica.
 
 const PAGES_COLLECTION = 'pages';
 const SAVED_SEARCHES_COLLECTION = 'saved_searches';
@@ -43,7 +46,17 @@ export interface SearchResult {
     error: string | null;
 }
 
-export const searchPages = async (filters: SearchFilters): Promise<SearchResult> => {
+// The workspace's pages from the offline replica, with the filters the Firestore query applies
+const getOfflineCandidates = async (filters: SearchFilters): Promise<Page[]> => {
+    const pages = (await getCachedPages({ workspaceId: filters.workspaceId })) as Page[];
+    return pages.filter(page =>
+        (!filters.authorId || (page as any).createdBy === filters.authorId) &&
+        (!filters.type || (page as any).type === filters.type)
+    );
+};
+
+const fetchCandidates = async (filters: SearchFilters): Promise<Page[]> => {
+    if (!navigator.onLine) return getOfflineCandidates(filters);
     try {
         const pagesRef = collection(db, PAGES_COLLECTION);
 
@@ -67,7 +80,19 @@ export const searchPages = async (filters: SearchFilters): Promise<SearchResult>
         // Tags and text query are applied client-side to avoid index explosion.
 
         const querySnapshot = await getDocs(q);
-        let results = querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Page));
+        const pages = querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Page));
+        replicate(cachePages(pages));
+        return pages;
+    } catch (error) {
+        const pages = await getOfflineCandidates(filters).catch(() => []);
+        if (pages.length === 0) throw error;
+        return pages;
+    }
+};
+
+export const searchPages = async (filters: SearchFilters): Promise<SearchResult> => {
+    try {
+        let results = await fetchCandidates(filters);
 
         // --- Client Side Filtering ---
 
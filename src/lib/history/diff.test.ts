@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { alignBlocks, applyVersion, createSnapshot, diffBlocks, diffPageFields, diffText, reconstructVersion, revertVersion } from './diff';
+import { HistoryEntry, PageSnapshot } from '../../types/history';
+import { Block, Page } from '../../types/workspace';
+
+describe('Version history diffs', () => {
+    const block = (id: string, content: string, extra: Partial<Block> = {}): Block => ({ id, type: 'paragraph', content, ...extra });
+    const page = (title: string, blocks: Block[]): Page => ({ id: 'p', title, icon: '', blocks, createdAt: new Date(0), updatedAt: new Date(0) });
+
+    // A version as createVersion stores it: diffs always, a snapshot when asked
+    const version = (id: string, before: Page, after: Page, isSnapshot = false): HistoryEntry => {
+        const blocks = diffBlocks(before.blocks, after.blocks);
+        return {
+            id,
+            pageId: 'p',
+            authorId: 'u',
+            authorName: 'U',
+            createdAt: new Date(0),
+            diff: diffPageFields(before, after),
+            ...(blocks ? { blockChanges: blocks.changes, blockOrder: blocks.order } : {}),
+            ...(isSnapshot ? { snapshot: createSnapshot(after) } : {}),
+            isSnapshot,
+        };
+    };
+
+    it('should diff text by words', () => {
+        expect(diffText('The quick fox', 'The slow fox!')).toEqual([
+            { type: 'equal', text: 'The ' },
+            { type: 'delete', text: 'quick' },
+            { type: 'insert', text: 'slow' },
+            { type: 'equal', text: ' fox' },
+            { type: 'insert', text: '!' },
+        ]);
+    });
+
+    it('should classify added, removed, moved and edited blocks', () => {
+        const before = [block('a', 'One'), block('b', 'Two'), block('c', 'Three'), block('d', 'Four')];
+        const after = [
+            block('c', 'Three'),
+            block('a', 'One'),
+            block('b', '<p>Two <strong>more</strong></p>', { updatedAt: new Date() }),
+            block('e', 'Five'),
+        ];
+        const result = diffBlocks(before, after)!;
+        expect(result.order).toEqual({ before: ['a', 'b', 'c', 'd'], after: ['c', 'a', 'b', 'e'] });
+        expect(result.changes.map((change) => [change.type, change.blockId])).toEqual([
+            ['moved', 'c'],
+            ['edited', 'b'],
+            ['added', 'e'],
+            ['removed', 'd'],
+        ]);
+        expect(result.changes[1].textChanges).toEqual([
+            { type: 'equal', text: 'Two' },
+            { type: 'insert', text: ' more' },
+        ]);
+        // Timestamps alone aren't a change
+        expect(diffBlocks(before, before.map((b) => ({ ...b, updatedAt: new Date() })))).toBeNull();
+    });
+
+    it('should replay versions forwards from a snapshot and backwards from a later one', () => {
+        const v1 = page('Draft', [block('a', 'Hello')]);
+        const v2 = page('Draft', [block('a', 'Hello world'), block('b', 'Second')]);
+        const v3 = page('Final', [block('b', 'Second', { parentId: 'x' }), block('a', 'Hello world')]);
+        const v4 = page('Final', [block('a', 'Hello world')]);
+        const entries = [
+            version('1', page('', []), v1, true),
+            version('2', v1, v2),
+            version('3', v2, v3),
+            version('4', v3, v4, true),
+        ];
+        const state = (p: Page): PageSnapshot => createSnapshot(p);
+
+        expect(reconstructVersion(entries, '3')).toEqual(state(v3));
+        expect(applyVersion(state(v2), entries[2])).toEqual(state(v3));
+        expect(revertVersion(state(v3), entries[2])).toEqual(state(v2));
+
+        // Without the first snapshot, the later one is replayed backwards
+        const withoutFirst = entries.map((entry, index) => (index === 0 ? { ...entry, isSnapshot: false, snapshot: undefined } : entry));
+        expect(reconstructVersion(withoutFirst, '2')).toEqual(state(v2));
+        expect(() => reconstructVersion(entries, 'missing')).toThrow('Version not found');
+    });
+
+    it('should line up removed blocks after the block they followed', () => {
+        const rows = alignBlocks([block('a', 'A'), block('b', 'B'), block('c', 'C')], [block('a', 'A'), block('c', 'C!')]);
+        expect(rows.map((row) => [row.type, (row.after || row.before)!.id])).toEqual([
+            ['unchanged', 'a'],
+            ['removed', 'b'],
+            ['edited', 'c'],
+        ]);
+    });
+});
@@ -0,0 +1,318 @@
+import { Block, Page } from '../../types/workspace';
+import { BlockChange, BlockOrder, ChangeDiff, HistoryEntry, PageSnapshot, TextChange } from '../../types/history';
+import { getBlockContent, richTextToPlainText } from '../export/blocks';
+
+// Version history diffs
+// A version stores what changed since the one before it: page fields as
+// before/after pairs, and blocks as added / removed / moved / edited changes
+// with the block order on both sides. Every few versions also store a full
+// snapshot, and a version is rebuilt by replaying diffs from the nearest
+// snapshot (forwards from an earlier one, or backwards from a later one).
+
+// Fields that are bookkeeping rather than content, and not versioned
+const IGNORED_PAGE_FIELDS = ['id', 'blocks', 'createdAt', 'updatedAt'];
+const IGNORED_BLOCK_FIELDS = ['createdAt', 'updatedAt', 'createdBy', 'lastEditedBy', 'order', 'pageId'];
+
+// Above this many cells the LCS tables get too big; diffs fall back to coarser results
+const MAX_LCS_CELLS = 1_000_000;
+
+// Compare values as JSON with sorted keys, so the order fields were set in doesn't matter
+const sortKeys = (value: unknown): unknown =>
+  Array.isArray(value)
+    ? value.map(sortKeys)
+    : value && typeof value === 'object' && !(value instanceof Date)
+      ? Object.fromEntries(Object.keys(value).sort().map((key) => [key, sortKeys((value as Record<string, unknown>)[key])]))
+      : value;
+export const isEqual = (a: unknown, b: unknown) => JSON.stringify(sortKeys(a)) === JSON.stringify(sortKeys(b));
+
+const omit = <T extends object>(value: T, keys: string[]) =>
+  Object.fromEntries(Object.entries(value).filter(([key, field]) => !keys.includes(key) && field !== undefined));
+
+// ==========================================
+// SNAPSHOTS
+// ==========================================
+
+// Full state of a page for a snapshot: content fields and blocks.
+export const createSnapshot = (page: Partial<Page>): PageSnapshot => ({
+  page: omit(page, IGNORED_PAGE_FIELDS),
+  blocks: page.blocks || [],
+});
+
+// ==========================================
+// TEXT DIFF
+// ==========================================
+
+// Longest common subsequence of two lists, as index pairs
+const longestCommonSubsequence = <T>(a: T[], b: T[], equals: (x: T, y: T) => boolean): Array<[number, number]> => {
+  const table = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = equals(a[i], b[j]) ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  const pairs: Array<[number, number]> = [];
+  for (let i = 0, j = 0; i < a.length && j < b.length; ) {
+    if (equals(a[i], b[j])) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+};
+
+// Word-level diff of two texts. Whitespace and punctuation are their own tokens,
+// so changing one word doesn't mark the whole sentence.
+export const diffText = (before: string, after: string): TextChange[] => {
+  if (before === after) return before ? [{ type: 'equal', text: before }] : [];
+  const tokenize = (text: string) => text.match(/\s+|\w+|[^\s\w]/g) || [];
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  const changes: TextChange[] = [];
+  const push = (type: TextChange['type'], text: string) => {
+    if (!text) return;
+    const last = changes[changes.length - 1];
+    if (last?.type === type) last.text += text;
+    else changes.push({ type, text });
+  };
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    push('delete', before);
+    push('insert', after);
+    return changes;
+  }
+
+  let i = 0;
+  let j = 0;
+  for (const [nextA, nextB] of longestCommonSubsequence(a, b, (x, y) => x === y)) {
+    push('delete', a.slice(i, nextA).join(''));
+    push('insert', b.slice(j, nextB).join(''));
+    push('equal', a[nextA]);
+    i = nextA + 1;
+    j = nextB + 1;
+  }
+  push('delete', a.slice(i).join(''));
+  push('insert', b.slice(j).join(''));
+  return changes;
+};
+
+// ==========================================
+// PAGE AND BLOCK DIFFS
+// ==========================================
+
+// Page fields (other than blocks and timestamps) that differ between two versions.
+export const diffPageFields = (before: Partial<Page>, after: Partial<Page>): ChangeDiff => {
+  const diff: ChangeDiff = {};
+  new Set([...Object.keys(before), ...Object.keys(after)]).forEach((key) => {
+    if (IGNORED_PAGE_FIELDS.includes(key)) return;
+    const k = key as keyof Page;
+    if (!isEqual(before[k], after[k])) diff[key] = { before: before[k] ?? null, after: after[k] ?? null };
+  });
+  return diff;
+};
+
+// The text a block shows, for text diffs and previews.
+export const getBlockText = (block: Block): string => {
+  switch (block.type) {
+    case 'image':
+      return block.properties?.caption || block.properties?.url || '';
+    case 'equation':
+      return block.properties?.latex || getBlockContent(block);
+    case 'embed':
+      return block.properties?.url || getBlockContent(block);
+    case 'table':
+      return ((block.properties?.tableData?.rows as string[][] | undefined) || []).map((row) => row.join(' | ')).join('\n');
+    case 'code':
+    case 'code-enhanced':
+      return getBlockContent(block);
+    default:
+      return richTextToPlainText(getBlockContent(block));
+  }
+};
+
+// Block-level diff of two versions of a page's blocks, or null when they're the same.
+// Blocks keep their IDs across edits, so they're matched by ID; a block moved
+// when it's not part of the longest run of blocks that kept their relative order,
+// or when its parent changed.
+export const diffBlocks = (before: Block[], after: Block[]): { changes: BlockChange[]; order: BlockOrder } | null => {
+  const order: BlockOrder = { before: before.map((block) => block.id), after: after.map((block) => block.id) };
+  const beforeById = new Map(before.map((block, index) => [block.id, { block, index }]));
+  const afterIds = new Set(order.after);
+
+  // Blocks on both sides that kept their relative order
+  const shared = (ids: string[], other: Set<string> | Map<string, unknown>) => ids.filter((id) => other.has(id));
+  const sharedBefore = shared(order.before, afterIds);
+  const sharedAfter = shared(order.after, beforeById);
+  const inPlace =
+    sharedBefore.length * sharedAfter.length > MAX_LCS_CELLS
+      ? new Set(sharedAfter)
+      : new Set(longestCommonSubsequence(sharedBefore, sharedAfter, (x, y) => x === y).map(([i]) => sharedBefore[i]));
+
+  const changes: BlockChange[] = [];
+  after.forEach((block, toIndex) => {
+    const previous = beforeById.get(block.id);
+    if (!previous) {
+      changes.push({ type: 'added', blockId: block.id, after: block, toIndex });
+      return;
+    }
+    const moved = !inPlace.has(block.id) || previous.block.parentId !== block.parentId;
+    const oldFields = omit(previous.block, [...IGNORED_BLOCK_FIELDS, 'parentId']);
+    const newFields = omit(block, [...IGNORED_BLOCK_FIELDS, 'parentId']);
+    if (!isEqual(oldFields, newFields)) {
+      const fields = [...new Set([...Object.keys(oldFields), ...Object.keys(newFields)])].filter(
+        (key) => key !== 'content' && key !== 'text' && !isEqual(oldFields[key], newFields[key])
+      );
+      const oldText = getBlockText(previous.block);
+      const newText = getBlockText(block);
+      changes.push({
+        type: 'edited',
+        blockId: block.id,
+        before: previous.block,
+        after: block,
+        fromIndex: previous.index,
+        toIndex,
+        ...(moved ? { moved } : {}),
+        ...(oldText !== newText ? { textChanges: diffText(oldText, newText) } : {}),
+        ...(fields.length > 0 ? { fields } : {}),
+      });
+    } else if (moved) {
+      changes.push({ type: 'moved', blockId: block.id, before: previous.block, after: block, fromIndex: previous.index, toIndex });
+    }
+  });
+  before.forEach((block, fromIndex) => {
+    if (!afterIds.has(block.id)) changes.push({ type: 'removed', blockId: block.id, before: block, fromIndex });
+  });
+
+  if (changes.length === 0 && isEqual(order.before, order.after)) return null;
+  return { changes, order };
+};
+
+// ==========================================
+// REPLAY
+// ==========================================
+
+// Function to put a page's blocks in an order, keeping blocks the order doesn't know at the end
+const orderBlocks = (blocks: Map<string, Block>, ids: string[]): Block[] => {
+  const ordered = ids.map((id) => blocks.get(id)).filter((block): block is Block => !!block);
+  const listed = new Set(ids);
+  return [...ordered, ...[...blocks.values()].filter((block) => !listed.has(block.id))];
+};
+
+// Applies a version's changes to the state before it, giving the state after it.
+export const applyVersion = (state: PageSnapshot, entry: HistoryEntry): PageSnapshot => {
+  const page: Record<string, any> = { ...state.page };
+  let blocks = state.blocks;
+  Object.entries(entry.diff || {}).forEach(([key, change]) => {
+    // Versions from before block diffs stored the whole block list as a field
+    if (key === 'blocks') blocks = change.after || [];
+    else if (!IGNORED_PAGE_FIELDS.includes(key)) page[key] = change.after;
+  });
+  if (entry.blockChanges) {
+    const byId = new Map(blocks.map((block) => [block.id, block]));
+    entry.blockChanges.forEach((change) => {
+      if (change.type === 'removed') byId.delete(change.blockId);
+      else if (change.after) byId.set(change.blockId, change.after);
+    });
+    blocks = orderBlocks(byId, entry.blockOrder?.after || blocks.map((block) => block.id));
+  }
+  return { page, blocks };
+};
+
+// Undoes a version's changes on the state after it, giving the state before it.
+export const revertVersion = (state: PageSnapshot, entry: HistoryEntry): PageSnapshot => {
+  const page: Record<string, any> = { ...state.page };
+  let blocks = state.blocks;
+  Object.entries(entry.diff || {}).forEach(([key, change]) => {
+    if (key === 'blocks') blocks = change.before || [];
+    else if (!IGNORED_PAGE_FIELDS.includes(key)) page[key] = change.before;
+  });
+  if (entry.blockChanges) {
+    const byId = new Map(blocks.map((block) => [block.id, block]));
+    entry.blockChanges.forEach((change) => {
+      if (change.type === 'added') byId.delete(change.blockId);
+      else if (change.before) byId.set(change.blockId, change.before);
+    });
+    blocks = orderBlocks(byId, entry.blockOrder?.before || blocks.map((block) => block.id));
+  }
+  return { page, blocks };
+};
+
+// Rebuilds the page as it was right after a version.
+// `entries` are the page's versions, oldest first. The nearest snapshot at or
+// before the version is replayed forwards; without one, the nearest later
+// snapshot (or the current page) is replayed backwards.
+export const reconstructVersion = (entries: HistoryEntry[], versionId: string, current?: PageSnapshot): PageSnapshot => {
+  const target = entries.findIndex((entry) => entry.id === versionId);
+  if (target === -1) throw new Error('Version not found');
+
+  for (let start = target; start >= 0; start--) {
+    const snapshot = entries[start].isSnapshot ? entries[start].snapshot : undefined;
+    if (!snapshot) continue;
+    return entries.slice(start + 1, target + 1).reduce(applyVersion, snapshot);
+  }
+
+  const later = entries.findIndex((entry, index) => index > target && entry.isSnapshot && !!entry.snapshot);
+  const base = later !== -1 ? entries[later].snapshot! : current;
+  if (!base) throw new Error('No snapshot to rebuild this version from');
+  const end = later !== -1 ? later : entries.length - 1;
+  return entries
+    .slice(target + 1, end + 1)
+    .reverse()
+    .reduce(revertVersion, base);
+};
+
+// Fields that place a page rather than make up its content; restoring a version leaves them alone
+const STRUCTURAL_PAGE_FIELDS = ['workspaceId', 'parentId', 'isArchived', 'archivedAt', 'isPublic', 'views', 'lastActiveViewId', 'createdBy'];
+
+// The page updates that bring a page back to a version's state: the version's
+// content fields, and null for content fields the version didn't have yet
+export const getRestoreUpdates = (current: Partial<Page>, version: PageSnapshot): Partial<Page> => {
+  const ignored = [...IGNORED_PAGE_FIELDS, ...STRUCTURAL_PAGE_FIELDS];
+  const updates: Record<string, any> = omit(version.page, ignored);
+  Object.keys(omit(current, ignored)).forEach((key) => {
+    if (!(key in updates)) updates[key] = null;
+  });
+  return { ...updates, blocks: version.blocks };
+};
+
+// ==========================================
+// DISPLAY
+// ==========================================
+
+export interface BlockDiffRow {
+  type: 'unchanged' | BlockChange['type'];
+  before?: Block;
+  after?: Block;
+  change?: BlockChange;
+}
+
+// Lines up two versions of a page's blocks for display: the blocks of the newer
+// one in order, with removed blocks placed after the block they followed.
+export const alignBlocks = (before: Block[], after: Block[]): BlockDiffRow[] => {
+  const changes = new Map((diffBlocks(before, after)?.changes || []).map((change) => [change.blockId, change]));
+  const beforeById = new Map(before.map((block) => [block.id, block]));
+  const rows: BlockDiffRow[] = after.map((block) => {
+    const change = changes.get(block.id);
+    return change ? { type: change.type, before: change.before, after: block, change } : { type: 'unchanged', before: beforeById.get(block.id), after: block };
+  });
+
+  // Each removed block goes after the nearest block before it that's still there
+  let anchorRow = -1;
+  let inserted = 0;
+  before.forEach((block) => {
+    const change = changes.get(block.id);
+    if (change?.type === 'removed') {
+      rows.splice(anchorRow + 1 + inserted, 0, { type: 'removed', before: block, change });
+      inserted++;
+    } else {
+      anchorRow = rows.findIndex((row) => row.after?.id === block.id);
+      inserted = 0;
+    }
+  });
+  return rows;
+};
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+    applyBlockOperations,
+    createUndoState,
+    getGroupKey,
+    invertOperations,
+    recordCommand,
+    redoCommand,
+    undoCommand,
+    updateOperation,
+    GROUP_DELAY
+} from './undo';
+import { BlockOperation } from '../../types/history';
+import { Block } from '../../types/workspace';
+
+describe('Block undo/redo', () => {
+    const block = (id: string, text: string, extra: Partial<Block> = {}): Block => ({ id, type: 'paragraph', text, content: text, ...extra });
+    const ids = (blocks: Block[]) => blocks.map((b) => b.id);
+
+    it('should undo inserts, deletes, updates and moves', () => {
+        const blocks = [block('a', 'A'), block('b', 'B'), block('c', 'C')];
+        const operations: BlockOperation[] = [
+            { type: 'insert', block: block('d', 'D'), index: 1 },
+            { type: 'delete', block: blocks[2], index: 3 },
+            updateOperation(blocks[0], { type: 'heading1', checked: true }),
+            { type: 'move', blockId: 'a', fromIndex: 0, toIndex: 2 },
+        ];
+
+        const after = applyBlockOperations(blocks, operations);
+        expect(ids(after)).toEqual(['d', 'b', 'a']);
+        expect(after[2]).toEqual({ ...blocks[0], type: 'heading1', checked: true });
+
+        // The block didn't have `checked`, so undoing removes it rather than setting undefined
+        const undone = applyBlockOperations(after, invertOperations(operations));
+        expect(undone).toEqual(blocks);
+        expect('checked' in undone[0]).toBe(false);
+    });
+
+    it('should group typing in a block into one command', () => {
+        const original = block('a', '');
+        let state = createUndoState();
+        let current = original;
+        ['H', 'Hi', 'Hi!'].forEach((text, index) => {
+            const operation = updateOperation(current, { text, content: text });
+            state = recordCommand(state, [operation], { groupKey: getGroupKey(operation), now: index * 100 });
+            current = applyBlockOperations([current], [operation])[0];
+        });
+        expect(state.undo).toHaveLength(1);
+
+        // A pause starts a new command, and so does a change other than text
+        const pause = updateOperation(current, { text: 'Hi!!' });
+        state = recordCommand(state, [pause], { groupKey: getGroupKey(pause), now: 200 + GROUP_DELAY });
+        const type = updateOperation(current, { type: 'quote' });
+        expect(getGroupKey(type)).toBeUndefined();
+        state = recordCommand(state, [type], { now: 200 + GROUP_DELAY });
+        expect(state.undo).toHaveLength(3);
+
+        const first = undoCommand({ undo: state.undo.slice(0, 1), redo: [] })!;
+        expect(applyBlockOperations([current], first.operations)[0]).toEqual(original);
+    });
+
+    it('should move commands between the undo and redo stacks', () => {
+        const insert: BlockOperation = { type: 'insert', block: block('a', 'A'), index: 0 };
+        let state = recordCommand(createUndoState(), [insert], { now: 0 });
+        let blocks = applyBlockOperations([], [insert]);
+
+        const undo = undoCommand(state)!;
+        blocks = applyBlockOperations(blocks, undo.operations);
+        state = undo.state;
+        expect(blocks).toEqual([]);
+        expect(undoCommand(state)).toBeNull();
+
+        const redo = redoCommand(state)!;
+        blocks = applyBlockOperations(blocks, redo.operations);
+        expect(ids(blocks)).toEqual(['a']);
+
+        // A new command after an undo drops what could be redone
+        state = recordCommand(undo.state, [{ type: 'delete', block: insert.block, index: 0 }], { now: 1 });
+        expect(redoCommand(state)).toBeNull();
+    });
+});
@@ -0,0 +1,161 @@
+import { Block } from '../../types/workspace';
+import { BlockOperation } from '../../types/history';
+
+// Block-level undo/redo
+// Every block mutation in the editor is recorded as operations that can be
+// inverted; a command is the operations of one user action. Undoing a command
+// applies the inverse of its operations, last first. Typing in a block is
+// grouped into one command, so undo doesn't go back a keystroke at a time.
+
+// Edits to a block's text less than this far apart are one command
+export const GROUP_DELAY = 1000;
+// Commands kept per page; older ones can't be undone
+export const MAX_UNDO_DEPTH = 100;
+
+// Fields typing changes; only edits to these are grouped
+const TEXT_FIELDS = ['text', 'content'];
+
+export interface UndoCommand {
+  operations: BlockOperation[];
+  groupKey?: string; // Commands with the same key recorded in quick succession are merged
+  time: number;
+}
+
+export interface UndoState {
+  undo: UndoCommand[];
+  redo: UndoCommand[];
+}
+
+export const createUndoState = (): UndoState => ({ undo: [], redo: [] });
+
+// ==========================================
+// OPERATIONS
+// ==========================================
+
+// The update operation for changing a block's fields, with the values it had before
+export const updateOperation = (block: Block, updates: Partial<Block>): BlockOperation => ({
+  type: 'update',
+  blockId: block.id,
+  before: Object.fromEntries(Object.keys(updates).map((key) => [key, block[key as keyof Block]])),
+  after: updates,
+});
+
+// Group key for an update: typing in a block groups, other changes don't
+export const getGroupKey = (operation: BlockOperation): string | undefined =>
+  operation.type === 'update' && Object.keys(operation.after).every((key) => TEXT_FIELDS.includes(key))
+    ? `${operation.blockId}:text`
+    : undefined;
+
+export const invertOperation = (operation: BlockOperation): BlockOperation => {
+  switch (operation.type) {
+    case 'insert':
+      return { type: 'delete', block: operation.block, index: operation.index };
+    case 'delete':
+      return { type: 'insert', block: operation.block, index: operation.index };
+    case 'update':
+      return { type: 'update', blockId: operation.blockId, before: operation.after, after: operation.before };
+    case 'move':
+      return { type: 'move', blockId: operation.blockId, fromIndex: operation.toIndex, toIndex: operation.fromIndex };
+  }
+};
+
+// The operations that undo a list of operations: each one inverted, last first
+export const invertOperations = (operations: BlockOperation[]): BlockOperation[] =>
+  operations.map(invertOperation).reverse();
+
+const operationBlockId = (operation: BlockOperation) =>
+  operation.type === 'insert' || operation.type === 'delete' ? operation.block.id : operation.blockId;
+
+// Sets fields on a block; undefined fields are removed, as the block didn't have them
+const setFields = (block: Block, fields: Partial<Block>): Block => {
+  const next: Record<string, unknown> = { ...block, ...fields };
+  Object.keys(fields).forEach((key) => {
+    if (fields[key as keyof Block] === undefined) delete next[key];
+  });
+  return next as unknown as Block;
+};
+
+// Applies operations to a page's blocks. Blocks are found by ID, so operations
+// still land after other changes; positions past the end go at the end.
+export const applyBlockOperations = (blocks: Block[], operations: BlockOperation[]): Block[] =>
+  operations.reduce((result, operation) => {
+    const index = result.findIndex((block) => block.id === operationBlockId(operation));
+    const next = [...result];
+    switch (operation.type) {
+      case 'insert':
+        if (index === -1) next.splice(Math.min(operation.index, next.length), 0, operation.block);
+        return next;
+      case 'delete':
+        if (index !== -1) next.splice(index, 1);
+        return next;
+      case 'update':
+        if (index !== -1) next[index] = setFields(next[index], operation.after);
+        return next;
+      case 'move':
+        if (index !== -1) next.splice(Math.min(operation.toIndex, next.length - 1), 0, ...next.splice(index, 1));
+        return next;
+    }
+  }, blocks);
+
+// Folds consecutive updates of the same block into one
+const mergeOperations = (operations: BlockOperation[], next: BlockOperation[]): BlockOperation[] =>
+  next.reduce((result, operation) => {
+    const last = result[result.length - 1];
+    if (last?.type === 'update' && operation.type === 'update' && last.blockId === operation.blockId) {
+      return [
+        ...result.slice(0, -1),
+        {
+          type: 'update',
+          blockId: last.blockId,
+          before: { ...operation.before, ...last.before },
+          after: { ...last.after, ...operation.after },
+        },
+      ];
+    }
+    return [...result, operation];
+  }, operations);
+
+// ==========================================
+// STACK
+// ==========================================
+
+// Records a command, clearing what could be redone. A command with the same
+// group key as the last one, soon after it, is merged into it.
+export const recordCommand = (
+  state: UndoState,
+  operations: BlockOperation[],
+  options: { groupKey?: string; now?: number } = {}
+): UndoState => {
+  if (operations.length === 0) return state;
+  const now = options.now ?? Date.now();
+  const last = state.undo[state.undo.length - 1];
+  if (options.groupKey && last?.groupKey === options.groupKey && now - last.time < GROUP_DELAY) {
+    const merged = { ...last, operations: mergeOperations(last.operations, operations), time: now };
+    return { undo: [...state.undo.slice(0, -1), merged], redo: [] };
+  }
+  const command: UndoCommand = { operations, groupKey: options.groupKey, time: now };
+  return { undo: [...state.undo, command].slice(-MAX_UNDO_DEPTH), redo: [] };
+};
+
+// Commands that moved between the stacks don't group with later edits
+const ungrouped = (command: UndoCommand): UndoCommand => ({ ...command, groupKey: undefined });
+
+// Takes the last command off the undo stack, with the operations that undo it
+export const undoCommand = (state: UndoState): { state: UndoState; operations: BlockOperation[] } | null => {
+  const command = state.undo[state.undo.length - 1];
+  if (!command) return null;
+  return {
+    state: { undo: state.undo.slice(0, -1), redo: [...state.redo, ungrouped(command)] },
+    operations: invertOperations(command.operations),
+  };
+};
+
+// Takes the last undone command back, with the operations that redo it
+export const redoCommand = (state: UndoState): { state: UndoState; operations: BlockOperation[] } | null => {
+  const command = state.redo[state.redo.length - 1];
+  if (!command) return null;
+  return {
+    state: { undo: [...state.undo, ungrouped(command)], redo: state.redo.slice(0, -1) },
+    operations: command.operations,
+  };
+};
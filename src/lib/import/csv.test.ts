@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { buildCsvImport, guessColumnTargets, guessColumnType, parseCsv } from './csv';
+import { getCsvContent } from '../export/csv';
+import { DatabaseProperty } from '../../types/database';
+import { ViewDefinition } from '../../types/view';
+import { makePage } from '../../test/fixtures';
+
+describe('CSV import and export', () => {
+    const schema: Record<string, DatabaseProperty> = {
+        Status: { type: 'select', name: 'Status', options: [{ id: 'a', name: 'Done', color: 'green' }] },
+        Hours: { type: 'number', name: 'Hours', format: 'number' },
+        Due: { type: 'date', name: 'Due' },
+        Double: { type: 'formula', name: 'Double', expression: "prop('Hours') * 2", returnType: 'number' },
+        Notes: { type: 'text', name: 'Notes' },
+    };
+
+    const pages = [
+        makePage('1', { Status: 'Done', Hours: 3, Due: { start: '2024-03-04', end: '2024-03-06' }, Notes: 'x' }, { title: 'Write, "draft"' }),
+        makePage('2', { Status: 'Todo', Hours: 1.5, Due: null, Notes: 'hidden' }, { title: 'Review' }),
+        makePage('3', { Status: 'Done', Hours: 10 }, { title: 'Skip me' }),
+    ];
+
+    it('should export the rows and columns a view shows, with computed values', () => {
+        const view: ViewDefinition = {
+            id: 'v',
+            name: 'Short',
+            type: 'table',
+            properties: ['Status', 'Hours', 'Due', 'Double'],
+            filter: { property: 'Hours', operator: 'less_than', value: 5 },
+            sort: { property: 'Hours', direction: 'asc' },
+        };
+        expect(getCsvContent(pages, view, { schema }).split('\r\n')).toEqual([
+            'Name,Status,Hours,Due,Double',
+            'Review,Todo,1.5,,3',
+            '"Write, ""draft""",Done,3,2024-03-04 → 2024-03-06,6',
+        ]);
+    });
+
+    it('should read an exported view back into typed values', () => {
+        const view: ViewDefinition = { id: 'v', name: 'All', type: 'table', properties: ['Status', 'Hours', 'Due'] };
+        const [header, ...records] = parseCsv(getCsvContent(pages, view, { schema }));
+
+        const targets = guessColumnTargets(header, records, schema);
+        expect(targets).toEqual([
+            { kind: 'title' },
+            { kind: 'existing', key: 'Status' },
+            { kind: 'existing', key: 'Hours' },
+            { kind: 'existing', key: 'Due' },
+        ]);
+
+        const plan = buildCsvImport(records, targets, schema);
+        expect(plan.errors).toEqual([]);
+        // "Todo" wasn't an option yet
+        expect((plan.properties.Status as any).options.map((o: any) => o.name)).toEqual(['Done', 'Todo']);
+        expect(plan.rows).toEqual([
+            { title: 'Write, "draft"', propertyValues: { Status: 'Done', Hours: 3, Due: { start: '2024-03-04', end: '2024-03-06' } } },
+            { title: 'Review', propertyValues: { Status: 'Todo', Hours: 1.5, Due: null } },
+            { title: 'Skip me', propertyValues: { Status: 'Done', Hours: 10, Due: null } },
+        ]);
+    });
+
+    it('should keep cells from running as spreadsheet formulas', () => {
+        const view: ViewDefinition = { id: 'v', name: 'Notes', type: 'table', properties: ['Hours', 'Notes'] };
+        const risky = [
+            makePage('1', { Hours: -2, Notes: '+A1' }, { title: '=HYPERLINK("http://evil.example","x")' }),
+            makePage('2', { Hours: 1, Notes: '-x' }, { title: '@SUM(A1)' }),
+            makePage('3', { Hours: 2, Notes: '\r=1' }, { title: '\tcmd' }),
+        ];
+        const csv = getCsvContent(risky, view, { schema });
+        expect(csv.split('\r\n').slice(0, 3)).toEqual([
+            'Name,Hours,Notes',
+            '"\'=HYPERLINK(""http://evil.example"",""x"")",-2,"\'+A1"',
+            '"\'@SUM(A1)",1,"\'-x"',
+        ]);
+        expect(csv).toContain('"\'\tcmd",2,"\'\r=1"');
+
+        // The guard comes off again on import
+        const [, ...records] = parseCsv(csv);
+        expect(records.map((record) => record[0])).toEqual(['=HYPERLINK("http://evil.example","x")', '@SUM(A1)', '\tcmd']);
+        expect(records[0][2]).toBe('+A1');
+    });
+
+    it('should read back multi-select options that contain commas', () => {
+        const tagSchema: Record<string, DatabaseProperty> = {
+            Tags: {
+                type: 'multi_select',
+                name: 'Tags',
+                options: [
+                    { id: 'a', name: 'Red, green', color: 'red' },
+                    { id: 'b', name: 'Say "hi"', color: 'blue' },
+                    { id: 'c', name: 'Plain', color: 'gray' },
+                ],
+            },
+        };
+        const view: ViewDefinition = { id: 'v', name: 'Tags', type: 'table', properties: ['Tags'] };
+        const tagged = [makePage('1', { Tags: ['Red, green', 'Say "hi"', 'Plain'] }, { title: 'One' })];
+
+        const [header, ...records] = parseCsv(getCsvContent(tagged, view, { schema: tagSchema }));
+        expect(records[0][1]).toBe('"Red, green", "Say ""hi""", Plain');
+
+        const plan = buildCsvImport(records, guessColumnTargets(header, records, tagSchema), tagSchema);
+        expect(plan.errors).toEqual([]);
+        expect(plan.rows[0].propertyValues.Tags).toEqual(['Red, green', 'Say "hi"', 'Plain']);
+    });
+
+    it('should guess column types and report cells that do not fit', () => {
+        expect(guessColumnType(['Yes', 'No', ''])).toEqual({ type: 'checkbox' });
+        expect(guessColumnType(['$1,200', '$30'])).toEqual({ type: 'number', format: 'dollar' });
+        expect(guessColumnType(['March 4, 2024 2:30 PM', '2024-03-05'])).toEqual({ type: 'date', includeTime: true });
+        expect(guessColumnType(['a, b', 'b', 'a'])).toEqual({ type: 'multi_select', options: ['a', 'b'] });
+        expect(guessColumnType(['One sentence', 'Another one'])).toEqual({ type: 'text' });
+
+        const plan = buildCsvImport([['A', '12'], ['B', 'twelve']], [{ kind: 'title' }, { kind: 'new', name: 'Hours', type: 'number' }], schema);
+        // The name is taken, so the new property gets another one
+        expect(Object.keys(plan.properties)).toEqual(['Hours 2']);
+        expect(plan.rows[1]).toEqual({ title: 'B', propertyValues: {} });
+        expect(plan.errors).toEqual([{ row: 1, column: 1, message: '"twelve" is not a number' }]);
+    });
+});
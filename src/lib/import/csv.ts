@@ -0,0 +1,403 @@
+import { isValid, parse, parseISO } from "date-fns";
+import { DatabaseProperty, DatePropertyValue, NumberFormat, ValueProperty, ValuePropertyType } from "../../types/database";
+import { WorkspaceMember } from "../../types/permission";
+import { createPropertyDefinition, createSelectOption, hasOptions, isValueProperty, serializeDate } from "../database/properties";
+
+// CSV reading for database imports: splitting the file into cells, guessing a
+// property type for each column, and turning cell text into typed property values.
+// Dates, numbers and checkboxes are read in the formats Notion and spreadsheets
+// write them, including the "start → end" ranges our own exports use.
+
+// What a column looks like, before it becomes a property
+export interface CsvColumnGuess {
+  type: ValuePropertyType;
+  options?: string[]; // Select and multi-select option names, in first-seen order
+  includeTime?: boolean; // Date columns with a time of day
+  format?: NumberFormat; // Number columns written with a currency sign, percent or thousands separators
+}
+
+const DATE_FORMATS = [
+  "MMMM d, yyyy h:mm a",
+  "MMMM d, yyyy",
+  "MMM d, yyyy h:mm a",
+  "MMM d, yyyy",
+  "yyyy/MM/dd",
+  "M/d/yyyy h:mm a",
+  "M/d/yyyy H:mm",
+  "M/d/yyyy",
+  "d.M.yyyy",
+];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const NUMBER = /^[-+]?[$€£¥₹]?\s?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?%?$/;
+const CURRENCY_FORMATS: Record<string, NumberFormat> = { $: "dollar", "€": "euro", "£": "pound", "¥": "yen", "₹": "rupee" };
+const URL = /^(https?:\/\/|mailto:)\S+$/i;
+const TRUE_VALUES = ["yes", "true", "checked", "✓", "x", "1"];
+const FALSE_VALUES = ["no", "false", "unchecked", "0"];
+const RANGE_SEPARATOR = /\s+(?:→|->|–)\s+/;
+const LIST_SEPARATOR = /\s*,\s*/;
+// The ' our exports put before cells that would start a formula
+const FORMULA_GUARD = /^'(?=[=+\-@\t\r])/;
+
+// Longest option name before a column is treated as free text
+const MAX_OPTION_LENGTH = 40;
+
+// ==========================================
+// PARSING
+// ==========================================
+
+// The delimiter used in the header line: comma, semicolon or tab
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.indexOf("\n") === -1 ? undefined : text.indexOf("\n")).replace(/"[^"]*"/g, "");
+  const counts = [",", ";", "\t"].map((delimiter) => ({ delimiter, count: firstLine.split(delimiter).length - 1 }));
+  return counts.reduce((best, current) => (current.count > best.count ? current : best)).delimiter;
+}
+
+// Split CSV text into rows of cells
+// Quoted cells may contain delimiters, doubled quotes and line breaks
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^﻿/, "");
+  const delimiter = detectDelimiter(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell.replace(FORMULA_GUARD, ""));
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell.replace(FORMULA_GUARD, ""));
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell.replace(FORMULA_GUARD, ""));
+    rows.push(row);
+  }
+
+  // Blank lines aren't rows
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ""));
+}
+
+// ==========================================
+// VALUES
+// ==========================================
+
+// Read a date, and whether it has a time of day
+export function parseCsvDate(text: string): { date: Date; hasTime: boolean } | null {
+  const value = text.trim();
+  if (!value) return null;
+  if (ISO_DATE.test(value)) {
+    const date = parseISO(value);
+    return isValid(date) ? { date, hasTime: value.length > 10 } : null;
+  }
+  for (const pattern of DATE_FORMATS) {
+    const date = parse(value, pattern, new Date(2000, 0, 1));
+    if (isValid(date)) return { date, hasTime: /[hH]/.test(pattern) };
+  }
+  return null;
+}
+
+// Read a date or a "start → end" range
+function parseCsvDateRange(text: string): { start: Date; end?: Date; hasTime: boolean } | null {
+  const [startText, endText, ...rest] = text.split(RANGE_SEPARATOR);
+  if (rest.length > 0) return null;
+  const start = parseCsvDate(startText);
+  const end = endText !== undefined ? parseCsvDate(endText) : null;
+  if (!start || (endText !== undefined && !end)) return null;
+  return { start: start.date, end: end?.date, hasTime: start.hasTime || !!end?.hasTime };
+}
+
+// Read a number, ignoring currency signs and thousands separators
+// Percentages are stored as fractions, the way percent-formatted numbers are shown
+export function parseCsvNumber(text: string): number | null {
+  const value = text.trim();
+  if (!value || !NUMBER.test(value) || !/\d/.test(value)) return null;
+  const number = Number(value.replace(/[$€£¥₹,%\s]/g, ""));
+  if (isNaN(number)) return null;
+  return value.endsWith("%") ? number / 100 : number;
+}
+
+// Split a cell holding several values at its commas
+// Values may be quoted to contain commas, with quotes inside doubled
+function splitList(text: string): string[] {
+  const items: string[] = [];
+  let item = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        item += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        item += char;
+      }
+    } else if (char === '"' && item.trim() === "") {
+      quoted = true;
+      item = "";
+    } else if (char === ",") {
+      items.push(item.trim());
+      item = "";
+    } else {
+      item += char;
+    }
+  }
+  items.push(item.trim());
+  return items.filter(Boolean);
+}
+
+// ==========================================
+// COLUMN TYPES
+// ==========================================
+
+// Guess the property type of a column from its cells
+// Every non-empty cell has to fit the type; select columns need values that repeat
+export function guessColumnType(values: string[]): CsvColumnGuess {
+  const filled = values.map((value) => value.trim()).filter(Boolean);
+  if (filled.length === 0) return { type: "text" };
+
+  const lower = filled.map((value) => value.toLowerCase());
+  if (lower.every((value) => TRUE_VALUES.includes(value) || FALSE_VALUES.includes(value)) && lower.some((value) => isNaN(Number(value)))) {
+    return { type: "checkbox" };
+  }
+
+  if (filled.every((value) => parseCsvNumber(value) !== null)) {
+    const currency = filled.map((value) => /[$€£¥₹]/.exec(value)?.[0]).find(Boolean);
+    if (currency) return { type: "number", format: CURRENCY_FORMATS[currency] };
+    if (filled.every((value) => value.endsWith("%"))) return { type: "number", format: "percent" };
+    if (filled.some((value) => value.includes(","))) return { type: "number", format: "number_with_commas" };
+    return { type: "number", format: "number" };
+  }
+
+  const dates = filled.map(parseCsvDateRange);
+  if (dates.every(Boolean)) return { type: "date", includeTime: dates.some((date) => date!.hasTime) };
+
+  if (filled.every((value) => URL.test(value))) return { type: "url" };
+
+  // Options: short values that repeat; a comma-separated cell means several options
+  const isList = filled.some((value) => LIST_SEPARATOR.test(value));
+  const items = isList ? filled.flatMap(splitList) : filled;
+  const options = Array.from(new Set(items));
+  const repeats = options.length < items.length && options.length <= Math.max(10, items.length / 2);
+  if (repeats && options.every((option) => option.length <= MAX_OPTION_LENGTH)) {
+    return { type: isList ? "multi_select" : "select", options };
+  }
+  return { type: "text" };
+}
+
+// Build a property for a column, with options for every value found in it
+export function createPropertyFromColumn(name: string, values: string[], type?: ValuePropertyType): ValueProperty {
+  const guess = guessColumnType(values);
+  const chosen = type || guess.type;
+  const property = createPropertyDefinition(chosen, name) as ValueProperty;
+
+  if (property.type === "select" || property.type === "multi_select") {
+    const names = chosen === guess.type && guess.options
+      ? guess.options
+      : Array.from(new Set(values.flatMap((value) => (property.type === "multi_select" ? splitList(value) : [value.trim()])).filter(Boolean)));
+    names.forEach((option) => property.options.push(createSelectOption(option, property.options)));
+  }
+  if (property.type === "status") {
+    // Values that aren't one of the default statuses become extra to-do options
+    const names = Array.from(new Set(values.map((value) => value.trim()).filter(Boolean)));
+    names
+      .filter((option) => !property.options.some((existing) => existing.name.toLowerCase() === option.toLowerCase()))
+      .forEach((option) => property.options.push({ ...createSelectOption(option, property.options), group: "todo" }));
+  }
+  if (property.type === "number" && chosen === guess.type && guess.format) property.format = guess.format;
+  if (property.type === "date" && chosen === guess.type) property.includeTime = !!guess.includeTime;
+  return property;
+}
+
+// Convert a cell to the value stored for a property
+// Empty cells are null ([] for multi-select); cells that don't fit get an error
+// People are matched by name or email against the workspace members
+export function convertCsvValue(
+  text: string,
+  property: DatabaseProperty,
+  members: WorkspaceMember[] = []
+): { value: any; error: string | null } {
+  const value = text.trim();
+  const empty = property.type === "multi_select" || property.type === "person" ? [] : property.type === "checkbox" ? false : null;
+  if (!value) return { value: empty, error: null };
+
+  switch (property.type) {
+    case "checkbox": {
+      const lower = value.toLowerCase();
+      if (TRUE_VALUES.includes(lower)) return { value: true, error: null };
+      if (FALSE_VALUES.includes(lower)) return { value: false, error: null };
+      return { value: null, error: `"${value}" is not a checkbox value` };
+    }
+    case "number": {
+      const number = parseCsvNumber(value);
+      return number === null ? { value: null, error: `"${value}" is not a number` } : { value: number, error: null };
+    }
+    case "date": {
+      const range = parseCsvDateRange(value);
+      if (!range) return { value: null, error: `"${value}" is not a date` };
+      const date: DatePropertyValue = { start: serializeDate(range.start, property.includeTime) };
+      if (range.end) date.end = serializeDate(range.end, property.includeTime);
+      return { value: date, error: null };
+    }
+    case "select":
+    case "status": {
+      const option = property.options.find((existing) => existing.name.toLowerCase() === value.toLowerCase());
+      return option ? { value: option.name, error: null } : { value: null, error: `"${value}" is not an option` };
+    }
+    case "multi_select": {
+      const names = splitList(value);
+      const missing = names.find((name) => !property.options.some((existing) => existing.name.toLowerCase() === name.toLowerCase()));
+      if (missing) return { value: [], error: `"${missing}" is not an option` };
+      return {
+        value: names.map((name) => property.options.find((existing) => existing.name.toLowerCase() === name.toLowerCase())!.name),
+        error: null,
+      };
+    }
+    case "url":
+      return URL.test(value) ? { value, error: null } : { value: null, error: `"${value}" is not a link` };
+    case "person": {
+      const userIds: string[] = [];
+      for (const name of splitList(value)) {
+        const member = members.find(
+          (m) => m.userId === name || m.email.toLowerCase() === name.toLowerCase() || m.displayName?.toLowerCase() === name.toLowerCase()
+        );
+        if (!member) return { value: [], error: `"${name}" is not a workspace member` };
+        userIds.push(member.userId);
+      }
+      return { value: userIds, error: null };
+    }
+    case "text":
+      return { value, error: null };
+    default:
+      // Relations, rollups and formulas aren't read from cells
+      return { value: null, error: null };
+  }
+}
+
+// ==========================================
+// IMPORT MAPPING
+// ==========================================
+
+// Where a column goes: the page title, an existing property, a new property, or nowhere
+export type CsvColumnTarget =
+  | { kind: "skip" }
+  | { kind: "title" }
+  | { kind: "existing"; key: string }
+  | { kind: "new"; name: string; type: ValuePropertyType };
+
+// A cell that doesn't fit its property; row is the index among the records (after the header)
+export interface CsvImportError {
+  row: number;
+  column: number;
+  message: string;
+}
+
+// Everything needed to create the pages of an import
+export interface CsvImportPlan {
+  properties: Record<string, DatabaseProperty>; // New properties, and existing ones that gained options
+  rows: Array<{ title: string; propertyValues: Record<string, any> }>;
+  errors: CsvImportError[];
+}
+
+const TITLE_COLUMNS = ["name", "title"];
+
+const columnValues = (records: string[][], index: number) => records.map((record) => record[index] || "");
+
+// A property key that isn't taken yet: "Status", then "Status 2", …
+const uniqueKey = (name: string, taken: Record<string, unknown>) => {
+  let key = name;
+  for (let n = 2; taken[key]; n++) key = `${name} ${n}`;
+  return key;
+};
+
+// First guess at where each column goes: a "Name" or "Title" column (or else the
+// first column) is the title, columns named like an existing property fill it,
+// and the rest become new properties of the guessed type
+export function guessColumnTargets(
+  header: string[],
+  records: string[][],
+  schema: Record<string, DatabaseProperty>
+): CsvColumnTarget[] {
+  const titleIndex = Math.max(0, header.findIndex((name) => TITLE_COLUMNS.includes(name.trim().toLowerCase())));
+  return header.map((name, index): CsvColumnTarget => {
+    if (index === titleIndex) return { kind: "title" };
+    const column = name.trim().toLowerCase();
+    const key = Object.keys(schema).find(
+      (k) => isValueProperty(schema[k]) && (k.toLowerCase() === column || schema[k].name?.toLowerCase() === column)
+    );
+    if (key) return { kind: "existing", key };
+    return { kind: "new", name: name.trim() || `Column ${index + 1}`, type: guessColumnType(columnValues(records, index)).type };
+  });
+}
+
+// Turn the records into page titles and typed values for the chosen targets
+// Values missing from an existing select are added to its options rather than failing
+export function buildCsvImport(
+  records: string[][],
+  targets: CsvColumnTarget[],
+  schema: Record<string, DatabaseProperty>,
+  members: WorkspaceMember[] = []
+): CsvImportPlan {
+  const properties: Record<string, DatabaseProperty> = {};
+  const columns: Array<{ index: number; key: string; property: DatabaseProperty }> = [];
+
+  targets.forEach((target, index) => {
+    const values = columnValues(records, index);
+    if (target.kind === "new") {
+      const key = uniqueKey(target.name, { ...schema, ...properties });
+      properties[key] = createPropertyFromColumn(key, values, target.type);
+      columns.push({ index, key, property: properties[key] });
+    } else if (target.kind === "existing" && schema[target.key]) {
+      let property = schema[target.key];
+      if (hasOptions(property)) {
+        const names = property.type === "multi_select" ? values.flatMap(splitList) : values.map((value) => value.trim()).filter(Boolean);
+        const options = [...property.options];
+        names.forEach((name) => {
+          if (options.some((option) => option.name.toLowerCase() === name.toLowerCase())) return;
+          const option = createSelectOption(name, options);
+          options.push(property.type === "status" ? { ...option, group: "todo" } : option);
+        });
+        if (options.length > property.options.length) {
+          property = { ...property, options } as DatabaseProperty;
+          properties[target.key] = property;
+        }
+      }
+      columns.push({ index, key: target.key, property });
+    }
+  });
+
+  const titleIndex = targets.findIndex((target) => target.kind === "title");
+  const errors: CsvImportError[] = [];
+  const rows = records.map((record, row) => {
+    const propertyValues: Record<string, any> = {};
+    columns.forEach(({ index, key, property }) => {
+      const { value, error } = convertCsvValue(record[index] || "", property, members);
+      if (error) errors.push({ row, column: index, message: error });
+      else propertyValues[key] = value;
+    });
+    return { title: (titleIndex >= 0 ? record[titleIndex] : "")?.trim() || "Untitled", propertyValues };
+  });
+
+  return { properties, rows, errors };
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { strFromU8, unzipSync } from 'fflate';
+import { buildDocx } from '../export/docx';
+import { importDocx } from './docx';
+import { Block, Page } from '../../types/workspace';
+
+describe('DOCX export and import', () => {
+    // PNG signature and header of a 2x1 image
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52, 0, 0, 0, 2, 0, 0, 0, 1, 8, 6, 0, 0, 0]);
+
+    const blocks: Block[] = [
+        { id: 'h', type: 'heading1', content: 'Overview' },
+        { id: 'p', type: 'paragraph', content: '<p>Some <strong>bold</strong> and <a href="https://example.com">a link</a></p>' },
+        { id: 'b1', type: 'bulleted-list', content: 'Apples' },
+        { id: 'b2', type: 'bulleted-list', content: 'Pears', parentId: 'b1' },
+        { id: 'n1', type: 'numbered-list', content: 'One' },
+        { id: 'n2', type: 'numbered-list', content: 'Two' },
+        { id: 'c1', type: 'checkbox', content: 'Done', checked: true },
+        { id: 'c2', type: 'checkbox', content: 'Todo', checked: false },
+        { id: 'q', type: 'quote', content: 'Quoted' },
+        { id: 'co', type: 'callout', content: 'Careful' },
+        { id: 'code', type: 'code', content: 'if (a < b) {\n\treturn;\n}' },
+        { id: 't', type: 'toggle', content: 'Details' },
+        { id: 'tc', type: 'paragraph', content: 'Inside', parentId: 't' },
+        { id: 'tb', type: 'table', properties: { tableData: { rows: [['Name', 'Qty'], ['Tea', '2']] } } },
+        { id: 'd', type: 'divider' },
+        { id: 'img', type: 'image', properties: { url: 'https://cdn.example.com/chart.png', caption: 'Chart' } },
+    ];
+    const page: Page = {
+        id: 'page',
+        title: 'Report',
+        icon: '',
+        blocks,
+        createdAt: new Date('2024-03-04T10:00:00.000Z'),
+        updatedAt: new Date('2024-03-05T10:00:00.000Z'),
+    };
+    const fetchImage = async () => ({ data: png, contentType: 'image/png' });
+
+    it('should write native Word structures', async () => {
+        const files = unzipSync(await buildDocx(page, { fetchImage }));
+        const document = strFromU8(files['word/document.xml']);
+        expect(document).toContain('<w:pStyle w:val="Heading1"/>');
+        expect(document).toContain('<w:numPr><w:ilvl w:val="1"/><w:numId w:val="1"/></w:numPr>');
+        expect(document).toContain('<w14:checked w14:val="1"/>');
+        expect(document).toContain('<w:tblHeader/>');
+        expect(document).toContain('if (a &lt; b) {</w:t><w:br/><w:tab/>');
+        expect(document).toContain('<wp:extent cx="19050" cy="9525"/>');
+        expect(files['word/media/image1.png']).toEqual(png);
+        expect(strFromU8(files['word/_rels/document.xml.rels'])).toContain('Target="https://example.com" TargetMode="External"');
+    });
+
+    it('should read an exported document back into the same blocks', async () => {
+        let id = 0;
+        const uploads: string[] = [];
+        const imported = await importDocx(await buildDocx(page, { fetchImage }), {
+            createId: () => `id${++id}`,
+            uploadImage: async (file) => {
+                uploads.push(`${file.name}:${file.type}`);
+                return 'https://storage.example.com/chart.png';
+            },
+        });
+
+        expect(imported.title).toBe('Report');
+        expect(imported.createdAt).toEqual(page.createdAt);
+        expect(uploads).toEqual(['image1.png:image/png']);
+
+        const byContent = (content: string) => imported.blocks.find((block) => block.content === content)!;
+        expect(imported.blocks.map((block) => block.type)).toEqual(blocks.map((block) => (block.type === 'code' ? 'code' : block.type)));
+        expect(byContent('Some **bold** and [a link](https://example.com)').type).toBe('paragraph');
+        expect(byContent('Pears').parentId).toBe(byContent('Apples').id);
+        expect(byContent('Inside').parentId).toBe(byContent('Details').id);
+        expect(byContent('Details').type).toBe('toggle');
+        expect(byContent('Done').checked).toBe(true);
+        expect(byContent('Todo').checked).toBe(false);
+        expect(byContent('if (a < b) {\n\treturn;\n}').type).toBe('code');
+        expect(imported.blocks.find((block) => block.type === 'table')!.properties).toEqual({ tableData: { rows: [['Name', 'Qty'], ['Tea', '2']] } });
+        expect(imported.blocks.find((block) => block.type === 'image')!.properties).toEqual({
+            url: 'https://storage.example.com/chart.png',
+            caption: 'Chart',
+        });
+    });
+});
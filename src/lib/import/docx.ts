@@ -0,0 +1,426 @@
+import { strFromU8, unzipSync } from "fflate";
+import { Block, BlockType } from "../../types/workspace";
+import { RichTextSpan, spansToMarkdown } from "../export/blocks";
+import { ImportedPage } from "./markdown";
+import { fileFromBytes, uploadToStorage } from "./upload";
+import { XmlElement, childElements, findChild, findDescendants, parseXml } from "./xml";
+
+// Word (.docx) importer: the reverse of lib/export/docx.ts
+// Paragraph styles are matched by name, so documents written by Word and other
+// editors import the same way: "heading N" styles become headings, Quote, Code
+// and Caption styles their blocks, numbered paragraphs list items nested by
+// level, checkbox content controls checkboxes, tables table blocks and pictures
+// image blocks. Indented paragraphs become children of the block above them.
+// Element names are read with the prefixes Word writes (w:, r:, a:...).
+
+export interface DocxImportOptions {
+  fileName?: string; // Used as the title when the document has none
+  workspaceId?: string; // Folder the pictures are uploaded to
+  createId?: () => string; // Block ID generator; random UUIDs by default
+  uploadImage?: (file: File) => Promise<string | null>; // Returns the uploaded picture's URL; uses lib/storage by default
+}
+
+// The parts of the package the body refers to
+interface DocxPackage {
+  files: Record<string, Uint8Array>;
+  relationships: Record<string, { target: string; external: boolean }>;
+  styles: Record<string, { name: string; numbering?: { id: string; level: number } }>;
+  numbering: Record<string, Record<number, string>>; // numId → level → number format
+}
+
+// What a paragraph holds once its runs are read
+interface ParagraphContent {
+  spans: RichTextSpan[];
+  images: string[]; // Relationship IDs of the pictures, in order
+  checked?: boolean; // Set when the paragraph has a checkbox content control
+}
+
+type ParagraphKind = "title" | "heading1" | "heading2" | "heading3" | "quote" | "callout" | "code" | "equation" | "caption" | "divider" | "paragraph";
+
+const MONOSPACE_FONT = /^(consolas|courier|courier new|menlo|monaco|lucida console|source code pro|fira code|jetbrains mono|cascadia code)$/i;
+const CHECKBOX_GLYPH = /^\s*[☐☑☒]\s?/;
+const INDENT_PER_LEVEL = 720; // Twips, as the exporter indents nested blocks
+
+// Function to read an on/off property like <w:b/>, <w:b w:val="false"/> or <w14:checked w14:val="1"/>
+function isOn(element: XmlElement | undefined): boolean {
+  const value = element && (element.attributes["w:val"] ?? element.attributes["w14:val"]);
+  return !!element && !/^(0|false|off|none)$/i.test(value || "");
+}
+
+// Function to resolve a relationship target against the folder of the part that uses it
+function resolvePath(folder: string, target: string): string {
+  if (target.startsWith("/")) return target.slice(1);
+  const parts = folder ? folder.split("/") : [];
+  target.split("/").forEach((part) => {
+    if (part === "..") parts.pop();
+    else if (part && part !== ".") parts.push(part);
+  });
+  return parts.join("/");
+}
+
+// Function to read a part as XML, if the package has it
+function readPart(files: Record<string, Uint8Array>, path: string): XmlElement | undefined {
+  const data = files[path];
+  return data ? parseXml(strFromU8(data)) : undefined;
+}
+
+// Function to read the relationships of a part, keyed by ID
+function readRelationships(files: Record<string, Uint8Array>, partPath: string): Array<{ id: string; type: string; target: string; external: boolean }> {
+  const folder = partPath.split("/").slice(0, -1).join("/");
+  const name = partPath.split("/").pop();
+  const xml = readPart(files, `${folder ? `${folder}/` : ""}_rels/${name}.rels`);
+  if (!xml) return [];
+  return findDescendants(xml, "Relationship").map((relationship) => {
+    const external = relationship.attributes.TargetMode === "External";
+    const target = relationship.attributes.Target || "";
+    return {
+      id: relationship.attributes.Id || "",
+      type: relationship.attributes.Type || "",
+      target: external ? target : resolvePath(folder, target),
+      external,
+    };
+  });
+}
+
+// Function to read paragraph style names, and the numbering list styles apply
+function readStyles(xml: XmlElement | undefined): DocxPackage["styles"] {
+  const styles: DocxPackage["styles"] = {};
+  if (!xml) return styles;
+  findDescendants(xml, "w:style").forEach((style) => {
+    const id = style.attributes["w:styleId"];
+    if (!id) return;
+    const numPr = findChild(findChild(style, "w:pPr"), "w:numPr");
+    const numId = findChild(numPr, "w:numId")?.attributes["w:val"];
+    styles[id] = {
+      name: (findChild(style, "w:name")?.attributes["w:val"] || id).toLowerCase(),
+      ...(numId ? { numbering: { id: numId, level: Number(findChild(numPr, "w:ilvl")?.attributes["w:val"] || 0) } } : {}),
+    };
+  });
+  return styles;
+}
+
+// Function to read the number format of each level of each list
+function readNumbering(xml: XmlElement | undefined): DocxPackage["numbering"] {
+  const numbering: DocxPackage["numbering"] = {};
+  if (!xml) return numbering;
+  const abstract: Record<string, Record<number, string>> = {};
+  findDescendants(xml, "w:abstractNum").forEach((definition) => {
+    const levels: Record<number, string> = {};
+    childElements(definition, "w:lvl").forEach((level) => {
+      levels[Number(level.attributes["w:ilvl"] || 0)] = findChild(level, "w:numFmt")?.attributes["w:val"] || "decimal";
+    });
+    abstract[definition.attributes["w:abstractNumId"]] = levels;
+  });
+  findDescendants(xml, "w:num").forEach((num) => {
+    const abstractId = findChild(num, "w:abstractNumId")?.attributes["w:val"];
+    if (abstractId !== undefined) numbering[num.attributes["w:numId"]] = abstract[abstractId] || {};
+  });
+  return numbering;
+}
+
+// Function to add text to spans, merging it into the last span when the formatting matches
+function pushSpan(spans: RichTextSpan[], span: RichTextSpan) {
+  if (!span.text) return;
+  const last = spans[spans.length - 1];
+  const { text: _, ...marks } = span;
+  if (last) {
+    const { text: lastText, ...lastMarks } = last;
+    if (JSON.stringify(lastMarks) === JSON.stringify(marks)) {
+      last.text = lastText + span.text;
+      return;
+    }
+  }
+  spans.push({ ...span });
+}
+
+// Function to read one run: its text, formatting and pictures
+function readRun(run: XmlElement, pkg: DocxPackage, content: ParagraphContent, href?: string) {
+  const properties = findChild(run, "w:rPr");
+  if (isOn(findChild(properties, "w:vanish"))) return;
+
+  const styleName = pkg.styles[findChild(properties, "w:rStyle")?.attributes["w:val"] || ""]?.name || "";
+  const font = findChild(properties, "w:rFonts")?.attributes["w:ascii"] || "";
+  const marks: Omit<RichTextSpan, "text"> = {};
+  if (isOn(findChild(properties, "w:b")) || styleName === "strong") marks.bold = true;
+  if (isOn(findChild(properties, "w:i")) || styleName === "emphasis") marks.italic = true;
+  if (isOn(findChild(properties, "w:strike")) || isOn(findChild(properties, "w:dstrike"))) marks.strike = true;
+  if (/code|verbatim/.test(styleName) || MONOSPACE_FONT.test(font)) marks.code = true;
+  if (href) marks.href = href;
+
+  let text = "";
+  childElements(run).forEach((child) => {
+    switch (child.name) {
+      case "w:t":
+        text += child.children.filter((node): node is string => typeof node === "string").join("");
+        break;
+      case "w:tab":
+        text += "\t";
+        break;
+      case "w:br":
+        if (child.attributes["w:type"] !== "page") text += "\n";
+        break;
+      case "w:cr":
+        text += "\n";
+        break;
+      case "w:noBreakHyphen":
+        text += "-";
+        break;
+      case "w:drawing":
+      case "w:pict":
+      case "mc:AlternateContent": {
+        // Drawings may hold the same picture twice (a fallback for older readers)
+        const ids = [
+          ...findDescendants(child, "a:blip").map((blip) => blip.attributes["r:embed"]),
+          ...findDescendants(child, "v:imagedata").map((image) => image.attributes["r:id"]),
+        ];
+        ids.forEach((id) => {
+          if (id && !content.images.includes(id)) content.images.push(id);
+        });
+        break;
+      }
+    }
+  });
+  pushSpan(content.spans, { text, ...marks });
+}
+
+// Function to read the runs of a paragraph, including those in links, tracked
+// insertions and content controls
+function readRuns(element: XmlElement, pkg: DocxPackage, content: ParagraphContent, href?: string) {
+  childElements(element).forEach((child) => {
+    switch (child.name) {
+      case "w:r":
+        readRun(child, pkg, content, href);
+        break;
+      case "w:hyperlink": {
+        const relationship = pkg.relationships[child.attributes["r:id"] || ""];
+        readRuns(child, pkg, content, relationship?.external ? relationship.target : href);
+        break;
+      }
+      case "w:sdt": {
+        const checkbox = findDescendants(findChild(child, "w:sdtPr") || child, "w14:checkbox")[0];
+        // A checkbox control's glyph isn't part of the text
+        if (checkbox) content.checked = isOn(findChild(checkbox, "w14:checked"));
+        else readRuns(findChild(child, "w:sdtContent") || child, pkg, content, href);
+        break;
+      }
+      case "w:ins":
+      case "w:smartTag":
+      case "w:customXml":
+      case "w:fldSimple":
+        readRuns(child, pkg, content, href);
+        break;
+    }
+  });
+}
+
+// Function to read a paragraph's content
+function readParagraph(paragraph: XmlElement, pkg: DocxPackage): ParagraphContent {
+  const content: ParagraphContent = { spans: [], images: [] };
+  readRuns(paragraph, pkg, content);
+  return content;
+}
+
+// Function to drop the whitespace around a paragraph's text
+function trimSpans(spans: RichTextSpan[]): RichTextSpan[] {
+  const trimmed = spans.map((span) => ({ ...span }));
+  if (trimmed.length > 0) {
+    trimmed[0].text = trimmed[0].text.trimStart();
+    trimmed[trimmed.length - 1].text = trimmed[trimmed.length - 1].text.trimEnd();
+  }
+  return trimmed.filter((span) => span.text);
+}
+
+// Function to write spans as block content: plain text stays as typed, and
+// formatted text uses Markdown inline syntax like the Markdown importer
+function spansToContent(spans: RichTextSpan[]): string {
+  const formatted = spans.some((span) => span.bold || span.italic || span.strike || span.code || span.href);
+  return formatted ? spansToMarkdown(spans) : spans.map((span) => span.text).join("");
+}
+
+// Function to tell what a paragraph style stands for, from its name
+function getParagraphKind(styleName: string): ParagraphKind {
+  const heading = /^heading ([1-9])$/.exec(styleName);
+  if (heading) return `heading${Math.min(Number(heading[1]), 3)}` as ParagraphKind;
+  if (styleName === "title") return "title";
+  if (/quote/.test(styleName)) return "quote";
+  if (styleName === "callout") return "callout";
+  if (/^(code|html preformatted|macro text|plain text|source code)/.test(styleName)) return "code";
+  if (styleName === "equation") return "equation";
+  if (styleName === "caption") return "caption";
+  if (styleName === "divider") return "divider";
+  return "paragraph";
+}
+
+// Function to list the body's paragraphs and tables, looking inside content controls
+function getBodyElements(element: XmlElement): XmlElement[] {
+  return childElements(element).flatMap((child) => {
+    if (child.name === "w:p" || child.name === "w:tbl") return [child];
+    if (child.name === "w:sdt") return getBodyElements(findChild(child, "w:sdtContent") || child);
+    if (child.name === "w:customXml") return getBodyElements(child);
+    return [];
+  });
+}
+
+// Function to read a table into rows of cell text; merged cells repeat as empty cells
+function readTable(table: XmlElement, pkg: DocxPackage): string[][] {
+  return childElements(table, "w:tr").map((row) =>
+    childElements(row, "w:tc").flatMap((cell) => {
+      const text = childElements(cell, "w:p")
+        .map((paragraph) => trimSpans(readParagraph(paragraph, pkg).spans).map((span) => span.text).join(""))
+        .join("\n");
+      const span = Number(findChild(findChild(cell, "w:tcPr"), "w:gridSpan")?.attributes["w:val"] || 1);
+      return [text, ...Array.from({ length: Math.max(span - 1, 0) }, () => "")];
+    })
+  );
+}
+
+// Read a .docx file into a page
+export async function importDocx(data: ArrayBuffer | Uint8Array, options: DocxImportOptions = {}): Promise<ImportedPage> {
+  const createId = options.createId || (() => crypto.randomUUID());
+  const upload = options.uploadImage || ((file: File) => uploadToStorage(file, options.workspaceId || "imports"));
+  const files = unzipSync(data instanceof Uint8Array ? data : new Uint8Array(data));
+
+  const packageRelationships = readRelationships(files, "");
+  const documentPath = packageRelationships.find((rel) => rel.type.endsWith("/officeDocument"))?.target || "word/document.xml";
+  const document = readPart(files, documentPath);
+  const body = document && findDescendants(document, "w:body")[0];
+  if (!body) throw new Error("This file isn't a Word document");
+
+  const documentRelationships = readRelationships(files, documentPath);
+  const partOfType = (type: string) => documentRelationships.find((rel) => rel.type.endsWith(`/${type}`) && !rel.external)?.target;
+  const pkg: DocxPackage = {
+    files,
+    relationships: Object.fromEntries(documentRelationships.map(({ id, target, external }) => [id, { target, external }])),
+    styles: readStyles(readPart(files, partOfType("styles") || "")),
+    numbering: readNumbering(readPart(files, partOfType("numbering") || "")),
+  };
+
+  const blocks: Block[] = [];
+  // The last block at each depth, which blocks indented below it are nested under
+  const levels: Block[] = [];
+  // The spans of plain paragraphs, kept in case they turn out to be toggles
+  const paragraphSpans = new Map<string, RichTextSpan[]>();
+  const uploaded = new Map<string, string | null>();
+  let title = "";
+  let lastCode: Block | null = null;
+
+  const addBlock = (type: BlockType, content: string, depth: number, extra: Partial<Block> = {}): Block => {
+    const level = Math.min(depth, levels.length);
+    const parent = level > 0 ? levels[level - 1] : undefined;
+    // A plain paragraph with blocks indented under it is how toggles are exported
+    if (parent?.type === "paragraph") {
+      const spans = paragraphSpans.get(parent.id) || [];
+      const summary = spans.every((span) => span.bold) ? spans.map(({ bold: _, ...span }) => span) : spans;
+      parent.type = "toggle";
+      parent.content = parent.text = spansToContent(summary);
+    }
+    const block: Block = { id: createId(), type, content, text: content, ...extra, ...(parent ? { parentId: parent.id } : {}) };
+    levels.length = level;
+    levels[level] = block;
+    blocks.push(block);
+    lastCode = null;
+    return block;
+  };
+
+  for (const element of getBodyElements(body)) {
+    if (element.name === "w:tbl") {
+      const rows = readTable(element, pkg);
+      const indent = Number(findChild(findChild(element, "w:tblPr"), "w:tblInd")?.attributes["w:w"] || 0);
+      if (rows.length > 0) addBlock("table", "", Math.round(indent / INDENT_PER_LEVEL), { properties: { tableData: { rows } } });
+      continue;
+    }
+
+    const properties = findChild(element, "w:pPr");
+    const style = pkg.styles[findChild(properties, "w:pStyle")?.attributes["w:val"] || ""];
+    const kind = getParagraphKind(style?.name || "");
+    const numPr = findChild(properties, "w:numPr");
+    const numId = findChild(numPr, "w:numId")?.attributes["w:val"] ?? style?.numbering?.id;
+    const listLevel = Number(findChild(numPr, "w:ilvl")?.attributes["w:val"] ?? style?.numbering?.level ?? 0);
+    const indentElement = findChild(properties, "w:ind");
+    const depth = Math.max(
+      Math.round(Number(indentElement?.attributes["w:left"] ?? indentElement?.attributes["w:start"] ?? 0) / INDENT_PER_LEVEL),
+      0
+    );
+
+    const content = readParagraph(element, pkg);
+    const raw = content.spans.map((span) => span.text).join("");
+    let spans = trimSpans(content.spans);
+    const text = spans.map((span) => span.text).join("");
+
+    if (kind === "title" && !title && text) {
+      title = text;
+      continue;
+    }
+
+    // Pictures become image blocks of their own
+    for (const id of content.images) {
+      const relationship = pkg.relationships[id];
+      if (!relationship || relationship.external) continue;
+      if (!uploaded.has(id)) {
+        const bytes = files[relationship.target];
+        uploaded.set(id, bytes ? await upload(fileFromBytes(bytes, relationship.target.split("/").pop() || "image")) : null);
+      }
+      const url = uploaded.get(id);
+      if (url) addBlock("image", "", depth, { properties: { url } });
+    }
+
+    const previous = blocks[blocks.length - 1];
+    if (kind === "caption" && text && previous?.type === "image" && !previous.properties?.caption) {
+      previous.properties = { ...previous.properties, caption: text };
+      continue;
+    }
+    const hasBottomBorder = !!findChild(findChild(properties, "w:pBdr"), "w:bottom");
+    if (kind === "divider" || (!text && content.images.length === 0 && hasBottomBorder)) {
+      addBlock("divider", "", depth);
+      continue;
+    }
+    if (kind === "code") {
+      // Code written one paragraph per line is joined into one block
+      if (lastCode) lastCode.content = lastCode.text = `${lastCode.content}\n${raw}`;
+      else if (raw.trim()) lastCode = addBlock("code", raw, depth);
+      continue;
+    }
+    if (!text && content.checked === undefined) continue;
+
+    if (kind === "equation") {
+      addBlock("equation", text, depth, { properties: { latex: text } });
+    } else if (content.checked !== undefined || CHECKBOX_GLYPH.test(text)) {
+      const glyph = CHECKBOX_GLYPH.exec(text);
+      if (glyph) spans = trimSpans([{ ...spans[0], text: spans[0].text.slice(glyph[0].length) }, ...spans.slice(1)]);
+      const checked = content.checked ?? /[☑☒]/.test(glyph?.[0] || "");
+      addBlock("checkbox", spansToContent(spans), numId && numId !== "0" ? listLevel : depth, { checked });
+    } else if (numId && numId !== "0") {
+      const format = pkg.numbering[numId]?.[listLevel];
+      addBlock(format === "bullet" || !format ? "bulleted-list" : "numbered-list", spansToContent(spans), listLevel);
+    } else if (kind === "heading1" || kind === "heading2" || kind === "heading3" || kind === "quote" || kind === "callout") {
+      addBlock(kind, spansToContent(spans), depth);
+    } else {
+      const block = addBlock("paragraph", spansToContent(spans), depth);
+      paragraphSpans.set(block.id, spans);
+    }
+  }
+
+  const core = readPart(files, packageRelationships.find((rel) => rel.type.endsWith("/core-properties"))?.target || "docProps/core.xml");
+  const coreValue = (name: string) => {
+    const element = core && findDescendants(core, name)[0];
+    return element ? element.children.filter((node): node is string => typeof node === "string").join("").trim() : "";
+  };
+  const toDate = (value: string) => (value && !isNaN(Date.parse(value)) ? new Date(value) : undefined);
+
+  const page: ImportedPage = {
+    title: title || coreValue("dc:title") || options.fileName?.replace(/\.docx$/i, "") || "Untitled",
+    icon: "",
+    propertyValues: {},
+    blocks,
+  };
+  const createdAt = toDate(coreValue("dcterms:created"));
+  const updatedAt = toDate(coreValue("dcterms:modified"));
+  if (createdAt) page.createdAt = createdAt;
+  if (updatedAt) page.updatedAt = updatedAt;
+  return page;
+}
+
+// Read a .docx file chosen by the user
+export async function importDocxFile(file: File, options: DocxImportOptions = {}): Promise<ImportedPage> {
+  return importDocx(await file.arrayBuffer(), { fileName: file.name, ...options });
+}
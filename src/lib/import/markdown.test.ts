@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import { importMarkdown } from './markdown';
+import { getMarkdownContent } from '../export/markdown';
+import { Block, Page } from '../../types/workspace';
+
+describe('Markdown import', () => {
+    const block = (id: string, type: Block['type'], content: string, extra: Partial<Block> = {}): Block => ({
+        id,
+        type,
+        content,
+        text: content,
+        ...extra,
+    });
+
+    const page: Page = {
+        id: 'page-1',
+        title: 'Launch plan',
+        icon: '🚀',
+        cover: 'https://example.com/cover.png',
+        tags: ['work', 'q3'],
+        blocks: [
+            block('b1', 'heading2', 'Goals'),
+            block('b2', 'paragraph', 'Ship the **beta** by\nthe end of the month.'),
+            block('b3', 'bulleted-list', 'Website'),
+            block('b4', 'bulleted-list', 'Landing page', { parentId: 'b3' }),
+            block('b5', 'checkbox', 'Copy review', { checked: true, parentId: 'b4' }),
+            block('b6', 'numbered-list', 'Announce'),
+            block('b7', 'toggle', 'Details'),
+            block('b8', 'paragraph', 'Hidden notes', { parentId: 'b7' }),
+            block('b9', 'toggle', 'More', { parentId: 'b7' }),
+            block('b10', 'checkbox', 'Nested task', { checked: false, parentId: 'b9' }),
+            block('b11', 'quote', 'First line\nSecond line'),
+            block('b12', 'callout', 'Remember the demo'),
+            block('b13', 'code-enhanced', 'const a = 1;\n\nif (a) {\n    run();\n}', { properties: { language: 'ts' } }),
+            block('b14', 'code', 'plain code'),
+            block('b15', 'equation', 'E = mc^2', { properties: { latex: 'E = mc^2' } }),
+            block('b16', 'image', '', { properties: { url: 'https://example.com/a.png', caption: 'Diagram' } }),
+            block('b17', 'divider', ''),
+            block('b18', 'table', '', { properties: { tableData: { rows: [['Name', 'Notes'], ['A | B', 'x']] } } }),
+            block('b19', 'heading3', 'Done'),
+        ],
+        propertyValues: {
+            Status: 'In progress',
+            Estimate: 3,
+            Due: { start: '2024-05-01' },
+            'Owner: team': ['ana', 'li'],
+            Code: '42',
+            Released: false,
+        },
+        createdAt: new Date('2024-01-02T10:00:00.000Z'),
+        updatedAt: new Date('2024-01-03T10:00:00.000Z'),
+        createdBy: 'user-1',
+    };
+
+    // Compare blocks by content and structure; IDs are new on import
+    const normalize = (blocks: Block[]) =>
+        blocks.map((b) => ({
+            type: b.type,
+            content: b.content || b.text || '',
+            checked: b.type === 'checkbox' ? !!b.checked : undefined,
+            properties: b.properties,
+            parent: b.parentId ? blocks.findIndex((p) => p.id === b.parentId) : -1,
+        }));
+
+    it('should read back an exported page', () => {
+        const imported = importMarkdown(getMarkdownContent(page));
+
+        expect(imported.title).toBe('Launch plan');
+        expect(imported.icon).toBe('🚀');
+        expect(imported.cover).toBe(page.cover);
+        expect(imported.tags).toEqual(['work', 'q3']);
+        expect(imported.createdAt).toEqual(page.createdAt);
+        expect(imported.createdBy).toBe('user-1');
+        expect(imported.propertyValues).toEqual(page.propertyValues);
+        expect(normalize(imported.blocks)).toEqual(normalize(page.blocks));
+    });
+
+    it('should read back text that looks like Markdown, empty paragraphs and TipTap HTML', () => {
+        const tricky: Page = {
+            ...page,
+            icon: '',
+            propertyValues: {},
+            blocks: [
+                block('t1', 'paragraph', '- not a list'),
+                block('t2', 'paragraph', '# not heading'),
+                block('t3', 'paragraph', '1. literal\n> not a quote'),
+                block('t4', 'paragraph', ''),
+                block('t5', 'paragraph', '```not code``` and *stars*, _underscores_ and [brackets] \\o/'),
+                block('t6', 'bulleted-list', '+ plus'),
+                block('t7', 'paragraph', '<p>Some <strong>bold</strong>, <em>italic</em> and <code>x*y</code> &lt;3</p><p><s>gone</s></p>'),
+                block('t8', 'heading2', '<p><strong><em>Both</em></strong> marks</p>'),
+                block('t9', 'quote', '<p>Quoted <a href="https://example.com">link</a></p>'),
+                block('t10', 'paragraph', '$$ not math'),
+            ],
+        };
+        const markdown = getMarkdownContent(tricky);
+        expect(markdown).not.toMatch(/^icon:/m);
+
+        const imported = importMarkdown(markdown);
+        expect(imported.icon).toBe('');
+        expect(normalize(imported.blocks)).toEqual(normalize(tricky.blocks));
+    });
+
+    it('should read back text with spaces around its lines', () => {
+        const spaced: Page = {
+            ...page,
+            propertyValues: {},
+            blocks: [
+                block('s1', 'paragraph', '  leading spaces'),
+                block('s2', 'paragraph', 'before'),
+                block('s3', 'paragraph', '  indented'),
+                block('s4', 'paragraph', 'line\n\tand a tab  '),
+                block('s5', 'bulleted-list', ' &#32; is a space'),
+                block('s6', 'paragraph', '<p>  <strong>bold</strong> &amp;#9;</p>'),
+            ],
+        };
+        const markdown = getMarkdownContent(spaced);
+        expect(markdown).toContain('&#32;&#32;leading spaces');
+
+        expect(normalize(importMarkdown(markdown).blocks)).toEqual(normalize(spaced.blocks));
+    });
+
+    it('should keep blocks indented under the title heading', () => {
+        const imported = importMarkdown('# Notes\n    indented\n    * item\n        * nested');
+        expect(imported.title).toBe('Notes');
+        expect(imported.blocks.map((b) => [b.type, b.content])).toEqual([
+            ['paragraph', 'indented'],
+            ['bulleted-list', 'item'],
+            ['bulleted-list', 'nested'],
+        ]);
+        expect(imported.blocks[0].parentId).toBeUndefined();
+        expect(imported.blocks[1].parentId).toBeUndefined();
+        expect(imported.blocks[2].parentId).toBe(imported.blocks[1].id);
+    });
+
+    it('should read plain Markdown without front matter', () => {
+        const imported = importMarkdown('# Notes\n\nIntro text\n\n* one\n    * two\n1) first', { fileName: 'notes.md' });
+        expect(imported.title).toBe('Notes');
+        expect(imported.blocks.map((b) => [b.type, b.content])).toEqual([
+            ['paragraph', 'Intro text'],
+            ['bulleted-list', 'one'],
+            ['bulleted-list', 'two'],
+            ['numbered-list', 'first'],
+        ]);
+        expect(imported.blocks[2].parentId).toBe(imported.blocks[1].id);
+
+        expect(importMarkdown('Just text', { fileName: 'Draft.md' }).title).toBe('Draft');
+    });
+});
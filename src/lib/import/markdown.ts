@@ -0,0 +1,500 @@
+import { Block, BlockType } from "../../types/workspace";
+import { RichTextSpan } from "../export/blocks";
+
+// Markdown importer: the reverse of lib/export/markdown.ts
+// Reads front matter into page fields and property values, and the body into
+// blocks. Nested lists and toggle contents become child blocks (parentId), so a
+// page exported to Markdown and imported again gets the same blocks back.
+
+// A page read from a Markdown file, ready to be added to a workspace
+export interface ImportedPage {
+  title: string;
+  icon: string;
+  cover?: string;
+  tags?: string[];
+  propertyValues: Record<string, any>;
+  blocks: Block[];
+  createdAt?: Date;
+  updatedAt?: Date;
+  createdBy?: string;
+  lastEditedBy?: string;
+}
+
+export interface MarkdownImportOptions {
+  fileName?: string; // Used as the title when the file has no title of its own
+  createId?: () => string; // Block ID generator; random UUIDs by default
+}
+
+// Front matter keys that map to page fields rather than property values
+const PAGE_KEYS = ["title", "icon", "cover", "tags", "created", "updated", "createdBy", "lastEditedBy", "properties"];
+
+const HEADING = /^(#{1,6})(?:\s+(.*))?$/;
+const FENCE = /^(`{3,}|~{3,})\s*([^\s`]*)\s*$/;
+const TASK = /^[-*+]\s+\[([ xX])\](?:\s+(.*))?$/;
+const BULLET = /^[-*+](?:\s+(.*))?$/;
+const NUMBERED = /^\d+[.)](?:\s+(.*))?$/;
+const DIVIDER = /^([-*_])(\s*\1){2,}$/;
+const IMAGE = /^!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)$/;
+const TABLE_SEPARATOR = /^\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?$/;
+const DATE = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+const CALLOUT_PREFIX = "**Note:** ";
+
+// ==========================================
+// FRONT MATTER
+// ==========================================
+
+// Read one front matter value: JSON (as the exporter writes non-text values),
+// flow lists, quoted text, booleans, numbers and dates
+function parseScalar(raw: string): any {
+  const value = raw.trim();
+  if (value === "") return "";
+  if (/^["[{]/.test(value)) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      // Not JSON; fall through to YAML-style values
+    }
+  }
+  if (value.startsWith("[") && value.endsWith("]")) {
+    return value
+      .slice(1, -1)
+      .split(",")
+      .map(parseScalar)
+      .filter((item) => item !== "");
+  }
+  if (value.length >= 2 && value.startsWith("'") && value.endsWith("'")) return value.slice(1, -1).replace(/''/g, "'");
+  if (value === "true" || value === "false") return value === "true";
+  if (value === "null" || value === "~") return null;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  // Dates become date property values
+  if (DATE.test(value)) return { start: value };
+  return value;
+}
+
+// Split "key: value"; keys containing a colon are written as JSON strings
+function splitKeyValue(line: string): { key: string; rest: string } | null {
+  const quoted = /^("(?:[^"\\]|\\.)*")\s*:(.*)$/.exec(line);
+  if (quoted) return { key: JSON.parse(quoted[1]), rest: quoted[2].trim() };
+  const index = line.indexOf(":");
+  if (index <= 0) return null;
+  return { key: line.slice(0, index).trim(), rest: line.slice(index + 1).trim() };
+}
+
+// A small YAML subset: "key: value" lines, plus one level of nested
+// "- item" lists or "key: value" maps under a key with no value
+function parseFrontMatter(text: string): Record<string, any> {
+  const data: Record<string, any> = {};
+  const lines = text.split("\n");
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim() || line.trim().startsWith("#") || /^\s/.test(line)) {
+      i++;
+      continue;
+    }
+    const entry = splitKeyValue(line);
+    i++;
+    if (!entry) continue;
+    if (entry.rest !== "") {
+      data[entry.key] = parseScalar(entry.rest);
+      continue;
+    }
+
+    const nested: string[] = [];
+    while (i < lines.length && (/^\s/.test(lines[i]) || !lines[i].trim())) {
+      if (lines[i].trim()) nested.push(lines[i].trim());
+      i++;
+    }
+    if (nested.length > 0 && nested.every((item) => item.startsWith("- "))) {
+      data[entry.key] = nested.map((item) => parseScalar(item.slice(2)));
+    } else if (nested.length > 0) {
+      data[entry.key] = {};
+      nested.forEach((item) => {
+        const child = splitKeyValue(item);
+        if (child) data[entry.key][child.key] = parseScalar(child.rest);
+      });
+    } else {
+      data[entry.key] = "";
+    }
+  }
+  return data;
+}
+
+function splitFrontMatter(markdown: string): { data: Record<string, any>; body: string } {
+  const match = /^---\n([\s\S]*?)\n---[ \t]*(?:\n|$)/.exec(markdown);
+  if (!match) return { data: {}, body: markdown };
+  return { data: parseFrontMatter(match[1]), body: markdown.slice(match[0].length) };
+}
+
+const toDate = (value: any): Date | undefined => {
+  const raw = typeof value === "object" && value ? value.start : value;
+  const date = raw ? new Date(raw) : undefined;
+  return date && !isNaN(date.getTime()) ? date : undefined;
+};
+
+// ==========================================
+// INLINE TEXT
+// ==========================================
+
+const ESCAPABLE = /[!-/:-@[-`{-~]/;
+
+// Where the delimiter closing an emphasis run opened just before `start` is, or -1
+// Escapes and code spans are skipped; for "*" a "**" pair inside is bold, not the end
+function findClosing(text: string, start: number, delimiter: string): number {
+  for (let j = start; j < text.length; j++) {
+    if (text[j] === "\\") {
+      j++;
+    } else if (text[j] === "`") {
+      const run = /^`+/.exec(text.slice(j))![0];
+      const end = text.indexOf(run, j + run.length);
+      if (end !== -1) j = end + run.length - 1;
+    } else if (delimiter.length === 1 && text.startsWith(delimiter.repeat(2), j)) {
+      const nested = findClosing(text, j + 2, delimiter.repeat(2));
+      if (nested !== -1) j = nested + 1;
+      else if (j > start && !/\s/.test(text[j - 1])) return j;
+    } else if (text.startsWith(delimiter, j) && j > start && !/\s/.test(text[j - 1])) {
+      return j;
+    }
+  }
+  return -1;
+}
+
+// Read Markdown inline syntax (bold, italic, strikethrough, code, links, escapes)
+// into formatted spans, the reverse of spansToMarkdown in lib/export/blocks.ts
+function parseInline(text: string, marks: Omit<RichTextSpan, "text"> = {}): RichTextSpan[] {
+  const spans: RichTextSpan[] = [];
+  let plain = "";
+  const flush = () => {
+    if (plain) spans.push({ text: plain, ...marks });
+    plain = "";
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const rest = text.slice(i);
+    if (rest[0] === "\\" && ESCAPABLE.test(rest[1] || "")) {
+      plain += rest[1];
+      i += 2;
+      continue;
+    }
+
+    // Numeric character references, which the exporter writes for spaces around a line
+    const reference = rest[0] === "&" ? /^&#(?:(\d{1,7})|[xX]([\da-fA-F]{1,6}));/.exec(rest) : null;
+    const codePoint = reference ? (reference[1] ? parseInt(reference[1], 10) : parseInt(reference[2], 16)) : 0;
+    if (reference && codePoint > 0 && codePoint <= 0x10ffff) {
+      plain += String.fromCodePoint(codePoint);
+      i += reference[0].length;
+      continue;
+    }
+
+    const code = /^(`+)([\s\S]*?[^`])\1(?!`)/.exec(rest);
+    if (code) {
+      flush();
+      spans.push({ text: code[2], ...marks, code: true });
+      i += code[0].length;
+      continue;
+    }
+
+    const link = rest[0] === "[" ? /^\[((?:\\.|[^\]\\])*)\]\(\s*<?([^)\s>]+)>?\s*\)/.exec(rest) : null;
+    if (link) {
+      flush();
+      spans.push(...parseInline(link[1], { ...marks, href: link[2] }));
+      i += link[0].length;
+      continue;
+    }
+
+    // "***" is italic around bold, as the exporter writes both marks
+    const delimiter = rest.startsWith("***") ? "*" : ["**", "__", "~~", "*", "_"].find((candidate) => rest.startsWith(candidate));
+    if (delimiter && rest[delimiter.length] && !/\s/.test(rest[delimiter.length])) {
+      const end = findClosing(text, i + delimiter.length, delimiter);
+      if (end !== -1) {
+        const mark = delimiter === "~~" ? { strike: true } : delimiter.length === 2 ? { bold: true } : { italic: true };
+        flush();
+        spans.push(...parseInline(text.slice(i + delimiter.length, end), { ...marks, ...mark }));
+        i = end + delimiter.length;
+        continue;
+      }
+    }
+
+    plain += rest[0];
+    i++;
+  }
+  flush();
+  return spans;
+}
+
+const escapeText = (text: string) => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+// Write spans as the HTML the TipTap editor stores: a paragraph per line,
+// marks nested as TipTap nests them
+function spansToEditorHtml(spans: RichTextSpan[]): string {
+  const lines: string[] = [""];
+  spans.forEach((span) => {
+    span.text.split("\n").forEach((part, index) => {
+      if (index > 0) lines.push("");
+      if (!part) return;
+      let html = escapeText(part);
+      if (span.code) html = `<code>${html}</code>`;
+      if (span.strike) html = `<s>${html}</s>`;
+      if (span.italic) html = `<em>${html}</em>`;
+      if (span.bold) html = `<strong>${html}</strong>`;
+      if (span.href) html = `<a href="${escapeText(span.href).replace(/"/g, "&quot;")}">${html}</a>`;
+      lines[lines.length - 1] += html;
+    });
+  });
+  return lines.map((line) => `<p>${line}</p>`).join("");
+}
+
+// Block text from Markdown: TipTap HTML when it has formatting, plain text otherwise
+function readInline(markdown: string): string {
+  const spans = parseInline(markdown);
+  const formatted = spans.some((span) => span.bold || span.italic || span.strike || span.code || span.href);
+  return formatted ? spansToEditorHtml(spans) : spans.map((span) => span.text).join("");
+}
+
+// ==========================================
+// BLOCKS
+// ==========================================
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+// Remove a common indentation from nested lines
+function dedent(lines: string[]): string[] {
+  const indents = lines.filter((line) => line.trim()).map(indentOf);
+  const min = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map((line) => (indentOf(line) >= min ? line.slice(min) : line.trimStart()));
+}
+
+// Split a table row on pipes that aren't escaped
+function splitTableRow(line: string): string[] {
+  const inner = line.trim().replace(/^\|/, "").replace(/\|$/, "");
+  return inner.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, "|"));
+}
+
+// Whether a line starts a block other than a paragraph
+function startsBlock(text: string, nextLine?: string): boolean {
+  return (
+    HEADING.test(text) ||
+    FENCE.test(text) ||
+    BULLET.test(text) ||
+    NUMBERED.test(text) ||
+    DIVIDER.test(text) ||
+    IMAGE.test(text) ||
+    text.startsWith(">") ||
+    text.startsWith("$$") ||
+    /^<details\b/i.test(text) ||
+    (text.startsWith("|") && !!nextLine && TABLE_SEPARATOR.test(nextLine.trim()))
+  );
+}
+
+// Parse lines into blocks; nested blocks come right after their parent
+function parseLines(lines: string[], createId: () => string, parentId?: string): Block[] {
+  const blocks: Block[] = [];
+  let i = 0;
+
+  const makeBlock = (type: BlockType, content: string, extra: Partial<Block> = {}): Block => ({
+    id: createId(),
+    type,
+    content,
+    text: content,
+    ...extra,
+    ...(parentId ? { parentId } : {}),
+  });
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const text = line.trim();
+    if (!text) {
+      i++;
+      continue;
+    }
+
+    const indent = indentOf(line);
+    let block: Block;
+    let next = i + 1;
+    // Blocks parsed from inside the element itself (toggle contents)
+    let inner: Block[] = [];
+
+    const fence = FENCE.exec(text);
+    const heading = HEADING.exec(text);
+    const task = TASK.exec(text);
+    const image = IMAGE.exec(text);
+
+    if (fence) {
+      // Code fence: everything up to the matching closing fence, kept verbatim
+      const code: string[] = [];
+      while (next < lines.length && !lines[next].trim().startsWith(fence[1])) {
+        code.push(indentOf(lines[next]) >= indent ? lines[next].slice(indent) : lines[next].trimStart());
+        next++;
+      }
+      next++;
+      const language = fence[2];
+      block = language
+        ? makeBlock("code-enhanced", code.join("\n"), { properties: { language } })
+        : makeBlock("code", code.join("\n"));
+    } else if (text.startsWith("$$")) {
+      // Display math, on one line ($$x$$) or between $$ lines
+      let latex: string;
+      if (text.length > 4 && text.endsWith("$$")) {
+        latex = text.slice(2, -2).trim();
+      } else {
+        const math: string[] = [text.slice(2)].filter((part) => part.trim());
+        while (next < lines.length && !lines[next].trim().endsWith("$$")) {
+          math.push(lines[next].trim());
+          next++;
+        }
+        if (next < lines.length) {
+          const last = lines[next].trim().slice(0, -2);
+          if (last.trim()) math.push(last);
+        }
+        next++;
+        latex = math.join("\n");
+      }
+      block = makeBlock("equation", latex, { properties: { latex } });
+    } else if (/^<details\b/i.test(text)) {
+      // Toggle: the summary is its text and everything else inside <details> its children
+      let depth = 0;
+      let end = i;
+      for (; end < lines.length; end++) {
+        depth += (lines[end].match(/<details\b/gi) || []).length;
+        depth -= (lines[end].match(/<\/details>/gi) || []).length;
+        if (depth <= 0) break;
+      }
+      next = Math.min(end, lines.length - 1) + 1;
+
+      let body = lines.slice(i, next).join("\n").replace(/^\s*<details\b[^>]*>/i, "");
+      const closing = body.toLowerCase().lastIndexOf("</details>");
+      if (closing !== -1) body = body.slice(0, closing);
+      const summary = /^\s*<summary>([\s\S]*?)<\/summary>/i.exec(body);
+      if (summary) body = body.slice(summary[0].length);
+
+      block = makeBlock("toggle", summary ? readInline(summary[1].trim()) : "");
+      inner = parseLines(dedent(body.split("\n")), createId, block.id);
+    } else if (text.startsWith("|") && next < lines.length && TABLE_SEPARATOR.test(lines[next].trim())) {
+      const rows = [splitTableRow(text)];
+      next++;
+      while (next < lines.length && lines[next].trim().startsWith("|")) {
+        rows.push(splitTableRow(lines[next]));
+        next++;
+      }
+      block = makeBlock("table", "", { properties: { tableData: { rows } } });
+    } else if (heading) {
+      const level = Math.min(heading[1].length, 3);
+      block = makeBlock(`heading${level}` as BlockType, readInline(heading[2]?.trim() || ""));
+    } else if (DIVIDER.test(text)) {
+      block = makeBlock("divider", "");
+    } else if (image) {
+      // Exported images use the caption as alt text, or "Image" without one
+      const alt = image[1].trim();
+      block = makeBlock("image", "", { properties: alt && alt !== "Image" ? { url: image[2], caption: alt } : { url: image[2] } });
+    } else if (task) {
+      block = makeBlock("checkbox", readInline(task[2]?.trim() || ""), { checked: task[1] !== " " });
+    } else if (BULLET.test(text)) {
+      block = makeBlock("bulleted-list", readInline(BULLET.exec(text)![1]?.trim() || ""));
+    } else if (NUMBERED.test(text)) {
+      block = makeBlock("numbered-list", readInline(NUMBERED.exec(text)![1]?.trim() || ""));
+    } else if (text.startsWith(">")) {
+      // Quote lines are joined; a leading bold "Note:" marks an exported callout
+      const quoted: string[] = [];
+      next = i;
+      while (next < lines.length && lines[next].trim().startsWith(">")) {
+        quoted.push(lines[next].trim().replace(/^>\s?/, ""));
+        next++;
+      }
+      const content = quoted.join("\n");
+      block = content.startsWith(CALLOUT_PREFIX)
+        ? makeBlock("callout", readInline(content.slice(CALLOUT_PREFIX.length)))
+        : makeBlock("quote", readInline(content));
+    } else {
+      // Paragraph: following lines at the same indentation, until a blank line or another block
+      const paragraph = [text];
+      while (
+        next < lines.length &&
+        lines[next].trim() &&
+        indentOf(lines[next]) <= indent &&
+        !startsBlock(lines[next].trim(), lines[next + 1])
+      ) {
+        paragraph.push(lines[next].trim());
+        next++;
+      }
+      // A lone line break is an empty paragraph (the exporter writes them so)
+      const content = paragraph.join("\n");
+      block = makeBlock("paragraph", /^<br\s*\/?>$/i.test(content) ? "" : readInline(content));
+    }
+
+    // Lines indented under the block are its children, e.g. a nested list
+    let end = next;
+    while (end < lines.length && (!lines[end].trim() || indentOf(lines[end]) > indent)) end++;
+    while (end > next && !lines[end - 1].trim()) end--;
+    const children = end > next ? parseLines(dedent(lines.slice(next, end)), createId, block.id) : [];
+
+    blocks.push(block, ...inner, ...children);
+    i = end;
+  }
+
+  return blocks;
+}
+
+// ==========================================
+// PAGE
+// ==========================================
+
+// Parse a Markdown document into a page
+export function importMarkdown(markdown: string, options: MarkdownImportOptions = {}): ImportedPage {
+  const createId = options.createId || (() => crypto.randomUUID());
+  const normalized = markdown.replace(/\r\n?/g, "\n").replace(/^﻿/, "");
+  const { data, body } = splitFrontMatter(normalized);
+
+  // Leading tabs count as four spaces of indentation
+  const lines = body.split("\n").map((line) => line.replace(/^\t+/, (tabs) => "    ".repeat(tabs.length)));
+  let blocks = parseLines(lines, createId);
+
+  // The exporter repeats the title as a top heading; files without front matter
+  // usually start with one too
+  let title = typeof data.title === "string" || typeof data.title === "number" ? String(data.title) : "";
+  const first = blocks[0];
+  if (first?.type === "heading1" && (!title || first.content === title)) {
+    title = title || first.content || "";
+    // Anything indented under it moves to the top level rather than being lost
+    blocks = blocks
+      .filter((block) => block.id !== first.id)
+      .map(({ parentId, ...block }) => (parentId && parentId !== first.id ? { ...block, parentId } : block));
+  }
+  if (!title) title = options.fileName?.replace(/\.(md|markdown)$/i, "") || "Untitled";
+
+  // Other front matter keys become property values, after those written under "properties:"
+  const propertyValues: Record<string, any> = {};
+  Object.entries(data).forEach(([key, value]) => {
+    if (!PAGE_KEYS.includes(key)) propertyValues[key] = value;
+  });
+  if (data.properties && typeof data.properties === "object" && !Array.isArray(data.properties)) {
+    Object.assign(propertyValues, data.properties);
+  }
+
+  const tags = Array.isArray(data.tags)
+    ? data.tags.map(String)
+    : typeof data.tags === "string" && data.tags
+      ? data.tags.split(",").map((tag: string) => tag.trim()).filter(Boolean)
+      : undefined;
+
+  const page: ImportedPage = {
+    title,
+    icon: typeof data.icon === "string" ? data.icon : "",
+    propertyValues,
+    blocks,
+  };
+  if (typeof data.cover === "string" && data.cover) page.cover = data.cover;
+  if (tags) page.tags = tags;
+  if (toDate(data.created)) page.createdAt = toDate(data.created);
+  if (toDate(data.updated)) page.updatedAt = toDate(data.updated);
+  if (typeof data.createdBy === "string" && data.createdBy) page.createdBy = data.createdBy;
+  if (typeof data.lastEditedBy === "string" && data.lastEditedBy) page.lastEditedBy = data.lastEditedBy;
+  return page;
+}
+
+// Read a Markdown file chosen by the user
+export async function importMarkdownFile(file: File, options: MarkdownImportOptions = {}): Promise<ImportedPage> {
+  const text = await file.text();
+  return importMarkdown(text, { fileName: file.name, ...options });
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { strToU8, zipSync } from 'fflate';
+import { importNotionZip } from './notion';
+
+describe('Notion import', () => {
+    const HOME = 'Home 11111111111111111111111111111111';
+    const NOTES = 'Notes 22222222222222222222222222222222';
+    const TASKS = 'Tasks 33333333333333333333333333333333';
+    const WRITE = 'Write docs 44444444444444444444444444444444';
+    const SHIP = 'Ship 55555555555555555555555555555555';
+
+    const exportZip = () =>
+        zipSync({
+            [`Export/${HOME}.md`]: strToU8(
+                `# Home\n\nSee [Notes](${encodeURIComponent(HOME)}/${encodeURIComponent(NOTES)}.md) and the [tasks](${encodeURIComponent(HOME)}/${encodeURIComponent(TASKS)}.csv).\n\n<aside>\n💡 Read me\n</aside>`
+            ),
+            [`Export/${HOME}/${NOTES}.md`]: strToU8(`# Notes\n\n![Diagram](Notes%2022222222222222222222222222222222/diagram.png)\n\n- one\n    - two`),
+            [`Export/${HOME}/${NOTES}/diagram.png`]: new Uint8Array([137, 80, 78, 71]),
+            [`Export/${HOME}/${TASKS}.csv`]: strToU8('Name,Status\nWrite docs,Done\n'),
+            [`Export/${HOME}/${TASKS}_all.csv`]: strToU8(
+                `﻿Name,Status,Estimate,Due,Done,Blocked by\n` +
+                    `Write docs,Done,3,"March 4, 2024",Yes,\n` +
+                    `Ship,In progress,5,"March 8, 2024 → March 9, 2024",No,"Write docs (${encodeURIComponent(WRITE)}.md)"\n` +
+                    `Celebrate,In progress,,,No,\n`
+            ),
+            [`Export/${HOME}/${TASKS}/${WRITE}.md`]: strToU8('# Write docs\n\nStatus: Done\nEstimate: 3\n\nDraft the guide.'),
+            [`Export/${HOME}/${TASKS}/${SHIP}.md`]: strToU8('# Ship\n\nStatus: In progress'),
+        });
+
+    it('should rebuild pages, databases and rows', async () => {
+        let nextId = 0;
+        const uploaded: string[] = [];
+        const { pages, rows, warnings } = await importNotionZip(exportZip(), {
+            createId: () => `id-${++nextId}`,
+            uploadAttachment: async (file) => {
+                uploaded.push(`${file.name} ${file.type}`);
+                return `https://cdn.example.com/${file.name}`;
+            },
+        });
+
+        expect(warnings).toEqual([]);
+        expect(uploaded).toEqual(['diagram.png image/png']);
+
+        const home = pages.find((page) => page.title === 'Home')!;
+        const notes = pages.find((page) => page.title === 'Notes')!;
+        const tasks = pages.find((page) => page.title === 'Tasks')!;
+        expect(pages.map((page) => page.title)).toEqual(['Home', 'Notes', 'Tasks']);
+        expect(home.parentId).toBeUndefined();
+        expect(notes.parentId).toBe(home.id);
+        expect(tasks.parentId).toBe(home.id);
+
+        // Internal links point at the new pages, attachments at the uploaded files
+        expect(home.blocks[0].content).toBe(
+            `<p>See <a href="/page/${notes.id}">Notes</a> and the <a href="/page/${tasks.id}">tasks</a>.</p>`
+        );
+        expect(home.blocks[1]).toMatchObject({ type: 'callout', content: '💡 Read me' });
+        expect(notes.blocks[0].properties).toEqual({ url: 'https://cdn.example.com/diagram.png', caption: 'Diagram' });
+        expect(notes.blocks[2].parentId).toBe(notes.blocks[1].id);
+
+        // The "_all" CSV has every row; columns become typed properties
+        expect(Object.fromEntries(Object.entries(tasks.properties!).map(([key, p]: [string, any]) => [key, p.type]))).toEqual({
+            Status: 'select',
+            Estimate: 'number',
+            Due: 'date',
+            Done: 'checkbox',
+            'Blocked by': 'relation',
+        });
+        expect(rows.map((row) => [row.title, row.parentId])).toEqual([
+            ['Write docs', tasks.id],
+            ['Ship', tasks.id],
+            ['Celebrate', tasks.id],
+        ]);
+
+        const [write, ship] = rows;
+        expect(write.propertyValues).toEqual({ Status: 'Done', Estimate: 3, Due: { start: '2024-03-04' }, Done: true });
+        // Property lines repeated in the row page aren't kept as content
+        expect(write.blocks.map((block) => block.content)).toEqual(['Draft the guide.']);
+        expect(ship.propertyValues!.Due).toEqual({ start: '2024-03-08', end: '2024-03-09' });
+        expect(ship.properties!['Blocked by'].linkedPageIds).toEqual([write.id]);
+        expect(ship.blocks).toEqual([]);
+    });
+
+    it('should keep "$" patterns in new links as they are', async () => {
+        let nextId = 0;
+        const { pages } = await importNotionZip(exportZip(), {
+            createId: () => `id-$&-$'-$1-${++nextId}`,
+            uploadAttachment: async (file) => `https://cdn.example.com/${file.name}`,
+        });
+
+        const [home, notes, tasks] = pages;
+        expect(notes.id).toBe("id-$&-$'-$1-2");
+        const href = (id: string) => `/page/${id.replace(/&/g, '&amp;')}`;
+        expect(home.blocks[0].content).toBe(`<p>See <a href="${href(notes.id)}">Notes</a> and the <a href="${href(tasks.id)}">tasks</a>.</p>`);
+    });
+});
@@ -0,0 +1,331 @@
+import { strFromU8, unzipSync } from "fflate";
+import { Block, Page } from "../../types/workspace";
+import { DatabaseProperty } from "../../types/database";
+import { ViewDefinition } from "../../types/view";
+import { createPropertyDefinition } from "../database/properties";
+import { convertCsvValue, createPropertyFromColumn, parseCsv } from "./csv";
+import { importMarkdown } from "./markdown";
+import { isRichTextHtml } from "../export/blocks";
+import { fileFromBytes, uploadToStorage } from "./upload";
+
+// Notion export importer
+// A Notion "Markdown & CSV" export is a zip where every page is "Title <id>.md"
+// and its subpages sit in a folder with the same name. A database is
+// "Title <id>.csv" (or "_all.csv"), with one .md per row in its folder.
+// Pages keep that hierarchy through parentId; database rows become pages under
+// the database page with typed property values.
+
+export interface NotionImportOptions {
+  workspaceId?: string; // Workspace the pages are added to, also used for attachment folders
+  createId?: () => string; // Page and block ID generator; random UUIDs by default
+  uploadAttachment?: (file: File) => Promise<string | null>; // Returns the uploaded file's URL; uses lib/storage by default
+}
+
+export interface NotionImportResult {
+  pages: Page[]; // Pages and databases, parents before children
+  rows: Page[]; // Database rows and pages inside them, parents before children
+  warnings: string[]; // Values and attachments that couldn't be imported
+}
+
+// Notion appends a 32 character ID to every file and folder name
+const NOTION_ID = /\s+([0-9a-f]{32})$/i;
+const NOTION_URL_ID = /([0-9a-f]{32})/i;
+const LINK = /(!?)\[([^\]]*)\]\(([^)\s]+)\)/g;
+// Links in formatted text, which the Markdown importer stores as TipTap HTML
+const HTML_LINK = /<a href="([^"]*)">/g;
+// A page in a relation cell: "Title (Title%20<id>.md)" or "Title (https://www.notion.so/Title-<id>)"
+const RELATION_ITEM = /([^,(]+?)\s*\(([^()]*?(?:\.md|notion\.so)[^()]*)\)/g;
+
+// Pages, their subpage folders and databases share a key: the path without extension
+const stripExtension = (path: string) => path.replace(/\.[^./]+$/, "");
+const dirname = (path: string) => (path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "");
+const basename = (path: string) => path.slice(path.lastIndexOf("/") + 1);
+const isExternal = (target: string) => /^[a-z][a-z0-9+.-]*:/i.test(target);
+const decodeAttribute = (value: string) =>
+  value.replace(/&quot;/g, '"').replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&");
+const encodeAttribute = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// "Title 0123…cdef" → "Title"
+const titleFromKey = (key: string) => basename(key).replace(NOTION_ID, "").trim() || "Untitled";
+const notionIdOf = (key: string) => NOTION_ID.exec(basename(key))?.[1].toLowerCase();
+
+// Titles are compared loosely: Notion drops characters that can't be in file names
+const looseTitle = (title: string) => title.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+
+// Resolve a link like "../Other%20Page.md" from the folder of the linking file
+function resolvePath(fromDir: string, target: string): string {
+  const parts = fromDir ? fromDir.split("/") : [];
+  let decoded = target;
+  try {
+    decoded = decodeURIComponent(target);
+  } catch {
+    // Keep undecodable links as written
+  }
+  decoded.split("/").forEach((part) => {
+    if (part === "..") parts.pop();
+    else if (part && part !== ".") parts.push(part);
+  });
+  return parts.join("/");
+}
+
+// Every file in the export; large exports come as zips inside the zip
+function readZip(data: Uint8Array): Record<string, Uint8Array> {
+  const files: Record<string, Uint8Array> = {};
+  Object.entries(unzipSync(data)).forEach(([path, content]) => {
+    if (path.endsWith("/") || path.startsWith("__MACOSX/")) return;
+    if (path.toLowerCase().endsWith(".zip")) Object.assign(files, readZip(content));
+    else files[path] = content;
+  });
+  return files;
+}
+
+// Notion writes callouts as <aside> elements; turn them into the quotes the
+// Markdown importer reads as callouts
+function prepareNotionMarkdown(markdown: string): string {
+  return markdown.replace(/<aside>\s*([\s\S]*?)\s*<\/aside>/g, (_, inner: string) =>
+    `**Note:** ${inner.trim()}`
+      .split("\n")
+      .map((line) => `> ${line}`.trimEnd())
+      .join("\n")
+  );
+}
+
+// A relation column links every value to pages of the export
+const isRelationColumn = (values: string[]) => {
+  const filled = values.map((value) => value.trim()).filter(Boolean);
+  return filled.length > 0 && filled.every((value) => value.match(RELATION_ITEM) && !value.replace(RELATION_ITEM, "").replace(/[\s,]/g, ""));
+};
+
+// Read a Notion export zip into pages
+export async function importNotionZip(data: ArrayBuffer | Uint8Array, options: NotionImportOptions = {}): Promise<NotionImportResult> {
+  const createId = options.createId || (() => crypto.randomUUID());
+  const upload = options.uploadAttachment || ((file: File) => uploadToStorage(file, options.workspaceId || "imports"));
+  const files = readZip(data instanceof Uint8Array ? data : new Uint8Array(data));
+  const warnings: string[] = [];
+  const now = new Date();
+
+  // Databases, preferring "_all.csv" (every row) over the rows of the exported view
+  const csvPaths = new Map<string, string>();
+  Object.keys(files)
+    .filter((path) => /\.csv$/i.test(path))
+    .sort()
+    .forEach((path) => {
+      const key = stripExtension(path).replace(/_all$/, "");
+      if (!csvPaths.has(key) || /_all\.csv$/i.test(path)) csvPaths.set(key, path);
+    });
+  const markdownPaths = Object.keys(files).filter((path) => /\.md$/i.test(path));
+
+  // IDs are handed out first so links can point at pages that are read later
+  const ids = new Map<string, string>();
+  const keysByNotionId = new Map<string, string>();
+  [...markdownPaths.map(stripExtension), ...csvPaths.keys()].forEach((key) => {
+    if (!ids.has(key)) ids.set(key, createId());
+    const notionId = notionIdOf(key);
+    if (notionId) keysByNotionId.set(notionId, key);
+  });
+
+  // The page a link points to: a .md or .csv in the export, or a notion.so URL of one
+  const findPage = (target: string, fromDir: string): string | undefined => {
+    if (/^https?:/i.test(target)) {
+      const notionId = NOTION_URL_ID.exec(target)?.[1].toLowerCase();
+      const key = notionId ? keysByNotionId.get(notionId) : undefined;
+      return key ? ids.get(key) : undefined;
+    }
+    const path = target.split("#")[0];
+    if (isExternal(path) || !/\.(md|csv)$/i.test(path)) return undefined;
+    const key = stripExtension(resolvePath(fromDir, path)).replace(/_all$/, "");
+    const notionId = notionIdOf(key);
+    // Links between the parts of a split export don't resolve by path
+    return ids.get(key) ?? (notionId && keysByNotionId.has(notionId) ? ids.get(keysByNotionId.get(notionId)!) : undefined);
+  };
+
+  // Attachments are uploaded once, however many pages use them
+  const uploads = new Map<string, Promise<string | null>>();
+  const uploadAttachment = (path: string) => {
+    if (!uploads.has(path)) {
+      const file = fileFromBytes(files[path], basename(path));
+      uploads.set(
+        path,
+        upload(file).catch((error) => {
+          console.error("Error uploading attachment:", error);
+          return null;
+        })
+      );
+    }
+    return uploads.get(path)!;
+  };
+
+  // Where a link should point after the import: the new page, the uploaded file, or unchanged (null)
+  const resolveTarget = async (target: string, fromDir: string): Promise<string | null> => {
+    const pageId = findPage(target, fromDir);
+    if (pageId) return `/page/${pageId}`;
+    if (isExternal(target) || target.startsWith("#")) return null;
+    const path = resolvePath(fromDir, target);
+    if (!files[path]) return null;
+    const url = await uploadAttachment(path);
+    if (!url) warnings.push(`Could not upload ${path}`);
+    return url;
+  };
+
+  const rewriteLinks = async (text: string, fromDir: string): Promise<string> => {
+    let result = text;
+    if (isRichTextHtml(text)) {
+      for (const [match, href] of Array.from(text.matchAll(HTML_LINK))) {
+        const replacement = await resolveTarget(decodeAttribute(href), fromDir);
+        // A replacer, so "$&" or "$1" in the new link aren't read as patterns
+        if (replacement) result = result.replace(match, () => `<a href="${encodeAttribute(replacement)}">`);
+      }
+      return result;
+    }
+    for (const [match, bang, label, target] of Array.from(text.matchAll(LINK))) {
+      const replacement = await resolveTarget(target, fromDir);
+      if (replacement) result = result.replace(match, () => `${bang}[${label}](${replacement})`);
+    }
+    return result;
+  };
+
+  const rewriteBlocks = async (blocks: Block[], fromDir: string) => {
+    for (const block of blocks) {
+      const url = block.properties?.url;
+      if (block.type === "image" && typeof url === "string" && !isExternal(url)) {
+        const uploaded = await resolveTarget(url, fromDir);
+        if (uploaded) block.properties = { ...block.properties, url: uploaded };
+      }
+      if (block.content?.includes("](") || block.content?.includes("<a href=")) {
+        block.content = await rewriteLinks(block.content, fromDir);
+        block.text = block.content;
+      }
+    }
+  };
+
+  // Title and blocks of a Markdown page, with links and attachments rewritten
+  // Database rows repeat their properties as "Name: value" lines under the title; those are dropped
+  const readPage = async (path: string, propertyNames: string[] = []): Promise<{ title: string; blocks: Block[] }> => {
+    const imported = importMarkdown(prepareNotionMarkdown(strFromU8(files[path])), {
+      fileName: titleFromKey(stripExtension(path)),
+      createId,
+    });
+    let blocks = imported.blocks;
+    const first = blocks[0];
+    const isPropertyLine = (line: string) => propertyNames.some((name) => line.startsWith(`${name}:`));
+    if (propertyNames.length > 0 && first?.type === "paragraph" && (first.content || "").split("\n").every(isPropertyLine)) {
+      blocks = blocks.filter((block) => block.id !== first.id && block.parentId !== first.id);
+    }
+    await rewriteBlocks(blocks, dirname(path));
+    return { title: imported.title, blocks };
+  };
+
+  const pages = new Map<string, Page>();
+  const databaseIds = new Set<string>();
+  const read = new Set<string>();
+  const makePage = (key: string, fields: Partial<Page>): Page => ({
+    id: ids.get(key)!,
+    title: titleFromKey(key),
+    icon: "",
+    blocks: [],
+    createdAt: now,
+    updatedAt: now,
+    ...(options.workspaceId ? { workspaceId: options.workspaceId } : {}),
+    ...fields,
+  });
+
+  for (const [key, csvPath] of csvPaths) {
+    const [header = [], ...records] = parseCsv(strFromU8(files[csvPath]));
+    // The first column is the row title
+    const columns = header.slice(1).map((name) => name.trim());
+
+    const schema: Record<string, DatabaseProperty> = {};
+    columns.forEach((name, index) => {
+      const values = records.map((record) => record[index + 1] || "");
+      schema[name] = isRelationColumn(values) ? createPropertyDefinition("relation", name) : createPropertyFromColumn(name, values);
+    });
+
+    const view: ViewDefinition = { id: createId(), name: "Table", type: "table", properties: columns };
+    const databasePath = `${key}.md`;
+    pages.set(
+      key,
+      makePage(key, {
+        title: titleFromKey(csvPath.replace(/_all\.csv$/i, ".csv").replace(/\.csv$/i, "")),
+        blocks: files[databasePath] ? (await readPage(databasePath)).blocks : [],
+        properties: schema,
+        views: [view],
+        lastActiveViewId: view.id,
+      })
+    );
+    read.add(databasePath);
+    databaseIds.add(ids.get(key)!);
+
+    // Row pages are matched by title, as Notion names each file after its row
+    const rowPaths = markdownPaths.filter((path) => dirname(path) === key);
+    for (const record of records) {
+      const title = record[0]?.trim() || "Untitled";
+      const rowPath = rowPaths.find((path) => !read.has(path) && looseTitle(titleFromKey(stripExtension(path))) === looseTitle(title));
+      const rowKey = rowPath ? stripExtension(rowPath) : `${key}/${createId()}`;
+      if (!ids.has(rowKey)) ids.set(rowKey, createId());
+
+      const propertyValues: Record<string, any> = {};
+      const properties: Record<string, DatabaseProperty> = {};
+      columns.forEach((name, index) => {
+        const property = schema[name];
+        const cell = record[index + 1] || "";
+        if (property.type === "relation") {
+          const linkedPageIds = Array.from(cell.matchAll(RELATION_ITEM))
+            .map(([, , target]) => findPage(target, dirname(csvPath)))
+            .filter((id): id is string => !!id);
+          properties[name] = { ...property, linkedPageIds };
+          return;
+        }
+        const { value, error } = convertCsvValue(cell, property);
+        if (error) warnings.push(`${title}: ${name}: ${error}`);
+        propertyValues[name] = value;
+      });
+
+      if (rowPath) read.add(rowPath);
+      pages.set(
+        rowKey,
+        makePage(rowKey, {
+          title,
+          blocks: rowPath ? (await readPage(rowPath, columns)).blocks : [],
+          propertyValues,
+          ...(Object.keys(properties).length > 0 ? { properties } : {}),
+        })
+      );
+    }
+  }
+
+  for (const path of markdownPaths) {
+    if (read.has(path)) continue;
+    const key = stripExtension(path);
+    pages.set(key, makePage(key, await readPage(path)));
+  }
+
+  // A page's parent is the page or database its file sits in the folder of
+  pages.forEach((page, key) => {
+    const parentId = ids.get(dirname(key));
+    if (parentId && parentId !== page.id) page.parentId = parentId;
+  });
+
+  const byId = new Map(Array.from(pages.values()).map((page) => [page.id, page]));
+  const ancestors = (page: Page) => {
+    const result: string[] = [];
+    for (let id = page.parentId; id && !result.includes(id); id = byId.get(id)?.parentId) result.push(id);
+    return result;
+  };
+  // Siblings keep the order of the export; rows keep the order of the CSV
+  const ordered = Array.from(pages.entries())
+    .sort(([keyA, a], [keyB, b]) => ancestors(a).length - ancestors(b).length || (a.parentId === b.parentId && databaseIds.has(a.parentId!) ? 0 : keyA.localeCompare(keyB)))
+    .map(([, page]) => page);
+  const isInDatabase = (page: Page) => ancestors(page).some((id) => databaseIds.has(id));
+
+  return {
+    pages: ordered.filter((page) => !isInDatabase(page)),
+    rows: ordered.filter(isInDatabase),
+    warnings,
+  };
+}
+
+// Read a Notion export chosen by the user
+export async function importNotionFile(file: File, options: NotionImportOptions = {}): Promise<NotionImportResult> {
+  return importNotionZip(await file.arrayBuffer(), options);
+}
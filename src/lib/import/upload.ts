@@ -0,0 +1,31 @@
+import { uploadFile, uploadImage } from "../storage";
+
+// Files found in imported archives, uploaded through the configured storage provider
+
+const MIME_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+  pdf: "application/pdf",
+  mp4: "video/mp4",
+  mp3: "audio/mpeg",
+  txt: "text/plain",
+};
+
+// A File for bytes read from an archive; the type comes from the extension unless given
+export function fileFromBytes(data: Uint8Array, name: string, type?: string): File {
+  const extension = name.split(".").pop()?.toLowerCase() || "";
+  return new File([data as BlobPart], name, { type: type || MIME_TYPES[extension] || "application/octet-stream" });
+}
+
+// Upload an attachment; images go through the image pipeline, anything else as a plain file
+export async function uploadToStorage(file: File, workspaceId: string): Promise<string | null> {
+  const { url, error } = file.type.startsWith("image/")
+    ? await uploadImage(file, workspaceId)
+    : await uploadFile(file, `workspaces/${workspaceId}/files`, { resourceType: "auto" });
+  if (error) console.error("Error uploading attachment:", error);
+  return url;
+}
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { strFromU8, unzipSync } from 'fflate';
+import { buildWorkspaceArchive } from '../export/workspace';
+import { importWorkspaceArchive, isWorkspaceArchive } from './workspace';
+import { Page, Workspace } from '../../types/workspace';
+
+describe('Workspace export and import', () => {
+    const date = new Date('2024-03-04T10:00:00.000Z');
+    const page = (id: string, title: string, extra: Partial<Page> = {}): Page => ({
+        id,
+        title,
+        icon: '📄',
+        blocks: [],
+        createdAt: date,
+        updatedAt: date,
+        ...extra,
+    });
+
+    const workspace: Workspace = {
+        id: 'w1',
+        name: 'Acme',
+        ownerId: 'u1',
+        members: ['u1'],
+        createdAt: date,
+        updatedAt: date,
+        pages: [
+            page('home', 'Home', {
+                blocks: [
+                    { id: 'b1', type: 'paragraph', content: 'See [Tasks](/page/tasks)' },
+                    { id: 'b2', type: 'image', properties: { url: 'https://cdn.example.com/a/diagram.png', caption: 'Diagram' } },
+                ],
+            }),
+            page('tasks', 'Tasks', {
+                parentId: 'home',
+                properties: { Status: { type: 'select', name: 'Status', options: [] } },
+                views: [{ id: 'v1', name: 'Table', type: 'table' }],
+            }),
+            page('t1', 'Write docs', { parentId: 'tasks', propertyValues: { Status: 'Done' } }),
+            page('t2', 'Ship', {
+                parentId: 'tasks',
+                properties: { 'Blocked by': { type: 'relation', name: 'Blocked by', linkedPageIds: ['t1', 'gone'] } },
+                blocks: [
+                    { id: 'b3', type: 'toggle', content: 'Steps' },
+                    { id: 'b4', type: 'paragraph', content: 'Tag it', parentId: 'b3' },
+                ],
+            }),
+            page('n1', 'Notes: draft?', { parentId: 'home' }),
+            page('n2', 'Notes: draft?', { parentId: 'home' }),
+        ],
+    };
+
+    const comments = [
+        {
+            id: 'c1',
+            blockId: 'b4',
+            pageId: 't2',
+            userId: 'u1',
+            userName: 'Sam',
+            content: 'Which tag?',
+            createdAt: '2024-03-05T00:00:00.000Z',
+            updatedAt: '2024-03-05T00:00:00.000Z',
+            resolved: false,
+        },
+    ];
+
+    const buildArchive = () =>
+        buildWorkspaceArchive(workspace, {
+            comments,
+            fetchMedia: async (url) => (url.endsWith('.png') ? { data: new Uint8Array([137, 80, 78, 71]), contentType: 'image/png' } : null),
+        });
+
+    it('should write every page as Markdown and HTML in folders that follow the hierarchy', async () => {
+        const { data, warnings } = await buildArchive();
+        expect(warnings).toEqual([]);
+
+        const files = unzipSync(data);
+        expect(Object.keys(files).sort()).toEqual([
+            'manifest.json',
+            'media/1-diagram.png',
+            'pages/Home.html',
+            'pages/Home.md',
+            'pages/Home/Notes- draft- (2).html',
+            'pages/Home/Notes- draft- (2).md',
+            'pages/Home/Notes- draft-.html',
+            'pages/Home/Notes- draft-.md',
+            'pages/Home/Tasks.html',
+            'pages/Home/Tasks.md',
+            'pages/Home/Tasks/Ship.html',
+            'pages/Home/Tasks/Ship.md',
+            'pages/Home/Tasks/Write docs.html',
+            'pages/Home/Tasks/Write docs.md',
+        ]);
+        // The page files use the downloaded copy of the media
+        expect(strFromU8(files['pages/Home.md'])).toContain('../media/1-diagram.png');
+        expect(strFromU8(files['pages/Home.html'])).toContain('src="../media/1-diagram.png"');
+
+        const manifest = JSON.parse(strFromU8(files['manifest.json']));
+        expect(manifest.workspace).toMatchObject({ id: 'w1', name: 'Acme' });
+        expect(manifest.pages).toHaveLength(6);
+        expect(manifest.comments).toEqual(comments);
+        expect(isWorkspaceArchive(data)).toBe(true);
+    });
+
+    it('should restore pages, rows, links, media and comments with new ids', async () => {
+        const { data } = await buildArchive();
+        let nextId = 0;
+        const uploaded: string[] = [];
+        const result = await importWorkspaceArchive(data, {
+            workspaceId: 'w2',
+            createId: () => `id-${++nextId}`,
+            uploadMedia: async (file) => {
+                uploaded.push(`${file.name} ${file.type}`);
+                return `https://new.example.com/${file.name}`;
+            },
+        });
+
+        expect(result.name).toBe('Acme');
+        expect(result.warnings).toEqual([]);
+        expect(uploaded).toEqual(['1-diagram.png image/png']);
+
+        const [home, tasks] = result.pages;
+        expect(result.pages.map((p) => p.title)).toEqual(['Home', 'Tasks', 'Notes: draft?', 'Notes: draft?']);
+        expect(result.pages.every((p) => !['home', 'tasks', 'n1', 'n2'].includes(p.id) && p.workspaceId === 'w2')).toBe(true);
+        expect(tasks.parentId).toBe(home.id);
+        expect(tasks.views).toEqual(workspace.pages[1].views);
+        expect(home.blocks[0].content).toBe(`See [Tasks](/page/${tasks.id})`);
+        expect(home.blocks[1].properties).toEqual({ url: 'https://new.example.com/1-diagram.png', caption: 'Diagram' });
+        expect(home.createdAt).toEqual(date);
+
+        // Pages under the database are rows; relations keep the links that still resolve
+        const [write, ship] = result.rows;
+        expect(result.rows.map((p) => [p.title, p.parentId])).toEqual([
+            ['Write docs', tasks.id],
+            ['Ship', tasks.id],
+        ]);
+        expect(write.propertyValues).toEqual({ Status: 'Done' });
+        expect(ship.properties!['Blocked by'].linkedPageIds).toEqual([write.id]);
+        expect(ship.blocks[1].parentId).toBe(ship.blocks[0].id);
+
+        expect(result.comments).toEqual([
+            {
+                blockId: ship.blocks[1].id,
+                userId: 'u1',
+                userName: 'Sam',
+                content: 'Which tag?',
+                createdAt: new Date('2024-03-05T00:00:00.000Z'),
+                updatedAt: new Date('2024-03-05T00:00:00.000Z'),
+                resolved: false,
+            },
+        ]);
+    });
+});
@@ -0,0 +1,168 @@
+import { strFromU8, unzipSync } from "fflate";
+import { Block, Page } from "../../types/workspace";
+import {
+  ArchivedComment,
+  MANIFEST_PATH,
+  WORKSPACE_ARCHIVE_FORMAT,
+  WORKSPACE_ARCHIVE_VERSION,
+  WorkspaceArchiveManifest,
+} from "../export/workspace";
+import { fileFromBytes, uploadToStorage } from "./upload";
+
+// Workspace archive import
+// Restores what lib/export/workspace.ts wrote. Pages and blocks get new IDs so
+// an archive can be imported next to the workspace it came from; parents,
+// relations, internal links and comments are pointed at the new IDs, and the
+// archived media is uploaded again.
+
+export interface WorkspaceImportOptions {
+  workspaceId?: string;
+  createId?: () => string;
+  uploadMedia?: (file: File) => Promise<string | null>; // Returns the URL of the uploaded file
+}
+
+export interface RestoredComment extends Omit<ArchivedComment, "id" | "pageId" | "createdAt" | "updatedAt"> {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WorkspaceImportResult {
+  name: string; // Name of the exported workspace
+  pages: Page[]; // Top-level pages and their sub-pages, parents first
+  rows: Page[]; // Pages inside databases, stored with the database rows
+  comments: RestoredComment[];
+  warnings: string[];
+}
+
+// Function to read the manifest, or null when the zip isn't a workspace archive
+function readManifest(files: Record<string, Uint8Array>): WorkspaceArchiveManifest | null {
+  if (!files[MANIFEST_PATH]) return null;
+  try {
+    const manifest = JSON.parse(strFromU8(files[MANIFEST_PATH]));
+    return manifest?.format === WORKSPACE_ARCHIVE_FORMAT ? manifest : null;
+  } catch {
+    return null;
+  }
+}
+
+// Public function to tell workspace archives from other zips (e.g. Notion exports)
+export function isWorkspaceArchive(data: Uint8Array): boolean {
+  try {
+    return readManifest(unzipSync(data, { filter: (file) => file.name === MANIFEST_PATH })) !== null;
+  } catch {
+    return false;
+  }
+}
+
+// Function to drop undefined fields, which Firestore rejects
+function withoutUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined)) as T;
+}
+
+// Public function to restore a workspace archive
+export async function importWorkspaceArchive(data: ArrayBuffer | Uint8Array, options: WorkspaceImportOptions = {}): Promise<WorkspaceImportResult> {
+  const createId = options.createId || (() => crypto.randomUUID());
+  const upload = options.uploadMedia || ((file: File) => uploadToStorage(file, options.workspaceId || "imports"));
+  const files = unzipSync(data instanceof Uint8Array ? data : new Uint8Array(data));
+  const manifest = readManifest(files);
+  if (!manifest) throw new Error("This zip isn't a workspace export");
+  if (manifest.version > WORKSPACE_ARCHIVE_VERSION) {
+    throw new Error("This workspace export was made by a newer version of the app");
+  }
+  const warnings: string[] = [];
+
+  // Media goes back to storage; whatever can't be uploaded keeps its old URL
+  const urls = new Map<string, string>();
+  for (const media of manifest.media) {
+    const content = files[media.path];
+    const url = content ? await upload(fileFromBytes(content, media.path.split("/").pop()!, media.contentType)) : null;
+    if (url) urls.set(media.url, url);
+    else warnings.push(`Couldn't upload ${media.path}`);
+  }
+  const mapUrl = (url: string | undefined) => (url && urls.get(url)) || url;
+
+  const pageIds = new Map(manifest.pages.map((page) => [page.id, createId()]));
+  const blockIds = new Map(manifest.pages.flatMap((page) => page.blocks.map((block) => [block.id, createId()] as const)));
+  const mapLinks = (text: string | undefined) =>
+    text?.replace(/\/page\/([\w-]+)/g, (link, id: string) => (pageIds.has(id) ? `/page/${pageIds.get(id)}` : link));
+
+  const restoreBlock = (block: Block): Block =>
+    withoutUndefined({
+      ...block,
+      id: blockIds.get(block.id)!,
+      parentId: block.parentId ? blockIds.get(block.parentId) : undefined,
+      content: mapLinks(block.content),
+      text: mapLinks(block.text),
+      properties: block.properties?.url ? { ...block.properties, url: mapUrl(block.properties.url) } : block.properties,
+      createdAt: block.createdAt ? new Date(block.createdAt) : undefined,
+      updatedAt: block.updatedAt ? new Date(block.updatedAt) : undefined,
+    });
+
+  // Relations only keep links to pages that are in the archive
+  // (their relationLinks documents are written along with the pages, by createRelationLinksForPages)
+  const restoreProperties = (properties: Page["properties"]) =>
+    properties &&
+    Object.fromEntries(
+      Object.entries(properties).map(([key, property]: [string, any]) => [
+        key,
+        property?.type === "relation"
+          ? {
+              ...property,
+              linkedPageIds: (property.linkedPageIds || []).filter((id: string) => pageIds.has(id)).map((id: string) => pageIds.get(id)),
+            }
+          : property,
+      ])
+    );
+
+  const byId = new Map(manifest.pages.map((page) => [page.id, page]));
+  const restored = manifest.pages.map(({ path, ...page }): Page =>
+    withoutUndefined({
+      ...page,
+      id: pageIds.get(page.id)!,
+      parentId: page.parentId ? pageIds.get(page.parentId) : undefined,
+      workspaceId: options.workspaceId,
+      cover: mapUrl(page.cover),
+      blocks: page.blocks.map(restoreBlock),
+      properties: restoreProperties(page.properties),
+      createdAt: new Date(page.createdAt),
+      updatedAt: new Date(page.updatedAt),
+    })
+  );
+
+  // Pages under a database (a page with views) are its rows
+  const isRow = (id: string): boolean => {
+    for (let parentId = byId.get(id)?.parentId, depth = 0; parentId && depth < 100; depth++) {
+      const parent = byId.get(parentId);
+      if (parent?.views?.length) return true;
+      parentId = parent?.parentId;
+    }
+    return false;
+  };
+  // Parents come before children so each level can be written in order
+  const depthOf = (id: string): number => {
+    let depth = 0;
+    for (let parentId = byId.get(id)?.parentId; parentId && byId.has(parentId) && depth < 100; depth++) {
+      parentId = byId.get(parentId)?.parentId;
+    }
+    return depth;
+  };
+  const originalIds = new Map(restored.map((page, index) => [page.id, manifest.pages[index].id]));
+  const sorted = [...restored].sort((a, b) => depthOf(originalIds.get(a.id)!) - depthOf(originalIds.get(b.id)!));
+
+  const comments = manifest.comments
+    .filter((comment) => blockIds.has(comment.blockId))
+    .map(({ id, pageId, ...comment }): RestoredComment => ({
+      ...comment,
+      blockId: blockIds.get(comment.blockId)!,
+      createdAt: new Date(comment.createdAt),
+      updatedAt: new Date(comment.updatedAt),
+    }));
+
+  return {
+    name: manifest.workspace.name,
+    pages: sorted.filter((page) => !isRow(originalIds.get(page.id)!)),
+    rows: sorted.filter((page) => isRow(originalIds.get(page.id)!)),
+    comments,
+    warnings,
+  };
+}
@@ -0,0 +1,78 @@
+// Minimal XML reader for the Office files the importers open
+// Enough for well-formed package parts: elements, attributes, text, CDATA and
+// entities. Comments, processing instructions and doctypes are skipped.
+
+export interface XmlElement {
+  name: string; // Qualified name, e.g. "w:p"
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+const TOKEN =
+  /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<(\/?)([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+const ATTRIBUTE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+// Function to decode character and predefined entities
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, code: string) => {
+    const named: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+    if (named[code]) return named[code];
+    const value = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+  });
+}
+
+// Public function to parse XML into a tree
+// Returns a "#document" element holding the root element
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: "#document", attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  let match: RegExpExecArray | null;
+  TOKEN.lastIndex = 0;
+  while ((match = TOKEN.exec(xml))) {
+    const [token, cdata, closing, name, attributeText, selfClosing, text] = match;
+    const parent = stack[stack.length - 1];
+    if (cdata !== undefined) {
+      parent.children.push(cdata);
+    } else if (text !== undefined) {
+      parent.children.push(decodeXml(text));
+    } else if (name && closing) {
+      // Unbalanced closing tags close up to the matching element, if any
+      const index = stack.map((element) => element.name).lastIndexOf(name);
+      if (index > 0) stack.length = index;
+    } else if (name) {
+      const attributes: Record<string, string> = {};
+      for (const attribute of attributeText.matchAll(ATTRIBUTE)) {
+        attributes[attribute[1]] = decodeXml(attribute[2] ?? attribute[3] ?? "");
+      }
+      const element: XmlElement = { name, attributes, children: [] };
+      parent.children.push(element);
+      if (!selfClosing) stack.push(element);
+    } else if (token.startsWith("<") && !token.startsWith("<!") && !token.startsWith("<?")) {
+      parent.children.push(decodeXml(token));
+    }
+  }
+  return root;
+}
+
+// Public function to list an element's child elements, optionally only those with a name
+export function childElements(element: XmlElement, name?: string): XmlElement[] {
+  return element.children.filter((child): child is XmlElement => typeof child !== "string" && (!name || child.name === name));
+}
+
+// Public function to get the first child element with a name
+export function findChild(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return element ? childElements(element, name)[0] : undefined;
+}
+
+// Public function to find every element with a name below an element, in document order
+export function findDescendants(element: XmlElement, name: string): XmlElement[] {
+  return childElements(element).flatMap((child) => [...(child.name === name ? [child] : []), ...findDescendants(child, name)]);
+}
+
+// Public function to get the text of an element and everything below it
+export function textContent(element: XmlElement): string {
+  return element.children.map((child) => (typeof child === "string" ? child : textContent(child))).join("");
+}
@@ -0,0 +1,87 @@
+import { onIdTokenChanged } from 'firebase/auth';
+import app, { auth } from '../firebase/config';
+import { saveSyncCredentials } from './queue';
+import { reportBackgroundSync, subscribeToSyncStatus, syncOfflineChanges } from './sync';
+
+// Background Sync
+// There's one offline queue: the IndexedDB one in `queue.ts`, which the service
+// worker (`public/sw.js`) opens too. While a tab is open, `sync.ts` replays it.
+// When operations are queued offline, or a tab is left with some still pending,
+// a Background Sync is registered: once there's a connection the browser wakes
+// the service worker, even with every tab closed. It then either asks an open tab
+// to sync, or replays the queue itself through Firestore's REST API, as the
+// signed-in user (whose refresh token is kept with the queue).
+//
+// The service worker only replays block creation, block and page edits and block
+// deletion, and only edits nobody else has made changes under since they were
+// queued. At the first operation it can't replay (page creation or deletion, a
+// possible conflict, property values to validate) it stops, so the queue keeps
+// its order; the rest waits for the app.
+
+// Keep these in sync with `public/sw.js`
+export const BACKGROUND_SYNC_TAG = 'worklin-offline-queue';
+const FLUSH_MESSAGE = 'SYNC_OFFLINE_QUEUE'; // Service worker → tab: replay the queue
+const FLUSHED_MESSAGE = 'OFFLINE_QUEUE_FLUSHED'; // Service worker → tabs: it replayed the queue
+
+/**
+ * Asks the browser to wake the service worker to flush the queue once online.
+ * Returns false where Background Sync isn't supported (e.g. Firefox, Safari):
+ * the queue then syncs next time the app is open.
+ */
+export const requestBackgroundSync = async () => {
+    if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return false;
+    const registration = await navigator.serviceWorker.getRegistration();
+    const sync = (registration as (ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } }) | undefined)?.sync;
+    if (!sync) return false;
+    await sync.register(BACKGROUND_SYNC_TAG);
+    return true;
+};
+
+const register = () => {
+    requestBackgroundSync().catch((error) => console.warn('Failed to register background sync:', error));
+};
+
+/**
+ * Connects this tab to background sync: keeps the service worker's credentials
+ * current, registers syncs when changes are left pending, and follows what the
+ * service worker does. Returns a cleanup function.
+ */
+export const startBackgroundSync = () => {
+    const unsubscribeAuth = onIdTokenChanged(auth, (user) => {
+        const { apiKey, projectId } = app.options;
+        const credentials =
+            user && apiKey && projectId ? { uid: user.uid, refreshToken: user.refreshToken, apiKey, projectId } : null;
+        saveSyncCredentials(credentials).catch((error) => console.warn('Failed to save background sync credentials:', error));
+    });
+
+    // Changes queued while offline
+    let pending = 0;
+    const unsubscribeStatus = subscribeToSyncStatus((status) => {
+        if (status.pending > pending && !navigator.onLine) register();
+        pending = status.pending;
+    });
+
+    // Changes still pending (e.g. waiting to retry) when the tab goes away
+    const handlePageHide = () => {
+        if (pending > 0) register();
+    };
+
+    const handleMessage = (event: MessageEvent) => {
+        const { type, error } = event.data || {};
+        if (type === FLUSH_MESSAGE) {
+            syncOfflineChanges().catch((syncError) => console.error('Failed to sync offline changes:', syncError));
+        } else if (type === FLUSHED_MESSAGE) {
+            reportBackgroundSync(error ?? null).catch(() => undefined);
+        }
+    };
+
+    window.addEventListener('pagehide', handlePageHide);
+    navigator.serviceWorker?.addEventListener('message', handleMessage);
+
+    return () => {
+        unsubscribeAuth();
+        unsubscribeStatus();
+        window.removeEventListener('pagehide', handlePageHide);
+        navigator.serviceWorker?.removeEventListener('message', handleMessage);
+    };
+};
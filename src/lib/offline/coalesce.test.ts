@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { coalesceOperation, getOperationDependencies } from './coalesce';
+import { getRetryDelay, isPermanentError, BASE_RETRY_DELAY, MAX_RETRY_DELAY } from './retry';
+import { OfflineOperation } from './queue';
+
+describe('Offline queue', () => {
+    const op = (id: number | undefined, type: OfflineOperation['type'], payload: any): OfflineOperation => ({ id, type, payload, timestamp: id ?? 99 });
+
+    it('should fold successive updates of a block or page into one', () => {
+        const queue = [
+            op(1, 'updateBlock', { blockId: 'a', updates: { text: 'H', checked: true } }),
+            op(2, 'updatePage', { pageId: 'p', data: { title: 'Draft' } }),
+        ];
+
+        const block = coalesceOperation(queue, op(undefined, 'updateBlock', { blockId: 'a', updates: { text: 'Hi' } }));
+        expect(block.add).toBeNull();
+        expect(block.put[0].id).toBe(1);
+        expect(block.put[0].payload.updates).toEqual({ text: 'Hi', checked: true });
+
+        const page = coalesceOperation(queue, op(undefined, 'updatePage', { pageId: 'p', data: { icon: '📄' } }));
+        expect(page.put[0].payload.data).toEqual({ title: 'Draft', icon: '📄' });
+
+        // The operation being synced is left alone
+        const inFlight = coalesceOperation(queue, op(undefined, 'updateBlock', { blockId: 'a', updates: { text: 'Hi' } }), 1);
+        expect(inFlight.add).not.toBeNull();
+        expect(inFlight.put).toEqual([]);
+    });
+
+    it('should drop what a delete makes unnecessary', () => {
+        const queue = [
+            op(1, 'createBlock', { pageId: 'p', blockData: { id: 'new', text: '' } }),
+            op(2, 'updateBlock', { blockId: 'old', updates: { text: 'x' } }),
+        ];
+
+        // Updates of a block not yet created go into its creation
+        const created = coalesceOperation(queue, op(undefined, 'updateBlock', { blockId: 'new', updates: { text: 'Hello' } }));
+        expect(created.put[0].payload.blockData).toEqual({ id: 'new', text: 'Hello' });
+
+        // Created and deleted offline: nothing to replay
+        expect(coalesceOperation(queue, op(undefined, 'deleteBlock', { blockId: 'new' }))).toEqual({ add: null, put: [], remove: [1] });
+
+        const deleted = coalesceOperation(queue, op(undefined, 'deleteBlock', { blockId: 'old' }));
+        expect(deleted.add?.type).toBe('deleteBlock');
+        expect(deleted.remove).toEqual([2]);
+    });
+
+    it('should replay pages created offline under their own IDs', () => {
+        const parent = op(1, 'createPage', { pageId: 'p1', workspaceId: 'w', pageData: { id: 'p1', title: '' } });
+        const child = op(2, 'createPage', { pageId: 'p2', workspaceId: 'w', pageData: { id: 'p2', title: '', parentId: 'p1' } });
+        const block = op(3, 'createBlock', { pageId: 'p2', blockData: { id: 'b1', text: '' } });
+
+        // Renaming a page not yet created goes into its creation
+        const renamed = coalesceOperation([parent, child, block], op(undefined, 'updatePage', { pageId: 'p1', data: { title: 'Plans' } }));
+        expect(renamed.add).toBeNull();
+        expect(renamed.put[0].payload.pageData).toEqual({ id: 'p1', title: 'Plans' });
+
+        // A subpage waits for its parent, and a block for its page
+        expect(getOperationDependencies(child)).toEqual(['page:p2', 'page:p1']);
+        expect(getOperationDependencies(block)).toEqual(['block:b1', 'page:p2']);
+    });
+
+    it('should tell permanent errors from transient ones and back off', () => {
+        expect(isPermanentError({ code: 'permission-denied' })).toBe(true);
+        expect(isPermanentError({ code: 'unavailable' })).toBe(false);
+        expect(isPermanentError(new Error('No document to update: projects/x/databases/(default)/documents/blocks/a'))).toBe(true);
+        expect(isPermanentError(new Error('Failed to get document because the client is offline.'))).toBe(false);
+
+        expect(getRetryDelay(1, () => 1)).toBe(BASE_RETRY_DELAY);
+        expect(getRetryDelay(3, () => 1)).toBe(BASE_RETRY_DELAY * 4);
+        expect(getRetryDelay(3, () => 0)).toBe(BASE_RETRY_DELAY * 2);
+        expect(getRetryDelay(50, () => 1)).toBe(MAX_RETRY_DELAY);
+    });
+});
@@ -0,0 +1,113 @@
+import { OfflineOperation } from './queue';
+import { mergeBases } from './conflicts';
+
+// Offline queue coalescing
+// Typing offline queues an update per keystroke. Rather than replaying each one,
+// an update is folded into the update already queued for the same block or page.
+// Queued updates of something that is then deleted for good are dropped, and a
+// block created and deleted while offline never reaches Firestore at all.
+// Pages and blocks created offline already have their Firestore IDs (generated
+// on the client), so later operations refer to them by the IDs they'll keep.
+
+/**
+ * What an operation acts on: `block:<id>` or `page:<id>`.
+ * Operations with the same target are replayed in order; null when unknown
+ * (operations queued before pages and blocks were created with their IDs).
+ */
+export const getOperationTarget = (op: OfflineOperation): string | null => {
+    switch (op.type) {
+        case 'updateBlock':
+        case 'deleteBlock':
+            return `block:${op.payload.blockId}`;
+        case 'createBlock':
+            return op.payload.blockData?.id ? `block:${op.payload.blockData.id}` : null;
+        case 'createPage':
+            return op.payload.pageId ? `page:${op.payload.pageId}` : null;
+        case 'updatePage':
+        case 'deletePage':
+        case 'restorePage':
+        case 'permanentlyDeletePage':
+            return `page:${op.payload.pageId}`;
+        default:
+            return null;
+    }
+};
+
+/**
+ * What must exist before an operation can be replayed: its target, plus the page
+ * a new block goes in or a new subpage goes under. Sync holds an operation back
+ * while any of these has an earlier operation still waiting to be retried.
+ */
+export const getOperationDependencies = (op: OfflineOperation): string[] => {
+    const target = getOperationTarget(op);
+    const parent =
+        op.type === 'createBlock' ? op.payload.pageId : op.type === 'createPage' ? op.payload.pageData?.parentId : undefined;
+    return [...(target ? [target] : []), ...(parent ? [`page:${parent}`] : [])];
+};
+
+export interface CoalesceResult {
+    add: OfflineOperation | null; // The operation to append, if it wasn't folded into a queued one
+    put: OfflineOperation[]; // Queued operations that changed
+    remove: number[]; // Queued operations no longer needed
+}
+
+/**
+ * Works out how a new operation changes the queue.
+ *
+ * @param queue - The queued operations, in order
+ * @param op - The new operation
+ * @param inFlightId - The operation being synced right now, which mustn't change
+ */
+export const coalesceOperation = (
+    queue: OfflineOperation[],
+    op: OfflineOperation,
+    inFlightId: number | null = null
+): CoalesceResult => {
+    const target = getOperationTarget(op);
+    const queued = target ? queue.filter((q) => getOperationTarget(q) === target && q.id !== undefined) : [];
+    const last = queued[queued.length - 1];
+    const isPending = (q: OfflineOperation | undefined): q is OfflineOperation => !!q && q.id !== inFlightId;
+
+    switch (op.type) {
+        case 'updateBlock':
+            if (isPending(last) && last.type === 'updateBlock') {
+                const updates = { ...last.payload.updates, ...op.payload.updates };
+                const base = mergeBases(last.payload.base, op.payload.base);
+                return { add: null, put: [{ ...last, payload: { ...last.payload, updates, base }, timestamp: op.timestamp }], remove: [] };
+            }
+            // A block that hasn't been created yet is created with the update
+            if (isPending(last) && last.type === 'createBlock') {
+                const blockData = { ...last.payload.blockData, ...op.payload.updates };
+                return { add: null, put: [{ ...last, payload: { ...last.payload, blockData }, timestamp: op.timestamp }], remove: [] };
+            }
+            break;
+
+        case 'updatePage':
+            if (isPending(last) && last.type === 'updatePage') {
+                const data = { ...last.payload.data, ...op.payload.data };
+                const base = mergeBases(last.payload.base, op.payload.base);
+                return { add: null, put: [{ ...last, payload: { ...last.payload, data, base }, timestamp: op.timestamp }], remove: [] };
+            }
+            // A page that hasn't been created yet is created with the update
+            // (blank "quick" pages have no page data to fold it into)
+            if (isPending(last) && last.type === 'createPage' && last.payload.pageData) {
+                const pageData = { ...last.payload.pageData, ...op.payload.data };
+                return { add: null, put: [{ ...last, payload: { ...last.payload, pageData }, timestamp: op.timestamp }], remove: [] };
+            }
+            break;
+
+        case 'deleteBlock': {
+            const pending = queued.filter(isPending);
+            const remove = pending.filter((q) => q.type === 'updateBlock' || q.type === 'createBlock').map((q) => q.id!);
+            // Created and deleted while offline: neither needs replaying
+            const created = pending.some((q) => q.type === 'createBlock');
+            return { add: created ? null : op, put: [], remove };
+        }
+
+        case 'permanentlyDeletePage': {
+            const remove = queued.filter((q) => isPending(q) && q.type === 'updatePage').map((q) => q.id!);
+            return { add: op, put: [], remove };
+        }
+    }
+    return { add: op, put: [], remove: [] };
+};
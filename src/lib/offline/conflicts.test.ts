@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { createBase, detectConflicts, mergeBases, resolveConflict, SyncConflict } from './conflicts';
+
+describe('Offline edit conflicts', () => {
+    const block = { id: 'a', text: 'Hello', type: 'paragraph', checked: false, updatedAt: new Date(1000) };
+
+    it('should apply edits as they are when nothing changed elsewhere', () => {
+        const base = createBase(block, ['text']);
+        expect(base).toEqual({ updatedAt: 1000, values: { text: 'Hello' } });
+        expect(detectConflicts({ text: 'Hello there' }, base, block)).toEqual({ apply: { text: 'Hello there' }, conflicts: [] });
+
+        // Without a base the edit can't be checked
+        expect(detectConflicts({ text: 'Hi' }, undefined, { ...block, text: 'Changed', updatedAt: new Date(2000) }).conflicts).toEqual([]);
+    });
+
+    it('should merge edits to different fields and report edits to the same one', () => {
+        const base = mergeBases(createBase(block, ['text']), createBase({ ...block, text: 'Hello there' }, ['text', 'checked']));
+        expect(base?.values).toEqual({ text: 'Hello', checked: false });
+
+        // Elsewhere, the type and the text changed
+        const server = { ...block, type: 'heading1', text: 'Hello world', updatedAt: new Date(2000) };
+        const { apply, conflicts } = detectConflicts({ text: 'Hello there', checked: true }, base, server);
+        expect(apply).toEqual({ checked: true });
+        expect(conflicts).toEqual([{ field: 'text', base: 'Hello', mine: 'Hello there', theirs: 'Hello world' }]);
+
+        // The same change made on both sides isn't a conflict
+        expect(detectConflicts({ text: 'Hello world' }, base, server)).toEqual({ apply: {}, conflicts: [] });
+    });
+
+    it('should resolve conflicts with mine, theirs or both', () => {
+        const conflict: SyncConflict = {
+            kind: 'block',
+            targetId: 'a',
+            pageId: 'p',
+            detectedAt: 0,
+            conflicts: [
+                { field: 'text', base: 'Hello', mine: 'Hello there', theirs: 'Hello world' },
+                { field: 'tags', base: [], mine: ['a'], theirs: ['b', 'a'] },
+            ],
+        };
+        expect(resolveConflict(conflict, 'mine')).toEqual({ text: 'Hello there', tags: ['a'] });
+        expect(resolveConflict(conflict, 'theirs')).toEqual({});
+        expect(resolveConflict(conflict, 'both')).toEqual({ text: 'Hello world\nHello there', tags: ['b', 'a'] });
+        expect(resolveConflict({ ...conflict, kind: 'page' }, 'both').text).toBe('Hello world / Hello there');
+    });
+});
@@ -0,0 +1,115 @@
+import { isEqual } from '../history/diff';
+
+// Offline edit conflicts
+// A block or page update queued offline records what it was made against: the
+// document's updatedAt and the values of the fields it changes (its base). On
+// replay, if the document changed on the server since, each field is checked:
+// - the server still has the base value: nobody else touched it, mine applies
+// - the server already has my value: nothing to do
+// - otherwise both sides changed it: a conflict, for the user to settle
+// Fields without conflicts are applied straight away (auto-merge).
+
+export interface OperationBase {
+    updatedAt: number | null; // The document's updatedAt when the edit was made, in ms
+    values: Record<string, any>; // The edited fields' values at that time (undefined = unset)
+}
+
+export interface FieldConflict {
+    field: string;
+    base: any;
+    mine: any;
+    theirs: any;
+}
+
+// A queued edit that conflicts with changes made on the server, waiting for the user
+export interface SyncConflict {
+    id?: number;
+    kind: 'block' | 'page';
+    targetId: string; // Block or page ID
+    pageId: string; // The page the block is in (the page itself for page edits)
+    conflicts: FieldConflict[];
+    detectedAt: number;
+}
+
+export type ConflictChoice = 'mine' | 'theirs' | 'both';
+
+// Milliseconds of a date as stored locally (Date or ms) or in Firestore (Timestamp)
+export const toMillis = (value: any): number | null => {
+    if (value === null || value === undefined) return null;
+    if (typeof value === 'number') return value;
+    const time = value.toMillis ? value.toMillis() : new Date(value).getTime();
+    return Number.isNaN(time) ? null : time;
+};
+
+/**
+ * The base of an edit: the document as the user last saw it, limited to the
+ * fields being changed. Undefined when the document isn't known, in which case
+ * the edit replays without conflict checks.
+ */
+export const createBase = (document: Record<string, any> | null | undefined, fields: string[]): OperationBase | undefined => {
+    if (!document) return undefined;
+    return {
+        updatedAt: toMillis(document.updatedAt),
+        values: Object.fromEntries(fields.map((field) => [field, document[field]])),
+    };
+};
+
+/**
+ * The base of two edits coalesced into one: the earlier edit's, with the base
+ * of fields only the later edit changed.
+ */
+export const mergeBases = (earlier: OperationBase | undefined, later: OperationBase | undefined): OperationBase | undefined => {
+    if (!earlier || !later) return earlier || later;
+    return { updatedAt: earlier.updatedAt, values: { ...later.values, ...earlier.values } };
+};
+
+/**
+ * Splits a queued edit into the fields that can be applied and the ones that
+ * conflict with what's on the server now.
+ */
+export const detectConflicts = (
+    mine: Record<string, any>,
+    base: OperationBase | undefined,
+    server: Record<string, any>
+): { apply: Record<string, any>; conflicts: FieldConflict[] } => {
+    // Unknown base, or nothing changed on the server since: mine applies as is
+    if (!base || (base.updatedAt !== null && toMillis(server.updatedAt) === base.updatedAt)) {
+        return { apply: mine, conflicts: [] };
+    }
+
+    const apply: Record<string, any> = {};
+    const conflicts: FieldConflict[] = [];
+    Object.entries(mine).forEach(([field, value]) => {
+        const theirs = server[field];
+        if (isEqual(theirs, value)) return;
+        if (!(field in base.values) || isEqual(theirs, base.values[field])) {
+            apply[field] = value;
+        } else {
+            conflicts.push({ field, base: base.values[field], mine: value, theirs });
+        }
+    });
+    return { apply, conflicts };
+};
+
+// Both sides' values in one: text joined, lists combined, objects merged (mine winning on shared keys)
+const combineValues = (theirs: any, mine: any, separator: string) => {
+    if (typeof theirs === 'string' && typeof mine === 'string') return theirs && mine ? `${theirs}${separator}${mine}` : theirs || mine;
+    if (Array.isArray(theirs) && Array.isArray(mine)) {
+        return [...theirs, ...mine.filter((item) => !theirs.some((other) => isEqual(other, item)))];
+    }
+    if (theirs && mine && typeof theirs === 'object' && typeof mine === 'object') return { ...theirs, ...mine };
+    return mine;
+};
+
+/**
+ * The updates that settle a conflict: mine overwrites theirs, theirs keeps the
+ * server's values, both combines them (block text on separate lines, page titles
+ * side by side).
+ */
+export const resolveConflict = (conflict: SyncConflict, choice: ConflictChoice): Record<string, any> => {
+    if (choice === 'theirs') return {};
+    const separator = conflict.kind === 'block' ? '\n' : ' / ';
+    return Object.fromEntries(
+        conflict.conflicts.map(({ field, mine, theirs }) => [field, choice === 'mine' ? mine : combineValues(theirs, mine, separator)])
+    );
+};
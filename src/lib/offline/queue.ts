@@ -1,5 +1,7 @@
 // src/lib/offline/queue.ts
 import { openDB, IDBPDatabase } from 'idb';
+import { coalesceOperation } from './coalesce';
+import { SyncConflict } from './conflicts';
 
 // Offline queue stored in IndexedDB.
 //
@@ -8,6 +10,13 @@ import { openDB, IDBPDatabase } from 'idb';
 // version and add an upgrade migration.
 const DB_NAME = 'worklin-offline-db';
 const STORE_NAME = 'offline-queue';
+// Operations that failed for good, kept so the user can see what didn't sync
+const DEAD_LETTER_STORE = 'offline-dead-letter';
+// Queued edits that conflicted with changes on the server, waiting for the user
+const CONFLICT_STORE = 'offline-conflicts';
+// How the service worker signs in to replay the queue with no tab open (see `background-sync.ts`)
+const CREDENTIALS_STORE = 'sync-credentials';
+const CREDENTIALS_KEY = 'current';
 
 /**
  * Offline Operations Queue
@@ -18,6 +27,9 @@ const STORE_NAME = 'offline-queue';
  * 2. DB function detects `!navigator.onLine`.
  * 3. Instead of Firestore, the action is saved here.
  * 4. When online returns, the `sync.ts` module replays these actions.
+ * 5. Updates queued one after another are coalesced (see `coalesce.ts`).
+ * 6. With every tab closed, the service worker replays what it can of the
+ *    same queue (see `background-sync.ts` and `public/sw.js`).
  */
 
 export interface OfflineOperation {
@@ -29,10 +41,47 @@ export interface OfflineOperation {
     // Payload is intentionally loose for now; individual producers control shape.
     // If this grows, consider narrowing per `type` to avoid silent mismatch bugs.
     payload: any;
-    // Used primarily for debugging and (later) for retry/backoff strategies.
+    // Used primarily for debugging; the time of the latest change coalesced into it.
     timestamp: number;
+    // Retry state, set by sync after a failed attempt (see `retry.ts`)
+    attempts?: number;
+    nextAttemptAt?: number;
+    lastError?: string;
 }
 
+// An operation moved out of the queue after failing for good
+export interface DeadLetterOperation extends OfflineOperation {
+    error: string;
+    failedAt: number;
+}
+
+// What the service worker needs to call Firestore's REST API as the signed-in user
+export interface SyncCredentials {
+    uid: string;
+    refreshToken: string;
+    apiKey: string;
+    projectId: string;
+}
+
+// Listeners told when the queue or dead-letter store changes (e.g. to show pending counts)
+const listeners = new Set<() => void>();
+
+const notifyListeners = () => listeners.forEach((listener) => listener());
+
+export const subscribeToQueue = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+// The operation sync is replaying; coalescing must not change it underneath
+let inFlightId: number | null = null;
+
+export const setInFlightOperation = (id: number | null) => {
+    inFlightId = id;
+};
+
 // Singleton promise to keep the DB connection open/reusable
 let dbPromise: Promise<IDBPDatabase> | null = null;
 
@@ -42,13 +91,25 @@ let dbPromise: Promise<IDBPDatabase> | null = null;
  */
 function getDB() {
     if (!dbPromise) {
-        dbPromise = openDB(DB_NAME, 1, {
+        dbPromise = openDB(DB_NAME, 4, {
             upgrade(db) {
                 if (!db.objectStoreNames.contains(STORE_NAME)) {
                     // We use an auto-incremented key so we can preserve insertion order.
                     // That helps us replay operations deterministically.
                     db.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
                 }
+                // v2: dead-letter store, keyed by the operation's queue id
+                if (!db.objectStoreNames.contains(DEAD_LETTER_STORE)) {
+                    db.createObjectStore(DEAD_LETTER_STORE, { keyPath: 'id' });
+                }
+                // v3: conflicts found when replaying edits (see `conflicts.ts`)
+                if (!db.objectStoreNames.contains(CONFLICT_STORE)) {
+                    db.createObjectStore(CONFLICT_STORE, { keyPath: 'id', autoIncrement: true });
+                }
+                // v4: sign-in for the service worker's background sync, under a fixed key
+                if (!db.objectStoreNames.contains(CREDENTIALS_STORE)) {
+                    db.createObjectStore(CREDENTIALS_STORE);
+                }
             },
         });
     }
@@ -56,7 +117,7 @@ function getDB() {
 }
 
 /**
- * Adds a new operation to the offline queue.
+ * Adds a new operation to the offline queue, coalescing it with queued ones.
  * Called by database.ts when network is unavailable.
  * * @param operation - The action details (type and data payload)
  */
@@ -66,8 +127,17 @@ export const addToQueue = async (operation: Omit<OfflineOperation, 'id' | 'times
         ...operation,
         timestamp: Date.now(),
     };
-    await db.add(STORE_NAME, op);
-    console.log('Operation added to offline queue:', op);
+    // Read and write in one transaction so concurrent adds can't coalesce into a stale queue
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const { add, put, remove } = coalesceOperation(await tx.store.getAll(), op, inFlightId);
+    await Promise.all([
+        ...put.map((queued) => tx.store.put(queued)),
+        ...remove.map((id) => tx.store.delete(id)),
+        ...(add ? [tx.store.add(add)] : []),
+    ]);
+    await tx.done;
+    notifyListeners();
+    console.log(add ? 'Operation added to offline queue:' : 'Operation coalesced into offline queue:', op);
 };
 
 /**
@@ -87,6 +157,106 @@ export const getQueue = async (): Promise<OfflineOperation[]> => {
 export const removeFromQueue = async (id: number) => {
     const db = await getDB();
     await db.delete(STORE_NAME, id);
+    notifyListeners();
+};
+
+/**
+ * Saves changes to a queued operation, keeping its place in the queue.
+ * Used by sync to record failed attempts and when to retry.
+ */
+export const updateQueuedOperation = async (op: OfflineOperation) => {
+    const db = await getDB();
+    await db.put(STORE_NAME, op);
+};
+
+/**
+ * Moves an operation that can't be synced from the queue to the dead-letter store.
+ */
+export const moveToDeadLetter = async (op: OfflineOperation, error: string) => {
+    if (op.id === undefined) return;
+    const db = await getDB();
+    const tx = db.transaction([STORE_NAME, DEAD_LETTER_STORE], 'readwrite');
+    const deadLetter: DeadLetterOperation = { ...op, error, failedAt: Date.now() };
+    await Promise.all([
+        tx.objectStore(DEAD_LETTER_STORE).put(deadLetter),
+        tx.objectStore(STORE_NAME).delete(op.id),
+    ]);
+    await tx.done;
+    notifyListeners();
+};
+
+/**
+ * Retrieves operations that failed for good, oldest first.
+ */
+export const getDeadLetters = async (): Promise<DeadLetterOperation[]> => {
+    const db = await getDB();
+    return db.getAll(DEAD_LETTER_STORE);
+};
+
+/**
+ * Puts a failed operation back at the end of the queue, with its retries reset.
+ */
+export const retryDeadLetter = async (id: number) => {
+    const db = await getDB();
+    const tx = db.transaction([STORE_NAME, DEAD_LETTER_STORE], 'readwrite');
+    const deadLetter: DeadLetterOperation | undefined = await tx.objectStore(DEAD_LETTER_STORE).get(id);
+    if (deadLetter) {
+        const operation: OfflineOperation = { type: deadLetter.type, payload: deadLetter.payload, timestamp: Date.now() };
+        await Promise.all([
+            tx.objectStore(STORE_NAME).add(operation),
+            tx.objectStore(DEAD_LETTER_STORE).delete(id),
+        ]);
+    }
+    await tx.done;
+    notifyListeners();
+};
+
+/**
+ * Discards a failed operation; its change is lost.
+ */
+export const discardDeadLetter = async (id: number) => {
+    const db = await getDB();
+    await db.delete(DEAD_LETTER_STORE, id);
+    notifyListeners();
+};
+
+/**
+ * Saves a conflict found when replaying an edit, for the user to resolve.
+ */
+export const addConflict = async (conflict: Omit<SyncConflict, 'id'>) => {
+    const db = await getDB();
+    await db.add(CONFLICT_STORE, conflict);
+    notifyListeners();
+};
+
+/**
+ * Retrieves conflicts waiting to be resolved, oldest first.
+ */
+export const getConflicts = async (): Promise<SyncConflict[]> => {
+    const db = await getDB();
+    return db.getAll(CONFLICT_STORE);
+};
+
+/**
+ * Removes a conflict once it's resolved.
+ */
+export const removeConflict = async (id: number) => {
+    const db = await getDB();
+    await db.delete(CONFLICT_STORE, id);
+    notifyListeners();
+};
+
+/**
+ * Saves the signed-in user's credentials for background sync, or removes them
+ * on sign-out. Firebase Auth keeps the same refresh token in IndexedDB.
+ */
+export const saveSyncCredentials = async (credentials: SyncCredentials | null) => {
+    const db = await getDB();
+    if (credentials) {
+        await db.put(CREDENTIALS_STORE, credentials, CREDENTIALS_KEY);
+    } else {
+        await db.delete(CREDENTIALS_STORE, CREDENTIALS_KEY);
+    }
 };
 
 /**
@@ -96,4 +266,5 @@ export const removeFromQueue = async (id: number) => {
 export const clearQueue = async () => {
     const db = await getDB();
     await db.clear(STORE_NAME);
+    notifyListeners();
 };
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { estimateSize, selectPagesToEvict, toStorable } from './replica';
+
+describe('Offline replica', () => {
+    it('should store Firestore timestamps as dates', () => {
+        const stored = toStorable({
+            id: 'a',
+            updatedAt: Timestamp.fromMillis(1000),
+            properties: { Due: { value: Timestamp.fromMillis(2000) } },
+            tags: ['x'],
+            cover: undefined,
+        });
+        expect(stored).toEqual({ id: 'a', updatedAt: new Date(1000), properties: { Due: { value: new Date(2000) } }, tags: ['x'] });
+        expect(estimateSize({ a: 1 })).toBe(14);
+    });
+
+    it('should evict the least recently used pages until under the quota', () => {
+        const entries = [
+            { pageId: 'recent', lastAccessed: 300, size: 40 },
+            { pageId: 'old', lastAccessed: 100, size: 30 },
+            { pageId: 'older', lastAccessed: 50, size: 20 },
+            { pageId: 'middle', lastAccessed: 200, size: 30 },
+        ];
+        expect(selectPagesToEvict(entries, new Set(), 200)).toEqual([]);
+        expect(selectPagesToEvict(entries, new Set(), 80)).toEqual(['older', 'old']);
+    });
+
+    it('should never evict pages made available offline', () => {
+        const entries = [
+            { pageId: 'pinned', lastAccessed: 0, size: 100 },
+            { pageId: 'a', lastAccessed: 10, size: 10 },
+            { pageId: 'b', lastAccessed: 20, size: 10 },
+        ];
+        // Even when the pinned pages alone are over the quota
+        expect(selectPagesToEvict(entries, new Set(['pinned']), 50)).toEqual(['a', 'b']);
+    });
+});
@@ -0,0 +1,274 @@
+import { openDB, IDBPDatabase } from 'idb';
+import { getSubtreeIds } from '../trash';
+
+// Offline read replica stored in IndexedDB.
+//
+// The offline queue (`queue.ts`) covers writes; this covers reads. Firestore
+// reads and listeners in `firebase/database.ts` and `firebase/comments.ts` write
+// what they load through to here, and read from here when the device is offline
+// (or Firestore fails), so pages, blocks and comments seen before stay readable.
+//
+// Page documents (titles, properties, parents) are small and always kept, so the
+// page tree and database views work offline. Blocks and comments take the space:
+// they're kept per page, and when the replica grows past its quota the pages used
+// least recently lose theirs first (LRU). Pages made available offline, with every
+// page below them, are never evicted.
+const DB_NAME = 'worklin-replica-db';
+const PAGES_STORE = 'pages';
+const BLOCKS_STORE = 'blocks';
+const COMMENTS_STORE = 'comments';
+// Per page: when it was last used and how much its blocks and comments take
+const ACCESS_STORE = 'page-access';
+// Pages made available offline (each with its subtree)
+const PINS_STORE = 'pinned-pages';
+
+// Space blocks and comments may take before pages are evicted
+export const MAX_REPLICA_BYTES = 50 * 1024 * 1024;
+// Quota checks wait for writes to settle
+const QUOTA_CHECK_DELAY = 2000;
+
+export interface PageAccess {
+    pageId: string;
+    lastAccessed: number;
+    size: number; // Estimated bytes of the page's blocks and comments
+}
+
+let dbPromise: Promise<IDBPDatabase> | null = null;
+
+function getDB() {
+    if (!dbPromise) {
+        dbPromise = openDB(DB_NAME, 1, {
+            upgrade(db) {
+                const pages = db.createObjectStore(PAGES_STORE, { keyPath: 'id' });
+                pages.createIndex('workspaceId', 'workspaceId');
+                pages.createIndex('parentId', 'parentId');
+                db.createObjectStore(BLOCKS_STORE, { keyPath: 'id' }).createIndex('pageId', 'pageId');
+                const comments = db.createObjectStore(COMMENTS_STORE, { keyPath: 'id' });
+                comments.createIndex('blockId', 'blockId');
+                comments.createIndex('pageId', 'pageId');
+                db.createObjectStore(ACCESS_STORE, { keyPath: 'pageId' });
+                db.createObjectStore(PINS_STORE, { keyPath: 'pageId' });
+            },
+        });
+    }
+    return dbPromise;
+}
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+/**
+ * A Firestore document in a form IndexedDB keeps intact: Timestamps become Dates
+ * (a stored Timestamp would come back as a plain object without its methods).
+ */
+export const toStorable = (value: any): any => {
+    if (value === null || typeof value !== 'object' || value instanceof Date) return value;
+    if (typeof value.toDate === 'function') return value.toDate();
+    if (Array.isArray(value)) return value.map(toStorable);
+    return Object.fromEntries(
+        Object.entries(value)
+            .filter(([, field]) => field !== undefined && typeof field !== 'function')
+            .map(([key, field]) => [key, toStorable(field)])
+    );
+};
+
+// Rough size of a stored value in bytes (JSON, two bytes a character)
+export const estimateSize = (value: unknown): number => (JSON.stringify(value) || '').length * 2;
+
+/**
+ * Pages whose blocks and comments to evict to get under the quota: least
+ * recently used first, never pinned ones.
+ */
+export const selectPagesToEvict = (entries: PageAccess[], pinned: Set<string>, maxBytes: number): string[] => {
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    const evict: string[] = [];
+    const candidates = entries.filter((entry) => !pinned.has(entry.pageId)).sort((a, b) => a.lastAccessed - b.lastAccessed);
+    for (const entry of candidates) {
+        if (total <= maxBytes) break;
+        evict.push(entry.pageId);
+        total -= entry.size;
+    }
+    return evict;
+};
+
+const byCreatedAt = (a: any, b: any) => new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime();
+const byUpdatedAtDesc = (a: any, b: any) => new Date(b.updatedAt || 0).getTime() - new Date(a.updatedAt || 0).getTime();
+
+// ==========================================
+// WRITES
+// ==========================================
+
+/**
+ * Saves page documents to the replica.
+ */
+export const cachePages = async (pages: any[]) => {
+    if (pages.length === 0) return;
+    const db = await getDB();
+    const tx = db.transaction(PAGES_STORE, 'readwrite');
+    await Promise.all([...pages.map((page) => tx.store.put(toStorable(page))), tx.done]);
+};
+
+// Re-measures what a page's blocks and comments take, and marks it as used now
+const updatePageAccess = async (pageId: string) => {
+    const db = await getDB();
+    const [blocks, comments] = await Promise.all([
+        db.getAllFromIndex(BLOCKS_STORE, 'pageId', pageId),
+        db.getAllFromIndex(COMMENTS_STORE, 'pageId', pageId),
+    ]);
+    const access: PageAccess = { pageId, lastAccessed: Date.now(), size: estimateSize(blocks) + estimateSize(comments) };
+    await db.put(ACCESS_STORE, access);
+    scheduleQuotaCheck();
+};
+
+/**
+ * Replaces the replica's copy of a page's blocks.
+ */
+export const cacheBlocks = async (pageId: string, blocks: any[]) => {
+    const db = await getDB();
+    const tx = db.transaction(BLOCKS_STORE, 'readwrite');
+    const ids = new Set(blocks.map((block) => block.id));
+    const stale = (await tx.store.index('pageId').getAllKeys(pageId)).filter((id) => !ids.has(id));
+    await Promise.all([
+        ...stale.map((id) => tx.store.delete(id)),
+        ...blocks.map((block) => tx.store.put(toStorable({ ...block, pageId }))),
+        tx.done,
+    ]);
+    await updatePageAccess(pageId);
+};
+
+/**
+ * Replaces the replica's copy of a block's comments. They're filed under the
+ * block's page (when the block is in the replica), so they're evicted with it.
+ */
+export const cacheComments = async (blockId: string, comments: any[]) => {
+    const db = await getDB();
+    const block = await db.get(BLOCKS_STORE, blockId);
+    const tx = db.transaction(COMMENTS_STORE, 'readwrite');
+    const ids = new Set(comments.map((comment) => comment.id));
+    const stale = (await tx.store.index('blockId').getAllKeys(blockId)).filter((id) => !ids.has(id));
+    await Promise.all([
+        ...stale.map((id) => tx.store.delete(id)),
+        ...comments.map((comment) => tx.store.put(toStorable({ ...comment, blockId, pageId: block?.pageId ?? null }))),
+        tx.done,
+    ]);
+    if (block?.pageId) await updatePageAccess(block.pageId);
+};
+
+/**
+ * Marks a page as used now, so it's evicted later.
+ */
+export const touchPage = async (pageId: string) => {
+    const db = await getDB();
+    const access: PageAccess | undefined = await db.get(ACCESS_STORE, pageId);
+    if (access) await db.put(ACCESS_STORE, { ...access, lastAccessed: Date.now() });
+};
+
+// ==========================================
+// READS
+// ==========================================
+
+export const getCachedPage = async (pageId: string) => {
+    const db = await getDB();
+    return (await db.get(PAGES_STORE, pageId)) ?? null;
+};
+
+// Pages of a workspace or under a parent, most recently updated first (as Firestore orders them)
+export const getCachedPages = async (filter: { workspaceId: string } | { parentId: string }) => {
+    const db = await getDB();
+    const pages =
+        'workspaceId' in filter
+            ? await db.getAllFromIndex(PAGES_STORE, 'workspaceId', filter.workspaceId)
+            : await db.getAllFromIndex(PAGES_STORE, 'parentId', filter.parentId);
+    return pages.sort(byUpdatedAtDesc);
+};
+
+// A page's blocks in order; empty when they were never loaded or were evicted
+export const getCachedBlocks = async (pageId: string) => {
+    const db = await getDB();
+    touchPage(pageId).catch(() => undefined);
+    return (await db.getAllFromIndex(BLOCKS_STORE, 'pageId', pageId)).sort(byCreatedAt);
+};
+
+export const getCachedComments = async (blockId: string) => {
+    const db = await getDB();
+    return (await db.getAllFromIndex(COMMENTS_STORE, 'blockId', blockId)).sort(byCreatedAt);
+};
+
+// ==========================================
+// PINNING ("make available offline")
+// ==========================================
+
+export const pinPage = async (pageId: string) => {
+    const db = await getDB();
+    await db.put(PINS_STORE, { pageId, pinnedAt: Date.now() });
+};
+
+export const unpinPage = async (pageId: string) => {
+    const db = await getDB();
+    await db.delete(PINS_STORE, pageId);
+    scheduleQuotaCheck();
+};
+
+/**
+ * IDs of every page kept offline: pinned pages and the pages below them.
+ */
+export const getPinnedPageIds = async (): Promise<Set<string>> => {
+    const db = await getDB();
+    const [pins, pages] = await Promise.all([db.getAll(PINS_STORE), db.getAll(PAGES_STORE)]);
+    return new Set(pins.flatMap((pin) => getSubtreeIds(pages, pin.pageId)));
+};
+
+export const isPagePinned = async (pageId: string) => {
+    const db = await getDB();
+    return !!(await db.get(PINS_STORE, pageId));
+};
+
+// ==========================================
+// QUOTA
+// ==========================================
+
+/**
+ * Evicts the blocks and comments of the least recently used pages until the
+ * replica is under `maxBytes`. Page documents are kept.
+ */
+export const enforceQuota = async (maxBytes: number = MAX_REPLICA_BYTES) => {
+    const db = await getDB();
+    const [entries, pinned] = await Promise.all([db.getAll(ACCESS_STORE) as Promise<PageAccess[]>, getPinnedPageIds()]);
+    const evict = selectPagesToEvict(entries, pinned, maxBytes);
+    if (evict.length === 0) return [];
+
+    const tx = db.transaction([BLOCKS_STORE, COMMENTS_STORE, ACCESS_STORE], 'readwrite');
+    for (const pageId of evict) {
+        const [blockIds, commentIds] = await Promise.all([
+            tx.objectStore(BLOCKS_STORE).index('pageId').getAllKeys(pageId),
+            tx.objectStore(COMMENTS_STORE).index('pageId').getAllKeys(pageId),
+        ]);
+        await Promise.all([
+            ...blockIds.map((id) => tx.objectStore(BLOCKS_STORE).delete(id)),
+            ...commentIds.map((id) => tx.objectStore(COMMENTS_STORE).delete(id)),
+            tx.objectStore(ACCESS_STORE).delete(pageId),
+        ]);
+    }
+    await tx.done;
+    console.log(`Evicted ${evict.length} pages from the offline replica`);
+    return evict;
+};
+
+let quotaTimer: ReturnType<typeof setTimeout> | null = null;
+
+function scheduleQuotaCheck() {
+    if (quotaTimer) clearTimeout(quotaTimer);
+    quotaTimer = setTimeout(() => {
+        quotaTimer = null;
+        enforceQuota().catch((error) => console.error('Failed to enforce offline replica quota:', error));
+    }, QUOTA_CHECK_DELAY);
+}
+
+/**
+ * Runs a replica write without letting it fail the Firestore call it mirrors
+ * (IndexedDB can be unavailable, e.g. in private browsing).
+ */
+export const replicate = (write: Promise<unknown>) => {
+    write.catch((error) => console.warn('Failed to update offline replica:', error));
+};
@@ -0,0 +1,51 @@
+// Offline sync retries
+// A queued operation that fails is retried with exponential backoff, unless the
+// error means it can never succeed (missing permissions, a deleted document...).
+// Those, and operations that keep failing, go to the dead-letter store.
+
+export const BASE_RETRY_DELAY = 2000;
+export const MAX_RETRY_DELAY = 5 * 60 * 1000;
+// Failed attempts before an operation is given up on
+export const MAX_ATTEMPTS = 8;
+
+// Firestore error codes that retrying won't fix
+const PERMANENT_CODES = [
+    'permission-denied',
+    'not-found',
+    'invalid-argument',
+    'already-exists',
+    'failed-precondition',
+    'out-of-range',
+    'unimplemented',
+    'data-loss',
+];
+
+// The DAL returns error messages rather than errors, so the code is
+// recognised from Firestore's message when it isn't there
+const PERMANENT_MESSAGES = [
+    /missing or insufficient permissions/i,
+    /no document to update/i,
+    /not[- ]found/i,
+    /invalid data|unsupported field value|invalid-argument/i,
+];
+
+export const describeError = (error: unknown): string =>
+    error instanceof Error ? error.message : typeof error === 'string' ? error : 'Unknown error';
+
+export const isPermanentError = (error: unknown): boolean => {
+    const code = (error as { code?: unknown } | null)?.code;
+    if (typeof code === 'string') return PERMANENT_CODES.includes(code.replace(/^firestore\//, ''));
+    const message = describeError(error);
+    return PERMANENT_MESSAGES.some((pattern) => pattern.test(message));
+};
+
+/**
+ * How long to wait before the next attempt: doubling from BASE_RETRY_DELAY up
+ * to MAX_RETRY_DELAY, with jitter so many clients don't retry in step.
+ *
+ * @param attempts - Failed attempts so far (1 after the first failure)
+ */
+export const getRetryDelay = (attempts: number, random: () => number = Math.random): number => {
+    const delay = Math.min(MAX_RETRY_DELAY, BASE_RETRY_DELAY * 2 ** Math.max(0, attempts - 1));
+    return Math.round(delay * (0.5 + random() / 2));
+};
@@ -1,79 +1,275 @@
-import { getQueue, removeFromQueue, OfflineOperation } from './queue';
-import { updatePage, createPage, deletePage } from '../firebase/pages';
-import { updateBlock, createBlock, deleteBlock } from '../firebase/database';
+import { collection, doc } from 'firebase/firestore';
+import {
+    getQueue,
+    getDeadLetters,
+    removeFromQueue,
+    updateQueuedOperation,
+    moveToDeadLetter,
+    setInFlightOperation,
+    subscribeToQueue,
+    addConflict,
+    getConflicts,
+    removeConflict,
+    OfflineOperation,
+} from './queue';
+import { ConflictChoice, detectConflicts, OperationBase, resolveConflict, SyncConflict, toMillis } from './conflicts';
+import { getOperationDependencies, getOperationTarget } from './coalesce';
+import { describeError, getRetryDelay, isPermanentError, MAX_ATTEMPTS } from './retry';
+import { createPage, deletePage, restorePage, permanentlyDeletePage } from '../firebase/pages';
+import {
+    updateBlock,
+    createBlock,
+    deleteBlock,
+    getBlock,
+    getBlocksByPage,
+    getPage,
+    updatePage,
+    createPage as createWorkspacePage,
+} from '../firebase/database';
+import { createVersion } from '../firebase/history';
+import { auth, db } from '../firebase/config';
+import { SyncConflictOutcome } from '../../types/history';
+import { Block, Page } from '../../types/workspace';
+
+// Progress of the offline queue, shown by the OfflineIndicator
+export interface SyncStatus {
+    syncing: boolean;
+    total: number; // Operations due in the current sync run
+    completed: number; // Of those, how many have been handled
+    pending: number; // Operations still queued
+    failed: number; // Operations in the dead-letter store
+    conflicts: number; // Conflicting edits waiting for the user
+    nextRetryAt: number | null; // When operations waiting on backoff are next retried
+    lastSyncedAt: number | null; // When the last sync run (here or in the service worker) ended
+    lastError: string | null; // The last error that run hit, if any
+}
 
+let status: SyncStatus = {
+    syncing: false,
+    total: 0,
+    completed: 0,
+    pending: 0,
+    failed: 0,
+    conflicts: 0,
+    nextRetryAt: null,
+    lastSyncedAt: null,
+    lastError: null,
+};
+const statusListeners = new Set<(status: SyncStatus) => void>();
 
+const setStatus = (updates: Partial<SyncStatus>) => {
+    status = { ...status, ...updates };
+    statusListeners.forEach((listener) => listener(status));
+};
 
+/**
+ * Subscribes to sync progress. The listener is called right away with the
+ * current status, then on every change. Returns an unsubscribe function.
+ */
+export const subscribeToSyncStatus = (listener: (status: SyncStatus) => void) => {
+    statusListeners.add(listener);
+    listener(status);
+    return () => {
+        statusListeners.delete(listener);
+    };
+};
+
+// Re-reads the queue, dead-letter and conflict counts
+export const refreshSyncStatus = async () => {
+    const [queue, deadLetters, conflicts] = await Promise.all([getQueue(), getDeadLetters(), getConflicts()]);
+    setStatus({ pending: queue.length, failed: deadLetters.length, conflicts: conflicts.length });
+};
+
+/**
+ * Records a sync run of the service worker (see `background-sync.ts`), which
+ * changed the queue behind this tab's back.
+ */
+export const reportBackgroundSync = async (error: string | null) => {
+    setStatus({ lastSyncedAt: Date.now(), lastError: error });
+    await refreshSyncStatus();
+};
 
 // Simple single-flight lock.
 // We don't want overlapping sync runs because it can double-apply ops or fight over
 // queue removal.
 let isSyncing = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
 
 /**
  * Replay queued offline operations against the backend.
  *
  * Notes:
  * - Operations are processed in insertion order.
- * - We stop on the first failure and keep the remaining ops for a later retry.
- *   (This avoids tearing through the queue when the auth/session/network state is bad.)
+ * - A failed operation is retried with backoff (see `retry.ts`); later operations
+ *   on the same block or page, or blocks and subpages created in it, wait for it.
+ *   Others carry on.
+ * - Operations that can never succeed, or keep failing, go to the dead-letter store.
  */
 export const syncOfflineChanges = async () => {
-    if (isSyncing) return;
-
-
-
-
-
-
-
-
-
-
-
-
-    const queue = await getQueue();
-    if (queue.length === 0) return;
-
-
-
-
-
-
+    if (isSyncing || !navigator.onLine) return;
     isSyncing = true;
-    console.log(`Starting sync of ${queue.length} offline operations...`);
-
-
-
-
-    for (const op of queue) {
-        try {
-
-
-
-
-            await processOperation(op);
-            if (op.id) await removeFromQueue(op.id);
+    if (retryTimer) {
+        clearTimeout(retryTimer);
+        retryTimer = null;
+    }
 
+    let attempted = 0;
+    let lastError: string | null = null;
+    try {
+        const queue = await getQueue();
+        const now = Date.now();
+        const due = queue.filter((op) => !op.nextAttemptAt || op.nextAttemptAt <= now);
+        attempted = due.length;
+        if (due.length > 0) console.log(`Starting sync of ${due.length} offline operations...`);
+        setStatus({ syncing: due.length > 0, total: due.length, completed: 0 });
+
+        // Blocks/pages with an earlier operation still waiting: their later operations wait too
+        const blocked = new Set<string>();
+        let completed = 0;
+        let total = due.length;
+
+        for (const op of queue) {
+            if (op.id === undefined) continue;
+            const target = getOperationTarget(op);
+            const waiting = !!op.nextAttemptAt && op.nextAttemptAt > now;
+            if (waiting || getOperationDependencies(op).some((key) => blocked.has(key))) {
+                if (target) blocked.add(target);
+                // A due operation held back by an earlier one isn't part of this run
+                if (!waiting) {
+                    attempted--;
+                    setStatus({ total: --total });
+                }
+                continue;
+            }
+            // Connection dropped mid-sync: the rest waits for the next `online` event
+            if (!navigator.onLine) break;
+
+            setInFlightOperation(op.id);
+            try {
+                await processOperation(op);
+                await removeFromQueue(op.id);
+            } catch (error) {
+                lastError = describeError(error);
+                const attempts = (op.attempts || 0) + 1;
+                if (isPermanentError(error) || attempts >= MAX_ATTEMPTS) {
+                    console.error('Failed to sync operation, moving it to dead letters:', op, error);
+                    await moveToDeadLetter({ ...op, attempts }, describeError(error));
+                } else {
+                    console.warn(`Failed to sync operation (attempt ${attempts}), retrying later:`, op, error);
+                    await updateQueuedOperation({
+                        ...op,
+                        attempts,
+                        nextAttemptAt: Date.now() + getRetryDelay(attempts),
+                        lastError: describeError(error),
+                    });
+                    if (target) blocked.add(target);
+                }
+            } finally {
+                setInFlightOperation(null);
+            }
+            setStatus({ completed: ++completed });
+        }
+    } finally {
+        isSyncing = false;
+    }
 
+    await scheduleRetry();
+    setStatus(attempted > 0 ? { syncing: false, lastSyncedAt: Date.now(), lastError } : { syncing: false });
+    await refreshSyncStatus();
+    if (attempted > 0) console.log('Sync completed.');
+};
 
+// Wakes sync up when the earliest operation waiting on backoff is due
+async function scheduleRetry() {
+    const waiting = (await getQueue()).map((op) => op.nextAttemptAt || 0).filter(Boolean);
+    const nextRetryAt = waiting.length > 0 ? Math.min(...waiting) : null;
+    setStatus({ nextRetryAt });
+    if (retryTimer) {
+        clearTimeout(retryTimer);
+        retryTimer = null;
+    }
+    if (nextRetryAt !== null) {
+        retryTimer = setTimeout(syncOfflineChanges, Math.max(0, nextRetryAt - Date.now()));
+    }
+}
 
+// The firebase helpers report failures as `{ error }` rather than throwing
+async function run(request: Promise<{ error: string | null }>) {
+    const { error } = await request;
+    if (error) throw new Error(error);
+}
 
+// ==========================================
+// CONFLICTS
+// ==========================================
 
-        } catch (error) {
-            console.error('Failed to sync operation:', op, error);
-            // Some errors are “permanent” (bad IDs, missing permissions, etc.), but
-            // detecting them reliably depends on provider error codes.
-            // For now we keep the op and retry later.
-            break;
-        }
+/**
+ * Writes updates to a block or page and records the result in the page's history,
+ * marked with how the offline edits were settled.
+ */
+async function writeRecordedUpdate(
+    kind: SyncConflict['kind'],
+    targetId: string,
+    pageId: string,
+    updates: Record<string, any>,
+    outcome: SyncConflictOutcome
+) {
+    const { page } = await getPage(pageId);
+    const { blocks } = await getBlocksByPage(pageId);
+    const before = { ...(page as Page), blocks: blocks as Block[] };
+
+    if (Object.keys(updates).length > 0) {
+        await run(kind === 'page' ? updatePage(targetId, updates) : updateBlock(targetId, updates));
     }
 
-    isSyncing = false;
-    console.log('Sync completed.');
-
+    const after: Page =
+        kind === 'page'
+            ? { ...before, ...updates }
+            : { ...before, blocks: before.blocks.map((block) => (block.id === targetId ? { ...block, ...updates } : block)) };
+    const user = auth.currentUser;
+    await createVersion(pageId, before, after, user?.uid || 'unknown', user?.displayName || user?.email || 'Unknown', {
+        syncConflict: outcome,
+    }).catch((error) => console.error('Failed to record sync outcome in history:', error));
+}
 
+/**
+ * Replays a queued block or page update, checking it against changes made on the
+ * server since it was queued (see `conflicts.ts`). Fields that don't conflict are
+ * applied; conflicting ones are saved for the user to resolve.
+ */
+async function replayUpdate(kind: SyncConflict['kind'], targetId: string, updates: Record<string, any>, base?: OperationBase) {
+    if (!base) return run(kind === 'page' ? updatePage(targetId, updates) : updateBlock(targetId, updates));
+
+    const result = kind === 'page' ? await getPage(targetId) : await getBlock(targetId);
+    // The replica's copy (served when Firestore can't be reached) may be stale: retry later
+    if ('offline' in result && result.offline) throw new Error(`Couldn't load ${kind} ${targetId} to check for conflicts`);
+    const server = ('page' in result ? result.page : result.block) as Record<string, any> | null;
+    // "Page not found" / "Block not found" are permanent (see `retry.ts`), network errors aren't
+    if (!server) throw new Error(result.error || `${kind} ${targetId} not found`);
+
+    const pageId = kind === 'page' ? targetId : server.pageId;
+    const { apply, conflicts } = detectConflicts(updates, base, server);
+    const changedElsewhere = toMillis(server.updatedAt) !== base.updatedAt;
+
+    if (!changedElsewhere) {
+        return run(kind === 'page' ? updatePage(targetId, apply) : updateBlock(targetId, apply));
+    }
+    if (Object.keys(apply).length > 0) {
+        await writeRecordedUpdate(kind, targetId, pageId, apply, 'merged');
+    }
+    if (conflicts.length > 0) {
+        console.warn(`Offline edit of ${kind} ${targetId} conflicts with changes made elsewhere:`, conflicts);
+        await addConflict({ kind, targetId, pageId, conflicts, detectedAt: Date.now() });
+    }
+}
 
+/**
+ * Settles a conflict: keep my offline edits, the other changes, or both
+ * (see `resolveConflict`). The outcome is recorded in the page's history.
+ */
+export const resolveSyncConflict = async (conflict: SyncConflict, choice: ConflictChoice) => {
+    await writeRecordedUpdate(conflict.kind, conflict.targetId, conflict.pageId, resolveConflict(conflict, choice), choice);
+    if (conflict.id !== undefined) await removeConflict(conflict.id);
 };
 
 // Keep this switch aligned with `OfflineOperation['type']` in `queue.ts`.
@@ -85,35 +281,43 @@ async function processOperation(op: OfflineOperation) {
 
     switch (type) {
         case 'updatePage':
-            await updatePage(payload.pageId, payload.data);
-            break;
-
-        case 'createPage':
-            // NOTE: current createPage API only takes userId (it creates an untitled page).
-            // If we later support offline page drafts, extend the payload + create call.
-            await createPage(payload.userId);
-            break;
+            return replayUpdate('page', payload.pageId, payload.data, payload.base);
+
+        case 'createPage': {
+            // Pages from the workspace-aware API carry their data; "quick" pages are blank.
+            // Either way the page is created under the ID it was given offline.
+            if (payload.pageData) return run(createWorkspacePage(payload.workspaceId, payload.pageData));
+            // Older queued quick pages have none: the new one is saved with the operation
+            // first (and kept on `op`, which a failed attempt is saved from), so a retry
+            // writes the same page instead of another one
+            if (!payload.pageId) {
+                op.payload = { ...payload, pageId: doc(collection(db, 'pages')).id };
+                await updateQueuedOperation(op);
+            }
+            return run(createPage(op.payload.userId, op.payload.pageId));
+        }
 
         case 'deletePage':
-            await deletePage(payload.pageId);
-            break;
+            return run(deletePage(payload.pageId));
+
+        case 'restorePage':
+            return run(restorePage(payload.pageId));
+
+        case 'permanentlyDeletePage':
+            return run(permanentlyDeletePage(payload.pageId));
 
         case 'updateBlock':
-            await updateBlock(payload.blockId, payload.updates);
-            break;
+            return replayUpdate('block', payload.blockId, payload.updates, payload.base);
 
         case 'createBlock':
-            await createBlock(payload.pageId, payload.blockData);
-            break;
+            return run(createBlock(payload.pageId, payload.blockData));
 
         case 'deleteBlock':
-            await deleteBlock(payload.blockId);
-            break;
+            return run(deleteBlock(payload.blockId));
 
         default:
-            console.warn('Unknown operation type:', type);
-
-
+            // Nothing can replay it, so retrying won't help
+            throw Object.assign(new Error(`Unknown operation type: ${type}`), { code: 'unimplemented' });
     }
 }
 
@@ -122,8 +326,9 @@ async function processOperation(op: OfflineOperation) {
 if (typeof window !== 'undefined') {
     window.addEventListener('online', () => {
         console.log('App is online. Triggering sync...');
-
-
         syncOfflineChanges();
     });
+    subscribeToQueue(() => {
+        refreshSyncStatus().catch(() => undefined);
+    });
 }
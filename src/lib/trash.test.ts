@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { getPagesToPurge, getPurgeDate, getRestoredIds, getSubtreeIds, getTrashItems, searchTrash } from './trash';
+import { Page } from '../types/workspace';
+
+describe('Trash', () => {
+    const DAY = 24 * 60 * 60 * 1000;
+    const page = (id: string, title: string, extra: Partial<Page> = {}): Page => ({
+        id,
+        title,
+        icon: '📄',
+        blocks: [],
+        createdAt: new Date(0),
+        updatedAt: new Date(0),
+        ...extra,
+    });
+    const trashed = (id: string, title: string, archivedAt: number, parentId?: string) =>
+        page(id, title, { isArchived: true, archivedAt: new Date(archivedAt), parentId });
+
+    it('should find a page and every page below it', () => {
+        const pages = [page('a', 'A'), page('b', 'B', { parentId: 'a' }), page('c', 'C', { parentId: 'b' }), page('d', 'D')];
+        expect(getSubtreeIds(pages, 'a')).toEqual(['a', 'b', 'c']);
+        expect(getSubtreeIds(pages, 'd')).toEqual(['d']);
+    });
+
+    it('should restore only the pages that went to the trash with a page', () => {
+        const pages = [
+            trashed('a', 'A', 5 * DAY),
+            trashed('b', 'B', 5 * DAY, 'a'),
+            // Deleted on its own before its parent
+            trashed('c', 'C', 2 * DAY, 'a'),
+            trashed('d', 'D', 5 * DAY, 'b'),
+            page('e', 'E', { parentId: 'a' }),
+        ];
+        expect(getRestoredIds(pages, 'a')).toEqual(['a', 'b', 'd']);
+        expect(getRestoredIds(pages, 'c')).toEqual(['c']);
+    });
+
+    it('should list trashed subtrees under their root, most recent first, and search them', () => {
+        const pages = [
+            trashed('a', 'Project plan', 1 * DAY),
+            trashed('b', 'Meeting notes', 1 * DAY, 'a'),
+            trashed('c', 'Old draft', 2 * DAY),
+            // Its parent isn't in the trash, so it's listed on its own
+            trashed('d', 'Orphan', 0, 'active'),
+        ];
+
+        const items = getTrashItems(pages);
+        expect(items.map((item) => item.page.id)).toEqual(['c', 'a', 'd']);
+        expect(items[1].descendants.map((p) => p.id)).toEqual(['b']);
+
+        // A page deleted with a root finds the root
+        expect(searchTrash(items, 'meeting').map((item) => item.page.id)).toEqual(['a']);
+        expect(searchTrash(items, 'old DRAFT').map((item) => item.page.id)).toEqual(['c']);
+        expect(searchTrash(items, '  ')).toEqual(items);
+    });
+
+    it('should purge pages past the retention with the pages trashed under them', () => {
+        const now = 40 * DAY;
+        const pages = [
+            trashed('a', 'A', 5 * DAY),
+            trashed('b', 'B', 5 * DAY, 'a'),
+            trashed('c', 'C', 20 * DAY),
+            page('d', 'D'),
+            // Trashed before archivedAt was recorded: kept
+            page('e', 'E', { isArchived: true }),
+        ];
+
+        expect(getPurgeDate(pages[0], 30)?.getTime()).toBe(35 * DAY);
+        expect(getPagesToPurge(pages, 30, now).sort()).toEqual(['a', 'b']);
+        expect(getPagesToPurge(pages, 7, now).sort()).toEqual(['a', 'b', 'c']);
+
+        // 0 days keeps the trash until it's emptied by hand
+        expect(getPurgeDate(pages[0], 0)).toBeNull();
+        expect(getPagesToPurge(pages, 0, now)).toEqual([]);
+    });
+});
@@ -0,0 +1,103 @@
+import { Page } from '../types/workspace';
+
+// Trash
+// Deleting a page moves it and every page under it (by parentId) to the trash
+// together; restoring a page brings back the pages trashed with it (same archivedAt),
+// and permanently deleting a page does the same to its whole subtree.
+// Pages are purged once they've been in the trash longer than the workspace's
+// trashRetentionDays: by a scheduled function (functions/src/index.ts) for
+// Firestore pages, and when the workspace loads for local ones.
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A page in the trash as listed: pages trashed along with it are listed under it
+export interface TrashItem {
+  page: Page;
+  descendants: Page[];
+}
+
+// Milliseconds of a date as stored locally (Date or ISO string) or in Firestore (Timestamp)
+const toMillis = (value: any): number | null => {
+  if (!value) return null;
+  const time = value.toMillis ? value.toMillis() : new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+// IDs of a page and every page below it, the page first
+export const getSubtreeIds = (pages: Array<Pick<Page, 'id' | 'parentId'>>, pageId: string): string[] => {
+  const children = new Map<string, string[]>();
+  pages.forEach((page) => {
+    if (page.parentId) children.set(page.parentId, [...(children.get(page.parentId) || []), page.id]);
+  });
+
+  const ids: string[] = [];
+  const seen = new Set<string>();
+  for (const queue = [pageId]; queue.length > 0; ) {
+    const id = queue.shift()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    ids.push(id);
+    queue.push(...(children.get(id) || []));
+  }
+  return ids;
+};
+
+// IDs of the pages restored with a page: it and the pages below it that went to
+// the trash with it. Pages that were deleted on their own before it stay in the trash.
+export const getRestoredIds = (
+  pages: Array<Pick<Page, 'id' | 'parentId' | 'isArchived' | 'archivedAt'>>,
+  pageId: string
+): string[] => {
+  const byId = new Map(pages.map((page) => [page.id, page]));
+  const archivedAt = toMillis(byId.get(pageId)?.archivedAt);
+  return getSubtreeIds(pages, pageId).filter((id, index) => {
+    const page = byId.get(id);
+    return index === 0 || (!!page?.isArchived && toMillis(page.archivedAt) === archivedAt);
+  });
+};
+
+// The trash as listed: pages whose parent isn't in the trash too, most recently deleted first
+export const getTrashItems = (archivedPages: Page[]): TrashItem[] => {
+  const byId = new Map(archivedPages.map((page) => [page.id, page]));
+  return archivedPages
+    .filter((page) => !page.parentId || !byId.has(page.parentId))
+    .map((page) => ({
+      page,
+      descendants: getSubtreeIds(archivedPages, page.id)
+        .slice(1)
+        .map((id) => byId.get(id)!),
+    }))
+    .sort((a, b) => (toMillis(b.page.archivedAt) ?? 0) - (toMillis(a.page.archivedAt) ?? 0));
+};
+
+// Trash items whose title, or the title of a page deleted with them, matches a search
+export const searchTrash = (items: TrashItem[], query: string): TrashItem[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return items;
+  const matches = (page: Page) => words.every((word) => (page.title || '').toLowerCase().includes(word));
+  return items.filter((item) => matches(item.page) || item.descendants.some(matches));
+};
+
+// When a page in the trash will be purged; null when the workspace keeps its trash (0 days)
+export const getPurgeDate = (page: Page, retentionDays: number = DEFAULT_TRASH_RETENTION_DAYS): Date | null => {
+  const archivedAt = toMillis(page.archivedAt);
+  if (!retentionDays || archivedAt === null) return null;
+  return new Date(archivedAt + retentionDays * DAY_MS);
+};
+
+// IDs of the pages due to be purged, with the pages trashed under them
+export const getPagesToPurge = (
+  pages: Page[],
+  retentionDays: number = DEFAULT_TRASH_RETENTION_DAYS,
+  now: number = Date.now()
+): string[] => {
+  const archived = pages.filter((page) => page.isArchived);
+  const ids = new Set<string>();
+  archived.forEach((page) => {
+    const purgeDate = getPurgeDate(page, retentionDays);
+    if (purgeDate && purgeDate.getTime() <= now) getSubtreeIds(archived, page.id).forEach((id) => ids.add(id));
+  });
+  return [...ids];
+};
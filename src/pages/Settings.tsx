@@ -1,12 +1,18 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, User, Bell, Shield, Palette, Database, Globe, Save, Users, Share2, LogOut } from 'lucide-react';
+import { ArrowLeft, User, Bell, Shield, Palette, Database, Globe, Save, Users, Share2, LogOut, History, Trash2 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 import { Button } from '../components/ui/button';
 import { useDarkMode } from '../hooks/useDarkMode';
 import { useToast } from '../hooks/use-toast';
 import { signOut } from 'firebase/auth';
 import { auth } from '../lib/firebase/config';
+import { getWorkspace, updateWorkspaceSettings } from '../lib/firebase/database';
+import { DEFAULT_HISTORY_RETENTION } from '../lib/firebase/history';
+import { findDanglingRelationLinks, repairDanglingRelationLinks } from '../lib/firebase/relations';
+import { DEFAULT_TRASH_RETENTION_DAYS } from '../lib/trash';
+import { HistoryRetention } from '../types/history';
+import { Workspace } from '../types/workspace';
 
 import { ShareDialog } from '../components/workspace/ShareDialog';
 import { MembersList } from '../components/workspace/MembersList';
@@ -32,9 +38,25 @@ export const Settings: React.FC = () => {
   const workspaceOwnerId = 'local-user'; // Replace with actual owner ID
   const workspaceName = 'My Workspace'; // Replace with actual workspace name
 
+  // How long page versions are kept; saved on the workspace for the pruning function
+  const [retention, setRetention] = useState<HistoryRetention>(DEFAULT_HISTORY_RETENTION);
+
+  // Days pages stay in the trash before they're purged; 0 keeps them until deleted
+  const [trashRetentionDays, setTrashRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+
+  const [isRepairingRelations, setIsRepairingRelations] = useState(false);
+
+  useEffect(() => {
+    getWorkspace(currentWorkspaceId).then(({ workspace }) => {
+      const settings = (workspace as Workspace | null)?.settings;
+      if (settings?.historyRetention) setRetention({ ...DEFAULT_HISTORY_RETENTION, ...settings.historyRetention });
+      if (settings?.trashRetentionDays !== undefined) setTrashRetentionDays(settings.trashRetentionDays);
+    });
+  }, [currentWorkspaceId]);
+
   // Save current settings to localStorage.
   // In a real production app, this would likely also sync with the backend.
-  const handleSave = () => {
+  const handleSave = async () => {
     // Save settings to localStorage or backend
     localStorage.setItem('worklin-settings', JSON.stringify({
       notifications,
@@ -42,6 +64,19 @@ export const Settings: React.FC = () => {
       language,
       darkMode: isDark,
     }));
+    const { error } = await updateWorkspaceSettings(currentWorkspaceId, {
+      historyRetention: retention,
+      trashRetentionDays,
+    });
+    if (error) {
+      toast({
+        title: "Workspace settings not saved",
+        description: error,
+        variant: "destructive",
+        duration: 3000,
+      });
+      return;
+    }
     toast({
       title: "Settings saved",
       description: "Your preferences have been saved successfully.",
@@ -49,6 +84,24 @@ export const Settings: React.FC = () => {
     });
   };
 
+  // Remove relation links to pages that were deleted or moved to the trash, across the workspace
+  const handleRepairRelations = async () => {
+    setIsRepairingRelations(true);
+    const found = await findDanglingRelationLinks(currentWorkspaceId);
+    const { repaired, error } = found.error ? { repaired: 0, error: found.error } : await repairDanglingRelationLinks(found.dangling);
+    setIsRepairingRelations(false);
+    toast({
+      title: error ? "Relation links not repaired" : "Relation links checked",
+      description: error
+        ? error
+        : repaired > 0
+          ? `Removed ${repaired} link${repaired === 1 ? '' : 's'} to deleted or trashed pages.`
+          : "No broken links were found.",
+      variant: error ? "destructive" : undefined,
+      duration: 3000,
+    });
+  };
+
   const handleMemberAdded = () => {
     // Refresh members list
     setMembersRefreshTrigger(prev => prev + 1);
@@ -256,6 +309,104 @@ export const Settings: React.FC = () => {
                   <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 dark:peer-focus:ring-blue-800 rounded-full peer dark:bg-gray-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-blue-600"></div>
                 </label>
               </div>
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-medium text-gray-900 dark:text-white">Broken relation links</p>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Remove links to pages that were deleted or moved to the trash
+                  </p>
+                </div>
+                <Button variant="outline" onClick={handleRepairRelations} disabled={isRepairingRelations}>
+                  {isRepairingRelations ? 'Checking...' : 'Check and repair'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Version history */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <History className="h-5 w-5" />
+                Version History
+              </CardTitle>
+              <CardDescription>
+                Older versions are thinned out over time. Named and pinned versions are always kept.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-medium text-gray-900 dark:text-white">Keep every version for</p>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Each edit can be restored during this time
+                  </p>
+                </div>
+                <select
+                  value={retention.keepAllDays}
+                  onChange={(e) => {
+                    const keepAllDays = Number(e.target.value);
+                    setRetention((prev) => ({ keepAllDays, hourlyDays: Math.max(prev.hourlyDays, keepAllDays) }));
+                  }}
+                  className="px-3 py-2 bg-white dark:bg-slate-800 border border-gray-300 dark:border-slate-700 rounded-md text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {[1, 3, 7, 14, 30].map((days) => (
+                    <option key={days} value={days}>{days} {days === 1 ? 'day' : 'days'}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-medium text-gray-900 dark:text-white">Then keep one version an hour until</p>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    After that, one version a day is kept
+                  </p>
+                </div>
+                <select
+                  value={retention.hourlyDays}
+                  onChange={(e) => setRetention((prev) => ({ ...prev, hourlyDays: Number(e.target.value) }))}
+                  className="px-3 py-2 bg-white dark:bg-slate-800 border border-gray-300 dark:border-slate-700 rounded-md text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {[7, 14, 30, 60, 90]
+                    .filter((days) => days >= retention.keepAllDays)
+                    .map((days) => (
+                      <option key={days} value={days}>{days} days old</option>
+                    ))}
+                </select>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Trash */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Trash2 className="h-5 w-5" />
+                Trash
+              </CardTitle>
+              <CardDescription>
+                Deleted pages can be restored from the trash until they're emptied from it.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-medium text-gray-900 dark:text-white">Empty trash after</p>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Pages in the trash longer than this are deleted for good
+                  </p>
+                </div>
+                <select
+                  value={trashRetentionDays}
+                  onChange={(e) => setTrashRetentionDays(Number(e.target.value))}
+                  className="px-3 py-2 bg-white dark:bg-slate-800 border border-gray-300 dark:border-slate-700 rounded-md text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {[7, 14, 30, 60, 90].map((days) => (
+                    <option key={days} value={days}>{days} days</option>
+                  ))}
+                  <option value={0}>Never</option>
+                </select>
+              </div>
             </CardContent>
           </Card>
 
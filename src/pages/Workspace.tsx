@@ -11,6 +11,7 @@ import { Menu } from 'lucide-react';
 import { Toaster } from '../components/ui/toaster';
 import { PageHeader } from '../components/PageHeader';
 import { subscribeToAuth } from '../lib/firebase/auth';
+import { useToast } from '../hooks/use-toast';
 
 // Mobile components
 import { MobileBottomNav } from '../components/mobile';
@@ -35,18 +36,24 @@ export const Workspace: React.FC = () => {
     setCurrentPageId,
     addPage,
     addPageFromTemplate,
+    importPage,
+    importArchive,
+    exportWorkspaceArchive,
     deletePage,
-    restorePage,
-    permanentlyDeletePage,
+    restorePages,
+    permanentlyDeletePages,
     updatePageTitle,
     updatePageIcon,
     updatePageCover,
+    restoreVersion,
     addBlock,
     updateBlock,
     deleteBlock,
-    updatePageProperties,
+    applyBlockOperations,
+    updatePage,
   } = useWorkspace();
 
+  const { toast } = useToast();
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const isMobile = useIsMobile();
 
@@ -117,17 +124,22 @@ export const Workspace: React.FC = () => {
             addPage();
           }
         }}
+        onImportPage={importPage}
+        onImportArchive={importArchive}
+        onExportWorkspace={exportWorkspaceArchive}
         onDeletePage={(pageId) => {
           if (confirm('Are you sure you want to move this page to trash?')) {
             deletePage(pageId);
           }
         }}
-        onRestorePage={(pageId) => restorePage(pageId)}
-        onPermanentlyDeletePage={(pageId) => {
-          if (confirm('Are you sure you want to permanently delete this page? This action cannot be undone.')) {
-            permanentlyDeletePage(pageId);
+        onRestorePages={restorePages}
+        onPermanentlyDeletePages={(pageIds) => {
+          const what = pageIds.length === 1 ? 'this page' : `these ${pageIds.length} pages`;
+          if (confirm(`Are you sure you want to permanently delete ${what} and their subpages? This action cannot be undone.`)) {
+            permanentlyDeletePages(pageIds);
           }
         }}
+        trashRetentionDays={workspace.settings?.trashRetentionDays}
         onUpdatePage={(pageId, icon) => updatePageIcon(pageId, icon)}
         sidebarOpen={sidebarOpen}
         setSidebarOpen={setSidebarOpen}
@@ -155,7 +167,7 @@ export const Workspace: React.FC = () => {
               <PageEditor
                 page={currentPage}
                 allPages={workspace.pages}
-                onAddBlock={(type) => currentPageId && addBlock(currentPageId, type)}
+                onAddBlock={(type) => (currentPageId ? addBlock(currentPageId, type) : undefined)}
                 onUpdateBlock={(blockId, updates) =>
                   currentPageId && updateBlock(currentPageId, blockId, updates)
                 }
@@ -168,8 +180,19 @@ export const Workspace: React.FC = () => {
                 onUpdatePageCover={(url) =>
                   currentPageId && updatePageCover(currentPageId, url || null)
                 }
+                onApplyBlockOperations={applyBlockOperations}
+                onRestoreVersion={(version, versionId) =>
+                  currentPageId && restoreVersion(currentPageId, version, versionId)
+                }
                 onUpdatePage={(pageId, updates) => {
-                  updatePageProperties(pageId, updates.properties);
+                  const { error } = updatePage(pageId, updates);
+                  if (error) {
+                    toast({
+                      title: "Couldn't update page",
+                      description: error,
+                      variant: 'destructive',
+                    });
+                  }
                 }}
               />
             </div>
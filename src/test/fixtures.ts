@@ -0,0 +1,18 @@
+import { Page } from '../types/workspace';
+
+// Test fixtures shared by the unit tests
+
+/**
+ * A database row: a page titled with its ID, with the given property values.
+ * `overrides` sets anything else (a title, relation properties, isArchived...).
+ */
+export const makePage = (id: string, propertyValues: Record<string, any> = {}, overrides: Partial<Page> = {}): Page => ({
+    id,
+    title: id,
+    icon: '',
+    blocks: [],
+    propertyValues,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+});
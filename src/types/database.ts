@@ -45,16 +45,141 @@ export type RollupAggregation =
 // Formula property type
 // Allows calculated fields using expressions (like Excel formulas)
 // Example: A "Total" formula that adds "Price" and "Tax" properties
+// prop() can also read other formula and rollup properties; see lib/database/dependencies.ts
 export interface FormulaProperty {
   type: 'formula';
   name: string;
-  expression: string; // The formula expression (e.g., "prop('Price') + prop('Tax')")
-  returnType: 'text' | 'number' | 'boolean' | 'date'; // What type of value the formula returns
+  expression: string; // The formula expression (e.g., "prop('Price') + prop('Tax')"), see lib/database/formula.ts
+  returnType: 'text' | 'number' | 'boolean' | 'date'; // What type of value the formula returns - results are checked against it
 }
 
+// Colors available for select, multi-select and status options
+export type PropertyOptionColor =
+  | 'default'
+  | 'gray'
+  | 'brown'
+  | 'orange'
+  | 'yellow'
+  | 'green'
+  | 'blue'
+  | 'purple'
+  | 'pink'
+  | 'red';
+
+// One choice in a select, multi-select or status property
+// Page values store the option name, so names are unique within a property
+export interface SelectOption {
+  id: string;
+  name: string;
+  color: PropertyOptionColor;
+}
+
+// Plain text property
+export interface TextProperty {
+  type: 'text';
+  name: string;
+}
+
+// Pick one option from a list (value: option name)
+export interface SelectProperty {
+  type: 'select';
+  name: string;
+  options: SelectOption[];
+}
+
+// Pick any number of options from a list (value: array of option names)
+export interface MultiSelectProperty {
+  type: 'multi_select';
+  name: string;
+  options: SelectOption[];
+}
+
+// Status options are grouped into the three stages of work
+export type StatusGroup = 'todo' | 'in_progress' | 'complete';
+
+export interface StatusOption extends SelectOption {
+  group: StatusGroup;
+}
+
+// Like select, but every option belongs to a status group (value: option name)
+// This is what board views group on by default
+export interface StatusProperty {
+  type: 'status';
+  name: string;
+  options: StatusOption[];
+}
+
+// How number values are displayed
+export type NumberFormat =
+  | 'number'
+  | 'number_with_commas'
+  | 'percent'
+  | 'dollar'
+  | 'euro'
+  | 'pound'
+  | 'yen'
+  | 'rupee';
+
+// Numeric property (value: number)
+export interface NumberProperty {
+  type: 'number';
+  name: string;
+  format: NumberFormat;
+  precision?: number; // Decimal places to show, defaults to whatever the value has
+}
+
+// Value stored for date properties
+// Dates are ISO strings: "2025-01-31" for whole days, full ISO date-times when includeTime is on
+export interface DatePropertyValue {
+  start: string;
+  end?: string; // Optional end of a range, never before start
+}
+
+// Date or date range property (value: DatePropertyValue)
+export interface DateProperty {
+  type: 'date';
+  name: string;
+  includeTime?: boolean; // Store and show a time of day as well as the date
+}
+
+// People from the workspace (value: array of WorkspaceMember userIds)
+export interface PersonProperty {
+  type: 'person';
+  name: string;
+  allowMultiple?: boolean; // Defaults to a single person
+}
+
+// Checkbox property (value: boolean)
+export interface CheckboxProperty {
+  type: 'checkbox';
+  name: string;
+}
+
+// Web link property (value: http(s) or mailto URL string)
+export interface UrlProperty {
+  type: 'url';
+  name: string;
+}
+
+// Properties whose value is typed in by people (everything except computed/linked ones)
+export type ValueProperty =
+  | TextProperty
+  | SelectProperty
+  | MultiSelectProperty
+  | StatusProperty
+  | NumberProperty
+  | DateProperty
+  | PersonProperty
+  | CheckboxProperty
+  | UrlProperty;
+
+export type ValuePropertyType = ValueProperty['type'];
+
 // Union type that represents any type of database property
 // This allows us to store different property types in the same collection
-export type DatabaseProperty = RelationProperty | RollupProperty | FormulaProperty;
+export type DatabaseProperty = RelationProperty | RollupProperty | FormulaProperty | ValueProperty;
+
+export type DatabasePropertyType = DatabaseProperty['type'];
 
 // Extended Page type with database functionality
 // This adds property schema and values to the base Page type
@@ -64,14 +189,17 @@ export interface DatabasePage extends Page {
 }
 
 // Represents a single link between two pages
-// This is the underlying data structure for relations
+// This is the underlying data structure for relations, stored in the `relationLinks` collection.
+// The relation property's linkedPageIds is kept in sync as a denormalized copy for fast reads.
 export interface RelationLink {
   id: string;
+  workspaceId?: string; // Workspace of the source page, used by the repair tooling
   sourcePageId: string; // The page where the link originates
   targetPageId: string; // The page being linked to
   propertyName: string; // Name of the relation property
   createdAt: Date;
   bidirectional: boolean; // Whether this creates a reverse link
+  reversePropertyName?: string; // Property on the target page holding the reverse link
 }
 
 // Context object passed to formula evaluation
@@ -92,4 +220,5 @@ export interface FormulaResult {
   value: any; // The calculated result
   type: 'text' | 'number' | 'boolean' | 'date' | 'error'; // Type of the result
   error?: string; // Error message if evaluation failed
+  errorPosition?: number; // Character offset in the expression where the error was found
 }
\ No newline at end of file
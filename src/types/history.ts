@@ -1,4 +1,5 @@
 import { Timestamp } from 'firebase/firestore';
+import { Block, Page } from './workspace';
 
 // Represents a change between two states
 // Stores what the value was before and what it changed to
@@ -10,16 +11,80 @@ export interface ChangeDiff {
     };
 }
 
+// A piece of a text diff: text both versions share, or text only one of them has
+export interface TextChange {
+    type: 'equal' | 'insert' | 'delete';
+    text: string;
+}
+
+// How a single block changed between two versions
+// - added / removed: the block only exists after / before the change
+// - moved: the block changed position among the others, or its parent
+// - edited: the block's content, type or properties changed (it may also have moved)
+export interface BlockChange {
+    type: 'added' | 'removed' | 'moved' | 'edited';
+    blockId: string;
+    before?: Block; // The block before the change (all but 'added')
+    after?: Block; // The block after the change (all but 'removed')
+    fromIndex?: number; // Position before / after the change, for display
+    toIndex?: number;
+    moved?: boolean; // Set on edited blocks that also moved
+    textChanges?: TextChange[]; // Word-level changes of the block's text, for edited blocks
+    fields?: string[]; // Other fields that changed on edited blocks (type, checked, properties...)
+}
+
+// The block order before and after a change, so diffs can be replayed either way
+export interface BlockOrder {
+    before: string[];
+    after: string[];
+}
+
+// A page's full state: its fields and all of its blocks
+export interface PageSnapshot {
+    page: Partial<Omit<Page, 'blocks'>>;
+    blocks: Block[];
+}
+
 // Represents a single entry in the page's edit history
 // Each edit creates a new history entry that tracks who made the change and what changed
 export interface HistoryEntry {
     id: string; // Unique identifier for this history entry
     pageId: string; // Which page this edit belongs to
+    version?: number; // Position in the page's history, from 1 (missing on entries from before snapshots)
     authorId: string; // User ID of who made the edit
     authorName: string; // Name of the author at the time of edit (snapshot for reliability)
     createdAt: Date | Timestamp; // When this edit was made
-    diff: ChangeDiff; // Object containing the specific changes made
-    snapshot?: any; // Full page data snapshot (only stored at certain intervals to save space)
+    diff: ChangeDiff; // Page fields that changed, other than blocks
+    blockChanges?: BlockChange[]; // Blocks that changed
+    blockOrder?: BlockOrder; // Set when blocks changed
+    snapshot?: PageSnapshot; // Full page state after this edit (stored every few versions)
     isSnapshot: boolean; // Flag to quickly identify if this entry contains a full snapshot
     restoreVersionId?: string; // If this version was created by restoring an old version, reference to that version
-}
\ No newline at end of file
+    name?: string; // Name given by a user ("Sent to client"); named versions are never pruned
+    pinned?: boolean; // Pinned versions are listed first and never pruned
+    syncConflict?: SyncConflictOutcome; // Set on versions written when offline edits were replayed over other changes
+}
+
+// How offline edits that met changes made elsewhere were settled
+// - merged: the edits didn't overlap and were applied automatically
+// - mine / theirs / both: a conflict the user resolved, keeping that side
+export type SyncConflictOutcome = 'merged' | 'mine' | 'theirs' | 'both';
+
+// How long a workspace keeps its pages' versions
+// Versions younger than keepAllDays are all kept; up to hourlyDays old, the last
+// version of each hour is kept; older than that, the last version of each day.
+// Named and pinned versions are always kept.
+export interface HistoryRetention {
+    keepAllDays: number;
+    hourlyDays: number;
+}
+
+// A single block mutation, recorded so it can be undone
+// - insert / delete: the whole block and where it sits in the page
+// - update: the changed fields, before and after (undefined = field wasn't set)
+// - move: the block's position before and after a reorder
+export type BlockOperation =
+    | { type: 'insert'; block: Block; index: number }
+    | { type: 'delete'; block: Block; index: number }
+    | { type: 'update'; blockId: string; before: Partial<Block>; after: Partial<Block> }
+    | { type: 'move'; blockId: string; fromIndex: number; toIndex: number };
@@ -1,15 +1,71 @@
+import { RollupAggregation } from './database';
+
 // Defines the different ways to visualize page data
 // table: Spreadsheet-like grid view with rows and columns
 // board: Kanban-style view with cards in columns
 // calendar: Calendar view showing items by date
-export type ViewType = 'table' | 'board' | 'calendar';
+// timeline: Gantt chart with a bar per item between its start and end dates
+// gallery: Grid of cards showing each page's cover image
+export type ViewType = 'table' | 'board' | 'calendar' | 'timeline' | 'gallery';
+
+// Comparison used by a filter rule
+// Not every operator applies to every property type; see getFilterOperators in lib/database/views
+export type FilterOperator =
+    | 'equals'
+    | 'not_equals'
+    | 'contains'
+    | 'not_contains'
+    | 'starts_with'
+    | 'ends_with'
+    | 'greater_than'
+    | 'less_than'
+    | 'greater_than_or_equal'
+    | 'less_than_or_equal'
+    | 'before'
+    | 'after'
+    | 'on_or_before'
+    | 'on_or_after'
+    | 'in' // Value is a list; matches if the page value is (or contains) any of them
+    | 'not_in'
+    | 'is_empty' // No value needed
+    | 'is_not_empty';
+
+// Date ranges relative to the day a view is shown
+// "this_week" and "next_month" are calendar periods; "last_7_days" ends today and "next_7_days" starts today
+export type RelativeDateToken =
+    | 'today'
+    | 'tomorrow'
+    | 'yesterday'
+    | 'this_week'
+    | 'last_week'
+    | 'next_week'
+    | 'this_month'
+    | 'last_month'
+    | 'next_month'
+    | 'last_7_days'
+    | 'next_7_days'
+    | 'last_30_days'
+    | 'next_30_days';
+
+// A filter value worked out each time the view is shown instead of being stored literally,
+// so "due this week" or "assigned to me" stays correct without editing the view
+export interface DynamicFilterValue {
+    token: RelativeDateToken | 'me'; // 'me' is the signed-in user, for person and "Created by" filters
+}
 
 // Defines a filter rule for a view
 // Filters determine which pages/items are shown in the view
 export interface ViewFilter {
     property: string; // Which property to filter on
-    operator: 'equals' | 'contains' | 'greater_than' | 'less_than'; // How to compare the value
-    value: any; // The value to compare against
+    operator: FilterOperator; // How to compare the value
+    value: any; // The value to compare against, or a DynamicFilterValue
+}
+
+// A group of filter rules combined with AND or OR
+// Groups can be nested, e.g. Status = Done AND (Owner = me OR Priority = High)
+export interface ViewFilterGroup {
+    conjunction: 'and' | 'or';
+    filters: (ViewFilter | ViewFilterGroup)[];
 }
 
 // Defines how items are sorted in a view
@@ -24,8 +80,31 @@ export interface ViewSort {
 export interface ViewDefinition {
     id: string; // Unique identifier for this view
     name: string; // Display name shown to users
-    type: ViewType; // How the data is visualized (table, board, calendar)
-    filter?: ViewFilter; // Optional filter to show only certain items
-    sort?: ViewSort; // Optional sort to control item order
-    properties?: string[]; // Optional list of property IDs to show in this view (hides others)
+    type: ViewType; // How the data is visualized (table, board, calendar, timeline, gallery)
+    filter?: ViewFilter | ViewFilterGroup; // Optional filter to show only certain items (single rules are from older views)
+    sort?: ViewSort | ViewSort[]; // Optional sort to control item order; later keys break ties in earlier ones
+    properties?: string[]; // Optional list of property IDs to show in this view (hides others); tables show them as columns in this order, boards and galleries on cards
+
+    // Table settings
+    columnWidths?: Record<string, number>; // Column widths in pixels, keyed by property
+    aggregations?: Record<string, RollupAggregation>; // Footer calculation shown under each column
+
+    // Board settings
+    groupBy?: string; // Property whose value decides a card's column (select, status or person)
+    manualOrder?: string[]; // Page IDs in the order cards were dragged into; used when the view has no sort
+    collapsedGroups?: string[]; // Columns folded into a narrow strip
+    wipLimits?: Record<string, number>; // Max cards per column before it's flagged as over the limit
+
+    // Calendar settings (timelines also use dateProperty, as the start of each bar)
+    dateProperty?: string; // Date property that places pages on the calendar; falls back to the created date
+    calendarMode?: 'month' | 'week' | 'agenda'; // Layout last used for this calendar
+
+    // Timeline settings
+    endDateProperty?: string; // Date property where bars end; without one, bars span the start property's own range
+    timelineZoom?: 'day' | 'week' | 'month' | 'quarter'; // Time covered by one header column
+    dependencyProperty?: string; // Relation to the pages that must finish first, drawn as arrows between bars
+
+    // Gallery settings
+    cardSize?: 'small' | 'medium' | 'large';
+    showCover?: boolean; // Show the page cover (or first image) at the top of each card; defaults to true
 }
\ No newline at end of file
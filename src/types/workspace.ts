@@ -1,6 +1,7 @@
 // src/types/workspace.ts
 import { BlockPermission } from './permission';
 import { ViewDefinition } from './view';
+import { HistoryRetention } from './history';
 
 export type BlockType =
   | 'paragraph'
@@ -52,6 +53,7 @@ export interface Page {
   workspaceId?: string; // Optional for backward compatibility
   parentId?: string; // For nested pages
   isArchived?: boolean;
+  archivedAt?: Date | null; // When the page was moved to the trash
   isPublic?: boolean;
   tags?: string[];
   type?: 'document' | 'canvas' | 'kanban' | string;
@@ -76,6 +78,8 @@ export interface Workspace {
   settings?: {
     theme?: 'light' | 'dark' | 'auto';
     defaultView?: 'list' | 'grid';
+    historyRetention?: HistoryRetention; // Applied when versions are pruned (see functions/src/index.ts)
+    trashRetentionDays?: number; // Pages in the trash are purged after this many days; 0 keeps them
   };
 }
 